@@ -1,6 +1,6 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { AuthProvider } from './components/AuthProvider'
-import { AuthGuard, GuestGuard, OwnerGuard } from './components/AuthGuard'
+import { AuthGuard, GuestGuard, PermissionGuard } from './components/AuthGuard'
 import ModalManager from './components/ModalManager'
 import FlowManager from './components/FlowManager'
 import AuthPage from './pages/AuthPage'
@@ -13,7 +13,13 @@ import MyAccountPage from './pages/MyAccountPage'
 import CRMPage from './pages/CRMPage'
 import ContactDetailPage from './pages/ContactDetailPage'
 import DealsPage from './pages/DealsPage'
+import DealDetailPage from './pages/DealDetailPage'
+import DealForecastPage from './pages/DealForecastPage'
+import TimesheetPage from './pages/TimesheetPage'
 import SkillsPage from './pages/SkillsPage'
+import CalendarPage from './pages/CalendarPage'
+import CompanySettingsPage from './pages/CompanySettingsPage'
+import AcceptInvitationPage from './pages/AcceptInvitationPage'
 import { 
   DocumentsLandingPage,
   ContractsPage, 
@@ -24,9 +30,14 @@ import {
   CreateInvoicePage,
   ContractDetailPage,
   InvoiceDetailPage,
-  DocumentSettingsPage 
+  ReceivablesPage,
+  QuotesPage,
+  CreateQuotePage,
+  QuoteDetailPage,
+  DocumentSettingsPage,
+  ContractClausesPage
 } from './pages/documents'
-import { PublicContractPage, PublicInvoicePage } from './pages/public'
+import { PublicContractPage, PublicInvoicePage, PublicQuotePage } from './pages/public'
 
 function App() {
   return (
@@ -106,6 +117,14 @@ function App() {
               </AuthGuard>
             }
           />
+          <Route
+            path="/timesheets"
+            element={
+              <AuthGuard>
+                <TimesheetPage />
+              </AuthGuard>
+            }
+          />
           <Route
             path="/crm"
             element={
@@ -130,12 +149,28 @@ function App() {
               </AuthGuard>
             }
           />
+          <Route
+            path="/deals/forecast"
+            element={
+              <AuthGuard>
+                <DealForecastPage />
+              </AuthGuard>
+            }
+          />
+          <Route
+            path="/deals/:id"
+            element={
+              <AuthGuard>
+                <DealDetailPage />
+              </AuthGuard>
+            }
+          />
           <Route
             path="/skills"
             element={
-              <OwnerGuard>
+              <PermissionGuard action="view" resource="skills">
                 <SkillsPage />
-              </OwnerGuard>
+              </PermissionGuard>
             }
           />
           <Route
@@ -157,9 +192,9 @@ function App() {
           <Route
             path="/documents/contracts/create"
             element={
-              <AuthGuard>
+              <PermissionGuard action="create" resource="contracts">
                 <CreateContractPage />
-              </AuthGuard>
+              </PermissionGuard>
             }
           />
           <Route
@@ -171,13 +206,21 @@ function App() {
             }
           />
           <Route
-            path="/documents/contracts/templates/:id"
+            path="/documents/contracts/clauses"
             element={
               <AuthGuard>
-                <ContractTemplateBuilderPage />
+                <ContractClausesPage />
               </AuthGuard>
             }
           />
+          <Route
+            path="/documents/contracts/templates/:id"
+            element={
+              <PermissionGuard action="update" resource="templates">
+                <ContractTemplateBuilderPage />
+              </PermissionGuard>
+            }
+          />
           <Route
             path="/documents/contracts/:id"
             element={
@@ -197,8 +240,16 @@ function App() {
           <Route
             path="/documents/invoices/create"
             element={
-              <AuthGuard>
+              <PermissionGuard action="create" resource="invoices">
                 <CreateInvoicePage />
+              </PermissionGuard>
+            }
+          />
+          <Route
+            path="/documents/invoices/aging"
+            element={
+              <AuthGuard>
+                <ReceivablesPage />
               </AuthGuard>
             }
           />
@@ -211,15 +262,39 @@ function App() {
             }
           />
           <Route
-            path="/documents/settings"
+            path="/documents/quotes"
             element={
               <AuthGuard>
-                <DocumentSettingsPage />
+                <QuotesPage />
+              </AuthGuard>
+            }
+          />
+          <Route
+            path="/documents/quotes/create"
+            element={
+              <PermissionGuard action="create" resource="quotes">
+                <CreateQuotePage />
+              </PermissionGuard>
+            }
+          />
+          <Route
+            path="/documents/quotes/:id"
+            element={
+              <AuthGuard>
+                <QuoteDetailPage />
               </AuthGuard>
             }
           />
+          <Route
+            path="/documents/settings"
+            element={
+              <PermissionGuard action="update" resource="document_settings">
+                <DocumentSettingsPage />
+              </PermissionGuard>
+            }
+          />
           
-          {/* Public routes for contracts and invoices (token-based auth) */}
+          {/* Public routes for contracts, invoices and quotes (token-based auth) */}
           <Route
             path="/public/contracts/:token"
             element={<PublicContractPage />}
@@ -228,11 +303,15 @@ function App() {
             path="/public/invoices/:token"
             element={<PublicInvoicePage />}
           />
+          <Route
+            path="/public/quotes/:token"
+            element={<PublicQuotePage />}
+          />
           <Route
             path="/calendar"
             element={
               <AuthGuard>
-                <DashboardPage />
+                <CalendarPage />
               </AuthGuard>
             }
           />
@@ -240,7 +319,15 @@ function App() {
             path="/settings"
             element={
               <AuthGuard>
-                <DashboardPage />
+                <CompanySettingsPage />
+              </AuthGuard>
+            }
+          />
+          <Route
+            path="/company-invitations/:token"
+            element={
+              <AuthGuard>
+                <AcceptInvitationPage />
               </AuthGuard>
             }
           />
@@ -1,6 +1,8 @@
 import { ReactNode } from 'react'
 import { Navigate, useLocation } from 'react-router-dom'
 import { useAuthStore } from '../stores/auth'
+import { usePermissions } from '../hooks/usePermissions'
+import type { Action, Resource } from '../lib/permissions'
 
 interface AuthGuardProps {
   children: ReactNode
@@ -69,6 +71,53 @@ export function OwnerGuard({ children }: OwnerGuardProps) {
   return <>{children}</>
 }
 
+interface PermissionGuardProps {
+  action: Action
+  resource: Resource
+  children: ReactNode
+}
+
+/**
+ * PermissionGuard protects routes that require a specific permission.
+ * Builds on AuthGuard and redirects to /dashboard if the user's role
+ * in the current company lacks the permission.
+ */
+export function PermissionGuard({ action, resource, children }: PermissionGuardProps) {
+  return (
+    <AuthGuard>
+      <RequirePermission action={action} resource={resource}>
+        {children}
+      </RequirePermission>
+    </AuthGuard>
+  )
+}
+
+function RequirePermission({ action, resource, children }: PermissionGuardProps) {
+  const { can } = usePermissions()
+
+  if (!can(action, resource)) {
+    return <Navigate to="/dashboard" replace />
+  }
+
+  return <>{children}</>
+}
+
+interface CanProps {
+  action: Action
+  resource: Resource
+  children: ReactNode
+  fallback?: ReactNode
+}
+
+/**
+ * Can renders its children only when the user has the permission.
+ * Use for buttons and menu items; pass `fallback` to render a disabled variant.
+ */
+export function Can({ action, resource, children, fallback = null }: CanProps) {
+  const { can } = usePermissions()
+  return <>{can(action, resource) ? children : fallback}</>
+}
+
 interface GuestGuardProps {
   children: ReactNode
 }
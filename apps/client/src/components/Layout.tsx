@@ -28,10 +28,15 @@ import {
   Maximize2,
   FileSignature,
   Receipt,
+  Timer,
 } from 'lucide-react'
 import { useAuthStore } from '../stores/auth'
 import { useChatStore } from '../stores/chat'
 import { useChatActions } from '../hooks/useAIStream'
+import { usePermissions } from '../hooks/usePermissions'
+import { useElapsedSeconds } from '../hooks/useElapsedSeconds'
+import { useTimeTrackingStore } from '../stores/timeTracking'
+import { formatClock } from '../lib/duration'
 import AISuggestions from './AISuggestions'
 import ChatMessages from './ChatMessages'
 import CompanySwitcher from './CompanySwitcher'
@@ -89,6 +94,7 @@ const menuItems = [
   { id: 'home', label: 'Home', icon: Home, path: '/dashboard' },
   { id: 'projects', label: 'Projects', icon: CheckSquare, path: '/projects' },
   { id: 'tasks', label: 'My Tasks', icon: Zap, path: '/tasks' },
+  { id: 'timesheets', label: 'Timesheets', icon: Timer, path: '/timesheets' },
   { id: 'crm', label: 'CRM', icon: Users, path: '/crm' },
   { 
     id: 'documents', 
@@ -120,10 +126,29 @@ interface LayoutProps {
 export default function Layout({ children }: LayoutProps) {
   const navigate = useNavigate()
   const location = useLocation()
-  const { user, company, signOut, isLoading } = useAuthStore()
+  const { user, signOut, isLoading } = useAuthStore()
   
-  // Check if user is owner of current company
-  const isOwner = company?.pivot?.role_in_company === 'owner'
+  // Only roles allowed to configure AI skills see the settings shortcut
+  const { can } = usePermissions()
+  const canConfigureSkills = can('view', 'skills')
+  
+  // Running timer indicator, shared with the task drawer
+  const { runningEntry, fetchRunningEntry, stopTimer } = useTimeTrackingStore()
+  const timerElapsed = useElapsedSeconds(runningEntry?.started_at)
+  const [timerError, setTimerError] = useState<string | null>(null)
+
+  const handleStopTimer = async (id: string) => {
+    setTimerError(null)
+    const result = await stopTimer(id)
+    if (!result.success) {
+      setTimerError(result.error || 'Failed to stop timer')
+      setTimeout(() => setTimerError(null), 5000)
+    }
+  }
+
+  useEffect(() => {
+    fetchRunningEntry()
+  }, [fetchRunningEntry])
   
   // Chat store and actions
   const { messages, isStreaming } = useChatStore()
@@ -589,6 +614,35 @@ export default function Layout({ children }: LayoutProps) {
 
           {/* Right Side Actions */}
           <div className="flex items-center gap-3">
+            {/* Running Timer */}
+            {runningEntry && (
+              <div
+                className={`flex items-center gap-1 rounded-full bg-base-200 pl-3 pr-1 h-10 ${
+                  timerError ? 'tooltip tooltip-bottom tooltip-error tooltip-open' : ''
+                }`}
+                data-tip={timerError || undefined}
+              >
+                <button
+                  onClick={() => navigate('/timesheets')}
+                  className="flex items-center gap-2 text-sm"
+                  title={`Tracking time on ${runningEntry.task?.title || 'a task'}`}
+                >
+                  <span className="w-2 h-2 rounded-full bg-error animate-pulse" />
+                  <span className="hidden md:inline max-w-40 truncate text-base-content/70">
+                    {runningEntry.task?.title}
+                  </span>
+                  <span className="font-mono tabular-nums">{formatClock(timerElapsed)}</span>
+                </button>
+                <button
+                  onClick={() => handleStopTimer(runningEntry.id)}
+                  className="w-8 h-8 rounded-full hover:bg-base-300 flex items-center justify-center transition-colors"
+                  title="Stop timer"
+                >
+                  <Square className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
             {/* AI Chat Toggle Button - Only show when chat is closed */}
             {!chatSidebarOpen && (
               <button
@@ -701,8 +755,8 @@ export default function Layout({ children }: LayoutProps) {
                     <RotateCcw className="w-4 h-4" />
                   </button>
                 )}
-                {/* AI Skills Settings Button - only show for owners */}
-                {isOwner && (
+                {/* AI Skills Settings Button - only show for roles that can configure skills */}
+                {canConfigureSkills && (
                   <button
                     onClick={() => navigate('/skills')}
                     className="p-2 rounded-lg hover:bg-base-300 transition-colors text-base-content/70 hover:text-base-content"
@@ -899,8 +953,8 @@ export default function Layout({ children }: LayoutProps) {
                   <RotateCcw className="w-4 h-4" />
                 </button>
               )}
-              {/* AI Skills Settings Button - only show for owners */}
-              {isOwner && (
+              {/* AI Skills Settings Button - only show for roles that can configure skills */}
+              {canConfigureSkills && (
                 <button
                   onClick={() => navigate('/skills')}
                   className="p-2 rounded-lg hover:bg-base-300 transition-colors text-base-content/70 hover:text-base-content"
@@ -1092,8 +1146,8 @@ export default function Layout({ children }: LayoutProps) {
                     <RotateCcw className="w-4 h-4" />
                   </button>
                 )}
-                {/* AI Skills Settings Button - only show for owners */}
-                {isOwner && (
+                {/* AI Skills Settings Button - only show for roles that can configure skills */}
+                {canConfigureSkills && (
                   <button
                     onClick={() => {
                       setChatSidebarOpen(false)
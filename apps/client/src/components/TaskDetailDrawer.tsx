@@ -20,6 +20,7 @@ import {
 import { api } from '../lib/api'
 import FileUploadButton from './FileUploadButton'
 import AttachmentList, { type Attachment } from './AttachmentList'
+import TaskTimeTracker from './TaskTimeTracker'
 import { type UploadedFile } from '../hooks/useFileUpload'
 
 interface TaskComment {
@@ -116,7 +117,7 @@ export default function TaskDetailDrawer({
   const drawerRef = useRef<HTMLDivElement>(null)
   const commentInputRef = useRef<HTMLTextAreaElement>(null)
   
-  const [activeTab, setActiveTab] = useState<'comments' | 'details' | 'activity'>('comments')
+  const [activeTab, setActiveTab] = useState<'comments' | 'details' | 'time' | 'activity'>('comments')
   const [taskData, setTaskData] = useState({
     title: '',
     description: '',
@@ -438,6 +439,16 @@ export default function TaskDetailDrawer({
             >
               Details
             </button>
+            <button
+              onClick={() => setActiveTab('time')}
+              className={`pb-2 px-1 text-sm font-medium transition-colors border-b-2 ${
+                activeTab === 'time'
+                  ? 'text-primary border-primary'
+                  : 'text-base-content/70 hover:text-base-content border-transparent'
+              }`}
+            >
+              Time
+            </button>
             <button
               onClick={() => setActiveTab('activity')}
               className={`pb-2 px-1 text-sm font-medium transition-colors border-b-2 ${
@@ -811,6 +822,9 @@ export default function TaskDetailDrawer({
               </div>
             )}
             
+            {/* Time Tab */}
+            {activeTab === 'time' && <TaskTimeTracker taskId={task.id} />}
+            
             {/* Activity Tab */}
             {activeTab === 'activity' && (
               <div className="space-y-4">
@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Play, Square, Plus, Trash2, Loader2, Timer, DollarSign } from 'lucide-react'
+import { useAuthStore } from '../stores/auth'
+import { useTimeTrackingStore } from '../stores/timeTracking'
+import { useElapsedSeconds } from '../hooks/useElapsedSeconds'
+import { formatClock, formatDuration, parseDuration, toDateInput } from '../lib/duration'
+import type { TimeEntry } from '../types/timeTracking'
+
+interface TaskTimeTrackerProps {
+  taskId: string
+}
+
+export default function TaskTimeTracker({ taskId }: TaskTimeTrackerProps) {
+  const user = useAuthStore((state) => state.user)
+  const {
+    runningEntry,
+    startTimer,
+    stopTimer,
+    fetchTaskEntries,
+    createEntry,
+    updateEntry,
+    deleteEntry,
+  } = useTimeTrackingStore()
+
+  const [entries, setEntries] = useState<TimeEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isToggling, setIsToggling] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Manual entry form
+  const [manual, setManual] = useState({
+    date: toDateInput(new Date()),
+    duration: '',
+    notes: '',
+    is_billable: true,
+  })
+  const [isAdding, setIsAdding] = useState(false)
+
+  const isRunningHere = runningEntry?.task?.id === taskId
+  const elapsed = useElapsedSeconds(isRunningHere ? runningEntry?.started_at : null)
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true)
+    const result = await fetchTaskEntries(taskId)
+    if (result.success) {
+      setEntries(result.data || [])
+    } else {
+      setError(result.error || null)
+    }
+    setIsLoading(false)
+  }, [fetchTaskEntries, taskId])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const handleToggleTimer = async () => {
+    setIsToggling(true)
+    setError(null)
+    const result = isRunningHere && runningEntry
+      ? await stopTimer(runningEntry.id)
+      : await startTimer(taskId)
+    if (!result.success) {
+      setError(result.error || null)
+    }
+    await loadEntries()
+    setIsToggling(false)
+  }
+
+  const handleAddEntry = async () => {
+    const minutes = parseDuration(manual.duration)
+    if (!minutes) {
+      setError('Enter a duration like 1:30, 1.5h or 90m')
+      return
+    }
+
+    setIsAdding(true)
+    setError(null)
+    const result = await createEntry({
+      task_id: taskId,
+      // Local midday keeps the entry on the chosen day whatever the timezone
+      started_at: new Date(`${manual.date}T12:00:00`).toISOString(),
+      duration_minutes: minutes,
+      notes: manual.notes.trim() || null,
+      is_billable: manual.is_billable,
+    })
+    if (result.success) {
+      setManual({ ...manual, duration: '', notes: '' })
+      await loadEntries()
+    } else {
+      setError(result.error || null)
+    }
+    setIsAdding(false)
+  }
+
+  const handleToggleBillable = async (entry: TimeEntry) => {
+    const result = await updateEntry(entry.id, { is_billable: !entry.is_billable })
+    if (result.success && result.data) {
+      const updated = result.data
+      setEntries((prev) => prev.map((e) => (e.id === updated.id ? updated : e)))
+    } else {
+      setError(result.error || null)
+    }
+  }
+
+  const handleDelete = async (entry: TimeEntry) => {
+    if (!confirm('Delete this time entry?')) return
+    const result = await deleteEntry(entry.id)
+    if (result.success) {
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id))
+    } else {
+      setError(result.error || null)
+    }
+  }
+
+  // Running timers are counted live; the list only has their duration at load time
+  const entrySeconds = (entry: TimeEntry) =>
+    entry.is_running && entry.id === runningEntry?.id ? elapsed : entry.duration_seconds
+  const totalSeconds = entries.reduce((sum, entry) => sum + entrySeconds(entry), 0)
+  const billableSeconds = entries
+    .filter((entry) => entry.is_billable)
+    .reduce((sum, entry) => sum + entrySeconds(entry), 0)
+
+  return (
+    <div className="space-y-4">
+      {/* Timer */}
+      <div className="bg-base-200 rounded-xl p-4 flex items-center justify-between gap-3">
+        <div>
+          <div className="text-3xl font-mono font-semibold tabular-nums">
+            {formatClock(isRunningHere ? elapsed : 0)}
+          </div>
+          <div className="text-xs text-base-content/60 mt-1">
+            {isRunningHere
+              ? 'Timer running'
+              : runningEntry
+                ? `Starting stops the timer on "${runningEntry.task?.title}"`
+                : 'No timer running'}
+          </div>
+        </div>
+        <button
+          onClick={handleToggleTimer}
+          disabled={isToggling}
+          className={`btn gap-2 ${isRunningHere ? 'btn-error' : 'btn-primary'}`}
+        >
+          {isToggling ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : isRunningHere ? (
+            <Square className="w-4 h-4" />
+          ) : (
+            <Play className="w-4 h-4" />
+          )}
+          {isRunningHere ? 'Stop' : 'Start timer'}
+        </button>
+      </div>
+
+      {error && <div className="alert alert-error text-sm py-2">{error}</div>}
+
+      {/* Manual Entry */}
+      <div className="bg-base-200 rounded-xl p-4 space-y-3">
+        <h4 className="text-sm font-medium text-base-content/80">Add time manually</h4>
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            type="date"
+            value={manual.date}
+            onChange={(e) => setManual({ ...manual, date: e.target.value })}
+            className="input input-bordered input-sm w-full"
+          />
+          <input
+            type="text"
+            value={manual.duration}
+            onChange={(e) => setManual({ ...manual, duration: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                handleAddEntry()
+              }
+            }}
+            placeholder="Duration, e.g. 1:30"
+            className="input input-bordered input-sm w-full"
+          />
+        </div>
+        <textarea
+          value={manual.notes}
+          onChange={(e) => setManual({ ...manual, notes: e.target.value })}
+          placeholder="What did you work on? (optional)"
+          className="textarea textarea-bordered textarea-sm w-full resize-none"
+          rows={2}
+        />
+        <div className="flex justify-between items-center">
+          <label className="label cursor-pointer gap-2 p-0">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-sm"
+              checked={manual.is_billable}
+              onChange={(e) => setManual({ ...manual, is_billable: e.target.checked })}
+            />
+            <span className="label-text text-sm">Billable</span>
+          </label>
+          <button
+            onClick={handleAddEntry}
+            disabled={!manual.duration.trim() || isAdding}
+            className="btn btn-sm btn-outline gap-1"
+          >
+            {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add entry
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-medium text-base-content/80">
+          Time entries · {formatDuration(totalSeconds)}
+          {billableSeconds !== totalSeconds && (
+            <span className="text-base-content/60 font-normal"> ({formatDuration(billableSeconds)} billable)</span>
+          )}
+        </h4>
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+      </div>
+
+      {entries.length > 0 ? (
+        <div className="space-y-2">
+          {entries.map((entry) => {
+            const isOwn = entry.user?.id === user?.id
+            return (
+              <div key={entry.id} className="bg-base-200 rounded-lg p-3 flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">{entry.user?.name || 'User'}</span>
+                    <span className="text-base-content/60">
+                      {new Date(entry.started_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </span>
+                    {entry.is_running && <span className="badge badge-sm badge-primary">Running</span>}
+                  </div>
+                  {entry.notes && (
+                    <p className="text-sm text-base-content/80 mt-1 whitespace-pre-line">{entry.notes}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <span className="font-mono text-sm tabular-nums mr-1">{formatDuration(entrySeconds(entry))}</span>
+                  <button
+                    onClick={() => handleToggleBillable(entry)}
+                    disabled={!isOwn}
+                    className={`btn btn-ghost btn-xs btn-circle ${entry.is_billable ? 'text-success' : 'text-base-content/40'}`}
+                    title={entry.is_billable ? 'Billable' : 'Non-billable'}
+                  >
+                    <DollarSign className="w-4 h-4" />
+                  </button>
+                  {isOwn && !entry.is_running && (
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      className="btn btn-ghost btn-xs btn-circle text-base-content/60 hover:text-error"
+                      title="Delete entry"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        !isLoading && (
+          <div className="flex flex-col items-center justify-center bg-base-200 rounded-xl p-8 text-base-content/60">
+            <Timer className="w-10 h-10 mb-2 opacity-40" />
+            <p className="text-sm">No time tracked yet</p>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,390 @@
+import { useState, useEffect } from 'react'
+import {
+  X,
+  Plus,
+  Trash2,
+  ChevronUp,
+  ChevronDown,
+  Loader2,
+  Save,
+  Trophy,
+  XCircle,
+} from 'lucide-react'
+import { usePipelineStore, type PipelineStageInput } from '../../stores/pipelines'
+import type { DealPipeline, StageColor } from '../../types/deals'
+import { STAGE_COLORS, getStageStyle } from './stageColors'
+
+interface PipelineEditorModalProps {
+  isOpen: boolean
+  pipelineId: string | null
+  onClose: () => void
+  onSaved?: (pipeline: DealPipeline) => void
+}
+
+type StageMarker = 'open' | 'won' | 'lost'
+
+interface StageDraft extends PipelineStageInput {
+  draftId: string
+}
+
+const NEW_PIPELINE_STAGES: PipelineStageInput[] = [
+  { name: 'Lead', color: 'info', probability: 10, is_won: false, is_lost: false },
+  { name: 'In Progress', color: 'warning', probability: 50, is_won: false, is_lost: false },
+  { name: 'Won', color: 'success', probability: 100, is_won: true, is_lost: false },
+  { name: 'Lost', color: 'error', probability: 0, is_won: false, is_lost: true },
+]
+
+let draftCounter = 0
+const toDraft = (stage: PipelineStageInput): StageDraft => ({ ...stage, draftId: `draft-${++draftCounter}` })
+
+const markerOf = (stage: PipelineStageInput): StageMarker =>
+  stage.is_won ? 'won' : stage.is_lost ? 'lost' : 'open'
+
+export default function PipelineEditorModal({ isOpen, pipelineId, onClose, onSaved }: PipelineEditorModalProps) {
+  const { pipelines, createPipeline, updatePipeline, deletePipeline } = usePipelineStore()
+
+  // null = creating a new pipeline
+  const [editingId, setEditingId] = useState<string | null>(pipelineId)
+  const [name, setName] = useState('')
+  const [isDefault, setIsDefault] = useState(false)
+  const [stages, setStages] = useState<StageDraft[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) setEditingId(pipelineId)
+  }, [isOpen, pipelineId])
+
+  // Load the pipeline being edited into the draft
+  useEffect(() => {
+    if (!isOpen) return
+    const pipeline = pipelines.find((p) => p.id === editingId)
+    setError(null)
+
+    if (pipeline) {
+      setName(pipeline.name)
+      setIsDefault(pipeline.is_default)
+      setStages(pipeline.stages.map((s) => toDraft({
+        id: s.id,
+        name: s.name,
+        color: s.color,
+        probability: s.probability,
+        is_won: s.is_won,
+        is_lost: s.is_lost,
+      })))
+    } else {
+      setName('')
+      setIsDefault(false)
+      setStages(NEW_PIPELINE_STAGES.map(toDraft))
+    }
+  }, [isOpen, editingId, pipelines])
+
+  const editingPipeline = pipelines.find((p) => p.id === editingId) ?? null
+
+  const updateStage = (draftId: string, updates: Partial<PipelineStageInput>) => {
+    setStages((prev) => prev.map((s) => (s.draftId === draftId ? { ...s, ...updates } : s)))
+  }
+
+  // Only one stage may carry each closed marker
+  const setMarker = (draftId: string, marker: StageMarker) => {
+    setStages((prev) => prev.map((s) => {
+      if (s.draftId === draftId) {
+        return {
+          ...s,
+          is_won: marker === 'won',
+          is_lost: marker === 'lost',
+          probability: marker === 'won' ? 100 : marker === 'lost' ? 0 : s.probability,
+        }
+      }
+      return {
+        ...s,
+        is_won: marker === 'won' ? false : s.is_won,
+        is_lost: marker === 'lost' ? false : s.is_lost,
+      }
+    }))
+  }
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    setStages((prev) => {
+      const target = index + direction
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const addStage = () => {
+    // Insert before the closed stages so they stay at the end of the board
+    setStages((prev) => {
+      const firstClosed = prev.findIndex((s) => s.is_won || s.is_lost)
+      const insertAt = firstClosed === -1 ? prev.length : firstClosed
+      const next = [...prev]
+      next.splice(insertAt, 0, toDraft({ name: '', color: 'primary', probability: 50, is_won: false, is_lost: false }))
+      return next
+    })
+  }
+
+  const removeStage = (draftId: string) => {
+    setStages((prev) => prev.filter((s) => s.draftId !== draftId))
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Pipeline name is required')
+      return
+    }
+    if (stages.some((s) => !s.name.trim())) {
+      setError('Every stage needs a name')
+      return
+    }
+    if (!stages.some((s) => !s.is_won && !s.is_lost)) {
+      setError('A pipeline needs at least one open stage')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    const payload = {
+      name: name.trim(),
+      is_default: isDefault,
+      stages: stages.map((s) => ({
+        id: s.id,
+        name: s.name.trim(),
+        color: s.color,
+        probability: Math.min(100, Math.max(0, Math.round(s.probability))),
+        is_won: s.is_won,
+        is_lost: s.is_lost,
+      })),
+    }
+
+    const result = editingId
+      ? await updatePipeline(editingId, payload)
+      : await createPipeline(payload)
+
+    setIsSaving(false)
+
+    if (!result.success || !result.pipeline) {
+      setError(result.error || 'Failed to save pipeline')
+      return
+    }
+
+    setEditingId(result.pipeline.id)
+    onSaved?.(result.pipeline)
+  }
+
+  const handleDelete = async () => {
+    if (!editingPipeline || !confirm(`Delete the "${editingPipeline.name}" pipeline?`)) return
+
+    setIsDeleting(true)
+    const result = await deletePipeline(editingPipeline.id)
+    setIsDeleting(false)
+
+    if (!result.success) {
+      setError(result.error || 'Failed to delete pipeline')
+      return
+    }
+
+    setEditingId(pipelines.find((p) => p.is_default)?.id ?? null)
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box w-11/12 max-w-3xl bg-base-200">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-base-content">Manage Pipelines</h3>
+          <button onClick={onClose} className="btn btn-ghost btn-sm btn-square">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Pipeline picker */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {pipelines.map((pipeline) => (
+            <button
+              key={pipeline.id}
+              onClick={() => setEditingId(pipeline.id)}
+              className={`btn btn-sm ${editingId === pipeline.id ? 'btn-primary' : 'btn-ghost'}`}
+            >
+              {pipeline.name}
+              {pipeline.is_default && <span className="badge badge-xs">default</span>}
+            </button>
+          ))}
+          <button
+            onClick={() => setEditingId(null)}
+            className={`btn btn-sm gap-1 ${editingId === null ? 'btn-primary' : 'btn-ghost'}`}
+          >
+            <Plus className="w-3 h-3" />
+            New Pipeline
+          </button>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="alert alert-error mb-4">
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {/* Name & default */}
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="form-control flex-1">
+              <label className="label">
+                <span className="label-text">Pipeline Name *</span>
+              </label>
+              <input
+                type="text"
+                placeholder="e.g., Partnerships"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="input input-bordered w-full"
+              />
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer pb-3">
+              <input
+                type="checkbox"
+                checked={isDefault}
+                onChange={(e) => setIsDefault(e.target.checked)}
+                className="checkbox checkbox-sm"
+                disabled={editingPipeline?.is_default}
+              />
+              <span className="text-sm text-base-content/70">Default pipeline</span>
+            </label>
+          </div>
+
+          {/* Stages */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="label-text">Stages</span>
+              <button onClick={addStage} className="btn btn-ghost btn-xs gap-1">
+                <Plus className="w-3 h-3" />
+                Add Stage
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              {stages.map((stage, index) => {
+                const style = getStageStyle(stage.color)
+                return (
+                  <div key={stage.draftId} className="flex items-center gap-2 bg-base-100 rounded-lg p-2">
+                    <div className="flex flex-col">
+                      <button
+                        onClick={() => moveStage(index, -1)}
+                        className="btn btn-ghost btn-xs btn-square h-4 min-h-0"
+                        disabled={index === 0}
+                        title="Move up"
+                      >
+                        <ChevronUp className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => moveStage(index, 1)}
+                        className="btn btn-ghost btn-xs btn-square h-4 min-h-0"
+                        disabled={index === stages.length - 1}
+                        title="Move down"
+                      >
+                        <ChevronDown className="w-3 h-3" />
+                      </button>
+                    </div>
+
+                    <span className={`w-3 h-3 rounded-full flex-shrink-0 ${style.dot}`} />
+
+                    <input
+                      type="text"
+                      placeholder="Stage name"
+                      value={stage.name}
+                      onChange={(e) => updateStage(stage.draftId, { name: e.target.value })}
+                      className="input input-bordered input-sm flex-1 min-w-0"
+                    />
+
+                    <select
+                      value={stage.color}
+                      onChange={(e) => updateStage(stage.draftId, { color: e.target.value as StageColor })}
+                      className="select select-bordered select-sm w-28"
+                    >
+                      {(Object.keys(STAGE_COLORS) as StageColor[]).map((color) => (
+                        <option key={color} value={color}>{STAGE_COLORS[color].label}</option>
+                      ))}
+                    </select>
+
+                    <div className="relative w-20">
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={stage.probability}
+                        onChange={(e) => updateStage(stage.draftId, { probability: Number(e.target.value) })}
+                        className="input input-bordered input-sm w-full pr-6"
+                        disabled={stage.is_won || stage.is_lost}
+                        title="Win probability"
+                      />
+                      <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-base-content/50">%</span>
+                    </div>
+
+                    <select
+                      value={markerOf(stage)}
+                      onChange={(e) => setMarker(stage.draftId, e.target.value as StageMarker)}
+                      className="select select-bordered select-sm w-32"
+                    >
+                      <option value="open">Open</option>
+                      <option value="won">Closed won</option>
+                      <option value="lost">Closed lost</option>
+                    </select>
+
+                    <span className="w-4 flex-shrink-0">
+                      {stage.is_won && <Trophy className="w-4 h-4 text-success" />}
+                      {stage.is_lost && <XCircle className="w-4 h-4 text-error" />}
+                    </span>
+
+                    <button
+                      onClick={() => removeStage(stage.draftId)}
+                      className="btn btn-ghost btn-xs btn-square text-error"
+                      disabled={stages.length <= 1}
+                      title="Remove stage"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                )
+              })}
+            </div>
+            <p className="text-xs text-base-content/50 mt-2">
+              Stages that still hold deals can't be removed. Weighted pipeline value uses these probabilities.
+            </p>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-between gap-3 pt-6">
+          <div>
+            {editingPipeline && !editingPipeline.is_default && (
+              <button
+                onClick={handleDelete}
+                className="btn btn-ghost text-error gap-2"
+                disabled={isDeleting || isSaving}
+              >
+                {isDeleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                Delete Pipeline
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="btn btn-ghost" disabled={isSaving}>
+              Close
+            </button>
+            <button onClick={handleSave} className="btn btn-primary gap-2" disabled={isSaving || isDeleting}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {editingId ? 'Save Pipeline' : 'Create Pipeline'}
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onClose}></div>
+    </div>
+  )
+}
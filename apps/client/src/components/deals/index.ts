@@ -0,0 +1,5 @@
+// Components
+export { default as PipelineEditorModal } from './PipelineEditorModal'
+
+// Helpers
+export { STAGE_COLORS, getStageStyle } from './stageColors'
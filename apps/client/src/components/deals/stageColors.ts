@@ -0,0 +1,25 @@
+import type { StageColor } from '../../types/deals'
+
+interface StageStyle {
+  label: string
+  text: string
+  bg: string
+  bar: string
+  dot: string
+}
+
+// Full class names so Tailwind keeps them in the build
+export const STAGE_COLORS: Record<StageColor, StageStyle> = {
+  primary: { label: 'Primary', text: 'text-primary', bg: 'bg-primary/10', bar: 'bg-primary', dot: 'bg-primary' },
+  secondary: { label: 'Secondary', text: 'text-secondary', bg: 'bg-secondary/10', bar: 'bg-secondary', dot: 'bg-secondary' },
+  accent: { label: 'Accent', text: 'text-accent', bg: 'bg-accent/10', bar: 'bg-accent', dot: 'bg-accent' },
+  info: { label: 'Blue', text: 'text-info', bg: 'bg-info/10', bar: 'bg-info', dot: 'bg-info' },
+  success: { label: 'Green', text: 'text-success', bg: 'bg-success/10', bar: 'bg-success', dot: 'bg-success' },
+  warning: { label: 'Yellow', text: 'text-warning', bg: 'bg-warning/10', bar: 'bg-warning', dot: 'bg-warning' },
+  error: { label: 'Red', text: 'text-error', bg: 'bg-error/10', bar: 'bg-error', dot: 'bg-error' },
+  neutral: { label: 'Grey', text: 'text-base-content/70', bg: 'bg-base-300/60', bar: 'bg-neutral', dot: 'bg-neutral' },
+}
+
+export function getStageStyle(color: string | null | undefined): StageStyle {
+  return STAGE_COLORS[color as StageColor] ?? STAGE_COLORS.primary
+}
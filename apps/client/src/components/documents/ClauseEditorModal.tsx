@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { ClockIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { TiptapEditor } from './TiptapEditor';
+import { useContractStore } from '../../stores/contracts';
+import type { ContractClause, ContractClauseVersion } from '../../types/documents';
+
+interface ClauseEditorModalProps {
+  /** Clause to edit; leave out to create one */
+  clause?: ContractClause | null;
+  onClose: () => void;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+const parseTags = (value: string) =>
+  value
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Create or edit a library clause. Saving changed text creates a new
+ * version; earlier versions can be loaded back into the editor.
+ */
+function ClauseEditorModal({ clause, onClose }: ClauseEditorModalProps) {
+  const { createClause, updateClause, fetchClause } = useContractStore();
+  const [name, setName] = useState(clause?.name || '');
+  const [description, setDescription] = useState(clause?.description || '');
+  const [tags, setTags] = useState((clause?.tags || []).join(', '));
+  const [html, setHtml] = useState(clause?.html || '');
+  const [changeSummary, setChangeSummary] = useState('');
+  const [versions, setVersions] = useState<ContractClauseVersion[]>([]);
+  // Remounts the editor when a version is loaded into it
+  const [editorKey, setEditorKey] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!clause) return;
+    fetchClause(clause.id)
+      .then((full) => setVersions(full.versions || []))
+      .catch((err) => console.error('Failed to load clause versions:', err));
+  }, [clause, fetchClause]);
+
+  const textChanged = !!clause && html !== clause.html;
+  const canSave = name.trim() !== '' && html.replace(/<[^>]*>/g, '').trim() !== '' && !isSaving;
+
+  const handleRestore = (version: ContractClauseVersion) => {
+    setHtml(version.html);
+    setChangeSummary(`Restored version ${version.version_number}`);
+    setEditorKey((key) => key + 1);
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    setError(null);
+    const data = {
+      name: name.trim(),
+      description: description.trim() || null,
+      tags: parseTags(tags),
+      html,
+      change_summary: changeSummary.trim() || null,
+    };
+    try {
+      if (clause) {
+        await updateClause(clause.id, data);
+      } else {
+        await createClause(data);
+      }
+      onClose();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save clause'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-4xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg">
+            {clause ? `Edit Clause · v${clause.version}` : 'New Clause'}
+          </h3>
+          <button onClick={onClose} className="btn btn-ghost btn-sm btn-circle" type="button">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="alert alert-error mb-4">
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="form-control">
+                <span className="label-text text-sm mb-1">Name</span>
+                <input
+                  type="text"
+                  className="input input-bordered input-sm"
+                  placeholder="e.g. Confidentiality"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </label>
+              <label className="form-control">
+                <span className="label-text text-sm mb-1">Tags</span>
+                <input
+                  type="text"
+                  className="input input-bordered input-sm"
+                  placeholder="e.g. legal, ip"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                />
+              </label>
+            </div>
+            <label className="form-control">
+              <span className="label-text text-sm mb-1">Description</span>
+              <input
+                type="text"
+                className="input input-bordered input-sm"
+                placeholder="When to use this clause"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </label>
+            <div className="border border-base-300 rounded-lg px-3 py-2">
+              <TiptapEditor key={editorKey} content={html} onChange={setHtml} placeholder="Clause text..." />
+            </div>
+            {textChanged && (
+              <label className="form-control">
+                <span className="label-text text-sm mb-1">What changed?</span>
+                <input
+                  type="text"
+                  className="input input-bordered input-sm"
+                  placeholder="Optional note for the version history"
+                  value={changeSummary}
+                  onChange={(e) => setChangeSummary(e.target.value)}
+                />
+              </label>
+            )}
+            {clause && !!clause.usage_count && textChanged && (
+              <p className="text-xs text-warning">
+                Saves version {clause.version + 1}. Linked sections in templates update; copies are flagged as outdated.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-sm mb-2 flex items-center gap-1">
+              <ClockIcon className="w-4 h-4" />
+              Versions
+            </h4>
+            {!clause ? (
+              <p className="text-sm text-base-content/60">Saving creates version 1.</p>
+            ) : (
+              <ul className="space-y-2 max-h-80 overflow-y-auto">
+                {versions.map((version) => (
+                  <li key={version.id} className="text-sm p-2 rounded-lg bg-base-200">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">v{version.version_number}</span>
+                      {version.version_number !== clause.version && (
+                        <button type="button" className="btn btn-ghost btn-xs" onClick={() => handleRestore(version)}>
+                          Restore
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-xs text-base-content/60">
+                      {new Date(version.created_at).toLocaleDateString()}
+                      {version.creator && ` · ${version.creator.first_name} ${version.creator.last_name}`}
+                    </div>
+                    {version.change_summary && <div className="text-xs mt-1">{version.change_summary}</div>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="modal-action">
+          <button type="button" className="btn btn-ghost" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="button" className="btn btn-primary" onClick={handleSave} disabled={!canSave}>
+            {isSaving && <span className="loading loading-spinner loading-sm"></span>}
+            {clause ? 'Save Clause' : 'Create Clause'}
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onClose} />
+    </div>
+  );
+}
+
+export { ClauseEditorModal };
+export default ClauseEditorModal;
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { BookOpenIcon, LinkIcon, DocumentDuplicateIcon, MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
+import type { ContractClause } from '../../types/documents';
+
+interface ClausePickerModalProps {
+  onInsert: (clause: ContractClause, linked: boolean) => void;
+  onClose: () => void;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+/**
+ * Pick a clause from the library to insert into a template, either linked
+ * to the library or as a detached copy.
+ */
+function ClausePickerModal({ onInsert, onClose }: ClausePickerModalProps) {
+  const { clauses, fetchClauses } = useContractStore();
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [tag, setTag] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchClauses()
+      .catch((err) => setError(errorMessage(err, 'Failed to load clauses')))
+      .finally(() => setIsFetching(false));
+  }, [fetchClauses]);
+
+  const tags = [...new Set(clauses.flatMap((clause) => clause.tags || []))].sort();
+  const term = search.trim().toLowerCase();
+  const filtered = clauses.filter(
+    (clause) =>
+      (!tag || clause.tags?.includes(tag)) &&
+      (!term || clause.name.toLowerCase().includes(term) || clause.description?.toLowerCase().includes(term))
+  );
+  const selected = filtered.find((clause) => clause.id === selectedId) || filtered[0];
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-4xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <BookOpenIcon className="w-6 h-6 text-primary" />
+            Insert Clause
+          </h3>
+          <button onClick={onClose} className="btn btn-ghost btn-sm btn-circle" type="button">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="alert alert-error mb-4">
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2 mb-4">
+          <div className="flex-1 relative">
+            <MagnifyingGlassIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-base-content/50" />
+            <input
+              type="text"
+              className="input input-bordered input-sm w-full pl-9"
+              placeholder="Search clauses..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <select className="select select-bordered select-sm" value={tag} onChange={(e) => setTag(e.target.value)}>
+            <option value="">All tags</option>
+            {tags.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isFetching ? (
+          <div className="flex justify-center py-12">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : clauses.length === 0 ? (
+          <div className="text-center py-12">
+            <BookOpenIcon className="w-12 h-12 text-base-content/30 mx-auto" />
+            <p className="text-base-content/70 mt-3">Your clause library is empty.</p>
+            <Link to="/documents/contracts/clauses" className="btn btn-primary btn-sm mt-4">
+              Open Clause Library
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <ul className="md:col-span-2 max-h-96 overflow-y-auto space-y-1">
+              {filtered.length === 0 && <li className="text-sm text-base-content/60 p-2">No clauses match.</li>}
+              {filtered.map((clause) => (
+                <li key={clause.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(clause.id)}
+                    className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                      selected?.id === clause.id ? 'bg-primary/10 text-primary' : 'hover:bg-base-200'
+                    }`}
+                  >
+                    <div className="font-medium truncate">{clause.name}</div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <span className="badge badge-ghost badge-xs">v{clause.version}</span>
+                      {clause.tags?.map((t) => (
+                        <span key={t} className="badge badge-outline badge-xs">
+                          {t}
+                        </span>
+                      ))}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="md:col-span-3">
+              {selected && (
+                <>
+                  {selected.description && <p className="text-sm text-base-content/70 mb-2">{selected.description}</p>}
+                  <div
+                    className="prose prose-sm max-w-none max-h-72 overflow-y-auto p-4 rounded-lg bg-base-200"
+                    dangerouslySetInnerHTML={{ __html: selected.html }}
+                  />
+                  <div className="flex flex-wrap justify-end gap-2 mt-4">
+                    <button type="button" className="btn btn-ghost btn-sm" onClick={() => onInsert(selected, false)}>
+                      <DocumentDuplicateIcon className="w-4 h-4" />
+                      Insert Copy
+                    </button>
+                    <button type="button" className="btn btn-primary btn-sm" onClick={() => onInsert(selected, true)}>
+                      <LinkIcon className="w-4 h-4" />
+                      Insert Linked
+                    </button>
+                  </div>
+                  <p className="text-xs text-base-content/50 text-right mt-2">
+                    Linked clauses update when the library changes; copies can be edited freely.
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="modal-backdrop" onClick={onClose} />
+    </div>
+  );
+}
+
+export { ClausePickerModal };
+export default ClausePickerModal;
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { ChatBubbleLeftRightIcon } from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
+import { sectionText } from '../../lib/diff';
+import type { Contract, ContractComment } from '../../types/documents';
+
+interface ContractChangeRequestPanelProps {
+  token: string;
+  contract: Contract;
+  /** Prefilled author name, e.g. the signer the link belongs to */
+  defaultName?: string;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+const excerpt = (text: string) => (text.length > 80 ? `${text.slice(0, 80)}…` : text);
+
+/**
+ * Lets the client ask for changes to a contract before signing, optionally
+ * pointing at the section they mean, and shows what they have asked so far.
+ */
+function ContractChangeRequestPanel({ token, contract, defaultName = '' }: ContractChangeRequestPanelProps) {
+  const commentOnContract = useContractStore((state) => state.commentOnContract);
+  const [comments, setComments] = useState<ContractComment[]>(contract.comments || []);
+  const [isOpen, setIsOpen] = useState(false);
+  const [authorName, setAuthorName] = useState(defaultName);
+  const [sectionId, setSectionId] = useState('');
+  const [body, setBody] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sections = [...(contract.rendered_sections || [])]
+    .sort((a, b) => a.order - b.order)
+    .filter((section) => section.id && section.type !== 'signature' && sectionText(section).trim());
+
+  const handleSubmit = async () => {
+    if (!body.trim() || !authorName.trim()) return;
+
+    const section = sections.find((s) => s.id === sectionId);
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const comment = await commentOnContract(token, {
+        body: body.trim(),
+        author_name: authorName.trim(),
+        author_email: contract.current_signer?.email || contract.contact?.email || undefined,
+        section_id: section?.id,
+        quoted_text: section ? excerpt(sectionText(section)) : undefined,
+      });
+      setComments((current) => [...current, comment]);
+      setBody('');
+      setSectionId('');
+      setIsOpen(false);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to send your request'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="card bg-base-200">
+      <div className="card-body p-6">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <h2 className="text-xl font-semibold">
+            <ChatBubbleLeftRightIcon className="w-5 h-5 inline mr-2" />
+            Questions or Changes?
+          </h2>
+          {!isOpen && (
+            <button type="button" className="btn btn-ghost btn-sm" onClick={() => setIsOpen(true)}>
+              Request Changes
+            </button>
+          )}
+        </div>
+
+        {comments.length > 0 && (
+          <div className="space-y-2 mt-4">
+            {comments.map((comment) => (
+              <div key={comment.id} className="p-3 bg-base-100 rounded-lg border border-base-300 text-sm space-y-1">
+                <p className="text-base-content/60">
+                  <span className="font-medium text-base-content">{comment.author_name}</span> ·{' '}
+                  {new Date(comment.created_at).toLocaleString()}
+                  {comment.resolved_at && <span className="badge badge-success badge-sm ml-2">Addressed</span>}
+                </p>
+                {comment.quoted_text && (
+                  <blockquote className="border-l-2 border-base-300 pl-2 text-base-content/60 italic">
+                    {comment.quoted_text}
+                  </blockquote>
+                )}
+                <p className="whitespace-pre-line">{comment.body}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isOpen && (
+          <div className="space-y-3 mt-4">
+            {error && (
+              <div className="alert alert-error">
+                <span>{error}</span>
+              </div>
+            )}
+            <input
+              type="text"
+              className="input input-bordered w-full"
+              placeholder="Your name"
+              value={authorName}
+              onChange={(e) => setAuthorName(e.target.value)}
+              disabled={!!contract.current_signer}
+            />
+            <select className="select select-bordered w-full" value={sectionId} onChange={(e) => setSectionId(e.target.value)}>
+              <option value="">The whole contract</option>
+              {sections.map((section) => (
+                <option key={section.id} value={section.id}>
+                  {excerpt(sectionText(section))}
+                </option>
+              ))}
+            </select>
+            <textarea
+              className="textarea textarea-bordered w-full"
+              rows={4}
+              maxLength={5000}
+              placeholder="Describe the change you'd like"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <button type="button" className="btn btn-ghost" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="btn btn-primary"
+                onClick={handleSubmit}
+                disabled={isSubmitting || !body.trim() || !authorName.trim()}
+              >
+                {isSubmitting && <span className="loading loading-spinner loading-sm"></span>}
+                Send Request
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export { ContractChangeRequestPanel };
+export default ContractChangeRequestPanel;
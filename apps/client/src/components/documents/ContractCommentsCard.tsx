@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { ChatBubbleLeftRightIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
+import type { ContractComment } from '../../types/documents';
+
+interface ContractCommentsCardProps {
+  contractId: string;
+}
+
+/**
+ * Comments and change requests the client left while reviewing the contract.
+ */
+function ContractCommentsCard({ contractId }: ContractCommentsCardProps) {
+  const { fetchContractComments, resolveContractComment } = useContractStore();
+  const [comments, setComments] = useState<ContractComment[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchContractComments(contractId)
+      .then(setComments)
+      .catch((err) => console.error('Failed to load contract comments:', err));
+  }, [contractId, fetchContractComments]);
+
+  const toggleResolved = async (comment: ContractComment) => {
+    setUpdatingId(comment.id);
+    try {
+      const updated = await resolveContractComment(contractId, comment.id, !comment.resolved_at);
+      setComments((current) => current.map((c) => (c.id === updated.id ? updated : c)));
+    } catch (err) {
+      console.error('Failed to update comment:', err);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (comments.length === 0) return null;
+
+  const openCount = comments.filter((comment) => !comment.resolved_at).length;
+  const visible = showResolved ? comments : comments.filter((comment) => !comment.resolved_at);
+
+  return (
+    <div className="card bg-base-200">
+      <div className="card-body p-6">
+        <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+          <h2 className="text-lg font-semibold">
+            <ChatBubbleLeftRightIcon className="w-5 h-5 inline mr-2" />
+            Change Requests
+            {openCount > 0 && <span className="badge badge-warning badge-sm ml-2">{openCount} open</span>}
+          </h2>
+          <label className="label cursor-pointer gap-2">
+            <span className="label-text text-sm">Show resolved</span>
+            <input
+              type="checkbox"
+              className="toggle toggle-sm"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.target.checked)}
+            />
+          </label>
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="text-sm text-base-content/60">All change requests have been resolved.</p>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((comment) => (
+              <div
+                key={comment.id}
+                className={`p-3 bg-base-100 rounded-lg border border-base-300 ${comment.resolved_at ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm">
+                      <span className="font-medium">{comment.author_name}</span>
+                      <span className="text-base-content/60">
+                        {comment.version && ` on v${comment.version.version_number}`} ·{' '}
+                        {new Date(comment.created_at).toLocaleString()}
+                      </span>
+                    </p>
+                    {comment.quoted_text && (
+                      <blockquote className="border-l-2 border-base-300 pl-2 text-sm text-base-content/60 italic">
+                        {comment.quoted_text}
+                      </blockquote>
+                    )}
+                    <p className="text-sm whitespace-pre-line">{comment.body}</p>
+                  </div>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs shrink-0"
+                    onClick={() => toggleResolved(comment)}
+                    disabled={updatingId === comment.id}
+                  >
+                    {comment.resolved_at ? (
+                      'Reopen'
+                    ) : (
+                      <>
+                        <CheckCircleIcon className="w-4 h-4" /> Resolve
+                      </>
+                    )}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export { ContractCommentsCard };
+export default ContractCommentsCard;
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { TiptapEditor } from './TiptapEditor';
+import { useContractStore } from '../../stores/contracts';
+import type { Contract, TemplateSection } from '../../types/documents';
+
+interface ContractContentEditorProps {
+  contract: Contract;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+const renumber = (sections: TemplateSection[]) => sections.map((section, index) => ({ ...section, order: index }));
+
+/**
+ * Modal for revising a contract's text. Each save is kept as a new version.
+ */
+function ContractContentEditor({ contract, onClose, onSaved }: ContractContentEditorProps) {
+  const reviseContract = useContractStore((state) => state.reviseContract);
+  const [title, setTitle] = useState(contract.title);
+  const [sections, setSections] = useState<TemplateSection[]>(() =>
+    [...(contract.rendered_sections || [])].sort((a, b) => a.order - b.order)
+  );
+  const [clickwrapText, setClickwrapText] = useState(contract.clickwrap_text || '');
+  const [changeSummary, setChangeSummary] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSent = contract.status === 'sent' || contract.status === 'viewed';
+
+  const updateContent = (index: number, changes: Record<string, unknown>) => {
+    setSections((current) =>
+      current.map((section, i) => (i === index ? { ...section, content: { ...section.content, ...changes } } : section))
+    );
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    setSections((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return renumber(next);
+    });
+  };
+
+  const removeSection = (index: number) => {
+    setSections((current) => renumber(current.filter((_, i) => i !== index)));
+  };
+
+  const addSection = (type: 'heading' | 'paragraph') => {
+    setSections((current) =>
+      renumber([
+        ...current,
+        {
+          id: `contract-section-${Date.now()}-${current.length}`,
+          type,
+          content: type === 'heading' ? { text: '' } : { html: '' },
+          order: current.length,
+        },
+      ])
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await reviseContract(contract.id, {
+        title: title.trim(),
+        rendered_sections: sections,
+        clickwrap_text: clickwrapText,
+        change_summary: changeSummary.trim() || undefined,
+      });
+      onSaved();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save changes'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderEditor = (section: TemplateSection, index: number) => {
+    switch (section.type) {
+      case 'heading':
+        return (
+          <input
+            type="text"
+            className="input input-bordered input-sm w-full font-semibold"
+            value={section.content?.text || ''}
+            onChange={(e) => updateContent(index, { text: e.target.value })}
+          />
+        );
+      case 'paragraph':
+        return (
+          <TiptapEditor
+            content={section.content?.html || ''}
+            onChange={(html) => updateContent(index, { html })}
+            placeholder="Type your content here..."
+          />
+        );
+      case 'list':
+        return (
+          <textarea
+            className="textarea textarea-bordered w-full text-sm"
+            rows={Math.max(3, (section.content?.items || []).length)}
+            value={(section.content?.items || []).join('\n')}
+            onChange={(e) => updateContent(index, { items: e.target.value.split('\n') })}
+            placeholder="One item per line"
+          />
+        );
+      case 'signature':
+        return (
+          <input
+            type="text"
+            className="input input-bordered input-sm w-full"
+            value={section.content?.label || ''}
+            onChange={(e) => updateContent(index, { label: e.target.value })}
+            placeholder="Signature label"
+          />
+        );
+      default:
+        return <p className="text-sm text-base-content/60">This section can't be edited here.</p>;
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box bg-base-200 max-w-4xl">
+        <h3 className="font-bold text-lg mb-1">Edit Contract</h3>
+        <p className="text-sm text-base-content/60 mb-4">
+          Saving keeps the current text as a version you can compare against.
+          {isSent && ' The contract goes back to draft and has to be sent again.'}
+        </p>
+
+        {error && (
+          <div className="alert alert-error mb-4">
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text">Title</span>
+            </label>
+            <input
+              type="text"
+              className="input input-bordered"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          {sections.map((section, index) => (
+            <div key={section.id || index} className="p-3 bg-base-100 rounded-lg border border-base-300 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-base-content/60 capitalize">{section.type}</span>
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs btn-square"
+                    onClick={() => moveSection(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                  >
+                    <ArrowUpIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs btn-square"
+                    onClick={() => moveSection(index, 1)}
+                    disabled={index === sections.length - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDownIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs btn-square"
+                    onClick={() => removeSection(index)}
+                    aria-label="Remove section"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {renderEditor(section, index)}
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <button type="button" className="btn btn-ghost btn-sm" onClick={() => addSection('heading')}>
+              <PlusIcon className="w-4 h-4" /> Heading
+            </button>
+            <button type="button" className="btn btn-ghost btn-sm" onClick={() => addSection('paragraph')}>
+              <PlusIcon className="w-4 h-4" /> Paragraph
+            </button>
+          </div>
+
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text">Agreement text</span>
+            </label>
+            <textarea
+              className="textarea textarea-bordered"
+              rows={2}
+              value={clickwrapText}
+              onChange={(e) => setClickwrapText(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="form-control mt-4">
+          <label className="label">
+            <span className="label-text">What changed? (optional)</span>
+          </label>
+          <input
+            type="text"
+            className="input input-bordered"
+            maxLength={500}
+            placeholder="e.g. Extended payment terms to 45 days as requested"
+            value={changeSummary}
+            onChange={(e) => setChangeSummary(e.target.value)}
+          />
+        </div>
+
+        <div className="modal-action">
+          <button className="btn btn-ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={handleSave} disabled={isSaving || !title.trim()}>
+            {isSaving && <span className="loading loading-spinner loading-sm"></span>}
+            Save Version
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onClose}></div>
+    </div>
+  );
+}
+
+export { ContractContentEditor };
+export default ContractContentEditor;
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
+import type { Contract, ContractRenewalType } from '../../types/documents';
+
+interface ContractRenewalCardProps {
+  contract: Contract;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+/**
+ * How the contract renews at the end of its term, and a shortcut to generate
+ * the renewal contract once it's signed.
+ */
+function ContractRenewalCard({ contract }: ContractRenewalCardProps) {
+  const navigate = useNavigate();
+  const { updateRenewalSettings, renewContract } = useContractStore();
+  const [renewalType, setRenewalType] = useState<ContractRenewalType>(contract.renewal_type || 'none');
+  const [termMonths, setTermMonths] = useState(contract.renewal_term_months?.toString() || '');
+  const [noticeDays, setNoticeDays] = useState(contract.notice_period_days?.toString() || '');
+  const [endsAt, setEndsAt] = useState(contract.ends_at?.slice(0, 10) || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDirty =
+    renewalType !== (contract.renewal_type || 'none') ||
+    termMonths !== (contract.renewal_term_months?.toString() || '') ||
+    noticeDays !== (contract.notice_period_days?.toString() || '') ||
+    endsAt !== (contract.ends_at?.slice(0, 10) || '');
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateRenewalSettings(contract.id, {
+        renewal_type: renewalType,
+        renewal_term_months: renewalType === 'none' ? null : toNumber(termMonths),
+        notice_period_days: toNumber(noticeDays),
+        ends_at: endsAt || null,
+      });
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save renewal settings'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRenew = async () => {
+    setIsRenewing(true);
+    setError(null);
+    try {
+      const renewal = await renewContract(contract.id);
+      navigate(`/documents/contracts/${renewal.id}`);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create renewal'));
+      setIsRenewing(false);
+    }
+  };
+
+  return (
+    <div className="card bg-base-200">
+      <div className="card-body p-6">
+        <h2 className="text-lg font-semibold mb-4">
+          <ArrowPathIcon className="w-5 h-5 inline mr-2" />
+          Renewal
+        </h2>
+
+        {error && (
+          <div className="alert alert-error mb-4">
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <label className="form-control">
+            <span className="label-text text-sm mb-1">Term ends</span>
+            <input
+              type="date"
+              className="input input-bordered input-sm"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+            />
+            {!endsAt && contract.status !== 'signed' && (
+              <span className="label-text-alt text-base-content/60 mt-1">
+                Set on signing from the renewal term, or 12 months without one
+              </span>
+            )}
+          </label>
+
+          <select
+            className="select select-bordered select-sm w-full"
+            value={renewalType}
+            onChange={(e) => setRenewalType(e.target.value as ContractRenewalType)}
+          >
+            <option value="none">Ends with the term</option>
+            <option value="manual">Renew with a new contract</option>
+            <option value="auto">Renew automatically</option>
+          </select>
+
+          {renewalType !== 'none' && (
+            <label className="form-control">
+              <span className="label-text text-sm mb-1">Renewal term (months)</span>
+              <input
+                type="number"
+                min={1}
+                max={120}
+                className="input input-bordered input-sm"
+                placeholder="12"
+                value={termMonths}
+                onChange={(e) => setTermMonths(e.target.value)}
+              />
+            </label>
+          )}
+
+          <label className="form-control">
+            <span className="label-text text-sm mb-1">Notice period (days before the term ends)</span>
+            <input
+              type="number"
+              min={0}
+              max={365}
+              className="input input-bordered input-sm"
+              placeholder="None"
+              value={noticeDays}
+              onChange={(e) => setNoticeDays(e.target.value)}
+            />
+          </label>
+
+          <button
+            type="button"
+            className={`btn btn-sm w-full ${saved ? 'btn-success' : 'btn-ghost'}`}
+            onClick={handleSave}
+            disabled={isSaving || !isDirty}
+          >
+            {isSaving && <span className="loading loading-spinner loading-sm"></span>}
+            {saved ? 'Saved' : 'Save Settings'}
+          </button>
+        </div>
+
+        {(contract.renewed_from || contract.renewal) && (
+          <div className="mt-4 pt-4 border-t border-base-300 space-y-1 text-sm">
+            {contract.renewed_from && (
+              <p>
+                Renews{' '}
+                <Link to={`/documents/contracts/${contract.renewed_from.id}`} className="link link-primary">
+                  #{contract.renewed_from.contract_number}
+                </Link>
+              </p>
+            )}
+            {contract.renewal && (
+              <p>
+                Renewed by{' '}
+                <Link to={`/documents/contracts/${contract.renewal.id}`} className="link link-primary">
+                  #{contract.renewal.contract_number}
+                </Link>{' '}
+                <span className="text-base-content/60">({contract.renewal.status})</span>
+              </p>
+            )}
+          </div>
+        )}
+
+        {contract.status === 'signed' && !contract.renewal && (
+          <button type="button" className="btn btn-primary btn-sm w-full mt-4" onClick={handleRenew} disabled={isRenewing}>
+            {isRenewing && <span className="loading loading-spinner loading-sm"></span>}
+            Generate Renewal
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export { ContractRenewalCard };
+export default ContractRenewalCard;
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import { ArrowPathIcon, CalendarDaysIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
+import type { Contract, ContractRenewal, ContractRenewalType } from '../../types/documents';
+
+const WINDOWS = [30, 60, 90] as const;
+
+const RENEWAL_LABELS: Record<ContractRenewalType, string> = {
+  none: 'Ends',
+  manual: 'Manual renewal',
+  auto: 'Auto-renews',
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+/**
+ * Signed contracts whose term ends in the next 30, 60 or 90 days, with the
+ * option to generate a renewal for each.
+ */
+function ContractRenewalsPanel() {
+  const navigate = useNavigate();
+  const { fetchRenewals, renewContract } = useContractStore();
+  const [days, setDays] = useState<number>(30);
+  const [renewals, setRenewals] = useState<ContractRenewal[]>([]);
+  const [withoutTermEnd, setWithoutTermEnd] = useState<Contract[]>([]);
+  const [isFetching, setIsFetching] = useState(true);
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsFetching(true);
+    fetchRenewals(days)
+      .then((list) => {
+        setRenewals(list.renewals);
+        setWithoutTermEnd(list.without_term_end);
+      })
+      .catch((err) => setError(errorMessage(err, 'Failed to load renewals')))
+      .finally(() => setIsFetching(false));
+  }, [days, fetchRenewals]);
+
+  const handleRenew = async (contract: ContractRenewal) => {
+    setRenewingId(contract.id);
+    setError(null);
+    try {
+      const renewal = await renewContract(contract.id);
+      navigate(`/documents/contracts/${renewal.id}`);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create renewal'));
+      setRenewingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <p className="text-base-content/70">
+          Signed contracts ending in the next {days} days that haven't been renewed yet.
+        </p>
+        <select
+          className="select select-bordered select-sm"
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+        >
+          {WINDOWS.map((window) => (
+            <option key={window} value={window}>
+              Next {window} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="alert alert-error">
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!isFetching && withoutTermEnd.length > 0 && (
+        <div className="alert alert-warning items-start">
+          <ExclamationTriangleIcon className="w-5 h-5 shrink-0" />
+          <div>
+            <p>
+              {withoutTermEnd.length === 1 ? '1 signed contract has' : `${withoutTermEnd.length} signed contracts have`} no
+              term end, so {withoutTermEnd.length === 1 ? "it won't" : "they won't"} come up for renewal. Set one under
+              Renewal on the contract:
+            </p>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+              {withoutTermEnd.map((contract) => (
+                <Link key={contract.id} to={`/documents/contracts/${contract.id}`} className="link font-medium">
+                  {contract.contract_number ? `#${contract.contract_number}` : contract.title}
+                </Link>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isFetching ? (
+        <div className="flex justify-center items-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : renewals.length === 0 ? (
+        <div className="card bg-base-200">
+          <div className="card-body items-center text-center py-12">
+            <CalendarDaysIcon className="w-16 h-16 text-base-content/30" />
+            <h3 className="text-xl font-semibold mt-4">Nothing up for renewal</h3>
+            <p className="text-base-content/70 mt-2">No signed contracts end in the next {days} days.</p>
+          </div>
+        </div>
+      ) : (
+        <div className="card bg-base-200">
+          <div className="card-body p-0">
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Contract</th>
+                    <th>Client</th>
+                    <th>Ends</th>
+                    <th>Renewal</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {renewals.map((contract) => (
+                    <tr key={contract.id}>
+                      <td>
+                        <Link to={`/documents/contracts/${contract.id}`} className="link link-hover font-medium">
+                          {contract.title}
+                        </Link>
+                        {contract.contract_number && (
+                          <div className="text-sm text-base-content/60">#{contract.contract_number}</div>
+                        )}
+                      </td>
+                      <td>{contract.contact?.full_name || '—'}</td>
+                      <td>
+                        <div>{contract.ends_at && new Date(contract.ends_at).toLocaleDateString()}</div>
+                        <div className={`text-sm ${contract.days_until_end <= 7 ? 'text-error' : 'text-base-content/60'}`}>
+                          {contract.days_until_end === 0
+                            ? 'Today'
+                            : `In ${contract.days_until_end} day${contract.days_until_end === 1 ? '' : 's'}`}
+                        </div>
+                      </td>
+                      <td>
+                        <div>{RENEWAL_LABELS[contract.renewal_type || 'none']}</div>
+                        {contract.in_notice_period ? (
+                          <span className="badge badge-warning badge-sm">In notice period</span>
+                        ) : (
+                          contract.notice_deadline && (
+                            <div className="text-sm text-base-content/60">
+                              Notice by {new Date(contract.notice_deadline).toLocaleDateString()}
+                            </div>
+                          )
+                        )}
+                      </td>
+                      <td className="text-right">
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-ghost"
+                          onClick={() => handleRenew(contract)}
+                          disabled={renewingId !== null}
+                        >
+                          {renewingId === contract.id ? (
+                            <span className="loading loading-spinner loading-sm"></span>
+                          ) : (
+                            <ArrowPathIcon className="w-4 h-4" />
+                          )}
+                          Renew
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { ContractRenewalsPanel };
+export default ContractRenewalsPanel;
@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import axios from 'axios';
+import {
+  CheckCircleIcon,
+  ClipboardDocumentIcon,
+  PlusIcon,
+  TrashIcon,
+  UserGroupIcon,
+} from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
+import type { Contract, ContractSigner, ContractSignerInput, ContractSignerRole, SigningMode } from '../../types/documents';
+
+interface ContractSignersCardProps {
+  contract: Contract;
+}
+
+const ROLE_LABELS: Record<ContractSignerRole, string> = {
+  client: 'Client',
+  provider: 'Provider',
+  witness: 'Witness',
+};
+
+const STATUS_CONFIG: Record<ContractSigner['status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'badge-ghost' },
+  notified: { label: 'Emailed', className: 'badge-info' },
+  viewed: { label: 'Viewed', className: 'badge-primary' },
+  signed: { label: 'Signed', className: 'badge-success' },
+  declined: { label: 'Declined', className: 'badge-error' },
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+const toInput = (signer: ContractSigner): ContractSignerInput => ({
+  name: signer.name,
+  email: signer.email ?? '',
+  role: signer.role,
+  title: signer.title,
+  signing_order: signer.signing_order,
+});
+
+/**
+ * Signers of a contract: editable while the contract is a draft, and each
+ * signer's status and personal signing link once it has been sent.
+ */
+function ContractSignersCard({ contract }: ContractSignersCardProps) {
+  const saveSigners = useContractStore((state) => state.saveSigners);
+  const signers = contract.signers || [];
+  const isDraft = contract.status === 'draft';
+
+  const [mode, setMode] = useState<SigningMode>(contract.signing_mode || 'parallel');
+  const [rows, setRows] = useState<ContractSignerInput[]>(() => signers.map(toInput));
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setMode(contract.signing_mode || 'parallel');
+    setRows(
+      signers.length > 0
+        ? signers.map(toInput)
+        : [
+            {
+              name: contract.contact?.full_name || '',
+              email: contract.contact?.email || '',
+              role: 'client',
+              title: null,
+              signing_order: 1,
+            },
+          ]
+    );
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const updateRow = (index: number, changes: Partial<ContractSignerInput>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    setRows((current) => [
+      ...current,
+      {
+        name: '',
+        email: '',
+        role: 'client',
+        title: null,
+        signing_order: Math.max(0, ...current.map((row) => row.signing_order)) + 1,
+      },
+    ]);
+  };
+
+  const removeRow = (index: number) => {
+    setRows((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveSigners(contract.id, mode, rows);
+      setIsEditing(false);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save signers'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const copyLink = async (signer: ContractSigner) => {
+    if (!signer.token) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/public/contracts/${signer.token}`);
+      setCopiedId(signer.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  const canSave = rows.every((row) => row.name.trim() && row.email.trim() && row.signing_order > 0);
+  const signedCount = signers.filter((signer) => signer.status === 'signed').length;
+
+  // Single-signer contracts keep using the contract's own link once sent
+  if (!isDraft && signers.length === 0) return null;
+
+  return (
+    <div className="card bg-base-200">
+      <div className="card-body p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">
+            <UserGroupIcon className="w-5 h-5 inline mr-2" />
+            Signers
+          </h2>
+          {signers.length > 0 && !isEditing && (
+            <span className="text-sm text-base-content/60">
+              {signedCount}/{signers.length} signed ·{' '}
+              {contract.signing_mode === 'sequential' ? 'In order' : 'All at once'}
+            </span>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div className="space-y-4">
+            {error && (
+              <div className="alert alert-error">
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Signing order</span>
+              </label>
+              <select
+                className="select select-bordered select-sm w-fit"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as SigningMode)}
+              >
+                <option value="parallel">All at once</option>
+                <option value="sequential">In order (each step waits for the previous one)</option>
+              </select>
+            </div>
+
+            {rows.map((row, index) => (
+              <div key={index} className="p-3 bg-base-100 rounded-lg border border-base-300 space-y-2">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    className="input input-bordered input-sm"
+                    placeholder="Full name"
+                    value={row.name}
+                    onChange={(e) => updateRow(index, { name: e.target.value })}
+                  />
+                  <input
+                    type="email"
+                    className="input input-bordered input-sm"
+                    placeholder="Email"
+                    value={row.email}
+                    onChange={(e) => updateRow(index, { email: e.target.value })}
+                  />
+                  <input
+                    type="text"
+                    className="input input-bordered input-sm"
+                    placeholder="Title (optional)"
+                    value={row.title || ''}
+                    onChange={(e) => updateRow(index, { title: e.target.value || null })}
+                  />
+                  <div className="flex gap-2">
+                    <select
+                      className="select select-bordered select-sm flex-1"
+                      value={row.role}
+                      onChange={(e) => updateRow(index, { role: e.target.value as ContractSignerRole })}
+                    >
+                      {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    {mode === 'sequential' && (
+                      <input
+                        type="number"
+                        min={1}
+                        max={20}
+                        className="input input-bordered input-sm w-20"
+                        title="Step"
+                        value={row.signing_order}
+                        onChange={(e) => updateRow(index, { signing_order: Number(e.target.value) })}
+                      />
+                    )}
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-sm btn-square"
+                      onClick={() => removeRow(index)}
+                      aria-label="Remove signer"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {mode === 'sequential' && rows.length > 1 && (
+              <p className="text-xs text-base-content/60">
+                Signers with the same step sign at the same time. Later steps are emailed once earlier ones have signed.
+              </p>
+            )}
+
+            <div className="flex justify-between gap-2">
+              <button type="button" className="btn btn-ghost btn-sm" onClick={addRow}>
+                <PlusIcon className="w-4 h-4" /> Add Signer
+              </button>
+              <div className="flex gap-2">
+                <button type="button" className="btn btn-ghost btn-sm" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-primary btn-sm"
+                  onClick={handleSave}
+                  disabled={isSaving || !canSave}
+                >
+                  {isSaving && <span className="loading loading-spinner loading-xs"></span>}
+                  Save Signers
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : signers.length === 0 ? (
+          <div className="text-sm text-base-content/70 space-y-3">
+            <p>The client signs through the contract's link. Add signers to collect several signatures.</p>
+            <button type="button" className="btn btn-ghost btn-sm" onClick={startEditing}>
+              <PlusIcon className="w-4 h-4" /> Add Signers
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {signers.map((signer) => {
+              const status = STATUS_CONFIG[signer.status] || STATUS_CONFIG.pending;
+              return (
+                <div
+                  key={signer.id}
+                  className="flex items-center justify-between gap-3 p-3 bg-base-100 rounded-lg border border-base-300"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {contract.signing_mode === 'sequential' && (
+                        <span className="text-base-content/50 mr-1">{signer.signing_order}.</span>
+                      )}
+                      {signer.name}
+                      {signer.title && <span className="text-base-content/60 font-normal">, {signer.title}</span>}
+                    </p>
+                    <p className="text-xs text-base-content/60 truncate">
+                      {ROLE_LABELS[signer.role]} · {signer.email}
+                      {signer.signed_at && ` · signed ${new Date(signer.signed_at).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className={`badge badge-sm ${status.className}`}>{status.label}</span>
+                    {!isDraft && signer.token && signer.status !== 'signed' && (
+                      <button
+                        type="button"
+                        className="btn btn-ghost btn-xs"
+                        onClick={() => copyLink(signer)}
+                        title="Copy signing link"
+                      >
+                        {copiedId === signer.id ? (
+                          <CheckCircleIcon className="w-4 h-4 text-success" />
+                        ) : (
+                          <ClipboardDocumentIcon className="w-4 h-4" />
+                        )}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {isDraft && (
+              <button type="button" className="btn btn-ghost btn-sm" onClick={startEditing}>
+                Edit Signers
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export { ContractSignersCard };
+export default ContractSignersCard;
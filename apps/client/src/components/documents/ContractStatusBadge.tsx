@@ -1,7 +1,10 @@
 import type { Contract } from '../../types/documents';
+import type { SigningProgress } from '../../lib/contracts';
 
 interface ContractStatusBadgeProps {
   status: Contract['status'];
+  /** Signing progress of a multi-signer contract, shown while it is out for signature */
+  progress?: SigningProgress;
   className?: string;
 }
 
@@ -15,8 +18,18 @@ const STATUS_CONFIG = {
   cancelled: { label: 'Cancelled', className: 'badge-ghost' },
 };
 
-function ContractStatusBadge({ status, className = '' }: ContractStatusBadgeProps) {
+function ContractStatusBadge({ status, progress, className = '' }: ContractStatusBadgeProps) {
   const config = STATUS_CONFIG[status] || STATUS_CONFIG.draft;
+  const isPartiallySigned =
+    progress && progress.signed > 0 && progress.total > 1 && (status === 'sent' || status === 'viewed');
+
+  if (isPartiallySigned) {
+    return (
+      <span className={`badge badge-accent ${className}`}>
+        Signed {progress.signed}/{progress.total}
+      </span>
+    );
+  }
 
   return (
     <span className={`badge ${config.className} ${className}`}>
@@ -27,4 +40,3 @@ function ContractStatusBadge({ status, className = '' }: ContractStatusBadgeProp
 
 export { ContractStatusBadge };
 export default ContractStatusBadge;
-
@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
+import { diffSections, diffWords, type DiffPart, type SectionDiff } from '../../lib/diff';
+import type { ContractVersion } from '../../types/documents';
+
+interface ContractVersionDiffProps {
+  contractId: string;
+  /** Changes whenever a new version may have been saved, to reload the list */
+  refreshKey?: string;
+}
+
+const STATUS_CONFIG: Record<SectionDiff['status'], { label: string; className: string }> = {
+  unchanged: { label: 'Unchanged', className: 'badge-ghost' },
+  changed: { label: 'Changed', className: 'badge-warning' },
+  added: { label: 'Added', className: 'badge-success' },
+  removed: { label: 'Removed', className: 'badge-error' },
+};
+
+const versionLabel = (version: ContractVersion) =>
+  `v${version.version_number} · ${new Date(version.created_at).toLocaleString()}${
+    version.change_summary ? ` · ${version.change_summary}` : ''
+  }`;
+
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-relaxed">
+      {parts.map((part, index) => (
+        <span
+          key={index}
+          className={
+            part.op === 'removed'
+              ? 'bg-error/20 text-error line-through'
+              : part.op === 'added'
+                ? 'bg-success/20 text-success'
+                : undefined
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * Side-by-side comparison of any two saved versions of a contract, section by
+ * section with word-level highlighting.
+ */
+function ContractVersionDiff({ contractId, refreshKey }: ContractVersionDiffProps) {
+  const fetchContractVersions = useContractStore((state) => state.fetchContractVersions);
+  const [versions, setVersions] = useState<ContractVersion[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    fetchContractVersions(contractId)
+      .then((loaded) => {
+        setVersions(loaded);
+        // Default to the latest change
+        setFromId(loaded[loaded.length - 2]?.id || '');
+        setToId(loaded[loaded.length - 1]?.id || '');
+      })
+      .catch((err) => console.error('Failed to load contract versions:', err));
+  }, [contractId, refreshKey, fetchContractVersions]);
+
+  const from = versions.find((version) => version.id === fromId);
+  const to = versions.find((version) => version.id === toId);
+
+  const sections = useMemo(
+    () => (from && to ? diffSections(from.rendered_sections || [], to.rendered_sections || []) : []),
+    [from, to]
+  );
+
+  // Contracts edited fewer than twice have nothing to compare
+  if (versions.length < 2) return null;
+
+  const changedCount = sections.filter((section) => section.status !== 'unchanged').length;
+  const visibleSections = showUnchanged ? sections : sections.filter((section) => section.status !== 'unchanged');
+  const titleChanged = from && to && from.title !== to.title;
+  const clickwrapChanged = from && to && (from.clickwrap_text || '') !== (to.clickwrap_text || '');
+
+  return (
+    <div className="card bg-base-200">
+      <div className="card-body p-6">
+        <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+          <h2 className="text-lg font-semibold">
+            <ArrowsRightLeftIcon className="w-5 h-5 inline mr-2" />
+            Compare Versions
+          </h2>
+          <label className="label cursor-pointer gap-2">
+            <span className="label-text text-sm">Show unchanged sections</span>
+            <input
+              type="checkbox"
+              className="toggle toggle-sm"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+            />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          <select className="select select-bordered select-sm w-full" value={fromId} onChange={(e) => setFromId(e.target.value)}>
+            {versions.map((version) => (
+              <option key={version.id} value={version.id}>
+                {versionLabel(version)}
+              </option>
+            ))}
+          </select>
+          <select className="select select-bordered select-sm w-full" value={toId} onChange={(e) => setToId(e.target.value)}>
+            {versions.map((version) => (
+              <option key={version.id} value={version.id}>
+                {versionLabel(version)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {from && to && (
+          <div className="space-y-3">
+            <p className="text-sm text-base-content/60">
+              {fromId === toId
+                ? 'Pick two different versions to see what changed.'
+                : `${changedCount} of ${sections.length} sections differ`}
+            </p>
+
+            {titleChanged && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 p-3 bg-base-100 rounded-lg border border-base-300">
+                <div>
+                  <p className="text-xs text-base-content/60 mb-1">Title</p>
+                  <DiffText parts={diffWords(from.title, to.title).filter((part) => part.op !== 'added')} />
+                </div>
+                <div>
+                  <p className="text-xs text-base-content/60 mb-1">Title</p>
+                  <DiffText parts={diffWords(from.title, to.title).filter((part) => part.op !== 'removed')} />
+                </div>
+              </div>
+            )}
+
+            {visibleSections.map((section) => {
+              const status = STATUS_CONFIG[section.status];
+              return (
+                <div key={section.key} className="p-3 bg-base-100 rounded-lg border border-base-300">
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className={`badge badge-sm ${status.className}`}>{status.label}</span>
+                    <span className="text-xs text-base-content/60 capitalize">{section.type}</span>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div className="md:border-r md:border-base-300 md:pr-3">
+                      {section.before.length > 0 ? (
+                        <DiffText parts={section.before} />
+                      ) : (
+                        <p className="text-sm text-base-content/40 italic">Not in this version</p>
+                      )}
+                    </div>
+                    <div>
+                      {section.after.length > 0 ? (
+                        <DiffText parts={section.after} />
+                      ) : (
+                        <p className="text-sm text-base-content/40 italic">Not in this version</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            {clickwrapChanged && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 p-3 bg-base-100 rounded-lg border border-base-300">
+                <div>
+                  <p className="text-xs text-base-content/60 mb-1">Agreement text</p>
+                  <DiffText
+                    parts={diffWords(from.clickwrap_text || '', to.clickwrap_text || '').filter((part) => part.op !== 'added')}
+                  />
+                </div>
+                <div>
+                  <p className="text-xs text-base-content/60 mb-1">Agreement text</p>
+                  <DiffText
+                    parts={diffWords(from.clickwrap_text || '', to.clickwrap_text || '').filter((part) => part.op !== 'removed')}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export { ContractVersionDiff };
+export default ContractVersionDiff;
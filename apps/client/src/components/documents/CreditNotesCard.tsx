@@ -0,0 +1,318 @@
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import {
+  ArrowDownTrayIcon,
+  CheckCircleIcon,
+  DocumentMinusIcon,
+  NoSymbolIcon,
+  PlusIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { useInvoiceStore } from '../../stores/invoices';
+import { usePermissions } from '../../hooks/usePermissions';
+import { formatMoney } from '../../lib/currency';
+import type { CreditNote, Invoice, InvoiceCreditNotes } from '../../types/documents';
+
+interface CreditNotesCardProps {
+  invoiceId: string;
+  invoiceStatus: Invoice['status'];
+  currency: string;
+  amountPaid: number;
+  /** Called after a credit note changes the invoice so its totals and activity can be reloaded */
+  onChange?: () => void;
+}
+
+// Invoices that can still be credited, matching CreditNoteService::CREDITABLE_STATUSES
+const CREDITABLE_STATUSES: Invoice['status'][] = ['sent', 'viewed', 'overdue', 'partially_paid'];
+
+const STATUS_BADGES: Record<CreditNote['status'], { label: string; className: string }> = {
+  issued: { label: 'Issued', className: 'badge-info' },
+  applied: { label: 'Applied', className: 'badge-success' },
+  void: { label: 'Void', className: 'badge-ghost' },
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+type DialogKind = 'credit' | 'void_invoice' | null;
+
+function CreditNotesCard({ invoiceId, invoiceStatus, currency, amountPaid, onChange }: CreditNotesCardProps) {
+  const {
+    fetchCreditNotes,
+    issueCreditNote,
+    applyCreditNote,
+    voidCreditNote,
+    voidInvoice,
+    downloadCreditNotePdf,
+  } = useInvoiceStore();
+  const { can } = usePermissions();
+  const canEdit = can('update', 'invoices');
+
+  const [data, setData] = useState<InvoiceCreditNotes | null>(null);
+  const [dialog, setDialog] = useState<DialogKind>(null);
+  const [form, setForm] = useState({ full: true, amount: '', reason: '', apply: true });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCreditNotes = useCallback(async () => {
+    try {
+      setData(await fetchCreditNotes(invoiceId));
+    } catch (err) {
+      console.error('Failed to load credit notes:', err);
+    }
+  }, [fetchCreditNotes, invoiceId]);
+
+  useEffect(() => {
+    loadCreditNotes();
+  }, [loadCreditNotes]);
+
+  const refreshAll = async () => {
+    await loadCreditNotes();
+    onChange?.();
+  };
+
+  const openDialog = (kind: DialogKind) => {
+    setForm({ full: true, amount: data ? data.creditable_amount.toFixed(2) : '', reason: '', apply: true });
+    setError(null);
+    setDialog(kind);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dialog) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (dialog === 'void_invoice') {
+        await voidInvoice(invoiceId, form.reason);
+      } else {
+        await issueCreditNote(invoiceId, {
+          amount: form.full ? undefined : parseFloat(form.amount),
+          reason: form.reason,
+          apply: form.apply,
+        });
+      }
+      setDialog(null);
+      await refreshAll();
+    } catch (err) {
+      setError(errorMessage(err, dialog === 'void_invoice' ? 'Failed to void invoice' : 'Failed to issue credit note'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApply = async (creditNote: CreditNote) => {
+    if (!confirm(`Apply ${creditNote.credit_note_number}? The amount due will be reduced by ${formatMoney(creditNote.amount, currency)}.`)) return;
+    try {
+      await applyCreditNote(creditNote.id);
+      await refreshAll();
+    } catch (err) {
+      alert(errorMessage(err, 'Failed to apply credit note'));
+    }
+  };
+
+  const handleVoid = async (creditNote: CreditNote) => {
+    if (!confirm(`Void ${creditNote.credit_note_number}? It stays on record but no longer counts against the invoice.`)) return;
+    try {
+      await voidCreditNote(creditNote.id);
+      await refreshAll();
+    } catch (err) {
+      alert(errorMessage(err, 'Failed to void credit note'));
+    }
+  };
+
+  const handleDownload = async (creditNote: CreditNote) => {
+    try {
+      await downloadCreditNotePdf(creditNote);
+    } catch (err) {
+      alert(errorMessage(err, 'Failed to download credit note'));
+    }
+  };
+
+  const creditNotes = data?.credit_notes ?? [];
+  const isCreditable = CREDITABLE_STATUSES.includes(invoiceStatus);
+  const canCredit = canEdit && isCreditable && (data?.creditable_amount ?? 0) > 0;
+  const canVoidInvoice = canEdit && isCreditable && amountPaid <= 0;
+
+  if (!isCreditable && creditNotes.length === 0) return null;
+
+  return (
+    <div className="card bg-base-200 shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-base-content">
+          <DocumentMinusIcon className="w-5 h-5 inline mr-2" />
+          Credit Notes
+        </h2>
+        <div className="flex gap-2">
+          {canVoidInvoice && (
+            <button onClick={() => openDialog('void_invoice')} className="btn btn-ghost btn-sm text-error">
+              <NoSymbolIcon className="w-4 h-4" /> Void Invoice
+            </button>
+          )}
+          {canCredit && (
+            <button onClick={() => openDialog('credit')} className="btn btn-primary btn-sm">
+              <PlusIcon className="w-4 h-4" /> Issue Credit Note
+            </button>
+          )}
+        </div>
+      </div>
+
+      {creditNotes.length === 0 ? (
+        <p className="text-sm text-base-content/70">No credit notes issued</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-sm w-full">
+            <thead>
+              <tr>
+                <th className="text-base-content">Number</th>
+                <th className="text-base-content">Date</th>
+                <th className="text-base-content">Reason</th>
+                <th className="text-base-content text-right">Amount</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {creditNotes.map((creditNote) => (
+                <tr key={creditNote.id} className={creditNote.status === 'void' ? 'opacity-60' : ''}>
+                  <td className="text-base-content whitespace-nowrap">
+                    <div className="font-medium">{creditNote.credit_note_number}</div>
+                    <span className={`badge badge-xs ${STATUS_BADGES[creditNote.status].className}`}>
+                      {STATUS_BADGES[creditNote.status].label}
+                    </span>
+                  </td>
+                  <td className="text-base-content whitespace-nowrap">
+                    {new Date(creditNote.issue_date).toLocaleDateString()}
+                  </td>
+                  <td className="text-base-content/80 text-sm">
+                    {creditNote.reason || '—'}
+                    {creditNote.issued_by && (
+                      <div className="text-xs text-base-content/50">Issued by {creditNote.issued_by.name}</div>
+                    )}
+                  </td>
+                  <td className="text-right font-medium text-base-content">
+                    −{formatMoney(creditNote.amount, currency)}
+                  </td>
+                  <td className="text-right whitespace-nowrap">
+                    {canEdit && creditNote.status === 'issued' && (
+                      <>
+                        <button className="btn btn-ghost btn-xs" title="Apply" onClick={() => handleApply(creditNote)}>
+                          <CheckCircleIcon className="w-4 h-4" />
+                        </button>
+                        <button className="btn btn-ghost btn-xs text-error" title="Void" onClick={() => handleVoid(creditNote)}>
+                          <XMarkIcon className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                    <button className="btn btn-ghost btn-xs" title="Download PDF" onClick={() => handleDownload(creditNote)}>
+                      <ArrowDownTrayIcon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {dialog && (
+        <div className="modal modal-open">
+          <div className="modal-box bg-base-200">
+            <h3 className="font-semibold text-lg mb-4">
+              {dialog === 'void_invoice' ? 'Void Invoice' : 'Issue Credit Note'}
+            </h3>
+            {dialog === 'void_invoice' && (
+              <p className="text-sm text-base-content/70 mb-4">
+                A credit note for the full amount due of {formatMoney(data?.creditable_amount ?? 0, currency)} will be
+                issued and applied. Pending credit notes are voided. The invoice stays on record as void.
+              </p>
+            )}
+            <form onSubmit={handleSubmit} className="space-y-3">
+              {error && <div className="alert alert-error text-sm py-2">{error}</div>}
+              {dialog === 'credit' && (
+                <>
+                  <div className="flex gap-4">
+                    <label className="label cursor-pointer gap-2">
+                      <input
+                        type="radio"
+                        className="radio radio-sm radio-primary"
+                        checked={form.full}
+                        onChange={() => setForm({ ...form, full: true })}
+                      />
+                      <span className="label-text">
+                        Full ({formatMoney(data?.creditable_amount ?? 0, currency)})
+                      </span>
+                    </label>
+                    <label className="label cursor-pointer gap-2">
+                      <input
+                        type="radio"
+                        className="radio radio-sm radio-primary"
+                        checked={!form.full}
+                        onChange={() => setForm({ ...form, full: false })}
+                      />
+                      <span className="label-text">Partial</span>
+                    </label>
+                  </div>
+                  {!form.full && (
+                    <label className="form-control">
+                      <span className="label-text text-sm mb-1">Amount</span>
+                      <input
+                        type="number"
+                        min="0.01"
+                        max={data?.creditable_amount}
+                        step="0.01"
+                        required
+                        className="input input-bordered input-sm"
+                        value={form.amount}
+                        onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                      />
+                    </label>
+                  )}
+                </>
+              )}
+              <label className="form-control">
+                <span className="label-text text-sm mb-1">Reason</span>
+                <textarea
+                  className="textarea textarea-bordered textarea-sm"
+                  rows={3}
+                  required
+                  placeholder={dialog === 'void_invoice' ? 'Issued in error, duplicate…' : 'Discount agreed, returned goods…'}
+                  value={form.reason}
+                  onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                />
+              </label>
+              {dialog === 'credit' && (
+                <label className="label cursor-pointer justify-start gap-2">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm checkbox-primary"
+                    checked={form.apply}
+                    onChange={(e) => setForm({ ...form, apply: e.target.checked })}
+                  />
+                  <span className="label-text">Apply to the invoice now</span>
+                </label>
+              )}
+              <div className="modal-action">
+                <button type="button" className="btn btn-ghost btn-sm" onClick={() => setDialog(null)} disabled={isSaving}>
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className={`btn btn-sm ${dialog === 'void_invoice' ? 'btn-error' : 'btn-primary'}`}
+                  disabled={isSaving}
+                >
+                  {isSaving && <span className="loading loading-spinner loading-xs"></span>}
+                  {dialog === 'void_invoice' ? 'Void Invoice' : 'Issue Credit Note'}
+                </button>
+              </div>
+            </form>
+          </div>
+          <div className="modal-backdrop" onClick={() => !isSaving && setDialog(null)}></div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { CreditNotesCard };
+export default CreditNotesCard;
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { PlusIcon } from '@heroicons/react/24/outline';
+import {
+  CURRENCY_FORMATS,
+  DATE_FORMATS,
+  FIELD_CATEGORIES,
+  FIELD_TYPES,
+  isValidFieldKey,
+  keyFromLabel,
+} from './mergeFields';
+import type { CustomMergeFieldCategory, CustomMergeFieldInput, MergeField } from '../../types/documents';
+
+interface CustomMergeFieldFormProps {
+  onSubmit: (data: CustomMergeFieldInput) => Promise<boolean> | boolean;
+  /** Keys already taken, e.g. by built-in fields */
+  existingKeys?: string[];
+  isSaving?: boolean;
+  /** Stack the inputs in one column, for sidebars */
+  compact?: boolean;
+}
+
+const EMPTY_FORM = {
+  label: '',
+  key: '',
+  type: 'text' as MergeField['type'],
+  category: 'contract' as CustomMergeFieldCategory,
+  default_value: '',
+  format: '',
+};
+
+/**
+ * Form for defining a custom merge field. The key is suggested from the
+ * label until it's edited by hand.
+ */
+function CustomMergeFieldForm({ onSubmit, existingKeys = [], isSaving = false, compact = false }: CustomMergeFieldFormProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [keyEdited, setKeyEdited] = useState(false);
+
+  const key = keyEdited ? form.key : form.label.trim() ? keyFromLabel(form.category, form.label) : '';
+  const keyTaken = existingKeys.includes(key);
+  const canSubmit = form.label.trim() !== '' && isValidFieldKey(key) && !keyTaken && !isSaving;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    const saved = await onSubmit({
+      key,
+      label: form.label.trim(),
+      type: form.type,
+      category: form.category,
+      default_value: form.default_value.trim() || null,
+      format: form.format || null,
+    });
+    if (saved) {
+      setForm(EMPTY_FORM);
+      setKeyEdited(false);
+    }
+  };
+
+  return (
+    <div className={`grid grid-cols-1 gap-2 items-end ${compact ? '' : 'sm:grid-cols-2 lg:grid-cols-3'}`}>
+      <label className="form-control">
+        <span className="label-text text-xs mb-1">Label</span>
+        <input
+          type="text"
+          className="input input-bordered input-sm"
+          placeholder="e.g. VAT Number"
+          value={form.label}
+          onChange={(e) => setForm({ ...form, label: e.target.value })}
+        />
+      </label>
+      <label className="form-control">
+        <span className="label-text text-xs mb-1">Category</span>
+        <select
+          className="select select-bordered select-sm"
+          value={form.category}
+          onChange={(e) => setForm({ ...form, category: e.target.value as CustomMergeFieldCategory })}
+        >
+          {Object.entries(FIELD_CATEGORIES).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="form-control">
+        <span className="label-text text-xs mb-1">Key</span>
+        <input
+          type="text"
+          className={`input input-bordered input-sm font-mono ${key && (!isValidFieldKey(key) || keyTaken) ? 'input-error' : ''}`}
+          placeholder="client.vat_number"
+          value={key}
+          onChange={(e) => {
+            setKeyEdited(true);
+            setForm({ ...form, key: e.target.value.trim() });
+          }}
+        />
+      </label>
+      <label className="form-control">
+        <span className="label-text text-xs mb-1">Type</span>
+        <select
+          className="select select-bordered select-sm"
+          value={form.type}
+          onChange={(e) => setForm({ ...form, type: e.target.value as MergeField['type'], format: '' })}
+        >
+          {Object.entries(FIELD_TYPES).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {form.type === 'date' || form.type === 'currency' ? (
+        <label className="form-control">
+          <span className="label-text text-xs mb-1">Format</span>
+          <select
+            className="select select-bordered select-sm"
+            value={form.format}
+            onChange={(e) => setForm({ ...form, format: e.target.value })}
+          >
+            <option value="">Default</option>
+            {form.type === 'date'
+              ? DATE_FORMATS.map((format) => (
+                  <option key={format.value} value={format.value}>
+                    {format.label}
+                  </option>
+                ))
+              : CURRENCY_FORMATS.map((format) => (
+                  <option key={format} value={format}>
+                    {format}
+                  </option>
+                ))}
+          </select>
+        </label>
+      ) : (
+        !compact && <div className="hidden lg:block" />
+      )}
+      <label className="form-control">
+        <span className="label-text text-xs mb-1">Default value</span>
+        <div className="join">
+          <input
+            type={form.type === 'date' ? 'date' : form.type === 'text' ? 'text' : 'number'}
+            step="any"
+            className="input input-bordered input-sm join-item w-full"
+            placeholder="Optional"
+            value={form.default_value}
+            onChange={(e) => setForm({ ...form, default_value: e.target.value })}
+          />
+          <button
+            type="button"
+            className="btn btn-primary btn-sm join-item"
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            aria-label="Add field"
+          >
+            <PlusIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </label>
+      {keyTaken && <p className="text-xs text-error sm:col-span-2 lg:col-span-3">{`{{${key}}}`} is already defined.</p>}
+    </div>
+  );
+}
+
+export { CustomMergeFieldForm };
+export default CustomMergeFieldForm;
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { TrashIcon, VariableIcon } from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
+import { CustomMergeFieldForm } from './CustomMergeFieldForm';
+import { DATE_FORMATS, FIELD_CATEGORIES, FIELD_TYPES } from './mergeFields';
+import type { CustomMergeFieldInput, MergeField } from '../../types/documents';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+const describeFormat = (field: MergeField) =>
+  field.type === 'date' ? DATE_FORMATS.find((format) => format.value === field.format)?.label : field.format;
+
+/**
+ * Company-wide custom merge fields, available to every contract template.
+ */
+function CustomMergeFieldsCard() {
+  const { customMergeFields, mergeFields, fetchCustomMergeFields, fetchMergeFields, createCustomMergeField, deleteCustomMergeField } =
+    useContractStore();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCustomMergeFields();
+    fetchMergeFields().catch((err) => console.error('Failed to load merge fields:', err));
+  }, [fetchCustomMergeFields, fetchMergeFields]);
+
+  const handleAdd = async (data: CustomMergeFieldInput) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createCustomMergeField(data);
+      return true;
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to add merge field'));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: MergeField) => {
+    if (!field.id) return;
+    if (!confirm(`Delete {{${field.key}}}? Contracts already created keep their text.`)) return;
+    setError(null);
+    try {
+      await deleteCustomMergeField(field.id);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete merge field'));
+    }
+  };
+
+  return (
+    <div className="card bg-base-200 shadow-xl p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1 text-base-content">
+        <VariableIcon className="w-5 h-5 inline mr-2" />
+        Custom Merge Fields
+      </h2>
+      <p className="text-sm text-base-content/70 mb-4">
+        Extra fields for your contract templates, such as a client's VAT number or the governing law. Fields without a
+        default value are asked for when a contract is created.
+      </p>
+
+      {error && <div className="alert alert-error text-sm py-2 mb-3">{error}</div>}
+
+      <div className="overflow-x-auto mb-4">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>Category</th>
+              <th>Type</th>
+              <th>Default</th>
+              <th className="w-12"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {customMergeFields.length === 0 && (
+              <tr>
+                <td colSpan={5} className="text-center text-base-content/60 py-4">
+                  No custom merge fields yet.
+                </td>
+              </tr>
+            )}
+            {customMergeFields.map((field) => (
+              <tr key={field.id}>
+                <td>
+                  <div className="font-medium">{field.label}</div>
+                  <div className="text-xs text-base-content/60 font-mono">{`{{${field.key}}}`}</div>
+                </td>
+                <td>{FIELD_CATEGORIES[field.category as keyof typeof FIELD_CATEGORIES] || field.category}</td>
+                <td>
+                  {FIELD_TYPES[field.type]}
+                  {field.format && <span className="text-xs text-base-content/60"> · {describeFormat(field)}</span>}
+                </td>
+                <td className="text-base-content/70">{field.default_value || '—'}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs text-error"
+                    onClick={() => handleDelete(field)}
+                    aria-label="Delete field"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <CustomMergeFieldForm
+        onSubmit={handleAdd}
+        existingKeys={mergeFields.map((field) => field.key)}
+        isSaving={isSaving}
+      />
+    </div>
+  );
+}
+
+export { CustomMergeFieldsCard };
+export default CustomMergeFieldsCard;
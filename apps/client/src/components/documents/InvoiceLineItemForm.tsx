@@ -1,5 +1,9 @@
+import { useEffect } from 'react';
 import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
 import type { InvoiceLineItem } from '../../types/documents';
+import { useInvoiceStore } from '../../stores/invoices';
+import { currencySymbol, formatMoney } from '../../lib/currency';
+import { lineAmount, orderTaxes, taxBreakdown } from './taxes';
 
 interface InvoiceLineItemFormProps {
   lineItems: Partial<InvoiceLineItem>[];
@@ -12,6 +16,12 @@ export function InvoiceLineItemForm({
   onChange,
   currency = 'USD',
 }: InvoiceLineItemFormProps) {
+  const { taxRates, fetchTaxRates } = useInvoiceStore();
+
+  useEffect(() => {
+    fetchTaxRates();
+  }, [fetchTaxRates]);
+
   const addLineItem = () => {
     onChange([
       ...lineItems,
@@ -19,7 +29,9 @@ export function InvoiceLineItemForm({
         description: '',
         quantity: 1,
         unit_price: 0,
+        discount_rate: 0,
         amount: 0,
+        tax_rate_ids: taxRates.filter((taxRate) => taxRate.is_default).map((taxRate) => taxRate.id),
         order: lineItems.length,
       },
     ]);
@@ -37,16 +49,28 @@ export function InvoiceLineItemForm({
     };
 
     // Auto-calculate amount
-    if (field === 'quantity' || field === 'unit_price') {
-      const quantity = field === 'quantity' ? value : updated[index].quantity || 0;
-      const unitPrice = field === 'unit_price' ? value : updated[index].unit_price || 0;
-      updated[index].amount = quantity * unitPrice;
+    if (field === 'quantity' || field === 'unit_price' || field === 'discount_rate') {
+      updated[index].amount = lineAmount(updated[index]);
     }
 
     onChange(updated);
   };
 
+  const toggleTax = (index: number, taxRateId: string) => {
+    const selected = lineItems[index].tax_rate_ids ?? [];
+    updateLineItem(
+      index,
+      'tax_rate_ids',
+      selected.includes(taxRateId) ? selected.filter((id) => id !== taxRateId) : [...selected, taxRateId]
+    );
+  };
+
+  const lineTaxes = (item: Partial<InvoiceLineItem>) =>
+    orderTaxes(taxRates.filter((taxRate) => item.tax_rate_ids?.includes(taxRate.id)));
+
   const subtotal = lineItems.reduce((sum, item) => sum + (item.amount || 0), 0);
+  const taxes = taxBreakdown(lineItems.map((item) => ({ amount: item.amount || 0, taxes: lineTaxes(item) })));
+  const total = subtotal + taxes.reduce((sum, tax) => sum + tax.amount, 0);
 
   return (
     <div className="space-y-4">
@@ -57,6 +81,8 @@ export function InvoiceLineItemForm({
               <th>Description</th>
               <th className="w-24">Quantity</th>
               <th className="w-32">Unit Price</th>
+              <th className="w-24">Discount</th>
+              <th className="w-36">Tax</th>
               <th className="w-32">Amount</th>
               <th className="w-12"></th>
             </tr>
@@ -64,7 +90,7 @@ export function InvoiceLineItemForm({
           <tbody>
             {lineItems.length === 0 ? (
               <tr>
-                <td colSpan={5} className="text-center text-base-content/60 py-8">
+                <td colSpan={7} className="text-center text-base-content/60 py-8">
                   No line items yet. Click "Add Line Item" to get started.
                 </td>
               </tr>
@@ -95,7 +121,7 @@ export function InvoiceLineItemForm({
                   </td>
                   <td>
                     <div className="join w-full">
-                      <span className="join-item btn btn-sm btn-disabled">$</span>
+                      <span className="join-item btn btn-sm btn-disabled">{currencySymbol(currency)}</span>
                       <input
                         type="number"
                         className="input input-bordered input-sm join-item w-full"
@@ -109,9 +135,54 @@ export function InvoiceLineItemForm({
                       />
                     </div>
                   </td>
+                  <td>
+                    <div className="join w-full">
+                      <input
+                        type="number"
+                        className="input input-bordered input-sm join-item w-full"
+                        placeholder="0"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={item.discount_rate || ''}
+                        onChange={(e) =>
+                          updateLineItem(index, 'discount_rate', parseFloat(e.target.value) || 0)
+                        }
+                      />
+                      <span className="join-item btn btn-sm btn-disabled">%</span>
+                    </div>
+                  </td>
+                  <td>
+                    <div className="dropdown dropdown-end w-full">
+                      <div tabIndex={0} role="button" className="btn btn-sm btn-outline w-full font-normal truncate">
+                        {lineTaxes(item).map((tax) => tax.name).join(', ') || 'No tax'}
+                      </div>
+                      <ul tabIndex={0} className="dropdown-content menu bg-base-100 rounded-box z-10 w-56 p-2 shadow">
+                        {taxRates.length === 0 && (
+                          <li className="text-sm text-base-content/60 p-2">Add tax rates in document settings</li>
+                        )}
+                        {taxRates.map((taxRate) => (
+                          <li key={taxRate.id}>
+                            <label className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                className="checkbox checkbox-xs"
+                                checked={item.tax_rate_ids?.includes(taxRate.id) ?? false}
+                                onChange={() => toggleTax(index, taxRate.id)}
+                              />
+                              <span>
+                                {taxRate.name} {Number(taxRate.rate)}%
+                                {taxRate.is_compound && <span className="text-base-content/60"> (compound)</span>}
+                              </span>
+                            </label>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </td>
                   <td>
                     <div className="font-semibold">
-                      ${(item.amount || 0).toFixed(2)}
+                      {formatMoney(item.amount, currency)}
                     </div>
                   </td>
                   <td>
@@ -130,14 +201,34 @@ export function InvoiceLineItemForm({
           {lineItems.length > 0 && (
             <tfoot>
               <tr>
-                <td colSpan={3} className="text-right font-semibold">
+                <td colSpan={5} className="text-right font-semibold">
                   Subtotal:
                 </td>
-                <td className="font-bold text-lg">
-                  ${subtotal.toFixed(2)} {currency}
+                <td className="font-bold">
+                  {formatMoney(subtotal, currency)}
                 </td>
                 <td></td>
               </tr>
+              {taxes.map((tax) => (
+                <tr key={`${tax.name}-${tax.rate}-${tax.is_compound}`}>
+                  <td colSpan={5} className="text-right">
+                    {tax.name} ({tax.rate}% on {formatMoney(tax.taxable, currency)}):
+                  </td>
+                  <td>{formatMoney(tax.amount, currency)}</td>
+                  <td></td>
+                </tr>
+              ))}
+              {taxes.length > 0 && (
+                <tr>
+                  <td colSpan={5} className="text-right font-semibold">
+                    Total:
+                  </td>
+                  <td className="font-bold text-lg">
+                    {formatMoney(total, currency)}
+                  </td>
+                  <td></td>
+                </tr>
+              )}
             </tfoot>
           )}
         </table>
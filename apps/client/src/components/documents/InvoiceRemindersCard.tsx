@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { BellAlertIcon, BellSlashIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { useInvoiceStore } from '../../stores/invoices';
+import { usePermissions } from '../../hooks/usePermissions';
+import { describeOffset, REMINDER_EVENT_LABELS } from './reminders';
+import type { InvoiceReminderTimeline } from '../../types/documents';
+
+interface InvoiceRemindersCardProps {
+  invoiceId: string;
+  contactId?: string;
+  contactName?: string;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+function InvoiceRemindersCard({ invoiceId, contactId, contactName }: InvoiceRemindersCardProps) {
+  const { fetchReminderTimeline, setInvoiceRemindersPaused, setContactRemindersPaused } = useInvoiceStore();
+  const { can } = usePermissions();
+  const canEdit = can('update', 'invoices');
+
+  const [timeline, setTimeline] = useState<InvoiceReminderTimeline | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTimeline = useCallback(async () => {
+    try {
+      setTimeline(await fetchReminderTimeline(invoiceId));
+    } catch (err) {
+      console.error('Failed to load reminders:', err);
+    }
+  }, [fetchReminderTimeline, invoiceId]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  const toggleInvoicePaused = async () => {
+    if (!timeline) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      setTimeline(await setInvoiceRemindersPaused(invoiceId, !timeline.paused));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update reminders'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleContactPaused = async () => {
+    if (!timeline || !contactId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await setContactRemindersPaused(contactId, !timeline.contact_paused);
+      await loadTimeline();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update reminders'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!timeline) return null;
+
+  const isPaused = timeline.paused || timeline.contact_paused;
+
+  return (
+    <div className="card bg-base-200 shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-base-content">
+          <BellAlertIcon className="w-5 h-5 inline mr-2" />
+          Reminders
+        </h2>
+        <span className={`badge badge-sm ${isPaused ? 'badge-warning' : 'badge-success'}`}>
+          {isPaused ? 'Paused' : 'Active'}
+        </span>
+      </div>
+
+      {error && <div className="alert alert-error text-sm py-2 mb-3">{error}</div>}
+
+      {timeline.contact_paused && (
+        <p className="text-sm text-base-content/70 mb-3">
+          Reminders are paused for every invoice of {contactName || 'this client'}.
+        </p>
+      )}
+
+      {timeline.upcoming.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-medium text-base-content mb-2">Upcoming</p>
+          <div className="space-y-2">
+            {timeline.upcoming.map((step) => (
+              <div
+                key={step.step_id}
+                className={`flex items-start gap-2 p-2 bg-base-300 rounded-lg ${isPaused ? 'opacity-50' : ''}`}
+              >
+                <ClockIcon className="w-4 h-4 mt-0.5 text-base-content/60" />
+                <div className="min-w-0">
+                  <p className="text-sm text-base-content">
+                    {new Date(step.scheduled_for).toLocaleDateString()} · {describeOffset(step.offset_days)}
+                  </p>
+                  <p className="text-xs text-base-content/60 truncate">{step.subject}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {timeline.events.length > 0 ? (
+        <ul className="timeline timeline-vertical timeline-compact -ml-2 mb-4">
+          {timeline.events.map((event, index) => (
+            <li key={event.id}>
+              {index > 0 && <hr />}
+              <div className="timeline-middle">
+                <span
+                  className={`block w-2 h-2 rounded-full ${
+                    event.event_type === 'send_failed'
+                      ? 'bg-error'
+                      : event.event_type === 'reminder_sent' || event.event_type === 'resent'
+                      ? 'bg-primary'
+                      : 'bg-base-content/40'
+                  }`}
+                />
+              </div>
+              <div className="timeline-end mb-3">
+                <p className="text-sm text-base-content">
+                  {REMINDER_EVENT_LABELS[event.event_type] ?? event.event_type}
+                  {event.offset_days != null && (
+                    <span className="text-base-content/60"> · {describeOffset(event.offset_days)}</span>
+                  )}
+                </p>
+                {event.subject && <p className="text-xs text-base-content/70">{event.subject}</p>}
+                {event.error && <p className="text-xs text-error">{event.error}</p>}
+                <p className="text-xs text-base-content/50">
+                  {new Date(event.created_at).toLocaleString()}
+                  {event.actor_type === 'system' && ' · automatic'}
+                </p>
+              </div>
+              {index < timeline.events.length - 1 && <hr />}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-base-content/70 mb-4">No reminders sent yet</p>
+      )}
+
+      {canEdit && (
+        <div className="flex flex-wrap gap-2">
+          <button className="btn btn-outline btn-sm" onClick={toggleInvoicePaused} disabled={isSaving}>
+            <BellSlashIcon className="w-4 h-4" />
+            {timeline.paused ? 'Resume for invoice' : 'Pause for invoice'}
+          </button>
+          {contactId && (
+            <button className="btn btn-ghost btn-sm" onClick={toggleContactPaused} disabled={isSaving}>
+              {timeline.contact_paused ? 'Resume for client' : 'Pause for client'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { InvoiceRemindersCard };
+export default InvoiceRemindersCard;
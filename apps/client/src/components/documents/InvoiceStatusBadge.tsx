@@ -13,6 +13,7 @@ const STATUS_CONFIG = {
   paid: { label: 'Paid', className: 'badge-success' },
   overdue: { label: 'Overdue', className: 'badge-error' },
   cancelled: { label: 'Cancelled', className: 'badge-ghost' },
+  void: { label: 'Void', className: 'badge-ghost' },
 };
 
 function InvoiceStatusBadge({ status, className = '' }: InvoiceStatusBadgeProps) {
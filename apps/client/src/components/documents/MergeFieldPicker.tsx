@@ -1,41 +1,27 @@
 import { useState, useRef, useEffect } from 'react';
 import { ChevronDownIcon } from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
 import type { MergeField } from '../../types/documents';
 
 interface MergeFieldPickerProps {
   onSelect: (field: MergeField) => void;
+  /** Fields to offer instead of the company's contract merge fields */
+  fields?: MergeField[];
 }
 
-const MERGE_FIELDS: MergeField[] = [
-  { key: 'client.first_name', label: 'Client First Name', type: 'text', category: 'client' },
-  { key: 'client.last_name', label: 'Client Last Name', type: 'text', category: 'client' },
-  { key: 'client.full_name', label: 'Client Full Name', type: 'text', category: 'client' },
-  { key: 'client.email', label: 'Client Email', type: 'text', category: 'client' },
-  { key: 'client.phone', label: 'Client Phone', type: 'text', category: 'client' },
-  { key: 'client.organization', label: 'Client Organization', type: 'text', category: 'client' },
-  { key: 'project.name', label: 'Project Name', type: 'text', category: 'project' },
-  { key: 'project.description', label: 'Project Description', type: 'text', category: 'project' },
-  { key: 'project.start_date', label: 'Project Start Date', type: 'date', category: 'project' },
-  { key: 'project.due_date', label: 'Project Due Date', type: 'date', category: 'project' },
-  { key: 'project.budget', label: 'Project Budget', type: 'currency', category: 'project' },
-  { key: 'company.name', label: 'Company Name', type: 'text', category: 'company' },
-  { key: 'company.email', label: 'Company Email', type: 'text', category: 'company' },
-  { key: 'company.phone', label: 'Company Phone', type: 'text', category: 'company' },
-  { key: 'company.address', label: 'Company Address', type: 'text', category: 'company' },
-  { key: 'today', label: "Today's Date", type: 'date', category: 'system' },
-  { key: 'contract.created_date', label: 'Contract Created Date', type: 'date', category: 'contract' },
-  { key: 'contract.expires_at', label: 'Contract Expiry Date', type: 'date', category: 'contract' },
-];
-
 const CATEGORIES = {
   client: 'Client',
   project: 'Project',
   company: 'Company',
   system: 'System',
   contract: 'Contract',
+  invoice: 'Invoice',
 };
 
-export function MergeFieldPicker({ onSelect }: MergeFieldPickerProps) {
+export function MergeFieldPicker({ onSelect, fields: fieldsProp }: MergeFieldPickerProps) {
+  const mergeFields = useContractStore((state) => state.mergeFields);
+  const fetchMergeFields = useContractStore((state) => state.fetchMergeFields);
+  const fields = fieldsProp || mergeFields;
   const [isOpen, setIsOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -50,7 +36,14 @@ export function MergeFieldPicker({ onSelect }: MergeFieldPickerProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const groupedFields = MERGE_FIELDS.reduce((acc, field) => {
+  // Built-in and custom fields come from the API, loaded the first time a picker opens
+  useEffect(() => {
+    if (isOpen && !fieldsProp && mergeFields.length === 0) {
+      fetchMergeFields().catch((err) => console.error('Failed to load merge fields:', err));
+    }
+  }, [isOpen, fieldsProp, mergeFields.length, fetchMergeFields]);
+
+  const groupedFields = fields.reduce((acc, field) => {
     const category = field.category;
     if (!acc[category]) {
       acc[category] = [];
@@ -60,7 +53,7 @@ export function MergeFieldPicker({ onSelect }: MergeFieldPickerProps) {
   }, {} as Record<string, MergeField[]>);
 
   const filteredFields = searchTerm
-    ? MERGE_FIELDS.filter(
+    ? fields.filter(
         (field) =>
           field.label.toLowerCase().includes(searchTerm.toLowerCase()) ||
           field.key.toLowerCase().includes(searchTerm.toLowerCase())
@@ -103,6 +96,7 @@ export function MergeFieldPicker({ onSelect }: MergeFieldPickerProps) {
               filteredFields.length > 0 ? (
                 filteredFields.map((field) => (
                       <button
+                    type="button"
                     key={field.key}
                     onClick={() => handleSelect(field)}
                     className="w-full text-left px-3 py-2 rounded hover:bg-base-300 transition-colors"
@@ -125,6 +119,7 @@ export function MergeFieldPicker({ onSelect }: MergeFieldPickerProps) {
                   </div>
                   {fields.map((field) => (
                         <button
+                      type="button"
                       key={field.key}
                       onClick={() => handleSelect(field)}
                       className="w-full text-left px-3 py-2 rounded hover:bg-base-300 transition-colors"
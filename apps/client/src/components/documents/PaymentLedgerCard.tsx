@@ -0,0 +1,359 @@
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { BanknotesIcon, PlusIcon, ArrowUturnLeftIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useInvoiceStore } from '../../stores/invoices';
+import { usePermissions } from '../../hooks/usePermissions';
+import { formatMoney } from '../../lib/currency';
+import type { ManualPaymentMethod, PaymentLedger, PaymentLedgerEntry } from '../../types/documents';
+
+interface PaymentLedgerCardProps {
+  invoiceId: string;
+  invoiceStatus: string;
+  currency: string;
+  /** Called after a payment, refund or deletion so the invoice totals can be reloaded */
+  onChange?: () => void;
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  bank_transfer: 'Bank transfer',
+  cheque: 'Cheque',
+  cash: 'Cash',
+  card: 'Card',
+  stripe: 'Stripe',
+  other: 'Other',
+};
+
+// Local calendar date as YYYY-MM-DD
+const today = () => new Date().toLocaleDateString('en-CA');
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+type DialogState =
+  | { kind: 'payment' }
+  | { kind: 'refund'; payment: PaymentLedgerEntry }
+  | null;
+
+function PaymentLedgerCard({ invoiceId, invoiceStatus, currency, onChange }: PaymentLedgerCardProps) {
+  const { fetchPaymentLedger, recordPayment, refundPayment, deletePayment } = useInvoiceStore();
+  const { can } = usePermissions();
+  const canEdit = can('update', 'invoices');
+
+  const [ledger, setLedger] = useState<PaymentLedger | null>(null);
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [form, setForm] = useState({
+    amount: '',
+    payment_method: 'bank_transfer' as ManualPaymentMethod,
+    date: today(),
+    reference: '',
+    notes: '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLedger = useCallback(async () => {
+    try {
+      setLedger(await fetchPaymentLedger(invoiceId));
+    } catch (err) {
+      console.error('Failed to load payments:', err);
+    }
+  }, [fetchPaymentLedger, invoiceId]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const refreshAll = async () => {
+    await loadLedger();
+    onChange?.();
+  };
+
+  const openPaymentDialog = () => {
+    setForm({
+      amount: ledger ? ledger.amount_due.toFixed(2) : '',
+      payment_method: 'bank_transfer',
+      date: today(),
+      reference: '',
+      notes: '',
+    });
+    setError(null);
+    setDialog({ kind: 'payment' });
+  };
+
+  const openRefundDialog = (payment: PaymentLedgerEntry) => {
+    setForm({
+      ...form,
+      amount: (payment.amount - (payment.refund_amount ?? 0)).toFixed(2),
+      date: today(),
+      reference: '',
+      notes: '',
+    });
+    setError(null);
+    setDialog({ kind: 'refund', payment });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dialog) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (dialog.kind === 'payment') {
+        await recordPayment(invoiceId, {
+          amount: parseFloat(form.amount),
+          payment_method: form.payment_method,
+          paid_at: form.date,
+          reference: form.reference || undefined,
+          notes: form.notes || undefined,
+        });
+      } else {
+        await refundPayment(dialog.payment.id, {
+          amount: parseFloat(form.amount),
+          refunded_at: form.date,
+          reference: form.reference || undefined,
+          notes: form.notes || undefined,
+        });
+      }
+      setDialog(null);
+      await refreshAll();
+    } catch (err) {
+      setError(errorMessage(err, dialog.kind === 'payment' ? 'Failed to record payment' : 'Failed to record refund'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: PaymentLedgerEntry) => {
+    const label = entry.type === 'refund' ? 'refund' : 'payment';
+    if (!confirm(`Delete this ${label} of ${formatMoney(entry.amount, currency)}? The invoice balance will be recalculated.`)) return;
+    try {
+      await deletePayment(entry.id);
+      await refreshAll();
+    } catch (err) {
+      alert(errorMessage(err, `Failed to delete ${label}`));
+    }
+  };
+
+  const entries = ledger?.entries ?? [];
+  const canRecord = canEdit && invoiceStatus !== 'cancelled' && (ledger?.amount_due ?? 0) > 0;
+  const remaining = (entry: PaymentLedgerEntry) => entry.amount - (entry.refund_amount ?? 0);
+
+  return (
+    <div className="card bg-base-200 shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-base-content">
+          <BanknotesIcon className="w-5 h-5 inline mr-2" />
+          Payments
+        </h2>
+        {canRecord && (
+          <button onClick={openPaymentDialog} className="btn btn-primary btn-sm">
+            <PlusIcon className="w-4 h-4" /> Record Payment
+          </button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-base-content/70">No payments recorded yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-sm w-full">
+            <thead>
+              <tr>
+                <th className="text-base-content">Date</th>
+                <th className="text-base-content">Entry</th>
+                <th className="text-base-content">Reference</th>
+                <th className="text-base-content text-right">Amount</th>
+                <th className="text-base-content text-right">Balance</th>
+                {canEdit && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => {
+                const isRefund = entry.type === 'refund';
+                const isSettled = entry.status === 'succeeded' || entry.status === 'refunded';
+                const isStoredEntry = !entry.id.endsWith('-refund');
+
+                return (
+                  <tr key={entry.id} className={isSettled || isRefund ? '' : 'opacity-60'}>
+                    <td className="text-base-content whitespace-nowrap">
+                      {entry.processed_at ? new Date(entry.processed_at).toLocaleDateString() : '—'}
+                    </td>
+                    <td className="text-base-content">
+                      <div className="font-medium">
+                        {isRefund ? 'Refund' : 'Payment'}
+                        <span className="text-base-content/60 font-normal">
+                          {' · '}
+                          {PAYMENT_METHOD_LABELS[entry.payment_method] ?? entry.payment_method}
+                        </span>
+                      </div>
+                      {!isRefund && entry.status !== 'succeeded' && (
+                        <span
+                          className={`badge badge-xs ${
+                            entry.status === 'failed' ? 'badge-error' : entry.status === 'refunded' ? 'badge-ghost' : 'badge-warning'
+                          }`}
+                        >
+                          {entry.status}
+                        </span>
+                      )}
+                      {entry.notes && <div className="text-xs text-base-content/60">{entry.notes}</div>}
+                      {entry.recorded_by && (
+                        <div className="text-xs text-base-content/50">Recorded by {entry.recorded_by.name}</div>
+                      )}
+                    </td>
+                    <td className="text-base-content/80 text-sm">
+                      {entry.reference || '—'}
+                      {entry.receipt_url && (
+                        <a
+                          href={entry.receipt_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-primary hover:underline block"
+                        >
+                          View Receipt
+                        </a>
+                      )}
+                    </td>
+                    <td className={`text-right font-medium ${isRefund ? 'text-error' : 'text-success'}`}>
+                      {isRefund ? '+' : '−'}{formatMoney(entry.amount, currency)}
+                    </td>
+                    <td className="text-right text-base-content">
+                      {entry.balance !== null ? formatMoney(entry.balance, currency) : '—'}
+                    </td>
+                    {canEdit && (
+                      <td className="text-right whitespace-nowrap">
+                        {!isRefund && isSettled && remaining(entry) > 0 && (
+                          <button
+                            className="btn btn-ghost btn-xs"
+                            title="Refund"
+                            onClick={() => openRefundDialog(entry)}
+                          >
+                            <ArrowUturnLeftIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                        {entry.payment_method !== 'stripe' && isStoredEntry && (
+                          <button
+                            className="btn btn-ghost btn-xs text-error"
+                            title="Delete"
+                            onClick={() => handleDelete(entry)}
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {ledger && entries.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-base-300 flex justify-between text-sm text-base-content">
+          <span>
+            Paid <span className="font-semibold text-success">{formatMoney(ledger.amount_paid, currency)}</span> of{' '}
+            {formatMoney(ledger.total, currency)}
+          </span>
+          <span>
+            Due <span className="font-semibold">{formatMoney(ledger.amount_due, currency)}</span>
+          </span>
+        </div>
+      )}
+
+      {dialog && (
+        <div className="modal modal-open">
+          <div className="modal-box bg-base-200">
+            <h3 className="font-semibold text-lg mb-4">
+              {dialog.kind === 'payment' ? 'Record Payment' : 'Record Refund'}
+            </h3>
+            {dialog.kind === 'refund' && (
+              <p className="text-sm text-base-content/70 mb-4">
+                Refunding a {PAYMENT_METHOD_LABELS[dialog.payment.payment_method] ?? dialog.payment.payment_method} payment
+                of {formatMoney(dialog.payment.amount, currency)}
+                {dialog.payment.payment_method === 'stripe' && '. The refund will be issued through Stripe.'}
+              </p>
+            )}
+            <form onSubmit={handleSubmit} className="space-y-3">
+              {error && <div className="alert alert-error text-sm py-2">{error}</div>}
+              <div className="grid grid-cols-2 gap-3">
+                <label className="form-control">
+                  <span className="label-text text-sm mb-1">Amount</span>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    required
+                    className="input input-bordered input-sm"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  />
+                </label>
+                <label className="form-control">
+                  <span className="label-text text-sm mb-1">Date</span>
+                  <input
+                    type="date"
+                    max={today()}
+                    required
+                    className="input input-bordered input-sm"
+                    value={form.date}
+                    onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  />
+                </label>
+              </div>
+              {dialog.kind === 'payment' && (
+                <label className="form-control">
+                  <span className="label-text text-sm mb-1">Method</span>
+                  <select
+                    className="select select-bordered select-sm"
+                    value={form.payment_method}
+                    onChange={(e) => setForm({ ...form, payment_method: e.target.value as ManualPaymentMethod })}
+                  >
+                    {(['bank_transfer', 'cheque', 'cash', 'card', 'other'] as ManualPaymentMethod[]).map((method) => (
+                      <option key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="form-control">
+                <span className="label-text text-sm mb-1">Reference</span>
+                <input
+                  type="text"
+                  className="input input-bordered input-sm"
+                  placeholder={dialog.kind === 'payment' ? 'Transfer ID, cheque number…' : 'Refund reference'}
+                  value={form.reference}
+                  onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                />
+              </label>
+              <label className="form-control">
+                <span className="label-text text-sm mb-1">Notes</span>
+                <textarea
+                  className="textarea textarea-bordered textarea-sm"
+                  rows={2}
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </label>
+              <div className="modal-action">
+                <button type="button" className="btn btn-ghost btn-sm" onClick={() => setDialog(null)} disabled={isSaving}>
+                  Cancel
+                </button>
+                <button type="submit" className="btn btn-primary btn-sm" disabled={isSaving}>
+                  {isSaving && <span className="loading loading-spinner loading-xs"></span>}
+                  {dialog.kind === 'payment' ? 'Record Payment' : 'Record Refund'}
+                </button>
+              </div>
+            </form>
+          </div>
+          <div className="modal-backdrop" onClick={() => !isSaving && setDialog(null)}></div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { PaymentLedgerCard };
+export default PaymentLedgerCard;
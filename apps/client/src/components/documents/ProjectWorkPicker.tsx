@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { ClipboardDocumentCheckIcon } from '@heroicons/react/24/outline';
+import { useInvoiceStore } from '../../stores/invoices';
+import { formatMoney } from '../../lib/currency';
+import type { BillableTask, InvoiceLineItem } from '../../types/documents';
+
+interface ProjectWorkPickerProps {
+  projectId: string;
+  projectName?: string;
+  currency: string;
+  /** Tasks already added to the invoice being drafted */
+  excludeTaskIds?: string[];
+  onAdd: (items: Partial<InvoiceLineItem>[]) => void;
+  onClose: () => void;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+/** Tasks without tracked hours are billed as one unit at the hourly rate */
+const billedQuantity = (task: BillableTask) => task.hours ?? 1;
+
+function ProjectWorkPicker({ projectId, projectName, currency, excludeTaskIds = [], onAdd, onClose }: ProjectWorkPickerProps) {
+  const { fetchBillableTasks } = useInvoiceStore();
+  const [range, setRange] = useState({ completed_from: '', completed_to: '' });
+  const [tasks, setTasks] = useState<BillableTask[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTasks = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await fetchBillableTasks({
+        project_id: projectId,
+        completed_from: range.completed_from || undefined,
+        completed_to: range.completed_to || undefined,
+      });
+      setTasks(data);
+      // Everything that hasn't been billed yet is selected by default
+      setSelected(new Set(data.filter((task) => !task.invoice).map((task) => task.id)));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load project tasks'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchBillableTasks, projectId, range]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  const isBillable = (task: BillableTask) => !task.invoice && !excludeTaskIds.includes(task.id);
+  const billable = tasks.filter(isBillable);
+
+  const toggle = (taskId: string) => {
+    const next = new Set(selected);
+    if (next.has(taskId)) {
+      next.delete(taskId);
+    } else {
+      next.add(taskId);
+    }
+    setSelected(next);
+  };
+
+  const chosen = billable.filter((task) => selected.has(task.id));
+  const total = chosen.reduce((sum, task) => sum + billedQuantity(task) * (task.rate ?? 0), 0);
+
+  const toggleAll = () => {
+    setSelected(chosen.length === billable.length ? new Set() : new Set(billable.map((task) => task.id)));
+  };
+
+  const handleAdd = () => {
+    onAdd(
+      chosen.map((task) => ({
+        description: task.title,
+        quantity: billedQuantity(task),
+        unit_price: task.rate ?? 0,
+        amount: billedQuantity(task) * (task.rate ?? 0),
+        task_id: task.id,
+      }))
+    );
+    onClose();
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box bg-base-200 max-w-3xl">
+        <h3 className="font-bold text-lg mb-1">
+          <ClipboardDocumentCheckIcon className="w-5 h-5 inline mr-2" />
+          Invoice from project
+        </h3>
+        <p className="text-sm text-base-content/70 mb-4">
+          Completed tasks{projectName ? ` in ${projectName}` : ''}. Tasks already on an invoice can't be billed again.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3 mb-4">
+          <label className="form-control">
+            <span className="label-text text-sm mb-1">Completed from</span>
+            <input
+              type="date"
+              className="input input-bordered input-sm"
+              value={range.completed_from}
+              onChange={(e) => setRange({ ...range, completed_from: e.target.value })}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text text-sm mb-1">to</span>
+            <input
+              type="date"
+              className="input input-bordered input-sm"
+              value={range.completed_to}
+              min={range.completed_from || undefined}
+              onChange={(e) => setRange({ ...range, completed_to: e.target.value })}
+            />
+          </label>
+        </div>
+
+        {error && <div className="alert alert-error text-sm py-2 mb-3">{error}</div>}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <span className="loading loading-spinner loading-md"></span>
+          </div>
+        ) : tasks.length === 0 ? (
+          <p className="text-center text-base-content/60 py-8">No completed tasks in this period.</p>
+        ) : (
+          <div className="overflow-x-auto max-h-96">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th className="w-8">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={billable.length > 0 && chosen.length === billable.length}
+                      onChange={toggleAll}
+                      disabled={billable.length === 0}
+                    />
+                  </th>
+                  <th>Task</th>
+                  <th>Completed</th>
+                  <th className="text-right">Hours</th>
+                  <th className="text-right">Rate</th>
+                  <th className="text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tasks.map((task) => (
+                  <tr key={task.id} className={isBillable(task) ? '' : 'opacity-60'}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-sm"
+                        checked={isBillable(task) && selected.has(task.id)}
+                        onChange={() => toggle(task.id)}
+                        disabled={!isBillable(task)}
+                      />
+                    </td>
+                    <td>
+                      <div>{task.title}</div>
+                      {task.invoice ? (
+                        <span className="badge badge-ghost badge-sm">Invoiced on {task.invoice.invoice_number}</span>
+                      ) : (
+                        excludeTaskIds.includes(task.id) && (
+                          <span className="badge badge-ghost badge-sm">On this invoice</span>
+                        )
+                      )}
+                    </td>
+                    <td className="text-sm">
+                      {task.completed_at ? new Date(task.completed_at).toLocaleDateString() : '—'}
+                    </td>
+                    <td className="text-right">{task.hours ?? '—'}</td>
+                    <td className="text-right">{task.rate !== null ? formatMoney(task.rate, currency) : '—'}</td>
+                    <td className="text-right font-medium">
+                      {formatMoney(billedQuantity(task) * (task.rate ?? 0), currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="modal-action items-center">
+          <span className="mr-auto text-sm text-base-content/70">
+            {chosen.length} selected · {formatMoney(total, currency)}
+          </span>
+          <button className="btn btn-ghost" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={handleAdd} disabled={chosen.length === 0}>
+            Add {chosen.length} line item{chosen.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onClose} />
+    </div>
+  );
+}
+
+export { ProjectWorkPicker };
+export default ProjectWorkPicker;
@@ -0,0 +1,29 @@
+import type { Quote } from '../../types/documents';
+
+interface QuoteStatusBadgeProps {
+  status: Quote['status'];
+  className?: string;
+}
+
+const STATUS_CONFIG = {
+  draft: { label: 'Draft', className: 'badge-ghost' },
+  sent: { label: 'Sent', className: 'badge-info' },
+  viewed: { label: 'Viewed', className: 'badge-primary' },
+  accepted: { label: 'Accepted', className: 'badge-success' },
+  declined: { label: 'Declined', className: 'badge-error' },
+  expired: { label: 'Expired', className: 'badge-warning' },
+  converted: { label: 'Converted', className: 'badge-accent' },
+};
+
+function QuoteStatusBadge({ status, className = '' }: QuoteStatusBadgeProps) {
+  const config = STATUS_CONFIG[status] || STATUS_CONFIG.draft;
+
+  return (
+    <span className={`badge ${config.className} ${className}`}>
+      {config.label}
+    </span>
+  );
+}
+
+export { QuoteStatusBadge };
+export default QuoteStatusBadge;
@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { ArrowPathIcon, PauseIcon, PlayIcon, ForwardIcon } from '@heroicons/react/24/outline';
+import { useInvoiceStore } from '../../stores/invoices';
+import { usePermissions } from '../../hooks/usePermissions';
+import { FREQUENCY_LABELS } from './recurrence';
+import type {
+  InvoiceSchedule,
+  InvoiceScheduleInput,
+  InvoiceScheduleOccurrence,
+  OccurrenceStatus,
+  RecurrenceFrequency,
+} from '../../types/documents';
+
+interface RecurringScheduleCardProps {
+  invoiceId: string;
+  issueDate: string;
+}
+
+type EndMode = 'never' | 'date' | 'count';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+function RecurringScheduleCard({ invoiceId, issueDate }: RecurringScheduleCardProps) {
+  const { fetchSchedule, saveSchedule, cancelSchedule, setSchedulePaused, setOccurrenceStatus } = useInvoiceStore();
+  const { can } = usePermissions();
+  const canEdit = can('update', 'invoices');
+
+  const [schedule, setSchedule] = useState<InvoiceSchedule | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    frequency: 'monthly' as RecurrenceFrequency,
+    endMode: 'never' as EndMode,
+    end_date: '',
+    max_occurrences: '12',
+    auto_send: false,
+  });
+
+  const loadSchedule = useCallback(async () => {
+    try {
+      setSchedule(await fetchSchedule(invoiceId));
+    } catch (err) {
+      console.error('Failed to load recurring schedule:', err);
+    }
+  }, [fetchSchedule, invoiceId]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const startEditing = () => {
+    setForm({
+      frequency: schedule?.frequency ?? 'monthly',
+      endMode: schedule?.end_date ? 'date' : schedule?.max_occurrences ? 'count' : 'never',
+      end_date: schedule?.end_date ?? '',
+      max_occurrences: String(schedule?.max_occurrences ?? 12),
+      auto_send: schedule?.auto_send ?? false,
+    });
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const run = async (action: () => Promise<InvoiceSchedule>, fallback: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      setSchedule(await action());
+      return true;
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const data: InvoiceScheduleInput = {
+      frequency: form.frequency,
+      end_date: form.endMode === 'date' ? form.end_date || null : null,
+      max_occurrences: form.endMode === 'count' ? parseInt(form.max_occurrences) || null : null,
+      auto_send: form.auto_send,
+    };
+    if (await run(() => saveSchedule(invoiceId, data), 'Failed to save schedule')) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleCancelSchedule = () => {
+    if (!confirm('Stop this invoice from recurring? Invoices already generated are kept.')) return;
+    run(() => cancelSchedule(invoiceId), 'Failed to cancel schedule');
+  };
+
+  const handleOccurrence = (occurrence: InvoiceScheduleOccurrence, status: OccurrenceStatus) => {
+    if (!schedule) return;
+    run(() => setOccurrenceStatus(schedule.id, occurrence.sequence, status), 'Failed to update occurrence');
+  };
+
+  const isRunning = schedule && (schedule.status === 'active' || schedule.status === 'paused');
+
+  return (
+    <div className="card bg-base-200 shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-base-content">
+          <ArrowPathIcon className="w-5 h-5 inline mr-2" />
+          Recurring
+        </h2>
+        {schedule && (
+          <span
+            className={`badge badge-sm capitalize ${
+              schedule.status === 'active' ? 'badge-success' : schedule.status === 'paused' ? 'badge-warning' : 'badge-ghost'
+            }`}
+          >
+            {schedule.status}
+          </span>
+        )}
+      </div>
+
+      {error && <div className="alert alert-error text-sm py-2 mb-3">{error}</div>}
+
+      {isEditing ? (
+        <div className="space-y-3">
+          <label className="form-control">
+            <span className="label-text text-sm mb-1">Repeat</span>
+            <select
+              className="select select-bordered select-sm"
+              value={form.frequency}
+              onChange={(e) => setForm({ ...form, frequency: e.target.value as RecurrenceFrequency })}
+            >
+              {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="form-control">
+            <span className="label-text text-sm mb-1">Ends</span>
+            <select
+              className="select select-bordered select-sm"
+              value={form.endMode}
+              onChange={(e) => setForm({ ...form, endMode: e.target.value as EndMode })}
+            >
+              <option value="never">Never</option>
+              <option value="date">On a date</option>
+              <option value="count">After a number of invoices</option>
+            </select>
+          </label>
+          {form.endMode === 'date' && (
+            <input
+              type="date"
+              className="input input-bordered input-sm w-full"
+              min={issueDate.slice(0, 10)}
+              value={form.end_date}
+              onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+            />
+          )}
+          {form.endMode === 'count' && (
+            <div className="join w-full">
+              <input
+                type="number"
+                min={2}
+                className="input input-bordered input-sm join-item w-full"
+                value={form.max_occurrences}
+                onChange={(e) => setForm({ ...form, max_occurrences: e.target.value })}
+              />
+              <span className="btn btn-sm join-item no-animation">invoices</span>
+            </div>
+          )}
+          <label className="label cursor-pointer justify-start gap-2">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-sm"
+              checked={form.auto_send}
+              onChange={(e) => setForm({ ...form, auto_send: e.target.checked })}
+            />
+            <span className="label-text text-sm">Send generated invoices automatically</span>
+          </label>
+          <div className="flex justify-end gap-2">
+            <button className="btn btn-ghost btn-sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving && <span className="loading loading-spinner loading-xs"></span>}
+              Save
+            </button>
+          </div>
+        </div>
+      ) : !schedule || schedule.status === 'cancelled' ? (
+        <div className="space-y-3">
+          <p className="text-sm text-base-content/70">
+            {schedule ? 'This invoice no longer recurs.' : 'Use this invoice as a template and bill it on a schedule.'}
+          </p>
+          {canEdit && (
+            <button className="btn btn-outline btn-sm w-full" onClick={startEditing}>
+              Make recurring
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="text-sm space-y-1">
+            <p className="text-base-content">
+              {FREQUENCY_LABELS[schedule.frequency]} from {new Date(schedule.start_date).toLocaleDateString()}
+            </p>
+            <p className="text-base-content/70">
+              {schedule.end_date
+                ? `Until ${new Date(schedule.end_date).toLocaleDateString()}`
+                : schedule.max_occurrences
+                ? `${schedule.max_occurrences} invoices in total`
+                : 'No end date'}
+              {' · '}
+              {schedule.generated_count}
+              {schedule.total_occurrences ? ` of ${schedule.total_occurrences}` : ''} issued
+            </p>
+            {schedule.auto_send && <p className="text-base-content/70">Sent automatically</p>}
+          </div>
+
+          {schedule.upcoming.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-base-content mb-2">Upcoming</p>
+              <div className="space-y-2">
+                {schedule.upcoming.map((occurrence) => (
+                  <div key={occurrence.sequence} className="flex items-center justify-between p-2 bg-base-300 rounded-lg">
+                    <div>
+                      <p className={`text-sm ${occurrence.status === 'skipped' ? 'line-through text-base-content/50' : 'text-base-content'}`}>
+                        {new Date(occurrence.scheduled_date).toLocaleDateString()}
+                      </p>
+                      {occurrence.status !== 'pending' && (
+                        <p className="text-xs text-base-content/60 capitalize">{occurrence.status}</p>
+                      )}
+                    </div>
+                    {canEdit && isRunning && (
+                      <div className="flex gap-1">
+                        {occurrence.status === 'pending' ? (
+                          <>
+                            <button
+                              className="btn btn-ghost btn-xs"
+                              title="Pause this invoice"
+                              onClick={() => handleOccurrence(occurrence, 'paused')}
+                              disabled={isSaving}
+                            >
+                              <PauseIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                              className="btn btn-ghost btn-xs"
+                              title="Skip this invoice"
+                              onClick={() => handleOccurrence(occurrence, 'skipped')}
+                              disabled={isSaving}
+                            >
+                              <ForwardIcon className="w-4 h-4" />
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            className="btn btn-ghost btn-xs"
+                            title="Restore this invoice"
+                            onClick={() => handleOccurrence(occurrence, 'pending')}
+                            disabled={isSaving}
+                          >
+                            <PlayIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {canEdit && (
+            <div className="flex flex-wrap gap-2">
+              {isRunning && (
+                <>
+                  <button className="btn btn-outline btn-sm" onClick={startEditing} disabled={isSaving}>
+                    Edit
+                  </button>
+                  <button
+                    className="btn btn-outline btn-sm"
+                    onClick={() => run(() => setSchedulePaused(schedule.id, schedule.status === 'active'), 'Failed to update schedule')}
+                    disabled={isSaving}
+                  >
+                    {schedule.status === 'active' ? 'Pause' : 'Resume'}
+                  </button>
+                </>
+              )}
+              {schedule.status === 'completed' && (
+                <button className="btn btn-outline btn-sm" onClick={startEditing} disabled={isSaving}>
+                  Extend
+                </button>
+              )}
+              <button className="btn btn-ghost btn-sm text-error" onClick={handleCancelSchedule} disabled={isSaving}>
+                Stop recurring
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { RecurringScheduleCard };
+export default RecurringScheduleCard;
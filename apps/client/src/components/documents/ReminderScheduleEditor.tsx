@@ -0,0 +1,170 @@
+import { useRef, useState } from 'react';
+import { ChevronDownIcon, ChevronRightIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { MergeFieldPicker } from './MergeFieldPicker';
+import { describeOffset, sortSteps, timingOf, type ReminderTiming } from './reminders';
+import type { MergeField, ReminderScheduleConfig, ReminderStep } from '../../types/documents';
+
+interface ReminderScheduleEditorProps {
+  steps: ReminderStep[];
+  onChange: (steps: ReminderStep[]) => void;
+  defaults: ReminderScheduleConfig['defaults'];
+  mergeFields: MergeField[];
+}
+
+const TIMING_LABELS: Record<ReminderTiming, string> = {
+  before_due: 'Before due date',
+  on_due: 'On due date',
+  after_due: 'After due date',
+};
+
+function ReminderScheduleEditor({ steps, onChange, defaults, mergeFields }: ReminderScheduleEditorProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Merge fields are inserted where the cursor last was in the expanded step
+  const lastFocused = useRef<{
+    stepId: string;
+    field: 'subject' | 'body';
+    element: HTMLInputElement | HTMLTextAreaElement;
+  } | null>(null);
+
+  const updateStep = (id: string, changes: Partial<ReminderStep>) => {
+    onChange(sortSteps(steps.map((step) => (step.id === id ? { ...step, ...changes } : step))));
+  };
+
+  const setTiming = (step: ReminderStep, timing: ReminderTiming, days = Math.abs(step.offset_days) || 1) => {
+    const offset = timing === 'on_due' ? 0 : timing === 'before_due' ? -days : days;
+    updateStep(step.id, { offset_days: offset });
+  };
+
+  const addStep = (timing: ReminderTiming) => {
+    const step = { ...defaults[timing], id: `reminder-${Date.now()}` };
+    onChange(sortSteps([...steps, step]));
+    setExpandedId(step.id);
+  };
+
+  const removeStep = (id: string) => {
+    onChange(steps.filter((step) => step.id !== id));
+  };
+
+  const insertMergeField = (step: ReminderStep, field: MergeField) => {
+    const token = `{{${field.key}}}`;
+    const target = lastFocused.current?.stepId === step.id ? lastFocused.current : null;
+    const key = target?.field ?? 'body';
+    const value = step[key];
+    const start = target?.element.selectionStart ?? value.length;
+    const end = target?.element.selectionEnd ?? value.length;
+    updateStep(step.id, { [key]: value.slice(0, start) + token + value.slice(end) });
+  };
+
+  const duplicateOffsets = new Set(
+    steps.map((step) => step.offset_days).filter((offset, index, all) => all.indexOf(offset) !== index)
+  );
+
+  return (
+    <div className="space-y-2">
+      {steps.length === 0 && (
+        <p className="text-sm text-base-content/60">No reminders are sent. Add a step to start dunning.</p>
+      )}
+
+      {steps.map((step) => {
+        const isExpanded = expandedId === step.id;
+        const timing = timingOf(step.offset_days);
+        return (
+          <div key={step.id} className="bg-base-300 rounded-lg">
+            <div className="flex items-center gap-2 p-3">
+              <button
+                type="button"
+                className="btn btn-ghost btn-xs btn-square"
+                onClick={() => setExpandedId(isExpanded ? null : step.id)}
+              >
+                {isExpanded ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronRightIcon className="w-4 h-4" />}
+              </button>
+              <input
+                type="checkbox"
+                className="toggle toggle-primary toggle-sm"
+                checked={step.enabled}
+                onChange={(e) => updateStep(step.id, { enabled: e.target.checked })}
+                title={step.enabled ? 'Enabled' : 'Disabled'}
+              />
+              <div className="flex-1 min-w-0">
+                <div className={`text-sm font-medium ${step.enabled ? '' : 'text-base-content/50'}`}>
+                  {describeOffset(step.offset_days)}
+                  {duplicateOffsets.has(step.offset_days) && (
+                    <span className="badge badge-warning badge-xs ml-2">Same day as another step</span>
+                  )}
+                </div>
+                <div className="text-xs text-base-content/60 truncate">{step.subject}</div>
+              </div>
+              <button
+                type="button"
+                className="btn btn-ghost btn-xs text-error"
+                onClick={() => removeStep(step.id)}
+                title="Remove step"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="px-3 pb-3 space-y-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <select
+                    className="select select-bordered select-sm"
+                    value={timing}
+                    onChange={(e) => setTiming(step, e.target.value as ReminderTiming)}
+                  >
+                    {Object.entries(TIMING_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  {timing !== 'on_due' && (
+                    <div className="join">
+                      <input
+                        type="number"
+                        min={1}
+                        max={timing === 'before_due' ? 90 : 365}
+                        className="input input-bordered input-sm join-item w-20"
+                        value={Math.abs(step.offset_days)}
+                        onChange={(e) => setTiming(step, timing, Math.max(1, parseInt(e.target.value) || 1))}
+                      />
+                      <span className="btn btn-sm join-item no-animation">days</span>
+                    </div>
+                  )}
+                  <div className="ml-auto">
+                    <MergeFieldPicker fields={mergeFields} onSelect={(field) => insertMergeField(step, field)} />
+                  </div>
+                </div>
+                <input
+                  type="text"
+                  className="input input-bordered input-sm w-full"
+                  placeholder="Subject"
+                  value={step.subject}
+                  onFocus={(e) => (lastFocused.current = { stepId: step.id, field: 'subject', element: e.currentTarget })}
+                  onChange={(e) => updateStep(step.id, { subject: e.target.value })}
+                />
+                <textarea
+                  className="textarea textarea-bordered w-full font-mono text-sm"
+                  rows={8}
+                  value={step.body}
+                  onFocus={(e) => (lastFocused.current = { stepId: step.id, field: 'body', element: e.currentTarget })}
+                  onChange={(e) => updateStep(step.id, { body: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        {(Object.keys(TIMING_LABELS) as ReminderTiming[]).map((timing) => (
+          <button key={timing} type="button" className="btn btn-ghost btn-sm" onClick={() => addStep(timing)}>
+            <PlusIcon className="w-4 h-4" />
+            {TIMING_LABELS[timing]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export { ReminderScheduleEditor };
+export default ReminderScheduleEditor;
@@ -0,0 +1,161 @@
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  CONDITION_FIELDS,
+  CONDITION_OPERATORS,
+  REPEAT_SOURCES,
+  operatorTakesValue,
+} from '../../lib/sectionLogic';
+import type {
+  SectionCondition,
+  SectionConditionOperator,
+  SectionRepeatSource,
+  TemplateSection,
+} from '../../types/documents';
+
+type SectionLogic = Pick<TemplateSection, 'conditions' | 'condition_match' | 'repeat'>;
+
+interface SectionLogicEditorProps {
+  section: TemplateSection;
+  onChange: (logic: SectionLogic) => void;
+}
+
+/**
+ * Display conditions and repeat settings for one template section.
+ */
+function SectionLogicEditor({ section, onChange }: SectionLogicEditorProps) {
+  const conditions = section.conditions || [];
+  const logic: SectionLogic = {
+    conditions,
+    condition_match: section.condition_match || 'all',
+    repeat: section.repeat || null,
+  };
+
+  const updateCondition = (index: number, updates: Partial<SectionCondition>) => {
+    onChange({
+      ...logic,
+      conditions: conditions.map((condition, i) => (i === index ? { ...condition, ...updates } : condition)),
+    });
+  };
+
+  const addCondition = () => {
+    onChange({ ...logic, conditions: [...conditions, { field: 'contract_type', operator: 'equals', value: '' }] });
+  };
+
+  const removeCondition = (index: number) => {
+    onChange({ ...logic, conditions: conditions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3 p-3 mt-2 border border-dashed border-base-300 rounded-lg bg-base-200/30 text-sm">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="font-medium">Show this block</span>
+          {conditions.length > 1 && (
+            <select
+              className="select select-bordered select-xs"
+              value={logic.condition_match}
+              onChange={(e) => onChange({ ...logic, condition_match: e.target.value as 'all' | 'any' })}
+            >
+              <option value="all">when all conditions match</option>
+              <option value="any">when any condition matches</option>
+            </select>
+          )}
+        </div>
+
+        {conditions.length === 0 && <p className="text-base-content/50 mb-2">Always shown.</p>}
+
+        <div className="space-y-2">
+          {conditions.map((condition, index) => (
+            <div key={index} className="flex items-center gap-2 flex-wrap">
+              <span className="text-base-content/60 w-6">{index === 0 ? 'If' : logic.condition_match === 'any' ? 'or' : 'and'}</span>
+              <select
+                className="select select-bordered select-xs"
+                value={condition.field}
+                onChange={(e) => updateCondition(index, { field: e.target.value })}
+              >
+                {CONDITION_FIELDS.map((field) => (
+                  <option key={field.key} value={field.key}>
+                    {field.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="select select-bordered select-xs"
+                value={condition.operator}
+                onChange={(e) => updateCondition(index, { operator: e.target.value as SectionConditionOperator })}
+              >
+                {Object.entries(CONDITION_OPERATORS).map(([operator, label]) => (
+                  <option key={operator} value={operator}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {operatorTakesValue(condition.operator) &&
+                (condition.field === 'contract_type' ? (
+                  <select
+                    className="select select-bordered select-xs"
+                    value={condition.value || ''}
+                    onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  >
+                    <option value="" disabled>
+                      Select type
+                    </option>
+                    <option value="fixed_price">Fixed Price</option>
+                    <option value="milestone">Milestone</option>
+                    <option value="subscription">Subscription</option>
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    className="input input-bordered input-xs w-32"
+                    placeholder="Value"
+                    value={condition.value || ''}
+                    onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  />
+                ))}
+              <button
+                type="button"
+                className="btn btn-ghost btn-xs btn-square"
+                onClick={() => removeCondition(index)}
+                aria-label="Remove condition"
+              >
+                <XMarkIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button type="button" className="btn btn-ghost btn-xs mt-2" onClick={addCondition}>
+          <PlusIcon className="w-3.5 h-3.5" /> Add condition
+        </button>
+      </div>
+
+      <div className="border-t border-base-300 pt-3">
+        <label className="flex items-center gap-2">
+          <span className="font-medium">Repeat</span>
+          <select
+            className="select select-bordered select-xs"
+            value={logic.repeat || ''}
+            onChange={(e) => onChange({ ...logic, repeat: (e.target.value || null) as SectionRepeatSource | null })}
+          >
+            <option value="">Don't repeat</option>
+            {Object.entries(REPEAT_SOURCES).map(([source, { label }]) => (
+              <option key={source} value={source}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {logic.repeat && (
+          <p className="text-xs text-base-content/50 mt-2">
+            Use {REPEAT_SOURCES[logic.repeat].fields.map((field) => `{{item.${field}}}`).join(', ')} in this block.
+            {section.type === 'table' && ' In a table, only rows that use an item field are repeated.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export { SectionLogicEditor };
+export default SectionLogicEditor;
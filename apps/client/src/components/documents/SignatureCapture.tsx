@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowUpTrayIcon, PencilIcon, TrashIcon, LanguageIcon } from '@heroicons/react/24/outline';
+import type { SignatureMethod } from '../../types/documents';
+
+export interface CapturedSignature {
+  method: SignatureMethod;
+  /** PNG or JPEG data URI */
+  image: string;
+  typed_font?: string;
+}
+
+interface SignatureCaptureProps {
+  /** Name to render for typed signatures */
+  signerName: string;
+  /** Should be stable (e.g. a state setter): typed signatures re-render whenever it changes */
+  onChange: (signature: CapturedSignature | null) => void;
+}
+
+// Script font stacks; the first installed one is used, and the typed signature
+// is rendered to an image so the stored signature matches what the signer saw
+const SIGNATURE_FONTS = [
+  { label: 'Classic', family: '"Brush Script MT", "Segoe Script", cursive' },
+  { label: 'Flowing', family: '"Lucida Handwriting", "Apple Chancery", cursive' },
+  { label: 'Casual', family: '"Bradley Hand", "Segoe Print", cursive' },
+];
+
+const CANVAS_WIDTH = 500;
+const CANVAS_HEIGHT = 160;
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+const METHODS: { value: SignatureMethod; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { value: 'drawn', label: 'Draw', icon: PencilIcon },
+  { value: 'typed', label: 'Type', icon: LanguageIcon },
+  { value: 'upload', label: 'Upload', icon: ArrowUpTrayIcon },
+];
+
+/**
+ * Render a typed name in a script font onto a transparent PNG.
+ */
+function renderTypedSignature(name: string, fontFamily: string): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  // Shrink long names until they fit
+  let fontSize = 56;
+  do {
+    ctx.font = `${fontSize}px ${fontFamily}`;
+    fontSize -= 4;
+  } while (ctx.measureText(name).width > CANVAS_WIDTH - 40 && fontSize > 16);
+
+  ctx.fillStyle = '#111827';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(name, 20, CANVAS_HEIGHT / 2);
+
+  return canvas.toDataURL('image/png');
+}
+
+function SignatureCapture({ signerName, onChange }: SignatureCaptureProps) {
+  const [method, setMethod] = useState<SignatureMethod>('drawn');
+  const [fontIndex, setFontIndex] = useState(0);
+  const [upload, setUpload] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [hasDrawing, setHasDrawing] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawing = useRef(false);
+
+  // Typed signatures follow the signer's name and chosen font
+  useEffect(() => {
+    if (method !== 'typed') return;
+
+    const name = signerName.trim();
+    const font = SIGNATURE_FONTS[fontIndex];
+    onChange(
+      name ? { method: 'typed', image: renderTypedSignature(name, font.family), typed_font: font.label } : null
+    );
+  }, [method, signerName, fontIndex, onChange]);
+
+  const selectMethod = (next: SignatureMethod) => {
+    setMethod(next);
+    if (next === 'drawn') {
+      const canvas = canvasRef.current;
+      onChange(hasDrawing && canvas ? { method: 'drawn', image: canvas.toDataURL('image/png') } : null);
+    } else if (next === 'upload') {
+      onChange(upload ? { method: 'upload', image: upload } : null);
+    }
+  };
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawing.current = true;
+    const { x, y } = pointFor(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111827';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const continueStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+
+    const { x, y } = pointFor(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const endStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    isDrawing.current = false;
+    setHasDrawing(true);
+    onChange({ method: 'drawn', image: e.currentTarget.toDataURL('image/png') });
+  };
+
+  const clearDrawing = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasDrawing(false);
+    onChange(null);
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setUploadError(null);
+    if (!file) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setUploadError('Upload a PNG or JPEG image');
+      return;
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setUploadError('The image must be smaller than 2 MB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const image = reader.result as string;
+      setUpload(image);
+      onChange({ method: 'upload', image });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div role="tablist" className="tabs tabs-boxed w-fit">
+        {METHODS.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            role="tab"
+            className={`tab gap-1 ${method === value ? 'tab-active' : ''}`}
+            onClick={() => selectMethod(value)}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* The canvas stays mounted so a drawing survives switching tabs */}
+      <div className={method === 'drawn' ? 'space-y-2' : 'hidden'}>
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className="w-full bg-white rounded-lg border border-base-300 touch-none cursor-crosshair"
+          style={{ aspectRatio: `${CANVAS_WIDTH} / ${CANVAS_HEIGHT}` }}
+          onPointerDown={startStroke}
+          onPointerMove={continueStroke}
+          onPointerUp={endStroke}
+          onPointerLeave={endStroke}
+        />
+        <div className="flex justify-between items-center">
+          <span className="text-xs text-base-content/60">Draw your signature above</span>
+          <button type="button" className="btn btn-ghost btn-xs" onClick={clearDrawing} disabled={!hasDrawing}>
+            <TrashIcon className="w-4 h-4" /> Clear
+          </button>
+        </div>
+      </div>
+
+      {method === 'typed' && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {SIGNATURE_FONTS.map((font, index) => (
+              <button
+                key={font.label}
+                type="button"
+                className={`btn h-auto py-3 bg-white text-gray-900 hover:bg-gray-100 normal-case text-2xl ${
+                  index === fontIndex ? 'ring-2 ring-primary' : ''
+                }`}
+                style={{ fontFamily: font.family }}
+                onClick={() => setFontIndex(index)}
+              >
+                {signerName.trim() || 'Your Name'}
+              </button>
+            ))}
+          </div>
+          {!signerName.trim() && (
+            <p className="text-xs text-base-content/60">Enter your full name to create a typed signature</p>
+          )}
+        </div>
+      )}
+
+      {method === 'upload' && (
+        <div className="space-y-2">
+          <input
+            type="file"
+            accept="image/png,image/jpeg"
+            className="file-input file-input-bordered w-full"
+            onChange={handleUpload}
+          />
+          {uploadError && <p className="text-sm text-error">{uploadError}</p>}
+          {upload && (
+            <div className="bg-white rounded-lg border border-base-300 p-2 flex justify-center">
+              <img src={upload} alt="Uploaded signature" className="max-h-32" />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { SignatureCapture };
+export default SignatureCapture;
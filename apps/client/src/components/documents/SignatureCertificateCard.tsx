@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { ExclamationTriangleIcon, FingerPrintIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { useContractStore } from '../../stores/contracts';
+import type { ContractSignatureCertificate, SignatureMethod } from '../../types/documents';
+
+interface SignatureCertificateCardProps {
+  contractId: string;
+  contractNumber?: string;
+}
+
+const METHOD_LABELS: Record<SignatureMethod, string> = {
+  drawn: 'Drawn',
+  typed: 'Typed',
+  upload: 'Uploaded image',
+};
+
+function SignatureCertificateCard({ contractId, contractNumber }: SignatureCertificateCardProps) {
+  const fetchSignatureCertificate = useContractStore((state) => state.fetchSignatureCertificate);
+  const [certificate, setCertificate] = useState<ContractSignatureCertificate | null>(null);
+
+  useEffect(() => {
+    fetchSignatureCertificate(contractId)
+      .then(setCertificate)
+      .catch((err) => console.error('Failed to load signature certificate:', err));
+  }, [contractId, fetchSignatureCertificate]);
+
+  // Contracts signed before signatures were captured only have the clickwrap name
+  if (!certificate || certificate.signatures.length === 0) return null;
+
+  return (
+    <div className="card bg-base-200">
+      <div className="card-body p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">
+            <ShieldCheckIcon className="w-5 h-5 inline mr-2" />
+            Signature Certificate
+          </h2>
+          {contractNumber && <span className="text-sm text-base-content/60">{contractNumber}</span>}
+        </div>
+
+        <div className="space-y-4">
+          {certificate.signatures.map((signature) => (
+            <div key={signature.id} className="p-4 bg-base-100 rounded-lg border border-base-300 space-y-3">
+              {signature.image && (
+                <div className="bg-white rounded border border-base-300 p-2 flex justify-center">
+                  <img src={signature.image} alt={`Signature of ${signature.signer_name}`} className="max-h-24" />
+                </div>
+              )}
+
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                <div>
+                  <dt className="text-base-content/60">Signer</dt>
+                  <dd className="font-medium">
+                    {signature.signer_name}
+                    {signature.signer_email && (
+                      <span className="text-base-content/60 font-normal"> · {signature.signer_email}</span>
+                    )}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-base-content/60">Signed at</dt>
+                  <dd className="font-medium">{new Date(signature.signed_at).toLocaleString()}</dd>
+                </div>
+                <div>
+                  <dt className="text-base-content/60">Method</dt>
+                  <dd>
+                    {METHOD_LABELS[signature.method]}
+                    {signature.typed_font && ` (${signature.typed_font} font)`}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-base-content/60">IP address</dt>
+                  <dd className="font-mono">{signature.ip_address || 'Unknown'}</dd>
+                </div>
+                <div className="sm:col-span-2">
+                  <dt className="text-base-content/60">Browser</dt>
+                  <dd className="text-xs break-all">{signature.user_agent || 'Unknown'}</dd>
+                </div>
+                <div className="sm:col-span-2">
+                  <dt className="text-base-content/60 flex items-center gap-1">
+                    <FingerPrintIcon className="w-4 h-4" />
+                    Document SHA-256 at signing
+                  </dt>
+                  <dd className="font-mono text-xs break-all">{signature.document_hash}</dd>
+                </div>
+              </dl>
+
+              {signature.document_unchanged ? (
+                <div className="flex items-center gap-2 text-sm text-success">
+                  <ShieldCheckIcon className="w-4 h-4" />
+                  The contract text matches what was signed
+                </div>
+              ) : (
+                <div className="flex items-start gap-2 text-sm text-warning">
+                  <ExclamationTriangleIcon className="w-4 h-4 mt-0.5" />
+                  <span>
+                    The contract text has changed since it was signed. Current SHA-256:{' '}
+                    <span className="font-mono text-xs break-all">{certificate.document_hash}</span>
+                  </span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export { SignatureCertificateCard };
+export default SignatureCertificateCard;
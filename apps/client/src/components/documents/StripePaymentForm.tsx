@@ -6,6 +6,7 @@ import {
   useStripe,
   useElements,
 } from '@stripe/react-stripe-js';
+import { formatMoney } from '../../lib/currency';
 
 interface StripePaymentFormProps {
   clientSecret: string;
@@ -63,7 +64,7 @@ function PaymentForm({
           <div className="flex justify-between items-center mb-4">
             <span className="text-base-content/70">Amount Due:</span>
             <span className="text-2xl font-bold">
-              ${amount.toFixed(2)} {currency}
+              {formatMoney(amount, currency)}
             </span>
           </div>
 
@@ -82,7 +83,7 @@ function PaymentForm({
             Processing...
           </>
         ) : (
-          `Pay $${amount.toFixed(2)}`
+          `Pay ${formatMoney(amount, currency)}`
         )}
       </button>
 
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { PlusIcon, TrashIcon, ReceiptPercentIcon } from '@heroicons/react/24/outline';
+import { useInvoiceStore } from '../../stores/invoices';
+import type { TaxRate, TaxRateInput } from '../../types/documents';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+const EMPTY_FORM = { name: '', rate: '', is_compound: false, is_default: false };
+
+function TaxRatesCard() {
+  const { taxRates, fetchTaxRates, createTaxRate, updateTaxRate, deleteTaxRate } = useInvoiceStore();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTaxRates();
+  }, [fetchTaxRates]);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const data: TaxRateInput = {
+      name: form.name.trim(),
+      rate: parseFloat(form.rate) || 0,
+      is_compound: form.is_compound,
+      is_default: form.is_default,
+    };
+    if (!data.name) return;
+    if (await run(() => createTaxRate(data), 'Failed to add tax rate')) {
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const handleToggle = (taxRate: TaxRate, field: 'is_compound' | 'is_default') => {
+    run(() => updateTaxRate(taxRate.id, { [field]: !taxRate[field] }), 'Failed to update tax rate');
+  };
+
+  const handleDelete = (taxRate: TaxRate) => {
+    if (!confirm(`Delete "${taxRate.name}"? Invoices that already use it keep their tax.`)) return;
+    run(() => deleteTaxRate(taxRate.id), 'Failed to delete tax rate');
+  };
+
+  return (
+    <div className="card bg-base-200 shadow-xl p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1 text-base-content">
+        <ReceiptPercentIcon className="w-5 h-5 inline mr-2" />
+        Tax Rates
+      </h2>
+      <p className="text-sm text-base-content/70 mb-4">
+        Saved rates can be applied to individual invoice lines. Compound taxes are charged on the line amount plus the
+        other taxes on that line.
+      </p>
+
+      {error && <div className="alert alert-error text-sm py-2 mb-3">{error}</div>}
+
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th className="text-right">Rate</th>
+              <th className="text-center">Compound</th>
+              <th className="text-center">Default</th>
+              <th className="w-12"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {taxRates.length === 0 && (
+              <tr>
+                <td colSpan={5} className="text-center text-base-content/60 py-4">
+                  No tax rates yet.
+                </td>
+              </tr>
+            )}
+            {taxRates.map((taxRate) => (
+              <tr key={taxRate.id}>
+                <td className="font-medium">{taxRate.name}</td>
+                <td className="text-right">{Number(taxRate.rate)}%</td>
+                <td className="text-center">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    checked={taxRate.is_compound}
+                    onChange={() => handleToggle(taxRate, 'is_compound')}
+                    disabled={isSaving}
+                  />
+                </td>
+                <td className="text-center">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    checked={taxRate.is_default}
+                    onChange={() => handleToggle(taxRate, 'is_default')}
+                    disabled={isSaving}
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs text-error"
+                    onClick={() => handleDelete(taxRate)}
+                    disabled={isSaving}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td>
+                <input
+                  type="text"
+                  className="input input-bordered input-sm w-full"
+                  placeholder="e.g. VAT"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </td>
+              <td>
+                <div className="join">
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="any"
+                    className="input input-bordered input-sm join-item w-24"
+                    placeholder="20"
+                    value={form.rate}
+                    onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                  />
+                  <span className="join-item btn btn-sm btn-disabled">%</span>
+                </div>
+              </td>
+              <td className="text-center">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm"
+                  checked={form.is_compound}
+                  onChange={(e) => setForm({ ...form, is_compound: e.target.checked })}
+                />
+              </td>
+              <td className="text-center">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm"
+                  checked={form.is_default}
+                  onChange={(e) => setForm({ ...form, is_default: e.target.checked })}
+                />
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className="btn btn-primary btn-xs"
+                  onClick={handleAdd}
+                  disabled={isSaving || !form.name.trim() || form.rate === ''}
+                >
+                  <PlusIcon className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export { TaxRatesCard };
+export default TaxRatesCard;
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { useInvoiceStore } from '../../stores/invoices';
+import { usePermissions } from '../../hooks/usePermissions';
+import { FREQUENCY_LABELS } from './recurrence';
+import { formatMoney } from '../../lib/currency';
+import type { OccurrenceStatus, UpcomingInvoice } from '../../types/documents';
+
+const OCCURRENCE_BADGES: Record<OccurrenceStatus, string> = {
+  pending: 'badge-ghost',
+  paused: 'badge-warning',
+  skipped: 'badge-ghost line-through',
+};
+
+interface UpcomingInvoicesPanelProps {
+  /** Called after a change, since resuming a held-back occurrence issues its invoice */
+  onChange?: () => void;
+}
+
+function UpcomingInvoicesPanel({ onChange }: UpcomingInvoicesPanelProps) {
+  const { upcomingInvoices, fetchUpcomingInvoices, setOccurrenceStatus, setSchedulePaused } = useInvoiceStore();
+  const { can } = usePermissions();
+  const canEdit = can('update', 'invoices');
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUpcomingInvoices();
+  }, [fetchUpcomingInvoices]);
+
+  if (upcomingInvoices.length === 0) {
+    return null;
+  }
+
+  const keyOf = (occurrence: UpcomingInvoice) => `${occurrence.schedule_id}-${occurrence.sequence}`;
+
+  const run = async (occurrence: UpcomingInvoice, action: () => Promise<unknown>) => {
+    setBusyKey(keyOf(occurrence));
+    setError(null);
+    try {
+      await action();
+      onChange?.();
+    } catch (err) {
+      setError(
+        axios.isAxiosError(err) && err.response?.data?.message
+          ? err.response.data.message
+          : 'Failed to update recurring invoice'
+      );
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="card bg-base-200">
+      <div className="card-body p-4">
+        <h2 className="font-semibold flex items-center gap-2">
+          <ArrowPathIcon className="w-5 h-5" />
+          Upcoming recurring invoices
+        </h2>
+        {error && <div className="alert alert-error text-sm py-2">{error}</div>}
+        <div className="overflow-x-auto">
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Template</th>
+                <th>Client</th>
+                <th>Repeats</th>
+                <th className="text-right">Amount</th>
+                <th>Status</th>
+                {canEdit && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {upcomingInvoices.map((occurrence) => {
+                const isBusy = busyKey === keyOf(occurrence);
+                const schedulePaused = occurrence.schedule_status === 'paused';
+
+                return (
+                  <tr key={keyOf(occurrence)} className={occurrence.status === 'skipped' ? 'opacity-60' : ''}>
+                    <td>{new Date(occurrence.scheduled_date).toLocaleDateString()}</td>
+                    <td>
+                      {occurrence.invoice ? (
+                        <Link
+                          to={`/documents/invoices/${occurrence.invoice.id}`}
+                          className="hover:text-primary"
+                        >
+                          {occurrence.invoice.title || occurrence.invoice.invoice_number}
+                        </Link>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td>{occurrence.invoice?.contact?.full_name || <span className="text-base-content/40">No client</span>}</td>
+                    <td>{FREQUENCY_LABELS[occurrence.frequency]}</td>
+                    <td className="text-right">{formatMoney(occurrence.invoice?.total, occurrence.invoice?.currency)}</td>
+                    <td>
+                      {schedulePaused ? (
+                        <span className="badge badge-sm badge-warning">Schedule paused</span>
+                      ) : (
+                        <span className={`badge badge-sm capitalize ${OCCURRENCE_BADGES[occurrence.status]}`}>
+                          {occurrence.status === 'pending' ? 'Scheduled' : occurrence.status}
+                        </span>
+                      )}
+                    </td>
+                    {canEdit && (
+                      <td className="text-right whitespace-nowrap">
+                        {schedulePaused ? (
+                          <button
+                            className="btn btn-ghost btn-xs"
+                            disabled={isBusy}
+                            onClick={() => run(occurrence, () => setSchedulePaused(occurrence.schedule_id, false))}
+                          >
+                            Resume schedule
+                          </button>
+                        ) : occurrence.status === 'pending' ? (
+                          <>
+                            <button
+                              className="btn btn-ghost btn-xs"
+                              disabled={isBusy}
+                              onClick={() => run(occurrence, () => setOccurrenceStatus(occurrence.schedule_id, occurrence.sequence, 'skipped'))}
+                            >
+                              Skip
+                            </button>
+                            <button
+                              className="btn btn-ghost btn-xs"
+                              disabled={isBusy}
+                              onClick={() => run(occurrence, () => setOccurrenceStatus(occurrence.schedule_id, occurrence.sequence, 'paused'))}
+                            >
+                              Pause
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            className="btn btn-ghost btn-xs"
+                            disabled={isBusy}
+                            onClick={() => run(occurrence, () => setOccurrenceStatus(occurrence.schedule_id, occurrence.sequence, 'pending'))}
+                          >
+                            {occurrence.status === 'paused' ? 'Resume' : 'Restore'}
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export { UpcomingInvoicesPanel };
+export default UpcomingInvoicesPanel;
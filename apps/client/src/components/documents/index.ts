@@ -6,3 +6,26 @@ export { InvoiceStatusBadge } from './InvoiceStatusBadge';
 export { InvoiceLineItemForm } from './InvoiceLineItemForm';
 export { StripePaymentForm } from './StripePaymentForm';
 
+export { RecurringScheduleCard } from './RecurringScheduleCard';
+export { UpcomingInvoicesPanel } from './UpcomingInvoicesPanel';
+export { PaymentLedgerCard } from './PaymentLedgerCard';
+export { TaxRatesCard } from './TaxRatesCard';
+export { ProjectWorkPicker } from './ProjectWorkPicker';
+export { ReminderScheduleEditor } from './ReminderScheduleEditor';
+export { InvoiceRemindersCard } from './InvoiceRemindersCard';
+export { CreditNotesCard } from './CreditNotesCard';
+export { QuoteStatusBadge } from './QuoteStatusBadge';
+export { SignatureCapture } from './SignatureCapture';
+export { SignatureCertificateCard } from './SignatureCertificateCard';
+export { ContractSignersCard } from './ContractSignersCard';
+export { ContractVersionDiff } from './ContractVersionDiff';
+export { ContractCommentsCard } from './ContractCommentsCard';
+export { ContractContentEditor } from './ContractContentEditor';
+export { ContractChangeRequestPanel } from './ContractChangeRequestPanel';
+export { ContractRenewalsPanel } from './ContractRenewalsPanel';
+export { ContractRenewalCard } from './ContractRenewalCard';
+export { SectionLogicEditor } from './SectionLogicEditor';
+export { CustomMergeFieldsCard } from './CustomMergeFieldsCard';
+export { CustomMergeFieldForm } from './CustomMergeFieldForm';
+export { ClausePickerModal } from './ClausePickerModal';
+export { ClauseEditorModal } from './ClauseEditorModal';
@@ -0,0 +1,38 @@
+import type { CustomMergeFieldCategory, MergeField } from '../../types/documents';
+
+export const FIELD_TYPES: Record<MergeField['type'], string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  currency: 'Currency',
+};
+
+export const FIELD_CATEGORIES: Record<CustomMergeFieldCategory, string> = {
+  client: 'Client',
+  project: 'Project',
+  company: 'Company',
+  contract: 'Contract',
+};
+
+/** Date formats the API understands (PHP date patterns), with an example of each */
+export const DATE_FORMATS: { value: string; label: string }[] = [
+  { value: 'F j, Y', label: 'March 5, 2026' },
+  { value: 'j F Y', label: '5 March 2026' },
+  { value: 'M j, Y', label: 'Mar 5, 2026' },
+  { value: 'Y-m-d', label: '2026-03-05' },
+  { value: 'm/d/Y', label: '03/05/2026' },
+  { value: 'd/m/Y', label: '05/03/2026' },
+];
+
+/** Currency shown before amounts; "$" is the default */
+export const CURRENCY_FORMATS = ['$', 'USD', 'EUR', 'GBP', 'CAD', 'AUD'];
+
+/** Keys look like category.name, e.g. client.vat_number */
+export const isValidFieldKey = (key: string) => /^[a-z][a-z0-9_]*(\.[a-z0-9_]+)+$/.test(key);
+
+/** Suggested key for a label, e.g. "VAT Number" in client becomes client.vat_number */
+export const keyFromLabel = (category: string, label: string) =>
+  `${category}.${label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')}`;
@@ -0,0 +1,8 @@
+import type { RecurrenceFrequency } from '../../types/documents';
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
@@ -0,0 +1,35 @@
+import type { ReminderStep } from '../../types/documents';
+
+export type ReminderTiming = 'before_due' | 'on_due' | 'after_due';
+
+export const timingOf = (offsetDays: number): ReminderTiming =>
+  offsetDays < 0 ? 'before_due' : offsetDays === 0 ? 'on_due' : 'after_due';
+
+/**
+ * Human description of a step's offset from the due date.
+ *
+ * @example
+ * describeOffset(-3) // "3 days before due"
+ * describeOffset(0)  // "On the due date"
+ */
+export function describeOffset(offsetDays: number): string {
+  if (offsetDays === 0) return 'On the due date';
+  const days = Math.abs(offsetDays);
+  return `${days} day${days === 1 ? '' : 's'} ${offsetDays < 0 ? 'before' : 'after'} due`;
+}
+
+export const sortSteps = (steps: ReminderStep[]): ReminderStep[] =>
+  [...steps].sort((a, b) => a.offset_days - b.offset_days);
+
+export const REMINDER_EVENT_LABELS: Record<string, string> = {
+  sent: 'Invoice sent',
+  viewed: 'Viewed by client',
+  resent: 'Invoice sent again',
+  reminder_sent: 'Reminder sent',
+  overdue: 'Marked overdue',
+  send_failed: 'Email failed',
+  reminders_paused: 'Reminders paused',
+  reminders_resumed: 'Reminders resumed',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+};
@@ -0,0 +1,43 @@
+import type { InvoiceLineItem, LineItemTax, TaxBreakdownEntry, TaxRate } from '../../types/documents';
+
+/** Line amount net of its discount, as the API calculates it */
+export const lineAmount = (item: Partial<InvoiceLineItem>) => {
+  const gross = (item.quantity || 0) * (item.unit_price || 0);
+  return gross - Math.round(gross * (item.discount_rate || 0)) / 100;
+};
+
+/** Company tax rates in the order they are charged: simple taxes first, then compound */
+export const orderTaxes = (taxRates: TaxRate[]): LineItemTax[] =>
+  [...taxRates]
+    .sort((a, b) => Number(a.is_compound) - Number(b.is_compound) || a.order - b.order)
+    .map((taxRate) => ({
+      tax_rate_id: taxRate.id,
+      name: taxRate.name,
+      rate: Number(taxRate.rate),
+      is_compound: taxRate.is_compound,
+    }));
+
+/**
+ * Per-rate tax summary for a set of line items, matching the invoice's tax_breakdown.
+ * Compound taxes are charged on the line amount plus the taxes before them.
+ */
+export const taxBreakdown = (items: { amount: number; taxes: LineItemTax[] }[]): TaxBreakdownEntry[] => {
+  const entries = new Map<string, TaxBreakdownEntry>();
+
+  for (const item of items) {
+    let charged = 0;
+    for (const tax of item.taxes) {
+      const taxable = tax.is_compound ? item.amount + charged : item.amount;
+      const amount = (taxable * tax.rate) / 100;
+      const key = `${tax.name}|${tax.rate}|${tax.is_compound}`;
+      const entry = entries.get(key) ?? { ...tax, taxable: 0, amount: 0 };
+
+      entry.taxable += taxable;
+      entry.amount += amount;
+      entries.set(key, entry);
+      charged += amount;
+    }
+  }
+
+  return [...entries.values()];
+};
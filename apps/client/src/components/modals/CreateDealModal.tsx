@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { X, DollarSign, Calendar, Loader2 } from 'lucide-react'
 import { useModalStore, MODAL_NAMES, CreateDealModalProps } from '../../stores/modal'
 import { useAuthStore } from '../../stores/auth'
+import { usePipelineStore } from '../../stores/pipelines'
 import { api } from '../../lib/api'
 
 interface Contact {
@@ -11,22 +12,18 @@ interface Contact {
   organization: string | null
 }
 
-const STAGES = [
-  { value: 'qualification', label: 'Qualification', probability: 10 },
-  { value: 'proposal', label: 'Proposal', probability: 30 },
-  { value: 'negotiation', label: 'Negotiation', probability: 60 },
-]
-
 export default function CreateDealModal() {
   const { activeModal, modalProps, closeModal } = useModalStore()
   const { company } = useAuthStore()
+  const { pipelines, selectedPipelineId, fetchPipelines } = usePipelineStore()
   const props = modalProps as CreateDealModalProps
 
   const [formData, setFormData] = useState({
     title: '',
     value: '',
     currency: 'USD',
-    stage: 'qualification',
+    pipeline_id: '',
+    stage: '',
     contact_id: props?.contactId || '',
     expected_close_date: '',
     description: '',
@@ -39,6 +36,14 @@ export default function CreateDealModal() {
 
   const isOpen = activeModal === MODAL_NAMES.CREATE_DEAL
 
+  const pipeline = pipelines.find((p) => p.id === formData.pipeline_id) ?? null
+  const openStages = pipeline?.stages.filter((s) => !s.is_won && !s.is_lost) ?? []
+
+  // Load pipelines if the deals board hasn't already
+  useEffect(() => {
+    if (isOpen && pipelines.length === 0) fetchPipelines()
+  }, [isOpen, pipelines.length, fetchPipelines])
+
   // Reset form when modal opens
   useEffect(() => {
     if (isOpen) {
@@ -46,7 +51,8 @@ export default function CreateDealModal() {
         title: '',
         value: '',
         currency: 'USD',
-        stage: 'qualification',
+        pipeline_id: '',
+        stage: '',
         contact_id: props?.contactId || '',
         expected_close_date: '',
         description: '',
@@ -56,6 +62,19 @@ export default function CreateDealModal() {
     }
   }, [isOpen, props?.contactId])
 
+  // Start in the requested (or currently selected) pipeline's first open stage
+  useEffect(() => {
+    if (!isOpen || formData.pipeline_id || pipelines.length === 0) return
+    const initial = pipelines.find((p) => p.id === (props?.pipelineId || selectedPipelineId))
+      ?? pipelines.find((p) => p.is_default)
+      ?? pipelines[0]
+    setFormData((prev) => ({
+      ...prev,
+      pipeline_id: initial.id,
+      stage: initial.stages.find((s) => !s.is_won && !s.is_lost)?.key ?? '',
+    }))
+  }, [isOpen, formData.pipeline_id, pipelines, props?.pipelineId, selectedPipelineId])
+
   const fetchContacts = async () => {
     if (!company?.id) return
     setIsLoadingContacts(true)
@@ -88,7 +107,8 @@ export default function CreateDealModal() {
         title: formData.title.trim(),
         value: formData.value ? parseFloat(formData.value) : null,
         currency: formData.currency,
-        stage: formData.stage,
+        pipeline_id: formData.pipeline_id || null,
+        stage: formData.stage || null,
         contact_id: formData.contact_id || null,
         expected_close_date: formData.expected_close_date || null,
         description: formData.description.trim() || null,
@@ -183,22 +203,45 @@ export default function CreateDealModal() {
             </div>
           </div>
 
-          {/* Stage */}
-          <div className="form-control">
-            <label className="label">
-              <span className="label-text">Stage</span>
-            </label>
-            <select
-              value={formData.stage}
-              onChange={(e) => setFormData({ ...formData, stage: e.target.value })}
-              className="select select-bordered w-full"
-            >
-              {STAGES.map((stage) => (
-                <option key={stage.value} value={stage.value}>
-                  {stage.label} ({stage.probability}% probability)
-                </option>
-              ))}
-            </select>
+          {/* Pipeline & Stage */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Pipeline</span>
+              </label>
+              <select
+                value={formData.pipeline_id}
+                onChange={(e) => {
+                  const next = pipelines.find((p) => p.id === e.target.value)
+                  setFormData({
+                    ...formData,
+                    pipeline_id: e.target.value,
+                    stage: next?.stages.find((s) => !s.is_won && !s.is_lost)?.key ?? '',
+                  })
+                }}
+                className="select select-bordered w-full"
+              >
+                {pipelines.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Stage</span>
+              </label>
+              <select
+                value={formData.stage}
+                onChange={(e) => setFormData({ ...formData, stage: e.target.value })}
+                className="select select-bordered w-full"
+              >
+                {openStages.map((stage) => (
+                  <option key={stage.key} value={stage.key}>
+                    {stage.name} ({stage.probability}%)
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* Contact */}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react'
+
+const secondsSince = (startedAt: string) => Math.max(0, Math.floor((Date.now() - Date.parse(startedAt)) / 1000))
+
+/**
+ * Seconds since a timestamp, re-rendering every second while it is set.
+ *
+ * @example
+ * const elapsed = useElapsedSeconds(runningEntry?.started_at)
+ * <span>{formatClock(elapsed)}</span>
+ */
+export function useElapsedSeconds(startedAt: string | null | undefined): number {
+  const [elapsed, setElapsed] = useState(() => (startedAt ? secondsSince(startedAt) : 0))
+
+  useEffect(() => {
+    if (!startedAt) {
+      setElapsed(0)
+      return
+    }
+
+    setElapsed(secondsSince(startedAt))
+    const interval = setInterval(() => setElapsed(secondsSince(startedAt)), 1000)
+    return () => clearInterval(interval)
+  }, [startedAt])
+
+  return elapsed
+}
@@ -0,0 +1,21 @@
+import { useCallback } from 'react'
+import { useAuthStore } from '../stores/auth'
+import { hasPermission, type Action, type Resource } from '../lib/permissions'
+
+/**
+ * Permission checks for the current user in the active company.
+ *
+ * @example
+ * const { can } = usePermissions()
+ * {can('delete', 'contacts') && <button>Delete</button>}
+ */
+export function usePermissions() {
+  const role = useAuthStore((state) => state.company?.pivot?.role_in_company ?? null)
+
+  const can = useCallback(
+    (action: Action, resource: Resource) => hasPermission(role, action, resource),
+    [role]
+  )
+
+  return { role, can }
+}
@@ -0,0 +1,23 @@
+import type { Contract } from '../types/documents'
+
+export interface SigningProgress {
+  signed: number
+  total: number
+}
+
+/**
+ * Signing progress of a multi-signer contract, from its loaded signers or
+ * the counts included in the contracts list.
+ */
+export function contractSigningProgress(contract: Contract): SigningProgress | undefined {
+  if (contract.signers) {
+    return {
+      signed: contract.signers.filter((signer) => signer.status === 'signed').length,
+      total: contract.signers.length,
+    }
+  }
+  if (contract.signers_count !== undefined) {
+    return { signed: contract.signed_signers_count ?? 0, total: contract.signers_count }
+  }
+  return undefined
+}
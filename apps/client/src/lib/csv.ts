@@ -0,0 +1,31 @@
+export type CsvCell = string | number | null | undefined
+
+// Quote cells that contain separators, quotes or line breaks (RFC 4180)
+function escapeCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) return ''
+  const text = String(cell)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n')
+}
+
+/**
+ * Download rows as a CSV file in the browser.
+ *
+ * @example
+ * downloadCsv('forecast.csv', [['Period', 'Weighted'], ['Oct 2026', 1200]])
+ */
+export function downloadCsv(filename: string, rows: CsvCell[][]): void {
+  // BOM so Excel picks up UTF-8
+  const blob = new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,42 @@
+export const DEFAULT_CURRENCY = 'USD'
+
+// Currencies offered in pickers; any ISO 4217 code still formats correctly
+export const CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK',
+  'PLN', 'CZK', 'JPY', 'CNY', 'HKD', 'SGD', 'INR', 'ZAR', 'BRL', 'MXN',
+]
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+function formatterFor(currency: string): Intl.NumberFormat {
+  const code = (currency || DEFAULT_CURRENCY).toUpperCase()
+  let formatter = formatters.get(code)
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency: code })
+    } catch {
+      // Unknown code: fall back to the default so the amount still renders
+      formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency: DEFAULT_CURRENCY })
+    }
+    formatters.set(code, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Format an amount in its currency using the browser locale.
+ * Accepts the decimal strings Laravel returns for money columns.
+ *
+ * @example
+ * formatMoney(1234.5, 'EUR') // "€1,234.50" in en-US, "1.234,50 €" in de-DE
+ */
+export function formatMoney(amount: number | string | null | undefined, currency: string = DEFAULT_CURRENCY): string {
+  return formatterFor(currency).format(Number(amount) || 0)
+}
+
+/**
+ * Symbol of a currency in the browser locale, e.g. "$" or "€".
+ */
+export function currencySymbol(currency: string = DEFAULT_CURRENCY): string {
+  return formatterFor(currency).formatToParts(0).find((part) => part.type === 'currency')?.value ?? currency
+}
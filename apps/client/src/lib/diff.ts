@@ -0,0 +1,147 @@
+import type { TemplateSection } from '../types/documents'
+
+export type DiffOp = 'equal' | 'added' | 'removed'
+
+export interface DiffPart {
+  op: DiffOp
+  text: string
+}
+
+export interface SectionDiff {
+  key: string
+  type: TemplateSection['type']
+  status: 'unchanged' | 'changed' | 'added' | 'removed'
+  /** Parts shown on the left (older) side: equal and removed text */
+  before: DiffPart[]
+  /** Parts shown on the right (newer) side: equal and added text */
+  after: DiffPart[]
+}
+
+// Above this many token comparisons a changed section is shown as replaced
+// wholesale, so a huge paste can't freeze the page
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Longest-common-subsequence alignment of two lists.
+ */
+function align<T>(a: T[], b: T[], key: (item: T) => string): { op: DiffOp; item: T }[] {
+  const n = a.length
+  const m = b.length
+  const ka = a.map(key)
+  const kb = b.map(key)
+
+  if (n * m > MAX_DIFF_CELLS) {
+    return [...a.map((item) => ({ op: 'removed' as const, item })), ...b.map((item) => ({ op: 'added' as const, item }))]
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        ka[i] === kb[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1])
+    }
+  }
+
+  const result: { op: DiffOp; item: T }[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (ka[i] === kb[j]) {
+      result.push({ op: 'equal', item: b[j] })
+      i++
+      j++
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      result.push({ op: 'removed', item: a[i++] })
+    } else {
+      result.push({ op: 'added', item: b[j++] })
+    }
+  }
+  while (i < n) result.push({ op: 'removed', item: a[i++] })
+  while (j < m) result.push({ op: 'added', item: b[j++] })
+
+  return result
+}
+
+/**
+ * Word-level diff of two strings; whitespace is kept so the text reads naturally.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const tokens = (text: string) => text.split(/(\s+)/).filter((token) => token !== '')
+  const parts: DiffPart[] = []
+
+  for (const { op, item } of align(tokens(before), tokens(after), (token) => token)) {
+    const last = parts[parts.length - 1]
+    if (last && last.op === op) {
+      last.text += item
+    } else {
+      parts.push({ op, text: item })
+    }
+  }
+
+  return parts
+}
+
+function htmlToText(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent || ''
+}
+
+/**
+ * Plain text of a contract section, as compared between versions.
+ */
+export function sectionText(section: TemplateSection): string {
+  const content = section.content || {}
+  switch (section.type) {
+    case 'heading':
+      return content.text || ''
+    case 'paragraph':
+      return htmlToText(content.html || '')
+    case 'list':
+      return (content.items || []).join('\n')
+    case 'table':
+      return ((content.cells || []) as string[][]).map((row) => row.join(' | ')).join('\n')
+    case 'signature':
+      return [content.label, content.nameField].filter(Boolean).join(' — ')
+    default:
+      return ''
+  }
+}
+
+/**
+ * Section-by-section diff of two versions of a contract. Sections are
+ * matched by id, so a section edited in place is shown as changed rather
+ * than removed and re-added.
+ */
+export function diffSections(before: TemplateSection[], after: TemplateSection[]): SectionDiff[] {
+  const sorted = (sections: TemplateSection[]) => [...sections].sort((x, y) => x.order - y.order)
+  const sectionKey = (section: TemplateSection) => section.id || `${section.type}-${section.order}`
+  const beforeByKey = new Map(before.map((section) => [sectionKey(section), section]))
+
+  return align(sorted(before), sorted(after), sectionKey).map(({ op, item }, index) => {
+    const key = `${sectionKey(item)}-${index}`
+    const text = sectionText(item)
+
+    if (op === 'removed') {
+      return { key, type: item.type, status: 'removed', before: [{ op: 'removed', text }], after: [] }
+    }
+    if (op === 'added') {
+      return { key, type: item.type, status: 'added', before: [], after: [{ op: 'added', text }] }
+    }
+
+    const previousText = sectionText(beforeByKey.get(sectionKey(item)) || item)
+    if (previousText === text) {
+      return { key, type: item.type, status: 'unchanged', before: [{ op: 'equal', text }], after: [{ op: 'equal', text }] }
+    }
+
+    const parts = diffWords(previousText, text)
+    return {
+      key,
+      type: item.type,
+      status: 'changed',
+      before: parts.filter((part) => part.op !== 'added'),
+      after: parts.filter((part) => part.op !== 'removed'),
+    }
+  })
+}
@@ -0,0 +1,61 @@
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Format seconds for a running timer.
+ *
+ * @example
+ * formatClock(3909) // "1:05:09"
+ */
+export function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  return `${hours}:${pad(minutes)}:${pad(total % 60)}`
+}
+
+/**
+ * Format seconds for totals, rounded to the minute. Zero renders as a dash.
+ *
+ * @example
+ * formatDuration(3909) // "1h 05m"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(Math.max(0, seconds) / 60)
+  if (minutes === 0) return '—'
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `${hours}h ${pad(minutes % 60)}m` : `${minutes}m`
+}
+
+/**
+ * Parse a typed duration ("1:30", "1.5", "1.5h" or "90m") into minutes.
+ * Returns null when the input can't be read.
+ */
+export function parseDuration(input: string): number | null {
+  const value = input.trim().toLowerCase()
+  const clock = value.match(/^(\d+):([0-5]\d)$/)
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2])
+
+  const minutes = value.match(/^(\d+)\s*m$/)
+  if (minutes) return Number(minutes[1])
+
+  const hours = value.match(/^(\d+(?:\.\d+)?)\s*h?$/)
+  if (hours) return Math.round(Number(hours[1]) * 60)
+
+  return null
+}
+
+/**
+ * Monday of the week containing the date, as YYYY-MM-DD in local time.
+ */
+export function weekStart(date: Date = new Date()): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7))
+  return toDateInput(monday)
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time, as date inputs and the API expect.
+ */
+export function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
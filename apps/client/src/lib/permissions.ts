@@ -0,0 +1,99 @@
+import type { Company } from '../stores/auth'
+
+export type Role = NonNullable<Company['pivot']>['role_in_company']
+
+export type Action = 'view' | 'create' | 'update' | 'delete' | 'manage'
+
+export type Resource =
+  | 'contacts'
+  | 'deals'
+  | 'projects'
+  | 'tasks'
+  | 'timesheets'
+  | 'contracts'
+  | 'templates'
+  | 'invoices'
+  | 'quotes'
+  | 'company'
+  | 'team'
+  | 'document_settings'
+  | 'skills'
+
+type PermissionMatrix = Record<Role, Partial<Record<Resource, readonly Action[]>>>
+
+const ALL: readonly Action[] = ['view', 'create', 'update', 'delete', 'manage']
+const EDIT: readonly Action[] = ['view', 'create', 'update']
+const READ: readonly Action[] = ['view']
+
+/**
+ * Which actions each company role may perform on each resource.
+ * Anything not listed is denied. 'manage' covers admin-level operations
+ * (e.g. inviting people, creating custom skills via /api/v1/admin/skills,
+ * approving timesheets).
+ */
+export const PERMISSIONS: PermissionMatrix = {
+  owner: {
+    contacts: ALL,
+    deals: ALL,
+    projects: ALL,
+    tasks: ALL,
+    timesheets: ALL,
+    contracts: ALL,
+    templates: ALL,
+    invoices: ALL,
+    quotes: ALL,
+    company: ALL,
+    team: ALL,
+    document_settings: ALL,
+    skills: ALL,
+  },
+  manager: {
+    contacts: ALL,
+    deals: ALL,
+    projects: ALL,
+    tasks: ALL,
+    timesheets: ALL,
+    contracts: ALL,
+    templates: ALL,
+    invoices: ALL,
+    quotes: ALL,
+    company: ['view', 'update'],
+    team: ['view', 'manage'],
+    document_settings: ['view', 'update'],
+  },
+  staff: {
+    contacts: [...EDIT, 'delete'],
+    deals: EDIT,
+    projects: EDIT,
+    tasks: [...EDIT, 'delete'],
+    timesheets: [...EDIT, 'delete'],
+    contracts: EDIT,
+    templates: READ,
+    invoices: EDIT,
+    quotes: EDIT,
+    company: READ,
+    team: READ,
+  },
+  agent: {
+    contacts: EDIT,
+    deals: EDIT,
+    projects: READ,
+    tasks: EDIT,
+    timesheets: [...EDIT, 'delete'],
+    contracts: READ,
+    templates: READ,
+    invoices: READ,
+    quotes: READ,
+    company: READ,
+    team: READ,
+  },
+}
+
+/**
+ * Check a role against the permission matrix.
+ * Users without a role in the active company are denied everything.
+ */
+export function hasPermission(role: Role | null | undefined, action: Action, resource: Resource): boolean {
+  if (!role) return false
+  return PERMISSIONS[role]?.[resource]?.includes(action) ?? false
+}
@@ -0,0 +1,227 @@
+import type {
+  Contract,
+  SectionCondition,
+  SectionConditionOperator,
+  SectionRepeatSource,
+  TemplateSection,
+} from '../types/documents'
+
+/**
+ * Display conditions and repeatable blocks in contract template sections.
+ *
+ * Mirrors MergeFieldService::applySectionLogic on the API, which renders the
+ * stored contract; this copy drives the builder and create-contract previews.
+ */
+
+export interface SectionContext {
+  contractType: Contract['contract_type']
+  pricingData: Record<string, unknown>
+  /** Merge field values, keyed like "project.budget" */
+  values?: Record<string, string | number | null | undefined>
+}
+
+export const CONDITION_FIELDS: { key: string; label: string }[] = [
+  { key: 'contract_type', label: 'Contract Type' },
+  { key: 'pricing.total', label: 'Contract Total' },
+  { key: 'pricing.currency', label: 'Currency' },
+  { key: 'pricing.interval', label: 'Billing Interval' },
+  { key: 'pricing.milestone_count', label: 'Number of Milestones' },
+  { key: 'pricing.line_item_count', label: 'Number of Line Items' },
+  { key: 'project.budget', label: 'Project Budget' },
+  { key: 'project.name', label: 'Project Name' },
+  { key: 'client.organization', label: 'Client Organization' },
+  { key: 'client.email', label: 'Client Email' },
+]
+
+export const CONDITION_OPERATORS: Record<SectionConditionOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  contains: 'contains',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+}
+
+export const REPEAT_SOURCES: Record<SectionRepeatSource, { label: string; fields: string[] }> = {
+  milestones: { label: 'Each milestone', fields: ['number', 'name', 'amount', 'due_date'] },
+  line_items: { label: 'Each line item', fields: ['number', 'description', 'quantity', 'unit_price', 'amount'] },
+}
+
+/** Whether an operator compares against a value */
+export const operatorTakesValue = (operator: SectionConditionOperator) =>
+  operator !== 'is_empty' && operator !== 'is_not_empty'
+
+const items = (pricingData: Record<string, unknown>, source: SectionRepeatSource) => {
+  const list = pricingData[source]
+  return Array.isArray(list) ? (list as Record<string, unknown>[]) : []
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string') return null
+  const cleaned = value.replace(/[^0-9.-]/g, '')
+  if (cleaned === '' || cleaned === '-' || cleaned === '.') return null
+  const parsed = Number(cleaned)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+const formatAmount = (value: unknown) =>
+  (toNumber(value) ?? 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+/** Total contract value the way the pricing panel calculates it */
+function pricingTotal(contractType: Contract['contract_type'], pricingData: Record<string, unknown>): number {
+  if (contractType === 'milestone') {
+    return items(pricingData, 'milestones').reduce((sum, milestone) => sum + (toNumber(milestone.amount) ?? 0), 0)
+  }
+  if (contractType === 'subscription') {
+    return (toNumber(pricingData.amount) ?? 0) * (toNumber(pricingData.period) ?? 12)
+  }
+  return toNumber(pricingData.amount) ?? 0
+}
+
+/** Flat lookup of everything a condition can test */
+export function conditionValues(context: SectionContext): Record<string, unknown> {
+  const { contractType, pricingData } = context
+  return {
+    ...context.values,
+    contract_type: contractType,
+    'pricing.total': pricingTotal(contractType, pricingData),
+    'pricing.amount': pricingData.amount,
+    'pricing.currency': pricingData.currency,
+    'pricing.interval': pricingData.interval,
+    'pricing.period': pricingData.period,
+    'pricing.milestone_count': items(pricingData, 'milestones').length,
+    'pricing.line_item_count': items(pricingData, 'line_items').length,
+  }
+}
+
+/**
+ * Test one condition. Numeric operators compare numbers found in the value,
+ * so "$12,500.00" is greater than 10000; everything else compares text
+ * case-insensitively.
+ */
+export function evaluateCondition(condition: SectionCondition, values: Record<string, unknown>): boolean {
+  const actual = values[condition.field]
+  const text = actual === null || actual === undefined ? '' : String(actual).trim()
+  const expected = (condition.value ?? '').trim()
+
+  switch (condition.operator) {
+    case 'is_empty':
+      return text === ''
+    case 'is_not_empty':
+      return text !== ''
+    case 'contains':
+      return expected !== '' && text.toLowerCase().includes(expected.toLowerCase())
+    case 'greater_than':
+    case 'less_than': {
+      const a = toNumber(actual)
+      const b = toNumber(expected)
+      if (a === null || b === null) return false
+      return condition.operator === 'greater_than' ? a > b : a < b
+    }
+    case 'equals':
+    case 'not_equals': {
+      const a = toNumber(actual)
+      const b = toNumber(expected)
+      const equal = a !== null && b !== null ? a === b : text.toLowerCase() === expected.toLowerCase()
+      return condition.operator === 'equals' ? equal : !equal
+    }
+    default:
+      return true
+  }
+}
+
+export function isSectionVisible(section: TemplateSection, values: Record<string, unknown>): boolean {
+  const conditions = (section.conditions || []).filter((condition) => condition.field)
+  if (conditions.length === 0) return true
+  return section.condition_match === 'any'
+    ? conditions.some((condition) => evaluateCondition(condition, values))
+    : conditions.every((condition) => evaluateCondition(condition, values))
+}
+
+const itemValues = (item: Record<string, unknown>, index: number): Record<string, string> => ({
+  number: String(index + 1),
+  name: String(item.name ?? ''),
+  description: String(item.description ?? ''),
+  due_date: String(item.due_date || 'TBD'),
+  quantity: String(item.quantity ?? ''),
+  unit_price: formatAmount(item.unit_price),
+  amount: formatAmount(item.amount),
+})
+
+const ITEM_FIELD = /\{\{\s*item\.(\w+)\s*\}\}/g
+
+function replaceItemFields<T>(value: T, fields: Record<string, string>): T {
+  if (typeof value === 'string') {
+    return value.replace(ITEM_FIELD, (match, key: string) => fields[key] ?? match) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => replaceItemFields(entry, fields)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, replaceItemFields(entry, fields)])
+    ) as T
+  }
+  return value
+}
+
+/**
+ * Expand a repeatable section. Tables keep their header and repeat each row
+ * that uses an {{item.*}} field; any other block is repeated as a whole.
+ */
+function repeatSection(section: TemplateSection, list: Record<string, unknown>[]): TemplateSection[] {
+  if (section.type === 'table') {
+    const cells: string[][] = section.content?.cells || []
+    const rows = cells.flatMap((row) =>
+      row.some((cell) => /\{\{\s*item\./.test(cell))
+        ? list.map((item, index) => replaceItemFields(row, itemValues(item, index)))
+        : [row]
+    )
+    return [{ ...section, content: { ...section.content, cells: rows, rows: rows.length } }]
+  }
+
+  return list.map((item, index) => ({
+    ...section,
+    id: `${section.id}-${index + 1}`,
+    content: replaceItemFields(section.content, itemValues(item, index)),
+  }))
+}
+
+/**
+ * Drop sections whose conditions fail and expand repeatable blocks, giving
+ * the plain sections the contract is rendered from.
+ */
+export function applySectionLogic(sections: TemplateSection[], context: SectionContext): TemplateSection[] {
+  const values = conditionValues(context)
+
+  return [...sections]
+    .sort((a, b) => a.order - b.order)
+    .filter((section) => isSectionVisible(section, values))
+    .flatMap((section) =>
+      section.repeat ? repeatSection(section, items(context.pricingData, section.repeat)) : [section]
+    )
+    .map((section, index) => ({ id: section.id, type: section.type, content: section.content, order: index }))
+}
+
+/** Short description of a section's logic, e.g. "Only if Contract Type equals milestone" */
+export function describeSectionLogic(section: TemplateSection): string[] {
+  const labels: string[] = []
+  const conditions = (section.conditions || []).filter((condition) => condition.field)
+
+  if (conditions.length > 0) {
+    const parts = conditions.map((condition) => {
+      const field = CONDITION_FIELDS.find((f) => f.key === condition.field)?.label || condition.field
+      const value = operatorTakesValue(condition.operator) ? ` ${condition.value || '""'}` : ''
+      return `${field} ${CONDITION_OPERATORS[condition.operator]}${value}`
+    })
+    labels.push(`Only if ${parts.join(section.condition_match === 'any' ? ' or ' : ' and ')}`)
+  }
+
+  if (section.repeat) {
+    labels.push(`Repeats for ${REPEAT_SOURCES[section.repeat].label.toLowerCase()}`)
+  }
+
+  return labels
+}
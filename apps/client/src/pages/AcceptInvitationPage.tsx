@@ -0,0 +1,75 @@
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { Users, ArrowRight } from 'lucide-react'
+import { useAuthStore } from '../stores/auth'
+import { useCompanyStore } from '../stores/company'
+
+/**
+ * Landing page of the link in a team invitation email. The invitation is
+ * accepted for the signed-in user, who must use the invited email address.
+ */
+export default function AcceptInvitationPage() {
+  const { token } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const { user, setDefaultCompany } = useAuthStore()
+  const { acceptInvitation } = useCompanyStore()
+  const [isAccepting, setIsAccepting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleAccept = async () => {
+    if (!token) return
+    setIsAccepting(true)
+    setError(null)
+
+    const result = await acceptInvitation(token)
+    if (!result.success) {
+      setError(result.error || 'Failed to accept invitation')
+      setIsAccepting(false)
+      return
+    }
+
+    // Open the new company, reloading so its membership and permissions are fetched
+    if (result.companyId) {
+      await setDefaultCompany(result.companyId)
+    }
+    window.location.assign('/dashboard')
+  }
+
+  return (
+    <div
+      className="flex bg-base-100 items-center justify-center"
+      style={{ height: '100vh', width: '100vw', position: 'fixed', top: 0, left: 0 }}
+    >
+      <div className="w-full max-w-md p-8 text-center">
+        <div className="mb-6 flex justify-center">
+          <div className="w-20 h-20 rounded-full bg-primary/20 flex items-center justify-center">
+            <Users className="w-10 h-10 text-primary" />
+          </div>
+        </div>
+        <h2 className="text-2xl font-semibold mb-3">Join the team</h2>
+        <p className="text-base-content/60 mb-6">
+          You've been invited to join a company. You're signed in as{' '}
+          <span className="font-medium text-base-content">{user?.email}</span>; the invitation must have been sent to
+          this address.
+        </p>
+
+        {error && (
+          <div className="alert alert-error mb-6 text-left">
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-center gap-2">
+          <button onClick={() => navigate('/dashboard', { replace: true })} className="btn btn-ghost">
+            Not now
+          </button>
+          <button onClick={handleAccept} className="btn btn-primary gap-2" disabled={isAccepting || !token}>
+            {isAccepting && <span className="loading loading-spinner loading-sm"></span>}
+            Accept Invitation
+            <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -24,6 +24,7 @@ import {
   CheckSquare,
 } from 'lucide-react'
 import Layout from '../components/Layout'
+import { Can } from '../components/AuthGuard'
 import { useModalStore, MODAL_NAMES } from '../stores/modal'
 import { useAuthStore } from '../stores/auth'
 import { api } from '../lib/api'
@@ -733,15 +734,17 @@ export default function CRMPage() {
                                       </button>
                                     </li>
                                   )}
-                                  <li>
-                                    <button
-                                      onClick={(e) => handleDeleteContact(contact, e)}
-                                      className="flex items-center gap-2 text-error"
-                                    >
-                                      <Trash2 className="w-4 h-4" />
-                                      Delete
-                                    </button>
-                                  </li>
+                                  <Can action="delete" resource="contacts">
+                                    <li>
+                                      <button
+                                        onClick={(e) => handleDeleteContact(contact, e)}
+                                        className="flex items-center gap-2 text-error"
+                                      >
+                                        <Trash2 className="w-4 h-4" />
+                                        Delete
+                                      </button>
+                                    </li>
+                                  </Can>
                                 </ul>
                               </div>
                             </div>
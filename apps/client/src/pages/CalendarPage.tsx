@@ -0,0 +1,504 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  ChevronLeft,
+  ChevronRight,
+  CheckSquare,
+  Target,
+  FileSignature,
+  Receipt,
+  RefreshCw,
+  XCircle,
+} from 'lucide-react'
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core'
+import Layout from '../components/Layout'
+import { useAuthStore } from '../stores/auth'
+import { useWorkExecutionStore } from '../stores/workExecution'
+import { useContractStore } from '../stores/contracts'
+import { useInvoiceStore } from '../stores/invoices'
+import { useRefreshStore } from '../stores/refresh'
+import { api } from '../lib/api'
+import type { Deal } from '../types/deals'
+
+type CalendarView = 'month' | 'week' | 'day'
+
+type CalendarItemKind = 'task' | 'deal' | 'contract' | 'invoice'
+
+interface CalendarItem {
+  key: string
+  id: string
+  kind: CalendarItemKind
+  title: string
+  date: string
+  href: string
+  locked: boolean
+}
+
+const ITEM_KINDS: Record<CalendarItemKind, { label: string; icon: typeof CheckSquare; className: string }> = {
+  task: { label: 'Tasks', icon: CheckSquare, className: 'bg-info/15 text-info border-info/30' },
+  deal: { label: 'Deals', icon: Target, className: 'bg-success/15 text-success border-success/30' },
+  contract: { label: 'Contract expiry', icon: FileSignature, className: 'bg-secondary/15 text-secondary border-secondary/30' },
+  invoice: { label: 'Invoice due', icon: Receipt, className: 'bg-warning/15 text-warning border-warning/30' },
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Date helpers (all keys are local YYYY-MM-DD strings)
+const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+const parseDateKey = (value: string) => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  return toDateKey(new Date(value))
+}
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+const startOfWeek = (date: Date) => addDays(date, -date.getDay())
+
+// Get the days shown for the current view
+const getVisibleDays = (view: CalendarView, cursor: Date): Date[] => {
+  if (view === 'day') return [cursor]
+  if (view === 'week') {
+    const start = startOfWeek(cursor)
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i))
+  }
+  const start = startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1))
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i))
+}
+
+const getTitle = (view: CalendarView, cursor: Date) => {
+  if (view === 'day') {
+    return cursor.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+  }
+  if (view === 'week') {
+    const start = startOfWeek(cursor)
+    const end = addDays(start, 6)
+    return `${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+  }
+  return cursor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+}
+
+// Draggable calendar item
+function CalendarItemChip({ item, isOverlay = false }: { item: CalendarItem; isOverlay?: boolean }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: item.key,
+    data: { item },
+    disabled: item.locked || isOverlay,
+  })
+  const kind = ITEM_KINDS[item.kind]
+  const Icon = kind.icon
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={`touch-none ${isDragging ? 'opacity-40' : ''}`}
+    >
+      <Link
+        to={item.href}
+        onClick={(e) => isDragging && e.preventDefault()}
+        className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-xs truncate ${kind.className} ${
+          item.locked ? 'opacity-60' : 'cursor-grab'
+        } ${isOverlay ? 'shadow-xl ring-2 ring-primary w-48' : ''}`}
+        title={item.title}
+      >
+        <Icon className="w-3 h-3 flex-shrink-0" />
+        <span className="truncate">{item.title}</span>
+      </Link>
+    </div>
+  )
+}
+
+// Droppable day cell
+function DayCell({
+  date,
+  items,
+  isCurrentMonth,
+  isToday,
+  view,
+}: {
+  date: Date
+  items: CalendarItem[]
+  isCurrentMonth: boolean
+  isToday: boolean
+  view: CalendarView
+}) {
+  const dateKey = toDateKey(date)
+  const { setNodeRef, isOver } = useDroppable({
+    id: `day-${dateKey}`,
+    data: { date: dateKey },
+  })
+  const maxVisible = view === 'month' ? 3 : items.length
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`bg-base-200 p-2 flex flex-col gap-1 transition-colors ${
+        view === 'month' ? 'min-h-[110px]' : 'min-h-[400px]'
+      } ${isOver ? 'ring-2 ring-primary bg-primary/5' : ''} ${isCurrentMonth ? '' : 'opacity-50'}`}
+    >
+      <div className="flex items-center justify-between">
+        {view !== 'month' && (
+          <span className="text-xs text-base-content/60">
+            {date.toLocaleDateString('en-US', { weekday: 'short' })}
+          </span>
+        )}
+        <span
+          className={`text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full ml-auto ${
+            isToday ? 'bg-primary text-primary-content' : 'text-base-content/70'
+          }`}
+        >
+          {date.getDate()}
+        </span>
+      </div>
+      {items.slice(0, maxVisible).map((item) => (
+        <CalendarItemChip key={item.key} item={item} />
+      ))}
+      {items.length > maxVisible && (
+        <span className="text-xs text-base-content/50 px-1">+{items.length - maxVisible} more</span>
+      )}
+    </div>
+  )
+}
+
+export default function CalendarPage() {
+  const { company } = useAuthStore()
+  const { tasks, fetchTasks, updateTaskDueDate } = useWorkExecutionStore()
+  const { contracts, fetchContracts, updateContract } = useContractStore()
+  const { invoices, fetchInvoices, updateInvoice } = useInvoiceStore()
+  const tasksVersion = useRefreshStore((state) => state.tasksVersion)
+  const dealsVersion = useRefreshStore((state) => state.dealsVersion)
+
+  const [view, setView] = useState<CalendarView>('month')
+  const [cursor, setCursor] = useState(() => new Date())
+  const [deals, setDeals] = useState<Deal[]>([])
+  const [isLoadingDeals, setIsLoadingDeals] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [visibleKinds, setVisibleKinds] = useState<CalendarItemKind[]>(['task', 'deal', 'contract', 'invoice'])
+  const [pendingDates, setPendingDates] = useState<Record<string, string>>({})
+  const [activeItem, setActiveItem] = useState<CalendarItem | null>(null)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } })
+  )
+
+  // Fetch deals (closed deals included so won/lost dates stay visible)
+  const fetchDeals = useCallback(async () => {
+    if (!company?.id) return
+
+    setIsLoadingDeals(true)
+    try {
+      const response = await api.get('/api/v1/deals', {
+        params: { open_only: false, limit: 500 },
+      })
+      setDeals(response.data.data || [])
+    } catch (err: unknown) {
+      console.error('Failed to fetch deals:', err)
+      setError('Failed to load deals')
+    } finally {
+      setIsLoadingDeals(false)
+    }
+  }, [company?.id])
+
+  // Refetch tasks when the AI assistant or another page bumps tasksVersion
+  useEffect(() => {
+    if (company?.id) {
+      fetchTasks(company.id)
+    }
+  }, [company?.id, tasksVersion, fetchTasks])
+
+  // Refetch deals when dealsVersion changes
+  useEffect(() => {
+    fetchDeals()
+  }, [fetchDeals, dealsVersion])
+
+  useEffect(() => {
+    if (company?.id) {
+      fetchContracts()
+      fetchInvoices()
+    }
+  }, [company?.id, fetchContracts, fetchInvoices])
+
+  // Normalize every dated record into a calendar item
+  const items = useMemo(() => {
+    const result: CalendarItem[] = []
+
+    tasks.forEach((task) => {
+      if (!task.due_date) return
+      result.push({
+        key: `task-${task.id}`,
+        id: task.id,
+        kind: 'task',
+        title: task.title,
+        date: parseDateKey(task.due_date),
+        href: `/projects/${task.project.id}`,
+        locked: false,
+      })
+    })
+
+    deals.forEach((deal) => {
+      if (!deal.expected_close_date) return
+      result.push({
+        key: `deal-${deal.id}`,
+        id: deal.id,
+        kind: 'deal',
+        title: deal.title,
+        date: parseDateKey(deal.expected_close_date),
+        href: '/deals',
+        locked: deal.is_closed,
+      })
+    })
+
+    contracts.forEach((contract) => {
+      if (!contract.expires_at) return
+      result.push({
+        key: `contract-${contract.id}`,
+        id: contract.id,
+        kind: 'contract',
+        title: contract.title,
+        date: parseDateKey(contract.expires_at),
+        href: `/documents/contracts/${contract.id}`,
+        locked: ['signed', 'declined'].includes(contract.status),
+      })
+    })
+
+    invoices.forEach((invoice) => {
+      if (!invoice.due_date) return
+      result.push({
+        key: `invoice-${invoice.id}`,
+        id: invoice.id,
+        kind: 'invoice',
+        title: invoice.title || invoice.invoice_number,
+        date: parseDateKey(invoice.due_date),
+        href: `/documents/invoices/${invoice.id}`,
+        locked: ['paid', 'cancelled', 'void'].includes(invoice.status),
+      })
+    })
+
+    return result
+      .filter((item) => visibleKinds.includes(item.kind))
+      .map((item) => (pendingDates[item.key] ? { ...item, date: pendingDates[item.key] } : item))
+  }, [tasks, deals, contracts, invoices, visibleKinds, pendingDates])
+
+  // Group items by day
+  const itemsByDate = useMemo(() => {
+    return items.reduce((acc, item) => {
+      if (!acc[item.date]) acc[item.date] = []
+      acc[item.date].push(item)
+      return acc
+    }, {} as Record<string, CalendarItem[]>)
+  }, [items])
+
+  const visibleDays = getVisibleDays(view, cursor)
+  const todayKey = toDateKey(new Date())
+
+  // Navigate backward / forward by the current view's span
+  const shiftCursor = (direction: 1 | -1) => {
+    if (view === 'month') {
+      setCursor(new Date(cursor.getFullYear(), cursor.getMonth() + direction, 1))
+    } else {
+      setCursor(addDays(cursor, direction * (view === 'week' ? 7 : 1)))
+    }
+  }
+
+  const toggleKind = (kind: CalendarItemKind) => {
+    setVisibleKinds((prev) =>
+      prev.includes(kind) ? prev.filter((k) => k !== kind) : [...prev, kind]
+    )
+  }
+
+  // Reschedule an item through its own endpoint
+  const rescheduleItem = async (item: CalendarItem, newDate: string) => {
+    if (item.date === newDate || !company?.id) return
+
+    setError(null)
+
+    if (item.kind === 'task') {
+      const success = await updateTaskDueDate(item.id, newDate, company.id)
+      if (!success) setError(`Failed to reschedule "${item.title}"`)
+      return
+    }
+
+    // Optimistic date until the request settles
+    setPendingDates((prev) => ({ ...prev, [item.key]: newDate }))
+
+    try {
+      if (item.kind === 'deal') {
+        await api.patch(`/api/v1/deals/${item.id}`, { expected_close_date: newDate })
+        setDeals((prev) =>
+          prev.map((d) => (d.id === item.id ? { ...d, expected_close_date: newDate } : d))
+        )
+      } else if (item.kind === 'contract') {
+        await updateContract(item.id, { expires_at: newDate })
+      } else {
+        await updateInvoice(item.id, { due_date: newDate })
+      }
+    } catch (err: unknown) {
+      console.error('Failed to reschedule item:', err)
+      setError(`Failed to reschedule "${item.title}"`)
+    } finally {
+      setPendingDates((prev) => {
+        const next = { ...prev }
+        delete next[item.key]
+        return next
+      })
+    }
+  }
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveItem((event.active.data.current?.item as CalendarItem) || null)
+  }
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event
+    setActiveItem(null)
+
+    if (!over) return
+
+    const item = active.data.current?.item as CalendarItem | undefined
+    const newDate = over.data.current?.date as string | undefined
+    if (item && newDate) {
+      await rescheduleItem(item, newDate)
+    }
+  }
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-base-content">Calendar</h1>
+            <p className="text-base-content/60 mt-1">Task deadlines, deal close dates, contract expiries and invoice due dates</p>
+          </div>
+          <div className="join">
+            {(['month', 'week', 'day'] as CalendarView[]).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`btn btn-sm join-item capitalize ${view === v ? 'btn-primary' : 'btn-ghost'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center justify-between">
+          <div className="flex items-center gap-2">
+            <button onClick={() => shiftCursor(-1)} className="btn btn-ghost btn-sm btn-square">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button onClick={() => setCursor(new Date())} className="btn btn-ghost btn-sm">
+              Today
+            </button>
+            <button onClick={() => shiftCursor(1)} className="btn btn-ghost btn-sm btn-square">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+            <h2 className="text-lg font-medium ml-2">{getTitle(view, cursor)}</h2>
+            {isLoadingDeals && <span className="loading loading-spinner loading-sm text-primary ml-2"></span>}
+          </div>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            {(Object.keys(ITEM_KINDS) as CalendarItemKind[]).map((kind) => {
+              const { label, icon: Icon, className } = ITEM_KINDS[kind]
+              const isVisible = visibleKinds.includes(kind)
+              return (
+                <button
+                  key={kind}
+                  onClick={() => toggleKind(kind)}
+                  className={`btn btn-xs gap-1 border ${isVisible ? className : 'btn-ghost opacity-50'}`}
+                >
+                  <Icon className="w-3 h-3" />
+                  {label}
+                </button>
+              )
+            })}
+            <button
+              onClick={() => {
+                if (company?.id) fetchTasks(company.id)
+                fetchDeals()
+                fetchContracts()
+                fetchInvoices()
+              }}
+              className="btn btn-ghost btn-sm gap-2"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {/* Error state */}
+        {error && (
+          <div className="alert alert-error">
+            <XCircle className="w-5 h-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Calendar grid */}
+        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+          {view === 'month' && (
+            <div className="grid grid-cols-7 gap-px">
+              {WEEKDAYS.map((day) => (
+                <div key={day} className="text-xs font-medium text-base-content/60 uppercase tracking-wide px-2 pb-2">
+                  {day}
+                </div>
+              ))}
+            </div>
+          )}
+          <div
+            className={`grid gap-px bg-base-300 rounded-lg overflow-hidden ${
+              view === 'day' ? 'grid-cols-1' : 'grid-cols-7'
+            }`}
+          >
+            {visibleDays.map((date) => {
+              const dateKey = toDateKey(date)
+              return (
+                <DayCell
+                  key={dateKey}
+                  date={date}
+                  items={itemsByDate[dateKey] || []}
+                  isCurrentMonth={view !== 'month' || date.getMonth() === cursor.getMonth()}
+                  isToday={dateKey === todayKey}
+                  view={view}
+                />
+              )
+            })}
+          </div>
+
+          <DragOverlay>
+            {activeItem ? <CalendarItemChip item={activeItem} isOverlay /> : null}
+          </DragOverlay>
+        </DndContext>
+
+        {view === 'day' && (itemsByDate[toDateKey(cursor)] || []).length === 0 && (
+          <p className="text-center text-base-content/40 text-sm">
+            Nothing scheduled on {cursor.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}
+          </p>
+        )}
+      </div>
+    </Layout>
+  )
+}
@@ -0,0 +1,620 @@
+import { useState, useEffect, useRef } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  Building2,
+  Users,
+  Mail,
+  CreditCard,
+  SlidersHorizontal,
+  Save,
+  Upload,
+  Trash2,
+  Send,
+  RotateCw,
+  X,
+  AlertCircle,
+  CheckCircle,
+  Loader2,
+  FileText,
+  Zap,
+  ChevronRight,
+  Link as LinkIcon,
+} from 'lucide-react'
+import Layout from '../components/Layout'
+import { useAuthStore } from '../stores/auth'
+import { useCompanyStore, type CompanyRole } from '../stores/company'
+import { useFileUpload } from '../hooks/useFileUpload'
+import { usePermissions } from '../hooks/usePermissions'
+
+type TabId = 'general' | 'team' | 'invitations' | 'billing' | 'more'
+
+const tabs: { id: TabId; label: string; icon: React.ElementType }[] = [
+  { id: 'general', label: 'General', icon: Building2 },
+  { id: 'team', label: 'Team', icon: Users },
+  { id: 'invitations', label: 'Invitations', icon: Mail },
+  { id: 'billing', label: 'Billing', icon: CreditCard },
+  { id: 'more', label: 'More', icon: SlidersHorizontal },
+]
+
+const roleLabels: Record<CompanyRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  staff: 'Staff',
+  agent: 'Agent',
+}
+
+const billingStatusStyles: Record<string, string> = {
+  trial: 'badge-info',
+  active: 'badge-success',
+  suspended: 'badge-warning',
+  cancelled: 'badge-error',
+}
+
+type Feedback = { type: 'success' | 'error'; message: string } | null
+
+function FeedbackAlert({ feedback }: { feedback: Feedback }) {
+  if (!feedback) return null
+  return (
+    <div className={`alert ${feedback.type === 'success' ? 'alert-success' : 'alert-error'}`}>
+      {feedback.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+      <span>{feedback.message}</span>
+    </div>
+  )
+}
+
+export default function CompanySettingsPage() {
+  const { user, company } = useAuthStore()
+  const {
+    details,
+    members,
+    invitations,
+    fetchDetails,
+    updateCompany,
+    fetchMembers,
+    updateMember,
+    removeMember,
+    fetchInvitations,
+    inviteMember,
+    cancelInvitation,
+    resendInvitation,
+  } = useCompanyStore()
+
+  const [activeTab, setActiveTab] = useState<TabId>('general')
+  const [feedback, setFeedback] = useState<Feedback>(null)
+
+  // General form state
+  const [generalForm, setGeneralForm] = useState({ name: '', slug: '', logoUrl: '' })
+  const [generalSaving, setGeneralSaving] = useState(false)
+  const logoInputRef = useRef<HTMLInputElement>(null)
+  const { uploadFile, uploading: logoUploading } = useFileUpload({
+    entityType: 'company_logo',
+    entityId: company?.id,
+  })
+
+  // Invitation form state
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<Exclude<CompanyRole, 'owner'>>('staff')
+  const [inviting, setInviting] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const { role, can } = usePermissions()
+  const canEditCompany = can('update', 'company')
+  const canManageTeam = can('manage', 'team')
+  const isOwner = role === 'owner'
+
+  // Load everything for the active company
+  useEffect(() => {
+    if (!company?.id) return
+    fetchDetails(company.id)
+    fetchMembers(company.id)
+    fetchInvitations(company.id)
+  }, [company?.id, fetchDetails, fetchMembers, fetchInvitations])
+
+  // Sync form with company data
+  useEffect(() => {
+    if (company) {
+      setGeneralForm({
+        name: company.name || '',
+        slug: company.slug || '',
+        logoUrl: company.logo_url || '',
+      })
+    }
+  }, [company])
+
+  // Clear messages when switching tabs
+  useEffect(() => {
+    setFeedback(null)
+  }, [activeTab])
+
+  const report = (result: { success: boolean; error?: string }, successMessage: string) => {
+    setFeedback(result.success
+      ? { type: 'success', message: successMessage }
+      : { type: 'error', message: result.error || 'Something went wrong' })
+  }
+
+  const handleGeneralSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!company) return
+    setGeneralSaving(true)
+    setFeedback(null)
+
+    const result = await updateCompany(company.id, {
+      name: generalForm.name.trim(),
+      slug: generalForm.slug.trim(),
+      logo_url: generalForm.logoUrl || null,
+    })
+    report(result, 'Company details saved')
+    setGeneralSaving(false)
+  }
+
+  const handleLogoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (!file.type.startsWith('image/')) {
+      setFeedback({ type: 'error', message: 'Logo must be an image file' })
+      return
+    }
+
+    try {
+      const uploaded = await uploadFile(file)
+      setGeneralForm((prev) => ({ ...prev, logoUrl: uploaded.public_url }))
+    } catch (error) {
+      setFeedback({ type: 'error', message: error instanceof Error ? error.message : 'Logo upload failed' })
+    }
+  }
+
+  const handleRoleChange = async (userId: string, newRole: CompanyRole) => {
+    if (!company) return
+    setBusyId(userId)
+    report(await updateMember(company.id, userId, { role_in_company: newRole }), 'Role updated')
+    setBusyId(null)
+  }
+
+  const handleActiveToggle = async (userId: string, isActive: boolean) => {
+    if (!company) return
+    setBusyId(userId)
+    report(await updateMember(company.id, userId, { is_active: isActive }), isActive ? 'Member activated' : 'Member deactivated')
+    setBusyId(null)
+  }
+
+  const handleRemoveMember = async (userId: string, name: string) => {
+    if (!company || !confirm(`Remove ${name} from ${company.name}?`)) return
+    setBusyId(userId)
+    report(await removeMember(company.id, userId), `${name} was removed`)
+    setBusyId(null)
+  }
+
+  const handleInviteSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!company || !inviteEmail.trim()) return
+    setInviting(true)
+    const result = await inviteMember(company.id, inviteEmail.trim(), inviteRole)
+    report(result, `Invitation sent to ${inviteEmail.trim()}`)
+    if (result.success) setInviteEmail('')
+    setInviting(false)
+  }
+
+  const handleCancelInvitation = async (invitationId: string) => {
+    if (!company) return
+    setBusyId(invitationId)
+    report(await cancelInvitation(company.id, invitationId), 'Invitation cancelled')
+    setBusyId(null)
+  }
+
+  const handleResendInvitation = async (invitationId: string) => {
+    if (!company) return
+    setBusyId(invitationId)
+    report(await resendInvitation(company.id, invitationId), 'Invitation resent')
+    setBusyId(null)
+  }
+
+  const renderGeneralTab = () => (
+    <form onSubmit={handleGeneralSubmit} className="space-y-6">
+      <FeedbackAlert feedback={feedback} />
+
+      {/* Logo */}
+      <div className="flex items-center gap-5">
+        <div className="w-20 h-20 rounded-2xl bg-base-100 flex items-center justify-center overflow-hidden border border-base-300">
+          {generalForm.logoUrl ? (
+            <img src={generalForm.logoUrl} alt="Company logo" className="w-full h-full object-contain" />
+          ) : (
+            <Building2 className="w-8 h-8 text-base-content/30" />
+          )}
+        </div>
+        {canEditCompany && (
+          <div className="flex gap-2">
+            <input
+              ref={logoInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleLogoSelected}
+            />
+            <button
+              type="button"
+              className="btn btn-sm btn-outline gap-2"
+              onClick={() => logoInputRef.current?.click()}
+              disabled={logoUploading}
+            >
+              {logoUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {logoUploading ? 'Uploading...' : 'Upload Logo'}
+            </button>
+            {generalForm.logoUrl && (
+              <button
+                type="button"
+                className="btn btn-sm btn-ghost gap-2"
+                onClick={() => setGeneralForm({ ...generalForm, logoUrl: '' })}
+              >
+                <Trash2 className="w-4 h-4" />
+                Remove
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Name */}
+        <div className="form-control">
+          <label className="label">
+            <span className="label-text font-medium">Company Name</span>
+          </label>
+          <div className="relative">
+            <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-base-content/40" />
+            <input
+              type="text"
+              value={generalForm.name}
+              onChange={(e) => setGeneralForm({ ...generalForm, name: e.target.value })}
+              className="input input-bordered w-full pl-11 bg-base-100 focus:border-primary focus:outline-none"
+              placeholder="Enter company name"
+              minLength={2}
+              required
+              disabled={!canEditCompany}
+            />
+          </div>
+        </div>
+
+        {/* Slug */}
+        <div className="form-control">
+          <label className="label">
+            <span className="label-text font-medium">Slug</span>
+          </label>
+          <div className="relative">
+            <LinkIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-base-content/40" />
+            <input
+              type="text"
+              value={generalForm.slug}
+              onChange={(e) => setGeneralForm({ ...generalForm, slug: e.target.value.toLowerCase().replace(/[^a-z0-9_-]/g, '-') })}
+              className="input input-bordered w-full pl-11 bg-base-100 focus:border-primary focus:outline-none"
+              placeholder="my-company"
+              minLength={2}
+              required
+              disabled={!canEditCompany}
+            />
+          </div>
+          <label className="label">
+            <span className="label-text-alt text-base-content/60">
+              Letters, numbers, dashes and underscores only
+            </span>
+          </label>
+        </div>
+      </div>
+
+      {canEditCompany && (
+        <div className="flex justify-end pt-4">
+          <button
+            type="submit"
+            className="btn btn-primary gap-2"
+            disabled={generalSaving || logoUploading}
+          >
+            {generalSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {generalSaving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      )}
+    </form>
+  )
+
+  const renderTeamTab = () => (
+    <div className="space-y-6">
+      <FeedbackAlert feedback={feedback} />
+
+      {members.length === 0 ? (
+        <p className="text-base-content/60 text-center py-8">No team members found</p>
+      ) : (
+        <div className="divide-y divide-base-300">
+          {members.map((member) => {
+            const isSelf = member.id === user?.id
+            const isMemberOwner = member.pivot.role_in_company === 'owner'
+            // Only owners may touch other owners; nobody edits themselves here
+            const editable = canManageTeam && !isSelf && (isOwner || !isMemberOwner)
+            const busy = busyId === member.id
+
+            return (
+              <div key={member.id} className="flex items-center gap-4 py-4">
+                <div className="avatar placeholder">
+                  <div className="w-10 h-10 rounded-full bg-primary/10 text-primary">
+                    {member.avatar_url ? (
+                      <img src={member.avatar_url} alt={member.full_name} />
+                    ) : (
+                      <span className="text-sm font-medium">{member.first_name.charAt(0).toUpperCase()}</span>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">
+                    {member.full_name}
+                    {isSelf && <span className="text-base-content/50 font-normal"> (you)</span>}
+                  </p>
+                  <p className="text-sm text-base-content/60 truncate">{member.email}</p>
+                </div>
+
+                {!member.pivot.is_active && (
+                  <span className="badge badge-ghost badge-sm">Inactive</span>
+                )}
+
+                {editable ? (
+                  <>
+                    <select
+                      className="select select-bordered select-sm bg-base-100"
+                      value={member.pivot.role_in_company}
+                      onChange={(e) => handleRoleChange(member.id, e.target.value as CompanyRole)}
+                      disabled={busy}
+                    >
+                      {(Object.keys(roleLabels) as CompanyRole[])
+                        .filter((role) => role !== 'owner' || isOwner)
+                        .map((role) => (
+                          <option key={role} value={role}>{roleLabels[role]}</option>
+                        ))}
+                    </select>
+                    <input
+                      type="checkbox"
+                      className="toggle toggle-sm toggle-success"
+                      checked={member.pivot.is_active}
+                      onChange={(e) => handleActiveToggle(member.id, e.target.checked)}
+                      disabled={busy}
+                      title={member.pivot.is_active ? 'Deactivate' : 'Activate'}
+                    />
+                    {!isMemberOwner && (
+                      <button
+                        className="btn btn-ghost btn-sm btn-square text-error"
+                        onClick={() => handleRemoveMember(member.id, member.full_name)}
+                        disabled={busy}
+                        title="Remove from company"
+                      >
+                        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                      </button>
+                    )}
+                  </>
+                ) : (
+                  <span className="badge badge-outline">{roleLabels[member.pivot.role_in_company]}</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+
+  const renderInvitationsTab = () => (
+    <div className="space-y-6">
+      <FeedbackAlert feedback={feedback} />
+
+      {canManageTeam ? (
+        <>
+          <form onSubmit={handleInviteSubmit} className="flex flex-col sm:flex-row gap-3">
+            <div className="relative flex-1">
+              <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-base-content/40" />
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="input input-bordered w-full pl-11 bg-base-100 focus:border-primary focus:outline-none"
+                placeholder="colleague@example.com"
+                required
+              />
+            </div>
+            <select
+              className="select select-bordered bg-base-100"
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as Exclude<CompanyRole, 'owner'>)}
+            >
+              <option value="manager">Manager</option>
+              <option value="staff">Staff</option>
+              <option value="agent">Agent</option>
+            </select>
+            <button type="submit" className="btn btn-primary gap-2" disabled={inviting}>
+              {inviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Invite
+            </button>
+          </form>
+
+          <div>
+            <h3 className="font-semibold mb-3">Pending Invitations</h3>
+            {invitations.length === 0 ? (
+              <p className="text-base-content/60 text-sm">No pending invitations</p>
+            ) : (
+              <div className="divide-y divide-base-300">
+                {invitations.map((invitation) => {
+                  const busy = busyId === invitation.id
+                  return (
+                    <div key={invitation.id} className="flex items-center gap-4 py-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{invitation.email}</p>
+                        <p className="text-xs text-base-content/60">
+                          {roleLabels[invitation.role_in_company]} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                          {invitation.inviter && ` · invited by ${invitation.inviter.first_name}`}
+                        </p>
+                      </div>
+                      <button
+                        className="btn btn-ghost btn-sm gap-1"
+                        onClick={() => handleResendInvitation(invitation.id)}
+                        disabled={busy}
+                      >
+                        <RotateCw className="w-4 h-4" />
+                        Resend
+                      </button>
+                      <button
+                        className="btn btn-ghost btn-sm btn-square text-error"
+                        onClick={() => handleCancelInvitation(invitation.id)}
+                        disabled={busy}
+                        title="Cancel invitation"
+                      >
+                        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        </>
+      ) : (
+        <p className="text-base-content/60 text-center py-8">
+          Only owners and managers can invite new team members.
+        </p>
+      )}
+    </div>
+  )
+
+  const renderBillingTab = () => {
+    const status = details?.billing_status || company?.billing_status
+
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-base-100 rounded-xl p-5">
+            <p className="text-sm text-base-content/60 mb-2">Status</p>
+            {status ? (
+              <span className={`badge ${billingStatusStyles[status] || 'badge-ghost'} capitalize`}>{status}</span>
+            ) : (
+              <span className="loading loading-dots loading-sm" />
+            )}
+          </div>
+          <div className="bg-base-100 rounded-xl p-5">
+            <p className="text-sm text-base-content/60 mb-2">Billing Cycle</p>
+            <p className="font-medium capitalize">{details?.billing_cycle || '—'}</p>
+          </div>
+        </div>
+
+        {status === 'suspended' && (
+          <div className="alert alert-warning">
+            <AlertCircle className="w-5 h-5" />
+            <span>Your subscription is suspended. Update your payment details to restore full access.</span>
+          </div>
+        )}
+        {status === 'trial' && (
+          <div className="alert alert-info">
+            <AlertCircle className="w-5 h-5" />
+            <span>You are currently on a trial plan.</span>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const renderMoreTab = () => {
+    const links = [
+      {
+        to: '/documents/settings',
+        icon: FileText,
+        title: 'Document Settings',
+        description: 'Stripe keys, contract and invoice numbering, reminders',
+        allowed: can('update', 'document_settings'),
+      },
+      {
+        to: '/skills',
+        icon: Zap,
+        title: 'Skill Settings',
+        description: 'Enable skills and configure their credentials',
+        allowed: can('view', 'skills'),
+      },
+    ].filter((link) => link.allowed)
+
+    if (links.length === 0) {
+      return (
+        <p className="text-base-content/60 text-center py-8">
+          Your role does not have access to additional settings.
+        </p>
+      )
+    }
+
+    return (
+      <div className="space-y-3">
+        {links.map((link) => {
+          const Icon = link.icon
+          return (
+            <Link
+              key={link.to}
+              to={link.to}
+              className="flex items-center gap-4 p-4 bg-base-100 rounded-xl hover:bg-base-300/50 transition-colors"
+            >
+              <div className="p-2 rounded-lg bg-primary/10">
+                <Icon className="w-5 h-5 text-primary" />
+              </div>
+              <div className="flex-1">
+                <p className="font-medium">{link.title}</p>
+                <p className="text-sm text-base-content/60">{link.description}</p>
+              </div>
+              <ChevronRight className="w-5 h-5 text-base-content/40" />
+            </Link>
+          )
+        })}
+      </div>
+    )
+  }
+
+  const renderTabContent = () => {
+    switch (activeTab) {
+      case 'general':
+        return renderGeneralTab()
+      case 'team':
+        return renderTeamTab()
+      case 'invitations':
+        return renderInvitationsTab()
+      case 'billing':
+        return renderBillingTab()
+      case 'more':
+        return renderMoreTab()
+      default:
+        return null
+    }
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto py-2">
+        {/* Tabs */}
+        <div className="flex gap-1 p-1 bg-base-200 rounded-2xl mb-8 overflow-x-auto">
+          {tabs.map((tab) => {
+            const Icon = tab.icon
+            const isActive = activeTab === tab.id
+            return (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`flex-1 min-w-[100px] flex items-center justify-center gap-2 px-4 py-3 rounded-xl font-medium transition-all ${
+                  isActive
+                    ? 'bg-base-100 text-base-content shadow-sm'
+                    : 'text-base-content/60 hover:text-base-content'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                <span className="hidden sm:inline">{tab.label}</span>
+              </button>
+            )
+          })}
+        </div>
+
+        {/* Tab Content */}
+        <div className="bg-base-200 rounded-2xl p-6 lg:p-8">
+          {renderTabContent()}
+        </div>
+      </div>
+    </Layout>
+  )
+}
@@ -29,6 +29,7 @@ import {
   CheckSquare,
 } from 'lucide-react'
 import Layout from '../components/Layout'
+import { Can } from '../components/AuthGuard'
 import { api } from '../lib/api'
 import { useModalStore, MODAL_NAMES } from '../stores/modal'
 
@@ -730,19 +731,21 @@ export default function ContactDetailPage() {
               <Pencil className="w-4 h-4" />
               Edit
             </button>
-            <div className="dropdown dropdown-end">
-              <label tabIndex={0} className="btn btn-ghost btn-sm btn-square">
-                <MoreHorizontal className="w-4 h-4" />
-              </label>
-              <ul tabIndex={0} className="dropdown-content z-[1] menu p-2 shadow-lg bg-base-300 rounded-box w-40">
-                <li>
-                  <button onClick={handleDelete} className="text-error">
-                    <Trash2 className="w-4 h-4" />
-                    Delete Contact
-                  </button>
-                </li>
-              </ul>
-            </div>
+            <Can action="delete" resource="contacts">
+              <div className="dropdown dropdown-end">
+                <label tabIndex={0} className="btn btn-ghost btn-sm btn-square">
+                  <MoreHorizontal className="w-4 h-4" />
+                </label>
+                <ul tabIndex={0} className="dropdown-content z-[1] menu p-2 shadow-lg bg-base-300 rounded-box w-40">
+                  <li>
+                    <button onClick={handleDelete} className="text-error">
+                      <Trash2 className="w-4 h-4" />
+                      Delete Contact
+                    </button>
+                  </li>
+                </ul>
+              </div>
+            </Can>
           </div>
         </div>
 
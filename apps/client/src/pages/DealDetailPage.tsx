@@ -0,0 +1,731 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import {
+  ArrowLeft,
+  DollarSign,
+  Calendar,
+  User,
+  Percent,
+  Pencil,
+  Check,
+  X,
+  XCircle,
+  Trophy,
+  Clock,
+  History,
+  Activity,
+  MessageSquare,
+  FileText,
+  Receipt,
+  Plus,
+  Target,
+} from 'lucide-react'
+import Layout from '../components/Layout'
+import { Can } from '../components/AuthGuard'
+import { ContractStatusBadge, InvoiceStatusBadge } from '../components/documents'
+import { getStageStyle } from '../components/deals'
+import { usePermissions } from '../hooks/usePermissions'
+import { useAuthStore } from '../stores/auth'
+import { usePipelineStore } from '../stores/pipelines'
+import { useContractStore } from '../stores/contracts'
+import { useInvoiceStore } from '../stores/invoices'
+import { useModalStore, MODAL_NAMES } from '../stores/modal'
+import { api } from '../lib/api'
+import type { DealDetail } from '../types/deals'
+
+interface ContactNote {
+  id: string
+  content: string
+  is_pinned: boolean
+  created_by: {
+    id: string
+    name: string
+    avatar: string | null
+  } | null
+  created_at: string
+}
+
+interface ContactOption {
+  id: string
+  full_name: string
+}
+
+type EditableField = 'title' | 'value' | 'probability' | 'expected_close_date' | 'description' | 'contact_id'
+
+export default function DealDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { company } = useAuthStore()
+  const { can } = usePermissions()
+  const { openModal } = useModalStore()
+  const { pipelines, fetchPipelines, getPipeline } = usePipelineStore()
+  const { contracts, fetchContracts, isLoading: isLoadingContracts } = useContractStore()
+  const { invoices, fetchInvoices, isLoading: isLoadingInvoices } = useInvoiceStore()
+
+  const [deal, setDeal] = useState<DealDetail | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Inline editing
+  const [editingField, setEditingField] = useState<EditableField | null>(null)
+  const [draftValue, setDraftValue] = useState('')
+  const [contacts, setContacts] = useState<ContactOption[]>([])
+
+  // Contact activity
+  const [notes, setNotes] = useState<ContactNote[]>([])
+  const [isLoadingNotes, setIsLoadingNotes] = useState(false)
+
+  const canEdit = can('update', 'deals')
+  const pipeline = deal ? getPipeline(deal.pipeline_id) : null
+  const stages = pipeline?.stages ?? []
+  const currentStage = stages.find((s) => s.key === deal?.stage) ?? null
+  const dealId = deal?.id
+  const contactId = deal?.contact?.id ?? null
+
+  // Fetch deal
+  const fetchDeal = useCallback(async () => {
+    if (!id || !company?.id) return
+
+    try {
+      const response = await api.get(`/api/v1/deals/${id}`)
+      setDeal(response.data)
+      setError(null)
+    } catch (err: unknown) {
+      console.error('Failed to fetch deal:', err)
+      setError('Deal not found')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [id, company?.id])
+
+  // Fetch notes of the linked contact as its activity
+  const fetchNotes = useCallback(async () => {
+    if (!contactId) {
+      setNotes([])
+      return
+    }
+
+    setIsLoadingNotes(true)
+
+    try {
+      const response = await api.get(`/api/v1/contacts/${contactId}/notes`)
+      if (response.data.success) {
+        setNotes(response.data.data || [])
+      }
+    } catch (err: unknown) {
+      console.error('Failed to fetch contact activity:', err)
+    } finally {
+      setIsLoadingNotes(false)
+    }
+  }, [contactId])
+
+  useEffect(() => {
+    fetchDeal()
+  }, [fetchDeal])
+
+  useEffect(() => {
+    if (company?.id && pipelines.length === 0) fetchPipelines()
+  }, [company?.id, pipelines.length, fetchPipelines])
+
+  useEffect(() => {
+    fetchNotes()
+  }, [fetchNotes])
+
+  // Documents for this deal's contact (or the deal itself when it has none)
+  useEffect(() => {
+    if (!dealId) return
+    const params: Record<string, string> = contactId ? { contact_id: contactId } : { deal_id: dealId }
+    fetchContracts(params)
+    fetchInvoices(params)
+  }, [dealId, contactId, fetchContracts, fetchInvoices])
+
+  const belongsToDeal = (doc: { deal_id?: string; contact_id?: string }) =>
+    !!deal && (doc.deal_id === deal.id || (!!contactId && doc.contact_id === contactId))
+
+  const dealContracts = contracts.filter(belongsToDeal)
+  const dealInvoices = invoices.filter(belongsToDeal)
+
+  const saveChanges = async (changes: Record<string, string | number | null>) => {
+    if (!deal) return false
+
+    setIsSaving(true)
+    setSaveError(null)
+
+    try {
+      await api.patch(`/api/v1/deals/${deal.id}`, changes)
+      await fetchDeal()
+      return true
+    } catch (err: unknown) {
+      console.error('Failed to update deal:', err)
+      setSaveError('Failed to update deal')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const startEditing = async (field: EditableField, value: string) => {
+    if (!canEdit) return
+    setEditingField(field)
+    setDraftValue(value)
+
+    if (field === 'contact_id' && contacts.length === 0) {
+      try {
+        const response = await api.get('/api/v1/contacts', { params: { per_page: 100 } })
+        setContacts(response.data.data || [])
+      } catch (err: unknown) {
+        console.error('Failed to fetch contacts:', err)
+      }
+    }
+  }
+
+  const cancelEditing = () => {
+    setEditingField(null)
+    setDraftValue('')
+  }
+
+  const commitEditing = async () => {
+    if (!editingField) return
+
+    let value: string | number | null = draftValue.trim()
+    if (editingField === 'title' && !value) {
+      setSaveError('Title is required')
+      return
+    }
+    if (editingField === 'value' || editingField === 'probability') {
+      value = value === '' ? null : Number(value)
+    }
+
+    if (await saveChanges({ [editingField]: value })) {
+      cancelEditing()
+    }
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') cancelEditing()
+    if (e.key === 'Enter' && editingField !== 'description') {
+      e.preventDefault()
+      commitEditing()
+    }
+  }
+
+  const handleAddActivity = () => {
+    if (!contactId) return
+    openModal(MODAL_NAMES.ADD_ACTIVITY, {
+      preSelectedContactId: contactId,
+      onSuccess: () => fetchNotes(),
+    })
+  }
+
+  // Format currency
+  const formatCurrency = (value: number | null, currency: string = 'USD') => {
+    if (value === null) return '-'
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value)
+  }
+
+  const formatDate = (dateString: string | null | undefined) => {
+    if (!dateString) return '—'
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })
+  }
+
+  const formatDuration = (seconds: number) => {
+    const days = Math.floor(seconds / 86400)
+    const hours = Math.floor((seconds % 86400) / 3600)
+    const minutes = Math.floor((seconds % 3600) / 60)
+
+    if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`
+    if (hours > 0) return `${hours}h ${minutes}m`
+    return minutes > 0 ? `${minutes}m` : '< 1m'
+  }
+
+  // Total time spent per stage (a deal can visit a stage more than once)
+  const timeInStages = (deal?.stage_history ?? []).reduce((acc, change) => {
+    acc[change.to_stage] = (acc[change.to_stage] || 0) + change.duration_seconds
+    return acc
+  }, {} as Record<string, number>)
+  const longestStageTime = Math.max(1, ...Object.values(timeInStages))
+
+  // Inline editable field renderer
+  const renderEditable = (
+    field: EditableField,
+    currentValue: string,
+    display: React.ReactNode,
+    input: 'text' | 'number' | 'date' | 'textarea' | 'contact' = 'text'
+  ) => {
+    if (editingField !== field) {
+      return (
+        <button
+          type="button"
+          onClick={() => startEditing(field, currentValue)}
+          disabled={!canEdit}
+          className={`group flex items-center gap-2 text-left w-full rounded px-1 -mx-1 ${
+            canEdit ? 'hover:bg-base-300 cursor-pointer' : 'cursor-default'
+          }`}
+        >
+          <span className="flex-1 min-w-0">{display}</span>
+          {canEdit && <Pencil className="w-3 h-3 opacity-0 group-hover:opacity-50 flex-shrink-0" />}
+        </button>
+      )
+    }
+
+    return (
+      <div className="flex items-start gap-1">
+        {input === 'textarea' ? (
+          <textarea
+            value={draftValue}
+            onChange={(e) => setDraftValue(e.target.value)}
+            onKeyDown={handleEditKeyDown}
+            className="textarea textarea-bordered textarea-sm flex-1"
+            rows={4}
+            autoFocus
+          />
+        ) : input === 'contact' ? (
+          <select
+            value={draftValue}
+            onChange={(e) => setDraftValue(e.target.value)}
+            onKeyDown={handleEditKeyDown}
+            className="select select-bordered select-sm flex-1"
+            autoFocus
+          >
+            <option value="">Select a contact</option>
+            {contacts.map((contact) => (
+              <option key={contact.id} value={contact.id}>{contact.full_name}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type={input}
+            value={draftValue}
+            onChange={(e) => setDraftValue(e.target.value)}
+            onKeyDown={handleEditKeyDown}
+            className="input input-bordered input-sm flex-1"
+            min={input === 'number' ? 0 : undefined}
+            max={field === 'probability' ? 100 : undefined}
+            autoFocus
+          />
+        )}
+        <button onClick={commitEditing} className="btn btn-ghost btn-sm btn-square" disabled={isSaving} title="Save">
+          {isSaving ? <span className="loading loading-spinner loading-xs"></span> : <Check className="w-4 h-4 text-success" />}
+        </button>
+        <button onClick={cancelEditing} className="btn btn-ghost btn-sm btn-square" disabled={isSaving} title="Cancel">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-96">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      </Layout>
+    )
+  }
+
+  if (error || !deal) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <button onClick={() => navigate('/deals')} className="btn btn-ghost gap-2 mb-6">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Pipeline
+          </button>
+          <div className="text-center py-12">
+            <Target className="w-16 h-16 mx-auto mb-4 text-base-content/30" />
+            <h3 className="text-lg font-medium mb-2">{error || 'Deal not found'}</h3>
+            <button onClick={() => navigate('/deals')} className="btn btn-primary mt-4">
+              Go to Pipeline
+            </button>
+          </div>
+        </div>
+      </Layout>
+    )
+  }
+
+  const stageStyle = getStageStyle(currentStage?.color)
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        {/* Back Button & Actions */}
+        <div className="flex items-center justify-between">
+          <button onClick={() => navigate('/deals')} className="btn btn-ghost gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Pipeline
+          </button>
+          <Can action="create" resource="contracts">
+            <button
+              onClick={() => navigate(`/documents/contracts/create?deal_id=${deal.id}`)}
+              className="btn btn-primary btn-sm gap-2"
+            >
+              <FileText className="w-4 h-4" />
+              Create Contract
+            </button>
+          </Can>
+        </div>
+
+        {saveError && (
+          <div className="alert alert-error">
+            <XCircle className="w-5 h-5" />
+            <span>{saveError}</span>
+          </div>
+        )}
+
+        {/* Deal Header */}
+        <div className="card bg-base-200">
+          <div className="card-body">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="text-2xl font-semibold">
+                  {renderEditable('title', deal.title, deal.title)}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-sm text-base-content/60">
+                  {pipeline && <span>{pipeline.name}</span>}
+                  <span>•</span>
+                  <span>Created {deal.created_at}{deal.created_by ? ` by ${deal.created_by}` : ''}</span>
+                  {deal.closed_at && (
+                    <>
+                      <span>•</span>
+                      <span>Closed {deal.closed_at}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                {deal.is_won && <Trophy className="w-5 h-5 text-success" />}
+                {deal.is_closed && !deal.is_won && <XCircle className="w-5 h-5 text-error" />}
+                <select
+                  value={deal.stage}
+                  onChange={(e) => saveChanges({ stage: e.target.value })}
+                  disabled={!canEdit || isSaving || stages.length === 0}
+                  className={`select select-bordered select-sm font-medium ${stageStyle.text}`}
+                >
+                  {stages.length === 0 && <option value={deal.stage}>{deal.stage_name}</option>}
+                  {stages.map((stage) => (
+                    <option key={stage.key} value={stage.key}>{stage.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {deal.lost_reason && (
+              <p className="text-sm text-error mt-2">Lost reason: {deal.lost_reason}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Main Content */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Details */}
+            <div className="card bg-base-200">
+              <div className="card-body">
+                <h3 className="card-title text-lg mb-2">Details</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-xs text-base-content/60 uppercase tracking-wide flex items-center gap-1 mb-1">
+                      <DollarSign className="w-3 h-3" /> Value
+                    </p>
+                    {renderEditable(
+                      'value',
+                      deal.value !== null ? String(deal.value) : '',
+                      <span className="font-medium">{formatCurrency(deal.value, deal.currency)}</span>,
+                      'number'
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-base-content/60 uppercase tracking-wide flex items-center gap-1 mb-1">
+                      <Percent className="w-3 h-3" /> Probability
+                    </p>
+                    {renderEditable(
+                      'probability',
+                      String(deal.probability),
+                      <span className="font-medium">
+                        {deal.probability}%
+                        <span className="text-base-content/50 font-normal ml-2">
+                          ({formatCurrency(deal.weighted_value, deal.currency)} weighted)
+                        </span>
+                      </span>,
+                      'number'
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-base-content/60 uppercase tracking-wide flex items-center gap-1 mb-1">
+                      <Calendar className="w-3 h-3" /> Expected Close
+                    </p>
+                    {renderEditable(
+                      'expected_close_date',
+                      deal.expected_close_date ?? '',
+                      <span className="font-medium">{formatDate(deal.expected_close_date)}</span>,
+                      'date'
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-base-content/60 uppercase tracking-wide flex items-center gap-1 mb-1">
+                      <User className="w-3 h-3" /> Contact
+                    </p>
+                    {renderEditable(
+                      'contact_id',
+                      contactId ?? '',
+                      deal.contact ? (
+                        <span className="font-medium">{deal.contact.name}</span>
+                      ) : (
+                        <span className="text-base-content/50">No contact</span>
+                      ),
+                      'contact'
+                    )}
+                    {deal.contact && editingField !== 'contact_id' && (
+                      <Link to={`/crm/contacts/${deal.contact.id}`} className="link link-primary text-xs">
+                        View contact
+                      </Link>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-base-content/60 uppercase tracking-wide flex items-center gap-1 mb-1">
+                      <User className="w-3 h-3" /> Assigned To
+                    </p>
+                    <p className="font-medium">{deal.assignee?.name || '—'}</p>
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <p className="text-xs text-base-content/60 uppercase tracking-wide mb-1">Description</p>
+                  {renderEditable(
+                    'description',
+                    deal.description ?? '',
+                    deal.description ? (
+                      <p className="text-sm whitespace-pre-wrap">{deal.description}</p>
+                    ) : (
+                      <p className="text-sm text-base-content/50">No description</p>
+                    ),
+                    'textarea'
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Stage History */}
+            <div className="card bg-base-200">
+              <div className="card-body">
+                <h3 className="card-title text-lg mb-2">
+                  <History className="w-5 h-5" />
+                  Stage History
+                </h3>
+
+                {deal.stage_history.length === 0 ? (
+                  <p className="text-sm text-base-content/50 py-4">No stage changes recorded yet</p>
+                ) : (
+                  <>
+                    {/* Time in each stage */}
+                    <div className="space-y-2 mb-4">
+                      {stages.filter((stage) => timeInStages[stage.key] !== undefined).map((stage) => (
+                        <div key={stage.key} className="flex items-center gap-3 text-sm">
+                          <span className={`w-28 truncate ${getStageStyle(stage.color).text}`}>{stage.name}</span>
+                          <div className="flex-1 bg-base-300 rounded-full h-2">
+                            <div
+                              className={`h-2 rounded-full ${getStageStyle(stage.color).bar}`}
+                              style={{ width: `${(timeInStages[stage.key] / longestStageTime) * 100}%` }}
+                            />
+                          </div>
+                          <span className="w-20 text-right text-base-content/60">{formatDuration(timeInStages[stage.key])}</span>
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Timeline, newest first */}
+                    <ul className="space-y-3">
+                      {[...deal.stage_history].reverse().map((change) => {
+                        const style = getStageStyle(stages.find((s) => s.key === change.to_stage)?.color)
+                        return (
+                          <li key={change.id} className="flex gap-3 p-3 bg-base-100 rounded-lg">
+                            <div className={`w-2.5 h-2.5 rounded-full mt-1.5 flex-shrink-0 ${style.dot}`} />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm">
+                                {change.from_stage_name ? (
+                                  <>
+                                    Moved from <span className="font-medium">{change.from_stage_name}</span> to{' '}
+                                    <span className={`font-medium ${style.text}`}>{change.to_stage_name}</span>
+                                  </>
+                                ) : (
+                                  <>
+                                    Created in <span className={`font-medium ${style.text}`}>{change.to_stage_name}</span>
+                                  </>
+                                )}
+                              </p>
+                              <p className="text-xs text-base-content/50 mt-1">
+                                {formatDate(change.entered_at)}
+                                {change.changed_by && ` by ${change.changed_by.name}`}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-1 text-xs text-base-content/60 flex-shrink-0">
+                              <Clock className="w-3 h-3" />
+                              {formatDuration(change.duration_seconds)}
+                              {change.is_current && <span className="badge badge-ghost badge-xs ml-1">current</span>}
+                            </div>
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Contact Activity */}
+            <div className="card bg-base-200">
+              <div className="card-body">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="card-title text-lg">
+                    <Activity className="w-5 h-5" />
+                    Contact Activity
+                  </h3>
+                  {contactId && (
+                    <button
+                      onClick={handleAddActivity}
+                      className="btn btn-ghost btn-sm btn-circle"
+                      title="Add Activity"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                {!contactId ? (
+                  <p className="text-sm text-base-content/50 py-4">Link a contact to see their activity</p>
+                ) : isLoadingNotes ? (
+                  <div className="flex items-center justify-center py-8">
+                    <span className="loading loading-spinner loading-md"></span>
+                  </div>
+                ) : notes.length === 0 ? (
+                  <p className="text-sm text-base-content/50 py-4">No activity recorded yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {notes.map((note) => (
+                      <div key={note.id} className="flex gap-3 p-3 bg-base-100 rounded-lg">
+                        <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-base-content/70 bg-base-300">
+                          <MessageSquare className="w-4 h-4" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-base-content/70 whitespace-pre-wrap">{note.content}</p>
+                          <div className="flex items-center gap-2 mt-1">
+                            {note.created_by && (
+                              <span className="text-xs text-base-content/50">{note.created_by.name}</span>
+                            )}
+                            <span className="text-xs text-base-content/40">{formatDate(note.created_at)}</span>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            {/* Contracts */}
+            <div className="card bg-base-200">
+              <div className="card-body">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="card-title text-lg">
+                    <FileText className="w-5 h-5" />
+                    Contracts
+                  </h3>
+                  <Can action="create" resource="contracts">
+                    <button
+                      onClick={() => navigate(`/documents/contracts/create?deal_id=${deal.id}`)}
+                      className="btn btn-ghost btn-sm btn-circle"
+                      title="Create contract from deal"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </Can>
+                </div>
+
+                {isLoadingContracts && dealContracts.length === 0 ? (
+                  <div className="flex items-center justify-center py-4">
+                    <span className="loading loading-spinner loading-sm"></span>
+                  </div>
+                ) : dealContracts.length === 0 ? (
+                  <p className="text-sm text-base-content/50">No contracts yet</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {dealContracts.map((contract) => (
+                      <li key={contract.id}>
+                        <Link
+                          to={`/documents/contracts/${contract.id}`}
+                          className="flex items-center justify-between gap-2 p-2 bg-base-100 rounded-lg hover:bg-base-300"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{contract.title}</p>
+                            <p className="text-xs text-base-content/50">
+                              {contract.contract_number}
+                              {contract.deal_id === deal.id && ' • from this deal'}
+                            </p>
+                          </div>
+                          <ContractStatusBadge status={contract.status} className="badge-sm" />
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            {/* Invoices */}
+            <div className="card bg-base-200">
+              <div className="card-body">
+                <h3 className="card-title text-lg mb-2">
+                  <Receipt className="w-5 h-5" />
+                  Invoices
+                </h3>
+
+                {isLoadingInvoices && dealInvoices.length === 0 ? (
+                  <div className="flex items-center justify-center py-4">
+                    <span className="loading loading-spinner loading-sm"></span>
+                  </div>
+                ) : dealInvoices.length === 0 ? (
+                  <p className="text-sm text-base-content/50">No invoices yet</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {dealInvoices.map((invoice) => (
+                      <li key={invoice.id}>
+                        <Link
+                          to={`/documents/invoices/${invoice.id}`}
+                          className="flex items-center justify-between gap-2 p-2 bg-base-100 rounded-lg hover:bg-base-300"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{invoice.invoice_number}</p>
+                            <p className="text-xs text-base-content/50">
+                              {formatCurrency(Number(invoice.total), invoice.currency)} • due {formatDate(invoice.due_date)}
+                            </p>
+                          </div>
+                          <InvoiceStatusBadge status={invoice.status} className="badge-sm" />
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  )
+}
@@ -0,0 +1,394 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  ArrowLeft,
+  Download,
+  RefreshCw,
+  XCircle,
+  Loader2,
+  TrendingUp,
+  Target,
+  Trophy,
+  Clock,
+  CalendarClock,
+} from 'lucide-react'
+import Layout from '../components/Layout'
+import { getStageStyle } from '../components/deals'
+import { useAuthStore } from '../stores/auth'
+import { usePipelineStore } from '../stores/pipelines'
+import { api } from '../lib/api'
+import { downloadCsv, type CsvCell } from '../lib/csv'
+import type { DealForecast, ForecastGrouping } from '../types/deals'
+
+export default function DealForecastPage() {
+  const navigate = useNavigate()
+  const { company } = useAuthStore()
+  const { pipelines, selectedPipelineId, fetchPipelines, selectPipeline } = usePipelineStore()
+
+  const [forecast, setForecast] = useState<DealForecast | null>(null)
+  const [groupBy, setGroupBy] = useState<ForecastGrouping>('month')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const selectedPipeline = pipelines.find((p) => p.id === selectedPipelineId) ?? null
+
+  useEffect(() => {
+    if (company?.id) fetchPipelines()
+  }, [company?.id, fetchPipelines])
+
+  const fetchForecast = useCallback(async () => {
+    if (!company?.id || !selectedPipelineId) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await api.get('/api/v1/deals/forecast', {
+        params: { pipeline_id: selectedPipelineId, group_by: groupBy },
+      })
+      setForecast(response.data)
+    } catch (err: unknown) {
+      console.error('Failed to fetch forecast:', err)
+      setError('Failed to load forecast')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [company?.id, selectedPipelineId, groupBy])
+
+  useEffect(() => {
+    fetchForecast()
+  }, [fetchForecast])
+
+  // Format currency
+  const formatCurrency = (value: number | null, currency: string = 'USD') => {
+    if (value === null) return '-'
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value)
+  }
+
+  const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate}%`)
+  const formatDays = (days: number | null) => (days === null ? '—' : `${days} days`)
+
+  const exportCsv = () => {
+    if (!forecast) return
+
+    const rows: CsvCell[][] = [
+      [`Forecast by ${forecast.group_by}`, selectedPipeline?.name ?? ''],
+      ['Period', 'Start', 'End', 'Open deals', 'Won deals', 'Committed', 'Weighted', 'Best case'],
+      ...forecast.periods.map((p) => [p.label, p.start, p.end, p.open_count, p.won_count, p.committed, p.weighted, p.best_case]),
+      ['Total', '', '', '', '', forecast.totals.committed, forecast.totals.weighted, forecast.totals.best_case],
+      ['Overdue', '', '', forecast.overdue.count, '', '', forecast.overdue.weighted, forecast.overdue.best_case],
+      ['Later', '', '', forecast.later.count, '', '', forecast.later.weighted, forecast.later.best_case],
+      ['No close date', '', '', forecast.unscheduled.count, '', '', forecast.unscheduled.weighted, forecast.unscheduled.best_case],
+      [],
+      ['Win rate by stage'],
+      ['Stage', 'Won', 'Lost', 'Win rate %'],
+      ...forecast.win_rates.by_stage.map((s) => [s.name, s.won, s.lost, s.win_rate]),
+      ['Overall', forecast.win_rates.overall.won, forecast.win_rates.overall.lost, forecast.win_rates.overall.win_rate],
+      [],
+      ['Win rate by assignee'],
+      ['Assignee', 'Won', 'Lost', 'Win rate %', 'Won value', 'Avg cycle (days)'],
+      ...forecast.win_rates.by_assignee.map((a) => [a.name, a.won, a.lost, a.win_rate, a.won_value, a.avg_cycle_days]),
+      [],
+      ['Sales cycle'],
+      ['Avg days to win', forecast.sales_cycle.avg_days_won],
+      ['Avg days to lose', forecast.sales_cycle.avg_days_lost],
+    ]
+
+    const date = new Date().toISOString().slice(0, 10)
+    downloadCsv(`sales-forecast-${forecast.group_by}-${date}.csv`, rows)
+  }
+
+  const maxPeriodValue = Math.max(1, ...(forecast?.periods.map((p) => p.best_case) ?? []))
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <button onClick={() => navigate('/deals')} className="btn btn-ghost btn-sm btn-square" title="Back to pipeline">
+              <ArrowLeft className="w-4 h-4" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-semibold text-base-content">Sales Forecast</h1>
+              <p className="text-base-content/60 mt-1">Expected revenue by close date, win rates and sales cycle</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedPipelineId ?? ''}
+              onChange={(e) => selectPipeline(e.target.value)}
+              className="select select-bordered"
+              disabled={pipelines.length === 0}
+            >
+              {pipelines.map((pipeline) => (
+                <option key={pipeline.id} value={pipeline.id}>{pipeline.name}</option>
+              ))}
+            </select>
+            <div className="join">
+              {(['month', 'quarter'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setGroupBy(option)}
+                  className={`btn join-item capitalize ${groupBy === option ? 'btn-active' : ''}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <button onClick={fetchForecast} className="btn btn-ghost btn-square" title="Refresh">
+              <RefreshCw className="w-4 h-4" />
+            </button>
+            <button onClick={exportCsv} className="btn btn-primary gap-2" disabled={!forecast}>
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        {/* Error state */}
+        {error && (
+          <div className="alert alert-error">
+            <XCircle className="w-5 h-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Loading state */}
+        {isLoading && !forecast && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {forecast && (
+          <>
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="card bg-base-200 p-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-success/10 flex items-center justify-center">
+                    <Trophy className="w-5 h-5 text-success" />
+                  </div>
+                  <div>
+                    <p className="text-xs text-base-content/60 uppercase tracking-wide">Committed</p>
+                    <p className="text-xl font-semibold text-base-content">{formatCurrency(forecast.totals.committed)}</p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="card bg-base-200 p-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-warning/10 flex items-center justify-center">
+                    <TrendingUp className="w-5 h-5 text-warning" />
+                  </div>
+                  <div>
+                    <p className="text-xs text-base-content/60 uppercase tracking-wide">Weighted</p>
+                    <p className="text-xl font-semibold text-base-content">{formatCurrency(forecast.totals.weighted)}</p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="card bg-base-200 p-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                    <Target className="w-5 h-5 text-primary" />
+                  </div>
+                  <div>
+                    <p className="text-xs text-base-content/60 uppercase tracking-wide">Best Case</p>
+                    <p className="text-xl font-semibold text-base-content">{formatCurrency(forecast.totals.best_case)}</p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="card bg-base-200 p-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-info/10 flex items-center justify-center">
+                    <Clock className="w-5 h-5 text-info" />
+                  </div>
+                  <div>
+                    <p className="text-xs text-base-content/60 uppercase tracking-wide">Avg Sales Cycle</p>
+                    <p className="text-xl font-semibold text-base-content">{formatDays(forecast.sales_cycle.avg_days_won)}</p>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Forecast by Period */}
+            <div className="card bg-base-200">
+              <div className="card-body">
+                <h3 className="card-title text-lg">
+                  <CalendarClock className="w-5 h-5" />
+                  Forecast by {forecast.group_by}
+                </h3>
+                <p className="text-sm text-base-content/60">
+                  Committed is revenue already won in the period. Weighted adds open deals at their probability, best case adds them in full.
+                </p>
+
+                <div className="overflow-x-auto mt-2">
+                  <table className="table table-sm">
+                    <thead>
+                      <tr>
+                        <th>Period</th>
+                        <th className="text-right">Open</th>
+                        <th className="text-right">Won</th>
+                        <th className="text-right">Committed</th>
+                        <th className="text-right">Weighted</th>
+                        <th className="text-right">Best Case</th>
+                        <th className="w-1/4"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {forecast.periods.map((period) => (
+                        <tr key={period.key}>
+                          <td className="font-medium">{period.label}</td>
+                          <td className="text-right">{period.open_count}</td>
+                          <td className="text-right">{period.won_count}</td>
+                          <td className="text-right">{formatCurrency(period.committed)}</td>
+                          <td className="text-right">{formatCurrency(period.weighted)}</td>
+                          <td className="text-right">{formatCurrency(period.best_case)}</td>
+                          <td>
+                            {/* Stacked: committed inside weighted inside best case */}
+                            <div className="relative w-full bg-base-300 rounded-full h-2">
+                              <div
+                                className="absolute h-2 rounded-full bg-primary/30"
+                                style={{ width: `${(period.best_case / maxPeriodValue) * 100}%` }}
+                              />
+                              <div
+                                className="absolute h-2 rounded-full bg-warning"
+                                style={{ width: `${(period.weighted / maxPeriodValue) * 100}%` }}
+                              />
+                              <div
+                                className="absolute h-2 rounded-full bg-success"
+                                style={{ width: `${(period.committed / maxPeriodValue) * 100}%` }}
+                              />
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr>
+                        <th>Total</th>
+                        <th className="text-right">{forecast.periods.reduce((sum, p) => sum + p.open_count, 0)}</th>
+                        <th className="text-right">{forecast.periods.reduce((sum, p) => sum + p.won_count, 0)}</th>
+                        <th className="text-right">{formatCurrency(forecast.totals.committed)}</th>
+                        <th className="text-right">{formatCurrency(forecast.totals.weighted)}</th>
+                        <th className="text-right">{formatCurrency(forecast.totals.best_case)}</th>
+                        <th></th>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+
+                {/* Open deals outside the window */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-4">
+                  {[
+                    { label: 'Overdue', hint: 'Expected close date has passed', bucket: forecast.overdue },
+                    { label: 'Later', hint: 'Beyond the forecast window', bucket: forecast.later },
+                    { label: 'No close date', hint: 'Expected close date not set', bucket: forecast.unscheduled },
+                  ].map(({ label, hint, bucket }) => (
+                    <div key={label} className="bg-base-100 rounded-lg p-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">{label}</span>
+                        <span className="badge badge-ghost badge-sm">{bucket.count}</span>
+                      </div>
+                      <p className="text-xs text-base-content/50">{hint}</p>
+                      <p className="text-sm mt-1">
+                        {formatCurrency(bucket.weighted)}{' '}
+                        <span className="text-base-content/50">weighted of {formatCurrency(bucket.best_case)}</span>
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Win Rate by Stage */}
+              <div className="card bg-base-200">
+                <div className="card-body">
+                  <div className="flex items-center justify-between">
+                    <h3 className="card-title text-lg">Win Rate by Stage</h3>
+                    <span className="text-sm text-base-content/60">
+                      Overall {formatRate(forecast.win_rates.overall.win_rate)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-base-content/60">Share of closed deals that were won after reaching each stage.</p>
+
+                  <div className="space-y-3 mt-2">
+                    {forecast.win_rates.by_stage.map((stage) => {
+                      const style = getStageStyle(stage.color)
+                      return (
+                        <div key={stage.stage}>
+                          <div className="flex items-center justify-between text-sm mb-1">
+                            <span className={style.text}>{stage.name}</span>
+                            <span className="text-base-content/60">
+                              {formatRate(stage.win_rate)}
+                              <span className="text-xs ml-2">({stage.won} won / {stage.lost} lost)</span>
+                            </span>
+                          </div>
+                          <div className="w-full bg-base-300 rounded-full h-1.5">
+                            <div className={`h-1.5 rounded-full ${style.bar}`} style={{ width: `${stage.win_rate ?? 0}%` }} />
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              </div>
+
+              {/* Win Rate by Assignee */}
+              <div className="card bg-base-200">
+                <div className="card-body">
+                  <h3 className="card-title text-lg">Win Rate by Assignee</h3>
+
+                  {forecast.win_rates.by_assignee.length === 0 ? (
+                    <p className="text-sm text-base-content/50 py-4">No closed deals yet</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="table table-sm">
+                        <thead>
+                          <tr>
+                            <th>Assignee</th>
+                            <th className="text-right">Won</th>
+                            <th className="text-right">Lost</th>
+                            <th className="text-right">Win Rate</th>
+                            <th className="text-right">Won Value</th>
+                            <th className="text-right">Avg Cycle</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {forecast.win_rates.by_assignee.map((assignee) => (
+                            <tr key={assignee.assignee_id ?? 'unassigned'}>
+                              <td className="font-medium">{assignee.name}</td>
+                              <td className="text-right">{assignee.won}</td>
+                              <td className="text-right">{assignee.lost}</td>
+                              <td className="text-right">{formatRate(assignee.win_rate)}</td>
+                              <td className="text-right">{formatCurrency(assignee.won_value)}</td>
+                              <td className="text-right">{formatDays(assignee.avg_cycle_days)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  <div className="text-sm text-base-content/60 mt-2">
+                    Won deals take {formatDays(forecast.sales_cycle.avg_days_won)} on average ({forecast.sales_cycle.won_count} won);
+                    lost deals {formatDays(forecast.sales_cycle.avg_days_lost)} ({forecast.sales_cycle.lost_count} lost).
+                  </div>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  )
+}
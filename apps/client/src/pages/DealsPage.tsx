@@ -1,4 +1,27 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  closestCorners,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragOverEvent,
+  type DragStartEvent,
+  type UniqueIdentifier,
+} from '@dnd-kit/core'
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { Link } from 'react-router-dom'
 import {
   DollarSign,
   TrendingUp,
@@ -13,65 +36,17 @@ import {
   ArrowRight,
   Trophy,
   Target,
+  Settings2,
+  LineChart,
 } from 'lucide-react'
 import Layout from '../components/Layout'
+import { Can } from '../components/AuthGuard'
+import { PipelineEditorModal, getStageStyle } from '../components/deals'
 import { useModalStore, MODAL_NAMES } from '../stores/modal'
 import { useAuthStore } from '../stores/auth'
+import { usePipelineStore } from '../stores/pipelines'
 import { api } from '../lib/api'
-
-// Types
-interface Deal {
-  id: string
-  title: string
-  description: string | null
-  value: number | null
-  currency: string
-  stage: string
-  probability: number
-  expected_close_date: string | null
-  contact: {
-    id: string
-    name: string
-    email: string | null
-  } | null
-  assignee: {
-    id: string
-    name: string
-    avatar: string | null
-  } | null
-  is_closed: boolean
-  created_at: string
-}
-
-interface PipelineStats {
-  total_value: number
-  weighted_value: number
-  deals_count: number
-  closing_soon: number
-  by_stage: {
-    [key: string]: {
-      name: string
-      count: number
-      value: number
-    }
-  }
-}
-
-interface Stage {
-  key: string
-  name: string
-  color: string
-  bgColor: string
-  probability: number
-}
-
-const STAGES: Stage[] = [
-  { key: 'qualification', name: 'Qualification', color: 'text-info', bgColor: 'bg-info/10', probability: 10 },
-  { key: 'proposal', name: 'Proposal', color: 'text-warning', bgColor: 'bg-warning/10', probability: 30 },
-  { key: 'negotiation', name: 'Negotiation', color: 'text-secondary', bgColor: 'bg-secondary/10', probability: 60 },
-  { key: 'closed_won', name: 'Closed Won', color: 'text-success', bgColor: 'bg-success/10', probability: 100 },
-  { key: 'closed_lost', name: 'Closed Lost', color: 'text-error', bgColor: 'bg-error/10', probability: 0 },
-]
+import type { Deal, DealPipelineStage, PipelineStats } from '../types/deals'
 
 export default function DealsPage() {
   const [deals, setDeals] = useState<Deal[]>([])
@@ -82,13 +57,31 @@ export default function DealsPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [showClosedDeals, setShowClosedDeals] = useState(false)
   const [movingDeal, setMovingDeal] = useState<string | null>(null)
+  const [showPipelineEditor, setShowPipelineEditor] = useState(false)
+  const [activeDeal, setActiveDeal] = useState<Deal | null>(null)
+  // Board as it was when the current drag started, restored on cancel
+  const dragSnapshot = useRef<Deal[] | null>(null)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  )
   
   const { openModal } = useModalStore()
   const { company } = useAuthStore()
+  const { pipelines, selectedPipelineId, fetchPipelines, selectPipeline, error: pipelinesError } = usePipelineStore()
+
+  const selectedPipeline = pipelines.find((p) => p.id === selectedPipelineId) ?? null
+  const stages = selectedPipeline?.stages ?? []
+
+  // Fetch pipelines
+  useEffect(() => {
+    if (company?.id) fetchPipelines()
+  }, [company?.id, fetchPipelines])
 
   // Fetch deals
   const fetchDeals = useCallback(async () => {
-    if (!company?.id) return
+    if (!company?.id || !selectedPipelineId) return
     
     setIsLoading(true)
     setError(null)
@@ -96,6 +89,7 @@ export default function DealsPage() {
     try {
       const response = await api.get('/api/v1/deals', {
         params: {
+          pipeline_id: selectedPipelineId,
           open_only: !showClosedDeals,
           search: searchQuery || undefined,
           limit: 100,
@@ -108,49 +102,141 @@ export default function DealsPage() {
     } finally {
       setIsLoading(false)
     }
-  }, [company?.id, showClosedDeals, searchQuery])
+  }, [company?.id, selectedPipelineId, showClosedDeals, searchQuery])
 
   // Fetch pipeline stats
   const fetchStats = useCallback(async () => {
-    if (!company?.id) return
+    if (!company?.id || !selectedPipelineId) return
     
     setIsLoadingStats(true)
     
     try {
-      const response = await api.get('/api/v1/deals/stats')
+      const response = await api.get('/api/v1/deals/stats', {
+        params: { pipeline_id: selectedPipelineId },
+      })
       setStats(response.data)
     } catch (err: unknown) {
       console.error('Failed to fetch pipeline stats:', err)
     } finally {
       setIsLoadingStats(false)
     }
-  }, [company?.id])
+  }, [company?.id, selectedPipelineId])
 
   useEffect(() => {
     fetchDeals()
     fetchStats()
   }, [fetchDeals, fetchStats])
 
-  // Move deal to new stage
-  const moveDealToStage = async (dealId: string, newStage: string) => {
+  // Apply a stage locally so the card and column totals follow it immediately
+  const withStage = (deal: Deal, stageKey: string): Deal => {
+    const stage = stages.find((s) => s.key === stageKey)
+    if (!stage) return deal
+    return { ...deal, stage: stage.key, probability: stage.probability, is_closed: stage.is_won || stage.is_lost }
+  }
+
+  // Persist a move that is already shown on the board; put the board back if the server rejects it
+  const persistMove = async (dealId: string, stage: string, position: number, previous: Deal[]) => {
     setMovingDeal(dealId)
-    
+    setError(null)
+
     try {
-      await api.patch(`/api/v1/deals/${dealId}`, {
-        stage: newStage,
-      })
-      
-      // Refresh deals
-      await fetchDeals()
-      await fetchStats()
+      await api.patch(`/api/v1/deals/${dealId}`, { stage, position })
+      fetchStats()
     } catch (err: unknown) {
       console.error('Failed to move deal:', err)
+      setDeals(previous)
       setError('Failed to move deal')
     } finally {
       setMovingDeal(null)
     }
   }
 
+  // Move deal to new stage (from the card menu) - lands at the bottom of the column
+  const moveDealToStage = (dealId: string, newStage: string) => {
+    const deal = deals.find(d => d.id === dealId)
+    if (!deal) return
+
+    const moved = withStage(deal, newStage)
+    const next = [...deals.filter(d => d.id !== dealId), moved]
+    const position = next.filter(d => d.stage === newStage).length - 1
+
+    // Closed columns are hidden unless closed deals are shown
+    setDeals(moved.is_closed && !showClosedDeals ? next.filter(d => d.id !== dealId) : next)
+    persistMove(dealId, newStage, position, deals)
+  }
+
+  // Stage a board item belongs to: either a column itself or the stage of a deal card
+  const findStageKey = (id: UniqueIdentifier): string | undefined => {
+    const key = String(id)
+    if (key.startsWith('stage-')) return key.slice('stage-'.length)
+    return deals.find(d => d.id === key)?.stage
+  }
+
+  const handleDragStart = (event: DragStartEvent) => {
+    dragSnapshot.current = deals
+    setActiveDeal(deals.find(d => d.id === event.active.id) ?? null)
+  }
+
+  // Carry the card into another column while hovering it
+  const handleDragOver = ({ active, over }: DragOverEvent) => {
+    if (!over) return
+
+    const fromStage = findStageKey(active.id)
+    const toStage = findStageKey(over.id)
+    if (!fromStage || !toStage || fromStage === toStage) return
+
+    setDeals(prev => {
+      const current = prev.find(d => d.id === active.id)
+      if (!current) return prev
+
+      const rest = prev.filter(d => d.id !== active.id)
+      const overIndex = rest.findIndex(d => d.id === over.id)
+      // Hovering the column itself (or an empty one) appends to the end
+      const insertAt = overIndex === -1 ? rest.length : overIndex
+
+      return [...rest.slice(0, insertAt), withStage(current, toStage), ...rest.slice(insertAt)]
+    })
+  }
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const previous = dragSnapshot.current
+    dragSnapshot.current = null
+    setActiveDeal(null)
+
+    if (!previous) return
+    if (!over) {
+      setDeals(previous)
+      return
+    }
+
+    const dealId = String(active.id)
+    let next = deals
+    const activeIndex = next.findIndex(d => d.id === dealId)
+    const overIndex = next.findIndex(d => d.id === over.id)
+
+    // Reorder within the column the card ended up in
+    if (activeIndex !== -1 && overIndex !== -1 && activeIndex !== overIndex && next[overIndex].stage === next[activeIndex].stage) {
+      next = arrayMove(next, activeIndex, overIndex)
+      setDeals(next)
+    }
+
+    const moved = next.find(d => d.id === dealId)
+    const original = previous.find(d => d.id === dealId)
+    if (!moved || !original) return
+
+    const position = next.filter(d => d.stage === moved.stage).findIndex(d => d.id === dealId)
+    const originalPosition = previous.filter(d => d.stage === original.stage).findIndex(d => d.id === dealId)
+    if (moved.stage === original.stage && position === originalPosition) return
+
+    persistMove(dealId, moved.stage, position, previous)
+  }
+
+  const handleDragCancel = () => {
+    if (dragSnapshot.current) setDeals(dragSnapshot.current)
+    dragSnapshot.current = null
+    setActiveDeal(null)
+  }
+
   // Format currency
   const formatCurrency = (value: number | null, currency: string = 'USD') => {
     if (value === null) return '-'
@@ -162,13 +248,23 @@ export default function DealsPage() {
     }).format(value)
   }
 
+  const openCreateDeal = () => {
+    openModal(MODAL_NAMES.CREATE_DEAL, {
+      pipelineId: selectedPipelineId,
+      onSuccess: () => {
+        fetchDeals()
+        fetchStats()
+      },
+    })
+  }
+
   // Group deals by stage
-  const dealsByStage = STAGES.reduce((acc, stage) => {
+  const dealsByStage = stages.reduce((acc, stage) => {
     acc[stage.key] = deals.filter(deal => deal.stage === stage.key)
     return acc
   }, {} as Record<string, Deal[]>)
 
-  // Calculate stage totals
+  // Calculate stage totals (from board state, so they follow cards while dragging)
   const getStageTotals = (stageDeals: Deal[]) => {
     const total = stageDeals.reduce((sum, d) => sum + (d.value || 0), 0)
     return { count: stageDeals.length, value: total }
@@ -183,13 +279,37 @@ export default function DealsPage() {
             <h1 className="text-2xl font-semibold text-base-content">Sales Pipeline</h1>
             <p className="text-base-content/60 mt-1">Track and manage your sales opportunities</p>
           </div>
-          <button
-            onClick={() => openModal(MODAL_NAMES.CREATE_DEAL)}
-            className="btn btn-primary gap-2"
-          >
-            <Plus className="w-4 h-4" />
-            New Deal
-          </button>
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedPipelineId ?? ''}
+              onChange={(e) => selectPipeline(e.target.value)}
+              className="select select-bordered"
+              disabled={pipelines.length === 0}
+            >
+              {pipelines.map((pipeline) => (
+                <option key={pipeline.id} value={pipeline.id}>{pipeline.name}</option>
+              ))}
+            </select>
+            <Link to="/deals/forecast" className="btn btn-ghost btn-square" title="Sales forecast">
+              <LineChart className="w-4 h-4" />
+            </Link>
+            <Can action="manage" resource="deals">
+              <button
+                onClick={() => setShowPipelineEditor(true)}
+                className="btn btn-ghost btn-square"
+                title="Manage pipelines"
+              >
+                <Settings2 className="w-4 h-4" />
+              </button>
+            </Can>
+            <button
+              onClick={openCreateDeal}
+              className="btn btn-primary gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              New Deal
+            </button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -286,15 +406,15 @@ export default function DealsPage() {
         </div>
 
         {/* Error state */}
-        {error && (
+        {(error || pipelinesError) && (
           <div className="alert alert-error">
             <XCircle className="w-5 h-5" />
-            <span>{error}</span>
+            <span>{error || pipelinesError}</span>
           </div>
         )}
 
         {/* Loading state */}
-        {isLoading && (
+        {isLoading && !pipelinesError && (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="w-8 h-8 animate-spin text-primary" />
           </div>
@@ -302,55 +422,44 @@ export default function DealsPage() {
 
         {/* Pipeline Kanban */}
         {!isLoading && (
-          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
-            {STAGES.filter(stage => showClosedDeals || !['closed_won', 'closed_lost'].includes(stage.key)).map((stage) => {
-              const stageDeals = dealsByStage[stage.key] || []
-              const totals = getStageTotals(stageDeals)
-
-              return (
-                <div
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCorners}
+            onDragStart={handleDragStart}
+            onDragOver={handleDragOver}
+            onDragEnd={handleDragEnd}
+            onDragCancel={handleDragCancel}
+          >
+            <div className="flex gap-4 overflow-x-auto pb-2">
+              {stages.filter(stage => showClosedDeals || !(stage.is_won || stage.is_lost)).map((stage) => (
+                <StageColumn
                   key={stage.key}
-                  className="flex flex-col bg-base-200 rounded-lg min-h-[400px]"
-                >
-                  {/* Stage Header */}
-                  <div className={`p-3 border-b border-base-300 ${stage.bgColor}`}>
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        {stage.key === 'closed_won' && <Trophy className={`w-4 h-4 ${stage.color}`} />}
-                        {stage.key === 'closed_lost' && <XCircle className={`w-4 h-4 ${stage.color}`} />}
-                        <h3 className={`font-medium ${stage.color}`}>{stage.name}</h3>
-                      </div>
-                      <span className="badge badge-ghost badge-sm">{totals.count}</span>
-                    </div>
-                    <p className="text-xs text-base-content/60 mt-1">
-                      {formatCurrency(totals.value)} • {stage.probability}%
-                    </p>
-                  </div>
-
-                  {/* Deals List */}
-                  <div className="flex-1 p-2 space-y-2 overflow-y-auto">
-                    {stageDeals.length === 0 ? (
-                      <p className="text-center text-base-content/40 py-8 text-sm">
-                        No deals
-                      </p>
-                    ) : (
-                      stageDeals.map((deal) => (
-                        <DealCard
-                          key={deal.id}
-                          deal={deal}
-                          stages={STAGES}
-                          currentStage={stage}
-                          onMoveToStage={moveDealToStage}
-                          isMoving={movingDeal === deal.id}
-                          formatCurrency={formatCurrency}
-                        />
-                      ))
-                    )}
-                  </div>
+                  stage={stage}
+                  stages={stages}
+                  deals={dealsByStage[stage.key] || []}
+                  totals={getStageTotals(dealsByStage[stage.key] || [])}
+                  onMoveToStage={moveDealToStage}
+                  movingDeal={movingDeal}
+                  formatCurrency={formatCurrency}
+                />
+              ))}
+            </div>
+
+            <DragOverlay>
+              {activeDeal ? (
+                <div className="w-72 rounded-box shadow-xl ring-2 ring-primary">
+                  <DealCard
+                    deal={activeDeal}
+                    stages={stages}
+                    currentStage={stages.find(s => s.key === activeDeal.stage) ?? stages[0]}
+                    onMoveToStage={() => {}}
+                    isMoving={false}
+                    formatCurrency={formatCurrency}
+                  />
                 </div>
-              )
-            })}
-          </div>
+              ) : null}
+            </DragOverlay>
+          </DndContext>
         )}
 
         {/* Empty state */}
@@ -360,7 +469,7 @@ export default function DealsPage() {
             <h3 className="text-lg font-medium text-base-content mb-2">No deals yet</h3>
             <p className="text-base-content/60 mb-4">Create your first deal to start tracking your sales pipeline</p>
             <button
-              onClick={() => openModal(MODAL_NAMES.CREATE_DEAL)}
+              onClick={openCreateDeal}
               className="btn btn-primary gap-2"
             >
               <Plus className="w-4 h-4" />
@@ -368,33 +477,137 @@ export default function DealsPage() {
             </button>
           </div>
         )}
+
+        <PipelineEditorModal
+          isOpen={showPipelineEditor}
+          pipelineId={selectedPipelineId}
+          onClose={() => setShowPipelineEditor(false)}
+          onSaved={(pipeline) => {
+            selectPipeline(pipeline.id)
+            fetchStats()
+          }}
+        />
       </div>
     </Layout>
   )
 }
 
+// Stage Column Component
+interface StageColumnProps {
+  stage: DealPipelineStage
+  stages: DealPipelineStage[]
+  deals: Deal[]
+  totals: { count: number; value: number }
+  onMoveToStage: (dealId: string, stage: string) => void
+  movingDeal: string | null
+  formatCurrency: (value: number | null, currency?: string) => string
+}
+
+function StageColumn({ stage, stages, deals, totals, onMoveToStage, movingDeal, formatCurrency }: StageColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `stage-${stage.key}`,
+    data: { type: 'stage', stage },
+  })
+
+  const style = getStageStyle(stage.color)
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-col bg-base-200 rounded-lg min-h-[400px] w-72 flex-shrink-0 transition-all ${
+        isOver ? 'ring-2 ring-primary bg-primary/5' : ''
+      }`}
+    >
+      {/* Stage Header */}
+      <div className={`p-3 border-b border-base-300 ${style.bg}`}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {stage.is_won && <Trophy className={`w-4 h-4 ${style.text}`} />}
+            {stage.is_lost && <XCircle className={`w-4 h-4 ${style.text}`} />}
+            <h3 className={`font-medium ${style.text}`}>{stage.name}</h3>
+          </div>
+          <span className="badge badge-ghost badge-sm">{totals.count}</span>
+        </div>
+        <p className="text-xs text-base-content/60 mt-1">
+          {formatCurrency(totals.value)} • {stage.probability}%
+        </p>
+      </div>
+
+      {/* Deals List */}
+      <div className="flex-1 p-2 space-y-2 overflow-y-auto">
+        <SortableContext items={deals.map(d => d.id)} strategy={verticalListSortingStrategy}>
+          {deals.length === 0 ? (
+            <p className="text-center text-base-content/40 py-8 text-sm">
+              {isOver ? 'Drop here' : 'No deals'}
+            </p>
+          ) : (
+            deals.map((deal) => (
+              <SortableDealCard
+                key={deal.id}
+                deal={deal}
+                stages={stages}
+                currentStage={stage}
+                onMoveToStage={onMoveToStage}
+                isMoving={movingDeal === deal.id}
+                formatCurrency={formatCurrency}
+              />
+            ))
+          )}
+        </SortableContext>
+      </div>
+    </div>
+  )
+}
+
 // Deal Card Component
 interface DealCardProps {
   deal: Deal
-  stages: Stage[]
-  currentStage: Stage
+  stages: DealPipelineStage[]
+  currentStage: DealPipelineStage
   onMoveToStage: (dealId: string, stage: string) => void
   isMoving: boolean
   formatCurrency: (value: number | null, currency?: string) => string
 }
 
+function SortableDealCard(props: DealCardProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: props.deal.id,
+    data: { type: 'deal', deal: props.deal },
+  })
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  }
+
+  return (
+    <div ref={setNodeRef} style={style} {...attributes} {...listeners} className="touch-none">
+      <DealCard {...props} />
+    </div>
+  )
+}
+
 function DealCard({ deal, stages, currentStage, onMoveToStage, isMoving, formatCurrency }: DealCardProps) {
   const [showActions, setShowActions] = useState(false)
   
   const availableStages = stages.filter(s => s.key !== currentStage.key)
+  const currentStyle = getStageStyle(currentStage.color)
 
   return (
     <div className="card bg-base-100 shadow-sm border border-base-300 hover:border-primary/30 transition-colors">
       <div className="p-3">
         <div className="flex items-start justify-between gap-2">
-          <h4 className="font-medium text-sm text-base-content line-clamp-2">{deal.title}</h4>
+          <Link to={`/deals/${deal.id}`} className="font-medium text-sm text-base-content line-clamp-2 hover:text-primary">
+            {deal.title}
+          </Link>
           
-          <div className="dropdown dropdown-end">
+          {/* Keep menu interaction from starting a drag */}
+          <div
+            className="dropdown dropdown-end"
+            onPointerDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+          >
             <button
               tabIndex={0}
               className="btn btn-ghost btn-xs btn-square"
@@ -412,7 +625,7 @@ function DealCard({ deal, stages, currentStage, onMoveToStage, isMoving, formatC
                 <li key={stage.key}>
                   <button
                     onClick={() => onMoveToStage(deal.id, stage.key)}
-                    className={`text-sm ${stage.color}`}
+                    className={`text-sm ${getStageStyle(stage.color).text}`}
                   >
                     <ArrowRight className="w-3 h-3" />
                     {stage.name}
@@ -421,10 +634,10 @@ function DealCard({ deal, stages, currentStage, onMoveToStage, isMoving, formatC
               ))}
               <div className="divider my-1"></div>
               <li>
-                <button className="text-sm">
+                <Link to={`/deals/${deal.id}`} className="text-sm">
                   <User className="w-3 h-3" />
                   View Details
-                </button>
+                </Link>
               </li>
             </ul>
           </div>
@@ -457,11 +670,11 @@ function DealCard({ deal, stages, currentStage, onMoveToStage, isMoving, formatC
         <div className="mt-2">
           <div className="flex items-center justify-between text-xs mb-1">
             <span className="text-base-content/50">Probability</span>
-            <span className={currentStage.color}>{deal.probability}%</span>
+            <span className={currentStyle.text}>{deal.probability}%</span>
           </div>
           <div className="w-full bg-base-300 rounded-full h-1">
             <div
-              className={`h-1 rounded-full ${currentStage.key === 'closed_won' ? 'bg-success' : currentStage.key === 'closed_lost' ? 'bg-error' : 'bg-primary'}`}
+              className={`h-1 rounded-full ${currentStage.is_won ? 'bg-success' : currentStage.is_lost ? 'bg-error' : currentStyle.bar}`}
               style={{ width: `${deal.probability}%` }}
             />
           </div>
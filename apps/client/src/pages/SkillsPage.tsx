@@ -14,6 +14,7 @@ import {
 import { useSkillsStore, type Skill } from '../stores/skills'
 import SkillSettingsModal from '../components/modals/SkillSettingsModal'
 import SkillFormModal from '../components/modals/SkillFormModal'
+import { Can } from '../components/AuthGuard'
 import Layout from '../components/Layout'
 
 // Category icons and colors
@@ -248,13 +249,15 @@ export default function SkillsPage() {
             </p>
           </div>
 
-          <button
-            className="btn btn-primary gap-2"
-            onClick={() => openFormModal()}
-          >
-            <PlusIcon className="w-5 h-5" />
-            Create Custom Skill
-          </button>
+          <Can action="manage" resource="skills">
+            <button
+              className="btn btn-primary gap-2"
+              onClick={() => openFormModal()}
+            >
+              <PlusIcon className="w-5 h-5" />
+              Create Custom Skill
+            </button>
+          </Can>
         </div>
 
         {/* Search and filters */}
@@ -0,0 +1,405 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Send,
+  CheckCircle,
+  XCircle,
+  Timer,
+  DollarSign,
+  Users,
+} from 'lucide-react'
+import Layout from '../components/Layout'
+import { useAuthStore } from '../stores/auth'
+import { useTimeTrackingStore } from '../stores/timeTracking'
+import { usePermissions } from '../hooks/usePermissions'
+import { formatDuration, toDateInput, weekStart } from '../lib/duration'
+import type { TeamTimesheet, TimesheetStatus, TimesheetWeek } from '../types/timeTracking'
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const STATUS_BADGES: Record<TimesheetStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'badge-ghost' },
+  submitted: { label: 'Awaiting approval', className: 'badge-warning' },
+  approved: { label: 'Approved', className: 'badge-success' },
+  rejected: { label: 'Changes requested', className: 'badge-error' },
+}
+
+// Dates are handled as local YYYY-MM-DD strings to avoid timezone drift
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map(Number)
+  return toDateInput(new Date(year, month - 1, day + days))
+}
+
+const formatDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+export default function TimesheetPage() {
+  const { user, company } = useAuthStore()
+  const { can } = usePermissions()
+  const canReview = can('manage', 'timesheets')
+  const {
+    runningEntry,
+    fetchTimesheet,
+    fetchTeamTimesheets,
+    submitTimesheet,
+    approveTimesheet,
+    rejectTimesheet,
+    updateEntry,
+  } = useTimeTrackingStore()
+
+  const [week, setWeek] = useState(() => weekStart())
+  const [userId, setUserId] = useState<string | undefined>(undefined)
+  const [sheet, setSheet] = useState<TimesheetWeek | null>(null)
+  const [team, setTeam] = useState<TeamTimesheet[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showReject, setShowReject] = useState(false)
+  const [rejectNote, setRejectNote] = useState('')
+
+  const viewingSelf = !userId || userId === user?.id
+
+  const loadSheet = useCallback(async () => {
+    if (!company?.id) return
+    setIsLoading(true)
+    setError(null)
+    const result = await fetchTimesheet(week, userId)
+    if (result.success && result.data) {
+      setSheet(result.data)
+    } else {
+      setError(result.error || null)
+    }
+    setIsLoading(false)
+  }, [company?.id, fetchTimesheet, week, userId])
+
+  const loadTeam = useCallback(async () => {
+    if (!company?.id || !canReview) return
+    const result = await fetchTeamTimesheets(week)
+    if (result.success) setTeam(result.data || [])
+  }, [company?.id, canReview, fetchTeamTimesheets, week])
+
+  // Also reloads when a timer is started or stopped from the header
+  const runningEntryId = runningEntry?.id
+  useEffect(() => {
+    loadSheet()
+  }, [loadSheet, runningEntryId])
+
+  useEffect(() => {
+    loadTeam()
+  }, [loadTeam])
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setIsSaving(true)
+    setError(null)
+    const result = await action()
+    if (!result.success) setError(result.error || null)
+    await Promise.all([loadSheet(), loadTeam()])
+    setIsSaving(false)
+  }
+
+  const handleReject = async () => {
+    if (!sheet?.timesheet.id) return
+    const timesheetId = sheet.timesheet.id
+    setShowReject(false)
+    await runAction(() => rejectTimesheet(timesheetId, rejectNote.trim() || undefined))
+    setRejectNote('')
+  }
+
+  const timesheet = sheet?.timesheet
+  const isLocked = timesheet?.status === 'submitted' || timesheet?.status === 'approved'
+  const status = STATUS_BADGES[timesheet?.status ?? 'open']
+  const days = DAY_LABELS.map((label, index) => ({ label, date: addDays(week, index) }))
+  const isCurrentWeek = week === weekStart()
+
+  const entriesByDay = days
+    .map((day) => ({
+      ...day,
+      // Bucketed by UTC date, like the server's daily totals
+      entries: (sheet?.entries ?? []).filter((entry) => entry.started_at.slice(0, 10) === day.date),
+    }))
+    .filter((day) => day.entries.length > 0)
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-base-content">Timesheets</h1>
+            <p className="text-base-content/60 mt-1">Weekly time by project, billable hours and approvals</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {canReview && team.length > 0 && (
+              <select
+                value={userId ?? user?.id ?? ''}
+                onChange={(e) => setUserId(e.target.value === user?.id ? undefined : e.target.value)}
+                className="select select-bordered"
+              >
+                {team.map((member) => (
+                  <option key={member.user.id} value={member.user.id}>
+                    {member.user.name}{member.user.id === user?.id ? ' (you)' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="join">
+              <button onClick={() => setWeek(addDays(week, -7))} className="btn join-item" title="Previous week">
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button onClick={() => setWeek(weekStart())} className="btn join-item" disabled={isCurrentWeek}>
+                {formatDay(week)} – {formatDay(addDays(week, 6))}
+              </button>
+              <button onClick={() => setWeek(addDays(week, 7))} className="btn join-item" title="Next week">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="alert alert-error">
+            <XCircle className="w-5 h-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Status & Actions */}
+        <div className="card bg-base-200">
+          <div className="card-body p-4 flex-row flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-6">
+              <div>
+                <div className="text-sm text-base-content/60">Total</div>
+                <div className="text-2xl font-semibold">{formatDuration(sheet?.totals.total_seconds ?? 0)}</div>
+              </div>
+              <div>
+                <div className="text-sm text-base-content/60">Billable</div>
+                <div className="text-2xl font-semibold text-success">
+                  {formatDuration(sheet?.totals.billable_seconds ?? 0)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-base-content/60 mb-1">Status</div>
+                <span className={`badge ${status.className}`}>{status.label}</span>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {viewingSelf && !isLocked && (
+                <button
+                  onClick={() => runAction(() => submitTimesheet(week))}
+                  disabled={isSaving || !sheet?.entries.length}
+                  className="btn btn-primary gap-2"
+                >
+                  {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  Submit for approval
+                </button>
+              )}
+              {canReview && timesheet?.status === 'submitted' && timesheet.id && (
+                <>
+                  <button onClick={() => setShowReject(true)} disabled={isSaving} className="btn btn-outline btn-error gap-2">
+                    <XCircle className="w-4 h-4" />
+                    Request changes
+                  </button>
+                  <button
+                    onClick={() => runAction(() => approveTimesheet(timesheet.id as string))}
+                    disabled={isSaving}
+                    className="btn btn-success gap-2"
+                  >
+                    <CheckCircle className="w-4 h-4" />
+                    Approve
+                  </button>
+                </>
+              )}
+            </div>
+            {timesheet?.reviewer && timesheet.reviewed_at && (
+              <div className="w-full text-sm text-base-content/70">
+                {timesheet.status === 'approved' ? 'Approved' : 'Returned'} by {timesheet.reviewer.name} on{' '}
+                {new Date(timesheet.reviewed_at).toLocaleDateString()}
+                {timesheet.review_note && <span className="block mt-1 italic">“{timesheet.review_note}”</span>}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {isLoading && !sheet ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {/* Week by Project */}
+            <div className="card bg-base-200">
+              <div className="card-body p-6">
+                <h2 className="text-lg font-semibold mb-2">Time by project</h2>
+                <div className="overflow-x-auto">
+                  <table className="table table-sm">
+                    <thead>
+                      <tr>
+                        <th>Project</th>
+                        {days.map((day) => (
+                          <th key={day.date} className="text-right">
+                            {day.label}
+                            <div className="font-normal text-base-content/50">{formatDay(day.date)}</div>
+                          </th>
+                        ))}
+                        <th className="text-right">Total</th>
+                        <th className="text-right">Billable</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sheet?.totals.projects.length ? (
+                        sheet.totals.projects.map((row) => (
+                          <tr key={row.project?.id ?? 'none'}>
+                            <td className="font-medium">{row.project?.name ?? 'No project'}</td>
+                            {row.days.map((seconds, index) => (
+                              <td key={index} className="text-right tabular-nums">
+                                {seconds ? formatDuration(seconds) : ''}
+                              </td>
+                            ))}
+                            <td className="text-right font-semibold tabular-nums">{formatDuration(row.total_seconds)}</td>
+                            <td className="text-right tabular-nums text-success">{formatDuration(row.billable_seconds)}</td>
+                          </tr>
+                        ))
+                      ) : (
+                        <tr>
+                          <td colSpan={10} className="text-center text-base-content/60 py-8">
+                            No time tracked this week. Start a timer from any task.
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                    {sheet && sheet.totals.projects.length > 0 && (
+                      <tfoot>
+                        <tr>
+                          <td>Total</td>
+                          {sheet.totals.days.map((seconds, index) => (
+                            <td key={index} className="text-right tabular-nums">{formatDuration(seconds)}</td>
+                          ))}
+                          <td className="text-right tabular-nums">{formatDuration(sheet.totals.total_seconds)}</td>
+                          <td className="text-right tabular-nums">{formatDuration(sheet.totals.billable_seconds)}</td>
+                        </tr>
+                      </tfoot>
+                    )}
+                  </table>
+                </div>
+              </div>
+            </div>
+
+            {/* Entries */}
+            {entriesByDay.length > 0 && (
+              <div className="card bg-base-200">
+                <div className="card-body p-6 space-y-4">
+                  <h2 className="text-lg font-semibold">Entries</h2>
+                  {entriesByDay.map((day) => (
+                    <div key={day.date}>
+                      <h3 className="text-sm font-medium text-base-content/70 mb-2">
+                        {day.label}, {formatDay(day.date)}
+                      </h3>
+                      <div className="space-y-2">
+                        {day.entries.map((entry) => (
+                          <div key={entry.id} className="bg-base-100 rounded-lg p-3 flex items-start gap-3">
+                            <Timer className="w-4 h-4 mt-0.5 text-base-content/50 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                              <div className="text-sm">
+                                <span className="font-medium">{entry.task?.title ?? 'Deleted task'}</span>
+                                <span className="text-base-content/60"> · {entry.project?.name}</span>
+                                {entry.is_running && <span className="badge badge-sm badge-primary ml-2">Running</span>}
+                              </div>
+                              {entry.notes && (
+                                <p className="text-sm text-base-content/70 mt-1 whitespace-pre-line">{entry.notes}</p>
+                              )}
+                            </div>
+                            <span className="font-mono text-sm tabular-nums">{formatDuration(entry.duration_seconds)}</span>
+                            <button
+                              onClick={() => runAction(() => updateEntry(entry.id, { is_billable: !entry.is_billable }))}
+                              disabled={!viewingSelf || isLocked || isSaving}
+                              className={`btn btn-ghost btn-xs btn-circle ${entry.is_billable ? 'text-success' : 'text-base-content/40'}`}
+                              title={entry.is_billable ? 'Billable' : 'Non-billable'}
+                            >
+                              <DollarSign className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Team Overview */}
+            {canReview && team.length > 0 && (
+              <div className="card bg-base-200">
+                <div className="card-body p-6">
+                  <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+                    <Users className="w-5 h-5" />
+                    Team this week
+                  </h2>
+                  <div className="overflow-x-auto">
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>Member</th>
+                          <th>Status</th>
+                          <th className="text-right">Total</th>
+                          <th className="text-right">Billable</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {team.map((member) => (
+                          <tr
+                            key={member.user.id}
+                            onClick={() => setUserId(member.user.id === user?.id ? undefined : member.user.id)}
+                            className={`cursor-pointer hover:bg-base-300 ${
+                              (userId ?? user?.id) === member.user.id ? 'bg-base-300' : ''
+                            }`}
+                          >
+                            <td className="font-medium">{member.user.name}</td>
+                            <td>
+                              <span className={`badge badge-sm ${STATUS_BADGES[member.status].className}`}>
+                                {STATUS_BADGES[member.status].label}
+                              </span>
+                            </td>
+                            <td className="text-right tabular-nums">{formatDuration(member.total_seconds)}</td>
+                            <td className="text-right tabular-nums">{formatDuration(member.billable_seconds)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Request Changes Modal */}
+      {showReject && (
+        <div className="modal modal-open">
+          <div className="modal-box bg-base-200">
+            <h3 className="font-bold text-lg mb-2">Request changes</h3>
+            <p className="text-sm text-base-content/70 mb-4">
+              The timesheet is reopened so {timesheet?.user?.name ?? 'its owner'} can correct it and submit again.
+            </p>
+            <textarea
+              value={rejectNote}
+              onChange={(e) => setRejectNote(e.target.value)}
+              placeholder="What needs to change? (optional)"
+              className="textarea textarea-bordered w-full"
+              rows={3}
+            />
+            <div className="modal-action">
+              <button onClick={() => setShowReject(false)} className="btn btn-ghost">Cancel</button>
+              <button onClick={handleReject} className="btn btn-error">Request changes</button>
+            </div>
+          </div>
+          <div className="modal-backdrop" onClick={() => setShowReject(false)} />
+        </div>
+      )}
+    </Layout>
+  )
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import {
+  ArrowLeftIcon,
+  BookOpenIcon,
+  MagnifyingGlassIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import Layout from '../../components/Layout';
+import { ClauseEditorModal } from '../../components/documents/ClauseEditorModal';
+import { useContractStore } from '../../stores/contracts';
+import { usePermissions } from '../../hooks/usePermissions';
+import type { ContractClause } from '../../types/documents';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+export default function ContractClausesPage() {
+  const navigate = useNavigate();
+  const { clauses, fetchClauses, deleteClause } = useContractStore();
+  const { can } = usePermissions();
+  const canCreate = can('create', 'templates');
+  const canEdit = can('update', 'templates');
+  const canDelete = can('delete', 'templates');
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [tag, setTag] = useState('');
+  const [editing, setEditing] = useState<ContractClause | 'new' | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchClauses()
+      .catch((err) => setError(errorMessage(err, 'Failed to load clauses')))
+      .finally(() => setIsFetching(false));
+  }, [fetchClauses]);
+
+  const tags = [...new Set(clauses.flatMap((clause) => clause.tags || []))].sort();
+  const term = searchTerm.trim().toLowerCase();
+  const filteredClauses = clauses.filter(
+    (clause) =>
+      (!tag || clause.tags?.includes(tag)) &&
+      (!term || clause.name.toLowerCase().includes(term) || clause.description?.toLowerCase().includes(term))
+  );
+
+  const handleDelete = async (clause: ContractClause) => {
+    const usage = clause.usage_count
+      ? ` It's used in ${clause.usage_count} template section(s), which will keep their current text.`
+      : '';
+    if (!confirm(`Delete "${clause.name}"?${usage}`)) return;
+
+    setDeletingId(clause.id);
+    try {
+      await deleteClause(clause.id);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete clause'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleCloseEditor = () => {
+    setEditing(null);
+    // Usage counts and linked templates may have changed
+    fetchClauses().catch((err) => console.error('Failed to refresh clauses:', err));
+  };
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div className="flex items-center gap-4">
+            <button onClick={() => navigate('/documents/contracts/templates')} className="btn btn-ghost btn-sm">
+              <ArrowLeftIcon className="w-4 h-4" />
+              Back
+            </button>
+            <div>
+              <h1 className="text-2xl font-semibold">Clause Library</h1>
+              <p className="text-base-content/70 mt-1">Reusable clauses for your contract templates</p>
+            </div>
+          </div>
+          {canCreate && (
+            <button className="btn btn-primary" onClick={() => setEditing('new')}>
+              <PlusIcon className="w-5 h-5" />
+              New Clause
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="alert alert-error">
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="card bg-base-200">
+          <div className="card-body p-4">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1 relative">
+                <MagnifyingGlassIcon className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-base-content/50" />
+                <input
+                  type="text"
+                  placeholder="Search clauses..."
+                  className="input input-bordered w-full pl-10"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <select className="select select-bordered" value={tag} onChange={(e) => setTag(e.target.value)}>
+                <option value="">All Tags</option>
+                {tags.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        {isFetching ? (
+          <div className="flex justify-center items-center py-12">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : filteredClauses.length === 0 ? (
+          <div className="card bg-base-200">
+            <div className="card-body items-center text-center py-12">
+              <BookOpenIcon className="w-16 h-16 text-base-content/30" />
+              <h3 className="text-xl font-semibold mt-4">No clauses found</h3>
+              <p className="text-base-content/70 mt-2">
+                {searchTerm || tag
+                  ? 'Try adjusting your filters'
+                  : 'Save confidentiality, IP and termination wording once and reuse it in every template'}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="card bg-base-200">
+            <div className="card-body p-0">
+              <div className="overflow-x-auto">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Clause</th>
+                      <th>Tags</th>
+                      <th>Version</th>
+                      <th>Used In</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredClauses.map((clause) => (
+                      <tr key={clause.id}>
+                        <td>
+                          <div className="font-medium">{clause.name}</div>
+                          {clause.description && (
+                            <div className="text-sm text-base-content/60 line-clamp-1">{clause.description}</div>
+                          )}
+                        </td>
+                        <td>
+                          <div className="flex flex-wrap gap-1">
+                            {clause.tags?.map((t) => (
+                              <span key={t} className="badge badge-outline badge-sm">
+                                {t}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td>
+                          <div>v{clause.version}</div>
+                          <div className="text-sm text-base-content/60">
+                            {new Date(clause.updated_at).toLocaleDateString()}
+                          </div>
+                        </td>
+                        <td>
+                          {clause.usage_count
+                            ? `${clause.usage_count} section${clause.usage_count === 1 ? '' : 's'}`
+                            : '—'}
+                        </td>
+                        <td className="text-right whitespace-nowrap">
+                          {canEdit && (
+                            <button className="btn btn-ghost btn-sm btn-square" onClick={() => setEditing(clause)} title="Edit">
+                              <PencilIcon className="w-4 h-4" />
+                            </button>
+                          )}
+                          {canDelete && (
+                            <button
+                              className="btn btn-ghost btn-sm btn-square text-error"
+                              onClick={() => handleDelete(clause)}
+                              disabled={deletingId === clause.id}
+                              title="Delete"
+                            >
+                              {deletingId === clause.id ? (
+                                <span className="loading loading-spinner loading-xs"></span>
+                              ) : (
+                                <TrashIcon className="w-4 h-4" />
+                              )}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {editing && <ClauseEditorModal clause={editing === 'new' ? null : editing} onClose={handleCloseEditor} />}
+    </Layout>
+  );
+}
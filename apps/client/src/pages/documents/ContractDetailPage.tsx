@@ -10,10 +10,23 @@ import {
   XCircleIcon,
   ClipboardDocumentIcon,
   DocumentArrowDownIcon,
+  ArrowPathIcon,
+  PencilSquareIcon,
+  BellAlertIcon,
 } from '@heroicons/react/24/outline';
+import axios from 'axios';
 import Layout from '../../components/Layout';
 import { useContractStore } from '../../stores/contracts';
+import { useInvoiceStore } from '../../stores/invoices';
+import { Can } from '../../components/AuthGuard';
 import { ContractStatusBadge } from '../../components/documents/ContractStatusBadge';
+import { contractSigningProgress } from '../../lib/contracts';
+import { SignatureCertificateCard } from '../../components/documents/SignatureCertificateCard';
+import { ContractSignersCard } from '../../components/documents/ContractSignersCard';
+import { ContractVersionDiff } from '../../components/documents/ContractVersionDiff';
+import { ContractCommentsCard } from '../../components/documents/ContractCommentsCard';
+import { ContractContentEditor } from '../../components/documents/ContractContentEditor';
+import { ContractRenewalCard } from '../../components/documents/ContractRenewalCard';
 import type { ContractEvent } from '../../types/documents';
 
 export default function ContractDetailPage() {
@@ -32,6 +45,10 @@ export default function ContractDetailPage() {
   const [isSending, setIsSending] = useState(false);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [isCreatingSchedule, setIsCreatingSchedule] = useState(false);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [isEditingContent, setIsEditingContent] = useState(false);
+  const createScheduleFromContract = useInvoiceStore((state) => state.createScheduleFromContract);
 
   useEffect(() => {
     if (id) {
@@ -54,6 +71,14 @@ export default function ContractDetailPage() {
     }
   };
 
+  const handleContentSaved = () => {
+    setIsEditingContent(false);
+    if (id) {
+      fetchContractById(id);
+      fetchContractEvents(id);
+    }
+  };
+
   const handleGeneratePdf = async () => {
     if (!id) return;
     setIsGeneratingPdf(true);
@@ -77,6 +102,23 @@ export default function ContractDetailPage() {
     window.open(contract.pdf_path, '_blank');
   };
 
+  const handleSetUpRecurringInvoices = async () => {
+    if (!id) return;
+    setIsCreatingSchedule(true);
+    setScheduleError(null);
+    try {
+      const schedule = await createScheduleFromContract(id);
+      navigate(`/documents/invoices/${schedule.template_invoice_id}`);
+    } catch (error) {
+      setScheduleError(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to set up recurring invoices'
+      );
+      setIsCreatingSchedule(false);
+    }
+  };
+
   const handleCopyLink = () => {
     if (!contract?.token) return;
     const link = `${window.location.origin}/public/contracts/${contract.token}`;
@@ -93,10 +135,20 @@ export default function ContractDetailPage() {
         return <PaperAirplaneIcon className="w-5 h-5 text-primary" />;
       case 'viewed':
         return <EyeIcon className="w-5 h-5 text-secondary" />;
+      case 'signer_signed':
       case 'signed':
         return <CheckCircleIcon className="w-5 h-5 text-success" />;
       case 'declined':
         return <XCircleIcon className="w-5 h-5 text-error" />;
+      case 'revised':
+        return <PencilSquareIcon className="w-5 h-5 text-warning" />;
+      case 'renewal_created':
+      case 'auto_renewed':
+        return <ArrowPathIcon className="w-5 h-5 text-success" />;
+      case 'renewal_notice':
+        return <BellAlertIcon className="w-5 h-5 text-warning" />;
+      case 'expired':
+        return <ClockIcon className="w-5 h-5 text-error" />;
       case 'pdf_generated':
         return <DocumentArrowDownIcon className="w-5 h-5 text-accent" />;
       default:
@@ -121,6 +173,11 @@ export default function ContractDetailPage() {
     );
   }
 
+  const signingProgress = contractSigningProgress(contract);
+  // The text is locked once anyone has signed
+  const canEditContent =
+    ['draft', 'sent', 'viewed'].includes(contract.status) && !contract.client_signed_at && !signingProgress?.signed;
+
   return (
     <Layout>
       <div className="p-6 space-y-6">
@@ -136,13 +193,18 @@ export default function ContractDetailPage() {
           <div>
               <div className="flex items-center gap-3 flex-wrap">
                 <h1 className="text-2xl font-semibold">{contract.title}</h1>
-                <ContractStatusBadge status={contract.status} />
+                <ContractStatusBadge status={contract.status} progress={signingProgress} />
               </div>
             <p className="text-sm text-base-content/70 mt-1">{contract.contract_number}</p>
           </div>
         </div>
           
           <div className="flex items-center gap-2 flex-wrap">
+          {canEditContent && (
+              <button onClick={() => setIsEditingContent(true)} className="btn btn-ghost btn-sm">
+                <PencilSquareIcon className="w-4 h-4" /> Edit
+              </button>
+          )}
           {contract.status === 'draft' && (
               <button 
                 onClick={handleSendContract} 
@@ -175,9 +237,31 @@ export default function ContractDetailPage() {
                 <ArrowDownTrayIcon className="w-4 h-4" /> Download PDF
             </button>
           )}
+            {contract.contract_type === 'subscription' && (
+              <Can action="create" resource="invoices">
+                <button
+                  onClick={handleSetUpRecurringInvoices}
+                  disabled={isCreatingSchedule}
+                  className="btn btn-ghost btn-sm"
+                >
+                  {isCreatingSchedule ? (
+                    <span className="loading loading-spinner loading-xs"></span>
+                  ) : (
+                    <ArrowPathIcon className="w-4 h-4" />
+                  )}
+                  Set Up Recurring Invoices
+                </button>
+              </Can>
+            )}
         </div>
       </div>
 
+      {scheduleError && (
+        <div className="alert alert-error">
+          <span>{scheduleError}</span>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
@@ -260,8 +344,26 @@ export default function ContractDetailPage() {
             </div>
           )}
 
-          {/* Public Link */}
-          {contract.token && contract.status !== 'draft' && (
+          {/* Client change requests */}
+          <ContractCommentsCard contractId={contract.id} />
+
+          {/* Revisions */}
+          <ContractVersionDiff contractId={contract.id} refreshKey={contract.updated_at} />
+
+          {/* Signers */}
+          <ContractSignersCard key={`${contract.id}-${contract.status}`} contract={contract} />
+
+          {/* Signature evidence */}
+          {(contract.client_signed_at || signingProgress?.signed) && (
+            <SignatureCertificateCard
+              key={`${contract.client_signed_at}-${signingProgress?.signed}`}
+              contractId={contract.id}
+              contractNumber={contract.contract_number}
+            />
+          )}
+
+          {/* Public Link; contracts with signers use each signer's own link */}
+          {contract.token && contract.status !== 'draft' && !contract.signers?.length && (
               <div className="card bg-base-200">
                 <div className="card-body p-6">
                   <h2 className="text-lg font-semibold mb-4">Public Signing Link</h2>
@@ -288,8 +390,12 @@ export default function ContractDetailPage() {
           )}
         </div>
 
-        {/* Sidebar - Event Timeline */}
+        {/* Sidebar - Renewal and Event Timeline */}
         <div className="space-y-6">
+          <Can action="update" resource="contracts">
+            <ContractRenewalCard key={contract.id} contract={contract} />
+          </Can>
+
             <div className="card bg-base-200">
               <div className="card-body p-6">
                 <h2 className="text-lg font-semibold mb-4">Activity Timeline</h2>
@@ -321,6 +427,13 @@ export default function ContractDetailPage() {
       </div>
     </div>
       </div>
+      {isEditingContent && (
+        <ContractContentEditor
+          contract={contract}
+          onClose={() => setIsEditingContent(false)}
+          onSaved={handleContentSaved}
+        />
+      )}
     </Layout>
   );
 }
@@ -14,6 +14,8 @@ import {
   XMarkIcon,
   ArrowUturnLeftIcon,
   ArrowUturnRightIcon,
+  FunnelIcon,
+  BookOpenIcon,
 } from '@heroicons/react/24/outline';
 import {
   DndContext,
@@ -35,8 +37,13 @@ import { CSS } from '@dnd-kit/utilities';
 import Layout from '../../components/Layout';
 import { TiptapEditor, TiptapEditorHandle } from '../../components/documents/TiptapEditor';
 import { MergeFieldPicker } from '../../components/documents/MergeFieldPicker';
+import { SectionLogicEditor } from '../../components/documents/SectionLogicEditor';
+import { CustomMergeFieldForm } from '../../components/documents/CustomMergeFieldForm';
+import { ClausePickerModal } from '../../components/documents/ClausePickerModal';
+import { FIELD_TYPES } from '../../components/documents/mergeFields';
 import { useContractStore } from '../../stores/contracts';
-import type { TemplateSection, MergeField } from '../../types/documents';
+import { applySectionLogic, conditionValues, describeSectionLogic, isSectionVisible } from '../../lib/sectionLogic';
+import type { Contract, ContractClause, CustomMergeFieldInput, TemplateSection, MergeField } from '../../types/documents';
 
 const SECTION_TYPES = [
   { type: 'heading', label: 'Heading', icon: DocumentTextIcon, description: 'Large section title' },
@@ -45,6 +52,23 @@ const SECTION_TYPES = [
   { type: 'signature', label: 'Signature', icon: PencilSquareIcon, description: 'Signature block for signing' },
 ] as const;
 
+// Sample pricing the preview evaluates conditions and repeatable blocks against
+const PREVIEW_PRICING = {
+  amount: 12000,
+  currency: 'USD',
+  interval: 'monthly',
+  period: 12,
+  milestones: [
+    { name: 'Discovery', amount: 3000, due_date: 'Week 2' },
+    { name: 'Build', amount: 6000, due_date: 'Week 8' },
+    { name: 'Launch', amount: 3000, due_date: 'Week 10' },
+  ],
+  line_items: [
+    { description: 'Design', quantity: 20, unit_price: 150, amount: 3000 },
+    { description: 'Development', quantity: 60, unit_price: 150, amount: 9000 },
+  ],
+};
+
 // Editable Table Component
 interface TableEditorProps {
   rows: number;
@@ -170,9 +194,10 @@ interface ParagraphSectionProps {
   content: string;
   onChange: (html: string) => void;
   autoFocus?: boolean;
+  mergeFields: MergeField[];
 }
 
-function ParagraphSection({ content, onChange, autoFocus }: ParagraphSectionProps) {
+function ParagraphSection({ content, onChange, autoFocus, mergeFields }: ParagraphSectionProps) {
   const editorRef = useRef<TiptapEditorHandle>(null);
 
   const handleInsertMergeField = (field: { key: string; label: string }) => {
@@ -196,7 +221,7 @@ function ParagraphSection({ content, onChange, autoFocus }: ParagraphSectionProp
   return (
     <div className="relative">
       <div className="absolute right-0 -top-1 z-10">
-        <MergeFieldPicker onSelect={handleInsertMergeField} />
+        <MergeFieldPicker onSelect={handleInsertMergeField} fields={mergeFields} />
       </div>
       <TiptapEditor
         ref={editorRef}
@@ -213,15 +238,23 @@ interface SortableSectionProps {
   onUpdate: (id: string, content: any) => void;
   onDelete: (id: string) => void;
   onChangeType: (id: string, newType: TemplateSection['type']) => void;
+  onUpdateLogic: (id: string, logic: Pick<TemplateSection, 'conditions' | 'condition_match' | 'repeat'>) => void;
   onAddBelow: (id: string) => void;
   onAiWrite?: (id: string) => void;
   shouldFocus?: boolean;
   onFocused?: () => void;
+  mergeFields: MergeField[];
+  /** Library version of the section's clause, if it came from one */
+  latestClauseVersion?: number;
+  onClauseAction: (id: string, action: 'detach' | 'update') => void;
 }
 
-function SortableSection({ section, onUpdate, onDelete, onChangeType, onAddBelow, onAiWrite, shouldFocus, onFocused }: SortableSectionProps) {
+function SortableSection({ section, onUpdate, onDelete, onChangeType, onUpdateLogic, onAddBelow, onAiWrite, shouldFocus, onFocused, mergeFields, latestClauseVersion, onClauseAction }: SortableSectionProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [showTypeMenu, setShowTypeMenu] = useState(false);
+  const [showLogic, setShowLogic] = useState(false);
+  const logicLabels = describeSectionLogic(section);
+  const clauseOutdated = !!section.clause && !!latestClauseVersion && section.clause.version < latestClauseVersion;
   const headingInputRef = useRef<HTMLInputElement>(null);
 
   // Auto-focus when this section should be focused
@@ -302,7 +335,7 @@ function SortableSection({ section, onUpdate, onDelete, onChangeType, onAddBelow
           isHovered ? 'opacity-100' : 'opacity-0'
         }`}>
           {/* AI write button (heading/paragraph only) */}
-          {(section.type === 'heading' || section.type === 'paragraph') && onAiWrite && (
+          {(section.type === 'heading' || section.type === 'paragraph') && onAiWrite && !section.clause?.linked && (
             <button
               onClick={() => onAiWrite(section.id)}
               className="p-1.5 bg-base-300 hover:bg-secondary/20 hover:text-secondary rounded transition-colors"
@@ -313,6 +346,18 @@ function SortableSection({ section, onUpdate, onDelete, onChangeType, onAddBelow
             </button>
           )}
 
+          {/* Conditions and repeat */}
+          <button
+            onClick={() => setShowLogic(!showLogic)}
+            className={`p-1.5 bg-base-300 hover:bg-primary/20 hover:text-primary rounded transition-colors ${
+              showLogic || logicLabels.length > 0 ? 'text-primary' : ''
+            }`}
+            title="Conditions and repeat"
+            type="button"
+          >
+            <FunnelIcon className="w-3.5 h-3.5" />
+          </button>
+
           {/* Type selector */}
           <div className="relative">
             <button
@@ -361,6 +406,16 @@ function SortableSection({ section, onUpdate, onDelete, onChangeType, onAddBelow
 
         {/* Content area */}
         <div className="py-2 px-1">
+          {logicLabels.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-1">
+              {logicLabels.map((label) => (
+                <span key={label} className="badge badge-primary badge-outline badge-sm">
+                  {label}
+                </span>
+              ))}
+            </div>
+          )}
+
           {section.type === 'heading' && (
             <input
               ref={headingInputRef}
@@ -372,13 +427,43 @@ function SortableSection({ section, onUpdate, onDelete, onChangeType, onAddBelow
             />
           )}
 
-          {section.type === 'paragraph' && (
+          {section.clause && (
+            <div className="flex flex-wrap items-center gap-1 mb-1">
+              <span className="badge badge-secondary badge-outline badge-sm gap-1">
+                <BookOpenIcon className="w-3 h-3" />
+                {section.clause.name} v{section.clause.version} · {section.clause.linked ? 'Linked' : 'Copy'}
+              </span>
+              {clauseOutdated && (
+                <span className="badge badge-warning badge-sm">v{latestClauseVersion} available</span>
+              )}
+              {clauseOutdated && (
+                <button type="button" className="btn btn-ghost btn-xs" onClick={() => onClauseAction(section.id, 'update')}>
+                  Update
+                </button>
+              )}
+              {section.clause.linked && (
+                <button type="button" className="btn btn-ghost btn-xs" onClick={() => onClauseAction(section.id, 'detach')}>
+                  Detach to edit
+                </button>
+              )}
+            </div>
+          )}
+
+          {section.type === 'paragraph' && (section.clause?.linked ? (
+            <div
+              className="prose prose-sm max-w-none text-base-content min-h-[40px]"
+              dangerouslySetInnerHTML={{ __html: section.content?.html || '' }}
+            />
+          ) : (
             <ParagraphSection
+              // Remount when a clause update replaces the text
+              key={section.clause ? `${section.clause.id}-${section.clause.version}` : 'paragraph'}
               content={section.content?.html || ''}
               onChange={(html) => onUpdate(section.id, { html })}
               autoFocus={shouldFocus}
+              mergeFields={mergeFields}
             />
-          )}
+          ))}
 
           {section.type === 'table' && (
             <TableEditor
@@ -429,6 +514,10 @@ function SortableSection({ section, onUpdate, onDelete, onChangeType, onAddBelow
               </div>
             </div>
           )}
+
+          {showLogic && (
+            <SectionLogicEditor section={section} onChange={(logic) => onUpdateLogic(section.id, logic)} />
+          )}
         </div>
       </div>
 
@@ -443,7 +532,15 @@ function SortableSection({ section, onUpdate, onDelete, onChangeType, onAddBelow
 }
 
 // Add block menu component
-function AddBlockMenu({ onAdd, className = '' }: { onAdd: (type: TemplateSection['type']) => void; className?: string }) {
+function AddBlockMenu({
+  onAdd,
+  onInsertClause,
+  className = '',
+}: {
+  onAdd: (type: TemplateSection['type']) => void;
+  onInsertClause?: () => void;
+  className?: string;
+}) {
   const [isOpen, setIsOpen] = useState(false);
   
   return (
@@ -481,6 +578,28 @@ function AddBlockMenu({ onAdd, className = '' }: { onAdd: (type: TemplateSection
                 </div>
               </button>
             ))}
+            {onInsertClause && (
+              <>
+                <div className="px-3 py-1.5 mt-1 text-xs font-semibold text-base-content/50 uppercase border-t border-base-300">
+                  Clause Library
+                </div>
+                <button
+                  onClick={() => {
+                    onInsertClause();
+                    setIsOpen(false);
+                  }}
+                  className="w-full flex items-start gap-3 px-3 py-2.5 hover:bg-base-300 transition-colors text-left"
+                >
+                  <div className="w-8 h-8 rounded bg-base-300 flex items-center justify-center flex-shrink-0">
+                    <BookOpenIcon className="w-4 h-4 text-base-content/70" />
+                  </div>
+                  <div>
+                    <div className="font-medium">Clause</div>
+                    <div className="text-xs text-base-content/50">Reuse a saved clause</div>
+                  </div>
+                </button>
+              </>
+            )}
           </div>
         </>
       )}
@@ -501,11 +620,16 @@ export default function ContractTemplateBuilderPage() {
     generateContractSectionWithAI,
     pendingAISections,
     setPendingAISections,
+    mergeFields,
+    fetchMergeFields,
+    clauses,
+    fetchClauses,
     isLoading: isSaving 
   } = useContractStore();
 
   const [isLoading, setIsLoading] = useState(!isNew);
   const [showPreview, setShowPreview] = useState(false);
+  const [previewContractType, setPreviewContractType] = useState<Contract['contract_type'] | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [focusedSectionId, setFocusedSectionId] = useState<string | null>(null);
   
@@ -540,6 +664,24 @@ export default function ContractTemplateBuilderPage() {
   });
 
   const [sections, setSections] = useState<TemplateSection[]>([]);
+  // Merge fields that only this template uses, saved in merge_fields
+  const [templateFields, setTemplateFields] = useState<MergeField[]>([]);
+  const pickerFields = [...mergeFields, ...templateFields];
+
+  useEffect(() => {
+    fetchMergeFields().catch((err) => console.error('Failed to load merge fields:', err));
+  }, [fetchMergeFields]);
+
+  // Clause library, for inserting clauses and spotting outdated ones
+  const [showClausePicker, setShowClausePicker] = useState(false);
+  const clauseVersions = Object.fromEntries(clauses.map((clause) => [clause.id, clause.version]));
+  const outdatedClauseCount = sections.filter(
+    (section) => section.clause && (clauseVersions[section.clause.id] ?? 0) > section.clause.version
+  ).length;
+
+  useEffect(() => {
+    fetchClauses().catch((err) => console.error('Failed to load clauses:', err));
+  }, [fetchClauses]);
 
   // Undo/Redo history (max 10 steps)
   const MAX_HISTORY = 10;
@@ -668,6 +810,7 @@ export default function ContractTemplateBuilderPage() {
         is_active: template.is_active,
       });
       setSections(template.sections || []);
+      setTemplateFields((template.merge_fields || []).filter((field) => field.source === 'template'));
       setLastSavedAt(new Date(template.updated_at));
     } catch (error) {
       console.error('Failed to load template:', error);
@@ -713,6 +856,28 @@ export default function ContractTemplateBuilderPage() {
     return fields;
   }, []);
 
+  // Template fields first, then any other field the text uses
+  const buildMergeFields = useCallback(
+    (sectionsList: TemplateSection[]): MergeField[] => [
+      ...templateFields,
+      ...extractMergeFields(sectionsList).filter(
+        (field) => !field.key.startsWith('item.') && !templateFields.some((f) => f.key === field.key)
+      ),
+    ],
+    [templateFields, extractMergeFields]
+  );
+
+  const handleAddTemplateField = (data: CustomMergeFieldInput) => {
+    setTemplateFields((current) => [...current, { ...data, source: 'template' }]);
+    setHasUnsavedChanges(true);
+    return true;
+  };
+
+  const handleRemoveTemplateField = (key: string) => {
+    setTemplateFields((current) => current.filter((field) => field.key !== key));
+    setHasUnsavedChanges(true);
+  };
+
   // Auto-save function
   const performAutoSave = useCallback(async () => {
     // Don't save if no name or no changes
@@ -732,7 +897,7 @@ export default function ContractTemplateBuilderPage() {
       const data = {
         ...formData,
         sections,
-        merge_fields: extractMergeFields(sections),
+        merge_fields: buildMergeFields(sections),
       };
 
       if (templateId) {
@@ -754,7 +919,7 @@ export default function ContractTemplateBuilderPage() {
     } finally {
       setIsSavingAuto(false);
     }
-  }, [formData, sections, hasUnsavedChanges, templateId, isSavingAuto, isSaving, createTemplate, updateTemplate, extractMergeFields]);
+  }, [formData, sections, hasUnsavedChanges, templateId, isSavingAuto, isSaving, createTemplate, updateTemplate, buildMergeFields]);
 
   // Mark as having unsaved changes when formData or sections change
   useEffect(() => {
@@ -904,6 +1069,11 @@ export default function ContractTemplateBuilderPage() {
     }
   };
 
+  const previewType = previewContractType || formData.default_contract_type;
+  const previewContext = { contractType: previewType, pricingData: PREVIEW_PRICING };
+  const previewSections = applySectionLogic(sections, previewContext);
+  const shownBlockCount = sections.filter((section) => isSectionVisible(section, conditionValues(previewContext))).length;
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     if (over && active.id !== over.id) {
@@ -952,6 +1122,11 @@ export default function ContractTemplateBuilderPage() {
     ));
   };
 
+  const handleUpdateSectionLogic = (id: string, logic: Pick<TemplateSection, 'conditions' | 'condition_match' | 'repeat'>) => {
+    updateSections((prev) => prev.map((s) => (s.id === id ? { ...s, ...logic } : s)));
+    setHasUnsavedChanges(true);
+  };
+
   const handleDeleteSection = (id: string) => {
     updateSections((prev) => prev.filter((s) => s.id !== id));
     setHasUnsavedChanges(true);
@@ -959,11 +1134,55 @@ export default function ContractTemplateBuilderPage() {
 
   const handleChangeType = (id: string, newType: TemplateSection['type']) => {
     updateSections((prev) => prev.map((s) => 
-      s.id === id ? { ...s, type: newType, content: {} } : s
+      s.id === id ? { ...s, type: newType, content: {}, clause: undefined } : s
     ));
     setHasUnsavedChanges(true);
   };
 
+  const handleInsertClause = (clause: ContractClause, linked: boolean) => {
+    setShowClausePicker(false);
+    if (requireName()) {
+      return;
+    }
+
+    const newSectionId = `section-${Date.now()}`;
+    updateSections((prev) => [
+      ...prev,
+      {
+        id: newSectionId,
+        type: 'paragraph',
+        content: { html: clause.html },
+        order: prev.length,
+        clause: { id: clause.id, name: clause.name, version: clause.version, linked },
+      },
+    ]);
+    setHasUnsavedChanges(true);
+  };
+
+  const handleClauseAction = (id: string, action: 'detach' | 'update') => {
+    const section = sections.find((s) => s.id === id);
+    if (!section?.clause) return;
+
+    if (action === 'detach') {
+      updateSections((prev) => prev.map((s) => (s.id === id && s.clause ? { ...s, clause: { ...s.clause, linked: false } } : s)));
+      setHasUnsavedChanges(true);
+      return;
+    }
+
+    const clause = clauses.find((c) => c.id === section.clause?.id);
+    if (!clause) return;
+    if (!section.clause.linked && !confirm(`Replace this copy with version ${clause.version} of "${clause.name}"? Changes made to the copy will be lost.`)) {
+      return;
+    }
+
+    updateSections((prev) => prev.map((s) => (s.id === id && s.clause ? {
+      ...s,
+      content: { ...s.content, html: clause.html },
+      clause: { ...s.clause, name: clause.name, version: clause.version },
+    } : s)));
+    setHasUnsavedChanges(true);
+  };
+
   const handleGenerateWithAI = async () => {
     // Require name before generating
     if (requireName()) {
@@ -1020,7 +1239,7 @@ export default function ContractTemplateBuilderPage() {
       const data = {
         ...formData,
         sections,
-        merge_fields: extractMergeFields(sections),
+        merge_fields: buildMergeFields(sections),
       };
 
       if (templateId) {
@@ -1252,6 +1471,42 @@ export default function ContractTemplateBuilderPage() {
                 </p>
               </div>
             </div>
+
+            <div className="card bg-base-200">
+              <div className="card-body p-5">
+                <h2 className="font-semibold mb-1">Template Fields</h2>
+                <p className="text-xs text-base-content/50 mb-3">
+                  Merge fields only this template uses. Anything without a default is asked for when creating a contract.
+                </p>
+                {templateFields.length > 0 && (
+                  <ul className="space-y-1 mb-3">
+                    {templateFields.map((field) => (
+                      <li key={field.key} className="flex items-center justify-between gap-2 text-sm">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">{field.label}</div>
+                          <div className="text-xs text-base-content/60 font-mono truncate">
+                            {`{{${field.key}}}`} · {FIELD_TYPES[field.type]}
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          className="btn btn-ghost btn-xs btn-square"
+                          onClick={() => handleRemoveTemplateField(field.key)}
+                          aria-label="Remove field"
+                        >
+                          <XMarkIcon className="w-3.5 h-3.5" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <CustomMergeFieldForm
+                  onSubmit={handleAddTemplateField}
+                  existingKeys={pickerFields.map((field) => field.key)}
+                  compact
+                />
+              </div>
+            </div>
           </div>
 
           {/* Main Content - Sections */}
@@ -1260,9 +1515,27 @@ export default function ContractTemplateBuilderPage() {
               // Preview Mode
               <div className="card bg-base-200">
                 <div className="card-body p-8">
-                  <div className="max-w-3xl mx-auto">
+                  <div className="flex items-center justify-between gap-2 flex-wrap text-sm text-base-content/60 pb-4 mb-4 border-b border-base-300">
+                    <label className="flex items-center gap-2">
+                      Preview as
+                      <select
+                        className="select select-bordered select-xs"
+                        value={previewType}
+                        onChange={(e) => setPreviewContractType(e.target.value as Contract['contract_type'])}
+                      >
+                        <option value="fixed_price">Fixed Price</option>
+                        <option value="milestone">Milestone</option>
+                        <option value="subscription">Subscription</option>
+                      </select>
+                      contract with sample pricing
+                    </label>
+                    <span>
+                      {shownBlockCount} of {sections.length} blocks shown
+                    </span>
+                  </div>
+                  <div className="max-w-3xl mx-auto w-full">
                     <div className="prose prose-sm max-w-none">
-                      {sections.map((section) => (
+                      {previewSections.map((section) => (
                         <div key={section.id} className="mb-6">
                           {section.type === 'heading' && (
                             <h2 className="text-2xl font-semibold mt-8 mb-4">{section.content?.text || 'Untitled'}</h2>
@@ -1325,6 +1598,14 @@ export default function ContractTemplateBuilderPage() {
             ) : (
               // Edit Mode
               <div className="pl-12">
+                {outdatedClauseCount > 0 && (
+                  <div className="alert alert-warning mb-4 py-2 text-sm">
+                    <BookOpenIcon className="w-5 h-5" />
+                    <span>
+                      {outdatedClauseCount} clause{outdatedClauseCount === 1 ? ' uses' : 's use'} an older version than the clause library. Use Update on each flagged block to bring it in line.
+                    </span>
+                  </div>
+                )}
                 {sections.length === 0 ? (
                   <div className="text-center py-16">
                     <div className="w-16 h-16 bg-base-200 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -1334,7 +1615,11 @@ export default function ContractTemplateBuilderPage() {
                     <p className="text-base-content/60 mb-6">
                       Add blocks to create your contract structure
                     </p>
-                    <AddBlockMenu onAdd={(type) => handleAddSection(type)} className="inline-block" />
+                    <AddBlockMenu
+                      onAdd={(type) => handleAddSection(type)}
+                      onInsertClause={() => setShowClausePicker(true)}
+                      className="inline-block"
+                    />
                   </div>
                 ) : (
                   <DndContext
@@ -1354,10 +1639,14 @@ export default function ContractTemplateBuilderPage() {
                             onUpdate={handleUpdateSection}
                             onDelete={handleDeleteSection}
                             onChangeType={handleChangeType}
+                            onUpdateLogic={handleUpdateSectionLogic}
                             onAddBelow={(id) => handleAddSection('paragraph', id)}
                             onAiWrite={handleOpenSectionAIModal}
                             shouldFocus={focusedSectionId === section.id}
                             onFocused={() => setFocusedSectionId(null)}
+                            mergeFields={pickerFields}
+                            latestClauseVersion={section.clause ? clauseVersions[section.clause.id] : undefined}
+                            onClauseAction={handleClauseAction}
                           />
                         ))}
                       </div>
@@ -1368,6 +1657,7 @@ export default function ContractTemplateBuilderPage() {
                 {sections.length > 0 && (
                   <AddBlockMenu 
                     onAdd={(type) => handleAddSection(type)} 
+                    onInsertClause={() => setShowClausePicker(true)}
                     className="mt-4"
                   />
                 )}
@@ -1377,6 +1667,10 @@ export default function ContractTemplateBuilderPage() {
         </div>
       </div>
 
+      {showClausePicker && (
+        <ClausePickerModal onInsert={handleInsertClause} onClose={() => setShowClausePicker(false)} />
+      )}
+
       {/* AI Generation Modal */}
       {showAIModal && (
         <div className="modal modal-open">
@@ -1,5 +1,6 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
+import axios from 'axios';
 import {
   DocumentDuplicateIcon,
   PlusIcon,
@@ -9,18 +10,32 @@ import {
   ArrowLeftIcon,
   DocumentTextIcon,
   EllipsisVerticalIcon,
+  BookOpenIcon,
+  ExclamationTriangleIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
 } from '@heroicons/react/24/outline';
 import Layout from '../../components/Layout';
 import { useContractStore } from '../../stores/contracts';
+import { usePermissions } from '../../hooks/usePermissions';
 import type { ContractTemplate } from '../../types/documents';
 
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
 export default function ContractTemplatesPage() {
   const navigate = useNavigate();
-  const { templates, isLoading, fetchTemplates, deleteTemplate, duplicateTemplate } = useContractStore();
+  const { templates, isLoading, fetchTemplates, deleteTemplate, duplicateTemplate, exportTemplate, importTemplate } = useContractStore();
+  const { can } = usePermissions();
+  const canCreate = can('create', 'templates');
+  const canEdit = can('update', 'templates');
+  const canDelete = can('delete', 'templates');
   const [searchTerm, setSearchTerm] = useState('');
   const [activeFilter, setActiveFilter] = useState<'all' | 'active' | 'inactive'>('all');
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     fetchTemplates();
@@ -64,6 +79,32 @@ export default function ContractTemplatesPage() {
     }
   };
 
+  const handleExport = async (template: ContractTemplate) => {
+    try {
+      await exportTemplate(template);
+    } catch (error) {
+      console.error('Failed to export template:', error);
+      alert('Failed to export template');
+    }
+  };
+
+  // Accepts a JSON export from any company, or a Word contract
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const template = await importTemplate(file);
+      navigate(`/documents/contracts/templates/${template.id}`);
+    } catch (error) {
+      alert(errorMessage(error, 'Failed to import template'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <Layout>
       <div className="p-6 space-y-6">
@@ -84,10 +125,42 @@ export default function ContractTemplatesPage() {
               </p>
             </div>
           </div>
-          <Link to="/documents/contracts/templates/new" className="btn btn-primary">
-            <PlusIcon className="w-5 h-5" />
-            New Template
-          </Link>
+          <div className="flex gap-2">
+            <Link to="/documents/contracts/clauses" className="btn btn-ghost">
+              <BookOpenIcon className="w-5 h-5" />
+              Clause Library
+            </Link>
+            {canCreate && (
+              <>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,.docx,application/json,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                  className="hidden"
+                  onChange={handleImport}
+                />
+                <button
+                  className="btn btn-ghost"
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isImporting}
+                  title="Import a JSON template export or a Word (.docx) contract"
+                >
+                  {isImporting ? (
+                    <span className="loading loading-spinner loading-sm"></span>
+                  ) : (
+                    <ArrowUpTrayIcon className="w-5 h-5" />
+                  )}
+                  Import
+                </button>
+              </>
+            )}
+            {canCreate && (
+              <Link to="/documents/contracts/templates/new" className="btn btn-primary">
+                <PlusIcon className="w-5 h-5" />
+                New Template
+              </Link>
+            )}
+          </div>
         </div>
 
         {/* Filters */}
@@ -132,7 +205,7 @@ export default function ContractTemplatesPage() {
                   ? 'Try adjusting your filters'
                   : 'Get started by creating your first template'}
               </p>
-              {!searchTerm && activeFilter === 'all' && (
+              {!searchTerm && activeFilter === 'all' && canCreate && (
                 <Link to="/documents/contracts/templates/new" className="btn btn-primary mt-4">
                   <PlusIcon className="w-5 h-5" />
                   Create Template
@@ -161,46 +234,60 @@ export default function ContractTemplatesPage() {
                       </div>
                     </div>
                     
-                    <div className="dropdown dropdown-end">
-                      <label tabIndex={0} className="btn btn-ghost btn-sm btn-square">
-                        <EllipsisVerticalIcon className="w-5 h-5" />
-                      </label>
-                      <ul tabIndex={0} className="dropdown-content z-10 menu p-2 shadow bg-base-300 rounded-box w-52">
-                        <li>
-                          <Link to={`/documents/contracts/templates/${template.id}`}>
-                            <PencilIcon className="w-4 h-4" />
-                            Edit
-                          </Link>
-                        </li>
-                        <li>
-                          <button
-                            onClick={() => handleDuplicate(template.id)}
-                            disabled={duplicatingId === template.id}
-                          >
-                            {duplicatingId === template.id ? (
-                              <span className="loading loading-spinner loading-xs"></span>
-                            ) : (
-                              <DocumentDuplicateIcon className="w-4 h-4" />
-                            )}
-                            Duplicate
-                          </button>
-                        </li>
-                        <li>
-                          <button
-                            onClick={() => handleDelete(template.id)}
-                            disabled={deletingId === template.id}
-                            className="text-error"
-                          >
-                            {deletingId === template.id ? (
-                              <span className="loading loading-spinner loading-xs"></span>
-                            ) : (
-                              <TrashIcon className="w-4 h-4" />
-                            )}
-                            Delete
-                          </button>
-                        </li>
-                      </ul>
-                    </div>
+                    {(canEdit || canCreate || canDelete) && (
+                      <div className="dropdown dropdown-end">
+                        <label tabIndex={0} className="btn btn-ghost btn-sm btn-square">
+                          <EllipsisVerticalIcon className="w-5 h-5" />
+                        </label>
+                        <ul tabIndex={0} className="dropdown-content z-10 menu p-2 shadow bg-base-300 rounded-box w-52">
+                          {canEdit && (
+                            <li>
+                              <Link to={`/documents/contracts/templates/${template.id}`}>
+                                <PencilIcon className="w-4 h-4" />
+                                Edit
+                              </Link>
+                            </li>
+                          )}
+                          {canCreate && (
+                            <li>
+                              <button
+                                onClick={() => handleDuplicate(template.id)}
+                                disabled={duplicatingId === template.id}
+                              >
+                                {duplicatingId === template.id ? (
+                                  <span className="loading loading-spinner loading-xs"></span>
+                                ) : (
+                                  <DocumentDuplicateIcon className="w-4 h-4" />
+                                )}
+                                Duplicate
+                              </button>
+                            </li>
+                          )}
+                          <li>
+                            <button onClick={() => handleExport(template)}>
+                              <ArrowDownTrayIcon className="w-4 h-4" />
+                              Export JSON
+                            </button>
+                          </li>
+                          {canDelete && (
+                            <li>
+                              <button
+                                onClick={() => handleDelete(template.id)}
+                                disabled={deletingId === template.id}
+                                className="text-error"
+                              >
+                                {deletingId === template.id ? (
+                                  <span className="loading loading-spinner loading-xs"></span>
+                                ) : (
+                                  <TrashIcon className="w-4 h-4" />
+                                )}
+                                Delete
+                              </button>
+                            </li>
+                          )}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                   
                   {template.description && (
@@ -217,20 +304,31 @@ export default function ContractTemplatesPage() {
                       {template.default_contract_type?.replace('_', ' ') || 'Fixed Price'}
                     </span>
                   </div>
+
+                  {!!template.outdated_clauses && (
+                    <div className="flex items-center gap-1 mt-2 text-sm text-warning">
+                      <ExclamationTriangleIcon className="w-4 h-4" />
+                      {template.outdated_clauses} outdated clause{template.outdated_clauses === 1 ? '' : 's'}
+                    </div>
+                  )}
                   
                   <div className="card-actions justify-end mt-4 pt-4 border-t border-base-300">
-                    <Link
-                      to={`/documents/contracts/templates/${template.id}`}
-                      className="btn btn-ghost btn-sm"
-                    >
-                      Edit Template
-                    </Link>
-                    <Link
-                      to={`/documents/contracts/create?template=${template.id}`}
-                      className="btn btn-primary btn-sm"
-                    >
-                      Use Template
-                    </Link>
+                    {canEdit && (
+                      <Link
+                        to={`/documents/contracts/templates/${template.id}`}
+                        className="btn btn-ghost btn-sm"
+                      >
+                        Edit Template
+                      </Link>
+                    )}
+                    {can('create', 'contracts') && (
+                      <Link
+                        to={`/documents/contracts/create?template=${template.id}`}
+                        className="btn btn-primary btn-sm"
+                      >
+                        Use Template
+                      </Link>
+                    )}
                   </div>
                 </div>
               </div>
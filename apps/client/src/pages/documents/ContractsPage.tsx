@@ -1,20 +1,26 @@
 import { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import {
   DocumentTextIcon,
   PlusIcon,
   MagnifyingGlassIcon,
   DocumentDuplicateIcon,
+  ArrowPathIcon,
 } from '@heroicons/react/24/outline';
 import Layout from '../../components/Layout';
+import { Can } from '../../components/AuthGuard';
 import { useContractStore } from '../../stores/contracts';
 import { ContractStatusBadge } from '../../components/documents/ContractStatusBadge';
+import { ContractRenewalsPanel } from '../../components/documents/ContractRenewalsPanel';
+import { contractSigningProgress } from '../../lib/contracts';
 import type { Contract } from '../../types/documents';
 
 export default function ContractsPage() {
   const { contracts, isLoading, fetchContracts } = useContractStore();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<Contract['status'] | 'all'>('all');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const showRenewals = searchParams.get('view') === 'renewals';
 
   useEffect(() => {
     fetchContracts();
@@ -46,13 +52,37 @@ export default function ContractsPage() {
               <DocumentDuplicateIcon className="w-5 h-5" />
               Templates
             </Link>
-        <Link to="/documents/contracts/create" className="btn btn-primary">
-          <PlusIcon className="w-5 h-5" />
-          New Contract
-        </Link>
+        <Can action="create" resource="contracts">
+          <Link to="/documents/contracts/create" className="btn btn-primary">
+            <PlusIcon className="w-5 h-5" />
+            New Contract
+          </Link>
+        </Can>
           </div>
       </div>
 
+        {/* Tabs */}
+        <div className="tabs tabs-boxed bg-base-200 p-1 w-fit">
+          <button
+            className={`tab gap-2 ${!showRenewals ? 'tab-active' : ''}`}
+            onClick={() => setSearchParams({})}
+          >
+            <DocumentTextIcon className="w-4 h-4" />
+            All Contracts
+          </button>
+          <button
+            className={`tab gap-2 ${showRenewals ? 'tab-active' : ''}`}
+            onClick={() => setSearchParams({ view: 'renewals' })}
+          >
+            <ArrowPathIcon className="w-4 h-4" />
+            Renewals
+          </button>
+        </div>
+
+        {showRenewals ? (
+          <ContractRenewalsPanel />
+        ) : (
+        <>
         {/* Filters */}
       <div className="card bg-base-200">
         <div className="card-body p-4">
@@ -100,10 +130,12 @@ export default function ContractsPage() {
                 : 'Get started by creating your first contract'}
             </p>
             {!searchTerm && statusFilter === 'all' && (
-              <Link to="/documents/contracts/create" className="btn btn-primary mt-4">
-                <PlusIcon className="w-5 h-5" />
-                Create Contract
-              </Link>
+              <Can action="create" resource="contracts">
+                <Link to="/documents/contracts/create" className="btn btn-primary mt-4">
+                  <PlusIcon className="w-5 h-5" />
+                  Create Contract
+                </Link>
+              </Can>
             )}
           </div>
         </div>
@@ -120,7 +152,7 @@ export default function ContractsPage() {
                   <div className="flex-1">
                       <div className="flex items-center gap-3 flex-wrap">
                       <h3 className="text-lg font-semibold">{contract.title}</h3>
-                      <ContractStatusBadge status={contract.status} />
+                      <ContractStatusBadge status={contract.status} progress={contractSigningProgress(contract)} />
                     </div>
                       <div className="flex gap-4 mt-2 text-sm text-base-content/70 flex-wrap">
                       {contract.contract_number && (
@@ -151,6 +183,8 @@ export default function ContractsPage() {
           ))}
         </div>
       )}
+        </>
+        )}
     </div>
     </Layout>
   );
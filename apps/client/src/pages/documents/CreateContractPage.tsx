@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   ArrowLeftIcon,
   PlusIcon,
@@ -13,7 +13,8 @@ import { TiptapEditor, TiptapEditorHandle } from '../../components/documents/Tip
 import { MergeFieldPicker } from '../../components/documents/MergeFieldPicker';
 import { useContractStore } from '../../stores/contracts';
 import { api } from '../../lib/api';
-import type { ContractTemplate, TemplateSection } from '../../types/documents';
+import { applySectionLogic, conditionValues, describeSectionLogic, isSectionVisible, type SectionContext } from '../../lib/sectionLogic';
+import type { ContractTemplate, MergeField, TemplateSection } from '../../types/documents';
 
 interface Contact {
   id: string;
@@ -25,6 +26,7 @@ interface Contact {
 interface Project {
   id: string;
   name: string;
+  budget?: number | string | null;
 }
 
 interface Milestone {
@@ -37,9 +39,10 @@ interface Milestone {
 interface ParagraphSectionProps {
   content: string;
   onChange: (html: string) => void;
+  mergeFields?: MergeField[];
 }
 
-function ParagraphSection({ content, onChange }: ParagraphSectionProps) {
+function ParagraphSection({ content, onChange, mergeFields }: ParagraphSectionProps) {
   const editorRef = useRef<TiptapEditorHandle>(null);
 
   const handleInsertMergeField = (field: { key: string; label: string }) => {
@@ -51,7 +54,7 @@ function ParagraphSection({ content, onChange }: ParagraphSectionProps) {
   return (
     <div className="relative">
       <div className="absolute right-0 -top-1 z-10">
-        <MergeFieldPicker onSelect={handleInsertMergeField} />
+        <MergeFieldPicker onSelect={handleInsertMergeField} fields={mergeFields} />
       </div>
       <TiptapEditor
         ref={editorRef}
@@ -98,7 +101,13 @@ function TableRenderer({ cells, hasHeader }: TableRendererProps) {
 
 export default function CreateContractPage() {
   const navigate = useNavigate();
-  const { templates, fetchTemplates, createContract, isLoading: isCreating } = useContractStore();
+  const [searchParams] = useSearchParams();
+  const { templates, fetchTemplates, fetchMergeFields, createContract, isLoading: isCreating } = useContractStore();
+
+  // Contract started from a deal (/deals/:id) - prefilled from the deal and linked back to it
+  const dealId = searchParams.get('deal_id');
+  const backPath = dealId ? `/deals/${dealId}` : '/documents';
+  const [dealTitle, setDealTitle] = useState<string | null>(null);
   
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
@@ -142,6 +151,20 @@ export default function CreateContractPage() {
   // Selected template
   const selectedTemplate = templates.find((t: ContractTemplate) => t.id === formData.template_id);
 
+  // Company and template merge fields, and the values entered for them
+  const [templateMergeFields, setTemplateMergeFields] = useState<MergeField[]>([]);
+  const [customValues, setCustomValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!formData.template_id) {
+      setTemplateMergeFields([]);
+      return;
+    }
+    fetchMergeFields(formData.template_id)
+      .then(setTemplateMergeFields)
+      .catch((err) => console.error('Failed to load merge fields:', err));
+  }, [formData.template_id, fetchMergeFields]);
+
   useEffect(() => {
     loadData();
   }, []);
@@ -177,6 +200,20 @@ export default function CreateContractPage() {
       
       setContacts(contactsRes.data.data || []);
       setProjects(projectsRes.data.data || []);
+
+      if (dealId) {
+        const dealRes = await api.get(`/api/v1/deals/${dealId}`);
+        const deal = dealRes.data;
+        setDealTitle(deal.title);
+        setFormData(prev => ({
+          ...prev,
+          title: deal.title,
+          contact_id: deal.contact?.id || '',
+        }));
+        if (deal.value) {
+          setFixedAmount(String(deal.value));
+        }
+      }
     } catch (err) {
       console.error('Failed to load data:', err);
       setError('Failed to load data. Please try again.');
@@ -233,6 +270,30 @@ export default function CreateContractPage() {
     }
   };
 
+  // Conditions and repeatable blocks are evaluated against the current client, project and pricing
+  const selectedContact = contacts.find((c) => c.id === formData.contact_id);
+  const selectedProject = projects.find((p) => p.id === formData.project_id);
+  const sectionContext: SectionContext = {
+    contractType: formData.contract_type,
+    pricingData: buildPricingData(),
+    values: {
+      'client.full_name': selectedContact?.full_name,
+      'client.email': selectedContact?.email,
+      'client.organization': selectedContact?.organization,
+      'project.name': selectedProject?.name,
+      'project.budget': selectedProject?.budget ?? undefined,
+    },
+  };
+  const sectionValues = conditionValues(sectionContext);
+
+  // Custom fields the contract text uses; system fields are filled in automatically
+  const contractText = JSON.stringify(contractSections);
+  const promptFields = templateMergeFields.filter(
+    (field) => field.source && field.source !== 'system' && contractText.includes(`{{${field.key}}}`)
+  );
+
+  const renderedSections = applySectionLogic(contractSections, sectionContext);
+
   const calculateTotal = () => {
     switch (formData.contract_type) {
       case 'fixed_price':
@@ -267,9 +328,15 @@ export default function CreateContractPage() {
       const contract = await createContract({
         ...formData,
         pricing_data: buildPricingData(),
-        rendered_sections: contractSections,
+        rendered_sections: renderedSections,
+        merge_field_values: Object.fromEntries(
+          promptFields
+            .filter((field) => (customValues[field.key] || '').trim() !== '')
+            .map((field) => [field.key, customValues[field.key].trim()])
+        ),
         clickwrap_text: clickwrapText,
         project_id: formData.project_id || undefined,
+        deal_id: dealId || undefined,
         expires_at: formData.expires_at || undefined,
       });
       
@@ -297,7 +364,7 @@ export default function CreateContractPage() {
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-4">
             <button
-              onClick={() => navigate('/documents')}
+              onClick={() => navigate(backPath)}
               className="btn btn-ghost btn-sm"
             >
               <ArrowLeftIcon className="w-4 h-4" />
@@ -313,7 +380,7 @@ export default function CreateContractPage() {
           <div className="flex gap-2">
             <button
               type="button"
-              onClick={() => navigate('/documents')}
+              onClick={() => navigate(backPath)}
               className="btn btn-ghost"
             >
               Cancel
@@ -338,6 +405,12 @@ export default function CreateContractPage() {
           </div>
         )}
 
+        {dealTitle && (
+          <div className="alert alert-info mb-6">
+            <span>Creating a contract for the deal <strong>{dealTitle}</strong>. It will be linked to the deal.</span>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
           {/* Left Column - Settings */}
           <div className="space-y-6">
@@ -600,6 +673,36 @@ export default function CreateContractPage() {
               </div>
             </div>
 
+            {/* Custom merge fields */}
+            {promptFields.length > 0 && (
+              <div className="card bg-base-200 border border-base-300">
+                <div className="card-body p-5">
+                  <h3 className="font-semibold mb-1">Contract Details</h3>
+                  <p className="text-xs text-base-content/60 mb-3">
+                    Fields left empty use their default, or stay as a placeholder.
+                  </p>
+                  <div className="space-y-3">
+                    {promptFields.map((field) => (
+                      <div key={field.key} className="form-control">
+                        <label className="label py-1">
+                          <span className="label-text text-sm">{field.label}</span>
+                          <span className="label-text-alt font-mono">{`{{${field.key}}}`}</span>
+                        </label>
+                        <input
+                          type={field.type === 'date' ? 'date' : field.type === 'text' ? 'text' : 'number'}
+                          step="any"
+                          className="input input-bordered input-sm"
+                          placeholder={field.default_value || (field.type === 'text' ? 'Enter a value' : '')}
+                          value={customValues[field.key] || ''}
+                          onChange={(e) => setCustomValues({ ...customValues, [field.key]: e.target.value })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Notes */}
             <div className="card bg-base-200 border border-base-300">
               <div className="card-body p-5">
@@ -655,7 +758,7 @@ export default function CreateContractPage() {
                       </button>
                     </div>
                     <span className="text-xs text-base-content/50">
-                      {contractSections.length} sections
+                      {renderedSections.length} sections
                     </span>
                   </div>
 
@@ -663,8 +766,23 @@ export default function CreateContractPage() {
                   <div className="p-5 space-y-4 max-h-[calc(100vh-300px)] overflow-y-auto">
                     {activeTab === 'edit' ? (
                       <>
-                        {contractSections.map((section, index) => (
-                          <div key={section.id} className="space-y-2">
+                        {contractSections.map((section) => (
+                          <div
+                            key={section.id}
+                            className={`space-y-2 ${isSectionVisible(section, sectionValues) ? '' : 'opacity-50'}`}
+                          >
+                            {describeSectionLogic(section).length > 0 && (
+                              <div className="flex flex-wrap gap-1">
+                                {!isSectionVisible(section, sectionValues) && (
+                                  <span className="badge badge-ghost badge-sm">Not included in this contract</span>
+                                )}
+                                {describeSectionLogic(section).map((label) => (
+                                  <span key={label} className="badge badge-primary badge-outline badge-sm">
+                                    {label}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                             {section.type === 'heading' && (
                               <div>
                                 <input
@@ -682,6 +800,7 @@ export default function CreateContractPage() {
                             {section.type === 'paragraph' && (
                               <div className="border border-base-300 rounded-lg p-3 bg-base-100">
                                 <ParagraphSection
+                                  mergeFields={templateMergeFields.length > 0 ? templateMergeFields : undefined}
                                   content={section.content?.html || ''}
                                   onChange={(html) => updateSection(section.id, {
                                     content: { ...section.content, html }
@@ -730,7 +849,7 @@ export default function CreateContractPage() {
                     ) : (
                       // Preview Mode
                       <div className="prose prose-sm max-w-none">
-                        {contractSections.map((section) => (
+                        {renderedSections.map((section) => (
                           <div key={section.id} className="mb-4">
                             {section.type === 'heading' && (
                               <h2 className="text-lg font-semibold mb-2">
@@ -1,12 +1,22 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { ArrowLeftIcon, ClipboardDocumentCheckIcon } from '@heroicons/react/24/outline';
 import Layout from '../../components/Layout';
 import { InvoiceLineItemForm } from '../../components/documents/InvoiceLineItemForm';
+import { ProjectWorkPicker } from '../../components/documents/ProjectWorkPicker';
+import { useInvoiceStore } from '../../stores/invoices';
+import { api } from '../../lib/api';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../../lib/currency';
 import type { InvoiceLineItem } from '../../types/documents';
 
+interface Project {
+  id: string;
+  name: string;
+}
+
 export default function CreateInvoicePage() {
   const navigate = useNavigate();
+  const { taxRates } = useInvoiceStore();
   const [formData, setFormData] = useState({
     invoice_number: '',
     title: '',
@@ -15,12 +25,48 @@ export default function CreateInvoicePage() {
     template_id: '',
     issue_date: new Date().toISOString().split('T')[0],
     due_date: '',
+    currency: DEFAULT_CURRENCY,
     tax_rate: 10,
     discount_rate: 0,
     payment_terms: 'Payment due within 30 days',
     notes: '',
   });
   const [lineItems, setLineItems] = useState<Partial<InvoiceLineItem>[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [showProjectWork, setShowProjectWork] = useState(false);
+
+  useEffect(() => {
+    api
+      .get('/api/v1/projects', { params: { per_page: 100 } })
+      .then((response) => setProjects(response.data.data || []))
+      .catch((err) => console.error('Failed to load projects:', err));
+  }, []);
+
+  const addProjectWork = (items: Partial<InvoiceLineItem>[]) => {
+    const defaultTaxIds = taxRates.filter((taxRate) => taxRate.is_default).map((taxRate) => taxRate.id);
+    setLineItems([
+      ...lineItems,
+      ...items.map((item, index) => ({
+        ...item,
+        discount_rate: 0,
+        tax_rate_ids: defaultTaxIds,
+        order: lineItems.length + index,
+      })),
+    ]);
+  };
+
+  // New invoices start in the company's base currency
+  useEffect(() => {
+    api
+      .get('/api/v1/company/settings')
+      .then((response) => {
+        const baseCurrency = response.data.data.settings?.documents?.base_currency;
+        if (baseCurrency) {
+          setFormData((data) => ({ ...data, currency: baseCurrency }));
+        }
+      })
+      .catch((err) => console.error('Failed to load company settings:', err));
+  }, []);
 
   return (
     <Layout>
@@ -118,9 +164,11 @@ export default function CreateInvoicePage() {
                     }
                   >
                     <option value="">Select a project...</option>
-                    {/* TODO: Load projects from API */}
-                    <option value="project-1">Website Redesign</option>
-                    <option value="project-2">Mobile App</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
                   </select>
                 </div>
 
@@ -153,6 +201,24 @@ export default function CreateInvoicePage() {
                     }
                   />
                 </div>
+
+                {/* Currency */}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Currency</span>
+                  </label>
+                  <select
+                    className="select select-bordered"
+                    value={formData.currency}
+                    onChange={(e) =>
+                      setFormData({ ...formData, currency: e.target.value })
+                    }
+                  >
+                    {CURRENCIES.map((code) => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
             </div>
           </div>
@@ -160,11 +226,23 @@ export default function CreateInvoicePage() {
           {/* Line Items Card */}
           <div className="card bg-base-200">
             <div className="card-body p-6">
-              <h2 className="text-xl font-semibold mb-4">Line Items</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold">Line Items</h2>
+                <button
+                  type="button"
+                  className="btn btn-outline btn-sm"
+                  onClick={() => setShowProjectWork(true)}
+                  disabled={!formData.project_id}
+                  title={formData.project_id ? undefined : 'Select a project first'}
+                >
+                  <ClipboardDocumentCheckIcon className="w-4 h-4" />
+                  Invoice from project
+                </button>
+              </div>
               <InvoiceLineItemForm
                 lineItems={lineItems}
                 onChange={setLineItems}
-                currency="USD"
+                currency={formData.currency}
               />
             </div>
           </div>
@@ -298,6 +376,17 @@ export default function CreateInvoicePage() {
           </div>
         </div>
       </div>
+
+      {showProjectWork && formData.project_id && (
+        <ProjectWorkPicker
+          projectId={formData.project_id}
+          projectName={projects.find((project) => project.id === formData.project_id)?.name}
+          currency={formData.currency}
+          excludeTaskIds={lineItems.map((item) => item.task_id).filter((id): id is string => !!id)}
+          onAdd={addProjectWork}
+          onClose={() => setShowProjectWork(false)}
+        />
+      )}
     </div>
     </Layout>
   );
@@ -0,0 +1,359 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import Layout from '../../components/Layout';
+import { InvoiceLineItemForm } from '../../components/documents/InvoiceLineItemForm';
+import { useQuoteStore } from '../../stores/quotes';
+import { api } from '../../lib/api';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../../lib/currency';
+import type { InvoiceLineItem } from '../../types/documents';
+
+interface Contact {
+  id: string;
+  full_name: string;
+  email: string;
+}
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+const addDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+export default function CreateQuotePage() {
+  const navigate = useNavigate();
+  const { createQuote, sendQuote } = useQuoteStore();
+  const [formData, setFormData] = useState({
+    title: '',
+    contact_id: '',
+    project_id: '',
+    issue_date: addDays(0),
+    valid_until: addDays(30),
+    currency: DEFAULT_CURRENCY,
+    discount_rate: 0,
+    terms: 'This quote is valid until the date shown above.',
+    notes: '',
+  });
+  const [lineItems, setLineItems] = useState<Partial<InvoiceLineItem>[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      api.get('/api/v1/contacts', { params: { per_page: 100 } }),
+      api.get('/api/v1/projects', { params: { per_page: 100 } }),
+    ])
+      .then(([contactsRes, projectsRes]) => {
+        setContacts(contactsRes.data.data || []);
+        setProjects(projectsRes.data.data || []);
+      })
+      .catch((err) => console.error('Failed to load contacts and projects:', err));
+  }, []);
+
+  // New quotes start in the company's base currency
+  useEffect(() => {
+    api
+      .get('/api/v1/company/settings')
+      .then((response) => {
+        const baseCurrency = response.data.data.settings?.documents?.base_currency;
+        if (baseCurrency) {
+          setFormData((data) => ({ ...data, currency: baseCurrency }));
+        }
+      })
+      .catch((err) => console.error('Failed to load company settings:', err));
+  }, []);
+
+  const handleSave = async (send: boolean) => {
+    if (!formData.contact_id) {
+      setError('Select a client for the quote');
+      return;
+    }
+    if (lineItems.length === 0 || lineItems.some((item) => !item.description?.trim())) {
+      setError('Add at least one line item, each with a description');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const quote = await createQuote({
+        ...formData,
+        project_id: formData.project_id || null,
+        line_items: lineItems.map((item) => ({
+          description: item.description ?? '',
+          quantity: item.quantity ?? 1,
+          unit_price: item.unit_price ?? 0,
+          discount_rate: item.discount_rate ?? 0,
+          tax_rate_ids: item.tax_rate_ids ?? [],
+        })),
+      });
+
+      if (send) {
+        try {
+          await sendQuote(quote.id);
+        } catch (err) {
+          // The draft was saved; let the user retry sending from the quote page
+          alert(errorMessage(err, 'Quote saved as draft but could not be sent'));
+        }
+      }
+
+      navigate(`/documents/quotes/${quote.id}`);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create quote'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Layout>
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => navigate('/documents/quotes')}
+          className="btn btn-ghost btn-sm"
+        >
+          <ArrowLeftIcon className="w-4 h-4" />
+          Back
+        </button>
+        <div>
+          <h1 className="text-3xl font-semibold">Create Quote</h1>
+          <p className="text-base-content/70 mt-1">
+            Price up work for a client to accept online
+          </p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <div className="max-w-5xl">
+        <div className="space-y-6">
+          {/* Basic Info Card */}
+          <div className="card bg-base-200">
+            <div className="card-body p-6">
+              <h2 className="text-xl font-semibold mb-4">Quote Details</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Title */}
+                <div className="form-control md:col-span-2">
+                  <label className="label">
+                    <span className="label-text font-semibold">
+                      Title (Optional)
+                    </span>
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="Website Redesign"
+                    className="input input-bordered"
+                    value={formData.title}
+                    onChange={(e) =>
+                      setFormData({ ...formData, title: e.target.value })
+                    }
+                  />
+                </div>
+
+                {/* Client Selection */}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Client</span>
+                  </label>
+                  <select
+                    className="select select-bordered"
+                    value={formData.contact_id}
+                    onChange={(e) =>
+                      setFormData({ ...formData, contact_id: e.target.value })
+                    }
+                  >
+                    <option value="">Select a client...</option>
+                    {contacts.map((contact) => (
+                      <option key={contact.id} value={contact.id}>
+                        {contact.full_name}
+                        {contact.email ? ` (${contact.email})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Project Selection */}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">
+                      Project (Optional)
+                    </span>
+                  </label>
+                  <select
+                    className="select select-bordered"
+                    value={formData.project_id}
+                    onChange={(e) =>
+                      setFormData({ ...formData, project_id: e.target.value })
+                    }
+                  >
+                    <option value="">Select a project...</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Issue Date */}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Issue Date</span>
+                  </label>
+                  <input
+                    type="date"
+                    className="input input-bordered"
+                    value={formData.issue_date}
+                    onChange={(e) =>
+                      setFormData({ ...formData, issue_date: e.target.value })
+                    }
+                  />
+                </div>
+
+                {/* Valid Until */}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Valid Until</span>
+                  </label>
+                  <input
+                    type="date"
+                    className="input input-bordered"
+                    min={formData.issue_date}
+                    value={formData.valid_until}
+                    onChange={(e) =>
+                      setFormData({ ...formData, valid_until: e.target.value })
+                    }
+                  />
+                </div>
+
+                {/* Currency */}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Currency</span>
+                  </label>
+                  <select
+                    className="select select-bordered"
+                    value={formData.currency}
+                    onChange={(e) =>
+                      setFormData({ ...formData, currency: e.target.value })
+                    }
+                  >
+                    {CURRENCIES.map((code) => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Discount Rate */}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Discount (%)</span>
+                  </label>
+                  <input
+                    type="number"
+                    placeholder="0"
+                    className="input input-bordered"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.discount_rate}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        discount_rate: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Line Items Card */}
+          <div className="card bg-base-200">
+            <div className="card-body p-6">
+              <h2 className="text-xl font-semibold mb-4">Line Items</h2>
+              <InvoiceLineItemForm
+                lineItems={lineItems}
+                onChange={setLineItems}
+                currency={formData.currency}
+              />
+            </div>
+          </div>
+
+          {/* Terms & Notes Card */}
+          <div className="card bg-base-200">
+            <div className="card-body p-6">
+              <h2 className="text-xl font-semibold mb-4">Additional Information</h2>
+              <div className="space-y-4">
+                {/* Terms */}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Terms</span>
+                  </label>
+                  <textarea
+                    className="textarea textarea-bordered"
+                    rows={2}
+                    value={formData.terms}
+                    onChange={(e) =>
+                      setFormData({ ...formData, terms: e.target.value })
+                    }
+                  />
+                </div>
+
+                {/* Notes */}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Notes (Optional)</span>
+                  </label>
+                  <textarea
+                    className="textarea textarea-bordered"
+                    rows={3}
+                    placeholder="Looking forward to working with you!"
+                    value={formData.notes}
+                    onChange={(e) =>
+                      setFormData({ ...formData, notes: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {error && <div className="alert alert-error">{error}</div>}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => navigate('/documents/quotes')}
+              className="btn btn-ghost"
+              disabled={isSaving}
+            >
+              Cancel
+            </button>
+            <button className="btn btn-outline" onClick={() => handleSave(false)} disabled={isSaving}>
+              Save as Draft
+            </button>
+            <button className="btn btn-primary" onClick={() => handleSave(true)} disabled={isSaving}>
+              {isSaving && <span className="loading loading-spinner loading-sm"></span>}
+              Create & Send
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+    </Layout>
+  );
+}
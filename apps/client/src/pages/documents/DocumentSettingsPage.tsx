@@ -1,9 +1,16 @@
 import { useState, useEffect } from 'react';
-import { Save, Eye, EyeOff, AlertCircle, CheckCircle } from 'lucide-react';
+import { Save, Eye, EyeOff, AlertCircle, CheckCircle, Plus, Trash2 } from 'lucide-react';
 import Layout from '../../components/Layout';
 import { api } from '../../lib/api';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../../lib/currency';
+import { TaxRatesCard } from '../../components/documents/TaxRatesCard';
+import { CustomMergeFieldsCard } from '../../components/documents/CustomMergeFieldsCard';
+import { ReminderScheduleEditor } from '../../components/documents/ReminderScheduleEditor';
+import { useInvoiceStore } from '../../stores/invoices';
+import type { ReminderScheduleConfig, ReminderStep } from '../../types/documents';
 
 export default function DocumentSettingsPage() {
+  const fetchReminderSchedule = useInvoiceStore((state) => state.fetchReminderSchedule);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [success, setSuccess] = useState(false);
@@ -20,13 +27,31 @@ export default function DocumentSettingsPage() {
   // Document Settings
   const [contractNumberPrefix, setContractNumberPrefix] = useState('CNT');
   const [invoiceNumberPrefix, setInvoiceNumberPrefix] = useState('INV');
+  const [creditNoteNumberPrefix, setCreditNoteNumberPrefix] = useState('CN');
+  const [quoteNumberPrefix, setQuoteNumberPrefix] = useState('QUO');
   const [contractAutoExpireDays, setContractAutoExpireDays] = useState(30);
-  const [invoiceReminderDays, setInvoiceReminderDays] = useState([7, 3, 1]);
+  const [reminderSteps, setReminderSteps] = useState<ReminderStep[]>([]);
+  const [reminderConfig, setReminderConfig] = useState<ReminderScheduleConfig | null>(null);
+
+  // Currency Settings
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [exchangeRates, setExchangeRates] = useState<{ currency: string; rate: string }[]>([]);
 
   useEffect(() => {
     loadSettings();
   }, []);
 
+  // The reminder schedule comes back with defaults filled in, including for companies
+  // that only have the older "days before due" list
+  useEffect(() => {
+    fetchReminderSchedule()
+      .then((config) => {
+        setReminderConfig(config);
+        setReminderSteps(config.steps);
+      })
+      .catch((err) => console.error('Failed to load reminder schedule:', err));
+  }, [fetchReminderSchedule]);
+
   const loadSettings = async () => {
     setLoading(true);
     setError('');
@@ -46,8 +71,16 @@ export default function DocumentSettingsPage() {
       if (settings.documents) {
         setContractNumberPrefix(settings.documents.contract_number_prefix || 'CNT');
         setInvoiceNumberPrefix(settings.documents.invoice_number_prefix || 'INV');
+        setCreditNoteNumberPrefix(settings.documents.credit_note_number_prefix || 'CN');
+        setQuoteNumberPrefix(settings.documents.quote_number_prefix || 'QUO');
         setContractAutoExpireDays(settings.documents.contract_auto_expire_days || 30);
-        setInvoiceReminderDays(settings.documents.invoice_auto_reminder_days || [7, 3, 1]);
+        setBaseCurrency(settings.documents.base_currency || DEFAULT_CURRENCY);
+        setExchangeRates(
+          Object.entries(settings.documents.exchange_rates || {}).map(([currency, rate]) => ({
+            currency,
+            rate: String(rate),
+          }))
+        );
       }
     } catch (err: any) {
       console.error('Failed to load settings:', err);
@@ -75,8 +108,23 @@ export default function DocumentSettingsPage() {
           documents: {
             contract_number_prefix: contractNumberPrefix,
             invoice_number_prefix: invoiceNumberPrefix,
+            credit_note_number_prefix: creditNoteNumberPrefix,
+            quote_number_prefix: quoteNumberPrefix,
             contract_auto_expire_days: contractAutoExpireDays,
-            invoice_auto_reminder_days: invoiceReminderDays,
+            // Left out if the schedule failed to load; the server keeps the stored one
+            ...(reminderConfig && {
+              invoice_reminder_schedule: reminderSteps,
+              // Kept in sync for anything still reading the older setting
+              invoice_auto_reminder_days: reminderSteps
+                .filter((step) => step.enabled && step.offset_days < 0)
+                .map((step) => -step.offset_days),
+            }),
+            base_currency: baseCurrency,
+            exchange_rates: Object.fromEntries(
+              exchangeRates
+                .filter((row) => row.currency && row.currency !== baseCurrency && parseFloat(row.rate) > 0)
+                .map((row) => [row.currency, parseFloat(row.rate)])
+            ),
           },
         },
       });
@@ -262,6 +310,131 @@ export default function DocumentSettingsPage() {
                 </span>
               </label>
             </div>
+
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Credit Note Number Prefix</span>
+              </label>
+              <input
+                type="text"
+                placeholder="CN"
+                className="input input-bordered w-full"
+                value={creditNoteNumberPrefix}
+                onChange={(e) => setCreditNoteNumberPrefix(e.target.value.toUpperCase())}
+                maxLength={10}
+              />
+              <label className="label">
+                <span className="label-text-alt text-base-content/70">
+                  Example: {creditNoteNumberPrefix}-2024-0001
+                </span>
+              </label>
+            </div>
+
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Quote Number Prefix</span>
+              </label>
+              <input
+                type="text"
+                placeholder="QUO"
+                className="input input-bordered w-full"
+                value={quoteNumberPrefix}
+                onChange={(e) => setQuoteNumberPrefix(e.target.value.toUpperCase())}
+                maxLength={10}
+              />
+              <label className="label">
+                <span className="label-text-alt text-base-content/70">
+                  Example: {quoteNumberPrefix}-2024-0001
+                </span>
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {/* Currency */}
+        <div className="card bg-base-200 shadow-xl p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-base-content">Currency</h2>
+          <div className="space-y-4">
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Base Currency</span>
+              </label>
+              <select
+                className="select select-bordered w-full md:w-64"
+                value={baseCurrency}
+                onChange={(e) => setBaseCurrency(e.target.value)}
+              >
+                {CURRENCIES.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+              <label className="label">
+                <span className="label-text-alt text-base-content/70">
+                  New invoices default to this currency, and invoice totals and reports are shown in it
+                </span>
+              </label>
+            </div>
+
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Exchange Rates</span>
+              </label>
+              <div className="space-y-2">
+                {exchangeRates.map((row, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-base-content/70">1</span>
+                    <select
+                      className="select select-bordered select-sm w-28"
+                      value={row.currency}
+                      onChange={(e) => {
+                        const rows = [...exchangeRates];
+                        rows[index] = { ...row, currency: e.target.value };
+                        setExchangeRates(rows);
+                      }}
+                    >
+                      <option value="">—</option>
+                      {CURRENCIES.filter((code) => code !== baseCurrency).map((code) => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                    <span className="text-base-content/70">=</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      className="input input-bordered input-sm w-32"
+                      value={row.rate}
+                      onChange={(e) => {
+                        const rows = [...exchangeRates];
+                        rows[index] = { ...row, rate: e.target.value };
+                        setExchangeRates(rows);
+                      }}
+                    />
+                    <span className="text-base-content/70">{baseCurrency}</span>
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-sm"
+                      onClick={() => setExchangeRates(exchangeRates.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  className="btn btn-ghost btn-sm"
+                  onClick={() => setExchangeRates([...exchangeRates, { currency: '', rate: '' }])}
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Rate
+                </button>
+              </div>
+              <label className="label">
+                <span className="label-text-alt text-base-content/70">
+                  Fixed rates override the daily market rate. Each invoice keeps the rate in effect when it was issued.
+                </span>
+              </label>
+            </div>
           </div>
         </div>
 
@@ -290,30 +463,20 @@ export default function DocumentSettingsPage() {
 
             <div className="form-control">
               <label className="label">
-                <span className="label-text">Invoice Payment Reminders (Days Before Due)</span>
+                <span className="label-text">Invoice Payment Reminders</span>
               </label>
-              <div className="flex items-center gap-2 flex-wrap">
-                {invoiceReminderDays.map((day, index) => (
-                  <div key={index} className="flex items-center gap-2">
-                    <input
-                      type="number"
-                      min="0"
-                      max="90"
-                      className="input input-bordered w-20"
-                      value={day}
-                      onChange={(e) => {
-                        const newDays = [...invoiceReminderDays];
-                        newDays[index] = parseInt(e.target.value) || 0;
-                        setInvoiceReminderDays(newDays);
-                      }}
-                    />
-                    {index < invoiceReminderDays.length - 1 && <span className="text-base-content/70">,</span>}
-                  </div>
-                ))}
-              </div>
+              {reminderConfig && (
+                <ReminderScheduleEditor
+                  steps={reminderSteps}
+                  onChange={setReminderSteps}
+                  defaults={reminderConfig.defaults}
+                  mergeFields={reminderConfig.merge_fields}
+                />
+              )}
               <label className="label">
                 <span className="label-text-alt text-base-content/70">
-                  Reminder emails will be sent these many days before the due date
+                  Unpaid invoices get the latest step that is due, once a day. Pause reminders for an invoice or
+                  client from the invoice page.
                 </span>
               </label>
             </div>
@@ -337,6 +500,12 @@ export default function DocumentSettingsPage() {
           </button>
         </div>
       </form>
+
+      {/* Tax rates and merge fields are saved individually, outside the settings form */}
+      <div className="mt-6">
+        <TaxRatesCard />
+        <CustomMergeFieldsCard />
+      </div>
     </div>
     </Layout>
   );
@@ -8,8 +8,11 @@ import {
   CheckCircleIcon,
   ArrowRightIcon,
   SparklesIcon,
+  ClipboardDocumentListIcon,
+  ArrowPathIcon,
 } from '@heroicons/react/24/outline';
 import Layout from '../../components/Layout';
+import { usePermissions } from '../../hooks/usePermissions';
 
 interface StepProps {
   number: number;
@@ -37,6 +40,7 @@ function Step({ number, title, description, icon: Icon }: StepProps) {
 
 export default function DocumentsLandingPage() {
   const navigate = useNavigate();
+  const { can } = usePermissions();
 
   const contractSteps: StepProps[] = [
     {
@@ -92,6 +96,33 @@ export default function DocumentsLandingPage() {
     },
   ];
 
+  const quoteSteps: StepProps[] = [
+    {
+      number: 1,
+      title: 'Price the Work',
+      description: 'Add line items, taxes and discounts, and set how long the quote stays valid.',
+      icon: PencilSquareIcon,
+    },
+    {
+      number: 2,
+      title: 'Send to Client',
+      description: 'Email a link where the client can review the quote and accept or decline it online.',
+      icon: PaperAirplaneIcon,
+    },
+    {
+      number: 3,
+      title: 'Track Responses',
+      description: 'See when the quote is viewed, accepted or declined. Quotes past their validity date expire.',
+      icon: CheckCircleIcon,
+    },
+    {
+      number: 4,
+      title: 'Convert in One Click',
+      description: 'Turn an accepted quote into a draft contract from one of your templates, or straight into an invoice.',
+      icon: ArrowPathIcon,
+    },
+  ];
+
   return (
     <Layout>
       <div className="p-6 space-y-8 max-w-6xl mx-auto">
@@ -99,13 +130,13 @@ export default function DocumentsLandingPage() {
         <div className="text-center space-y-3">
           <h1 className="text-3xl font-semibold">Documents</h1>
           <p className="text-base-content/70 max-w-2xl mx-auto">
-            Create professional contracts and invoices, send them to clients for e-signature, 
+            Create professional quotes, contracts and invoices, send them to clients for e-signature, 
             and track everything in one place.
           </p>
         </div>
 
         {/* Feature Cards */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Contracts Card */}
           <div className="card bg-base-200 border border-base-300">
             <div className="card-body p-6 flex flex-col">
@@ -131,6 +162,7 @@ export default function DocumentsLandingPage() {
                 <button
                   onClick={() => navigate('/documents/contracts/create')}
                   className="btn btn-primary w-full"
+                  disabled={!can('create', 'contracts')}
                 >
                   <DocumentTextIcon className="w-5 h-5" />
                   Create Contract
@@ -180,6 +212,7 @@ export default function DocumentsLandingPage() {
                 <button
                   onClick={() => navigate('/documents/invoices/create')}
                   className="btn btn-success w-full"
+                  disabled={!can('create', 'invoices')}
                 >
                   <CurrencyDollarIcon className="w-5 h-5" />
                   Create Invoice
@@ -195,6 +228,7 @@ export default function DocumentsLandingPage() {
                   <button
                     onClick={() => navigate('/documents/settings')}
                     className="btn btn-ghost btn-sm"
+                    disabled={!can('update', 'document_settings')}
                   >
                     Settings
                     <ArrowRightIcon className="w-4 h-4" />
@@ -203,6 +237,46 @@ export default function DocumentsLandingPage() {
               </div>
             </div>
           </div>
+          {/* Quotes Card */}
+          <div className="card bg-base-200 border border-base-300">
+            <div className="card-body p-6 flex flex-col">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="w-12 h-12 rounded-lg bg-secondary/20 flex items-center justify-center">
+                  <ClipboardDocumentListIcon className="w-6 h-6 text-secondary" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold">Quotes</h2>
+                  <p className="text-sm text-base-content/60">
+                    Estimates clients accept online
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-4 flex-1">
+                {quoteSteps.map((step) => (
+                  <Step key={step.number} {...step} />
+                ))}
+              </div>
+
+              <div className="flex flex-col gap-2 mt-6">
+                <button
+                  onClick={() => navigate('/documents/quotes/create')}
+                  className="btn btn-secondary w-full"
+                  disabled={!can('create', 'quotes')}
+                >
+                  <ClipboardDocumentListIcon className="w-5 h-5" />
+                  Create Quote
+                </button>
+                <button
+                  onClick={() => navigate('/documents/quotes')}
+                  className="btn btn-ghost btn-sm"
+                >
+                  View All
+                  <ArrowRightIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
         </div>
 
         {/* Tips Section */}
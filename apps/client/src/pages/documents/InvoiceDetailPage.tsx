@@ -1,18 +1,23 @@
 import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ChevronLeft, Send, FileDown, Eye, Clock, CheckCircle, CreditCard } from 'lucide-react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { ChevronLeft, Send, FileDown, Eye, Clock, CheckCircle, CreditCard, FileMinus, Ban } from 'lucide-react';
 import Layout from '../../components/Layout';
 import { useInvoiceStore } from '../../stores/invoices';
 import InvoiceStatusBadge from '../../components/documents/InvoiceStatusBadge';
+import RecurringScheduleCard from '../../components/documents/RecurringScheduleCard';
+import PaymentLedgerCard from '../../components/documents/PaymentLedgerCard';
+import InvoiceRemindersCard from '../../components/documents/InvoiceRemindersCard';
+import CreditNotesCard from '../../components/documents/CreditNotesCard';
+import { formatMoney } from '../../lib/currency';
+import type { InvoiceLineItem, LineItemTax, TaxBreakdownEntry } from '../../types/documents';
 
 export default function InvoiceDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { fetchInvoiceById, sendInvoice, isLoading } = useInvoiceStore();
+  const { fetchInvoiceById, fetchInvoiceEvents, sendInvoice, isLoading } = useInvoiceStore();
 
   const [invoice, setInvoice] = useState<any>(null);
   const [events, setEvents] = useState<any[]>([]);
-  const [payments, setPayments] = useState<any[]>([]);
 
   useEffect(() => {
     if (id) {
@@ -26,7 +31,6 @@ export default function InvoiceDetailPage() {
     try {
       const data = await fetchInvoiceById(id);
       setInvoice(data);
-      setPayments(data.payments || []);
     } catch (error) {
       console.error('Failed to load invoice:', error);
     }
@@ -35,19 +39,7 @@ export default function InvoiceDetailPage() {
   const loadEvents = async () => {
     if (!id) return;
     try {
-      // TODO: Implement fetchInvoiceEvents in store
-      // const data = await fetchInvoiceEvents(id);
-      // setEvents(data);
-      
-      // Mock events for now
-      setEvents([
-        {
-          id: '1',
-          event_type: 'created',
-          created_at: new Date().toISOString(),
-          actor_type: 'user',
-        },
-      ]);
+      setEvents(await fetchInvoiceEvents(id));
     } catch (error) {
       console.error('Failed to load events:', error);
     }
@@ -83,8 +75,17 @@ export default function InvoiceDetailPage() {
       case 'paid':
       case 'partially_paid':
         return <CheckCircle className="w-5 h-5 text-success" />;
+      case 'refunded':
+        return <CreditCard className="w-5 h-5 text-warning" />;
       case 'overdue':
         return <Clock className="w-5 h-5 text-error" />;
+      case 'credit_note_issued':
+      case 'credit_note_applied':
+        return <FileMinus className="w-5 h-5 text-warning" />;
+      case 'credit_note_voided':
+        return <FileMinus className="w-5 h-5 text-base-content/50" />;
+      case 'voided':
+        return <Ban className="w-5 h-5 text-error" />;
       default:
         return <Clock className="w-5 h-5 text-base-content" />;
     }
@@ -107,6 +108,11 @@ export default function InvoiceDetailPage() {
     );
   }
 
+  // Laravel serializes the relation as line_items
+  const lineItems: InvoiceLineItem[] = invoice.line_items || invoice.lineItems || [];
+  const hasDiscounts = lineItems.some((item) => Number(item.discount_rate) > 0);
+  const hasTaxes = lineItems.some((item) => item.taxes?.length);
+
   return (
     <Layout>
     <div className="p-6">
@@ -120,7 +126,20 @@ export default function InvoiceDetailPage() {
             <h1 className="text-3xl font-bold text-base-content">
               {invoice.title || `Invoice ${invoice.invoice_number}`}
             </h1>
-            <p className="text-sm text-base-content/70 mt-1">{invoice.invoice_number}</p>
+            <p className="text-sm text-base-content/70 mt-1">
+              {invoice.invoice_number}
+              {invoice.schedule && (
+                <>
+                  {' · '}
+                  <Link
+                    to={`/documents/invoices/${invoice.schedule.template_invoice_id}`}
+                    className="link link-hover"
+                  >
+                    Generated from a recurring invoice
+                  </Link>
+                </>
+              )}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-3">
@@ -130,6 +149,11 @@ export default function InvoiceDetailPage() {
               <Send className="w-4 h-4" /> Send Invoice
             </button>
           )}
+          {['sent', 'viewed', 'overdue', 'partially_paid'].includes(invoice.status) && Number(invoice.amount_due) > 0 && (
+            <button onClick={handleSendInvoice} className="btn btn-outline btn-sm">
+              <Send className="w-4 h-4" /> {invoice.status === 'overdue' ? 'Send Reminder' : 'Resend'}
+            </button>
+          )}
           {invoice.pdf_path && (
             <button onClick={handleDownloadPdf} className="btn btn-ghost btn-sm">
               <FileDown className="w-4 h-4" /> Download PDF
@@ -178,19 +202,31 @@ export default function InvoiceDetailPage() {
                     <th className="text-base-content">Description</th>
                     <th className="text-base-content text-right">Qty</th>
                     <th className="text-base-content text-right">Unit Price</th>
+                    {hasDiscounts && <th className="text-base-content text-right">Discount</th>}
+                    {hasTaxes && <th className="text-base-content">Tax</th>}
                     <th className="text-base-content text-right">Amount</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {(invoice.lineItems || []).map((item: any) => (
+                  {lineItems.map((item) => (
                     <tr key={item.id}>
                       <td className="text-base-content">{item.description}</td>
                       <td className="text-base-content text-right">{item.quantity}</td>
                       <td className="text-base-content text-right">
-                        ${parseFloat(item.unit_price).toFixed(2)}
+                        {formatMoney(item.unit_price, invoice.currency)}
                       </td>
+                      {hasDiscounts && (
+                        <td className="text-base-content text-right">
+                          {Number(item.discount_rate) > 0 ? `${Number(item.discount_rate)}%` : ''}
+                        </td>
+                      )}
+                      {hasTaxes && (
+                        <td className="text-base-content/70 text-sm">
+                          {(item.taxes || []).map((tax: LineItemTax) => `${tax.name} ${tax.rate}%`).join(', ')}
+                        </td>
+                      )}
                       <td className="text-base-content text-right">
-                        ${parseFloat(item.amount).toFixed(2)}
+                        {formatMoney(item.amount, invoice.currency)}
                       </td>
                     </tr>
                   ))}
@@ -202,41 +238,81 @@ export default function InvoiceDetailPage() {
             <div className="mt-6 pt-4 border-t border-base-300 space-y-2">
               <div className="flex justify-between text-base-content">
                 <span>Subtotal</span>
-                <span className="font-medium">${parseFloat(invoice.subtotal).toFixed(2)}</span>
+                <span className="font-medium">{formatMoney(invoice.subtotal, invoice.currency)}</span>
               </div>
-              {invoice.tax_rate > 0 && (
+              {invoice.tax_breakdown?.length ? (
+                invoice.tax_breakdown.map((tax: TaxBreakdownEntry) => (
+                  <div key={`${tax.name}-${tax.rate}-${tax.is_compound}`} className="flex justify-between text-base-content">
+                    <span>
+                      {tax.name} ({tax.rate}% on {formatMoney(tax.taxable, invoice.currency)})
+                    </span>
+                    <span className="font-medium">{formatMoney(tax.amount, invoice.currency)}</span>
+                  </div>
+                ))
+              ) : invoice.tax_rate > 0 && (
                 <div className="flex justify-between text-base-content">
                   <span>Tax ({invoice.tax_rate}%)</span>
-                  <span className="font-medium">${parseFloat(invoice.tax_amount).toFixed(2)}</span>
+                  <span className="font-medium">{formatMoney(invoice.tax_amount, invoice.currency)}</span>
                 </div>
               )}
               {invoice.discount_rate > 0 && (
                 <div className="flex justify-between text-base-content">
                   <span>Discount ({invoice.discount_rate}%)</span>
                   <span className="font-medium text-error">
-                    -${parseFloat(invoice.discount_amount).toFixed(2)}
+                    -{formatMoney(invoice.discount_amount, invoice.currency)}
                   </span>
                 </div>
               )}
               <div className="flex justify-between text-lg font-bold text-base-content pt-2 border-t border-base-300">
                 <span>Total</span>
-                <span>${parseFloat(invoice.total).toFixed(2)}</span>
+                <span>{formatMoney(invoice.total, invoice.currency)}</span>
               </div>
-              {invoice.amount_paid > 0 && (
+              {invoice.exchange_rate && invoice.base_currency && invoice.base_currency !== invoice.currency && (
+                <div className="flex justify-between text-sm text-base-content/60">
+                  <span>
+                    1 {invoice.currency} = {Number(invoice.exchange_rate)} {invoice.base_currency}
+                  </span>
+                  <span>{formatMoney(Number(invoice.total) * Number(invoice.exchange_rate), invoice.base_currency)}</span>
+                </div>
+              )}
+              {(invoice.amount_paid > 0 || invoice.amount_credited > 0) && (
                 <>
-                  <div className="flex justify-between text-success">
-                    <span>Amount Paid</span>
-                    <span className="font-medium">${parseFloat(invoice.amount_paid).toFixed(2)}</span>
-                  </div>
+                  {invoice.amount_paid > 0 && (
+                    <div className="flex justify-between text-success">
+                      <span>Amount Paid</span>
+                      <span className="font-medium">{formatMoney(invoice.amount_paid, invoice.currency)}</span>
+                    </div>
+                  )}
+                  {invoice.amount_credited > 0 && (
+                    <div className="flex justify-between text-warning">
+                      <span>Credited</span>
+                      <span className="font-medium">-{formatMoney(invoice.amount_credited, invoice.currency)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-lg font-bold text-primary">
                     <span>Amount Due</span>
-                    <span>${parseFloat(invoice.amount_due).toFixed(2)}</span>
+                    <span>{formatMoney(invoice.amount_due, invoice.currency)}</span>
                   </div>
                 </>
               )}
             </div>
           </div>
 
+          {/* Payment Ledger */}
+          <PaymentLedgerCard invoiceId={invoice.id} invoiceStatus={invoice.status} currency={invoice.currency} onChange={loadInvoice} />
+
+          {/* Credit Notes */}
+          <CreditNotesCard
+            invoiceId={invoice.id}
+            invoiceStatus={invoice.status}
+            currency={invoice.currency}
+            amountPaid={Number(invoice.amount_paid)}
+            onChange={() => {
+              loadInvoice();
+              loadEvents();
+            }}
+          />
+
           {/* Payment Terms & Notes */}
           {(invoice.payment_terms || invoice.notes) && (
             <div className="card bg-base-200 shadow-xl p-6">
@@ -284,51 +360,19 @@ export default function InvoiceDetailPage() {
 
         {/* Sidebar */}
         <div className="space-y-6">
-          {/* Payments */}
-          {payments.length > 0 && (
-            <div className="card bg-base-200 shadow-xl p-6">
-              <h2 className="text-xl font-semibold mb-4 text-base-content">
-                <CreditCard className="w-5 h-5 inline mr-2" />
-                Payments
-              </h2>
-              <div className="space-y-3">
-                {payments.map((payment: any) => (
-                  <div key={payment.id} className="p-3 bg-base-300 rounded-lg">
-                    <div className="flex justify-between items-start mb-1">
-                      <span className="font-medium text-base-content">
-                        ${parseFloat(payment.amount).toFixed(2)}
-                      </span>
-                      <span
-                        className={`badge badge-sm ${
-                          payment.status === 'succeeded'
-                            ? 'badge-success'
-                            : payment.status === 'failed'
-                            ? 'badge-error'
-                            : 'badge-warning'
-                        }`}
-                      >
-                        {payment.status}
-                      </span>
-                    </div>
-                    <p className="text-xs text-base-content/70">
-                      {payment.processed_at
-                        ? new Date(payment.processed_at).toLocaleString()
-                        : 'Processing...'}
-                    </p>
-                    {payment.receipt_url && (
-                      <a
-                        href={payment.receipt_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-xs text-primary hover:underline mt-1 block"
-                      >
-                        View Receipt
-                      </a>
-                    )}
-                  </div>
-                ))}
-              </div>
-            </div>
+          {/* Recurring schedule (only template invoices can recur) */}
+          {!invoice.schedule_id && (
+            <RecurringScheduleCard invoiceId={invoice.id} issueDate={invoice.issue_date} />
+          )}
+
+          {/* Dunning reminders; remounted when new events come in so resends show up */}
+          {!['draft', 'cancelled', 'void'].includes(invoice.status) && (
+            <InvoiceRemindersCard
+              key={events.length}
+              invoiceId={invoice.id}
+              contactId={invoice.contact_id}
+              contactName={invoice.contact?.full_name}
+            />
           )}
 
           {/* Activity Timeline */}
@@ -346,6 +390,15 @@ export default function InvoiceDetailPage() {
                       <p className="text-sm text-base-content/70">
                         {new Date(event.created_at).toLocaleString()}
                       </p>
+                      {event.event_data?.credit_note_number && (
+                        <p className="text-sm text-base-content/70">
+                          {event.event_data.credit_note_number}
+                          {event.event_data.amount != null && ` · ${formatMoney(event.event_data.amount, invoice.currency)}`}
+                        </p>
+                      )}
+                      {event.event_data?.reason && (
+                        <p className="text-xs text-base-content/60">{event.event_data.reason}</p>
+                      )}
                       {event.actor_type === 'user' && (
                         <p className="text-xs text-base-content/50">By internal user</p>
                       )}
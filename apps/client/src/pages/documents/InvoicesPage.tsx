@@ -4,14 +4,19 @@ import {
   DocumentTextIcon,
   PlusIcon,
   MagnifyingGlassIcon,
+  ArrowPathIcon,
+  ChartBarIcon,
 } from '@heroicons/react/24/outline';
 import Layout from '../../components/Layout';
+import { Can } from '../../components/AuthGuard';
 import { useInvoiceStore } from '../../stores/invoices';
 import { InvoiceStatusBadge } from '../../components/documents/InvoiceStatusBadge';
+import { UpcomingInvoicesPanel } from '../../components/documents/UpcomingInvoicesPanel';
+import { DEFAULT_CURRENCY, formatMoney } from '../../lib/currency';
 import type { Invoice } from '../../types/documents';
 
 export default function InvoicesPage() {
-  const { invoices, isLoading, fetchInvoices } = useInvoiceStore();
+  const { invoices, summary, isLoading, fetchInvoices } = useInvoiceStore();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<Invoice['status'] | 'all'>('all');
 
@@ -29,13 +34,8 @@ export default function InvoicesPage() {
     return matchesSearch && matchesStatus;
   });
 
-  const totalOutstanding = (invoices || [])
-    .filter((inv) => inv.status !== 'paid' && inv.status !== 'cancelled')
-    .reduce((sum, inv) => sum + inv.amount_due, 0);
-
-  const totalPaid = (invoices || [])
-    .filter((inv) => inv.status === 'paid')
-    .reduce((sum, inv) => sum + inv.total, 0);
+  // Totals come from the API, converted to the company's base currency
+  const baseCurrency = summary?.base_currency ?? DEFAULT_CURRENCY;
 
   return (
     <Layout>
@@ -47,10 +47,18 @@ export default function InvoicesPage() {
             Manage and track your invoices
           </p>
         </div>
-        <Link to="/documents/invoices/create" className="btn btn-primary">
-          <PlusIcon className="w-5 h-5" />
-          New Invoice
-        </Link>
+        <div className="flex gap-2">
+          <Link to="/documents/invoices/aging" className="btn btn-outline">
+            <ChartBarIcon className="w-5 h-5" />
+            Receivables
+          </Link>
+          <Can action="create" resource="invoices">
+            <Link to="/documents/invoices/create" className="btn btn-primary">
+              <PlusIcon className="w-5 h-5" />
+              New Invoice
+            </Link>
+          </Can>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -58,7 +66,7 @@ export default function InvoicesPage() {
           <div className="card-body p-4">
             <div className="text-sm text-base-content/60">Total Outstanding</div>
             <div className="text-2xl font-bold text-warning">
-              ${totalOutstanding.toFixed(2)}
+              {formatMoney(summary?.outstanding, baseCurrency)}
             </div>
           </div>
         </div>
@@ -66,18 +74,27 @@ export default function InvoicesPage() {
           <div className="card-body p-4">
             <div className="text-sm text-base-content/60">Total Paid</div>
             <div className="text-2xl font-bold text-success">
-              ${totalPaid.toFixed(2)}
+              {formatMoney(summary?.paid, baseCurrency)}
             </div>
           </div>
         </div>
         <div className="card bg-base-200">
           <div className="card-body p-4">
             <div className="text-sm text-base-content/60">Total Invoices</div>
-            <div className="text-2xl font-bold">{(invoices || []).length}</div>
+            <div className="text-2xl font-bold">{summary?.count ?? (invoices || []).length}</div>
           </div>
         </div>
       </div>
 
+      {summary && summary.unconverted_currencies.length > 0 && (
+        <div className="alert alert-warning text-sm py-2">
+          Totals exclude invoices in {summary.unconverted_currencies.join(', ')}: no exchange rate to{' '}
+          {baseCurrency} is available. Add one in document settings.
+        </div>
+      )}
+
+      <UpcomingInvoicesPanel onChange={() => fetchInvoices()} />
+
       <div className="card bg-base-200">
         <div className="card-body p-4">
           <div className="flex gap-4">
@@ -103,6 +120,7 @@ export default function InvoicesPage() {
               <option value="partially_paid">Partially Paid</option>
               <option value="paid">Paid</option>
               <option value="overdue">Overdue</option>
+              <option value="void">Void</option>
             </select>
           </div>
         </div>
@@ -123,10 +141,12 @@ export default function InvoicesPage() {
                 : 'Get started by creating your first invoice'}
             </p>
             {!searchTerm && statusFilter === 'all' && (
-              <Link to="/documents/invoices/create" className="btn btn-primary mt-4">
-                <PlusIcon className="w-5 h-5" />
-                Create Invoice
-              </Link>
+              <Can action="create" resource="invoices">
+                <Link to="/documents/invoices/create" className="btn btn-primary mt-4">
+                  <PlusIcon className="w-5 h-5" />
+                  Create Invoice
+                </Link>
+              </Can>
             )}
           </div>
         </div>
@@ -158,6 +178,12 @@ export default function InvoicesPage() {
                     {invoice.title && (
                       <div className="text-sm text-base-content/60">{invoice.title}</div>
                     )}
+                    {invoice.schedule_id && (
+                      <span className="badge badge-ghost badge-xs gap-1">
+                        <ArrowPathIcon className="w-3 h-3" />
+                        Recurring
+                      </span>
+                    )}
                   </td>
                   <td>
                     {invoice.contact ? (
@@ -186,12 +212,12 @@ export default function InvoicesPage() {
                     </div>
                   </td>
                   <td className="text-right font-semibold">
-                    ${invoice.total.toFixed(2)}
+                    {formatMoney(invoice.total, invoice.currency)}
                   </td>
                   <td className="text-right">
                     {invoice.amount_due > 0 ? (
                       <span className="font-semibold">
-                        ${invoice.amount_due.toFixed(2)}
+                        {formatMoney(invoice.amount_due, invoice.currency)}
                       </span>
                     ) : (
                       <span className="text-success">Paid</span>
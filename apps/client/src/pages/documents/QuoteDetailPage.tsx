@@ -0,0 +1,482 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import axios from 'axios';
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ChevronLeftIcon,
+  ClockIcon,
+  DocumentTextIcon,
+  CurrencyDollarIcon,
+  EyeIcon,
+  PaperAirplaneIcon,
+  TrashIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import Layout from '../../components/Layout';
+import { useQuoteStore } from '../../stores/quotes';
+import { useContractStore } from '../../stores/contracts';
+import { usePermissions } from '../../hooks/usePermissions';
+import QuoteStatusBadge from '../../components/documents/QuoteStatusBadge';
+import { formatMoney } from '../../lib/currency';
+import type { Quote, QuoteConversion } from '../../types/documents';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+const getEventIcon = (eventType: string) => {
+  switch (eventType) {
+    case 'sent':
+    case 'resent':
+      return <PaperAirplaneIcon className="w-5 h-5 text-primary" />;
+    case 'viewed':
+      return <EyeIcon className="w-5 h-5 text-secondary" />;
+    case 'accepted':
+      return <CheckCircleIcon className="w-5 h-5 text-success" />;
+    case 'declined':
+    case 'send_failed':
+      return <XCircleIcon className="w-5 h-5 text-error" />;
+    case 'expired':
+      return <ClockIcon className="w-5 h-5 text-warning" />;
+    case 'converted':
+      return <ArrowPathIcon className="w-5 h-5 text-accent" />;
+    default:
+      return <ClockIcon className="w-5 h-5 text-info" />;
+  }
+};
+
+const formatEventType = (eventType: string) =>
+  eventType
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+export default function QuoteDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { fetchQuote, sendQuote, deleteQuote, convertQuote } = useQuoteStore();
+  const { templates, fetchTemplates } = useContractStore();
+  const { can } = usePermissions();
+
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [showConvert, setShowConvert] = useState(false);
+  const [conversion, setConversion] = useState<QuoteConversion>({ target: 'contract', due_days: 30 });
+  const [isConverting, setIsConverting] = useState(false);
+  const [convertError, setConvertError] = useState<string | null>(null);
+
+  const loadQuote = useCallback(async () => {
+    if (!id) return;
+    try {
+      setQuote(await fetchQuote(id));
+    } catch (error) {
+      console.error('Failed to load quote:', error);
+    }
+  }, [fetchQuote, id]);
+
+  useEffect(() => {
+    loadQuote();
+  }, [loadQuote]);
+
+  const handleSend = async () => {
+    if (!quote) return;
+    setIsSending(true);
+    try {
+      setQuote(await sendQuote(quote.id));
+    } catch (error) {
+      alert(errorMessage(error, 'Failed to send quote'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!quote || !confirm(`Delete ${quote.quote_number}?`)) return;
+    try {
+      await deleteQuote(quote.id);
+      navigate('/documents/quotes');
+    } catch (error) {
+      alert(errorMessage(error, 'Failed to delete quote'));
+    }
+  };
+
+  const openConvert = () => {
+    fetchTemplates();
+    setConversion({ target: can('create', 'contracts') ? 'contract' : 'invoice', due_days: 30 });
+    setConvertError(null);
+    setShowConvert(true);
+  };
+
+  const handleConvert = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quote) return;
+
+    setIsConverting(true);
+    setConvertError(null);
+    try {
+      const result = await convertQuote(quote.id, conversion);
+      navigate(result.target === 'contract' ? `/documents/contracts/${result.id}` : `/documents/invoices/${result.id}`);
+    } catch (error) {
+      setConvertError(errorMessage(error, 'Failed to convert quote'));
+      setIsConverting(false);
+    }
+  };
+
+  if (!quote) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <span className="loading loading-spinner loading-lg text-primary"></span>
+        </div>
+      </Layout>
+    );
+  }
+
+  const lineItems = quote.line_items || [];
+  const hasDiscounts = lineItems.some((item) => Number(item.discount_rate) > 0);
+  const hasTaxes = lineItems.some((item) => item.taxes?.length);
+  const events = quote.events || [];
+  const canEdit = can('update', 'quotes');
+  const canConvert = canEdit && quote.status === 'accepted' && (can('create', 'contracts') || can('create', 'invoices'));
+  const publicUrl = `${window.location.origin}/public/quotes/${quote.token}`;
+
+  return (
+    <Layout>
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-4">
+          <button onClick={() => navigate('/documents/quotes')} className="btn btn-ghost btn-sm">
+            <ChevronLeftIcon className="w-5 h-5" /> Back
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold text-base-content">
+              {quote.title || `Quote ${quote.quote_number}`}
+            </h1>
+            <p className="text-sm text-base-content/70 mt-1">{quote.quote_number}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <QuoteStatusBadge status={quote.status} />
+          {canEdit && quote.status === 'draft' && (
+            <>
+              <button onClick={handleDelete} className="btn btn-ghost btn-sm text-error">
+                <TrashIcon className="w-4 h-4" /> Delete
+              </button>
+              <button onClick={handleSend} className="btn btn-primary btn-sm" disabled={isSending}>
+                {isSending && <span className="loading loading-spinner loading-xs"></span>}
+                <PaperAirplaneIcon className="w-4 h-4" /> Send Quote
+              </button>
+            </>
+          )}
+          {canEdit && (quote.status === 'sent' || quote.status === 'viewed') && (
+            <button onClick={handleSend} className="btn btn-outline btn-sm" disabled={isSending}>
+              <PaperAirplaneIcon className="w-4 h-4" /> Resend
+            </button>
+          )}
+          {canConvert && (
+            <button onClick={openConvert} className="btn btn-success btn-sm">
+              <ArrowPathIcon className="w-4 h-4" /> Convert
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          {/* Converted document */}
+          {quote.status === 'converted' && (quote.contract || quote.invoice) && (
+            <div className="alert alert-success">
+              {quote.contract ? <DocumentTextIcon className="w-5 h-5" /> : <CurrencyDollarIcon className="w-5 h-5" />}
+              <span>
+                Converted into{' '}
+                {quote.contract ? (
+                  <Link to={`/documents/contracts/${quote.contract.id}`} className="link font-semibold">
+                    contract {quote.contract.contract_number || quote.contract.title}
+                  </Link>
+                ) : quote.invoice && (
+                  <Link to={`/documents/invoices/${quote.invoice.id}`} className="link font-semibold">
+                    invoice {quote.invoice.invoice_number}
+                  </Link>
+                )}
+                {quote.converted_at && ` on ${new Date(quote.converted_at).toLocaleDateString()}`}
+              </span>
+            </div>
+          )}
+
+          {/* Quote Info */}
+          <div className="card bg-base-200 shadow-xl p-6">
+            <h2 className="text-xl font-semibold mb-4 text-base-content">Quote Details</h2>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-base-content/70">Client</p>
+                <p className="font-medium text-base-content">{quote.contact?.full_name || 'N/A'}</p>
+              </div>
+              <div>
+                <p className="text-sm text-base-content/70">Project</p>
+                <p className="font-medium text-base-content">{quote.project?.name || 'N/A'}</p>
+              </div>
+              <div>
+                <p className="text-sm text-base-content/70">Issue Date</p>
+                <p className="font-medium text-base-content">
+                  {new Date(quote.issue_date).toLocaleDateString()}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-base-content/70">Valid Until</p>
+                <p className={`font-medium ${quote.status === 'expired' ? 'text-warning' : 'text-base-content'}`}>
+                  {new Date(quote.valid_until).toLocaleDateString()}
+                </p>
+              </div>
+              {quote.accepted_at && (
+                <div className="col-span-2">
+                  <p className="text-sm text-base-content/70">Accepted</p>
+                  <p className="font-medium text-success">
+                    By {quote.accepted_by} on {new Date(quote.accepted_at).toLocaleString()}
+                  </p>
+                </div>
+              )}
+              {quote.declined_at && (
+                <div className="col-span-2">
+                  <p className="text-sm text-base-content/70">Declined</p>
+                  <p className="font-medium text-error">{new Date(quote.declined_at).toLocaleString()}</p>
+                  {quote.decline_reason && <p className="text-sm text-base-content/80">{quote.decline_reason}</p>}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Line Items */}
+          <div className="card bg-base-200 shadow-xl p-6">
+            <h2 className="text-xl font-semibold mb-4 text-base-content">Line Items</h2>
+            <div className="overflow-x-auto">
+              <table className="table w-full">
+                <thead>
+                  <tr>
+                    <th className="text-base-content">Description</th>
+                    <th className="text-base-content text-right">Qty</th>
+                    <th className="text-base-content text-right">Unit Price</th>
+                    {hasDiscounts && <th className="text-base-content text-right">Discount</th>}
+                    {hasTaxes && <th className="text-base-content">Tax</th>}
+                    <th className="text-base-content text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lineItems.map((item) => (
+                    <tr key={item.id}>
+                      <td className="text-base-content">{item.description}</td>
+                      <td className="text-base-content text-right">{item.quantity}</td>
+                      <td className="text-base-content text-right">
+                        {formatMoney(item.unit_price, quote.currency)}
+                      </td>
+                      {hasDiscounts && (
+                        <td className="text-base-content text-right">
+                          {Number(item.discount_rate) > 0 ? `${Number(item.discount_rate)}%` : ''}
+                        </td>
+                      )}
+                      {hasTaxes && (
+                        <td className="text-base-content/70 text-sm">
+                          {(item.taxes || []).map((tax) => `${tax.name} ${tax.rate}%`).join(', ')}
+                        </td>
+                      )}
+                      <td className="text-base-content text-right">
+                        {formatMoney(item.amount, quote.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Totals */}
+            <div className="mt-6 pt-4 border-t border-base-300 space-y-2">
+              <div className="flex justify-between text-base-content">
+                <span>Subtotal</span>
+                <span className="font-medium">{formatMoney(quote.subtotal, quote.currency)}</span>
+              </div>
+              {(quote.tax_breakdown || []).map((tax) => (
+                <div key={`${tax.name}-${tax.rate}-${tax.is_compound}`} className="flex justify-between text-base-content">
+                  <span>
+                    {tax.name} ({tax.rate}% on {formatMoney(tax.taxable, quote.currency)})
+                  </span>
+                  <span className="font-medium">{formatMoney(tax.amount, quote.currency)}</span>
+                </div>
+              ))}
+              {Number(quote.discount_rate) > 0 && (
+                <div className="flex justify-between text-base-content">
+                  <span>Discount ({Number(quote.discount_rate)}%)</span>
+                  <span className="font-medium text-error">
+                    -{formatMoney(quote.discount_amount, quote.currency)}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg font-bold text-base-content pt-2 border-t border-base-300">
+                <span>Total</span>
+                <span>{formatMoney(quote.total, quote.currency)}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Terms & Notes */}
+          {(quote.terms || quote.notes) && (
+            <div className="card bg-base-200 shadow-xl p-6">
+              {quote.terms && (
+                <div className="mb-4">
+                  <h3 className="text-lg font-semibold mb-2 text-base-content">Terms</h3>
+                  <p className="text-base-content/80">{quote.terms}</p>
+                </div>
+              )}
+              {quote.notes && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-2 text-base-content">Notes</h3>
+                  <p className="text-base-content/80">{quote.notes}</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Public Link */}
+          {quote.token && quote.status !== 'draft' && (
+            <div className="card bg-base-200 shadow-xl p-6">
+              <h2 className="text-xl font-semibold mb-4 text-base-content">Public Quote Link</h2>
+              <div className="flex items-center gap-2">
+                <input type="text" value={publicUrl} readOnly className="input input-bordered flex-1 text-sm" />
+                <button
+                  onClick={() => {
+                    navigator.clipboard.writeText(publicUrl);
+                    alert('Link copied to clipboard!');
+                  }}
+                  className="btn btn-secondary btn-sm"
+                >
+                  Copy
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Activity Timeline */}
+          <div className="card bg-base-200 shadow-xl p-6">
+            <h2 className="text-xl font-semibold mb-4 text-base-content">Activity Timeline</h2>
+            <div className="space-y-4">
+              {events.length === 0 ? (
+                <p className="text-sm text-base-content/70">No events yet</p>
+              ) : (
+                events.map((event) => (
+                  <div key={event.id} className="flex items-start gap-3">
+                    <div className="mt-0.5">{getEventIcon(event.event_type)}</div>
+                    <div className="flex-1">
+                      <p className="font-medium text-base-content">{formatEventType(event.event_type)}</p>
+                      <p className="text-sm text-base-content/70">
+                        {new Date(event.created_at).toLocaleString()}
+                      </p>
+                      {event.event_data?.accepted_by && (
+                        <p className="text-sm text-base-content/70">By {event.event_data.accepted_by}</p>
+                      )}
+                      {(event.event_data?.contract_number || event.event_data?.invoice_number) && (
+                        <p className="text-sm text-base-content/70">
+                          {event.event_data.contract_number || event.event_data.invoice_number}
+                        </p>
+                      )}
+                      {event.event_data?.reason && (
+                        <p className="text-xs text-base-content/60">{event.event_data.reason}</p>
+                      )}
+                      {event.actor_type === 'user' && (
+                        <p className="text-xs text-base-content/50">By internal user</p>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {showConvert && (
+        <div className="modal modal-open">
+          <div className="modal-box bg-base-200">
+            <h3 className="font-semibold text-lg mb-4">Convert Quote</h3>
+            <form onSubmit={handleConvert} className="space-y-3">
+              {convertError && <div className="alert alert-error text-sm py-2">{convertError}</div>}
+              <div className="flex gap-4">
+                {can('create', 'contracts') && (
+                  <label className="label cursor-pointer gap-2">
+                    <input
+                      type="radio"
+                      className="radio radio-sm radio-primary"
+                      checked={conversion.target === 'contract'}
+                      onChange={() => setConversion({ ...conversion, target: 'contract' })}
+                    />
+                    <span className="label-text">Draft contract</span>
+                  </label>
+                )}
+                {can('create', 'invoices') && (
+                  <label className="label cursor-pointer gap-2">
+                    <input
+                      type="radio"
+                      className="radio radio-sm radio-primary"
+                      checked={conversion.target === 'invoice'}
+                      onChange={() => setConversion({ ...conversion, target: 'invoice' })}
+                    />
+                    <span className="label-text">Draft invoice</span>
+                  </label>
+                )}
+              </div>
+              {conversion.target === 'contract' ? (
+                <label className="form-control">
+                  <span className="label-text text-sm mb-1">Contract template</span>
+                  <select
+                    className="select select-bordered select-sm"
+                    required
+                    value={conversion.template_id ?? ''}
+                    onChange={(e) => setConversion({ ...conversion, template_id: e.target.value })}
+                  >
+                    <option value="">Select a template...</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="label-text-alt text-base-content/60 mt-1">
+                    The contract is priced at the quote total, with its line items attached.
+                  </span>
+                </label>
+              ) : (
+                <label className="form-control">
+                  <span className="label-text text-sm mb-1">Payment due in (days)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    max="365"
+                    className="input input-bordered input-sm"
+                    value={conversion.due_days ?? 30}
+                    onChange={(e) => setConversion({ ...conversion, due_days: parseInt(e.target.value, 10) || 0 })}
+                  />
+                  <span className="label-text-alt text-base-content/60 mt-1">
+                    Line items and taxes are copied from the quote.
+                  </span>
+                </label>
+              )}
+              <div className="modal-action">
+                <button type="button" className="btn btn-ghost btn-sm" onClick={() => setShowConvert(false)} disabled={isConverting}>
+                  Cancel
+                </button>
+                <button type="submit" className="btn btn-success btn-sm" disabled={isConverting}>
+                  {isConverting && <span className="loading loading-spinner loading-xs"></span>}
+                  Convert
+                </button>
+              </div>
+            </form>
+          </div>
+          <div className="modal-backdrop" onClick={() => !isConverting && setShowConvert(false)}></div>
+        </div>
+      )}
+    </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ClipboardDocumentListIcon,
+  PlusIcon,
+  MagnifyingGlassIcon,
+} from '@heroicons/react/24/outline';
+import Layout from '../../components/Layout';
+import { Can } from '../../components/AuthGuard';
+import { useQuoteStore } from '../../stores/quotes';
+import { QuoteStatusBadge } from '../../components/documents/QuoteStatusBadge';
+import { formatMoney } from '../../lib/currency';
+import type { Quote } from '../../types/documents';
+
+export default function QuotesPage() {
+  const { quotes, isLoading, fetchQuotes } = useQuoteStore();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<Quote['status'] | 'all'>('all');
+
+  useEffect(() => {
+    fetchQuotes();
+  }, [fetchQuotes]);
+
+  const filteredQuotes = (quotes || []).filter((quote) => {
+    const matchesSearch =
+      quote.quote_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      quote.title?.toLowerCase().includes(searchTerm.toLowerCase());
+
+    const matchesStatus = statusFilter === 'all' || quote.status === statusFilter;
+
+    return matchesSearch && matchesStatus;
+  });
+
+  const awaitingCount = (quotes || []).filter((quote) => quote.status === 'sent' || quote.status === 'viewed').length;
+  const acceptedCount = (quotes || []).filter((quote) => quote.status === 'accepted').length;
+
+  return (
+    <Layout>
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-semibold">Quotes</h1>
+          <p className="text-base-content/70 mt-1">
+            Estimates your clients can accept online
+          </p>
+        </div>
+        <Can action="create" resource="quotes">
+          <Link to="/documents/quotes/create" className="btn btn-primary">
+            <PlusIcon className="w-5 h-5" />
+            New Quote
+          </Link>
+        </Can>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="card bg-base-200">
+          <div className="card-body p-4">
+            <div className="text-sm text-base-content/60">Awaiting Response</div>
+            <div className="text-2xl font-bold text-info">{awaitingCount}</div>
+          </div>
+        </div>
+        <div className="card bg-base-200">
+          <div className="card-body p-4">
+            <div className="text-sm text-base-content/60">Accepted, Not Converted</div>
+            <div className="text-2xl font-bold text-success">{acceptedCount}</div>
+          </div>
+        </div>
+        <div className="card bg-base-200">
+          <div className="card-body p-4">
+            <div className="text-sm text-base-content/60">Total Quotes</div>
+            <div className="text-2xl font-bold">{(quotes || []).length}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="card bg-base-200">
+        <div className="card-body p-4">
+          <div className="flex gap-4">
+            <div className="flex-1 relative">
+              <MagnifyingGlassIcon className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-base-content/50" />
+              <input
+                type="text"
+                placeholder="Search quotes..."
+                className="input input-bordered w-full pl-10"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+            <select
+              className="select select-bordered"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as Quote['status'] | 'all')}
+            >
+              <option value="all">All Statuses</option>
+              <option value="draft">Draft</option>
+              <option value="sent">Sent</option>
+              <option value="viewed">Viewed</option>
+              <option value="accepted">Accepted</option>
+              <option value="declined">Declined</option>
+              <option value="expired">Expired</option>
+              <option value="converted">Converted</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : filteredQuotes.length === 0 ? (
+        <div className="card bg-base-200">
+          <div className="card-body items-center text-center py-12">
+            <ClipboardDocumentListIcon className="w-16 h-16 text-base-content/30" />
+            <h3 className="text-xl font-semibold mt-4">No quotes found</h3>
+            <p className="text-base-content/70 mt-2">
+              {searchTerm || statusFilter !== 'all'
+                ? 'Try adjusting your filters'
+                : 'Get started by creating your first quote'}
+            </p>
+            {!searchTerm && statusFilter === 'all' && (
+              <Can action="create" resource="quotes">
+                <Link to="/documents/quotes/create" className="btn btn-primary mt-4">
+                  <PlusIcon className="w-5 h-5" />
+                  Create Quote
+                </Link>
+              </Can>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Quote #</th>
+                <th>Client</th>
+                <th>Issue Date</th>
+                <th>Valid Until</th>
+                <th className="text-right">Total</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredQuotes.map((quote) => (
+                <tr key={quote.id} className="hover">
+                  <td>
+                    <Link
+                      to={`/documents/quotes/${quote.id}`}
+                      className="font-semibold hover:text-primary"
+                    >
+                      {quote.quote_number}
+                    </Link>
+                    {quote.title && (
+                      <div className="text-sm text-base-content/60">{quote.title}</div>
+                    )}
+                  </td>
+                  <td>
+                    {quote.contact ? (
+                      <div>
+                        <div>{quote.contact.full_name}</div>
+                        {quote.project && (
+                          <div className="text-sm text-base-content/60">
+                            {quote.project.name}
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-base-content/40">No client</span>
+                    )}
+                  </td>
+                  <td>{new Date(quote.issue_date).toLocaleDateString()}</td>
+                  <td>
+                    <div className={quote.status === 'expired' ? 'text-warning font-semibold' : ''}>
+                      {new Date(quote.valid_until).toLocaleDateString()}
+                    </div>
+                  </td>
+                  <td className="text-right font-semibold">
+                    {formatMoney(quote.total, quote.currency)}
+                  </td>
+                  <td>
+                    <QuoteStatusBadge status={quote.status} />
+                  </td>
+                  <td>
+                    <Link
+                      to={`/documents/quotes/${quote.id}`}
+                      className="btn btn-ghost btn-sm"
+                    >
+                      View
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+    </Layout>
+  );
+}
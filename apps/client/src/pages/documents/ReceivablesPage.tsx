@@ -0,0 +1,353 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import {
+  ArrowLeftIcon,
+  BellAlertIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  PaperAirplaneIcon,
+} from '@heroicons/react/24/outline';
+import Layout from '../../components/Layout';
+import { Can } from '../../components/AuthGuard';
+import { useInvoiceStore } from '../../stores/invoices';
+import { InvoiceStatusBadge } from '../../components/documents/InvoiceStatusBadge';
+import { formatMoney } from '../../lib/currency';
+import type { AgingBucket, AgingInvoice, InvoiceAging } from '../../types/documents';
+
+const BUCKETS: { key: AgingBucket; label: string; className: string }[] = [
+  { key: 'current', label: 'Current', className: 'text-success' },
+  { key: '1_30', label: '1–30 days', className: 'text-warning' },
+  { key: '31_60', label: '31–60 days', className: 'text-warning' },
+  { key: '61_90', label: '61–90 days', className: 'text-error' },
+  { key: '90_plus', label: '90+ days', className: 'text-error' },
+];
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+export default function ReceivablesPage() {
+  const { fetchAging, sendInvoice } = useInvoiceStore();
+  const [aging, setAging] = useState<InvoiceAging | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [bucketFilter, setBucketFilter] = useState<AgingBucket | 'all'>('all');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSending, setIsSending] = useState(false);
+  const [notice, setNotice] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+
+  const loadAging = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setAging(await fetchAging());
+    } catch (err) {
+      setNotice({ kind: 'error', text: errorMessage(err, 'Failed to load receivables') });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchAging]);
+
+  useEffect(() => {
+    loadAging();
+  }, [loadAging]);
+
+  const baseCurrency = aging?.base_currency;
+
+  const contacts = useMemo(() => {
+    if (!aging) return [];
+    if (bucketFilter === 'all') return aging.contacts;
+    return aging.contacts
+      .map((row) => ({ ...row, invoices: row.invoices.filter((invoice) => invoice.bucket === bucketFilter) }))
+      .filter((row) => row.invoices.length > 0);
+  }, [aging, bucketFilter]);
+
+  const visibleInvoices = contacts.flatMap((row) => row.invoices);
+  const overdueInvoices = visibleInvoices.filter((invoice) => invoice.days_past_due > 0);
+  const selectedInvoices = visibleInvoices.filter((invoice) => selected.has(invoice.id));
+
+  const rowKey = (contactId: string | undefined) => contactId ?? 'none';
+
+  const toggleExpanded = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const toggleSelected = (invoices: AgingInvoice[], checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      invoices.forEach((invoice) => (checked ? next.add(invoice.id) : next.delete(invoice.id)));
+      return next;
+    });
+  };
+
+  // Overdue invoices go out as payment reminders, the rest as a copy of the invoice
+  const handleBulkSend = async (invoices: AgingInvoice[]) => {
+    if (invoices.length === 0) return;
+    setIsSending(true);
+    setNotice(null);
+
+    const failures: string[] = [];
+    for (const invoice of invoices) {
+      try {
+        await sendInvoice(invoice.id);
+      } catch (err) {
+        failures.push(`${invoice.invoice_number}: ${errorMessage(err, 'could not be sent')}`);
+      }
+    }
+
+    const sent = invoices.length - failures.length;
+    setNotice(
+      failures.length > 0
+        ? { kind: 'error', text: `Sent ${sent} of ${invoices.length}. ${failures.join('; ')}` }
+        : { kind: 'success', text: `Sent ${sent} invoice${sent === 1 ? '' : 's'}` }
+    );
+    setSelected(new Set());
+    setIsSending(false);
+    await loadAging();
+  };
+
+  const maxDso = Math.max(1, ...(aging?.dso_trend ?? []).map((point) => point.dso ?? 0));
+  const latestDso = [...(aging?.dso_trend ?? [])].reverse().find((point) => point.dso !== null)?.dso;
+
+  return (
+    <Layout>
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link to="/documents/invoices" className="btn btn-ghost btn-sm gap-1 -ml-3 mb-1">
+            <ArrowLeftIcon className="w-4 h-4" />
+            Invoices
+          </Link>
+          <h1 className="text-3xl font-semibold">Accounts Receivable</h1>
+          <p className="text-base-content/70 mt-1">
+            Unpaid invoices by days past due{aging && ` as of ${new Date(aging.as_of).toLocaleDateString()}`}
+          </p>
+        </div>
+      </div>
+
+      {isLoading && !aging ? (
+        <div className="flex justify-center items-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : aging && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="card bg-base-200">
+              <div className="card-body p-4">
+                <div className="text-sm text-base-content/60">Total Outstanding</div>
+                <div className="text-2xl font-bold text-warning">
+                  {formatMoney(aging.totals.outstanding, baseCurrency)}
+                </div>
+                <div className="text-xs text-base-content/60">{aging.totals.invoice_count} unpaid invoices</div>
+              </div>
+            </div>
+            <div className="card bg-base-200">
+              <div className="card-body p-4">
+                <div className="text-sm text-base-content/60">Overdue</div>
+                <div className="text-2xl font-bold text-error">
+                  {formatMoney(aging.totals.outstanding - aging.totals.buckets.current, baseCurrency)}
+                </div>
+                <div className="text-xs text-base-content/60">{aging.totals.overdue_count} invoices past due</div>
+              </div>
+            </div>
+            <div className="card bg-base-200">
+              <div className="card-body p-4">
+                <div className="text-sm text-base-content/60">Days Sales Outstanding</div>
+                <div className="text-2xl font-bold">{latestDso != null ? `${latestDso} days` : '—'}</div>
+                <div className="text-xs text-base-content/60">This month</div>
+              </div>
+            </div>
+          </div>
+
+          {aging.unconverted_currencies.length > 0 && (
+            <div className="alert alert-warning text-sm py-2">
+              Totals exclude invoices in {aging.unconverted_currencies.join(', ')}: no exchange rate to{' '}
+              {baseCurrency} is available. Add one in document settings.
+            </div>
+          )}
+
+          {/* Aging buckets; click one to filter the table */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {BUCKETS.map((bucket) => (
+              <button
+                key={bucket.key}
+                onClick={() => setBucketFilter(bucketFilter === bucket.key ? 'all' : bucket.key)}
+                className={`card bg-base-200 text-left transition-colors hover:bg-base-300 ${
+                  bucketFilter === bucket.key ? 'ring-2 ring-primary' : ''
+                }`}
+              >
+                <div className="card-body p-4">
+                  <div className="text-sm text-base-content/60">{bucket.label}</div>
+                  <div className={`text-lg font-semibold ${bucket.className}`}>
+                    {formatMoney(aging.totals.buckets[bucket.key], baseCurrency)}
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* DSO trend */}
+          <div className="card bg-base-200">
+            <div className="card-body p-4">
+              <h2 className="font-semibold">Days sales outstanding</h2>
+              <div className="flex items-end gap-3 h-40 mt-2">
+                {aging.dso_trend.map((point) => (
+                  <div key={point.month} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+                    <span className="text-xs tabular-nums">{point.dso ?? '—'}</span>
+                    <div
+                      className="w-full max-w-12 bg-primary/70 rounded-t"
+                      style={{ height: `${((point.dso ?? 0) / maxDso) * 100}%` }}
+                      title={`Invoiced ${formatMoney(point.sales, baseCurrency)}, outstanding ${formatMoney(point.receivables, baseCurrency)}`}
+                    />
+                    <span className="text-xs text-base-content/60">{point.label}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {notice && (
+            <div className={`alert text-sm py-2 ${notice.kind === 'success' ? 'alert-success' : 'alert-error'}`}>
+              {notice.text}
+            </div>
+          )}
+
+          <Can action="update" resource="invoices">
+            <div className="flex flex-wrap gap-2 justify-end">
+              <button
+                onClick={() => handleBulkSend(overdueInvoices)}
+                disabled={isSending || overdueInvoices.length === 0}
+                className="btn btn-sm btn-outline gap-1"
+              >
+                <BellAlertIcon className="w-4 h-4" />
+                Remind all overdue ({overdueInvoices.length})
+              </button>
+              <button
+                onClick={() => handleBulkSend(selectedInvoices)}
+                disabled={isSending || selectedInvoices.length === 0}
+                className="btn btn-sm btn-primary gap-1"
+              >
+                {isSending ? (
+                  <span className="loading loading-spinner loading-xs"></span>
+                ) : (
+                  <PaperAirplaneIcon className="w-4 h-4" />
+                )}
+                Send selected ({selectedInvoices.length})
+              </button>
+            </div>
+          </Can>
+
+          {contacts.length === 0 ? (
+            <div className="card bg-base-200">
+              <div className="card-body items-center text-center py-12">
+                <h3 className="text-xl font-semibold">Nothing outstanding</h3>
+                <p className="text-base-content/70 mt-2">
+                  {bucketFilter === 'all' ? 'Every issued invoice has been paid' : 'No invoices in this bucket'}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th></th>
+                    <th>Client</th>
+                    {BUCKETS.map((bucket) => (
+                      <th key={bucket.key} className="text-right">{bucket.label}</th>
+                    ))}
+                    <th className="text-right">Outstanding</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {contacts.map((row) => {
+                    const key = rowKey(row.contact?.id);
+                    const isExpanded = expanded.has(key);
+                    const allSelected = row.invoices.every((invoice) => selected.has(invoice.id));
+                    return (
+                      <Fragment key={key}>
+                        <tr className="hover cursor-pointer" onClick={() => toggleExpanded(key)}>
+                          <td className="w-16">
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                className="checkbox checkbox-sm"
+                                checked={allSelected}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={(e) => toggleSelected(row.invoices, e.target.checked)}
+                              />
+                              {isExpanded ? (
+                                <ChevronDownIcon className="w-4 h-4" />
+                              ) : (
+                                <ChevronRightIcon className="w-4 h-4" />
+                              )}
+                            </div>
+                          </td>
+                          <td>
+                            <div className="font-semibold">{row.contact?.name ?? 'No client'}</div>
+                            <div className="text-sm text-base-content/60">
+                              {row.invoices.length} invoice{row.invoices.length === 1 ? '' : 's'}
+                              {row.oldest_days_past_due > 0 && ` · oldest ${row.oldest_days_past_due} days late`}
+                            </div>
+                          </td>
+                          {BUCKETS.map((bucket) => (
+                            <td key={bucket.key} className="text-right tabular-nums">
+                              {row.buckets[bucket.key] > 0 ? formatMoney(row.buckets[bucket.key], baseCurrency) : '—'}
+                            </td>
+                          ))}
+                          <td className="text-right font-semibold tabular-nums">
+                            {formatMoney(row.outstanding, baseCurrency)}
+                          </td>
+                        </tr>
+                        {isExpanded && row.invoices.map((invoice) => (
+                          <tr key={invoice.id} className="bg-base-200/50">
+                            <td>
+                              <input
+                                type="checkbox"
+                                className="checkbox checkbox-sm"
+                                checked={selected.has(invoice.id)}
+                                onChange={(e) => toggleSelected([invoice], e.target.checked)}
+                              />
+                            </td>
+                            <td colSpan={3}>
+                              <Link to={`/documents/invoices/${invoice.id}`} className="font-medium hover:text-primary">
+                                {invoice.invoice_number}
+                              </Link>
+                              {invoice.title && <span className="text-base-content/60"> · {invoice.title}</span>}
+                              <div className="text-xs text-base-content/60">
+                                Due {new Date(invoice.due_date).toLocaleDateString()}
+                                {invoice.days_past_due > 0 && ` · ${invoice.days_past_due} days late`}
+                                {invoice.last_sent_at &&
+                                  ` · last sent ${new Date(invoice.last_sent_at).toLocaleDateString()}`}
+                              </div>
+                            </td>
+                            <td colSpan={2}>
+                              <InvoiceStatusBadge status={invoice.status} />
+                            </td>
+                            <td colSpan={2} className="text-right tabular-nums">
+                              {formatMoney(invoice.amount_due, invoice.currency)}
+                              {invoice.currency !== baseCurrency && invoice.amount_due_base !== null && (
+                                <div className="text-xs text-base-content/60">
+                                  {formatMoney(invoice.amount_due_base, baseCurrency)}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+    </Layout>
+  );
+}
@@ -3,9 +3,14 @@ export { default as DocumentsLandingPage } from './DocumentsLandingPage';
 export { default as ContractsPage } from './ContractsPage';
 export { default as ContractTemplatesPage } from './ContractTemplatesPage';
 export { default as ContractTemplateBuilderPage } from './ContractTemplateBuilderPage';
+export { default as ContractClausesPage } from './ContractClausesPage';
 export { default as InvoicesPage } from './InvoicesPage';
 export { default as CreateContractPage } from './CreateContractPage';
 export { default as CreateInvoicePage } from './CreateInvoicePage';
 export { default as ContractDetailPage } from './ContractDetailPage';
 export { default as InvoiceDetailPage } from './InvoiceDetailPage';
+export { default as ReceivablesPage } from './ReceivablesPage';
+export { default as QuotesPage } from './QuotesPage';
+export { default as CreateQuotePage } from './CreateQuotePage';
+export { default as QuoteDetailPage } from './QuoteDetailPage';
 export { default as DocumentSettingsPage } from './DocumentSettingsPage';
@@ -3,6 +3,9 @@ import { useParams } from 'react-router-dom';
 import { CheckCircleIcon, DocumentTextIcon, XCircleIcon, ClockIcon } from '@heroicons/react/24/outline';
 import { useContractStore } from '../../stores/contracts';
 import { ContractStatusBadge } from '../../components/documents/ContractStatusBadge';
+import { contractSigningProgress } from '../../lib/contracts';
+import { SignatureCapture, type CapturedSignature } from '../../components/documents/SignatureCapture';
+import { ContractChangeRequestPanel } from '../../components/documents/ContractChangeRequestPanel';
 import type { Contract, TemplateSection } from '../../types/documents';
 
 export function PublicContractPage() {
@@ -10,6 +13,7 @@ export function PublicContractPage() {
   const { getPublicContract, signContract, isLoading } = useContractStore();
   const [contract, setContract] = useState<Contract | null>(null);
   const [signedBy, setSignedBy] = useState('');
+  const [signature, setSignature] = useState<CapturedSignature | null>(null);
   const [agreed, setAgreed] = useState(false);
   const [isSigning, setIsSigning] = useState(false);
   const [signed, setSigned] = useState(false);
@@ -26,7 +30,10 @@ export function PublicContractPage() {
     try {
       const data = await getPublicContract(token);
       setContract(data);
-      if (data.status === 'signed') {
+      if (data.current_signer) {
+        setSignedBy(data.current_signer.name);
+      }
+      if (data.status === 'signed' || data.current_signer?.status === 'signed') {
         setSigned(true);
       }
     } catch (error) {
@@ -36,14 +43,22 @@ export function PublicContractPage() {
   };
 
   const handleSign = async () => {
-    if (!agreed || !signedBy.trim() || !token) {
+    if (!agreed || !signedBy.trim() || !signature || !token) {
       return;
     }
 
     setIsSigning(true);
     setError(null);
     try {
-      await signContract(token, signedBy);
+      const updated = await signContract(token, {
+        signed_by: signedBy.trim(),
+        signer_email: contract?.current_signer?.email || contract?.contact?.email || undefined,
+        method: signature.method,
+        signature_image: signature.image,
+        typed_font: signature.typed_font,
+      });
+      // Keep this signer's view; only the contract's overall status changes
+      setContract((current) => (current ? { ...current, status: updated.status } : current));
       setSigned(true);
     } catch (error: any) {
       console.error('Failed to sign contract:', error);
@@ -169,6 +184,27 @@ export function PublicContractPage() {
     );
   }
 
+  const signers = contract.signers || [];
+  const currentSigner = contract.current_signer;
+
+  // This signer is done but others still have to sign
+  if (signed && contract.status !== 'signed') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-base-100 p-6">
+        <div className="card bg-base-200 max-w-2xl w-full">
+          <div className="card-body items-center text-center">
+            <CheckCircleIcon className="w-24 h-24 text-success" />
+            <h1 className="text-3xl font-bold mt-6">Your Signature Has Been Recorded</h1>
+            <p className="text-base-content/70 mt-4">
+              Thank you for signing. The contract is complete once everyone has signed, and you will receive a
+              copy of the signed document by email.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (signed || contract.status === 'signed') {
     return (
       <div className="min-h-screen flex items-center justify-center bg-base-100 p-6">
@@ -219,8 +255,23 @@ export function PublicContractPage() {
                   </p>
                 )}
               </div>
-              <ContractStatusBadge status={contract.status} />
+              <ContractStatusBadge status={contract.status} progress={contractSigningProgress(contract)} />
             </div>
+
+            {signers.length > 1 && (
+              <div className="mt-4 pt-4 border-t border-base-300 flex flex-wrap gap-2">
+                {signers.map((signer) => (
+                  <span
+                    key={signer.id}
+                    className={`badge gap-1 ${signer.status === 'signed' ? 'badge-success' : 'badge-ghost'}`}
+                  >
+                    {signer.status === 'signed' && <CheckCircleIcon className="w-3 h-3" />}
+                    {signer.name}
+                    {signer.id === currentSigner?.id && ' (you)'}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -285,8 +336,25 @@ export function PublicContractPage() {
           </div>
         </div>
 
+        {/* Change requests before signing */}
+        {token && (contract.status === 'sent' || contract.status === 'viewed') && !currentSigner?.signed_at && (
+          <ContractChangeRequestPanel token={token} contract={contract} defaultName={currentSigner?.name} />
+        )}
+
+        {/* Earlier signers in a sequential order still have to sign */}
+        {currentSigner && !currentSigner.can_sign && (
+          <div className="alert alert-info">
+            <ClockIcon className="w-6 h-6" />
+            <span>
+              You can sign once {currentSigner.waiting_on.join(', ') || 'the earlier signers'} have signed. We'll email
+              you when it's your turn.
+            </span>
+          </div>
+        )}
+
         {/* Sign Contract Section */}
-        {(contract.status === 'draft' || contract.status === 'sent' || contract.status === 'viewed') && (
+        {(contract.status === 'draft' || contract.status === 'sent' || contract.status === 'viewed') &&
+          (!currentSigner || currentSigner.can_sign) && (
           <div className="card bg-base-200">
             <div className="card-body p-6">
               <h2 className="text-2xl font-semibold mb-4">Sign Contract</h2>
@@ -311,6 +379,13 @@ export function PublicContractPage() {
                   />
                 </div>
 
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-medium">Your Signature *</span>
+                  </label>
+                  <SignatureCapture signerName={signedBy} onChange={setSignature} />
+                </div>
+
                 <div className="p-4 bg-base-300 rounded-lg">
                   <label className="flex items-start gap-3 cursor-pointer">
                     <input
@@ -327,7 +402,7 @@ export function PublicContractPage() {
 
                 <button
                   onClick={handleSign}
-                  disabled={!agreed || !signedBy.trim() || isSigning}
+                  disabled={!agreed || !signedBy.trim() || !signature || isSigning}
                   className="btn btn-primary w-full"
                 >
                   {isSigning ? (
@@ -342,7 +417,7 @@ export function PublicContractPage() {
 
                 <p className="text-xs text-base-content/60 text-center">
                   By clicking "Sign Contract", you agree that this constitutes a legal electronic signature.
-                  Your IP address and timestamp will be recorded.
+                  Your signature, IP address, browser and timestamp will be recorded with a fingerprint of this document.
                 </p>
               </div>
             </div>
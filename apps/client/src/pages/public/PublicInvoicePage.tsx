@@ -4,6 +4,7 @@ import { CheckCircleIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
 import { useInvoiceStore } from '../../stores/invoices';
 import { InvoiceStatusBadge } from '../../components/documents/InvoiceStatusBadge';
 import { StripePaymentForm } from '../../components/documents/StripePaymentForm';
+import { formatMoney } from '../../lib/currency';
 
 export function PublicInvoicePage() {
   const { token } = useParams<{ token: string }>();
@@ -86,6 +87,9 @@ export function PublicInvoicePage() {
     );
   }
 
+  const hasDiscounts = selectedInvoice.line_items?.some((item) => Number(item.discount_rate) > 0);
+  const hasTaxes = selectedInvoice.line_items?.some((item) => item.taxes?.length);
+
   return (
     <div className="min-h-screen bg-base-100 p-6">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -128,6 +132,8 @@ export function PublicInvoicePage() {
                     <th>Description</th>
                     <th className="text-right">Quantity</th>
                     <th className="text-right">Unit Price</th>
+                    {hasDiscounts && <th className="text-right">Discount</th>}
+                    {hasTaxes && <th>Tax</th>}
                     <th className="text-right">Amount</th>
                   </tr>
                 </thead>
@@ -136,9 +142,19 @@ export function PublicInvoicePage() {
                     <tr key={item.id}>
                       <td>{item.description}</td>
                       <td className="text-right">{item.quantity}</td>
-                      <td className="text-right">${item.unit_price.toFixed(2)}</td>
+                      <td className="text-right">{formatMoney(item.unit_price, selectedInvoice.currency)}</td>
+                      {hasDiscounts && (
+                        <td className="text-right">
+                          {Number(item.discount_rate) > 0 ? `${Number(item.discount_rate)}%` : ''}
+                        </td>
+                      )}
+                      {hasTaxes && (
+                        <td className="text-sm text-base-content/70">
+                          {(item.taxes || []).map((tax) => `${tax.name} ${tax.rate}%`).join(', ')}
+                        </td>
+                      )}
                       <td className="text-right font-semibold">
-                        ${item.amount.toFixed(2)}
+                        {formatMoney(item.amount, selectedInvoice.currency)}
                       </td>
                     </tr>
                   ))}
@@ -149,35 +165,44 @@ export function PublicInvoicePage() {
             <div className="mt-6 space-y-2">
               <div className="flex justify-between">
                 <span>Subtotal:</span>
-                <span>${selectedInvoice.subtotal.toFixed(2)}</span>
+                <span>{formatMoney(selectedInvoice.subtotal, selectedInvoice.currency)}</span>
               </div>
               {selectedInvoice.discount_amount > 0 && (
                 <div className="flex justify-between text-warning">
                   <span>Discount ({selectedInvoice.discount_rate}%):</span>
-                  <span>-${selectedInvoice.discount_amount.toFixed(2)}</span>
+                  <span>-{formatMoney(selectedInvoice.discount_amount, selectedInvoice.currency)}</span>
                 </div>
               )}
-              {selectedInvoice.tax_amount > 0 && (
+              {selectedInvoice.tax_breakdown?.length ? (
+                selectedInvoice.tax_breakdown.map((tax) => (
+                  <div key={`${tax.name}-${tax.rate}-${tax.is_compound}`} className="flex justify-between">
+                    <span>
+                      {tax.name} ({tax.rate}% on {formatMoney(tax.taxable, selectedInvoice.currency)}):
+                    </span>
+                    <span>{formatMoney(tax.amount, selectedInvoice.currency)}</span>
+                  </div>
+                ))
+              ) : selectedInvoice.tax_amount > 0 && (
                 <div className="flex justify-between">
                   <span>Tax ({selectedInvoice.tax_rate}%):</span>
-                  <span>${selectedInvoice.tax_amount.toFixed(2)}</span>
+                  <span>{formatMoney(selectedInvoice.tax_amount, selectedInvoice.currency)}</span>
                 </div>
               )}
               <div className="flex justify-between text-2xl font-bold pt-4 border-t border-base-300">
                 <span>Total:</span>
                 <span>
-                  ${selectedInvoice.total.toFixed(2)} {selectedInvoice.currency}
+                  {formatMoney(selectedInvoice.total, selectedInvoice.currency)}
                 </span>
               </div>
               {selectedInvoice.amount_paid > 0 && (
                 <>
                   <div className="flex justify-between text-success">
                     <span>Amount Paid:</span>
-                    <span>${selectedInvoice.amount_paid.toFixed(2)}</span>
+                    <span>{formatMoney(selectedInvoice.amount_paid, selectedInvoice.currency)}</span>
                   </div>
                   <div className="flex justify-between text-xl font-bold">
                     <span>Amount Due:</span>
-                    <span>${selectedInvoice.amount_due.toFixed(2)}</span>
+                    <span>{formatMoney(selectedInvoice.amount_due, selectedInvoice.currency)}</span>
                   </div>
                 </>
               )}
@@ -201,7 +226,7 @@ export function PublicInvoicePage() {
                 />
               ) : (
                 <button onClick={handlePayNow} className="btn btn-primary w-full">
-                  Pay ${selectedInvoice.amount_due.toFixed(2)} Now
+                  Pay {formatMoney(selectedInvoice.amount_due, selectedInvoice.currency)} Now
                 </button>
               )}
             </div>
@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import axios from 'axios';
+import { CheckCircleIcon, ClipboardDocumentListIcon, XCircleIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { useQuoteStore } from '../../stores/quotes';
+import { QuoteStatusBadge } from '../../components/documents/QuoteStatusBadge';
+import { formatMoney } from '../../lib/currency';
+import type { Quote } from '../../types/documents';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+export function PublicQuotePage() {
+  const { token } = useParams<{ token: string }>();
+  const { getPublicQuote, acceptQuote, declineQuote } = useQuoteStore();
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [acceptedBy, setAcceptedBy] = useState('');
+  const [agreed, setAgreed] = useState(false);
+  const [isDeclining, setIsDeclining] = useState(false);
+  const [declineReason, setDeclineReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuote = useCallback(async () => {
+    if (!token) return;
+    try {
+      setQuote(await getPublicQuote(token));
+    } catch (err) {
+      console.error('Failed to load quote:', err);
+      setNotFound(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getPublicQuote, token]);
+
+  useEffect(() => {
+    loadQuote();
+  }, [loadQuote]);
+
+  const handleAccept = async () => {
+    if (!token || !agreed || !acceptedBy.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      setQuote(await acceptQuote(token, acceptedBy.trim()));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to accept quote'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!token) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      setQuote(await declineQuote(token, declineReason.trim() || undefined));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to decline quote'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-base-100">
+        <span className="loading loading-spinner loading-lg"></span>
+      </div>
+    );
+  }
+
+  if (notFound || !quote) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-base-100 p-6">
+        <div className="card bg-base-200 max-w-2xl w-full">
+          <div className="card-body items-center text-center">
+            <ClipboardDocumentListIcon className="w-24 h-24 text-base-content/30" />
+            <h1 className="text-3xl font-bold mt-6">Quote Not Found</h1>
+            <p className="text-base-content/70 mt-4">
+              The quote you're looking for doesn't exist or has been removed.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const lineItems = quote.line_items || [];
+  const isOpen = quote.status === 'sent' || quote.status === 'viewed';
+  const isAccepted = quote.status === 'accepted' || quote.status === 'converted';
+
+  return (
+    <div className="min-h-screen bg-base-100 p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="card bg-base-200">
+          <div className="card-body p-6">
+            <div className="flex justify-between items-start flex-wrap gap-4">
+              <div>
+                {quote.company && <p className="text-sm text-base-content/60">{quote.company.name}</p>}
+                <h1 className="text-3xl font-bold">{quote.title || `Quote ${quote.quote_number}`}</h1>
+                <p className="text-base-content/70 mt-2">Quote #{quote.quote_number}</p>
+                {quote.contact && (
+                  <p className="text-sm text-base-content/60 mt-1">Prepared for {quote.contact.full_name}</p>
+                )}
+              </div>
+              <div className="text-right space-y-1">
+                <QuoteStatusBadge status={quote.status} />
+                <p className="text-sm text-base-content/60">
+                  Issued {new Date(quote.issue_date).toLocaleDateString()}
+                </p>
+                <p className={`text-sm ${quote.status === 'expired' ? 'text-warning' : 'text-base-content/60'}`}>
+                  Valid until {new Date(quote.valid_until).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Outcome */}
+        {isAccepted && (
+          <div className="alert alert-success">
+            <CheckCircleIcon className="w-6 h-6" />
+            <span>
+              Accepted by {quote.accepted_by}
+              {quote.accepted_at && ` on ${new Date(quote.accepted_at).toLocaleString()}`}. Thank you!
+            </span>
+          </div>
+        )}
+        {quote.status === 'declined' && (
+          <div className="alert alert-error">
+            <XCircleIcon className="w-6 h-6" />
+            <span>This quote was declined.</span>
+          </div>
+        )}
+        {quote.status === 'expired' && (
+          <div className="alert alert-warning">
+            <ClockIcon className="w-6 h-6" />
+            <span>This quote has expired. Please contact the sender for an updated quote.</span>
+          </div>
+        )}
+
+        {/* Line Items */}
+        <div className="card bg-base-200">
+          <div className="card-body p-6">
+            <div className="overflow-x-auto">
+              <table className="table w-full">
+                <thead>
+                  <tr>
+                    <th>Description</th>
+                    <th className="text-right">Qty</th>
+                    <th className="text-right">Unit Price</th>
+                    <th className="text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lineItems.map((item) => (
+                    <tr key={item.id}>
+                      <td>
+                        {item.description}
+                        {Number(item.discount_rate) > 0 && (
+                          <span className="text-sm text-base-content/60"> ({Number(item.discount_rate)}% off)</span>
+                        )}
+                      </td>
+                      <td className="text-right">{item.quantity}</td>
+                      <td className="text-right">{formatMoney(item.unit_price, quote.currency)}</td>
+                      <td className="text-right">{formatMoney(item.amount, quote.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="mt-6 pt-4 border-t border-base-300 space-y-2 max-w-sm ml-auto">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>{formatMoney(quote.subtotal, quote.currency)}</span>
+              </div>
+              {(quote.tax_breakdown || []).map((tax) => (
+                <div key={`${tax.name}-${tax.rate}-${tax.is_compound}`} className="flex justify-between">
+                  <span>{tax.name} ({tax.rate}%)</span>
+                  <span>{formatMoney(tax.amount, quote.currency)}</span>
+                </div>
+              ))}
+              {Number(quote.discount_rate) > 0 && (
+                <div className="flex justify-between">
+                  <span>Discount ({Number(quote.discount_rate)}%)</span>
+                  <span>-{formatMoney(quote.discount_amount, quote.currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-xl font-bold text-primary pt-2 border-t border-base-300">
+                <span>Total</span>
+                <span>{formatMoney(quote.total, quote.currency)}</span>
+              </div>
+            </div>
+
+            {(quote.terms || quote.notes) && (
+              <div className="mt-8 pt-6 border-t border-base-300 space-y-4">
+                {quote.terms && (
+                  <div>
+                    <h3 className="font-semibold mb-1">Terms</h3>
+                    <p className="text-base-content/80 whitespace-pre-line">{quote.terms}</p>
+                  </div>
+                )}
+                {quote.notes && (
+                  <div>
+                    <h3 className="font-semibold mb-1">Notes</h3>
+                    <p className="text-base-content/80 whitespace-pre-line">{quote.notes}</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Respond */}
+        {isOpen && (
+          <div className="card bg-base-200">
+            <div className="card-body p-6">
+              <h2 className="text-2xl font-semibold mb-4">{isDeclining ? 'Decline Quote' : 'Accept Quote'}</h2>
+
+              {error && (
+                <div className="alert alert-error mb-4">
+                  <span>{error}</span>
+                </div>
+              )}
+
+              {isDeclining ? (
+                <div className="space-y-4">
+                  <div className="form-control">
+                    <label className="label">
+                      <span className="label-text font-medium">Reason (optional)</span>
+                    </label>
+                    <textarea
+                      className="textarea textarea-bordered"
+                      rows={3}
+                      maxLength={500}
+                      placeholder="Let us know why, so we can follow up"
+                      value={declineReason}
+                      onChange={(e) => setDeclineReason(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-3">
+                    <button className="btn btn-ghost" onClick={() => setIsDeclining(false)} disabled={isSubmitting}>
+                      Back
+                    </button>
+                    <button className="btn btn-error" onClick={handleDecline} disabled={isSubmitting}>
+                      {isSubmitting && <span className="loading loading-spinner loading-sm"></span>}
+                      Decline Quote
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="form-control">
+                    <label className="label">
+                      <span className="label-text font-medium">Your Full Name *</span>
+                    </label>
+                    <input
+                      type="text"
+                      placeholder="Enter your full name"
+                      className="input input-bordered"
+                      value={acceptedBy}
+                      onChange={(e) => setAcceptedBy(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="p-4 bg-base-300 rounded-lg">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-primary mt-1"
+                        checked={agreed}
+                        onChange={(e) => setAgreed(e.target.checked)}
+                      />
+                      <span className="text-sm">
+                        I accept this quote of {formatMoney(quote.total, quote.currency)} and its terms.
+                      </span>
+                    </label>
+                  </div>
+
+                  <div className="flex justify-end gap-3">
+                    <button className="btn btn-ghost" onClick={() => setIsDeclining(true)} disabled={isSubmitting}>
+                      Decline
+                    </button>
+                    <button
+                      className="btn btn-primary"
+                      onClick={handleAccept}
+                      disabled={isSubmitting || !agreed || !acceptedBy.trim()}
+                    >
+                      {isSubmitting && <span className="loading loading-spinner loading-sm"></span>}
+                      Accept Quote
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,3 +2,4 @@
 export { PublicContractPage } from './PublicContractPage';
 export { PublicInvoicePage } from './PublicInvoicePage';
 
+export { PublicQuotePage } from './PublicQuotePage';
@@ -0,0 +1,202 @@
+import { create } from 'zustand'
+import axios from 'axios'
+import { api } from '../lib/api'
+import { useAuthStore, type Company } from './auth'
+
+// Types
+export type CompanyRole = 'owner' | 'manager' | 'staff' | 'agent'
+
+export interface CompanyMember {
+  id: string
+  first_name: string
+  last_name: string | null
+  full_name: string
+  email: string
+  avatar_url: string | null
+  pivot: {
+    role_in_company: CompanyRole
+    is_active: boolean
+    joined_at: string | null
+  }
+}
+
+export interface CompanyInvitation {
+  id: string
+  email: string
+  role_in_company: Exclude<CompanyRole, 'owner'>
+  expires_at: string
+  created_at: string
+  inviter: {
+    id: string
+    first_name: string
+    last_name: string | null
+    email: string
+  } | null
+}
+
+export interface CompanyDetails extends Omit<Company, 'pivot'> {
+  billing_cycle: 'monthly' | 'yearly' | null
+  settings: Record<string, unknown> | null
+  role: CompanyRole
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+type ActionResult = { success: boolean; error?: string }
+
+export interface CompanyState {
+  // State
+  details: CompanyDetails | null
+  members: CompanyMember[]
+  invitations: CompanyInvitation[]
+  isLoading: boolean
+  error: string | null
+
+  // Actions
+  fetchDetails: (companyId: string) => Promise<void>
+  updateCompany: (companyId: string, data: { name?: string; slug?: string; logo_url?: string | null }) => Promise<ActionResult>
+  fetchMembers: (companyId: string) => Promise<void>
+  updateMember: (companyId: string, userId: string, data: { role_in_company?: CompanyRole; is_active?: boolean }) => Promise<ActionResult>
+  removeMember: (companyId: string, userId: string) => Promise<ActionResult>
+  fetchInvitations: (companyId: string) => Promise<void>
+  inviteMember: (companyId: string, email: string, role: Exclude<CompanyRole, 'owner'>) => Promise<ActionResult>
+  cancelInvitation: (companyId: string, invitationId: string) => Promise<ActionResult>
+  resendInvitation: (companyId: string, invitationId: string) => Promise<ActionResult>
+  acceptInvitation: (token: string) => Promise<ActionResult & { companyId?: string }>
+}
+
+const errorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data
+    const firstFieldError = data?.errors ? Object.values(data.errors as Record<string, string[]>)[0]?.[0] : undefined
+    return firstFieldError || data?.message || error.message || fallback
+  }
+  return error instanceof Error ? error.message : fallback
+}
+
+export const useCompanyStore = create<CompanyState>()((set, get) => ({
+  details: null,
+  members: [],
+  invitations: [],
+  isLoading: false,
+  error: null,
+
+  fetchDetails: async (companyId) => {
+    set({ isLoading: true, error: null })
+    try {
+      const response = await api.get(`/api/v1/companies/${companyId}`)
+      set({ details: response.data.data, isLoading: false })
+    } catch (error) {
+      set({ error: errorMessage(error, 'Failed to load company'), isLoading: false })
+    }
+  },
+
+  updateCompany: async (companyId, data) => {
+    try {
+      const response = await api.put(`/api/v1/companies/${companyId}`, data)
+      const updated = response.data.data
+
+      set((state) => ({
+        details: state.details ? { ...state.details, ...updated } : state.details,
+      }))
+
+      // Keep the active company in the auth store (header, switcher) in sync
+      const { company, setActiveCompany } = useAuthStore.getState()
+      if (company?.id === companyId) {
+        setActiveCompany({
+          ...company,
+          name: updated.name,
+          slug: updated.slug,
+          logo_url: updated.logo_url,
+        }, false)
+      }
+
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to update company') }
+    }
+  },
+
+  fetchMembers: async (companyId) => {
+    try {
+      const response = await api.get(`/api/v1/companies/${companyId}/members`)
+      set({ members: response.data.data || [] })
+    } catch (error) {
+      set({ error: errorMessage(error, 'Failed to load team members') })
+    }
+  },
+
+  updateMember: async (companyId, userId, data) => {
+    try {
+      await api.put(`/api/v1/companies/${companyId}/members/${userId}`, data)
+      set((state) => ({
+        members: state.members.map((m) =>
+          m.id === userId ? { ...m, pivot: { ...m.pivot, ...data } } : m
+        ),
+      }))
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to update member') }
+    }
+  },
+
+  removeMember: async (companyId, userId) => {
+    try {
+      await api.delete(`/api/v1/companies/${companyId}/members/${userId}`)
+      set((state) => ({ members: state.members.filter((m) => m.id !== userId) }))
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to remove member') }
+    }
+  },
+
+  fetchInvitations: async (companyId) => {
+    try {
+      const response = await api.get(`/api/v1/companies/${companyId}/invitations`)
+      set({ invitations: response.data.data || [] })
+    } catch {
+      // Only owners and managers can see invitations
+      set({ invitations: [] })
+    }
+  },
+
+  inviteMember: async (companyId, email, role) => {
+    try {
+      await api.post(`/api/v1/companies/${companyId}/invitations`, { email, role_in_company: role })
+      await get().fetchInvitations(companyId)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to send invitation') }
+    }
+  },
+
+  cancelInvitation: async (companyId, invitationId) => {
+    try {
+      await api.delete(`/api/v1/companies/${companyId}/invitations/${invitationId}`)
+      set((state) => ({ invitations: state.invitations.filter((i) => i.id !== invitationId) }))
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to cancel invitation') }
+    }
+  },
+
+  resendInvitation: async (companyId, invitationId) => {
+    try {
+      await api.post(`/api/v1/companies/${companyId}/invitations/${invitationId}/resend`)
+      await get().fetchInvitations(companyId)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to resend invitation') }
+    }
+  },
+
+  acceptInvitation: async (token) => {
+    try {
+      const response = await api.post(`/api/v1/company-invitations/${token}/accept`)
+      return { success: true, companyId: response.data.data.company_id }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to accept invitation') }
+    }
+  },
+}))
@@ -1,5 +1,24 @@
 import { create } from 'zustand';
-import type { Contract, ContractTemplate, ContractEvent } from '../types/documents';
+import type {
+  Contract,
+  ContractClause,
+  ContractClauseInput,
+  ContractTemplate,
+  ContractEvent,
+  ContractSignatureCertificate,
+  ContractSignatureInput,
+  ContractComment,
+  ContractCommentInput,
+  ContractRenewalList,
+  ContractRenewalSettings,
+  ContractRevisionInput,
+  ContractVersion,
+  ContractSigner,
+  CustomMergeFieldInput,
+  MergeField,
+  ContractSignerInput,
+  SigningMode,
+} from '../types/documents';
 import { api } from '../lib/api';
 
 interface ContractState {
@@ -8,11 +27,15 @@ interface ContractState {
   selectedContract: Contract | null;
   selectedTemplate: ContractTemplate | null;
   contractEvents: ContractEvent[];
+  /** Built-in and company custom merge fields */
+  mergeFields: MergeField[];
+  customMergeFields: MergeField[];
+  clauses: ContractClause[];
   isLoading: boolean;
   error: string | null;
 
   // Contract Actions
-  fetchContracts: () => Promise<void>;
+  fetchContracts: (params?: Record<string, string>) => Promise<void>;
   fetchContractById: (id: string) => Promise<Contract>;
   createContract: (data: Partial<Contract>) => Promise<Contract>;
   updateContract: (id: string, data: Partial<Contract>) => Promise<Contract>;
@@ -20,6 +43,15 @@ interface ContractState {
   sendContract: (id: string) => Promise<void>;
   generatePdf: (id: string) => Promise<void>;
   fetchContractEvents: (id: string) => Promise<ContractEvent[]>;
+  fetchSignatureCertificate: (id: string) => Promise<ContractSignatureCertificate>;
+  saveSigners: (id: string, signingMode: SigningMode, signers: ContractSignerInput[]) => Promise<ContractSigner[]>;
+  reviseContract: (id: string, data: ContractRevisionInput) => Promise<Contract>;
+  fetchContractVersions: (id: string) => Promise<ContractVersion[]>;
+  fetchContractComments: (id: string) => Promise<ContractComment[]>;
+  resolveContractComment: (id: string, commentId: string, resolved: boolean) => Promise<ContractComment>;
+  fetchRenewals: (days: number) => Promise<ContractRenewalList>;
+  updateRenewalSettings: (id: string, settings: ContractRenewalSettings) => Promise<Contract>;
+  renewContract: (id: string) => Promise<Contract>;
   setSelectedContract: (contract: Contract | null) => void;
 
   // Template Actions
@@ -29,7 +61,23 @@ interface ContractState {
   updateTemplate: (id: string, data: Partial<ContractTemplate>) => Promise<ContractTemplate>;
   deleteTemplate: (id: string) => Promise<void>;
   duplicateTemplate: (id: string) => Promise<ContractTemplate>;
+  exportTemplate: (template: ContractTemplate) => Promise<void>;
+  importTemplate: (file: File, name?: string) => Promise<ContractTemplate>;
   setSelectedTemplate: (template: ContractTemplate | null) => void;
+
+  // Merge Field Actions
+  fetchMergeFields: (templateId?: string) => Promise<MergeField[]>;
+  fetchCustomMergeFields: () => Promise<void>;
+  createCustomMergeField: (data: CustomMergeFieldInput) => Promise<MergeField>;
+  updateCustomMergeField: (id: string, data: Omit<CustomMergeFieldInput, 'key'>) => Promise<MergeField>;
+  deleteCustomMergeField: (id: string) => Promise<void>;
+
+  // Clause Library Actions
+  fetchClauses: () => Promise<ContractClause[]>;
+  fetchClause: (id: string) => Promise<ContractClause>;
+  createClause: (data: ContractClauseInput) => Promise<ContractClause>;
+  updateClause: (id: string, data: Partial<ContractClauseInput>) => Promise<ContractClause>;
+  deleteClause: (id: string) => Promise<void>;
   generateContractWithAI: (prompt: string, options?: { contract_type?: string; client_name?: string; project_name?: string }) => Promise<{ sections: any[]; clickwrap_text: string }>;
   generateContractSectionWithAI: (
     prompt: string,
@@ -47,25 +95,29 @@ interface ContractState {
   generateContractFromChat: (prompt: string, contractType?: string) => Promise<void>;
 
   // Public Actions (no auth required)
-  signContract: (token: string, signedBy: string) => Promise<void>;
+  signContract: (token: string, data: ContractSignatureInput) => Promise<Contract>;
   getPublicContract: (token: string) => Promise<Contract>;
+  commentOnContract: (token: string, data: ContractCommentInput) => Promise<ContractComment>;
 }
 
-export const useContractStore = create<ContractState>((set) => ({
+export const useContractStore = create<ContractState>((set, get) => ({
   contracts: [],
   templates: [],
   selectedContract: null,
   selectedTemplate: null,
   contractEvents: [],
+  mergeFields: [],
+  customMergeFields: [],
+  clauses: [],
   isLoading: false,
   error: null,
   pendingAISections: null,
 
   // Contract Actions
-  fetchContracts: async () => {
+  fetchContracts: async (params) => {
     set({ isLoading: true, error: null });
     try {
-      const response = await api.get('/api/v1/contracts');
+      const response = await api.get('/api/v1/contracts', { params });
       set({ contracts: response.data.data || [], isLoading: false });
     } catch (error: any) {
       console.error('Failed to fetch contracts:', error);
@@ -172,6 +224,80 @@ export const useContractStore = create<ContractState>((set) => ({
     }
   },
 
+  fetchSignatureCertificate: async (id: string) => {
+    const response = await api.get(`/api/v1/contracts/${id}/signatures`);
+    return {
+      signatures: response.data.data || [],
+      document_hash: response.data.meta.document_hash,
+    };
+  },
+
+  saveSigners: async (id: string, signingMode: SigningMode, signers: ContractSignerInput[]) => {
+    const response = await api.put(`/api/v1/contracts/${id}/signers`, { signing_mode: signingMode, signers });
+    const saved: ContractSigner[] = response.data.data;
+    set((state) => ({
+      selectedContract:
+        state.selectedContract?.id === id
+          ? { ...state.selectedContract, signing_mode: signingMode, signers: saved }
+          : state.selectedContract,
+    }));
+    return saved;
+  },
+
+  reviseContract: async (id: string, data: ContractRevisionInput) => {
+    const response = await api.put(`/api/v1/contracts/${id}`, data);
+    const contract: Contract = response.data.data;
+    set((state) => ({
+      contracts: state.contracts.map((c) => (c.id === id ? { ...c, ...contract } : c)),
+      selectedContract:
+        state.selectedContract?.id === id ? { ...state.selectedContract, ...contract } : state.selectedContract,
+    }));
+    return contract;
+  },
+
+  fetchContractVersions: async (id: string) => {
+    const response = await api.get(`/api/v1/contracts/${id}/versions`);
+    return response.data.data || [];
+  },
+
+  fetchContractComments: async (id: string) => {
+    const response = await api.get(`/api/v1/contracts/${id}/comments`);
+    return response.data.data || [];
+  },
+
+  resolveContractComment: async (id: string, commentId: string, resolved: boolean) => {
+    const response = await api.patch(`/api/v1/contracts/${id}/comments/${commentId}`, { resolved });
+    return response.data.data;
+  },
+
+  fetchRenewals: async (days: number) => {
+    const response = await api.get('/api/v1/contracts/renewals', { params: { days } });
+    return { renewals: response.data.data || [], without_term_end: response.data.without_term_end || [] };
+  },
+
+  updateRenewalSettings: async (id: string, settings: ContractRenewalSettings) => {
+    const response = await api.put(`/api/v1/contracts/${id}/renewal-settings`, settings);
+    const contract: Contract = response.data.data;
+    set((state) => ({
+      contracts: state.contracts.map((c) => (c.id === id ? { ...c, ...settings } : c)),
+      selectedContract: state.selectedContract?.id === id ? { ...state.selectedContract, ...settings } : state.selectedContract,
+    }));
+    return contract;
+  },
+
+  renewContract: async (id: string) => {
+    const response = await api.post(`/api/v1/contracts/${id}/renew`);
+    const renewal: Contract = response.data.data;
+    set((state) => ({
+      contracts: [renewal, ...state.contracts],
+      selectedContract:
+        state.selectedContract?.id === id
+          ? { ...state.selectedContract, renewal: { id: renewal.id, contract_number: renewal.contract_number, status: renewal.status } }
+          : state.selectedContract,
+    }));
+    return renewal;
+  },
+
   setSelectedContract: (contract: Contract | null) => {
     set({ selectedContract: contract });
   },
@@ -263,6 +389,32 @@ export const useContractStore = create<ContractState>((set) => ({
     }
   },
 
+  exportTemplate: async (template: ContractTemplate) => {
+    const response = await api.get(`/api/v1/contract-templates/${template.id}/export`, { responseType: 'blob' });
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${template.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'contract-template'}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  },
+
+  importTemplate: async (file: File, name?: string) => {
+    const data = new FormData();
+    data.append('file', file);
+    if (name) {
+      data.append('name', name);
+    }
+    const response = await api.post('/api/v1/contract-templates/import', data, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    const template: ContractTemplate = response.data.data;
+    set((state) => ({ templates: [...state.templates, template] }));
+    return template;
+  },
+
   generateContractWithAI: async (prompt: string, options = {}) => {
     set({ isLoading: true, error: null });
     try {
@@ -335,14 +487,89 @@ export const useContractStore = create<ContractState>((set) => ({
     set({ selectedTemplate: template });
   },
 
+  // Merge Field Actions
+  fetchMergeFields: async (templateId?: string) => {
+    const response = await api.get('/api/v1/merge-fields/available', {
+      params: templateId ? { template_id: templateId } : undefined,
+    });
+    const fields: MergeField[] = response.data.data || [];
+    // The shared list leaves out any one template's own fields
+    if (!templateId) {
+      set({ mergeFields: fields });
+    }
+    return fields;
+  },
+
+  fetchCustomMergeFields: async () => {
+    try {
+      const response = await api.get('/api/v1/merge-fields');
+      set({ customMergeFields: response.data.data || [] });
+    } catch (error) {
+      console.error('Failed to fetch custom merge fields:', error);
+    }
+  },
+
+  createCustomMergeField: async (data: CustomMergeFieldInput) => {
+    const response = await api.post('/api/v1/merge-fields', data);
+    await Promise.all([get().fetchCustomMergeFields(), get().fetchMergeFields()]);
+    return response.data.data;
+  },
+
+  updateCustomMergeField: async (id: string, data: Omit<CustomMergeFieldInput, 'key'>) => {
+    const response = await api.put(`/api/v1/merge-fields/${id}`, data);
+    await Promise.all([get().fetchCustomMergeFields(), get().fetchMergeFields()]);
+    return response.data.data;
+  },
+
+  deleteCustomMergeField: async (id: string) => {
+    await api.delete(`/api/v1/merge-fields/${id}`);
+    set({
+      customMergeFields: get().customMergeFields.filter((field) => field.id !== id),
+      mergeFields: get().mergeFields.filter((field) => field.id !== id),
+    });
+  },
+
+  // Clause Library Actions
+  fetchClauses: async () => {
+    const response = await api.get('/api/v1/contract-clauses');
+    const clauses: ContractClause[] = response.data.data || [];
+    set({ clauses });
+    return clauses;
+  },
+
+  fetchClause: async (id: string) => {
+    const response = await api.get(`/api/v1/contract-clauses/${id}`);
+    return response.data.data;
+  },
+
+  createClause: async (data: ContractClauseInput) => {
+    const response = await api.post('/api/v1/contract-clauses', data);
+    const clause: ContractClause = response.data.data;
+    set({ clauses: [...get().clauses, { ...clause, usage_count: 0 }].sort((a, b) => a.name.localeCompare(b.name)) });
+    return clause;
+  },
+
+  updateClause: async (id: string, data: Partial<ContractClauseInput>) => {
+    const response = await api.put(`/api/v1/contract-clauses/${id}`, data);
+    const clause: ContractClause = response.data.data;
+    set({
+      clauses: get().clauses.map((c) => (c.id === id ? { ...clause, usage_count: c.usage_count } : c)),
+    });
+    return clause;
+  },
+
+  deleteClause: async (id: string) => {
+    await api.delete(`/api/v1/contract-clauses/${id}`);
+    set({ clauses: get().clauses.filter((clause) => clause.id !== id) });
+  },
+
   // Public Actions
-  signContract: async (token: string, signedBy: string) => {
+  signContract: async (token: string, data: ContractSignatureInput) => {
     set({ isLoading: true, error: null });
     try {
-      const response = await api.post(`/api/public/contracts/${token}/sign`, {
-        signed_by: signedBy,
-      });
+      const response = await api.post(`/api/public/contracts/${token}/sign`, data);
       set({ selectedContract: response.data.data, isLoading: false });
+      return response.data.data;
     } catch (error: any) {
       set({ error: error.message, isLoading: false });
       throw error;
@@ -361,4 +588,9 @@ export const useContractStore = create<ContractState>((set) => ({
       throw error;
     }
   },
+
+  commentOnContract: async (token: string, data: ContractCommentInput) => {
+    const response = await api.post(`/api/public/contracts/${token}/comments`, data);
+    return response.data.data;
+  },
 }));
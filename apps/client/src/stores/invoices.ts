@@ -1,16 +1,42 @@
 import { create } from 'zustand';
-import type { Invoice, InvoiceTemplate, InvoiceLineItem } from '../types/documents';
+import type {
+  BillableTask,
+  BillableTaskFilters,
+  CreditNote,
+  CreditNoteInput,
+  Invoice,
+  InvoiceAging,
+  InvoiceCreditNotes,
+  InvoiceEvent,
+  InvoiceTemplate,
+  InvoiceLineItem,
+  InvoiceListSummary,
+  InvoiceReminderTimeline,
+  InvoiceSchedule,
+  InvoiceScheduleInput,
+  ManualPaymentInput,
+  OccurrenceStatus,
+  PaymentLedger,
+  RefundInput,
+  ReminderScheduleConfig,
+  TaxRate,
+  TaxRateInput,
+  UpcomingInvoice,
+} from '../types/documents';
 import { api } from '../lib/api';
 
 interface InvoiceState {
   invoices: Invoice[];
+  summary: InvoiceListSummary | null;
   templates: InvoiceTemplate[];
+  taxRates: TaxRate[];
   selectedInvoice: Invoice | null;
+  upcomingInvoices: UpcomingInvoice[];
   isLoading: boolean;
   error: string | null;
 
   // Actions
-  fetchInvoices: () => Promise<void>;
+  fetchInvoices: (params?: Record<string, string>) => Promise<void>;
   fetchTemplates: () => Promise<void>;
   fetchInvoice: (id: string) => Promise<void>;
   fetchInvoiceById: (id: string) => Promise<any>;
@@ -21,25 +47,68 @@ interface InvoiceState {
   updateLineItem: (invoiceId: string, itemId: string, data: Partial<InvoiceLineItem>) => Promise<void>;
   deleteLineItem: (invoiceId: string, itemId: string) => Promise<void>;
   sendInvoice: (id: string) => Promise<void>;
+  fetchInvoiceEvents: (id: string) => Promise<InvoiceEvent[]>;
+  fetchAging: (months?: number) => Promise<InvoiceAging>;
   createPaymentIntent: (token: string) => Promise<{ client_secret: string; publishable_key: string }>;
   setSelectedInvoice: (invoice: Invoice | null) => void;
+
+  // Project billing
+  fetchBillableTasks: (filters: BillableTaskFilters) => Promise<BillableTask[]>;
+
+  // Tax rates
+  fetchTaxRates: () => Promise<void>;
+  createTaxRate: (data: TaxRateInput) => Promise<TaxRate>;
+  updateTaxRate: (id: string, data: Partial<TaxRateInput>) => Promise<TaxRate>;
+  deleteTaxRate: (id: string) => Promise<void>;
+
+  // Payments
+  fetchPaymentLedger: (invoiceId: string) => Promise<PaymentLedger>;
+  recordPayment: (invoiceId: string, data: ManualPaymentInput) => Promise<void>;
+  refundPayment: (paymentId: string, data: RefundInput) => Promise<void>;
+  deletePayment: (paymentId: string) => Promise<void>;
+
+  // Recurring schedules
+  fetchUpcomingInvoices: () => Promise<void>;
+  fetchSchedule: (invoiceId: string) => Promise<InvoiceSchedule | null>;
+  saveSchedule: (invoiceId: string, data: InvoiceScheduleInput) => Promise<InvoiceSchedule>;
+  cancelSchedule: (invoiceId: string) => Promise<InvoiceSchedule>;
+  createScheduleFromContract: (contractId: string, data?: { start_date?: string; auto_send?: boolean }) => Promise<InvoiceSchedule>;
+  setSchedulePaused: (scheduleId: string, paused: boolean) => Promise<InvoiceSchedule>;
+  setOccurrenceStatus: (scheduleId: string, sequence: number, status: OccurrenceStatus) => Promise<InvoiceSchedule>;
+
+  // Reminders
+  fetchReminderSchedule: () => Promise<ReminderScheduleConfig>;
+  fetchReminderTimeline: (invoiceId: string) => Promise<InvoiceReminderTimeline>;
+  setInvoiceRemindersPaused: (invoiceId: string, paused: boolean) => Promise<InvoiceReminderTimeline>;
+  setContactRemindersPaused: (contactId: string, paused: boolean) => Promise<void>;
+
+  // Credit notes
+  fetchCreditNotes: (invoiceId: string) => Promise<InvoiceCreditNotes>;
+  issueCreditNote: (invoiceId: string, data: CreditNoteInput) => Promise<CreditNote>;
+  applyCreditNote: (creditNoteId: string) => Promise<CreditNote>;
+  voidCreditNote: (creditNoteId: string) => Promise<CreditNote>;
+  voidInvoice: (invoiceId: string, reason: string) => Promise<Invoice>;
+  downloadCreditNotePdf: (creditNote: CreditNote) => Promise<void>;
 }
 
 export const useInvoiceStore = create<InvoiceState>((set, get) => ({
   invoices: [],
+  summary: null,
   templates: [],
+  taxRates: [],
   selectedInvoice: null,
+  upcomingInvoices: [],
   isLoading: false,
   error: null,
 
-  fetchInvoices: async () => {
+  fetchInvoices: async (params) => {
     set({ isLoading: true, error: null });
     try {
-      const response = await api.get('/api/v1/invoices');
-      set({ invoices: response.data.data || [], isLoading: false });
+      const response = await api.get('/api/v1/invoices', { params });
+      set({ invoices: response.data.data || [], summary: response.data.summary ?? null, isLoading: false });
     } catch (error: any) {
       console.error('Failed to fetch invoices:', error);
-      set({ error: error.message, isLoading: false, invoices: [] });
+      set({ error: error.message, isLoading: false, invoices: [], summary: null });
     }
   },
 
@@ -164,6 +233,16 @@ export const useInvoiceStore = create<InvoiceState>((set, get) => ({
     }
   },
 
+  fetchInvoiceEvents: async (id: string) => {
+    const response = await api.get(`/api/v1/invoices/${id}/events`);
+    return response.data.data || [];
+  },
+
+  fetchAging: async (months?: number) => {
+    const response = await api.get('/api/v1/invoices/aging', { params: { months } });
+    return response.data.data;
+  },
+
   createPaymentIntent: async (token: string) => {
     set({ isLoading: true, error: null });
     try {
@@ -179,6 +258,157 @@ export const useInvoiceStore = create<InvoiceState>((set, get) => ({
   setSelectedInvoice: (invoice: Invoice | null) => {
     set({ selectedInvoice: invoice });
   },
+
+  fetchPaymentLedger: async (invoiceId: string) => {
+    const response = await api.get(`/api/v1/invoices/${invoiceId}/payments`);
+    return response.data.data;
+  },
+
+  fetchBillableTasks: async (filters: BillableTaskFilters) => {
+    const response = await api.get('/api/v1/tasks', {
+      params: { ...filters, completed: 1, per_page: 200 },
+    });
+    return response.data.data || [];
+  },
+
+  fetchTaxRates: async () => {
+    try {
+      const response = await api.get('/api/v1/tax-rates');
+      set({ taxRates: response.data.data || [] });
+    } catch (error) {
+      console.error('Failed to fetch tax rates:', error);
+    }
+  },
+
+  createTaxRate: async (data: TaxRateInput) => {
+    const response = await api.post('/api/v1/tax-rates', data);
+    await get().fetchTaxRates();
+    return response.data.data;
+  },
+
+  updateTaxRate: async (id: string, data: Partial<TaxRateInput>) => {
+    const response = await api.put(`/api/v1/tax-rates/${id}`, data);
+    await get().fetchTaxRates();
+    return response.data.data;
+  },
+
+  deleteTaxRate: async (id: string) => {
+    await api.delete(`/api/v1/tax-rates/${id}`);
+    set({ taxRates: get().taxRates.filter((taxRate) => taxRate.id !== id) });
+  },
+
+  recordPayment: async (invoiceId: string, data: ManualPaymentInput) => {
+    await api.post(`/api/v1/invoices/${invoiceId}/payments`, data);
+  },
+
+  refundPayment: async (paymentId: string, data: RefundInput) => {
+    await api.post(`/api/v1/payments/${paymentId}/refund`, data);
+  },
+
+  deletePayment: async (paymentId: string) => {
+    await api.delete(`/api/v1/payments/${paymentId}`);
+  },
+
+  fetchUpcomingInvoices: async () => {
+    try {
+      const response = await api.get('/api/v1/invoice-schedules/upcoming');
+      set({ upcomingInvoices: response.data.data || [] });
+    } catch (error) {
+      console.error('Failed to fetch upcoming invoices:', error);
+      set({ upcomingInvoices: [] });
+    }
+  },
+
+  fetchSchedule: async (invoiceId: string) => {
+    const response = await api.get(`/api/v1/invoices/${invoiceId}/schedule`);
+    return response.data.data;
+  },
+
+  saveSchedule: async (invoiceId: string, data: InvoiceScheduleInput) => {
+    const response = await api.post(`/api/v1/invoices/${invoiceId}/schedule`, data);
+    return response.data.data;
+  },
+
+  cancelSchedule: async (invoiceId: string) => {
+    const response = await api.delete(`/api/v1/invoices/${invoiceId}/schedule`);
+    return response.data.data;
+  },
+
+  createScheduleFromContract: async (contractId, data = {}) => {
+    const response = await api.post(`/api/v1/contracts/${contractId}/invoice-schedule`, data);
+    return response.data.data;
+  },
+
+  setSchedulePaused: async (scheduleId: string, paused: boolean) => {
+    const response = await api.post(`/api/v1/invoice-schedules/${scheduleId}/${paused ? 'pause' : 'resume'}`);
+    await get().fetchUpcomingInvoices();
+    return response.data.data;
+  },
+
+  setOccurrenceStatus: async (scheduleId: string, sequence: number, status: OccurrenceStatus) => {
+    const response = await api.put(`/api/v1/invoice-schedules/${scheduleId}/occurrences/${sequence}`, { status });
+    await get().fetchUpcomingInvoices();
+    return response.data.data;
+  },
+
+  fetchReminderSchedule: async () => {
+    const response = await api.get('/api/v1/invoice-reminders/schedule');
+    return response.data.data;
+  },
+
+  fetchReminderTimeline: async (invoiceId: string) => {
+    const response = await api.get(`/api/v1/invoices/${invoiceId}/reminders`);
+    return response.data.data;
+  },
+
+  setInvoiceRemindersPaused: async (invoiceId: string, paused: boolean) => {
+    const response = await api.post(`/api/v1/invoices/${invoiceId}/reminders/${paused ? 'pause' : 'resume'}`);
+    return response.data.data;
+  },
+
+  setContactRemindersPaused: async (contactId: string, paused: boolean) => {
+    await api.post(`/api/v1/contacts/${contactId}/invoice-reminders/${paused ? 'pause' : 'resume'}`);
+  },
+
+  fetchCreditNotes: async (invoiceId: string) => {
+    const response = await api.get(`/api/v1/invoices/${invoiceId}/credit-notes`);
+    return {
+      credit_notes: response.data.data || [],
+      creditable_amount: response.data.meta?.creditable_amount ?? 0,
+    };
+  },
+
+  issueCreditNote: async (invoiceId: string, data: CreditNoteInput) => {
+    const response = await api.post(`/api/v1/invoices/${invoiceId}/credit-notes`, data);
+    return response.data.data;
+  },
+
+  applyCreditNote: async (creditNoteId: string) => {
+    const response = await api.post(`/api/v1/credit-notes/${creditNoteId}/apply`);
+    return response.data.data;
+  },
+
+  voidCreditNote: async (creditNoteId: string) => {
+    const response = await api.post(`/api/v1/credit-notes/${creditNoteId}/void`);
+    return response.data.data;
+  },
+
+  voidInvoice: async (invoiceId: string, reason: string) => {
+    const response = await api.post(`/api/v1/invoices/${invoiceId}/void`, { reason });
+    return response.data.data;
+  },
+
+  downloadCreditNotePdf: async (creditNote: CreditNote) => {
+    const response = await api.get(`/api/v1/credit-notes/${creditNote.id}/pdf`, { responseType: 'blob' });
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${creditNote.credit_note_number}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  },
 }));
 
 
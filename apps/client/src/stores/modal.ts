@@ -73,6 +73,7 @@ export interface AddActivityModalProps {
 export interface CreateDealModalProps {
   contactId?: string
   contactName?: string
+  pipelineId?: string | null
   onSuccess?: (deal: any) => void
 }
 
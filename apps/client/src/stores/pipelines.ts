@@ -0,0 +1,124 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import axios from 'axios'
+import { api } from '../lib/api'
+import type { DealPipeline, DealPipelineStage } from '../types/deals'
+
+// Stage payload sent when creating/updating a pipeline (id present for existing stages)
+export type PipelineStageInput = Omit<DealPipelineStage, 'id' | 'key' | 'order'> & { id?: string }
+
+export interface PipelineInput {
+  name: string
+  is_default?: boolean
+  stages?: PipelineStageInput[]
+}
+
+type ActionResult = { success: boolean; pipeline?: DealPipeline; error?: string }
+
+export interface PipelineState {
+  // State
+  pipelines: DealPipeline[]
+  selectedPipelineId: string | null
+  isLoading: boolean
+  error: string | null
+
+  // Actions
+  fetchPipelines: () => Promise<void>
+  selectPipeline: (pipelineId: string) => void
+  createPipeline: (data: PipelineInput) => Promise<ActionResult>
+  updatePipeline: (pipelineId: string, data: Partial<PipelineInput>) => Promise<ActionResult>
+  deletePipeline: (pipelineId: string) => Promise<ActionResult>
+
+  // Helpers
+  getSelectedPipeline: () => DealPipeline | null
+  getPipeline: (pipelineId: string | null | undefined) => DealPipeline | null
+}
+
+const errorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.error || error.response?.data?.message || error.message || fallback
+  }
+  return error instanceof Error ? error.message : fallback
+}
+
+export const usePipelineStore = create<PipelineState>()(
+  persist(
+    (set, get) => ({
+      pipelines: [],
+      selectedPipelineId: null,
+      isLoading: false,
+      error: null,
+
+      fetchPipelines: async () => {
+        set({ isLoading: true, error: null })
+        try {
+          const response = await api.get('/api/v1/deal-pipelines')
+          const pipelines: DealPipeline[] = response.data.data || []
+          const { selectedPipelineId } = get()
+
+          // Fall back to the default pipeline if the remembered one is gone (or from another company)
+          const stillExists = pipelines.some((p) => p.id === selectedPipelineId)
+          const fallback = pipelines.find((p) => p.is_default) ?? pipelines[0]
+
+          set({
+            pipelines,
+            selectedPipelineId: stillExists ? selectedPipelineId : fallback?.id ?? null,
+            isLoading: false,
+          })
+        } catch (error) {
+          set({ error: errorMessage(error, 'Failed to load pipelines'), isLoading: false })
+        }
+      },
+
+      selectPipeline: (pipelineId) => set({ selectedPipelineId: pipelineId }),
+
+      createPipeline: async (data) => {
+        try {
+          const response = await api.post('/api/v1/deal-pipelines', data)
+          const pipeline: DealPipeline = response.data
+          await get().fetchPipelines()
+          return { success: true, pipeline }
+        } catch (error) {
+          return { success: false, error: errorMessage(error, 'Failed to create pipeline') }
+        }
+      },
+
+      updatePipeline: async (pipelineId, data) => {
+        try {
+          const response = await api.put(`/api/v1/deal-pipelines/${pipelineId}`, data)
+          const pipeline: DealPipeline = response.data
+          // Default flag may have moved away from other pipelines
+          await get().fetchPipelines()
+          return { success: true, pipeline }
+        } catch (error) {
+          return { success: false, error: errorMessage(error, 'Failed to update pipeline') }
+        }
+      },
+
+      deletePipeline: async (pipelineId) => {
+        try {
+          await api.delete(`/api/v1/deal-pipelines/${pipelineId}`)
+          await get().fetchPipelines()
+          return { success: true }
+        } catch (error) {
+          return { success: false, error: errorMessage(error, 'Failed to delete pipeline') }
+        }
+      },
+
+      getSelectedPipeline: () => {
+        const { pipelines, selectedPipelineId } = get()
+        return pipelines.find((p) => p.id === selectedPipelineId) ?? null
+      },
+
+      getPipeline: (pipelineId) => {
+        const { pipelines } = get()
+        if (!pipelineId) return pipelines.find((p) => p.is_default) ?? null
+        return pipelines.find((p) => p.id === pipelineId) ?? null
+      },
+    }),
+    {
+      name: 'deal-pipelines-storage',
+      partialize: (state) => ({ selectedPipelineId: state.selectedPipelineId }),
+    }
+  )
+)
@@ -0,0 +1,110 @@
+import { create } from 'zustand';
+import type { Quote, QuoteConversion, QuoteInput } from '../types/documents';
+import { api } from '../lib/api';
+
+interface QuoteState {
+  quotes: Quote[];
+  selectedQuote: Quote | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchQuotes: (params?: Record<string, string>) => Promise<void>;
+  fetchQuote: (id: string) => Promise<Quote>;
+  createQuote: (data: QuoteInput) => Promise<Quote>;
+  updateQuote: (id: string, data: Partial<QuoteInput>) => Promise<Quote>;
+  deleteQuote: (id: string) => Promise<void>;
+  sendQuote: (id: string) => Promise<Quote>;
+  convertQuote: (id: string, data: QuoteConversion) => Promise<{ target: QuoteConversion['target']; id: string }>;
+
+  // Public actions (no auth required)
+  getPublicQuote: (token: string) => Promise<Quote>;
+  acceptQuote: (token: string, acceptedBy: string) => Promise<Quote>;
+  declineQuote: (token: string, reason?: string) => Promise<Quote>;
+}
+
+export const useQuoteStore = create<QuoteState>((set) => ({
+  quotes: [],
+  selectedQuote: null,
+  isLoading: false,
+  error: null,
+
+  fetchQuotes: async (params) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await api.get('/api/v1/quotes', { params });
+      set({ quotes: response.data.data || [], isLoading: false });
+    } catch (error) {
+      console.error('Failed to fetch quotes:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to fetch quotes', isLoading: false, quotes: [] });
+    }
+  },
+
+  fetchQuote: async (id: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await api.get(`/api/v1/quotes/${id}`);
+      const quote = response.data.data;
+      set({ selectedQuote: quote, isLoading: false });
+      return quote;
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to fetch quote', isLoading: false });
+      throw error;
+    }
+  },
+
+  createQuote: async (data: QuoteInput) => {
+    const response = await api.post('/api/v1/quotes', data);
+    const quote = response.data.data;
+    set((state) => ({ quotes: [quote, ...state.quotes] }));
+    return quote;
+  },
+
+  updateQuote: async (id: string, data: Partial<QuoteInput>) => {
+    const response = await api.put(`/api/v1/quotes/${id}`, data);
+    const quote = response.data.data;
+    set((state) => ({
+      quotes: state.quotes.map((q) => (q.id === id ? quote : q)),
+      selectedQuote: state.selectedQuote?.id === id ? { ...state.selectedQuote, ...quote } : state.selectedQuote,
+    }));
+    return quote;
+  },
+
+  deleteQuote: async (id: string) => {
+    await api.delete(`/api/v1/quotes/${id}`);
+    set((state) => ({
+      quotes: state.quotes.filter((q) => q.id !== id),
+      selectedQuote: state.selectedQuote?.id === id ? null : state.selectedQuote,
+    }));
+  },
+
+  sendQuote: async (id: string) => {
+    const response = await api.post(`/api/v1/quotes/${id}/send`);
+    const quote = response.data.data;
+    set((state) => ({
+      quotes: state.quotes.map((q) => (q.id === id ? quote : q)),
+      selectedQuote: state.selectedQuote?.id === id ? quote : state.selectedQuote,
+    }));
+    return quote;
+  },
+
+  convertQuote: async (id: string, data: QuoteConversion) => {
+    const response = await api.post(`/api/v1/quotes/${id}/convert`, data);
+    return response.data.data;
+  },
+
+  getPublicQuote: async (token: string) => {
+    const response = await api.get(`/api/public/quotes/${token}`);
+    return response.data.data;
+  },
+
+  acceptQuote: async (token: string, acceptedBy: string) => {
+    const response = await api.post(`/api/public/quotes/${token}/accept`, { accepted_by: acceptedBy });
+    return response.data.data;
+  },
+
+  declineQuote: async (token: string, reason?: string) => {
+    const response = await api.post(`/api/public/quotes/${token}/decline`, { reason });
+    return response.data.data;
+  },
+}));
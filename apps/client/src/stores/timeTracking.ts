@@ -0,0 +1,153 @@
+import { create } from 'zustand'
+import axios from 'axios'
+import { api } from '../lib/api'
+import type { TeamTimesheet, TimeEntry, TimeEntryInput, Timesheet, TimesheetWeek } from '../types/timeTracking'
+
+type ActionResult<T> = { success: boolean; data?: T; error?: string }
+
+interface TimeTrackingState {
+  // The user's running timer, shown globally in the layout
+  runningEntry: TimeEntry | null
+
+  // Timer actions
+  fetchRunningEntry: () => Promise<void>
+  startTimer: (taskId: string) => Promise<ActionResult<TimeEntry>>
+  stopTimer: (entryId: string) => Promise<ActionResult<TimeEntry>>
+
+  // Time entries
+  fetchTaskEntries: (taskId: string) => Promise<ActionResult<TimeEntry[]>>
+  createEntry: (data: TimeEntryInput) => Promise<ActionResult<TimeEntry>>
+  updateEntry: (entryId: string, data: Partial<TimeEntryInput>) => Promise<ActionResult<TimeEntry>>
+  deleteEntry: (entryId: string) => Promise<ActionResult<void>>
+
+  // Timesheets
+  fetchTimesheet: (week: string, userId?: string) => Promise<ActionResult<TimesheetWeek>>
+  fetchTeamTimesheets: (week: string) => Promise<ActionResult<TeamTimesheet[]>>
+  submitTimesheet: (week: string) => Promise<ActionResult<Timesheet>>
+  approveTimesheet: (timesheetId: string) => Promise<ActionResult<Timesheet>>
+  rejectTimesheet: (timesheetId: string, note?: string) => Promise<ActionResult<Timesheet>>
+}
+
+const errorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || fallback
+  }
+  return error instanceof Error ? error.message : fallback
+}
+
+export const useTimeTrackingStore = create<TimeTrackingState>((set, get) => ({
+  runningEntry: null,
+
+  fetchRunningEntry: async () => {
+    try {
+      const response = await api.get('/api/v1/time-entries/running')
+      set({ runningEntry: response.data.data ?? null })
+    } catch (error) {
+      console.error('Failed to load running timer:', error)
+    }
+  },
+
+  startTimer: async (taskId) => {
+    try {
+      const response = await api.post(`/api/v1/tasks/${taskId}/timer`)
+      const entry: TimeEntry = response.data.data
+      set({ runningEntry: entry })
+      return { success: true, data: entry }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to start timer') }
+    }
+  },
+
+  stopTimer: async (entryId) => {
+    try {
+      const response = await api.post(`/api/v1/time-entries/${entryId}/stop`)
+      if (get().runningEntry?.id === entryId) {
+        set({ runningEntry: null })
+      }
+      return { success: true, data: response.data.data }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to stop timer') }
+    }
+  },
+
+  fetchTaskEntries: async (taskId) => {
+    try {
+      const response = await api.get('/api/v1/time-entries', { params: { task_id: taskId } })
+      return { success: true, data: response.data.data || [] }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to load time entries') }
+    }
+  },
+
+  createEntry: async (data) => {
+    try {
+      const response = await api.post('/api/v1/time-entries', data)
+      return { success: true, data: response.data.data }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to add time entry') }
+    }
+  },
+
+  updateEntry: async (entryId, data) => {
+    try {
+      const response = await api.put(`/api/v1/time-entries/${entryId}`, data)
+      return { success: true, data: response.data.data }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to update time entry') }
+    }
+  },
+
+  deleteEntry: async (entryId) => {
+    try {
+      await api.delete(`/api/v1/time-entries/${entryId}`)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to delete time entry') }
+    }
+  },
+
+  fetchTimesheet: async (week, userId) => {
+    try {
+      const response = await api.get('/api/v1/timesheets', { params: { week, user_id: userId } })
+      return { success: true, data: response.data.data }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to load timesheet') }
+    }
+  },
+
+  fetchTeamTimesheets: async (week) => {
+    try {
+      const response = await api.get('/api/v1/timesheets/team', { params: { week } })
+      return { success: true, data: response.data.data || [] }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to load team timesheets') }
+    }
+  },
+
+  submitTimesheet: async (week) => {
+    try {
+      const response = await api.post('/api/v1/timesheets/submit', { week })
+      return { success: true, data: response.data.data }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to submit timesheet') }
+    }
+  },
+
+  approveTimesheet: async (timesheetId) => {
+    try {
+      const response = await api.post(`/api/v1/timesheets/${timesheetId}/approve`)
+      return { success: true, data: response.data.data }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to approve timesheet') }
+    }
+  },
+
+  rejectTimesheet: async (timesheetId, note) => {
+    try {
+      const response = await api.post(`/api/v1/timesheets/${timesheetId}/reject`, { note })
+      return { success: true, data: response.data.data }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to return timesheet') }
+    }
+  },
+}))
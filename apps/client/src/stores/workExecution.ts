@@ -114,6 +114,7 @@ interface WorkExecutionState {
   fetchProjects: (companyId: string) => Promise<void>
   updateTaskStatus: (taskId: string, status: string, companyId: string) => Promise<void>
   updateTaskPriority: (taskId: string, priority: string, companyId: string) => Promise<void>
+  updateTaskDueDate: (taskId: string, dueDate: string | null, companyId: string) => Promise<boolean>
   toggleTaskComplete: (taskId: string, completed: boolean, companyId: string) => Promise<void>
   bulkUpdateStatus: (taskIds: string[], status: string, companyId: string) => Promise<void>
   
@@ -345,6 +346,32 @@ export const useWorkExecutionStore = create<WorkExecutionState>()(
         }
       },
       
+      // Update task due date (returns false when the change was reverted)
+      updateTaskDueDate: async (taskId, dueDate, companyId) => {
+        const previousTasks = get().tasks
+        
+        // Optimistic update
+        set((state) => ({
+          tasks: state.tasks.map((t) =>
+            t.id === taskId ? { ...t, due_date: dueDate } : t
+          ),
+          isUpdating: true,
+        }))
+        
+        try {
+          await api.put(`/api/v1/tasks/${taskId}`, { due_date: dueDate }, {
+            headers: { 'X-Company-ID': companyId },
+          })
+          
+          set({ isUpdating: false })
+          return true
+        } catch (error: unknown) {
+          console.error('[WorkExecution] Failed to update task due date:', error)
+          set({ tasks: previousTasks, isUpdating: false })
+          return false
+        }
+      },
+      
       // Toggle task completion
       toggleTaskComplete: async (taskId, completed, companyId) => {
         const previousTasks = get().tasks
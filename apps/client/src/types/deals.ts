@@ -0,0 +1,145 @@
+export type StageColor = 'primary' | 'secondary' | 'accent' | 'info' | 'success' | 'warning' | 'error' | 'neutral'
+
+export interface DealPipelineStage {
+  id: string
+  key: string
+  name: string
+  color: StageColor
+  probability: number
+  order: number
+  is_won: boolean
+  is_lost: boolean
+}
+
+export interface DealPipeline {
+  id: string
+  name: string
+  is_default: boolean
+  order: number
+  stages: DealPipelineStage[]
+}
+
+export interface Deal {
+  id: string
+  title: string
+  description: string | null
+  value: number | null
+  currency: string
+  pipeline_id: string | null
+  stage: string
+  position?: number | null
+  probability: number
+  expected_close_date: string | null
+  contact: {
+    id: string
+    name: string
+    email: string | null
+  } | null
+  assignee: {
+    id: string
+    name: string
+    avatar: string | null
+  } | null
+  is_closed: boolean
+  created_at: string
+}
+
+export interface DealStageChange {
+  id: string
+  from_stage: string | null
+  from_stage_name: string | null
+  to_stage: string
+  to_stage_name: string
+  changed_by: {
+    id: string
+    name: string
+  } | null
+  entered_at: string
+  left_at: string | null
+  duration_seconds: number
+  is_current: boolean
+}
+
+// Single deal as returned by GET /deals/:id
+export interface DealDetail extends Omit<Deal, 'assignee'> {
+  stage_name: string
+  weighted_value: number
+  assignee: {
+    id: string
+    name: string
+  } | null
+  created_by: string | null
+  is_won: boolean
+  lost_reason: string | null
+  closed_at: string | null
+  stage_history: DealStageChange[]
+}
+
+export interface PipelineStats {
+  pipeline_id?: string
+  total_value: number
+  weighted_value: number
+  deals_count: number
+  closing_soon: number
+  by_stage: {
+    [key: string]: {
+      name: string
+      color: StageColor
+      probability: number
+      count: number
+      value: number
+      weighted_value: number
+    }
+  }
+}
+
+export type ForecastGrouping = 'month' | 'quarter'
+
+export interface ForecastPeriod {
+  key: string
+  label: string
+  start: string
+  end: string
+  open_count: number
+  won_count: number
+  committed: number
+  weighted: number
+  best_case: number
+}
+
+export interface ForecastBucket {
+  count: number
+  weighted: number
+  best_case: number
+}
+
+export interface WinRate {
+  won: number
+  lost: number
+  win_rate: number | null
+}
+
+export interface DealForecast {
+  pipeline_id: string
+  group_by: ForecastGrouping
+  periods: ForecastPeriod[]
+  totals: {
+    committed: number
+    weighted: number
+    best_case: number
+  }
+  overdue: ForecastBucket
+  later: ForecastBucket
+  unscheduled: ForecastBucket
+  win_rates: {
+    overall: WinRate
+    by_stage: (WinRate & { stage: string; name: string; color: StageColor })[]
+    by_assignee: (WinRate & { assignee_id: string | null; name: string; won_value: number; avg_cycle_days: number | null })[]
+  }
+  sales_cycle: {
+    avg_days_won: number | null
+    avg_days_lost: number | null
+    won_count: number
+    lost_count: number
+  }
+}
@@ -13,6 +13,8 @@ export interface ContractTemplate {
   deleted_at?: string;
   created_at: string;
   updated_at: string;
+  /** Sections using an older version of a library clause */
+  outdated_clauses?: number;
 }
 
 export interface TemplateSection {
@@ -20,13 +22,102 @@ export interface TemplateSection {
   type: 'heading' | 'paragraph' | 'list' | 'table' | 'signature';
   content: any;
   order: number;
+  /** Template only: the section is left out of contracts that don't meet these */
+  conditions?: SectionCondition[];
+  condition_match?: 'all' | 'any';
+  /** Template only: repeat the section (or a table's {{item.*}} rows) for each entry in pricing_data */
+  repeat?: SectionRepeatSource | null;
+  /** Template only: the library clause the section came from */
+  clause?: TemplateSectionClause;
 }
 
+/**
+ * Linked sections follow the library clause; detached ones keep the
+ * version they were inserted with.
+ */
+export interface TemplateSectionClause {
+  id: string;
+  name: string;
+  version: number;
+  linked: boolean;
+}
+
+export type SectionConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'contains'
+  | 'is_empty'
+  | 'is_not_empty';
+
+/** e.g. { field: 'contract_type', operator: 'equals', value: 'milestone' } */
+export interface SectionCondition {
+  field: string;
+  operator: SectionConditionOperator;
+  value?: string;
+}
+
+export type SectionRepeatSource = 'milestones' | 'line_items';
+
 export interface MergeField {
   key: string;
   label: string;
-  type: 'text' | 'date' | 'currency';
-  category: 'client' | 'project' | 'company' | 'system' | 'contract';
+  type: 'text' | 'number' | 'date' | 'currency';
+  category: 'client' | 'project' | 'company' | 'system' | 'contract' | 'invoice';
+  /** Set on company custom fields */
+  id?: string;
+  default_value?: string | null;
+  /** Date format (PHP date pattern) or currency code, depending on type */
+  format?: string | null;
+  /** Only system fields are filled in automatically; template fields are defined on the template itself */
+  source?: 'system' | 'company' | 'template';
+}
+
+export type CustomMergeFieldCategory = 'client' | 'project' | 'company' | 'contract';
+
+export interface CustomMergeFieldInput {
+  key: string;
+  label: string;
+  type: MergeField['type'];
+  category: CustomMergeFieldCategory;
+  default_value?: string | null;
+  format?: string | null;
+}
+
+export interface ContractClause {
+  id: string;
+  company_id: string;
+  name: string;
+  description?: string | null;
+  tags: string[];
+  html: string;
+  version: number;
+  usage_count?: number;
+  created_by?: string | null;
+  creator?: { id: string; first_name: string; last_name: string } | null;
+  versions?: ContractClauseVersion[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContractClauseVersion {
+  id: string;
+  clause_id: string;
+  version_number: number;
+  name: string;
+  html: string;
+  change_summary?: string | null;
+  creator?: { id: string; first_name: string; last_name: string } | null;
+  created_at: string;
+}
+
+export interface ContractClauseInput {
+  name: string;
+  description?: string | null;
+  tags: string[];
+  html: string;
+  change_summary?: string | null;
 }
 
 export interface Contract {
@@ -35,6 +126,7 @@ export interface Contract {
   template_id?: string;
   contact_id?: string;
   project_id?: string;
+  deal_id?: string;
   title: string;
   contract_number?: string;
   contract_type: 'fixed_price' | 'milestone' | 'subscription';
@@ -52,7 +144,10 @@ export interface Contract {
   pdf_generated_at?: string;
   sent_at?: string;
   sent_by?: string;
+  /** Deadline for signing */
   expires_at?: string;
+  /** End of the signed contract's current term */
+  ends_at?: string | null;
   token?: string;
   notes?: string;
   deleted_at?: string;
@@ -61,6 +156,140 @@ export interface Contract {
   template?: ContractTemplate;
   contact?: any;
   project?: any;
+  signing_mode?: SigningMode;
+  signers?: ContractSigner[];
+  /** Included in the contracts list */
+  signers_count?: number;
+  signed_signers_count?: number;
+  /** Included on the public page when it was opened from a signer's personal link */
+  current_signer?: CurrentContractSigner;
+  /** Included on the public page */
+  comments?: ContractComment[];
+  renewal_type?: ContractRenewalType;
+  renewal_term_months?: number | null;
+  notice_period_days?: number | null;
+  renewal_notice_sent_at?: string | null;
+  renewed_from_id?: string | null;
+  /** Included on the contract detail */
+  renewed_from?: Pick<Contract, 'id' | 'contract_number' | 'title'> | null;
+  renewal?: Pick<Contract, 'id' | 'contract_number' | 'status'> | null;
+}
+
+/** "none" ends at ends_at, "manual" is renewed with a new contract, "auto" extends its own term */
+export type ContractRenewalType = 'none' | 'manual' | 'auto';
+
+export interface ContractRenewalSettings {
+  renewal_type: ContractRenewalType;
+  renewal_term_months: number | null;
+  notice_period_days: number | null;
+  ends_at?: string | null;
+}
+
+/** A signed contract coming up for renewal */
+export interface ContractRenewal extends Contract {
+  days_until_end: number;
+  notice_deadline: string | null;
+  in_notice_period: boolean;
+}
+
+/** The renewals view: contracts ending soon, and signed ones with no term end to set */
+export interface ContractRenewalList {
+  renewals: ContractRenewal[];
+  without_term_end: Contract[];
+}
+
+/** Content changes to a contract; each one that changes the text is saved as a new version */
+export interface ContractRevisionInput {
+  title?: string;
+  rendered_sections?: TemplateSection[];
+  clickwrap_text?: string;
+  change_summary?: string;
+}
+
+/** Snapshot of a contract's content, saved each time it changes */
+export interface ContractVersion {
+  id: string;
+  contract_id: string;
+  version_number: number;
+  title: string;
+  rendered_sections: TemplateSection[];
+  pricing_data: Contract['pricing_data'] | null;
+  clickwrap_text: string | null;
+  document_hash: string;
+  change_summary: string | null;
+  created_by: string | null;
+  creator?: { id: string; first_name: string; last_name: string } | null;
+  comments_count?: number;
+  created_at: string;
+}
+
+/** A comment or change request left while reviewing a contract */
+export interface ContractComment {
+  id: string;
+  contract_id?: string;
+  version_id?: string | null;
+  section_id: string | null;
+  quoted_text: string | null;
+  body: string;
+  author_type: 'client' | 'user';
+  author_name: string;
+  author_email?: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  version?: { id: string; version_number: number } | null;
+}
+
+export interface ContractCommentInput {
+  body: string;
+  author_name: string;
+  author_email?: string;
+  section_id?: string;
+  quoted_text?: string;
+}
+
+/** Parallel asks every signer at once; sequential waits for each signing_order in turn */
+export type SigningMode = 'parallel' | 'sequential';
+
+export type ContractSignerRole = 'client' | 'provider' | 'witness';
+
+export interface ContractSigner {
+  id: string;
+  contract_id: string;
+  name: string;
+  /** Omitted on the public page */
+  email?: string;
+  role: ContractSignerRole;
+  title: string | null;
+  signing_order: number;
+  status: 'pending' | 'notified' | 'viewed' | 'signed' | 'declined';
+  /** Personal signing link token; only shown to the team */
+  token?: string;
+  notified_at?: string | null;
+  viewed_at?: string | null;
+  signed_at: string | null;
+  declined_at?: string | null;
+  decline_reason?: string | null;
+}
+
+export interface ContractSignerInput {
+  name: string;
+  email: string;
+  role: ContractSignerRole;
+  title?: string | null;
+  signing_order: number;
+}
+
+export interface CurrentContractSigner {
+  id: string;
+  name: string;
+  email: string;
+  role: ContractSignerRole;
+  status: ContractSigner['status'];
+  signed_at: string | null;
+  /** False once signed, or while earlier signers in a sequential order are outstanding */
+  can_sign: boolean;
+  /** Names of the earlier signers still to sign */
+  waiting_on: string[];
 }
 
 export interface ContractEvent {
@@ -75,6 +304,42 @@ export interface ContractEvent {
   created_at: string;
 }
 
+export type SignatureMethod = 'drawn' | 'typed' | 'upload';
+
+/** A captured signature with the evidence tying it to the signer and the signed text */
+export interface ContractSignature {
+  id: string;
+  contract_id: string;
+  signer_name: string;
+  signer_email: string | null;
+  method: SignatureMethod;
+  typed_font: string | null;
+  /** SHA-256 of the contract's rendered sections when it was signed */
+  document_hash: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  signed_at: string;
+  /** Data URI of the signature image */
+  image: string | null;
+  /** Whether the contract text still hashes to document_hash */
+  document_unchanged: boolean;
+}
+
+export interface ContractSignatureCertificate {
+  signatures: ContractSignature[];
+  /** Current hash of the contract's rendered sections */
+  document_hash: string;
+}
+
+export interface ContractSignatureInput {
+  signed_by: string;
+  signer_email?: string;
+  method: SignatureMethod;
+  /** PNG or JPEG data URI; typed signatures are rendered to an image before sending */
+  signature_image: string;
+  typed_font?: string;
+}
+
 export interface InvoiceTemplate {
   id: string;
   company_id: string;
@@ -100,20 +365,28 @@ export interface Invoice {
   contact_id?: string;
   project_id?: string;
   contract_id?: string;
+  deal_id?: string;
+  schedule_id?: string;
   invoice_number: string;
   title?: string;
   issue_date: string;
   due_date: string;
-  status: 'draft' | 'sent' | 'viewed' | 'partially_paid' | 'paid' | 'overdue' | 'cancelled';
+  status: 'draft' | 'sent' | 'viewed' | 'partially_paid' | 'paid' | 'overdue' | 'cancelled' | 'void';
   subtotal: number;
   tax_rate: number;
   tax_amount: number;
+  tax_breakdown?: TaxBreakdownEntry[] | null;
   discount_rate: number;
   discount_amount: number;
   total: number;
   amount_paid: number;
+  /** Sum of applied credit notes */
+  amount_credited?: number;
   amount_due: number;
   currency: string;
+  /** Units of base_currency per unit of currency, captured when the invoice is issued */
+  exchange_rate?: number | null;
+  base_currency?: string | null;
   payment_terms?: string;
   notes?: string;
   pdf_path?: string;
@@ -130,6 +403,184 @@ export interface Invoice {
   project?: any;
   contract?: Contract;
   line_items?: InvoiceLineItem[];
+  schedule?: Pick<InvoiceSchedule, 'id' | 'template_invoice_id' | 'frequency' | 'status'>;
+}
+
+export interface InvoiceListSummary {
+  base_currency: string;
+  count: number;
+  outstanding: number;
+  paid: number;
+  /** Currencies left out of the totals because no exchange rate is known */
+  unconverted_currencies: string[];
+}
+
+/** Days past due_date: current (not yet due), 1–30, 31–60, 61–90, 90+ */
+export type AgingBucket = 'current' | '1_30' | '31_60' | '61_90' | '90_plus';
+
+export interface AgingTotals {
+  /** Amount due per bucket in the base currency */
+  buckets: Record<AgingBucket, number>;
+  outstanding: number;
+}
+
+export interface AgingInvoice {
+  id: string;
+  invoice_number: string;
+  title?: string;
+  status: Invoice['status'];
+  contact_id?: string;
+  issue_date: string;
+  due_date: string;
+  days_past_due: number;
+  bucket: AgingBucket;
+  currency: string;
+  amount_due: number;
+  /** Null when no exchange rate to the base currency is known */
+  amount_due_base: number | null;
+  /** Last time the invoice was emailed, including resends and reminders */
+  last_sent_at?: string | null;
+}
+
+export interface ContactAging extends AgingTotals {
+  contact: { id: string; name: string; email?: string } | null;
+  oldest_days_past_due: number;
+  invoices: AgingInvoice[];
+}
+
+export interface DsoPoint {
+  month: string;
+  label: string;
+  sales: number;
+  receivables: number;
+  /** Days sales outstanding; null when nothing was invoiced that month */
+  dso: number | null;
+}
+
+export interface InvoiceAging {
+  base_currency: string;
+  as_of: string;
+  totals: AgingTotals & { invoice_count: number; overdue_count: number };
+  contacts: ContactAging[];
+  dso_trend: DsoPoint[];
+  unconverted_currencies: string[];
+}
+
+/** A dunning step; offset_days is relative to the due date (negative = before it) */
+export interface ReminderStep {
+  id: string;
+  offset_days: number;
+  enabled: boolean;
+  subject: string;
+  /** Plain text with {{merge.fields}}; blank lines separate paragraphs */
+  body: string;
+}
+
+export interface ReminderScheduleConfig {
+  steps: ReminderStep[];
+  defaults: Record<'before_due' | 'on_due' | 'after_due', ReminderStep>;
+  merge_fields: MergeField[];
+}
+
+export interface InvoiceReminderEvent {
+  id: string;
+  event_type: string;
+  actor_type?: string;
+  created_at: string;
+  step_id?: string | null;
+  offset_days?: number | null;
+  subject?: string | null;
+  recipient_email?: string | null;
+  error?: string | null;
+}
+
+export interface InvoiceReminderTimeline {
+  paused: boolean;
+  /** Reminders are paused for every invoice of the contact */
+  contact_paused: boolean;
+  events: InvoiceReminderEvent[];
+  upcoming: {
+    step_id: string;
+    offset_days: number;
+    subject: string;
+    scheduled_for: string;
+  }[];
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export type InvoiceScheduleStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export type OccurrenceStatus = 'pending' | 'skipped' | 'paused';
+
+export interface InvoiceScheduleOccurrence {
+  schedule_id: string;
+  sequence: number;
+  scheduled_date: string;
+  status: OccurrenceStatus;
+}
+
+export interface InvoiceSchedule {
+  id: string;
+  template_invoice_id: string;
+  contract_id?: string | null;
+  frequency: RecurrenceFrequency;
+  start_date: string;
+  end_date?: string | null;
+  max_occurrences?: number | null;
+  total_occurrences: number | null;
+  generated_count: number;
+  status: InvoiceScheduleStatus;
+  auto_send: boolean;
+  invoice: {
+    id: string;
+    invoice_number: string;
+    title?: string;
+    total: number;
+    currency: string;
+    contact?: { id: string; full_name: string; email?: string } | null;
+  } | null;
+  upcoming: InvoiceScheduleOccurrence[];
+}
+
+export interface UpcomingInvoice extends InvoiceScheduleOccurrence {
+  schedule_status: InvoiceScheduleStatus;
+  frequency: RecurrenceFrequency;
+  invoice: InvoiceSchedule['invoice'];
+}
+
+export interface InvoiceScheduleInput {
+  frequency: RecurrenceFrequency;
+  end_date?: string | null;
+  max_occurrences?: number | null;
+  auto_send?: boolean;
+}
+
+export interface TaxRate {
+  id: string;
+  company_id: string;
+  name: string;
+  rate: number;
+  /** Charged on the line amount plus the simple taxes before it */
+  is_compound: boolean;
+  /** Applied to new line items by default */
+  is_default: boolean;
+  order: number;
+}
+
+export type TaxRateInput = Pick<TaxRate, 'name' | 'rate' | 'is_compound' | 'is_default'>;
+
+/** A tax as applied to a line item, copied from the company rate when the line was saved */
+export interface LineItemTax {
+  tax_rate_id: string | null;
+  name: string;
+  rate: number;
+  is_compound: boolean;
+}
+
+export interface TaxBreakdownEntry extends LineItemTax {
+  taxable: number;
+  amount: number;
 }
 
 export interface InvoiceLineItem {
@@ -138,17 +589,48 @@ export interface InvoiceLineItem {
   description: string;
   quantity: number;
   unit_price: number;
+  discount_rate?: number;
+  discount_amount?: number;
+  /** Net of the line discount */
   amount: number;
+  taxes?: LineItemTax[] | null;
+  tax_amount?: number;
+  /** Write-only: ids of the company tax rates to apply */
+  tax_rate_ids?: string[];
   task_id?: string;
   order: number;
   created_at: string;
   updated_at: string;
 }
 
+/** A task as listed for invoicing, with the hours and rate to bill it at */
+export interface BillableTask {
+  id: string;
+  title: string;
+  status: string;
+  completed: boolean;
+  completed_at: string | null;
+  hours: number | null;
+  hourly_rate: number | null;
+  /** The task's own rate, else the project's */
+  rate: number | null;
+  project: { id: string; name: string; code?: string | null } | null;
+  /** Set when the task is already billed on an invoice that isn't cancelled */
+  invoice: { id: string; invoice_number: string; status: Invoice['status'] } | null;
+}
+
+export interface BillableTaskFilters {
+  project_id: string;
+  completed_from?: string;
+  completed_to?: string;
+}
+
 export interface Payment {
   id: string;
   company_id: string;
   invoice_id?: string;
+  type?: 'payment' | 'refund';
+  refunded_payment_id?: string | null;
   amount: number;
   currency: string;
   payment_method: string;
@@ -158,7 +640,9 @@ export interface Payment {
   stripe_customer_id?: string;
   receipt_url?: string;
   receipt_number?: string;
+  reference?: string | null;
   notes?: string;
+  recorded_by?: string | null;
   processed_at?: string;
   failed_reason?: string;
   refunded_at?: string;
@@ -168,6 +652,80 @@ export interface Payment {
   invoice?: Invoice;
 }
 
+export type ManualPaymentMethod = 'bank_transfer' | 'cheque' | 'cash' | 'card' | 'other';
+
+export interface PaymentLedgerEntry {
+  id: string;
+  type: 'payment' | 'refund';
+  refunded_payment_id: string | null;
+  amount: number;
+  refund_amount: number | null;
+  currency: string;
+  payment_method: string;
+  status: Payment['status'];
+  reference: string | null;
+  notes: string | null;
+  receipt_url: string | null;
+  failed_reason: string | null;
+  processed_at: string | null;
+  recorded_by: { id: string; name: string } | null;
+  /** Amount due after this entry; null for entries that did not move money */
+  balance: number | null;
+}
+
+export interface PaymentLedger {
+  entries: PaymentLedgerEntry[];
+  total: number;
+  amount_paid: number;
+  amount_due: number;
+  status: Invoice['status'];
+}
+
+export interface ManualPaymentInput {
+  amount: number;
+  payment_method: ManualPaymentMethod;
+  paid_at?: string;
+  reference?: string;
+  notes?: string;
+}
+
+export interface RefundInput {
+  amount?: number;
+  refunded_at?: string;
+  reference?: string;
+  notes?: string;
+}
+
+export interface CreditNote {
+  id: string;
+  invoice_id: string;
+  credit_note_number: string;
+  status: 'issued' | 'applied' | 'void';
+  issue_date: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  has_pdf: boolean;
+  issued_by: { id: string; name: string } | null;
+  applied_at: string | null;
+  voided_at: string | null;
+  created_at: string;
+}
+
+export interface InvoiceCreditNotes {
+  credit_notes: CreditNote[];
+  /** Amount due less credit notes not applied yet */
+  creditable_amount: number;
+}
+
+export interface CreditNoteInput {
+  /** Omit to credit the full creditable amount */
+  amount?: number;
+  reason: string;
+  /** Apply to the invoice right away instead of leaving it issued */
+  apply?: boolean;
+}
+
 export interface InvoiceEvent {
   id: string;
   invoice_id: string;
@@ -180,3 +738,86 @@ export interface InvoiceEvent {
   created_at: string;
 }
 
+
+export interface Quote {
+  id: string;
+  company_id: string;
+  contact_id: string;
+  project_id?: string | null;
+  deal_id?: string | null;
+  quote_number: string;
+  title?: string | null;
+  status: 'draft' | 'sent' | 'viewed' | 'accepted' | 'declined' | 'expired' | 'converted';
+  issue_date: string;
+  valid_until: string;
+  subtotal: number;
+  tax_amount: number;
+  tax_breakdown?: TaxBreakdownEntry[] | null;
+  discount_rate: number;
+  discount_amount: number;
+  total: number;
+  currency: string;
+  terms?: string | null;
+  notes?: string | null;
+  token?: string;
+  sent_at?: string | null;
+  accepted_at?: string | null;
+  /** Name the client typed when accepting */
+  accepted_by?: string | null;
+  declined_at?: string | null;
+  decline_reason?: string | null;
+  contract_id?: string | null;
+  invoice_id?: string | null;
+  converted_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  company?: { id: string; name: string };
+  contact?: { id: string; full_name: string; email?: string };
+  project?: { id: string; name: string } | null;
+  contract?: Pick<Contract, 'id' | 'contract_number' | 'title' | 'status'> | null;
+  invoice?: Pick<Invoice, 'id' | 'invoice_number' | 'status'> | null;
+  line_items?: QuoteLineItem[];
+  events?: QuoteEvent[];
+}
+
+export type QuoteLineItem = Omit<InvoiceLineItem, 'invoice_id' | 'task_id'> & { quote_id: string };
+
+export interface QuoteEvent {
+  id: string;
+  quote_id: string;
+  event_type: string;
+  event_data: {
+    accepted_by?: string;
+    reason?: string | null;
+    recipient_email?: string;
+    contract_number?: string;
+    invoice_number?: string;
+    [key: string]: unknown;
+  } | null;
+  actor_type?: string;
+  actor_id?: string;
+  ip_address?: string;
+  user_agent?: string;
+  created_at: string;
+}
+
+export interface QuoteInput {
+  contact_id: string;
+  project_id?: string | null;
+  title?: string;
+  issue_date: string;
+  valid_until: string;
+  currency?: string;
+  discount_rate?: number;
+  terms?: string;
+  notes?: string;
+  line_items: Pick<QuoteLineItem, 'description' | 'quantity' | 'unit_price' | 'discount_rate' | 'tax_rate_ids'>[];
+}
+
+export interface QuoteConversion {
+  target: 'contract' | 'invoice';
+  /** Contract template to build the contract from; required when converting to a contract */
+  template_id?: string;
+  /** Days until the invoice is due */
+  due_days?: number;
+}
@@ -0,0 +1,68 @@
+export interface TimeEntryUser {
+  id: string
+  name: string
+  avatar: string | null
+}
+
+export interface TimeEntry {
+  id: string
+  task: { id: string; title: string } | null
+  project: { id: string; name: string } | null
+  user: TimeEntryUser | null
+  started_at: string
+  ended_at: string | null
+  // Counts up to the time of the request for running timers
+  duration_seconds: number
+  is_running: boolean
+  notes: string | null
+  is_billable: boolean
+}
+
+export interface TimeEntryInput {
+  task_id: string
+  started_at: string
+  duration_minutes: number
+  notes?: string | null
+  is_billable?: boolean
+}
+
+export type TimesheetStatus = 'open' | 'submitted' | 'approved' | 'rejected'
+
+export interface Timesheet {
+  id: string | null
+  user: TimeEntryUser | null
+  week_start: string
+  status: TimesheetStatus
+  submitted_at: string | null
+  reviewed_at: string | null
+  reviewer: { id: string; name: string } | null
+  review_note: string | null
+}
+
+export interface TimesheetProjectTotal {
+  project: { id: string; name: string } | null
+  // Seconds per day, Monday first
+  days: number[]
+  total_seconds: number
+  billable_seconds: number
+}
+
+export interface TimesheetWeek {
+  timesheet: Timesheet
+  entries: TimeEntry[]
+  totals: {
+    days: number[]
+    projects: TimesheetProjectTotal[]
+    total_seconds: number
+    billable_seconds: number
+  }
+  can_review: boolean
+}
+
+export interface TeamTimesheet {
+  user: TimeEntryUser
+  timesheet_id: string | null
+  status: TimesheetStatus
+  total_seconds: number
+  billable_seconds: number
+}
@@ -0,0 +1,39 @@
+<?php
+
+namespace App\Console\Commands;
+
+use App\Services\RecurringInvoiceService;
+use Carbon\Carbon;
+use Illuminate\Console\Command;
+
+class GenerateRecurringInvoices extends Command
+{
+    /**
+     * The name and signature of the console command.
+     *
+     * @var string
+     */
+    protected $signature = 'invoices:generate-recurring
+                            {--date= : Generate as if today were this date (YYYY-MM-DD)}';
+
+    /**
+     * The console command description.
+     *
+     * @var string
+     */
+    protected $description = 'Generate the invoices that are due from recurring invoice schedules';
+
+    /**
+     * Execute the console command.
+     */
+    public function handle(RecurringInvoiceService $recurringInvoiceService): int
+    {
+        $today = $this->option('date') ? Carbon::parse($this->option('date')) : now();
+
+        $count = $recurringInvoiceService->generateDue($today);
+
+        $this->info("Generated {$count} recurring invoice(s) for {$today->toDateString()}.");
+
+        return self::SUCCESS;
+    }
+}
@@ -0,0 +1,41 @@
+<?php
+
+namespace App\Console\Commands;
+
+use App\Services\ContractRenewalService;
+use Carbon\Carbon;
+use Illuminate\Console\Command;
+
+class ProcessContractRenewals extends Command
+{
+    /**
+     * The name and signature of the console command.
+     *
+     * @var string
+     */
+    protected $signature = 'contracts:process-renewals
+                            {--date= : Run as if today were this date (YYYY-MM-DD)}';
+
+    /**
+     * The console command description.
+     *
+     * @var string
+     */
+    protected $description = 'Auto-renew contracts at the end of their term, flag notice periods and expire lapsed signing links';
+
+    /**
+     * Execute the console command.
+     */
+    public function handle(ContractRenewalService $renewalService): int
+    {
+        $today = $this->option('date') ? Carbon::parse($this->option('date')) : now();
+
+        $renewed = $renewalService->autoRenewDue($today);
+        $flagged = $renewalService->flagNoticePeriods($today);
+        $expired = $renewalService->expireUnsigned($today);
+
+        $this->info("Auto-renewed {$renewed} contract(s), flagged {$flagged} notice period(s) and expired {$expired} unsigned contract(s) for {$today->toDateString()}.");
+
+        return self::SUCCESS;
+    }
+}
@@ -0,0 +1,40 @@
+<?php
+
+namespace App\Console\Commands;
+
+use App\Services\InvoiceReminderService;
+use Carbon\Carbon;
+use Illuminate\Console\Command;
+
+class SendInvoiceReminders extends Command
+{
+    /**
+     * The name and signature of the console command.
+     *
+     * @var string
+     */
+    protected $signature = 'invoices:send-reminders
+                            {--date= : Run as if today were this date (YYYY-MM-DD)}';
+
+    /**
+     * The console command description.
+     *
+     * @var string
+     */
+    protected $description = 'Mark past-due invoices as overdue and send the payment reminders that are due';
+
+    /**
+     * Execute the console command.
+     */
+    public function handle(InvoiceReminderService $reminderService): int
+    {
+        $today = $this->option('date') ? Carbon::parse($this->option('date')) : now();
+
+        $overdue = $reminderService->markOverdue($today);
+        $sent = $reminderService->sendDue($today);
+
+        $this->info("Marked {$overdue} invoice(s) overdue and sent {$sent} reminder(s) for {$today->toDateString()}.");
+
+        return self::SUCCESS;
+    }
+}
@@ -4,6 +4,7 @@
 
 use App\Http\Controllers\Controller;
 use App\Models\CompanyContact;
+use App\Models\Contract;
 use App\Models\Deal;
 use App\Models\Project;
 use App\Models\Task;
@@ -84,6 +85,7 @@ protected function buildDashboardContext(?string $companyId, bool $hasCompany):
                 'tasks' => ['total' => 0, 'pending' => 0, 'overdue' => 0, 'due_soon' => 0],
                 'projects' => ['total' => 0, 'active' => 0],
                 'contacts' => ['total' => 0, 'leads' => 0, 'customers' => 0],
+                'contracts' => ['expiring_30_days' => 0, 'in_notice_period' => 0, 'expiring_sample' => []],
                 'tasks_sample' => [],
             ];
         }
@@ -154,6 +156,16 @@ protected function buildDashboardContext(?string $companyId, bool $hasCompany):
         $pipelineValue = $openDeals->sum('value');
         $dealsClosingSoon = Deal::where('company_id', $companyId)->closingSoon(7)->count();
 
+        // Contracts: signed contracts ending soon that haven't been renewed
+        $expiringContracts = Contract::where('company_id', $companyId)
+            ->endingWithin(30)
+            ->whereDoesntHave('renewal')
+            ->orderBy('ends_at')
+            ->get(['id', 'title', 'contract_number', 'ends_at', 'renewal_type', 'notice_period_days']);
+        $inNoticePeriod = $expiringContracts
+            ->filter(fn ($c) => $c->noticeDeadline()?->lte($now) ?? false)
+            ->count();
+
         return [
             'has_company' => true,
             'tasks' => [
@@ -178,6 +190,17 @@ protected function buildDashboardContext(?string $companyId, bool $hasCompany):
                 'deals_closing_soon' => $dealsClosingSoon,
                 'open_deals' => count($openDeals),
             ],
+            'contracts' => [
+                'expiring_30_days' => $expiringContracts->count(),
+                'in_notice_period' => $inNoticePeriod,
+                'expiring_sample' => $expiringContracts->take(5)->map(fn ($c) => [
+                    'title' => $c->title,
+                    'contract_number' => $c->contract_number,
+                    'ends_at' => $c->ends_at->toIso8601String(),
+                    'days_left' => (int) $now->copy()->startOfDay()->diffInDays($c->ends_at->copy()->startOfDay(), false),
+                    'renewal_type' => $c->renewal_type,
+                ])->values()->toArray(),
+            ],
             'tasks_sample' => $sampleTasks->map(fn ($t) => [
                 'id' => $t->id,
                 'title' => $t->title,
@@ -4,6 +4,7 @@
 
 use App\Http\Controllers\Controller;
 use App\Models\Company;
+use App\Models\CompanyUser;
 use App\Models\UserPreset;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
@@ -172,10 +173,15 @@ public function update(Request $request, string $id): JsonResponse
         try {
             $validated = $request->validate([
                 'name' => 'sometimes|string|max:255|min:2',
+                'slug' => 'sometimes|string|max:255|min:2|alpha_dash|unique:companies,slug,' . $company->id,
                 'logo_url' => 'nullable|url|max:500',
                 'settings' => 'nullable|array',
             ]);
 
+            if (isset($validated['slug'])) {
+                $validated['slug'] = Str::lower($validated['slug']);
+            }
+
             $company->update($validated);
 
             return response()->json([
@@ -199,5 +205,250 @@ public function update(Request $request, string $id): JsonResponse
             ], 422);
         }
     }
-}
 
+    /**
+     * Get the team members of a company.
+     */
+    public function members(Request $request, string $id): JsonResponse
+    {
+        $company = $request->user()->companies()->find($id);
+
+        if (!$company) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Company not found',
+            ], 404);
+        }
+
+        $members = $company->users()
+            ->orderBy('first_name')
+            ->get()
+            ->map(fn($member) => [
+                'id' => $member->id,
+                'first_name' => $member->first_name,
+                'last_name' => $member->last_name,
+                'full_name' => $member->full_name,
+                'email' => $member->email,
+                'avatar_url' => $member->avatar_url,
+                'pivot' => [
+                    'role_in_company' => $member->pivot->role_in_company,
+                    'is_active' => (bool) $member->pivot->is_active,
+                    'joined_at' => $member->pivot->joined_at,
+                ],
+            ]);
+
+        return response()->json([
+            'success' => true,
+            'data' => $members,
+        ]);
+    }
+
+    /**
+     * Update a team member's role or active flag.
+     */
+    public function updateMember(Request $request, string $id, string $userId): JsonResponse
+    {
+        $user = $request->user();
+
+        $company = $user->companies()
+            ->wherePivotIn('role_in_company', ['owner', 'manager'])
+            ->find($id);
+
+        if (!$company) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Company not found or insufficient permissions',
+            ], 404);
+        }
+
+        try {
+            $validated = $request->validate([
+                'role_in_company' => 'sometimes|string|in:' . implode(',', CompanyUser::roles()),
+                'is_active' => 'sometimes|boolean',
+            ]);
+
+            $membership = CompanyUser::where('company_id', $company->id)
+                ->where('user_id', $userId)
+                ->first();
+
+            if (!$membership) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Member not found',
+                ], 404);
+            }
+
+            // Only owners can grant or revoke the owner role
+            $touchesOwner = $membership->isOwner() || ($validated['role_in_company'] ?? null) === CompanyUser::ROLE_OWNER;
+            if ($touchesOwner && $company->pivot->role_in_company !== CompanyUser::ROLE_OWNER) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Only owners can change owner memberships',
+                ], 403);
+            }
+
+            // Never leave a company without an active owner
+            $demotesOwner = $membership->isOwner()
+                && ((isset($validated['role_in_company']) && $validated['role_in_company'] !== CompanyUser::ROLE_OWNER)
+                    || (isset($validated['is_active']) && !$validated['is_active']));
+            if ($demotesOwner && CompanyUser::where('company_id', $company->id)->owners()->active()->count() <= 1) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'A company must keep at least one active owner',
+                ], 422);
+            }
+
+            $membership->update($validated);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Member updated successfully',
+                'data' => [
+                    'user_id' => $membership->user_id,
+                    'role_in_company' => $membership->role_in_company,
+                    'is_active' => $membership->is_active,
+                ],
+            ]);
+        } catch (ValidationException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Validation failed',
+                'errors' => $e->errors(),
+            ], 422);
+        }
+    }
+
+    /**
+     * Remove a team member from a company.
+     */
+    public function removeMember(Request $request, string $id, string $userId): JsonResponse
+    {
+        $user = $request->user();
+
+        $company = $user->companies()
+            ->wherePivotIn('role_in_company', ['owner', 'manager'])
+            ->find($id);
+
+        if (!$company) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Company not found or insufficient permissions',
+            ], 404);
+        }
+
+        $membership = CompanyUser::where('company_id', $company->id)
+            ->where('user_id', $userId)
+            ->first();
+
+        if (!$membership) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Member not found',
+            ], 404);
+        }
+
+        if ($membership->isOwner()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Owners cannot be removed. Change their role first.',
+            ], 422);
+        }
+
+        $membership->delete();
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Member removed',
+        ]);
+    }
+
+    /**
+     * Get settings for the active company (X-Company-ID).
+     */
+    public function settings(Request $request): JsonResponse
+    {
+        $company = $request->user()->companies()->find($request->header('X-Company-ID'));
+
+        if (!$company) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Company not found',
+            ], 404);
+        }
+
+        $settings = $company->settings ?? [];
+
+        // Stripe secrets are only visible to roles that may edit them
+        if (!in_array($company->pivot->role_in_company, ['owner', 'manager'], true)) {
+            unset($settings['stripe']['secret_key'], $settings['stripe']['webhook_secret']);
+        }
+
+        return response()->json([
+            'success' => true,
+            'data' => [
+                'id' => $company->id,
+                'settings' => $settings,
+            ],
+        ]);
+    }
+
+    /**
+     * Update settings for the active company (X-Company-ID).
+     * Top-level keys (stripe, documents, ...) are replaced, others are kept.
+     */
+    public function updateSettings(Request $request): JsonResponse
+    {
+        $company = $request->user()->companies()
+            ->wherePivotIn('role_in_company', ['owner', 'manager'])
+            ->find($request->header('X-Company-ID'));
+
+        if (!$company) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Company not found or insufficient permissions',
+            ], 404);
+        }
+
+        try {
+            $validated = $request->validate([
+                'settings' => 'required|array',
+                'settings.documents.base_currency' => 'nullable|string|size:3',
+                'settings.documents.exchange_rates' => 'nullable|array',
+                'settings.documents.exchange_rates.*' => 'numeric|gt:0',
+                'settings.documents.invoice_reminder_schedule' => 'nullable|array|max:20',
+                'settings.documents.invoice_reminder_schedule.*.id' => 'required|string|max:64',
+                'settings.documents.invoice_reminder_schedule.*.offset_days' => 'required|integer|between:-90,365',
+                'settings.documents.invoice_reminder_schedule.*.enabled' => 'boolean',
+                'settings.documents.invoice_reminder_schedule.*.subject' => 'required|string|max:255',
+                'settings.documents.invoice_reminder_schedule.*.body' => 'required|string|max:10000',
+            ]);
+
+            $settings = array_merge($company->settings ?? [], $validated['settings']);
+
+            // Document settings are merged key by key, so keys a request leaves out are kept
+            if (is_array($validated['settings']['documents'] ?? null)) {
+                $settings['documents'] = array_merge(
+                    $company->settings['documents'] ?? [],
+                    $validated['settings']['documents']
+                );
+            }
+
+            $company->update(['settings' => $settings]);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Settings updated successfully',
+                'data' => [
+                    'id' => $company->id,
+                    'settings' => $company->settings,
+                ],
+            ]);
+        } catch (ValidationException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Validation failed',
+                'errors' => $e->errors(),
+            ], 422);
+        }
+    }
+}
@@ -0,0 +1,196 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Mail\TeamInvitation;
+use App\Models\CompanyInvitation;
+use App\Models\CompanyUser;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Mail;
+use Illuminate\Support\Str;
+use Illuminate\Validation\ValidationException;
+
+class CompanyInvitationController extends Controller
+{
+    /**
+     * Get pending invitations for a company.
+     */
+    public function index(Request $request, string $companyId): JsonResponse
+    {
+        $company = $request->user()->companies()
+            ->wherePivotIn('role_in_company', ['owner', 'manager'])
+            ->find($companyId);
+
+        if (!$company) {
+            return response()->json(['success' => false, 'message' => 'Company not found or access denied'], 404);
+        }
+
+        $invitations = CompanyInvitation::forCompany($company->id)
+            ->with('inviter:id,first_name,last_name,email')
+            ->pending()
+            ->orderBy('created_at', 'desc')
+            ->get();
+
+        return response()->json(['success' => true, 'data' => $invitations]);
+    }
+
+    /**
+     * Invite someone to join a company.
+     */
+    public function store(Request $request, string $companyId): JsonResponse
+    {
+        $user = $request->user();
+
+        try {
+            $company = $user->companies()
+                ->wherePivotIn('role_in_company', ['owner', 'manager'])
+                ->find($companyId);
+
+            if (!$company) {
+                return response()->json(['success' => false, 'message' => 'Company not found or access denied'], 404);
+            }
+
+            $validated = $request->validate([
+                'email' => 'required|email',
+                'role_in_company' => 'nullable|string|in:manager,staff,agent',
+            ]);
+
+            $email = Str::lower($validated['email']);
+
+            // Check if already invited
+            if (CompanyInvitation::forCompany($company->id)->where('email', $email)->pending()->exists()) {
+                return response()->json(['success' => false, 'message' => 'This email has already been invited'], 422);
+            }
+
+            // Check if user is already a member
+            if ($company->users()->where('email', $email)->exists()) {
+                return response()->json(['success' => false, 'message' => 'This user is already a member'], 422);
+            }
+
+            $invitation = CompanyInvitation::create([
+                'company_id' => $company->id,
+                'inviter_id' => $user->id,
+                'email' => $email,
+                'token' => Str::random(64),
+                'role_in_company' => $validated['role_in_company'] ?? CompanyUser::ROLE_STAFF,
+                'expires_at' => now()->addDays(7),
+            ]);
+
+            $this->sendInvitation($invitation);
+
+            return response()->json(['success' => true, 'message' => 'Invitation sent successfully', 'data' => $invitation], 201);
+        } catch (ValidationException $e) {
+            return response()->json(['success' => false, 'message' => 'Validation failed', 'errors' => $e->errors()], 422);
+        }
+    }
+
+    /**
+     * Accept a company invitation.
+     */
+    public function accept(Request $request, string $token): JsonResponse
+    {
+        $user = $request->user();
+
+        try {
+            $invitation = CompanyInvitation::where('token', $token)->first();
+
+            if (!$invitation) {
+                return response()->json(['success' => false, 'message' => 'Invitation not found'], 404);
+            }
+
+            if ($invitation->isExpired()) {
+                return response()->json(['success' => false, 'message' => 'Invitation has expired'], 410);
+            }
+
+            if ($invitation->isAccepted()) {
+                return response()->json(['success' => false, 'message' => 'Invitation already accepted'], 410);
+            }
+
+            if (Str::lower($user->email) !== Str::lower($invitation->email)) {
+                return response()->json(['success' => false, 'message' => 'This invitation was sent to a different email address'], 403);
+            }
+
+            DB::transaction(function () use ($invitation, $user) {
+                $alreadyMember = CompanyUser::where('company_id', $invitation->company_id)
+                    ->where('user_id', $user->id)
+                    ->exists();
+
+                if (!$alreadyMember) {
+                    $invitation->company->addUser($user, $invitation->role_in_company);
+                }
+
+                $invitation->markAsAccepted();
+            });
+
+            return response()->json(['success' => true, 'message' => 'Invitation accepted', 'data' => ['company_id' => $invitation->company_id]]);
+        } catch (\Exception $e) {
+            return response()->json(['success' => false, 'message' => 'Failed to accept invitation'], 500);
+        }
+    }
+
+    /**
+     * Cancel an invitation.
+     */
+    public function destroy(Request $request, string $companyId, string $id): JsonResponse
+    {
+        $invitation = $this->findManagedInvitation($request, $companyId, $id);
+
+        if (!$invitation) {
+            return response()->json(['success' => false, 'message' => 'Invitation not found'], 404);
+        }
+
+        $invitation->delete();
+
+        return response()->json(['success' => true, 'message' => 'Invitation cancelled']);
+    }
+
+    /**
+     * Resend an invitation.
+     */
+    public function resend(Request $request, string $companyId, string $id): JsonResponse
+    {
+        $invitation = $this->findManagedInvitation($request, $companyId, $id);
+
+        if (!$invitation) {
+            return response()->json(['success' => false, 'message' => 'Invitation not found'], 404);
+        }
+
+        $invitation->update([
+            'token' => Str::random(64),
+            'expires_at' => now()->addDays(7),
+        ]);
+
+        $this->sendInvitation($invitation);
+
+        return response()->json(['success' => true, 'message' => 'Invitation resent']);
+    }
+
+    /**
+     * Email the invitation with its accept link.
+     */
+    private function sendInvitation(CompanyInvitation $invitation): void
+    {
+        $invitation->loadMissing(['company:id,name', 'inviter:id,first_name,last_name']);
+
+        Mail::to($invitation->email)->queue(new TeamInvitation($invitation));
+    }
+
+    /**
+     * Find an invitation in a company the user manages.
+     */
+    private function findManagedInvitation(Request $request, string $companyId, string $id): ?CompanyInvitation
+    {
+        $company = $request->user()->companies()
+            ->wherePivotIn('role_in_company', ['owner', 'manager'])
+            ->find($companyId);
+
+        if (!$company) {
+            return null;
+        }
+
+        return CompanyInvitation::forCompany($company->id)->find($id);
+    }
+}
@@ -0,0 +1,130 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\ContractClause;
+use App\Services\ContractClauseService;
+use Illuminate\Http\Request;
+
+class ContractClauseController extends Controller
+{
+    protected ContractClauseService $clauseService;
+
+    public function __construct(ContractClauseService $clauseService)
+    {
+        $this->clauseService = $clauseService;
+    }
+
+    /**
+     * Display the company's clause library.
+     */
+    public function index(Request $request)
+    {
+        $companyId = $request->user()->company_id;
+
+        $query = ContractClause::forCompany($companyId)
+            ->with('creator:id,first_name,last_name');
+
+        if ($request->filled('tag')) {
+            $query->whereJsonContains('tags', strtolower($request->input('tag')));
+        }
+
+        if ($request->filled('search')) {
+            $search = $request->input('search');
+            $query->where(function ($q) use ($search) {
+                $q->where('name', 'ilike', "%{$search}%")
+                  ->orWhere('description', 'ilike', "%{$search}%");
+            });
+        }
+
+        $usage = $this->clauseService->usageCounts($companyId);
+
+        $clauses = $query->orderBy('name')
+            ->get()
+            ->each(fn(ContractClause $clause) => $clause->setAttribute('usage_count', $usage[$clause->id] ?? 0));
+
+        return response()->json(['data' => $clauses]);
+    }
+
+    /**
+     * Store a newly created clause.
+     */
+    public function store(Request $request)
+    {
+        $validated = $request->validate([
+            'name' => 'required|string|max:150',
+            ...$this->clauseRules(),
+            'html' => 'required|string',
+        ]);
+
+        $clause = $this->clauseService->create($request->user()->company_id, $validated, $request->user());
+
+        return response()->json([
+            'message' => 'Clause created successfully',
+            'data' => $clause,
+        ], 201);
+    }
+
+    /**
+     * Display a clause with its version history.
+     */
+    public function show(Request $request, string $id)
+    {
+        $clause = ContractClause::forCompany($request->user()->company_id)
+            ->with(['creator:id,first_name,last_name', 'versions.creator:id,first_name,last_name'])
+            ->findOrFail($id);
+
+        return response()->json(['data' => $clause]);
+    }
+
+    /**
+     * Update a clause; changing its text saves a new version.
+     */
+    public function update(Request $request, string $id)
+    {
+        $clause = ContractClause::forCompany($request->user()->company_id)
+            ->findOrFail($id);
+
+        $validated = $request->validate([
+            'name' => 'sometimes|required|string|max:150',
+            ...$this->clauseRules(),
+            'html' => 'sometimes|required|string',
+        ]);
+
+        $clause = $this->clauseService->update($clause, $validated, $request->user());
+
+        return response()->json([
+            'message' => 'Clause updated successfully',
+            'data' => $clause,
+        ]);
+    }
+
+    /**
+     * Remove a clause. Templates keep their copy of its text.
+     */
+    public function destroy(Request $request, string $id)
+    {
+        $clause = ContractClause::forCompany($request->user()->company_id)
+            ->findOrFail($id);
+
+        $this->clauseService->delete($clause);
+
+        return response()->json([
+            'message' => 'Clause deleted successfully',
+        ]);
+    }
+
+    /**
+     * Rules shared by store and update.
+     */
+    protected function clauseRules(): array
+    {
+        return [
+            'description' => 'nullable|string|max:500',
+            'tags' => 'nullable|array|max:20',
+            'tags.*' => 'string|max:50',
+            'change_summary' => 'nullable|string|max:500',
+        ];
+    }
+}
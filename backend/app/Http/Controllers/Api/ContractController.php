@@ -6,21 +6,40 @@
 use App\Jobs\GenerateContractPdf;
 use App\Jobs\SendContractEmail;
 use App\Models\Contract;
+use App\Models\ContractComment;
 use App\Models\ContractEvent;
+use App\Models\ContractSignature;
+use App\Models\ContractSigner;
 use App\Models\ContractTemplate;
 use App\Models\Contact;
 use App\Models\Project;
+use App\Services\ContractRenewalService;
+use App\Services\ContractSigningService;
+use App\Services\ContractVersionService;
 use App\Services\MergeFieldService;
 use Illuminate\Http\Request;
+use Illuminate\Support\Arr;
 use Illuminate\Support\Str;
+use Illuminate\Validation\Rule;
+use InvalidArgumentException;
 
 class ContractController extends Controller
 {
     protected MergeFieldService $mergeFieldService;
-
-    public function __construct(MergeFieldService $mergeFieldService)
-    {
+    protected ContractSigningService $signingService;
+    protected ContractVersionService $versionService;
+    protected ContractRenewalService $renewalService;
+
+    public function __construct(
+        MergeFieldService $mergeFieldService,
+        ContractSigningService $signingService,
+        ContractVersionService $versionService,
+        ContractRenewalService $renewalService
+    ) {
         $this->mergeFieldService = $mergeFieldService;
+        $this->signingService = $signingService;
+        $this->versionService = $versionService;
+        $this->renewalService = $renewalService;
     }
 
     /**
@@ -30,7 +49,10 @@ public function index(Request $request)
     {
         $query = Contract::query()
             ->where('company_id', $request->user()->company_id)
-            ->with(['contact:id,full_name,email', 'project:id,name', 'template:id,name']);
+            ->with(['contact:id,full_name,email', 'project:id,name', 'template:id,name'])
+            ->withCount(['signers', 'signers as signed_signers_count' => function ($q) {
+                $q->where('status', ContractSigner::STATUS_SIGNED);
+            }]);
 
         // Filter by status
         if ($request->filled('status')) {
@@ -47,6 +69,11 @@ public function index(Request $request)
             $query->where('project_id', $request->input('project_id'));
         }
 
+        // Filter by deal
+        if ($request->filled('deal_id')) {
+            $query->where('deal_id', $request->input('deal_id'));
+        }
+
         // Search by title or contract number
         if ($request->filled('search')) {
             $search = $request->input('search');
@@ -75,11 +102,15 @@ public function store(Request $request)
             'template_id' => 'required|exists:contract_templates,id',
             'contact_id' => 'required|exists:contacts,id',
             'project_id' => 'nullable|exists:projects,id',
+            'deal_id' => 'nullable|exists:deals,id',
             'title' => 'required|string|max:255',
             'contract_type' => 'required|in:fixed_price,milestone,subscription',
             'pricing_data' => 'required|array',
             'expires_at' => 'nullable|date',
+            'ends_at' => 'nullable|date',
             'notes' => 'nullable|string',
+            'merge_field_values' => 'nullable|array',
+            'merge_field_values.*' => 'nullable|string|max:2000',
         ]);
 
         // Get template
@@ -98,19 +129,25 @@ public function store(Request $request)
 
         // Extract merge field values
         $company = $request->user()->company;
-        $mergeValues = $this->mergeFieldService->extractValues($contact, $project, $company);
-
-        // Replace merge fields in template sections
-        $renderedSections = $this->mergeFieldService->replaceSections($template->sections, $mergeValues);
+        $mergeValues = [
+            ...$this->mergeFieldService->extractValues($contact, $project, $company),
+            // Custom company and template fields entered when creating the contract
+            ...$this->mergeFieldService->customValues(
+                $this->mergeFieldService->fieldsFor($company->id, $template),
+                $validated['merge_field_values'] ?? []
+            ),
+        ];
+
+        // Apply section conditions and repeatable blocks, then replace merge fields
+        $renderedSections = $this->mergeFieldService->renderSections(
+            $template->sections,
+            $mergeValues,
+            $validated['contract_type'],
+            $validated['pricing_data']
+        );
 
         // Generate contract number
-        $prefix = $company->settings['documents']['contract_number_prefix'] ?? 'CNT';
-        $number = $prefix . '-' . date('Y') . '-' . str_pad(
-            Contract::where('company_id', $company->id)->count() + 1,
-            4,
-            '0',
-            STR_PAD_LEFT
-        );
+        $number = Contract::generateNumber($company);
 
         // Create contract
         $contract = Contract::create([
@@ -118,6 +155,7 @@ public function store(Request $request)
             'template_id' => $template->id,
             'contact_id' => $contact->id,
             'project_id' => $project?->id,
+            'deal_id' => $validated['deal_id'] ?? null,
             'title' => $validated['title'],
             'contract_number' => $number,
             'contract_type' => $validated['contract_type'],
@@ -128,6 +166,7 @@ public function store(Request $request)
             'status' => 'draft',
             'token' => Str::random(64),
             'expires_at' => $validated['expires_at'] ?? now()->addDays($company->settings['documents']['contract_auto_expire_days'] ?? 30),
+            'ends_at' => $validated['ends_at'] ?? null,
             'notes' => $validated['notes'] ?? null,
         ]);
 
@@ -141,6 +180,8 @@ public function store(Request $request)
             'user_agent' => $request->userAgent(),
         ]);
 
+        $this->versionService->recordInitialVersion($contract, $request->user());
+
         $contract->load(['contact:id,full_name,email', 'project:id,name', 'template:id,name']);
 
         return response()->json([
@@ -155,12 +196,57 @@ public function store(Request $request)
     public function show(Request $request, string $id)
     {
         $contract = Contract::where('company_id', $request->user()->company_id)
-            ->with(['contact', 'project', 'template', 'providerSigner:id,name,email'])
+            ->with([
+                'contact',
+                'project',
+                'template',
+                'providerSigner:id,name,email',
+                'signers',
+                'renewedFrom:id,contract_number,title',
+                'renewal:id,renewed_from_id,contract_number,status',
+            ])
             ->findOrFail($id);
 
+        // The team shares each signer's personal link
+        $contract->signers->makeVisible('token');
+
         return response()->json(['data' => $contract]);
     }
 
+    /**
+     * Replace the signers of a draft contract.
+     */
+    public function updateSigners(Request $request, string $id)
+    {
+        $contract = Contract::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        $validated = $request->validate([
+            'signing_mode' => ['required', Rule::in([ContractSigningService::MODE_PARALLEL, ContractSigningService::MODE_SEQUENTIAL])],
+            'signers' => 'present|array|max:20',
+            'signers.*.name' => 'required|string|max:255',
+            'signers.*.email' => 'required|email|max:255',
+            'signers.*.role' => ['required', Rule::in(ContractSigner::ROLES)],
+            'signers.*.title' => 'nullable|string|max:100',
+            'signers.*.signing_order' => 'nullable|integer|min:1|max:20',
+        ]);
+
+        try {
+            $contract = $this->signingService->saveSigners($contract, $validated['signing_mode'], $validated['signers']);
+        } catch (InvalidArgumentException $e) {
+            return response()->json([
+                'message' => $e->getMessage(),
+            ], 422);
+        }
+
+        $contract->signers->makeVisible('token');
+
+        return response()->json([
+            'message' => 'Signers updated successfully',
+            'data' => $contract->signers,
+        ]);
+    }
+
     /**
      * Update the specified resource in storage.
      */
@@ -181,9 +267,28 @@ public function update(Request $request, string $id)
             'pricing_data' => 'sometimes|required|array',
             'expires_at' => 'nullable|date',
             'notes' => 'nullable|string',
+            'rendered_sections' => 'sometimes|required|array',
+            'rendered_sections.*.id' => 'required|string',
+            'rendered_sections.*.type' => 'required|in:heading,paragraph,list,table,signature',
+            'rendered_sections.*.content' => 'nullable|array',
+            'rendered_sections.*.order' => 'required|integer',
+            'clickwrap_text' => 'nullable|string',
+            'change_summary' => 'nullable|string|max:500',
         ]);
 
-        $contract->update($validated);
+        // Content changes are saved as a new version
+        try {
+            $contract = $this->versionService->revise(
+                $contract,
+                Arr::except($validated, 'change_summary'),
+                $request->user(),
+                $validated['change_summary'] ?? null
+            );
+        } catch (InvalidArgumentException $e) {
+            return response()->json([
+                'message' => $e->getMessage(),
+            ], 422);
+        }
 
         $contract->load(['contact:id,full_name,email', 'project:id,name', 'template:id,name']);
 
@@ -247,8 +352,13 @@ public function send(Request $request, string $id)
             'user_agent' => $request->userAgent(),
         ]);
 
-        // Queue email and PDF generation
-        SendContractEmail::dispatch($contract);
+        // Queue email and PDF generation; contracts with signers email each
+        // signer their own link as their turn comes up
+        if ($contract->signers()->exists()) {
+            $this->signingService->notifyReadySigners($contract);
+        } else {
+            SendContractEmail::dispatch($contract);
+        }
         GenerateContractPdf::dispatch($contract);
 
         return response()->json([
@@ -286,4 +396,145 @@ public function events(Request $request, string $id)
 
         return response()->json($events);
     }
+
+    /**
+     * Signature certificate: each signature with its identity evidence, and
+     * whether the contract text still matches what was signed.
+     */
+    public function signatures(Request $request, string $id)
+    {
+        $contract = Contract::where('company_id', $request->user()->company_id)
+            ->with('signatures')
+            ->findOrFail($id);
+
+        $currentHash = $contract->documentHash();
+
+        return response()->json([
+            'data' => $contract->signatures->map(fn(ContractSignature $signature) => [
+                ...$signature->toArray(),
+                'image' => $signature->imageDataUri(),
+                'document_unchanged' => hash_equals($signature->document_hash, $currentHash),
+            ]),
+            'meta' => [
+                'contract_number' => $contract->contract_number,
+                'document_hash' => $currentHash,
+            ],
+        ]);
+    }
+
+    /**
+     * Saved versions of the contract, oldest first.
+     */
+    public function versions(Request $request, string $id)
+    {
+        $contract = Contract::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        $versions = $contract->versions()
+            ->with('creator:id,first_name,last_name')
+            ->withCount('comments')
+            ->get();
+
+        return response()->json(['data' => $versions]);
+    }
+
+    /**
+     * Comments and change requests left on the contract.
+     */
+    public function comments(Request $request, string $id)
+    {
+        $contract = Contract::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        $comments = $contract->comments()
+            ->with('version:id,version_number')
+            ->get();
+
+        return response()->json(['data' => $comments]);
+    }
+
+    /**
+     * Resolve or reopen a comment.
+     */
+    public function resolveComment(Request $request, string $id, string $commentId)
+    {
+        $contract = Contract::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        $validated = $request->validate([
+            'resolved' => 'required|boolean',
+        ]);
+
+        $comment = ContractComment::where('contract_id', $contract->id)->findOrFail($commentId);
+        $comment = $this->versionService->setResolved($comment, $request->user(), $validated['resolved']);
+
+        return response()->json([
+            'message' => $validated['resolved'] ? 'Comment resolved' : 'Comment reopened',
+            'data' => $comment->load('version:id,version_number'),
+        ]);
+    }
+
+    /**
+     * Signed contracts coming up for renewal in the next 30, 60 or 90 days,
+     * and those with no term end to set one on.
+     */
+    public function renewals(Request $request)
+    {
+        $validated = $request->validate([
+            'days' => 'nullable|integer|in:30,60,90',
+        ]);
+
+        $companyId = $request->user()->company_id;
+        $contracts = $this->renewalService->upcoming($companyId, (int) ($validated['days'] ?? 30));
+
+        return response()->json([
+            'data' => $contracts,
+            'without_term_end' => $this->renewalService->withoutTermEnd($companyId),
+        ]);
+    }
+
+    /**
+     * Set whether and how the contract renews, its notice period and when its term ends.
+     */
+    public function updateRenewalSettings(Request $request, string $id)
+    {
+        $contract = Contract::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        $validated = $request->validate([
+            'renewal_type' => ['required', Rule::in(Contract::RENEWAL_TYPES)],
+            'renewal_term_months' => 'nullable|integer|min:1|max:120',
+            'notice_period_days' => 'nullable|integer|min:0|max:365',
+            'ends_at' => 'sometimes|nullable|date',
+        ]);
+
+        $contract = $this->renewalService->updateSettings($contract, $validated);
+
+        return response()->json([
+            'message' => 'Renewal settings updated',
+            'data' => $contract,
+        ]);
+    }
+
+    /**
+     * Create a draft renewal of a signed contract for the next term.
+     */
+    public function renew(Request $request, string $id)
+    {
+        $contract = Contract::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        try {
+            $renewal = $this->renewalService->renew($contract, $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json([
+                'message' => $e->getMessage(),
+            ], 422);
+        }
+
+        return response()->json([
+            'message' => 'Renewal created successfully',
+            'data' => $renewal->load(['contact:id,full_name,email', 'project:id,name', 'template:id,name']),
+        ], 201);
+    }
 }
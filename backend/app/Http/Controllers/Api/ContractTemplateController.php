@@ -5,11 +5,24 @@
 use App\Http\Controllers\Controller;
 use App\Models\ContractTemplate;
 use App\Services\AIService;
+use App\Services\ContractClauseService;
+use App\Services\ContractTemplateTransferService;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Str;
+use InvalidArgumentException;
 
 class ContractTemplateController extends Controller
 {
+    protected ContractClauseService $clauseService;
+    protected ContractTemplateTransferService $transferService;
+
+    public function __construct(ContractClauseService $clauseService, ContractTemplateTransferService $transferService)
+    {
+        $this->clauseService = $clauseService;
+        $this->transferService = $transferService;
+    }
+
     /**
      * Display a listing of the resource.
      */
@@ -45,6 +58,9 @@ public function index(Request $request)
 
         $templates = $query->paginate($request->input('per_page', 20));
 
+        // Flag templates using an older version of a library clause
+        $this->clauseService->flagOutdated($templates->getCollection(), $companyId);
+
         return response()->json($templates);
     }
 
@@ -69,6 +85,8 @@ public function store(Request $request)
             'is_active' => 'nullable|boolean',
         ]);
 
+        $validated['sections'] = $this->clauseService->syncSections($validated['sections'], $companyId);
+
         $template = ContractTemplate::create([
             'company_id' => $companyId,
             'created_by' => $request->user()->id,
@@ -101,6 +119,8 @@ public function show(Request $request, string $id)
             }])
             ->findOrFail($id);
 
+        $this->clauseService->flagOutdated(collect([$template]), $companyId);
+
         return response()->json(['data' => $template]);
     }
 
@@ -128,6 +148,10 @@ public function update(Request $request, string $id)
             'is_active' => 'nullable|boolean',
         ]);
 
+        if (isset($validated['sections'])) {
+            $validated['sections'] = $this->clauseService->syncSections($validated['sections'], $companyId);
+        }
+
         $template->update($validated);
 
         $template->load(['creator:id,name,email']);
@@ -192,6 +216,74 @@ public function duplicate(Request $request, string $id)
         ], 201);
     }
 
+    /**
+     * Download a template as a JSON bundle that can be imported elsewhere.
+     */
+    public function export(Request $request, string $id)
+    {
+        $companyId = $request->header('X-Company-ID');
+        if (!$companyId) {
+            return response()->json(['message' => 'X-Company-ID header is required'], 422);
+        }
+
+        $template = ContractTemplate::where('company_id', $companyId)
+            ->findOrFail($id);
+
+        $filename = (Str::slug($template->name) ?: 'contract-template') . '.json';
+
+        return response()->json($this->transferService->export($template), 200, [
+            'Content-Disposition' => "attachment; filename=\"{$filename}\"",
+        ], JSON_PRETTY_PRINT | JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE);
+    }
+
+    /**
+     * Create a template from an exported JSON bundle or a Word document.
+     */
+    public function import(Request $request)
+    {
+        $companyId = $request->header('X-Company-ID');
+        if (!$companyId) {
+            return response()->json(['message' => 'X-Company-ID header is required'], 422);
+        }
+
+        $validated = $request->validate([
+            'file' => 'required|file|max:10240',
+            'name' => 'nullable|string|max:255',
+        ]);
+
+        $file = $validated['file'];
+        $extension = strtolower($file->getClientOriginalExtension());
+
+        try {
+            $attributes = match ($extension) {
+                'json' => $this->transferService->fromBundle((array) json_decode($file->get(), true)),
+                'docx' => $this->transferService->fromDocx(
+                    $file->getRealPath(),
+                    $validated['name'] ?? Str::limit(pathinfo($file->getClientOriginalName(), PATHINFO_FILENAME), 255, ''),
+                    $companyId
+                ),
+                default => throw new InvalidArgumentException('Upload a .json template export or a .docx document.'),
+            };
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        $template = ContractTemplate::create([
+            ...$attributes,
+            'name' => $validated['name'] ?? $attributes['name'],
+            'company_id' => $companyId,
+            'created_by' => $request->user()->id,
+            'is_active' => true,
+        ]);
+
+        $template->load(['creator:id,name,email']);
+
+        return response()->json([
+            'message' => 'Contract template imported successfully',
+            'data' => $template,
+        ], 201);
+    }
+
     /**
      * Generate contract sections using AI.
      */
@@ -0,0 +1,150 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\CreditNote;
+use App\Models\Invoice;
+use App\Services\CreditNoteService;
+use App\Services\DocumentPdfService;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Storage;
+use InvalidArgumentException;
+
+class CreditNoteController extends Controller
+{
+    public function __construct(
+        protected CreditNoteService $creditNoteService,
+        protected DocumentPdfService $pdfService
+    ) {}
+
+    /**
+     * Credit notes of an invoice, with the amount that can still be credited.
+     */
+    public function index(Request $request, string $invoiceId)
+    {
+        $invoice = Invoice::where('company_id', $request->user()->company_id)
+            ->findOrFail($invoiceId);
+
+        return response()->json([
+            'data' => $invoice->creditNotes()->with('issuer')->get()->map->toApiArray(),
+            'meta' => [
+                'creditable_amount' => $this->creditNoteService->creditableAmount($invoice),
+            ],
+        ]);
+    }
+
+    /**
+     * Issue a full or partial credit note against an invoice.
+     */
+    public function store(Request $request, string $invoiceId)
+    {
+        $invoice = Invoice::where('company_id', $request->user()->company_id)
+            ->with('company')
+            ->findOrFail($invoiceId);
+
+        $validated = $request->validate([
+            'amount' => 'nullable|numeric|min:0.01',
+            'reason' => 'required|string|max:2000',
+            'apply' => 'boolean',
+        ]);
+
+        try {
+            $creditNote = $this->creditNoteService->issue($invoice, $validated, $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Credit note issued successfully',
+            'data' => $creditNote->load('issuer')->toApiArray(),
+        ], 201);
+    }
+
+    /**
+     * Apply an issued credit note to its invoice.
+     */
+    public function apply(Request $request, string $id)
+    {
+        $creditNote = CreditNote::forCompany($request->user()->company_id)
+            ->with('invoice')
+            ->findOrFail($id);
+
+        try {
+            $this->creditNoteService->apply($creditNote, $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Credit note applied successfully',
+            'data' => $creditNote->load('issuer')->toApiArray(),
+        ]);
+    }
+
+    /**
+     * Void a credit note that was not applied.
+     */
+    public function void(Request $request, string $id)
+    {
+        $creditNote = CreditNote::forCompany($request->user()->company_id)
+            ->with('invoice')
+            ->findOrFail($id);
+
+        try {
+            $this->creditNoteService->void($creditNote, $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Credit note voided',
+            'data' => $creditNote->load('issuer')->toApiArray(),
+        ]);
+    }
+
+    /**
+     * Void an invoice by crediting its full amount due.
+     */
+    public function voidInvoice(Request $request, string $invoiceId)
+    {
+        $invoice = Invoice::where('company_id', $request->user()->company_id)
+            ->with('company')
+            ->findOrFail($invoiceId);
+
+        $validated = $request->validate([
+            'reason' => 'required|string|max:2000',
+        ]);
+
+        try {
+            $creditNote = $this->creditNoteService->voidInvoice($invoice, $validated['reason'], $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Invoice voided',
+            'data' => $invoice->fresh(),
+            'credit_note' => $creditNote->load('issuer')->toApiArray(),
+        ]);
+    }
+
+    /**
+     * Download a credit note PDF, generating it first if the queued job hasn't run yet.
+     */
+    public function pdf(Request $request, string $id)
+    {
+        $creditNote = CreditNote::forCompany($request->user()->company_id)
+            ->with(['company', 'contact', 'invoice'])
+            ->findOrFail($id);
+
+        if (!$creditNote->pdf_path || !Storage::exists($creditNote->pdf_path)) {
+            $creditNote->update([
+                'pdf_path' => $this->pdfService->generateCreditNotePdf($creditNote),
+                'pdf_generated_at' => now(),
+            ]);
+        }
+
+        return Storage::download($creditNote->pdf_path, $creditNote->credit_note_number . '.pdf');
+    }
+}
@@ -0,0 +1,131 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\ContractTemplate;
+use App\Models\CustomMergeField;
+use App\Services\MergeFieldService;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+class CustomMergeFieldController extends Controller
+{
+    protected MergeFieldService $mergeFieldService;
+
+    public function __construct(MergeFieldService $mergeFieldService)
+    {
+        $this->mergeFieldService = $mergeFieldService;
+    }
+
+    /**
+     * Display the company's custom merge fields.
+     */
+    public function index(Request $request)
+    {
+        $fields = CustomMergeField::forCompany($request->user()->company_id)
+            ->orderBy('category')
+            ->orderBy('label')
+            ->get();
+
+        return response()->json(['data' => $fields]);
+    }
+
+    /**
+     * All merge fields available to contracts: built-in, company and, with
+     * template_id, the template's own fields.
+     */
+    public function available(Request $request)
+    {
+        $companyId = $request->user()->company_id;
+
+        $template = $request->filled('template_id')
+            ? ContractTemplate::where('company_id', $companyId)->findOrFail($request->input('template_id'))
+            : null;
+
+        return response()->json([
+            'data' => $this->mergeFieldService->fieldsFor($companyId, $template),
+        ]);
+    }
+
+    /**
+     * Store a newly created custom merge field.
+     */
+    public function store(Request $request)
+    {
+        $companyId = $request->user()->company_id;
+
+        $validated = $request->validate([
+            'key' => [
+                'required',
+                'string',
+                'max:100',
+                'regex:/^[a-z][a-z0-9_]*(\.[a-z0-9_]+)+$/',
+                Rule::notIn(array_column($this->mergeFieldService->getAvailableFields(), 'key')),
+                Rule::unique('custom_merge_fields')->where('company_id', $companyId),
+            ],
+            ...$this->fieldRules(),
+        ], [
+            'key.regex' => 'The key must look like category.name, using lowercase letters, numbers and underscores.',
+            'key.not_in' => 'This key is already used by a built-in merge field.',
+        ]);
+
+        $field = CustomMergeField::create([
+            'company_id' => $companyId,
+            ...$validated,
+        ]);
+
+        return response()->json([
+            'message' => 'Merge field created successfully',
+            'data' => $field,
+        ], 201);
+    }
+
+    /**
+     * Update the specified custom merge field.
+     * The key can't change, since templates refer to it.
+     */
+    public function update(Request $request, string $id)
+    {
+        $field = CustomMergeField::forCompany($request->user()->company_id)
+            ->findOrFail($id);
+
+        $validated = $request->validate($this->fieldRules());
+
+        $field->update($validated);
+
+        return response()->json([
+            'message' => 'Merge field updated successfully',
+            'data' => $field,
+        ]);
+    }
+
+    /**
+     * Remove the specified custom merge field.
+     */
+    public function destroy(Request $request, string $id)
+    {
+        $field = CustomMergeField::forCompany($request->user()->company_id)
+            ->findOrFail($id);
+
+        $field->delete();
+
+        return response()->json([
+            'message' => 'Merge field deleted successfully',
+        ]);
+    }
+
+    /**
+     * Rules shared by store and update.
+     */
+    protected function fieldRules(): array
+    {
+        return [
+            'label' => 'required|string|max:150',
+            'type' => ['required', Rule::in(CustomMergeField::TYPES)],
+            'category' => ['required', Rule::in(CustomMergeField::CATEGORIES)],
+            'default_value' => 'nullable|string|max:2000',
+            'format' => 'nullable|string|max:30',
+        ];
+    }
+}
@@ -4,14 +4,17 @@
 
 use App\Http\Controllers\Controller;
 use App\Models\Deal;
+use App\Services\DealForecastService;
 use App\Services\DealService;
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
 
 class DealController extends Controller
 {
-    public function __construct(protected DealService $dealService)
-    {
+    public function __construct(
+        protected DealService $dealService,
+        protected DealForecastService $forecastService
+    ) {
     }
 
     /**
@@ -27,9 +30,13 @@ public function index(Request $request): JsonResponse
         }
 
         $query = Deal::forCompany($companyId)
-            ->with(['contact', 'assignee']);
+            ->with(['contact', 'assignee', 'pipeline.stages']);
 
         // Filters
+        if ($request->has('pipeline_id')) {
+            $query->inPipeline($request->pipeline_id);
+        }
+
         if ($request->has('stage')) {
             $query->byStage($request->stage);
         }
@@ -55,15 +62,8 @@ public function index(Request $request): JsonResponse
         }
 
         $deals = $query
-            ->orderByRaw("
-                CASE stage
-                    WHEN 'qualification' THEN 1
-                    WHEN 'proposal' THEN 2
-                    WHEN 'negotiation' THEN 3
-                    WHEN 'closed_won' THEN 4
-                    WHEN 'closed_lost' THEN 5
-                END
-            ")
+            ->orderByStage()
+            ->orderBy('position')
             ->orderBy('expected_close_date', 'asc')
             ->limit($request->input('limit', 100))
             ->get();
@@ -75,7 +75,9 @@ public function index(Request $request): JsonResponse
                 'description' => $deal->description,
                 'value' => $deal->value ? (float) $deal->value : null,
                 'currency' => $deal->currency,
+                'pipeline_id' => $deal->pipeline_id,
                 'stage' => $deal->stage,
+                'position' => $deal->position,
                 'probability' => $deal->probability,
                 'expected_close_date' => $deal->expected_close_date?->format('Y-m-d'),
                 'contact' => $deal->contact ? [
@@ -106,7 +108,38 @@ public function stats(Request $request): JsonResponse
             return response()->json(['error' => 'Company ID required'], 400);
         }
 
-        return response()->json($this->dealService->getPipelineStats($companyId));
+        return response()->json($this->dealService->getPipelineStats($companyId, $request->input('pipeline_id')));
+    }
+
+    /**
+     * Get the sales forecast.
+     */
+    public function forecast(Request $request): JsonResponse
+    {
+        $request->validate([
+            'pipeline_id' => 'nullable|uuid',
+            'group_by' => 'nullable|in:month,quarter',
+            'periods' => 'nullable|integer|min:1|max:24',
+        ]);
+
+        $companyId = $request->header('X-Company-ID');
+
+        if (!$companyId) {
+            return response()->json(['error' => 'Company ID required'], 400);
+        }
+
+        $result = $this->forecastService->getForecast(
+            $companyId,
+            $request->input('pipeline_id'),
+            $request->input('group_by', DealForecastService::GROUP_MONTH),
+            $request->filled('periods') ? (int) $request->input('periods') : null
+        );
+
+        if (!$result['success']) {
+            return response()->json(['error' => $result['error']], 404);
+        }
+
+        return response()->json($result['data']);
     }
 
     /**
@@ -118,7 +151,8 @@ public function store(Request $request): JsonResponse
             'title' => 'required|string|max:255',
             'value' => 'nullable|numeric|min:0',
             'currency' => 'nullable|string|size:3',
-            'stage' => 'nullable|in:qualification,proposal,negotiation,closed_won,closed_lost',
+            'pipeline_id' => 'nullable|uuid',
+            'stage' => 'nullable|string|max:50',
             'contact_id' => 'nullable|uuid|exists:contacts,id',
             'expected_close_date' => 'nullable|date',
             'description' => 'nullable|string',
@@ -169,7 +203,10 @@ public function update(Request $request, string $id): JsonResponse
         $request->validate([
             'title' => 'nullable|string|max:255',
             'value' => 'nullable|numeric|min:0',
-            'stage' => 'nullable|in:qualification,proposal,negotiation,closed_won,closed_lost',
+            'pipeline_id' => 'nullable|uuid',
+            'stage' => 'nullable|string|max:50',
+            'position' => 'nullable|integer|min:0',
+            'probability' => 'nullable|integer|min:0|max:100',
             'contact_id' => 'nullable|uuid|exists:contacts,id',
             'expected_close_date' => 'nullable|date',
             'description' => 'nullable|string',
@@ -0,0 +1,120 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\DealPipelineStage;
+use App\Services\DealService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class DealPipelineController extends Controller
+{
+    public function __construct(protected DealService $dealService)
+    {
+    }
+
+    /**
+     * List the company's pipelines with their stages.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $companyId = $request->header('X-Company-ID');
+
+        if (!$companyId) {
+            return response()->json(['error' => 'Company ID required'], 400);
+        }
+
+        $result = $this->dealService->listPipelines($companyId);
+
+        return response()->json(['data' => $result['data']]);
+    }
+
+    /**
+     * Create a pipeline.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $request->validate([
+            'name' => 'required|string|max:255',
+            'is_default' => 'nullable|boolean',
+            ...$this->stageRules(),
+        ]);
+
+        $companyId = $request->header('X-Company-ID');
+
+        if (!$companyId) {
+            return response()->json(['error' => 'Company ID required'], 400);
+        }
+
+        $result = $this->dealService->createPipeline($companyId, $request->all());
+
+        if (!$result['success']) {
+            return response()->json(['error' => $result['error']], 422);
+        }
+
+        return response()->json($result['data'], 201);
+    }
+
+    /**
+     * Update a pipeline and its stages.
+     */
+    public function update(Request $request, string $id): JsonResponse
+    {
+        $request->validate([
+            'name' => 'nullable|string|max:255',
+            'is_default' => 'nullable|boolean',
+            ...$this->stageRules(),
+        ]);
+
+        $companyId = $request->header('X-Company-ID');
+
+        if (!$companyId) {
+            return response()->json(['error' => 'Company ID required'], 400);
+        }
+
+        $result = $this->dealService->updatePipeline($companyId, $id, $request->all());
+
+        if (!$result['success']) {
+            return response()->json(['error' => $result['error']], 422);
+        }
+
+        return response()->json($result['data']);
+    }
+
+    /**
+     * Delete a pipeline.
+     */
+    public function destroy(Request $request, string $id): JsonResponse
+    {
+        $companyId = $request->header('X-Company-ID');
+
+        if (!$companyId) {
+            return response()->json(['error' => 'Company ID required'], 400);
+        }
+
+        $result = $this->dealService->deletePipeline($companyId, $id);
+
+        if (!$result['success']) {
+            return response()->json(['error' => $result['error']], 422);
+        }
+
+        return response()->json(['message' => $result['message']]);
+    }
+
+    /**
+     * Validation rules for the ordered stages list.
+     */
+    protected function stageRules(): array
+    {
+        return [
+            'stages' => 'nullable|array|min:1|max:20',
+            'stages.*.id' => 'nullable|uuid',
+            'stages.*.name' => 'required|string|max:100',
+            'stages.*.color' => 'nullable|in:' . implode(',', DealPipelineStage::COLORS),
+            'stages.*.probability' => 'required|integer|min:0|max:100',
+            'stages.*.is_won' => 'nullable|boolean',
+            'stages.*.is_lost' => 'nullable|boolean',
+        ];
+    }
+}
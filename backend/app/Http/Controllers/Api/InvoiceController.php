@@ -9,13 +9,24 @@
 use App\Models\InvoiceEvent;
 use App\Models\InvoiceLineItem;
 use App\Models\InvoiceTemplate;
+use App\Models\TaxRate;
+use App\Models\Company;
 use App\Models\Contact;
 use App\Models\Project;
+use App\Models\Task;
+use App\Services\ExchangeRateService;
+use App\Services\ReceivablesService;
 use Illuminate\Http\Request;
+use Illuminate\Support\Collection;
 use Illuminate\Support\Str;
 
 class InvoiceController extends Controller
 {
+    public function __construct(
+        protected ExchangeRateService $exchangeRates,
+        protected ReceivablesService $receivables
+    ) {}
+
     /**
      * Display a listing of the resource.
      */
@@ -40,6 +51,11 @@ public function index(Request $request)
             $query->where('project_id', $request->input('project_id'));
         }
 
+        // Filter by deal
+        if ($request->filled('deal_id')) {
+            $query->where('deal_id', $request->input('deal_id'));
+        }
+
         // Filter by date range
         if ($request->filled('from_date')) {
             $query->where('issue_date', '>=', $request->input('from_date'));
@@ -57,6 +73,9 @@ public function index(Request $request)
             });
         }
 
+        // Totals of every matching invoice (not just this page) in the base currency
+        $summary = $this->summarize((clone $query)->without(['contact', 'project'])->get(['id', 'status', 'currency', 'exchange_rate', 'base_currency', 'total', 'amount_due']), $request->user()->company);
+
         // Sort
         $sortBy = $request->input('sort_by', 'created_at');
         $sortOrder = $request->input('sort_order', 'desc');
@@ -64,7 +83,7 @@ public function index(Request $request)
 
         $invoices = $query->paginate($request->input('per_page', 20));
 
-        return response()->json($invoices);
+        return response()->json([...$invoices->toArray(), 'summary' => $summary]);
     }
 
     /**
@@ -77,6 +96,7 @@ public function store(Request $request)
             'contact_id' => 'required|exists:contacts,id',
             'project_id' => 'nullable|exists:projects,id',
             'contract_id' => 'nullable|exists:contracts,id',
+            'deal_id' => 'nullable|exists:deals,id',
             'title' => 'nullable|string|max:255',
             'issue_date' => 'required|date',
             'due_date' => 'required|date',
@@ -86,9 +106,13 @@ public function store(Request $request)
             'line_items.*.description' => 'required|string',
             'line_items.*.quantity' => 'required|numeric|min:0',
             'line_items.*.unit_price' => 'required|numeric|min:0',
+            'line_items.*.discount_rate' => 'nullable|numeric|min:0|max:100',
+            'line_items.*.tax_rate_ids' => 'nullable|array',
+            'line_items.*.tax_rate_ids.*' => 'uuid',
             'line_items.*.task_id' => 'nullable|exists:tasks,id',
             'tax_rate' => 'nullable|numeric|min:0|max:100',
             'discount_rate' => 'nullable|numeric|min:0|max:100',
+            'currency' => 'nullable|string|size:3',
         ]);
 
         // Get template if provided
@@ -102,30 +126,20 @@ public function store(Request $request)
         Contact::where('company_id', $request->user()->company_id)
             ->findOrFail($validated['contact_id']);
 
+        // Each task can only be billed once
+        $taskError = $this->checkBillableTasks(array_column($validated['line_items'], 'task_id'), $request->user()->company_id);
+        if ($taskError) {
+            return response()->json(['message' => $taskError], 422);
+        }
+
         $company = $request->user()->company;
 
         // Generate invoice number
-        $prefix = $company->settings['documents']['invoice_number_prefix'] ?? 'INV';
-        $number = $prefix . '-' . date('Y') . '-' . str_pad(
-            Invoice::where('company_id', $company->id)->count() + 1,
-            4,
-            '0',
-            STR_PAD_LEFT
-        );
-
-        // Calculate amounts
-        $subtotal = 0;
-        foreach ($validated['line_items'] as $item) {
-            $subtotal += $item['quantity'] * $item['unit_price'];
-        }
+        $number = Invoice::generateNumber($company);
 
         $taxRate = $validated['tax_rate'] ?? ($template?->default_tax_rate ?? 0);
         $discountRate = $validated['discount_rate'] ?? 0;
 
-        $taxAmount = $subtotal * ($taxRate / 100);
-        $discountAmount = $subtotal * ($discountRate / 100);
-        $total = $subtotal + $taxAmount - $discountAmount;
-
         // Create invoice
         $invoice = Invoice::create([
             'company_id' => $company->id,
@@ -133,18 +147,15 @@ public function store(Request $request)
             'contact_id' => $validated['contact_id'],
             'project_id' => $validated['project_id'] ?? null,
             'contract_id' => $validated['contract_id'] ?? null,
+            'deal_id' => $validated['deal_id'] ?? null,
             'invoice_number' => $number,
             'title' => $validated['title'] ?? null,
             'issue_date' => $validated['issue_date'],
             'due_date' => $validated['due_date'],
             'status' => 'draft',
-            'subtotal' => $subtotal,
             'tax_rate' => $taxRate,
-            'tax_amount' => $taxAmount,
             'discount_rate' => $discountRate,
-            'discount_amount' => $discountAmount,
-            'total' => $total,
-            'amount_due' => $total,
+            'currency' => strtoupper($validated['currency'] ?? $this->exchangeRates->baseCurrency($company)),
             'payment_terms' => $validated['payment_terms'] ?? $template?->default_terms,
             'notes' => $validated['notes'] ?? $template?->default_notes,
             'token' => Str::random(64),
@@ -157,12 +168,17 @@ public function store(Request $request)
                 'description' => $item['description'],
                 'quantity' => $item['quantity'],
                 'unit_price' => $item['unit_price'],
-                'amount' => $item['quantity'] * $item['unit_price'],
+                'discount_rate' => $item['discount_rate'] ?? 0,
+                'taxes' => TaxRate::snapshot($company->id, $item['tax_rate_ids'] ?? []),
                 'task_id' => $item['task_id'] ?? null,
                 'order' => $index,
             ]);
         }
 
+        // Calculate amounts
+        $invoice->calculateTotals();
+        $invoice->save();
+
         // Create event
         InvoiceEvent::create([
             'invoice_id' => $invoice->id,
@@ -187,7 +203,7 @@ public function store(Request $request)
     public function show(Request $request, string $id)
     {
         $invoice = Invoice::where('company_id', $request->user()->company_id)
-            ->with(['contact', 'project', 'contract', 'template', 'lineItems', 'payments'])
+            ->with(['contact', 'project', 'contract', 'template', 'lineItems', 'payments', 'schedule:id,template_invoice_id,frequency,status'])
             ->findOrFail($id);
 
         return response()->json(['data' => $invoice]);
@@ -202,9 +218,9 @@ public function update(Request $request, string $id)
             ->findOrFail($id);
 
         // Cannot update paid invoices
-        if (in_array($invoice->status, ['paid', 'cancelled'])) {
+        if (in_array($invoice->status, ['paid', ...Invoice::NOT_LIVE_STATUSES])) {
             return response()->json([
-                'message' => 'Cannot update a paid or cancelled invoice.',
+                'message' => 'Cannot update a paid, cancelled or void invoice.',
             ], 422);
         }
 
@@ -213,8 +229,20 @@ public function update(Request $request, string $id)
             'due_date' => 'sometimes|required|date',
             'payment_terms' => 'nullable|string',
             'notes' => 'nullable|string',
+            'currency' => 'sometimes|required|string|size:3',
         ]);
 
+        if (isset($validated['currency'])) {
+            // The amounts were agreed in the original currency once the invoice went out
+            if ($invoice->status !== 'draft' && strtoupper($validated['currency']) !== $invoice->currency) {
+                return response()->json([
+                    'message' => 'The currency can only be changed on draft invoices.',
+                ], 422);
+            }
+
+            $validated['currency'] = strtoupper($validated['currency']);
+        }
+
         $invoice->update($validated);
 
         $invoice->load(['contact:id,full_name,email', 'project:id,name', 'lineItems']);
@@ -240,6 +268,13 @@ public function destroy(Request $request, string $id)
             ], 422);
         }
 
+        // Credit notes are part of the audit trail, so credited invoices are voided instead
+        if ($invoice->creditNotes()->exists()) {
+            return response()->json([
+                'message' => 'Cannot delete an invoice with credit notes. Void it instead.',
+            ], 422);
+        }
+
         $invoice->delete();
 
         return response()->json([
@@ -265,15 +300,24 @@ public function addLineItem(Request $request, string $id)
             'description' => 'required|string',
             'quantity' => 'required|numeric|min:0',
             'unit_price' => 'required|numeric|min:0',
+            'discount_rate' => 'nullable|numeric|min:0|max:100',
+            'tax_rate_ids' => 'nullable|array',
+            'tax_rate_ids.*' => 'uuid',
             'task_id' => 'nullable|exists:tasks,id',
         ]);
 
+        $taskError = $this->checkBillableTasks([$validated['task_id'] ?? null], $invoice->company_id);
+        if ($taskError) {
+            return response()->json(['message' => $taskError], 422);
+        }
+
         $lineItem = InvoiceLineItem::create([
             'invoice_id' => $invoice->id,
             'description' => $validated['description'],
             'quantity' => $validated['quantity'],
             'unit_price' => $validated['unit_price'],
-            'amount' => $validated['quantity'] * $validated['unit_price'],
+            'discount_rate' => $validated['discount_rate'] ?? 0,
+            'taxes' => TaxRate::snapshot($invoice->company_id, $validated['tax_rate_ids'] ?? []),
             'task_id' => $validated['task_id'] ?? null,
             'order' => $invoice->lineItems()->count(),
         ]);
@@ -308,17 +352,31 @@ public function updateLineItem(Request $request, string $id, string $lineItemId)
             'description' => 'sometimes|required|string',
             'quantity' => 'sometimes|required|numeric|min:0',
             'unit_price' => 'sometimes|required|numeric|min:0',
+            'discount_rate' => 'sometimes|nullable|numeric|min:0|max:100',
+            'tax_rate_ids' => 'sometimes|nullable|array',
+            'tax_rate_ids.*' => 'uuid',
             'task_id' => 'nullable|exists:tasks,id',
         ]);
 
-        $lineItem->update($validated);
+        if (!empty($validated['task_id']) && $validated['task_id'] !== $lineItem->task_id) {
+            $taskError = $this->checkBillableTasks([$validated['task_id']], $invoice->company_id);
+            if ($taskError) {
+                return response()->json(['message' => $taskError], 422);
+            }
+        }
 
-        if (isset($validated['quantity']) || isset($validated['unit_price'])) {
-            $lineItem->update([
-                'amount' => $lineItem->quantity * $lineItem->unit_price,
-            ]);
+        if (array_key_exists('tax_rate_ids', $validated)) {
+            $validated['taxes'] = TaxRate::snapshot($invoice->company_id, $validated['tax_rate_ids'] ?? []);
+            unset($validated['tax_rate_ids']);
         }
 
+        if (array_key_exists('discount_rate', $validated)) {
+            $validated['discount_rate'] ??= 0;
+        }
+
+        // The amount, discount and tax are recalculated when the line item is saved
+        $lineItem->update($validated);
+
         // Recalculate totals
         $this->recalculateInvoice($invoice);
 
@@ -355,8 +413,24 @@ public function removeLineItem(Request $request, string $id, string $lineItemId)
         ]);
     }
 
+    /**
+     * Accounts-receivable aging: unpaid invoices bucketed by days past due, per contact.
+     */
+    public function aging(Request $request)
+    {
+        $request->validate([
+            'months' => 'nullable|integer|min:1|max:24',
+        ]);
+
+        return response()->json([
+            'data' => $this->receivables->getAging($request->user()->company, (int) $request->input('months', 6)),
+        ]);
+    }
+
     /**
      * Send invoice to client.
+     * Invoices that were already issued and are still unpaid are sent again,
+     * as a payment reminder when past due.
      */
     public function send(Request $request, string $id)
     {
@@ -364,9 +438,13 @@ public function send(Request $request, string $id)
             ->with(['contact'])
             ->findOrFail($id);
 
+        if (in_array($invoice->status, ReceivablesService::OPEN_STATUSES, true)) {
+            return $this->resend($request, $invoice);
+        }
+
         if ($invoice->status !== 'draft') {
             return response()->json([
-                'message' => 'Only draft invoices can be sent.',
+                'message' => 'Only draft or unpaid invoices can be sent.',
             ], 422);
         }
 
@@ -377,6 +455,8 @@ public function send(Request $request, string $id)
             'sent_by' => $request->user()->id,
         ]);
 
+        $this->exchangeRates->captureRate($invoice);
+
         // Create event
         InvoiceEvent::create([
             'invoice_id' => $invoice->id,
@@ -397,6 +477,40 @@ public function send(Request $request, string $id)
         ]);
     }
 
+    /**
+     * Email an issued, unpaid invoice again without changing its status.
+     */
+    protected function resend(Request $request, Invoice $invoice)
+    {
+        if (!$invoice->contact?->email) {
+            return response()->json([
+                'message' => 'The invoice contact has no email address.',
+            ], 422);
+        }
+
+        $isReminder = $invoice->isOverdue();
+
+        InvoiceEvent::create([
+            'invoice_id' => $invoice->id,
+            'event_type' => $isReminder ? 'reminder_sent' : 'resent',
+            'actor_type' => 'user',
+            'actor_id' => $request->user()->id,
+            'event_data' => [
+                'recipient_email' => $invoice->contact->email,
+                'amount_due' => (float) $invoice->amount_due,
+            ],
+            'ip_address' => $request->ip(),
+            'user_agent' => $request->userAgent(),
+        ]);
+
+        SendInvoiceEmail::dispatch($invoice, $invoice->contact->email, $invoice->contact->full_name, true);
+
+        return response()->json([
+            'message' => $isReminder ? 'Payment reminder sent' : 'Invoice sent again',
+            'data' => $invoice,
+        ]);
+    }
+
     /**
      * Generate PDF for invoice.
      */
@@ -432,19 +546,64 @@ public function events(Request $request, string $id)
      */
     private function recalculateInvoice(Invoice $invoice): void
     {
-        $subtotal = $invoice->lineItems()->sum('amount');
-        
-        $taxAmount = $subtotal * ($invoice->tax_rate / 100);
-        $discountAmount = $subtotal * ($invoice->discount_rate / 100);
-        $total = $subtotal + $taxAmount - $discountAmount;
+        $invoice->calculateTotals();
+        $invoice->save();
+    }
 
-        $invoice->update([
-            'subtotal' => $subtotal,
-            'tax_amount' => $taxAmount,
-            'discount_amount' => $discountAmount,
-            'total' => $total,
-            'amount_due' => $total - $invoice->amount_paid,
-        ]);
+    /**
+     * Reject tasks that belong to another company or are already billed on a live invoice.
+     * Returns the error message, or null when the tasks can be invoiced.
+     */
+    protected function checkBillableTasks(array $taskIds, string $companyId): ?string
+    {
+        $taskIds = array_values(array_filter($taskIds));
+
+        if (empty($taskIds)) {
+            return null;
+        }
+
+        if (count($taskIds) !== count(array_unique($taskIds))) {
+            return 'A task can only be billed once per invoice.';
+        }
+
+        if (Task::forCompany($companyId)->whereIn('id', $taskIds)->count() !== count($taskIds)) {
+            return 'One or more tasks were not found.';
+        }
+
+        $billed = Task::whereIn('id', $taskIds)->invoiced()->pluck('title');
+
+        if ($billed->isNotEmpty()) {
+            return 'Already invoiced: ' . $billed->implode(', ');
+        }
+
+        return null;
     }
-}
 
+    /**
+     * Outstanding and paid totals converted to the company's base currency.
+     */
+    protected function summarize(Collection $invoices, Company $company): array
+    {
+        $outstanding = $this->exchangeRates->sumInBase(
+            $invoices->reject(fn($invoice) => in_array($invoice->status, ['paid', ...Invoice::NOT_LIVE_STATUSES], true)),
+            fn($invoice) => (float) $invoice->amount_due,
+            $company
+        );
+        $paid = $this->exchangeRates->sumInBase(
+            $invoices->where('status', 'paid'),
+            fn($invoice) => (float) $invoice->total,
+            $company
+        );
+
+        return [
+            'base_currency' => $this->exchangeRates->baseCurrency($company),
+            'count' => $invoices->count(),
+            'outstanding' => $outstanding['amount'],
+            'paid' => $paid['amount'],
+            'unconverted_currencies' => array_values(array_unique([
+                ...$outstanding['unconverted_currencies'],
+                ...$paid['unconverted_currencies'],
+            ])),
+        ];
+    }
+}
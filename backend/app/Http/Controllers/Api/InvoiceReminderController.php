@@ -0,0 +1,126 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\CompanyContact;
+use App\Models\Invoice;
+use App\Services\InvoiceReminderService;
+use App\Services\MergeFieldService;
+use Illuminate\Http\Request;
+
+class InvoiceReminderController extends Controller
+{
+    public function __construct(
+        protected InvoiceReminderService $reminderService,
+        protected MergeFieldService $mergeFields
+    ) {}
+
+    /**
+     * The company's reminder schedule, with default emails for new steps
+     * and the merge fields reminder emails can use.
+     */
+    public function schedule(Request $request)
+    {
+        $mergeFields = collect($this->mergeFields->getAvailableFields())
+            ->whereIn('category', ['client', 'company', 'system'])
+            ->reject(fn($field) => str_starts_with($field['key'], 'contract.'))
+            ->values()
+            ->all();
+
+        return response()->json([
+            'data' => [
+                'steps' => $this->reminderService->schedule($request->user()->company),
+                'defaults' => [
+                    'before_due' => $this->reminderService->defaultStep(-3),
+                    'on_due' => $this->reminderService->defaultStep(0),
+                    'after_due' => $this->reminderService->defaultStep(7),
+                ],
+                'merge_fields' => [...$this->mergeFields->getInvoiceFields(), ...$mergeFields],
+            ],
+        ]);
+    }
+
+    /**
+     * Reminder timeline of an invoice: past events and upcoming steps.
+     */
+    public function show(Request $request, string $id)
+    {
+        $invoice = Invoice::where('company_id', $request->user()->company_id)
+            ->with(['company', 'contact', 'project'])
+            ->findOrFail($id);
+
+        return response()->json([
+            'data' => $this->reminderService->timeline($invoice),
+        ]);
+    }
+
+    /**
+     * Stop sending reminders for an invoice.
+     */
+    public function pause(Request $request, string $id)
+    {
+        return $this->setInvoicePaused($request, $id, true);
+    }
+
+    /**
+     * Send reminders for an invoice again.
+     */
+    public function resume(Request $request, string $id)
+    {
+        return $this->setInvoicePaused($request, $id, false);
+    }
+
+    /**
+     * Stop sending reminders for all invoices of a contact.
+     */
+    public function pauseContact(Request $request, string $contactId)
+    {
+        return $this->setContactPaused($request, $contactId, true);
+    }
+
+    /**
+     * Send reminders for a contact's invoices again.
+     */
+    public function resumeContact(Request $request, string $contactId)
+    {
+        return $this->setContactPaused($request, $contactId, false);
+    }
+
+    /**
+     * Pause or resume reminders for an invoice.
+     */
+    protected function setInvoicePaused(Request $request, string $id, bool $paused)
+    {
+        $invoice = Invoice::where('company_id', $request->user()->company_id)
+            ->with(['company', 'contact', 'project'])
+            ->findOrFail($id);
+
+        $this->reminderService->setInvoicePaused($invoice, $paused, $request->user());
+
+        return response()->json([
+            'message' => $paused ? 'Reminders paused for this invoice' : 'Reminders resumed for this invoice',
+            'data' => $this->reminderService->timeline($invoice),
+        ]);
+    }
+
+    /**
+     * Pause or resume reminders for a contact.
+     */
+    protected function setContactPaused(Request $request, string $contactId, bool $paused)
+    {
+        $relationship = CompanyContact::where('company_id', $request->user()->company_id)
+            ->where('contact_id', $contactId)
+            ->firstOrFail();
+
+        $this->reminderService->setContactPaused($relationship, $paused);
+
+        return response()->json([
+            'message' => $paused ? 'Reminders paused for this contact' : 'Reminders resumed for this contact',
+            'data' => [
+                'contact_id' => $contactId,
+                'paused' => $paused,
+            ],
+        ]);
+    }
+}
@@ -0,0 +1,215 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Contract;
+use App\Models\Invoice;
+use App\Models\InvoiceSchedule;
+use App\Models\InvoiceScheduleOccurrence;
+use App\Services\RecurringInvoiceService;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+use InvalidArgumentException;
+
+class InvoiceScheduleController extends Controller
+{
+    public function __construct(
+        protected RecurringInvoiceService $recurringInvoiceService
+    ) {}
+
+    /**
+     * List the company's recurring invoice schedules.
+     */
+    public function index(Request $request)
+    {
+        $query = InvoiceSchedule::forCompany($request->user()->company_id)
+            ->with(['occurrences', 'templateInvoice.contact:id,full_name,email'])
+            ->orderBy('created_at', 'desc');
+
+        if ($request->filled('status')) {
+            $query->where('status', $request->input('status'));
+        }
+
+        return response()->json([
+            'data' => $query->get()->map(fn($schedule) => $this->recurringInvoiceService->toArray($schedule))->values(),
+        ]);
+    }
+
+    /**
+     * Upcoming occurrences across active and paused schedules, soonest first.
+     */
+    public function upcoming(Request $request)
+    {
+        $perSchedule = min((int) $request->input('per_schedule', 3), 12);
+
+        $schedules = InvoiceSchedule::forCompany($request->user()->company_id)
+            ->whereIn('status', [InvoiceSchedule::STATUS_ACTIVE, InvoiceSchedule::STATUS_PAUSED])
+            ->with(['occurrences', 'templateInvoice.contact:id,full_name,email'])
+            ->get();
+
+        $occurrences = $schedules->flatMap(function ($schedule) use ($perSchedule) {
+            $data = $this->recurringInvoiceService->toArray($schedule, $perSchedule);
+
+            return array_map(fn($occurrence) => [
+                ...$occurrence,
+                'schedule_status' => $data['status'],
+                'frequency' => $data['frequency'],
+                'invoice' => $data['invoice'],
+            ], $data['upcoming']);
+        });
+
+        return response()->json([
+            'data' => $occurrences->sortBy('scheduled_date')->values(),
+        ]);
+    }
+
+    /**
+     * Get the schedule of a template invoice.
+     */
+    public function showForInvoice(Request $request, string $id)
+    {
+        $invoice = Invoice::where('company_id', $request->user()->company_id)
+            ->with('recurringSchedule')
+            ->findOrFail($id);
+
+        return response()->json([
+            'data' => $invoice->recurringSchedule
+                ? $this->recurringInvoiceService->toArray($invoice->recurringSchedule, 6)
+                : null,
+        ]);
+    }
+
+    /**
+     * Make an invoice recur, or update its schedule.
+     */
+    public function saveForInvoice(Request $request, string $id)
+    {
+        $invoice = Invoice::where('company_id', $request->user()->company_id)
+            ->with('recurringSchedule')
+            ->findOrFail($id);
+
+        $validated = $request->validate([
+            'frequency' => ['required', Rule::in(InvoiceSchedule::FREQUENCIES)],
+            'end_date' => 'nullable|date|after:' . $invoice->issue_date->toDateString(),
+            'max_occurrences' => 'nullable|integer|min:2|max:520',
+            'auto_send' => 'boolean',
+        ]);
+
+        try {
+            $schedule = $this->recurringInvoiceService->saveSchedule($invoice, $validated, $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Recurring schedule saved successfully',
+            'data' => $this->recurringInvoiceService->toArray($schedule, 6),
+        ]);
+    }
+
+    /**
+     * Stop an invoice from recurring.
+     */
+    public function destroyForInvoice(Request $request, string $id)
+    {
+        $schedule = InvoiceSchedule::forCompany($request->user()->company_id)
+            ->where('template_invoice_id', $id)
+            ->firstOrFail();
+
+        $schedule = $this->recurringInvoiceService->cancel($schedule);
+
+        return response()->json([
+            'message' => 'Recurring schedule cancelled',
+            'data' => $this->recurringInvoiceService->toArray($schedule, 6),
+        ]);
+    }
+
+    /**
+     * Set up recurring invoices from a subscription contract.
+     */
+    public function storeFromContract(Request $request, string $id)
+    {
+        $contract = Contract::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        $validated = $request->validate([
+            'start_date' => 'nullable|date',
+            'due_days' => 'nullable|integer|min:0|max:365',
+            'auto_send' => 'boolean',
+        ]);
+
+        try {
+            $schedule = $this->recurringInvoiceService->createFromContract($contract, $request->user(), $validated);
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Recurring invoices set up successfully',
+            'data' => $this->recurringInvoiceService->toArray($schedule, 6),
+        ], 201);
+    }
+
+    /**
+     * Pause the whole schedule.
+     */
+    public function pause(Request $request, string $id)
+    {
+        return $this->setPaused($request, $id, true);
+    }
+
+    /**
+     * Resume the whole schedule.
+     */
+    public function resume(Request $request, string $id)
+    {
+        return $this->setPaused($request, $id, false);
+    }
+
+    /**
+     * Skip, pause or restore a single occurrence.
+     */
+    public function updateOccurrence(Request $request, string $id, int $sequence)
+    {
+        $schedule = InvoiceSchedule::forCompany($request->user()->company_id)->findOrFail($id);
+
+        $validated = $request->validate([
+            'status' => ['required', Rule::in([
+                InvoiceScheduleOccurrence::STATUS_PENDING,
+                InvoiceScheduleOccurrence::STATUS_SKIPPED,
+                InvoiceScheduleOccurrence::STATUS_PAUSED,
+            ])],
+        ]);
+
+        try {
+            $schedule = $this->recurringInvoiceService->setOccurrenceStatus($schedule, $sequence, $validated['status']);
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Occurrence updated successfully',
+            'data' => $this->recurringInvoiceService->toArray($schedule, 6),
+        ]);
+    }
+
+    /**
+     * Pause or resume a schedule.
+     */
+    protected function setPaused(Request $request, string $id, bool $paused)
+    {
+        $schedule = InvoiceSchedule::forCompany($request->user()->company_id)->findOrFail($id);
+
+        try {
+            $schedule = $this->recurringInvoiceService->setPaused($schedule, $paused);
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => $paused ? 'Recurring schedule paused' : 'Recurring schedule resumed',
+            'data' => $this->recurringInvoiceService->toArray($schedule, 6),
+        ]);
+    }
+}
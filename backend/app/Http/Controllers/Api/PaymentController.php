@@ -6,17 +6,22 @@
 use App\Models\Invoice;
 use App\Models\InvoiceEvent;
 use App\Models\Payment;
+use App\Services\InvoicePaymentService;
 use App\Services\StripePaymentService;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Log;
+use Illuminate\Validation\Rule;
+use InvalidArgumentException;
 
 class PaymentController extends Controller
 {
     protected StripePaymentService $stripeService;
+    protected InvoicePaymentService $invoicePaymentService;
 
-    public function __construct(StripePaymentService $stripeService)
+    public function __construct(StripePaymentService $stripeService, InvoicePaymentService $invoicePaymentService)
     {
         $this->stripeService = $stripeService;
+        $this->invoicePaymentService = $invoicePaymentService;
     }
 
     /**
@@ -73,6 +78,104 @@ public function show(Request $request, string $id)
         return response()->json(['data' => $payment]);
     }
 
+    /**
+     * Payment ledger of an invoice.
+     */
+    public function ledger(Request $request, string $invoiceId)
+    {
+        $invoice = Invoice::where('company_id', $request->user()->company_id)
+            ->findOrFail($invoiceId);
+
+        return response()->json([
+            'data' => [
+                'entries' => $this->invoicePaymentService->ledger($invoice),
+                'total' => (float) $invoice->total,
+                'amount_paid' => (float) $invoice->amount_paid,
+                'amount_due' => (float) $invoice->amount_due,
+                'status' => $invoice->status,
+            ],
+        ]);
+    }
+
+    /**
+     * Record a manual payment against an invoice.
+     */
+    public function store(Request $request, string $invoiceId)
+    {
+        $invoice = Invoice::where('company_id', $request->user()->company_id)
+            ->findOrFail($invoiceId);
+
+        $validated = $request->validate([
+            'amount' => 'required|numeric|min:0.01',
+            'payment_method' => ['required', Rule::in(Payment::MANUAL_METHODS)],
+            'paid_at' => 'nullable|date|before_or_equal:today',
+            'reference' => 'nullable|string|max:255',
+            'notes' => 'nullable|string',
+        ]);
+
+        try {
+            $payment = $this->invoicePaymentService->recordPayment($invoice, $validated, $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Payment recorded successfully',
+            'data' => $payment,
+        ], 201);
+    }
+
+    /**
+     * Refund part or all of a payment.
+     */
+    public function refund(Request $request, string $id)
+    {
+        $payment = Payment::where('company_id', $request->user()->company_id)
+            ->with('invoice')
+            ->findOrFail($id);
+
+        $validated = $request->validate([
+            'amount' => 'nullable|numeric|min:0.01',
+            'refunded_at' => 'nullable|date|before_or_equal:today',
+            'reference' => 'nullable|string|max:255',
+            'notes' => 'nullable|string',
+        ]);
+
+        try {
+            $refund = $this->invoicePaymentService->refundPayment($payment, $validated, $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        } catch (\Exception $e) {
+            Log::error('Payment refund failed', ['payment_id' => $payment->id, 'error' => $e->getMessage()]);
+            return response()->json(['message' => $e->getMessage()], 502);
+        }
+
+        return response()->json([
+            'message' => 'Refund recorded successfully',
+            'data' => $refund,
+        ], 201);
+    }
+
+    /**
+     * Delete a manual payment or refund recorded by mistake.
+     */
+    public function destroy(Request $request, string $id)
+    {
+        $payment = Payment::where('company_id', $request->user()->company_id)
+            ->with(['invoice', 'refundedPayment'])
+            ->findOrFail($id);
+
+        try {
+            $this->invoicePaymentService->deletePayment($payment, $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Payment deleted successfully',
+        ]);
+    }
+
     /**
      * Handle Stripe webhook events.
      */
@@ -146,16 +249,7 @@ private function handlePaymentIntentSucceeded(array $paymentIntent): void
         // Update invoice
         $invoice = $payment->invoice;
         if ($invoice) {
-            $invoice->amount_paid += $payment->amount;
-            $invoice->amount_due = $invoice->total - $invoice->amount_paid;
-
-            if ($invoice->amount_due <= 0) {
-                $invoice->status = 'paid';
-            } else {
-                $invoice->status = 'partially_paid';
-            }
-
-            $invoice->save();
+            $invoice->syncPayments();
 
             // Create invoice event
             InvoiceEvent::create([
@@ -227,14 +321,7 @@ private function handleChargeRefunded(array $charge): void
         // Update invoice
         $invoice = $payment->invoice;
         if ($invoice) {
-            $invoice->amount_paid -= $refundAmount;
-            $invoice->amount_due = $invoice->total - $invoice->amount_paid;
-
-            if ($invoice->amount_due > 0 && $invoice->status === 'paid') {
-                $invoice->status = 'partially_paid';
-            }
-
-            $invoice->save();
+            $invoice->syncPayments();
 
             // Create invoice event
             InvoiceEvent::create([
@@ -56,6 +56,8 @@ public function index(Request $request): JsonResponse
                 'description' => $project->description,
                 'status' => $project->status,
                 'code' => $project->code,
+                'contact_id' => $project->contact_id,
+                'hourly_rate' => $project->hourly_rate,
                 'ai_enabled' => $project->ai_enabled,
                 'start_date' => $project->start_date,
                 'due_date' => $project->due_date,
@@ -111,6 +113,7 @@ public function store(Request $request): JsonResponse
                 'start_date' => 'nullable|date',
                 'due_date' => 'nullable|date',
                 'budget' => 'nullable|numeric|min:0',
+                'hourly_rate' => 'nullable|numeric|min:0',
                 'ai_enabled' => 'nullable|boolean',
                 'contact_id' => 'nullable|uuid',
             ]);
@@ -271,6 +274,7 @@ public function update(Request $request, string $id): JsonResponse
                 'start_date' => 'nullable|date',
                 'due_date' => 'nullable|date',
                 'budget' => 'nullable|numeric|min:0',
+                'hourly_rate' => 'nullable|numeric|min:0',
                 'ai_enabled' => 'nullable|boolean',
                 'ai_settings' => 'nullable|array',
                 'settings' => 'nullable|array',
@@ -5,25 +5,41 @@
 use App\Http\Controllers\Controller;
 use App\Models\Contract;
 use App\Models\Invoice;
+use App\Models\Quote;
+use App\Models\ContractSignature;
+use App\Models\ContractSigner;
+use App\Models\ContractComment;
+use App\Services\ContractSigningService;
+use App\Services\ContractVersionService;
+use App\Services\QuoteService;
 use Illuminate\Http\Request;
+use InvalidArgumentException;
 
 class PublicDocumentController extends Controller
 {
+    public function __construct(
+        protected QuoteService $quoteService,
+        protected ContractSigningService $signingService,
+        protected ContractVersionService $versionService
+    ) {}
+
     /**
      * Show a contract by token (public access).
+     *
+     * The token is either the contract's own link or a signer's personal link.
      */
     public function showContract(string $token)
     {
-        $contract = Contract::with(['template', 'contact', 'project'])
-            ->where('token', $token)
-            ->firstOrFail();
+        [$contract, $signer] = $this->resolveContract($token);
+        $contract->load(['template', 'contact', 'project', 'signers', 'comments']);
 
         // Log view event
         $contract->events()->create([
             'event_type' => 'viewed',
-            'event_data' => [
+            'event_data' => array_filter([
                 'viewed_at' => now()->toISOString(),
-            ],
+                'signer_id' => $signer?->id,
+            ]),
             'ip_address' => request()->ip(),
             'user_agent' => request()->userAgent(),
         ]);
@@ -33,63 +49,93 @@ public function showContract(string $token)
             $contract->update(['status' => 'viewed']);
         }
 
+        if ($signer) {
+            $this->signingService->markSignerViewed($signer);
+        }
+
+        // A signer's page must not reveal the contract-wide link
+        $data = $contract->makeHidden('token')->toArray();
+
+        // Other signers' emails stay private; only their progress is shown
+        $data['signers'] = $contract->signers->map(fn(ContractSigner $other) => [
+            'id' => $other->id,
+            'name' => $other->name,
+            'role' => $other->role,
+            'title' => $other->title,
+            'signing_order' => $other->signing_order,
+            'status' => $other->status,
+            'signed_at' => $other->signed_at,
+        ]);
+
+        // The client sees the discussion, not reviewers' email addresses
+        $data['comments'] = $contract->comments->map(fn(ContractComment $comment) => [
+            'id' => $comment->id,
+            'section_id' => $comment->section_id,
+            'quoted_text' => $comment->quoted_text,
+            'body' => $comment->body,
+            'author_type' => $comment->author_type,
+            'author_name' => $comment->author_name,
+            'resolved_at' => $comment->resolved_at,
+            'created_at' => $comment->created_at,
+        ]);
+
+        if ($signer) {
+            $canSign = !$signer->hasSigned() && $this->signingService->isSignersTurn($signer, $contract);
+
+            $data['current_signer'] = [
+                'id' => $signer->id,
+                'name' => $signer->name,
+                'email' => $signer->email,
+                'role' => $signer->role,
+                'status' => $signer->status,
+                'signed_at' => $signer->signed_at,
+                'can_sign' => $canSign,
+                'waiting_on' => $canSign || $signer->hasSigned() ? [] : $contract->signers
+                    ->filter(fn(ContractSigner $other) => $other->signing_order < $signer->signing_order && !$other->hasSigned())
+                    ->pluck('name')
+                    ->values(),
+            ];
+        }
+
         return response()->json([
-            'data' => $contract,
+            'data' => $data,
         ]);
     }
 
     /**
-     * Sign a contract (clickwrap).
+     * Sign a contract with a drawn, typed or uploaded signature.
      */
     public function signContract(Request $request, string $token)
     {
         $validated = $request->validate([
             'signed_by' => 'required|string|max:255',
+            'signer_email' => 'nullable|email|max:255',
+            'method' => 'required|in:' . implode(',', ContractSignature::METHODS),
+            // Data URI of the signature; typed signatures are rendered to an image by the signing page
+            'signature_image' => 'required|string',
+            'typed_font' => 'nullable|string|max:100',
         ]);
 
-        $contract = Contract::where('token', $token)->firstOrFail();
-
-        // Check if already signed
-        if ($contract->status === 'signed') {
-            return response()->json([
-                'message' => 'Contract is already signed',
-            ], 400);
-        }
+        [$contract, $signer] = $this->resolveContract($token);
 
-        // Check if expired
-        if ($contract->expires_at && now()->isAfter($contract->expires_at)) {
-            $contract->update(['status' => 'expired']);
+        try {
+            $this->signingService->sign($contract, $validated, $request->ip(), $request->userAgent(), $signer);
+        } catch (InvalidArgumentException $e) {
             return response()->json([
-                'message' => 'Contract has expired',
+                'message' => $e->getMessage(),
             ], 400);
         }
 
-        // Sign the contract
-        $contract->update([
-            'status' => 'signed',
-            'client_signed_at' => now(),
-            'client_signed_by' => $validated['signed_by'],
-            'client_ip_address' => $request->ip(),
-        ]);
-
-        // Log signed event
-        $contract->events()->create([
-            'event_type' => 'signed',
-            'event_data' => [
-                'signed_by' => $validated['signed_by'],
-                'signed_at' => now()->toISOString(),
-            ],
-            'actor_type' => 'client',
-            'ip_address' => $request->ip(),
-            'user_agent' => $request->userAgent(),
-        ]);
-
         // Queue PDF generation and email notifications
         // TODO: Dispatch jobs when ready
 
+        $contract = $contract->fresh()->makeHidden('token');
+
         return response()->json([
-            'data' => $contract->fresh(),
-            'message' => 'Contract signed successfully',
+            'data' => $contract,
+            'message' => $contract->status === 'signed'
+                ? 'Contract signed successfully'
+                : 'Your signature has been recorded. The contract is waiting on the other signers.',
         ]);
     }
 
@@ -102,28 +148,67 @@ public function declineContract(Request $request, string $token)
             'reason' => 'nullable|string|max:500',
         ]);
 
-        $contract = Contract::where('token', $token)->firstOrFail();
-
-        $contract->update(['status' => 'declined']);
+        [$contract, $signer] = $this->resolveContract($token);
 
-        // Log declined event
-        $contract->events()->create([
-            'event_type' => 'declined',
-            'event_data' => [
-                'reason' => $validated['reason'] ?? null,
-                'declined_at' => now()->toISOString(),
-            ],
-            'actor_type' => 'client',
-            'ip_address' => $request->ip(),
-            'user_agent' => $request->userAgent(),
-        ]);
+        try {
+            $this->signingService->decline($contract, $validated['reason'] ?? null, $request->ip(), $request->userAgent(), $signer);
+        } catch (InvalidArgumentException $e) {
+            return response()->json([
+                'message' => $e->getMessage(),
+            ], 400);
+        }
 
         return response()->json([
-            'data' => $contract->fresh(),
+            'data' => $contract->fresh()->makeHidden('token'),
             'message' => 'Contract declined',
         ]);
     }
 
+    /**
+     * Leave a comment or change request on a contract.
+     */
+    public function commentOnContract(Request $request, string $token)
+    {
+        $validated = $request->validate([
+            'body' => 'required|string|max:5000',
+            'author_name' => 'required|string|max:255',
+            'author_email' => 'nullable|email|max:255',
+            'section_id' => 'nullable|string|max:255',
+            'quoted_text' => 'nullable|string|max:2000',
+        ]);
+
+        [$contract, $signer] = $this->resolveContract($token);
+
+        try {
+            $comment = $this->versionService->addClientComment($contract, $validated, $signer, $request->ip(), $request->userAgent());
+        } catch (InvalidArgumentException $e) {
+            return response()->json([
+                'message' => $e->getMessage(),
+            ], 400);
+        }
+
+        return response()->json([
+            'data' => $comment->only(['id', 'section_id', 'quoted_text', 'body', 'author_type', 'author_name', 'resolved_at', 'created_at']),
+            'message' => 'Comment sent',
+        ], 201);
+    }
+
+    /**
+     * Find the contract for a signer's personal token or the contract's own token.
+     *
+     * @return array{0: Contract, 1: ContractSigner|null}
+     */
+    protected function resolveContract(string $token): array
+    {
+        $signer = ContractSigner::with('contract')->where('token', $token)->first();
+
+        if ($signer) {
+            return [$signer->contract, $signer];
+        }
+
+        return [Contract::where('token', $token)->firstOrFail(), null];
+    }
+
     /**
      * Show an invoice by token (public access).
      */
@@ -177,6 +262,67 @@ public function createPaymentIntent(Request $request, string $token)
             ],
         ]);
     }
-}
 
+    /**
+     * Show a quote by token (public access).
+     */
+    public function showQuote(Request $request, string $token)
+    {
+        $quote = Quote::with(['company:id,name', 'contact:id,full_name,email', 'lineItems'])
+            ->where('token', $token)
+            ->where('status', '!=', Quote::STATUS_DRAFT)
+            ->firstOrFail();
+
+        $this->quoteService->markViewed($quote, $request->ip(), $request->userAgent());
+
+        return response()->json([
+            'data' => $quote->fresh(['company:id,name', 'contact:id,full_name,email', 'lineItems']),
+        ]);
+    }
+
+    /**
+     * Accept a quote.
+     */
+    public function acceptQuote(Request $request, string $token)
+    {
+        $validated = $request->validate([
+            'accepted_by' => 'required|string|max:255',
+        ]);
+
+        $quote = Quote::where('token', $token)->firstOrFail();
+
+        try {
+            $this->quoteService->accept($quote, $validated['accepted_by'], $request->ip(), $request->userAgent());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 400);
+        }
+
+        return response()->json([
+            'data' => $quote->fresh(['company:id,name', 'contact:id,full_name,email', 'lineItems']),
+            'message' => 'Quote accepted',
+        ]);
+    }
+
+    /**
+     * Decline a quote.
+     */
+    public function declineQuote(Request $request, string $token)
+    {
+        $validated = $request->validate([
+            'reason' => 'nullable|string|max:500',
+        ]);
+
+        $quote = Quote::where('token', $token)->firstOrFail();
 
+        try {
+            $this->quoteService->decline($quote, $validated['reason'] ?? null, $request->ip(), $request->userAgent());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 400);
+        }
+
+        return response()->json([
+            'data' => $quote->fresh(['company:id,name', 'contact:id,full_name,email', 'lineItems']),
+            'message' => 'Quote declined',
+        ]);
+    }
+}
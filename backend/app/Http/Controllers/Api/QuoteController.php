@@ -0,0 +1,230 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Contact;
+use App\Models\ContractTemplate;
+use App\Models\Quote;
+use App\Services\QuoteService;
+use Illuminate\Http\Request;
+use InvalidArgumentException;
+
+class QuoteController extends Controller
+{
+    public function __construct(
+        protected QuoteService $quoteService
+    ) {}
+
+    /**
+     * Display a listing of the resource.
+     */
+    public function index(Request $request)
+    {
+        $query = Quote::query()
+            ->where('company_id', $request->user()->company_id)
+            ->with(['contact:id,full_name,email', 'project:id,name']);
+
+        // Filter by status
+        if ($request->filled('status')) {
+            $query->where('status', $request->input('status'));
+        }
+
+        // Filter by contact
+        if ($request->filled('contact_id')) {
+            $query->where('contact_id', $request->input('contact_id'));
+        }
+
+        // Filter by deal
+        if ($request->filled('deal_id')) {
+            $query->where('deal_id', $request->input('deal_id'));
+        }
+
+        // Search by quote number or title
+        if ($request->filled('search')) {
+            $search = $request->input('search');
+            $query->where(function ($q) use ($search) {
+                $q->where('quote_number', 'ilike', "%{$search}%")
+                  ->orWhere('title', 'ilike', "%{$search}%");
+            });
+        }
+
+        // Sort
+        $sortBy = $request->input('sort_by', 'created_at');
+        $sortOrder = $request->input('sort_order', 'desc');
+        $query->orderBy($sortBy, $sortOrder);
+
+        return response()->json($query->paginate($request->input('per_page', 20)));
+    }
+
+    /**
+     * Store a newly created resource in storage.
+     */
+    public function store(Request $request)
+    {
+        $validated = $request->validate($this->rules());
+
+        // Verify contact belongs to company
+        Contact::where('company_id', $request->user()->company_id)
+            ->findOrFail($validated['contact_id']);
+
+        $quote = $this->quoteService->create($request->user()->company, $validated, $request->user());
+
+        $quote->load(['contact:id,full_name,email', 'project:id,name', 'lineItems']);
+
+        return response()->json([
+            'message' => 'Quote created successfully',
+            'data' => $quote,
+        ], 201);
+    }
+
+    /**
+     * Display the specified resource.
+     */
+    public function show(Request $request, string $id)
+    {
+        $quote = Quote::where('company_id', $request->user()->company_id)
+            ->with([
+                'contact', 'project', 'lineItems', 'events',
+                'contract:id,contract_number,title,status', 'invoice:id,invoice_number,status',
+            ])
+            ->findOrFail($id);
+
+        return response()->json(['data' => $quote]);
+    }
+
+    /**
+     * Update the specified resource in storage.
+     */
+    public function update(Request $request, string $id)
+    {
+        $quote = Quote::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        $validated = $request->validate($this->rules(partial: true));
+
+        if (!empty($validated['contact_id'])) {
+            Contact::where('company_id', $request->user()->company_id)
+                ->findOrFail($validated['contact_id']);
+        }
+
+        try {
+            $this->quoteService->update($quote, $validated);
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        $quote->load(['contact:id,full_name,email', 'project:id,name', 'lineItems']);
+
+        return response()->json([
+            'message' => 'Quote updated successfully',
+            'data' => $quote,
+        ]);
+    }
+
+    /**
+     * Remove the specified resource from storage.
+     */
+    public function destroy(Request $request, string $id)
+    {
+        $quote = Quote::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        if (in_array($quote->status, [Quote::STATUS_ACCEPTED, Quote::STATUS_CONVERTED], true)) {
+            return response()->json([
+                'message' => 'Cannot delete an accepted or converted quote.',
+            ], 422);
+        }
+
+        $quote->delete();
+
+        return response()->json([
+            'message' => 'Quote deleted successfully',
+        ]);
+    }
+
+    /**
+     * Email the quote to its contact.
+     */
+    public function send(Request $request, string $id)
+    {
+        $quote = Quote::where('company_id', $request->user()->company_id)
+            ->with('contact')
+            ->findOrFail($id);
+
+        try {
+            $this->quoteService->send($quote, $request->user());
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => 'Quote sent successfully',
+            'data' => $quote->fresh(['contact:id,full_name,email', 'project:id,name', 'lineItems', 'events']),
+        ]);
+    }
+
+    /**
+     * Convert an accepted quote into a draft contract or invoice.
+     */
+    public function convert(Request $request, string $id)
+    {
+        $quote = Quote::where('company_id', $request->user()->company_id)
+            ->findOrFail($id);
+
+        $validated = $request->validate([
+            'target' => 'required|in:contract,invoice',
+            'template_id' => 'required_if:target,contract|nullable|uuid',
+            'due_days' => 'nullable|integer|min:0|max:365',
+        ]);
+
+        try {
+            if ($validated['target'] === 'contract') {
+                $template = ContractTemplate::where('company_id', $request->user()->company_id)
+                    ->findOrFail($validated['template_id']);
+
+                $document = $this->quoteService->convertToContract($quote, $template, $request->user());
+            } else {
+                $document = $this->quoteService->convertToInvoice($quote, $request->user(), $validated['due_days'] ?? 30);
+            }
+        } catch (InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage()], 422);
+        }
+
+        return response()->json([
+            'message' => $validated['target'] === 'contract' ? 'Contract created from quote' : 'Invoice created from quote',
+            'data' => [
+                'target' => $validated['target'],
+                'id' => $document->id,
+            ],
+        ], 201);
+    }
+
+    /**
+     * Validation rules for creating or updating a quote.
+     */
+    protected function rules(bool $partial = false): array
+    {
+        $required = $partial ? 'sometimes|required' : 'required';
+
+        return [
+            'contact_id' => "{$required}|exists:contacts,id",
+            'project_id' => 'nullable|exists:projects,id',
+            'deal_id' => 'nullable|exists:deals,id',
+            'title' => 'nullable|string|max:255',
+            'issue_date' => "{$required}|date",
+            'valid_until' => "{$required}|date|after_or_equal:issue_date",
+            'terms' => 'nullable|string',
+            'notes' => 'nullable|string',
+            'discount_rate' => 'nullable|numeric|min:0|max:100',
+            'currency' => 'nullable|string|size:3',
+            'line_items' => "{$required}|array|min:1",
+            'line_items.*.description' => 'required|string',
+            'line_items.*.quantity' => 'required|numeric|min:0',
+            'line_items.*.unit_price' => 'required|numeric|min:0',
+            'line_items.*.discount_rate' => 'nullable|numeric|min:0|max:100',
+            'line_items.*.tax_rate_ids' => 'nullable|array',
+            'line_items.*.tax_rate_ids.*' => 'uuid',
+        ];
+    }
+}
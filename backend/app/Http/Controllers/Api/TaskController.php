@@ -3,12 +3,14 @@
 namespace App\Http\Controllers\Api;
 
 use App\Http\Controllers\Controller;
+use App\Models\Invoice;
 use App\Models\Project;
 use App\Models\Topic;
 use App\Models\Task;
 use App\Models\TaskAssignment;
 use App\Models\TaskActivityLog;
 use App\Models\TaskNotificationEvent;
+use Carbon\Carbon;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\DB;
@@ -97,6 +99,8 @@ public function store(Request $request, string $topicId): JsonResponse
                 'due_date' => 'nullable|date',
                 'order' => 'nullable|integer',
                 'tags' => 'nullable|array',
+                'hours' => 'nullable|numeric|min:0',
+                'hourly_rate' => 'nullable|numeric|min:0',
             ]);
 
             // Get max order if not provided
@@ -216,6 +220,8 @@ public function update(Request $request, string $id): JsonResponse
                 'order' => 'nullable|integer',
                 'topic_id' => 'nullable|uuid|exists:topics,id',
                 'tags' => 'nullable|array',
+                'hours' => 'nullable|numeric|min:0',
+                'hourly_rate' => 'nullable|numeric|min:0',
             ]);
 
             $oldValues = $task->toArray();
@@ -680,6 +686,90 @@ public function dashboard(Request $request): JsonResponse
         ]);
     }
 
+    /**
+     * List tasks across the company with their billing details.
+     * Used to pick completed work when invoicing a project.
+     */
+    public function search(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $companyId = $request->header('X-Company-ID') ?? $user->company_id;
+
+        $query = Task::forCompany($companyId)
+            ->whereHas('project.members', function ($q) use ($user) {
+                $q->where('user_id', $user->id);
+            })
+            ->with([
+                'project:id,name,code,hourly_rate',
+                'invoiceLineItems' => fn($q) => $q->whereHas('invoice', fn($i) => $i->whereNotIn('status', Invoice::NOT_LIVE_STATUSES)),
+                'invoiceLineItems.invoice:id,invoice_number,status',
+            ]);
+
+        if ($request->filled('project_id')) {
+            $query->where('project_id', $request->project_id);
+        }
+
+        if ($request->has('status')) {
+            $statuses = is_array($request->status) ? $request->status : [$request->status];
+            $query->whereIn('status', $statuses);
+        }
+
+        // Uses whereRaw for PostgreSQL boolean compatibility with emulated prepares
+        if ($request->boolean('completed')) {
+            $query->whereRaw('completed = true');
+        }
+
+        if ($request->filled('completed_from')) {
+            $query->where('completed_at', '>=', Carbon::parse($request->completed_from)->startOfDay());
+        }
+
+        if ($request->filled('completed_to')) {
+            $query->where('completed_at', '<=', Carbon::parse($request->completed_to)->endOfDay());
+        }
+
+        if ($request->has('invoiced')) {
+            $request->boolean('invoiced') ? $query->invoiced() : $query->uninvoiced();
+        }
+
+        $perPage = min($request->get('per_page', 100), 200);
+        $tasks = $query->orderByRaw('completed_at IS NULL, completed_at asc')->paginate($perPage);
+
+        return response()->json([
+            'success' => true,
+            'data' => $tasks->map(function ($task) {
+                $invoice = $task->invoiceLineItems->first()?->invoice;
+
+                return [
+                    'id' => $task->id,
+                    'title' => $task->title,
+                    'status' => $task->status,
+                    'completed' => $task->completed,
+                    'completed_at' => $task->completed_at,
+                    'hours' => $task->hours !== null ? (float) $task->hours : null,
+                    'hourly_rate' => $task->hourly_rate !== null ? (float) $task->hourly_rate : null,
+                    'rate' => $task->billingRate(),
+                    'project' => $task->project ? [
+                        'id' => $task->project->id,
+                        'name' => $task->project->name,
+                        'code' => $task->project->code,
+                    ] : null,
+                    'invoice' => $invoice ? [
+                        'id' => $invoice->id,
+                        'invoice_number' => $invoice->invoice_number,
+                        'status' => $invoice->status,
+                    ] : null,
+                ];
+            }),
+            'pagination' => [
+                'current_page' => $tasks->currentPage(),
+                'last_page' => $tasks->lastPage(),
+                'per_page' => $tasks->perPage(),
+                'total' => $tasks->total(),
+                'has_more' => $tasks->hasMorePages(),
+            ],
+        ]);
+    }
+
     /**
      * Create notification events for project members.
      */
@@ -0,0 +1,99 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\TaxRate;
+use Illuminate\Http\Request;
+
+class TaxRateController extends Controller
+{
+    /**
+     * Display the company's saved tax rates.
+     */
+    public function index(Request $request)
+    {
+        $taxRates = TaxRate::forCompany($request->user()->company_id)
+            ->orderBy('order')
+            ->orderBy('name')
+            ->get();
+
+        return response()->json(['data' => $taxRates]);
+    }
+
+    /**
+     * Store a newly created tax rate.
+     */
+    public function store(Request $request)
+    {
+        $validated = $request->validate([
+            'name' => 'required|string|max:100',
+            'rate' => 'required|numeric|min:0|max:100',
+            'is_compound' => 'nullable|boolean',
+            'is_default' => 'nullable|boolean',
+        ]);
+
+        $companyId = $request->user()->company_id;
+
+        $taxRate = TaxRate::create([
+            'company_id' => $companyId,
+            'name' => $validated['name'],
+            'rate' => $validated['rate'],
+            'is_compound' => (bool) ($validated['is_compound'] ?? false),
+            'is_default' => (bool) ($validated['is_default'] ?? false),
+            'order' => TaxRate::forCompany($companyId)->max('order') + 1,
+        ]);
+
+        return response()->json([
+            'message' => 'Tax rate created successfully',
+            'data' => $taxRate,
+        ], 201);
+    }
+
+    /**
+     * Update the specified tax rate.
+     * Invoices keep a snapshot of their taxes, so existing invoices are not changed.
+     */
+    public function update(Request $request, string $id)
+    {
+        $taxRate = TaxRate::forCompany($request->user()->company_id)
+            ->findOrFail($id);
+
+        $validated = $request->validate([
+            'name' => 'sometimes|required|string|max:100',
+            'rate' => 'sometimes|required|numeric|min:0|max:100',
+            'is_compound' => 'nullable|boolean',
+            'is_default' => 'nullable|boolean',
+            'order' => 'nullable|integer|min:0',
+        ]);
+
+        // Ensure boolean fields are proper booleans for PostgreSQL
+        foreach (['is_compound', 'is_default'] as $field) {
+            if (isset($validated[$field])) {
+                $validated[$field] = (bool) $validated[$field];
+            }
+        }
+
+        $taxRate->update($validated);
+
+        return response()->json([
+            'message' => 'Tax rate updated successfully',
+            'data' => $taxRate,
+        ]);
+    }
+
+    /**
+     * Remove the specified tax rate.
+     */
+    public function destroy(Request $request, string $id)
+    {
+        $taxRate = TaxRate::forCompany($request->user()->company_id)
+            ->findOrFail($id);
+
+        $taxRate->delete();
+
+        return response()->json([
+            'message' => 'Tax rate deleted successfully',
+        ]);
+    }
+}
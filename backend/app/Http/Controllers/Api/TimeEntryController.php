@@ -0,0 +1,325 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Task;
+use App\Models\TimeEntry;
+use App\Models\Timesheet;
+use Carbon\Carbon;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Validation\ValidationException;
+
+class TimeEntryController extends Controller
+{
+    /**
+     * List time entries on tasks the user can access.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $companyId = $request->header('X-Company-ID');
+
+        $query = TimeEntry::forCompany($companyId)
+            ->whereHas('project.members', function ($q) use ($user) {
+                $q->where('user_id', $user->id);
+            })
+            ->with(['task:id,title', 'project:id,name', 'user']);
+
+        if ($request->filled('task_id')) {
+            $query->where('task_id', $request->task_id);
+        }
+
+        if ($request->boolean('mine')) {
+            $query->where('user_id', $user->id);
+        }
+
+        if ($request->filled('from')) {
+            $query->where('started_at', '>=', Carbon::parse($request->from)->startOfDay());
+        }
+
+        if ($request->filled('to')) {
+            $query->where('started_at', '<=', Carbon::parse($request->to)->endOfDay());
+        }
+
+        $entries = $query->orderBy('started_at', 'desc')->limit(200)->get();
+
+        return response()->json([
+            'success' => true,
+            'data' => $entries->map(fn($entry) => $entry->toApiArray()),
+            'meta' => [
+                'total_seconds' => $entries->sum(fn($entry) => $entry->elapsedSeconds()),
+                'billable_seconds' => $entries->where('is_billable', true)->sum(fn($entry) => $entry->elapsedSeconds()),
+            ],
+        ]);
+    }
+
+    /**
+     * Get the user's running timer, if any.
+     */
+    public function running(Request $request): JsonResponse
+    {
+        $entry = TimeEntry::forCompany($request->header('X-Company-ID'))
+            ->where('user_id', $request->user()->id)
+            ->running()
+            ->with(['task:id,title', 'project:id,name', 'user'])
+            ->latest('started_at')
+            ->first();
+
+        return response()->json([
+            'success' => true,
+            'data' => $entry?->toApiArray(),
+        ]);
+    }
+
+    /**
+     * Start a timer on a task. Any other running timer of the user is stopped first.
+     */
+    public function start(Request $request, string $taskId): JsonResponse
+    {
+        $user = $request->user();
+        $companyId = $request->header('X-Company-ID');
+
+        $task = Task::forCompany($companyId)->with('project')->find($taskId);
+
+        if (!$task || !$task->project->hasMember($user)) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Task not found or access denied',
+            ], 404);
+        }
+
+        if (Timesheet::forWeek($companyId, $user->id, Timesheet::weekStartFor(now()))->isLocked()) {
+            return response()->json([
+                'success' => false,
+                'message' => "This week's timesheet has been submitted and can no longer be changed",
+            ], 422);
+        }
+
+        $entry = DB::transaction(function () use ($request, $task, $user, $companyId) {
+            TimeEntry::forCompany($companyId)
+                ->where('user_id', $user->id)
+                ->running()
+                ->get()
+                ->each(fn($running) => $running->stop());
+
+            return TimeEntry::create([
+                'company_id' => $companyId,
+                'user_id' => $user->id,
+                'task_id' => $task->id,
+                'project_id' => $task->project_id,
+                'started_at' => now(),
+                'is_billable' => $request->boolean('is_billable', true),
+            ]);
+        });
+
+        $entry->load(['task:id,title', 'project:id,name', 'user']);
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Timer started',
+            'data' => $entry->toApiArray(),
+        ], 201);
+    }
+
+    /**
+     * Stop one of the user's running timers.
+     */
+    public function stop(Request $request, string $id): JsonResponse
+    {
+        $entry = TimeEntry::forCompany($request->header('X-Company-ID'))
+            ->where('user_id', $request->user()->id)
+            ->find($id);
+
+        if (!$entry) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Time entry not found',
+            ], 404);
+        }
+
+        if ($entry->timesheet()?->isLocked()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'The timesheet for this entry has been submitted and can no longer be changed',
+            ], 422);
+        }
+
+        if ($entry->isRunning()) {
+            $entry->stop();
+        }
+
+        $entry->load(['task:id,title', 'project:id,name', 'user']);
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Timer stopped',
+            'data' => $entry->toApiArray(),
+        ]);
+    }
+
+    /**
+     * Record time manually.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $companyId = $request->header('X-Company-ID');
+
+        try {
+            $validated = $request->validate([
+                'task_id' => 'required|uuid',
+                'started_at' => 'required|date',
+                'duration_minutes' => 'required|integer|min:1|max:1440',
+                'notes' => 'nullable|string|max:2000',
+                'is_billable' => 'boolean',
+            ]);
+
+            $task = Task::forCompany($companyId)->with('project')->find($validated['task_id']);
+
+            if (!$task || !$task->project->hasMember($user)) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Task not found or access denied',
+                ], 404);
+            }
+
+            $startedAt = Carbon::parse($validated['started_at']);
+
+            if (Timesheet::forWeek($companyId, $user->id, Timesheet::weekStartFor($startedAt))->isLocked()) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'The timesheet for that week has been submitted and can no longer be changed',
+                ], 422);
+            }
+
+            $entry = TimeEntry::create([
+                'company_id' => $companyId,
+                'user_id' => $user->id,
+                'task_id' => $task->id,
+                'project_id' => $task->project_id,
+                'started_at' => $startedAt,
+                'ended_at' => $startedAt->copy()->addMinutes($validated['duration_minutes']),
+                'duration_seconds' => $validated['duration_minutes'] * 60,
+                'notes' => $validated['notes'] ?? null,
+                'is_billable' => $validated['is_billable'] ?? true,
+            ]);
+
+            $entry->load(['task:id,title', 'project:id,name', 'user']);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Time entry added',
+                'data' => $entry->toApiArray(),
+            ], 201);
+        } catch (ValidationException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Validation failed',
+                'errors' => $e->errors(),
+            ], 422);
+        }
+    }
+
+    /**
+     * Update one of the user's time entries.
+     */
+    public function update(Request $request, string $id): JsonResponse
+    {
+        $entry = TimeEntry::forCompany($request->header('X-Company-ID'))
+            ->where('user_id', $request->user()->id)
+            ->find($id);
+
+        if (!$entry) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Time entry not found',
+            ], 404);
+        }
+
+        if ($entry->timesheet()?->isLocked()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'The timesheet for this entry has been submitted and can no longer be changed',
+            ], 422);
+        }
+
+        try {
+            $validated = $request->validate([
+                'started_at' => 'sometimes|date',
+                'duration_minutes' => 'sometimes|integer|min:1|max:1440',
+                'notes' => 'nullable|string|max:2000',
+                'is_billable' => 'sometimes|boolean',
+            ]);
+
+            $data = collect($validated)->only(['notes', 'is_billable'])->all();
+
+            // Timing can only be corrected once the timer has stopped
+            if (!$entry->isRunning()) {
+                $startedAt = isset($validated['started_at']) ? Carbon::parse($validated['started_at']) : $entry->started_at;
+                $minutes = $validated['duration_minutes'] ?? intdiv($entry->duration_seconds, 60);
+
+                if (Timesheet::forWeek($entry->company_id, $entry->user_id, Timesheet::weekStartFor($startedAt))->isLocked()) {
+                    return response()->json([
+                        'success' => false,
+                        'message' => 'The timesheet for that week has been submitted and can no longer be changed',
+                    ], 422);
+                }
+
+                if (isset($validated['started_at']) || isset($validated['duration_minutes'])) {
+                    $data['started_at'] = $startedAt;
+                    $data['ended_at'] = $startedAt->copy()->addMinutes($minutes);
+                    $data['duration_seconds'] = $minutes * 60;
+                }
+            }
+
+            $entry->update($data);
+            $entry->load(['task:id,title', 'project:id,name', 'user']);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Time entry updated',
+                'data' => $entry->toApiArray(),
+            ]);
+        } catch (ValidationException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Validation failed',
+                'errors' => $e->errors(),
+            ], 422);
+        }
+    }
+
+    /**
+     * Delete one of the user's time entries.
+     */
+    public function destroy(Request $request, string $id): JsonResponse
+    {
+        $entry = TimeEntry::forCompany($request->header('X-Company-ID'))
+            ->where('user_id', $request->user()->id)
+            ->find($id);
+
+        if (!$entry) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Time entry not found',
+            ], 404);
+        }
+
+        if ($entry->timesheet()?->isLocked()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'The timesheet for this entry has been submitted and can no longer be changed',
+            ], 422);
+        }
+
+        $entry->delete();
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Time entry deleted',
+        ]);
+    }
+}
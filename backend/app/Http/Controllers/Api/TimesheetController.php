@@ -0,0 +1,267 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Company;
+use App\Models\TimeEntry;
+use App\Models\Timesheet;
+use App\Models\User;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Collection;
+
+class TimesheetController extends Controller
+{
+    /**
+     * Show a user's week with totals per project and day.
+     * Managers can view anyone's timesheet, others only their own.
+     */
+    public function show(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $companyId = $request->header('X-Company-ID');
+        $isManager = $this->isManager($user, $companyId);
+        $userId = $request->get('user_id', $user->id);
+
+        if ($userId !== $user->id && !$isManager) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Only managers can view other timesheets',
+            ], 403);
+        }
+
+        $timesheet = Timesheet::forWeek($companyId, $userId, Timesheet::weekStartFor($request->get('week', now())));
+        $timesheet->load(['user', 'reviewer']);
+
+        $entries = $timesheet->entries()
+            ->with(['task:id,title', 'project:id,name', 'user'])
+            ->orderBy('started_at')
+            ->get();
+
+        return response()->json([
+            'success' => true,
+            'data' => [
+                'timesheet' => $timesheet->toApiArray(),
+                'entries' => $entries->map(fn($entry) => $entry->toApiArray()),
+                'totals' => $this->totals($entries, $timesheet),
+                'can_review' => $isManager,
+            ],
+        ]);
+    }
+
+    /**
+     * List every company member's timesheet for a week (managers only).
+     */
+    public function team(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $companyId = $request->header('X-Company-ID');
+
+        if (!$this->isManager($user, $companyId)) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Only managers can review timesheets',
+            ], 403);
+        }
+
+        $weekStart = Timesheet::weekStartFor($request->get('week', now()));
+        $company = Company::find($companyId);
+
+        $timesheets = Timesheet::forCompany($companyId)
+            ->whereDate('week_start', $weekStart->toDateString())
+            ->get()
+            ->keyBy('user_id');
+
+        $entries = TimeEntry::forCompany($companyId)
+            ->forWeek($weekStart)
+            ->get()
+            ->groupBy('user_id');
+
+        $members = $company->users()->orderBy('first_name')->get()->map(function ($member) use ($timesheets, $entries) {
+            $memberEntries = $entries->get($member->id, collect());
+
+            return [
+                'user' => [
+                    'id' => $member->id,
+                    'name' => $member->first_name . ' ' . ($member->last_name ?? ''),
+                    'avatar' => $member->avatar_url,
+                ],
+                'timesheet_id' => $timesheets->get($member->id)?->id,
+                'status' => $timesheets->get($member->id)?->status ?? Timesheet::STATUS_OPEN,
+                'total_seconds' => $memberEntries->sum(fn($entry) => $entry->elapsedSeconds()),
+                'billable_seconds' => $memberEntries->where('is_billable', true)->sum(fn($entry) => $entry->elapsedSeconds()),
+            ];
+        });
+
+        return response()->json([
+            'success' => true,
+            'data' => $members->values(),
+            'meta' => [
+                'week_start' => $weekStart->toDateString(),
+            ],
+        ]);
+    }
+
+    /**
+     * Submit the user's own week for approval.
+     */
+    public function submit(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $companyId = $request->header('X-Company-ID');
+
+        $timesheet = Timesheet::forWeek($companyId, $user->id, Timesheet::weekStartFor($request->input('week', now())));
+
+        if ($timesheet->isLocked()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Timesheet has already been submitted',
+            ], 422);
+        }
+
+        if ($timesheet->entries()->running()->exists()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Stop the running timer before submitting the week',
+            ], 422);
+        }
+
+        if (!$timesheet->entries()->exists()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'There is no time to submit for this week',
+            ], 422);
+        }
+
+        $timesheet->fill([
+            'status' => Timesheet::STATUS_SUBMITTED,
+            'submitted_at' => now(),
+            'reviewed_by' => null,
+            'reviewed_at' => null,
+            'review_note' => null,
+        ])->save();
+
+        $timesheet->load(['user', 'reviewer']);
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Timesheet submitted for approval',
+            'data' => $timesheet->toApiArray(),
+        ]);
+    }
+
+    /**
+     * Approve a submitted timesheet.
+     */
+    public function approve(Request $request, string $id): JsonResponse
+    {
+        return $this->review($request, $id, Timesheet::STATUS_APPROVED);
+    }
+
+    /**
+     * Send a submitted timesheet back to its owner for changes.
+     */
+    public function reject(Request $request, string $id): JsonResponse
+    {
+        $request->validate([
+            'note' => 'nullable|string|max:2000',
+        ]);
+
+        return $this->review($request, $id, Timesheet::STATUS_REJECTED);
+    }
+
+    /**
+     * Record a manager's decision on a submitted timesheet.
+     */
+    protected function review(Request $request, string $id, string $status): JsonResponse
+    {
+        $user = $request->user();
+        $companyId = $request->header('X-Company-ID');
+
+        if (!$this->isManager($user, $companyId)) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Only managers can review timesheets',
+            ], 403);
+        }
+
+        $timesheet = Timesheet::forCompany($companyId)->find($id);
+
+        if (!$timesheet) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Timesheet not found',
+            ], 404);
+        }
+
+        if ($timesheet->status !== Timesheet::STATUS_SUBMITTED) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Only submitted timesheets can be reviewed',
+            ], 422);
+        }
+
+        $timesheet->update([
+            'status' => $status,
+            'reviewed_by' => $user->id,
+            'reviewed_at' => now(),
+            'review_note' => $status === Timesheet::STATUS_REJECTED ? $request->input('note') : null,
+        ]);
+
+        $timesheet->load(['user', 'reviewer']);
+
+        return response()->json([
+            'success' => true,
+            'message' => $status === Timesheet::STATUS_APPROVED ? 'Timesheet approved' : 'Timesheet returned for changes',
+            'data' => $timesheet->toApiArray(),
+        ]);
+    }
+
+    /**
+     * Totals for the week: per day, per project (split by day) and billable.
+     */
+    protected function totals(Collection $entries, Timesheet $timesheet): array
+    {
+        $dayIndex = fn(TimeEntry $entry) => (int) $timesheet->week_start->diffInDays($entry->started_at->copy()->startOfDay());
+
+        $days = array_fill(0, 7, 0);
+        foreach ($entries as $entry) {
+            $days[$dayIndex($entry)] += $entry->elapsedSeconds();
+        }
+
+        $projects = $entries->groupBy('project_id')->map(function ($projectEntries) use ($dayIndex) {
+            $byDay = array_fill(0, 7, 0);
+            foreach ($projectEntries as $entry) {
+                $byDay[$dayIndex($entry)] += $entry->elapsedSeconds();
+            }
+
+            return [
+                'project' => $projectEntries->first()->project ? [
+                    'id' => $projectEntries->first()->project->id,
+                    'name' => $projectEntries->first()->project->name,
+                ] : null,
+                'days' => $byDay,
+                'total_seconds' => array_sum($byDay),
+                'billable_seconds' => $projectEntries->where('is_billable', true)->sum(fn($entry) => $entry->elapsedSeconds()),
+            ];
+        })->sortByDesc('total_seconds')->values();
+
+        return [
+            'days' => $days,
+            'projects' => $projects,
+            'total_seconds' => array_sum($days),
+            'billable_seconds' => $entries->where('is_billable', true)->sum(fn($entry) => $entry->elapsedSeconds()),
+        ];
+    }
+
+    /**
+     * Whether the user is an owner or manager of the company.
+     */
+    protected function isManager(User $user, ?string $companyId): bool
+    {
+        $company = $companyId ? Company::find($companyId) : null;
+
+        return $company !== null && $user->isManagerOf($company);
+    }
+}
@@ -0,0 +1,65 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Models\CreditNote;
+use App\Services\DocumentPdfService;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Bus\Dispatchable;
+use Illuminate\Queue\InteractsWithQueue;
+use Illuminate\Queue\SerializesModels;
+use Illuminate\Support\Facades\Log;
+
+class GenerateCreditNotePdf implements ShouldQueue
+{
+    use Dispatchable, InteractsWithQueue, Queueable, SerializesModels;
+
+    /**
+     * The number of times the job may be attempted.
+     *
+     * @var int
+     */
+    public $tries = 3;
+
+    /**
+     * The number of seconds the job can run before timing out.
+     *
+     * @var int
+     */
+    public $timeout = 300;
+
+    /**
+     * Create a new job instance.
+     */
+    public function __construct(
+        public CreditNote $creditNote,
+    ) {}
+
+    /**
+     * Execute the job.
+     */
+    public function handle(DocumentPdfService $pdfService): void
+    {
+        try {
+            $pdfPath = $pdfService->generateCreditNotePdf($this->creditNote);
+
+            $this->creditNote->update([
+                'pdf_path' => $pdfPath,
+                'pdf_generated_at' => now(),
+            ]);
+
+            Log::info('Credit note PDF generated successfully', [
+                'credit_note_id' => $this->creditNote->id,
+                'pdf_path' => $pdfPath,
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Failed to generate credit note PDF', [
+                'credit_note_id' => $this->creditNote->id,
+                'error' => $e->getMessage(),
+            ]);
+
+            throw $e;
+        }
+    }
+}
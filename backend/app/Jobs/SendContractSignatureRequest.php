@@ -0,0 +1,71 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Mail\ContractSignatureRequest;
+use App\Models\ContractSigner;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Bus\Dispatchable;
+use Illuminate\Queue\InteractsWithQueue;
+use Illuminate\Queue\SerializesModels;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Mail;
+
+class SendContractSignatureRequest implements ShouldQueue
+{
+    use Dispatchable, InteractsWithQueue, Queueable, SerializesModels;
+
+    /**
+     * The number of times the job may be attempted.
+     *
+     * @var int
+     */
+    public $tries = 3;
+
+    /**
+     * Create a new job instance.
+     */
+    public function __construct(
+        public ContractSigner $signer,
+    ) {}
+
+    /**
+     * Execute the job.
+     */
+    public function handle(): void
+    {
+        $this->signer->loadMissing('contract.company');
+
+        Mail::to($this->signer->email, $this->signer->name)->send(new ContractSignatureRequest(
+            $this->signer,
+            $this->signer->contract->company?->name,
+        ));
+
+        Log::info('Contract signature request sent', [
+            'contract_id' => $this->signer->contract_id,
+            'signer_id' => $this->signer->id,
+        ]);
+    }
+
+    /**
+     * Handle a job failure.
+     */
+    public function failed(\Throwable $exception): void
+    {
+        Log::error('Contract signature request failed permanently', [
+            'contract_id' => $this->signer->contract_id,
+            'signer_id' => $this->signer->id,
+            'error' => $exception->getMessage(),
+        ]);
+
+        $this->signer->contract->events()->create([
+            'event_type' => 'send_failed',
+            'event_data' => [
+                'error' => $exception->getMessage(),
+                'recipient_email' => $this->signer->email,
+                'signer_id' => $this->signer->id,
+            ],
+        ]);
+    }
+}
@@ -36,6 +36,7 @@ public function __construct(
         public Invoice $invoice,
         public string $recipientEmail,
         public string $recipientName,
+        public bool $isResend = false,
     ) {}
 
     /**
@@ -55,21 +56,24 @@ public function handle(DocumentEmailService $emailService): void
                 $this->recipientName
             );
 
-            // Update invoice status and sent_at timestamp
-            $this->invoice->update([
-                'status' => 'sent',
-                'sent_at' => now(),
-            ]);
+            // Resends and reminders keep the current status; the sender logs their event
+            if (!$this->isResend) {
+                // Update invoice status and sent_at timestamp
+                $this->invoice->update([
+                    'status' => 'sent',
+                    'sent_at' => now(),
+                ]);
 
-            // Log event
-            $this->invoice->events()->create([
-                'event_type' => 'sent',
-                'event_data' => [
-                    'recipient_email' => $this->recipientEmail,
-                    'recipient_name' => $this->recipientName,
-                    'sent_at' => now()->toISOString(),
-                ],
-            ]);
+                // Log event
+                $this->invoice->events()->create([
+                    'event_type' => 'sent',
+                    'event_data' => [
+                        'recipient_email' => $this->recipientEmail,
+                        'recipient_name' => $this->recipientName,
+                        'sent_at' => now()->toISOString(),
+                    ],
+                ]);
+            }
 
             Log::info('Invoice email sent successfully', [
                 'invoice_id' => $this->invoice->id,
@@ -0,0 +1,76 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Mail\InvoiceReminder;
+use App\Models\Invoice;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Bus\Dispatchable;
+use Illuminate\Queue\InteractsWithQueue;
+use Illuminate\Queue\SerializesModels;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Mail;
+
+class SendInvoiceReminder implements ShouldQueue
+{
+    use Dispatchable, InteractsWithQueue, Queueable, SerializesModels;
+
+    /**
+     * The number of times the job may be attempted.
+     *
+     * @var int
+     */
+    public $tries = 3;
+
+    /**
+     * Create a new job instance.
+     */
+    public function __construct(
+        public Invoice $invoice,
+        public string $recipientEmail,
+        public string $recipientName,
+        public string $subject,
+        public string $body,
+    ) {}
+
+    /**
+     * Execute the job.
+     */
+    public function handle(): void
+    {
+        $this->invoice->loadMissing('company');
+
+        Mail::to($this->recipientEmail, $this->recipientName)->send(new InvoiceReminder(
+            $this->invoice,
+            $this->subject,
+            $this->body,
+            $this->invoice->company?->name,
+        ));
+
+        Log::info('Invoice reminder sent', [
+            'invoice_id' => $this->invoice->id,
+            'recipient' => $this->recipientEmail,
+        ]);
+    }
+
+    /**
+     * Handle a job failure.
+     */
+    public function failed(\Throwable $exception): void
+    {
+        Log::error('Invoice reminder job failed permanently', [
+            'invoice_id' => $this->invoice->id,
+            'error' => $exception->getMessage(),
+        ]);
+
+        $this->invoice->events()->create([
+            'event_type' => 'send_failed',
+            'event_data' => [
+                'error' => $exception->getMessage(),
+                'recipient_email' => $this->recipientEmail,
+                'subject' => $this->subject,
+            ],
+        ]);
+    }
+}
@@ -0,0 +1,72 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Mail\QuoteSent;
+use App\Models\Quote;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Bus\Dispatchable;
+use Illuminate\Queue\InteractsWithQueue;
+use Illuminate\Queue\SerializesModels;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Mail;
+
+class SendQuoteEmail implements ShouldQueue
+{
+    use Dispatchable, InteractsWithQueue, Queueable, SerializesModels;
+
+    /**
+     * The number of times the job may be attempted.
+     *
+     * @var int
+     */
+    public $tries = 3;
+
+    /**
+     * Create a new job instance.
+     */
+    public function __construct(
+        public Quote $quote,
+        public string $recipientEmail,
+        public string $recipientName,
+    ) {}
+
+    /**
+     * Execute the job.
+     */
+    public function handle(): void
+    {
+        $this->quote->loadMissing('company');
+
+        Mail::to($this->recipientEmail, $this->recipientName)->send(new QuoteSent(
+            $this->quote,
+            $this->recipientName,
+            $this->quote->company?->name,
+        ));
+
+        Log::info('Quote email sent', [
+            'quote_id' => $this->quote->id,
+            'recipient' => $this->recipientEmail,
+        ]);
+    }
+
+    /**
+     * Handle a job failure.
+     */
+    public function failed(\Throwable $exception): void
+    {
+        Log::error('Quote email job failed permanently', [
+            'quote_id' => $this->quote->id,
+            'error' => $exception->getMessage(),
+        ]);
+
+        $this->quote->events()->create([
+            'event_type' => 'send_failed',
+            'event_data' => [
+                'error' => $exception->getMessage(),
+                'recipient_email' => $this->recipientEmail,
+            ],
+        ]);
+    }
+}
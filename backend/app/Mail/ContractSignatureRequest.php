@@ -0,0 +1,60 @@
+<?php
+
+namespace App\Mail;
+
+use App\Models\ContractSigner;
+use Illuminate\Mail\Mailables\Content;
+use Illuminate\Mail\Mailables\Envelope;
+
+/**
+ * Contract Signature Request Email
+ *
+ * Asks one signer of a multi-party contract to sign, with their personal link.
+ */
+class ContractSignatureRequest extends BaseMailable
+{
+    /**
+     * Create a new message instance.
+     */
+    public function __construct(
+        public ContractSigner $signer,
+        public ?string $companyName = null,
+    ) {}
+
+    /**
+     * Get the message envelope.
+     */
+    public function envelope(): Envelope
+    {
+        return new Envelope(
+            from: $this->getFromAddress(),
+            subject: 'Please sign: ' . $this->signer->contract->title,
+        );
+    }
+
+    /**
+     * Get the message content definition.
+     */
+    public function content(): Content
+    {
+        return new Content(
+            view: 'emails.contract-signature-request',
+            with: [
+                'signer' => $this->signer,
+                'contract' => $this->signer->contract,
+                'signingUrl' => $this->getClientUrl() . '/public/contracts/' . $this->signer->token,
+                'companyName' => $this->companyName ?? $this->getAppName(),
+            ],
+        );
+    }
+
+    /**
+     * Get the attachments for the message.
+     *
+     * @return array<int, \Illuminate\Mail\Mailables\Attachment>
+     */
+    public function attachments(): array
+    {
+        return [];
+    }
+}
@@ -0,0 +1,62 @@
+<?php
+
+namespace App\Mail;
+
+use App\Models\Invoice;
+use Illuminate\Mail\Mailables\Content;
+use Illuminate\Mail\Mailables\Envelope;
+
+/**
+ * Invoice Reminder Email
+ *
+ * Payment reminder from the dunning schedule, with merge fields already filled in.
+ */
+class InvoiceReminder extends BaseMailable
+{
+    /**
+     * Create a new message instance.
+     */
+    public function __construct(
+        public Invoice $invoice,
+        public string $reminderSubject,
+        public string $reminderBody,
+        public ?string $companyName = null,
+    ) {}
+
+    /**
+     * Get the message envelope.
+     */
+    public function envelope(): Envelope
+    {
+        return new Envelope(
+            from: $this->getFromAddress(),
+            subject: $this->reminderSubject,
+        );
+    }
+
+    /**
+     * Get the message content definition.
+     */
+    public function content(): Content
+    {
+        return new Content(
+            view: 'emails.invoice-reminder',
+            with: [
+                'subjectLine' => $this->reminderSubject,
+                'paragraphs' => array_values(array_filter(array_map('trim', preg_split('/\R{2,}/', $this->reminderBody)))),
+                'paymentUrl' => $this->getClientUrl() . '/public/invoices/' . $this->invoice->token,
+                'companyName' => $this->companyName ?? $this->getAppName(),
+            ],
+        );
+    }
+
+    /**
+     * Get the attachments for the message.
+     *
+     * @return array<int, \Illuminate\Mail\Mailables\Attachment>
+     */
+    public function attachments(): array
+    {
+        return [];
+    }
+}
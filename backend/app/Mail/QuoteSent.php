@@ -0,0 +1,61 @@
+<?php
+
+namespace App\Mail;
+
+use App\Models\Quote;
+use Illuminate\Mail\Mailables\Content;
+use Illuminate\Mail\Mailables\Envelope;
+
+/**
+ * Quote Email
+ *
+ * Sends a quote to the client with a link to accept or decline it.
+ */
+class QuoteSent extends BaseMailable
+{
+    /**
+     * Create a new message instance.
+     */
+    public function __construct(
+        public Quote $quote,
+        public string $recipientName,
+        public ?string $companyName = null,
+    ) {}
+
+    /**
+     * Get the message envelope.
+     */
+    public function envelope(): Envelope
+    {
+        return new Envelope(
+            from: $this->getFromAddress(),
+            subject: "Quote {$this->quote->quote_number} from " . ($this->companyName ?? $this->getAppName()),
+        );
+    }
+
+    /**
+     * Get the message content definition.
+     */
+    public function content(): Content
+    {
+        return new Content(
+            view: 'emails.quote',
+            with: [
+                'quote' => $this->quote,
+                'recipientName' => $this->recipientName,
+                'quoteUrl' => $this->getClientUrl() . '/public/quotes/' . $this->quote->token,
+                'companyName' => $this->companyName ?? $this->getAppName(),
+            ],
+        );
+    }
+
+    /**
+     * Get the attachments for the message.
+     *
+     * @return array<int, \Illuminate\Mail\Mailables\Attachment>
+     */
+    public function attachments(): array
+    {
+        return [];
+    }
+}
@@ -0,0 +1,61 @@
+<?php
+
+namespace App\Mail;
+
+use App\Models\CompanyInvitation;
+use Illuminate\Mail\Mailables\Content;
+use Illuminate\Mail\Mailables\Envelope;
+
+/**
+ * Team Invitation Email
+ *
+ * Invites someone to join a company's team, with a link to accept.
+ */
+class TeamInvitation extends BaseMailable
+{
+    /**
+     * Create a new message instance.
+     */
+    public function __construct(
+        public CompanyInvitation $invitation,
+    ) {}
+
+    /**
+     * Get the message envelope.
+     */
+    public function envelope(): Envelope
+    {
+        return new Envelope(
+            from: $this->getFromAddress(),
+            subject: 'Join ' . ($this->invitation->company?->name ?? $this->getAppName()) . ' on ' . $this->getAppName(),
+        );
+    }
+
+    /**
+     * Get the message content definition.
+     */
+    public function content(): Content
+    {
+        return new Content(
+            view: 'emails.team-invitation',
+            with: [
+                'invitation' => $this->invitation,
+                'inviterName' => $this->invitation->inviter
+                    ? trim($this->invitation->inviter->first_name . ' ' . $this->invitation->inviter->last_name)
+                    : null,
+                'acceptUrl' => $this->getClientUrl() . '/company-invitations/' . $this->invitation->token,
+                'companyName' => $this->invitation->company?->name ?? $this->getAppName(),
+            ],
+        );
+    }
+
+    /**
+     * Get the attachments for the message.
+     *
+     * @return array<int, \Illuminate\Mail\Mailables\Attachment>
+     */
+    public function attachments(): array
+    {
+        return [];
+    }
+}
@@ -74,6 +74,14 @@ public function managers(): BelongsToMany
         return $this->users()->wherePivotIn('role_in_company', ['owner', 'manager']);
     }
 
+    /**
+     * Get the staff invitations sent for this company.
+     */
+    public function invitations(): HasMany
+    {
+        return $this->hasMany(CompanyInvitation::class);
+    }
+
     /**
      * Get all contacts associated with this company (any relationship type).
      */
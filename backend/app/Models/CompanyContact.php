@@ -28,6 +28,7 @@ class CompanyContact extends Model
         'first_seen_at',
         'last_activity_at',
         'metadata',
+        'invoice_reminders_paused',
     ];
 
     protected function casts(): array
@@ -37,6 +38,7 @@ protected function casts(): array
             'first_seen_at' => 'datetime',
             'last_activity_at' => 'datetime',
             'metadata' => 'array',
+            'invoice_reminders_paused' => 'boolean',
         ];
     }
 
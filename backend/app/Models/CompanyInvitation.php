@@ -0,0 +1,96 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Carbon;
+
+class CompanyInvitation extends Model
+{
+    use HasFactory, HasUuids;
+
+    protected $fillable = [
+        'company_id',
+        'inviter_id',
+        'email',
+        'token',
+        'role_in_company',
+        'accepted_at',
+        'expires_at',
+    ];
+
+    protected $hidden = [
+        'token',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'accepted_at' => 'datetime',
+            'expires_at' => 'datetime',
+        ];
+    }
+
+    /**
+     * Get the company the invitation is for.
+     */
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    /**
+     * Get the user who sent the invitation.
+     */
+    public function inviter(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'inviter_id');
+    }
+
+    /**
+     * Check if the invitation has been accepted.
+     */
+    public function isAccepted(): bool
+    {
+        return $this->accepted_at !== null;
+    }
+
+    /**
+     * Check if the invitation has expired.
+     */
+    public function isExpired(): bool
+    {
+        return $this->expires_at && Carbon::now()->isAfter($this->expires_at);
+    }
+
+    /**
+     * Mark the invitation as accepted.
+     */
+    public function markAsAccepted(): void
+    {
+        $this->update(['accepted_at' => now()]);
+    }
+
+    /**
+     * Scope to get pending invitations.
+     */
+    public function scopePending($query)
+    {
+        return $query->whereNull('accepted_at')
+            ->where(function ($q) {
+                $q->whereNull('expires_at')
+                    ->orWhere('expires_at', '>', now());
+            });
+    }
+
+    /**
+     * Scope to filter by company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+}
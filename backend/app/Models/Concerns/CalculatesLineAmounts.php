@@ -0,0 +1,54 @@
+<?php
+
+namespace App\Models\Concerns;
+
+/**
+ * Amount, discount and tax calculation shared by invoice and quote line items.
+ */
+trait CalculatesLineAmounts
+{
+    /**
+     * Boot the trait.
+     */
+    protected static function bootCalculatesLineAmounts(): void
+    {
+        static::saving(function ($lineItem) {
+            // Auto-calculate amount, net of the line discount
+            $gross = $lineItem->quantity * $lineItem->unit_price;
+            $lineItem->discount_amount = round($gross * ($lineItem->discount_rate ?? 0) / 100, 2);
+            $lineItem->amount = $gross - $lineItem->discount_amount;
+            $lineItem->tax_amount = round(array_sum(array_column($lineItem->taxLines(), 'amount')), 2);
+        });
+    }
+
+    /**
+     * Tax charged on the line amount, one entry per tax.
+     * Compound taxes are charged on the amount plus the taxes before them.
+     *
+     * @param  array|null  $taxes  Taxes to apply instead of the line's own
+     */
+    public function taxLines(?array $taxes = null): array
+    {
+        $amount = (float) $this->amount;
+        $charged = 0.0;
+        $lines = [];
+
+        foreach ($taxes ?? $this->taxes ?? [] as $tax) {
+            $taxable = !empty($tax['is_compound']) ? $amount + $charged : $amount;
+            $taxAmount = $taxable * (float) $tax['rate'] / 100;
+
+            $lines[] = [
+                'tax_rate_id' => $tax['tax_rate_id'] ?? null,
+                'name' => $tax['name'],
+                'rate' => (float) $tax['rate'],
+                'is_compound' => !empty($tax['is_compound']),
+                'taxable' => $taxable,
+                'amount' => $taxAmount,
+            ];
+
+            $charged += $taxAmount;
+        }
+
+        return $lines;
+    }
+}
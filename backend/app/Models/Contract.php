@@ -2,11 +2,13 @@
 
 namespace App\Models;
 
+use Carbon\Carbon;
 use Illuminate\Database\Eloquent\Concerns\HasUuids;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
 use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\Relations\HasOne;
 use Illuminate\Database\Eloquent\SoftDeletes;
 use Illuminate\Support\Str;
 
@@ -14,11 +16,18 @@ class Contract extends Model
 {
     use HasFactory, HasUuids, SoftDeletes;
 
+    public const RENEWAL_NONE = 'none';
+    public const RENEWAL_MANUAL = 'manual';
+    public const RENEWAL_AUTO = 'auto';
+
+    public const RENEWAL_TYPES = [self::RENEWAL_NONE, self::RENEWAL_MANUAL, self::RENEWAL_AUTO];
+
     protected $fillable = [
         'company_id',
         'template_id',
         'contact_id',
         'project_id',
+        'deal_id',
         'title',
         'contract_number',
         'contract_type',
@@ -27,6 +36,7 @@ class Contract extends Model
         'merge_field_values',
         'status',
         'clickwrap_text',
+        'signing_mode',
         'client_signed_at',
         'client_signed_by',
         'client_ip_address',
@@ -38,6 +48,12 @@ class Contract extends Model
         'sent_at',
         'sent_by',
         'expires_at',
+        'ends_at',
+        'renewal_type',
+        'renewal_term_months',
+        'notice_period_days',
+        'renewal_notice_sent_at',
+        'renewed_from_id',
         'token',
         'notes',
     ];
@@ -51,6 +67,10 @@ class Contract extends Model
         'pdf_generated_at' => 'datetime',
         'sent_at' => 'datetime',
         'expires_at' => 'datetime',
+        'ends_at' => 'datetime',
+        'renewal_term_months' => 'integer',
+        'notice_period_days' => 'integer',
+        'renewal_notice_sent_at' => 'datetime',
         'deleted_at' => 'datetime',
     ];
 
@@ -84,6 +104,14 @@ public function template(): BelongsTo
         return $this->belongsTo(ContractTemplate::class, 'template_id');
     }
 
+    /**
+     * Get the deal the contract was created from.
+     */
+    public function deal(): BelongsTo
+    {
+        return $this->belongsTo(Deal::class);
+    }
+
     /**
      * Get the contact for the contract.
      */
@@ -124,6 +152,54 @@ public function events(): HasMany
         return $this->hasMany(ContractEvent::class)->orderBy('created_at', 'desc');
     }
 
+    /**
+     * Get the people who must sign the contract, in signing order.
+     */
+    public function signers(): HasMany
+    {
+        return $this->hasMany(ContractSigner::class)->orderBy('signing_order')->orderBy('created_at');
+    }
+
+    /**
+     * Get the signatures captured on the contract, oldest first.
+     */
+    public function signatures(): HasMany
+    {
+        return $this->hasMany(ContractSignature::class)->orderBy('signed_at');
+    }
+
+    /**
+     * Get the contract this one renews.
+     */
+    public function renewedFrom(): BelongsTo
+    {
+        return $this->belongsTo(Contract::class, 'renewed_from_id');
+    }
+
+    /**
+     * Get the renewal contract created from this one.
+     */
+    public function renewal(): HasOne
+    {
+        return $this->hasOne(Contract::class, 'renewed_from_id');
+    }
+
+    /**
+     * Get the saved versions of the contract, oldest first.
+     */
+    public function versions(): HasMany
+    {
+        return $this->hasMany(ContractVersion::class)->orderBy('version_number');
+    }
+
+    /**
+     * Get the comments and change requests on the contract, oldest first.
+     */
+    public function comments(): HasMany
+    {
+        return $this->hasMany(ContractComment::class)->orderBy('created_at');
+    }
+
     /**
      * Get the invoices for the contract.
      */
@@ -132,6 +208,31 @@ public function invoices(): HasMany
         return $this->hasMany(Invoice::class);
     }
 
+    /**
+     * Generate the next contract number for a company, e.g. CNT-2026-0012.
+     */
+    public static function generateNumber(Company $company): string
+    {
+        $prefix = $company->settings['documents']['contract_number_prefix'] ?? 'CNT';
+        $sequence = static::withTrashed()->where('company_id', $company->id)->count() + 1;
+
+        // Numbers are unique across companies, so step past any that are taken
+        do {
+            $number = $prefix . '-' . date('Y') . '-' . str_pad($sequence++, 4, '0', STR_PAD_LEFT);
+        } while (static::withTrashed()->where('contract_number', $number)->exists());
+
+        return $number;
+    }
+
+    /**
+     * SHA-256 of the rendered contract content, recorded with each signature
+     * so later changes to the signed text can be detected.
+     */
+    public function documentHash(): string
+    {
+        return hash('sha256', json_encode($this->rendered_sections ?? [], JSON_UNESCAPED_UNICODE | JSON_UNESCAPED_SLASHES));
+    }
+
     /**
      * Check if the contract is signed by both parties.
      */
@@ -141,10 +242,34 @@ public function isFullySigned(): bool
     }
 
     /**
-     * Check if the contract is expired.
+     * Check if the contract's signing deadline has passed.
      */
     public function isExpired(): bool
     {
         return $this->expires_at && $this->expires_at->isPast();
     }
+
+    /**
+     * The last day notice can be given before the contract renews or ends.
+     */
+    public function noticeDeadline(): ?Carbon
+    {
+        if (!$this->ends_at || !$this->notice_period_days) {
+            return null;
+        }
+
+        return $this->ends_at->copy()->subDays($this->notice_period_days);
+    }
+
+    /**
+     * Scope to signed contracts whose term ends within the given number of days.
+     */
+    public function scopeEndingWithin($query, int $days, ?Carbon $from = null)
+    {
+        $from ??= now();
+
+        return $query->where('status', 'signed')
+            ->whereNotNull('ends_at')
+            ->whereBetween('ends_at', [$from, $from->copy()->addDays($days)]);
+    }
 }
@@ -0,0 +1,61 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+class ContractClause extends Model
+{
+    use HasFactory, HasUuids;
+
+    protected $fillable = [
+        'company_id',
+        'name',
+        'description',
+        'tags',
+        'html',
+        'version',
+        'created_by',
+    ];
+
+    protected $casts = [
+        'tags' => 'array',
+        'version' => 'integer',
+    ];
+
+    /**
+     * Get the company that owns the clause.
+     */
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    /**
+     * Get the user who created the clause.
+     */
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    /**
+     * Get the saved versions of the clause, newest first.
+     */
+    public function versions(): HasMany
+    {
+        return $this->hasMany(ContractClauseVersion::class, 'clause_id')->orderByDesc('version_number');
+    }
+
+    /**
+     * Scope to clauses for a company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+}
@@ -0,0 +1,42 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class ContractClauseVersion extends Model
+{
+    use HasFactory, HasUuids;
+
+    protected $fillable = [
+        'clause_id',
+        'version_number',
+        'name',
+        'html',
+        'change_summary',
+        'created_by',
+    ];
+
+    protected $casts = [
+        'version_number' => 'integer',
+    ];
+
+    /**
+     * Get the clause this is a version of.
+     */
+    public function clause(): BelongsTo
+    {
+        return $this->belongsTo(ContractClause::class, 'clause_id');
+    }
+
+    /**
+     * Get the user who saved this version.
+     */
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+}
@@ -0,0 +1,59 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class ContractComment extends Model
+{
+    use HasFactory, HasUuids;
+
+    public const AUTHOR_CLIENT = 'client';
+    public const AUTHOR_USER = 'user';
+
+    protected $fillable = [
+        'contract_id',
+        'version_id',
+        'section_id',
+        'quoted_text',
+        'body',
+        'author_type',
+        'author_name',
+        'author_email',
+        'signer_id',
+        'user_id',
+        'resolved_at',
+        'resolved_by',
+    ];
+
+    protected $casts = [
+        'resolved_at' => 'datetime',
+    ];
+
+    /**
+     * Get the contract being commented on.
+     */
+    public function contract(): BelongsTo
+    {
+        return $this->belongsTo(Contract::class);
+    }
+
+    /**
+     * Get the version the comment was made against.
+     */
+    public function version(): BelongsTo
+    {
+        return $this->belongsTo(ContractVersion::class, 'version_id');
+    }
+
+    /**
+     * Check if the comment has been dealt with.
+     */
+    public function isResolved(): bool
+    {
+        return $this->resolved_at !== null;
+    }
+}
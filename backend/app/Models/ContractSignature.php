@@ -0,0 +1,72 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Facades\Storage;
+
+class ContractSignature extends Model
+{
+    use HasFactory, HasUuids;
+
+    public const METHOD_DRAWN = 'drawn';
+    public const METHOD_TYPED = 'typed';
+    public const METHOD_UPLOAD = 'upload';
+
+    public const METHODS = [self::METHOD_DRAWN, self::METHOD_TYPED, self::METHOD_UPLOAD];
+
+    protected $fillable = [
+        'contract_id',
+        'signer_id',
+        'signer_name',
+        'signer_email',
+        'method',
+        'typed_font',
+        'image_path',
+        'document_hash',
+        'ip_address',
+        'user_agent',
+        'signed_at',
+    ];
+
+    protected $casts = [
+        'signed_at' => 'datetime',
+    ];
+
+    protected $hidden = [
+        'image_path',
+    ];
+
+    /**
+     * Get the contract that was signed.
+     */
+    public function contract(): BelongsTo
+    {
+        return $this->belongsTo(Contract::class);
+    }
+
+    /**
+     * Get the signer, for contracts with a list of signers.
+     */
+    public function signer(): BelongsTo
+    {
+        return $this->belongsTo(ContractSigner::class, 'signer_id');
+    }
+
+    /**
+     * The signature image as a data URI, for embedding in pages and PDFs.
+     */
+    public function imageDataUri(): ?string
+    {
+        if (!Storage::exists($this->image_path)) {
+            return null;
+        }
+
+        $mime = str_ends_with($this->image_path, '.jpg') ? 'image/jpeg' : 'image/png';
+
+        return 'data:' . $mime . ';base64,' . base64_encode(Storage::get($this->image_path));
+    }
+}
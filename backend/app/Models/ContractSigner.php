@@ -0,0 +1,92 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasOne;
+use Illuminate\Support\Str;
+
+class ContractSigner extends Model
+{
+    use HasFactory, HasUuids;
+
+    public const ROLES = ['client', 'provider', 'witness'];
+
+    public const STATUS_PENDING = 'pending';
+    public const STATUS_NOTIFIED = 'notified';
+    public const STATUS_VIEWED = 'viewed';
+    public const STATUS_SIGNED = 'signed';
+    public const STATUS_DECLINED = 'declined';
+
+    protected $fillable = [
+        'contract_id',
+        'name',
+        'email',
+        'role',
+        'title',
+        'signing_order',
+        'token',
+        'status',
+        'notified_at',
+        'viewed_at',
+        'signed_at',
+        'declined_at',
+        'decline_reason',
+    ];
+
+    protected $casts = [
+        'signing_order' => 'integer',
+        'notified_at' => 'datetime',
+        'viewed_at' => 'datetime',
+        'signed_at' => 'datetime',
+        'declined_at' => 'datetime',
+    ];
+
+    /**
+     * The token is each signer's personal link, so it is only shown to the team.
+     */
+    protected $hidden = [
+        'token',
+    ];
+
+    /**
+     * Boot the model.
+     */
+    protected static function boot()
+    {
+        parent::boot();
+
+        static::creating(function ($signer) {
+            if (empty($signer->token)) {
+                $signer->token = Str::random(40);
+            }
+        });
+    }
+
+    /**
+     * Get the contract being signed.
+     */
+    public function contract(): BelongsTo
+    {
+        return $this->belongsTo(Contract::class);
+    }
+
+    /**
+     * Get the signature this signer gave.
+     */
+    public function signature(): HasOne
+    {
+        return $this->hasOne(ContractSignature::class, 'signer_id');
+    }
+
+    /**
+     * Check if the signer has signed.
+     */
+    public function hasSigned(): bool
+    {
+        return $this->status === self::STATUS_SIGNED;
+    }
+}
@@ -0,0 +1,56 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+class ContractVersion extends Model
+{
+    use HasFactory, HasUuids;
+
+    protected $fillable = [
+        'contract_id',
+        'version_number',
+        'title',
+        'rendered_sections',
+        'pricing_data',
+        'clickwrap_text',
+        'document_hash',
+        'change_summary',
+        'created_by',
+    ];
+
+    protected $casts = [
+        'version_number' => 'integer',
+        'rendered_sections' => 'array',
+        'pricing_data' => 'array',
+    ];
+
+    /**
+     * Get the contract this is a version of.
+     */
+    public function contract(): BelongsTo
+    {
+        return $this->belongsTo(Contract::class);
+    }
+
+    /**
+     * Get the user who saved this version.
+     */
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    /**
+     * Get the comments made against this version.
+     */
+    public function comments(): HasMany
+    {
+        return $this->hasMany(ContractComment::class, 'version_id');
+    }
+}
@@ -0,0 +1,140 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class CreditNote extends Model
+{
+    use HasFactory, HasUuids;
+
+    public const STATUS_ISSUED = 'issued';
+    public const STATUS_APPLIED = 'applied';
+    public const STATUS_VOID = 'void';
+
+    protected $fillable = [
+        'company_id',
+        'invoice_id',
+        'contact_id',
+        'credit_note_number',
+        'status',
+        'issue_date',
+        'amount',
+        'currency',
+        'reason',
+        'pdf_path',
+        'pdf_generated_at',
+        'issued_by',
+        'applied_at',
+        'applied_by',
+        'voided_at',
+    ];
+
+    protected $casts = [
+        'issue_date' => 'date',
+        'amount' => 'decimal:2',
+        'pdf_generated_at' => 'datetime',
+        'applied_at' => 'datetime',
+        'voided_at' => 'datetime',
+    ];
+
+    /**
+     * Get the company that issued the credit note.
+     */
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    /**
+     * Get the invoice being credited.
+     */
+    public function invoice(): BelongsTo
+    {
+        return $this->belongsTo(Invoice::class);
+    }
+
+    /**
+     * Get the contact the credit note is addressed to.
+     */
+    public function contact(): BelongsTo
+    {
+        return $this->belongsTo(Contact::class);
+    }
+
+    /**
+     * Get the user who issued the credit note.
+     */
+    public function issuer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'issued_by');
+    }
+
+    /**
+     * Get the user who applied the credit note.
+     */
+    public function applier(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'applied_by');
+    }
+
+    /**
+     * Scope to filter by company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    /**
+     * Scope to credit notes that still count against the invoice (issued or applied).
+     */
+    public function scopeActive($query)
+    {
+        return $query->where('status', '!=', self::STATUS_VOID);
+    }
+
+    /**
+     * Generate the next credit note number for a company, e.g. CN-2026-0007.
+     */
+    public static function generateNumber(Company $company): string
+    {
+        $prefix = $company->settings['documents']['credit_note_number_prefix'] ?? 'CN';
+        $sequence = static::where('company_id', $company->id)->count() + 1;
+
+        // Numbers are unique across companies, so step past any that are taken
+        do {
+            $number = $prefix . '-' . date('Y') . '-' . str_pad($sequence++, 4, '0', STR_PAD_LEFT);
+        } while (static::where('credit_note_number', $number)->exists());
+
+        return $number;
+    }
+
+    /**
+     * Serialize for the API.
+     */
+    public function toApiArray(): array
+    {
+        return [
+            'id' => $this->id,
+            'invoice_id' => $this->invoice_id,
+            'credit_note_number' => $this->credit_note_number,
+            'status' => $this->status,
+            'issue_date' => $this->issue_date?->toDateString(),
+            'amount' => (float) $this->amount,
+            'currency' => $this->currency,
+            'reason' => $this->reason,
+            'has_pdf' => $this->pdf_path !== null,
+            'issued_by' => $this->issuer ? [
+                'id' => $this->issuer->id,
+                'name' => trim($this->issuer->first_name . ' ' . $this->issuer->last_name),
+            ] : null,
+            'applied_at' => $this->applied_at?->toIso8601String(),
+            'voided_at' => $this->voided_at?->toIso8601String(),
+            'created_at' => $this->created_at?->toIso8601String(),
+        ];
+    }
+}
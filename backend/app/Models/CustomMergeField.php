@@ -0,0 +1,83 @@
+<?php
+
+namespace App\Models;
+
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class CustomMergeField extends Model
+{
+    use HasFactory, HasUuids;
+
+    public const TYPES = ['text', 'number', 'date', 'currency'];
+
+    public const CATEGORIES = ['client', 'project', 'company', 'contract'];
+
+    /**
+     * Date formats offered for date fields, as PHP date() patterns.
+     */
+    public const DATE_FORMATS = ['F j, Y', 'j F Y', 'M j, Y', 'Y-m-d', 'm/d/Y', 'd/m/Y'];
+
+    protected $fillable = [
+        'company_id',
+        'key',
+        'label',
+        'type',
+        'category',
+        'default_value',
+        'format',
+    ];
+
+    /**
+     * Get the company that owns the field.
+     */
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    /**
+     * Scope to filter by company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    /**
+     * Format a raw value the way the field displays it in a contract:
+     * dates use the field's date format and currency amounts get their
+     * currency code and two decimals.
+     */
+    public static function formatValue(string $value, string $type, ?string $format): string
+    {
+        $value = trim($value);
+
+        if ($value === '') {
+            return '';
+        }
+
+        switch ($type) {
+            case 'date':
+                try {
+                    return Carbon::parse($value)->format($format ?: 'F j, Y');
+                } catch (\Exception $e) {
+                    return $value;
+                }
+            case 'currency':
+                $amount = preg_replace('/[^0-9.\-]/', '', $value);
+                if (!is_numeric($amount)) {
+                    return $value;
+                }
+
+                return ($format === '$' || !$format ? '$' : $format . ' ') . number_format((float) $amount, 2);
+            case 'number':
+                return is_numeric($value) ? (string) (0 + $value) : $value;
+            default:
+                return $value;
+        }
+    }
+}
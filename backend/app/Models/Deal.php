@@ -6,6 +6,7 @@
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
 use Illuminate\Database\Eloquent\SoftDeletes;
 
 class Deal extends Model
@@ -14,12 +15,14 @@ class Deal extends Model
 
     protected $fillable = [
         'company_id',
+        'pipeline_id',
         'contact_id',
         'title',
         'description',
         'value',
         'currency',
         'stage',
+        'position',
         'probability',
         'expected_close_date',
         'lost_reason',
@@ -31,6 +34,7 @@ class Deal extends Model
     protected $casts = [
         'value' => 'decimal:2',
         'probability' => 'integer',
+        'position' => 'integer',
         'expected_close_date' => 'date',
         'closed_at' => 'datetime',
         'created_at' => 'datetime',
@@ -38,14 +42,14 @@ class Deal extends Model
     ];
 
     /**
-     * Deal stages with probability defaults.
+     * Default deal stages, used to seed new pipelines and for deals without one.
      */
     public const STAGES = [
-        'qualification' => ['name' => 'Qualification', 'probability' => 10, 'order' => 1],
-        'proposal' => ['name' => 'Proposal', 'probability' => 30, 'order' => 2],
-        'negotiation' => ['name' => 'Negotiation', 'probability' => 60, 'order' => 3],
-        'closed_won' => ['name' => 'Closed Won', 'probability' => 100, 'order' => 4],
-        'closed_lost' => ['name' => 'Closed Lost', 'probability' => 0, 'order' => 5],
+        'qualification' => ['name' => 'Qualification', 'probability' => 10, 'order' => 1, 'color' => 'info'],
+        'proposal' => ['name' => 'Proposal', 'probability' => 30, 'order' => 2, 'color' => 'warning'],
+        'negotiation' => ['name' => 'Negotiation', 'probability' => 60, 'order' => 3, 'color' => 'secondary'],
+        'closed_won' => ['name' => 'Closed Won', 'probability' => 100, 'order' => 4, 'color' => 'success'],
+        'closed_lost' => ['name' => 'Closed Lost', 'probability' => 0, 'order' => 5, 'color' => 'error'],
     ];
 
     public const STAGE_QUALIFICATION = 'qualification';
@@ -54,6 +58,25 @@ class Deal extends Model
     public const STAGE_CLOSED_WON = 'closed_won';
     public const STAGE_CLOSED_LOST = 'closed_lost';
 
+    /**
+     * Boot the model.
+     */
+    protected static function boot()
+    {
+        parent::boot();
+
+        // Keep a stage history however the stage was changed
+        static::created(function ($deal) {
+            DealStageChange::record($deal, null);
+        });
+
+        static::updated(function ($deal) {
+            if ($deal->wasChanged('stage')) {
+                DealStageChange::record($deal, $deal->getOriginal('stage'));
+            }
+        });
+    }
+
     /**
      * Get the company that owns the deal.
      */
@@ -62,6 +85,14 @@ public function company(): BelongsTo
         return $this->belongsTo(Company::class);
     }
 
+    /**
+     * Get the pipeline the deal belongs to.
+     */
+    public function pipeline(): BelongsTo
+    {
+        return $this->belongsTo(DealPipeline::class, 'pipeline_id');
+    }
+
     /**
      * Get the contact associated with the deal.
      */
@@ -86,6 +117,30 @@ public function assignee(): BelongsTo
         return $this->belongsTo(User::class, 'assigned_to');
     }
 
+    /**
+     * Get the stage changes of the deal, oldest first.
+     */
+    public function stageChanges(): HasMany
+    {
+        return $this->hasMany(DealStageChange::class)->orderBy('created_at');
+    }
+
+    /**
+     * Get the contracts created from the deal.
+     */
+    public function contracts(): HasMany
+    {
+        return $this->hasMany(Contract::class);
+    }
+
+    /**
+     * Get the invoices created from the deal.
+     */
+    public function invoices(): HasMany
+    {
+        return $this->hasMany(Invoice::class);
+    }
+
     /**
      * Scope to filter by company.
      */
@@ -103,11 +158,44 @@ public function scopeByStage($query, string $stage)
     }
 
     /**
-     * Scope to get open deals (not closed).
+     * Scope to filter by pipeline.
+     */
+    public function scopeInPipeline($query, string $pipelineId)
+    {
+        return $query->where('pipeline_id', $pipelineId);
+    }
+
+    /**
+     * Scope to get open deals (not in a won or lost stage of their pipeline).
      */
     public function scopeOpen($query)
     {
-        return $query->whereNotIn('stage', [self::STAGE_CLOSED_WON, self::STAGE_CLOSED_LOST]);
+        return $query->where(function ($q) {
+            $q->where(function ($legacy) {
+                $legacy->whereNull('pipeline_id')
+                    ->whereNotIn('stage', [self::STAGE_CLOSED_WON, self::STAGE_CLOSED_LOST]);
+            })->orWhereExists(function ($sub) {
+                $sub->selectRaw('1')
+                    ->from('deal_pipeline_stages')
+                    ->whereColumn('deal_pipeline_stages.pipeline_id', 'deals.pipeline_id')
+                    ->whereColumn('deal_pipeline_stages.key', 'deals.stage')
+                    ->where('deal_pipeline_stages.is_won', false)
+                    ->where('deal_pipeline_stages.is_lost', false);
+            });
+        });
+    }
+
+    /**
+     * Scope to order deals by their position in the pipeline.
+     */
+    public function scopeOrderByStage($query)
+    {
+        return $query->orderBy(
+            DealPipelineStage::select('order')
+                ->whereColumn('deal_pipeline_stages.pipeline_id', 'deals.pipeline_id')
+                ->whereColumn('deal_pipeline_stages.key', 'deals.stage')
+                ->limit(1)
+        );
     }
 
     /**
@@ -125,17 +213,17 @@ public function scopeClosingSoon($query, int $days = 7)
      */
     public function moveToStage(string $newStage): bool
     {
-        $validStages = array_keys(self::STAGES);
+        $definition = $this->stageDefinition($newStage);
 
-        if (!in_array($newStage, $validStages)) {
+        if (!$definition) {
             return false;
         }
 
         $this->stage = $newStage;
-        $this->probability = self::STAGES[$newStage]['probability'];
+        $this->probability = $definition['probability'];
 
         // Set closed_at for closed stages
-        if (in_array($newStage, [self::STAGE_CLOSED_WON, self::STAGE_CLOSED_LOST])) {
+        if ($definition['is_won'] || $definition['is_lost']) {
             $this->closed_at = now();
         } else {
             $this->closed_at = null;
@@ -144,12 +232,71 @@ public function moveToStage(string $newStage): bool
         return $this->save();
     }
 
+    /**
+     * Place the deal at a position within its stage, renumbering the other deals there.
+     */
+    public function moveToPosition(int $position): void
+    {
+        $siblings = self::where('company_id', $this->company_id)
+            ->where('pipeline_id', $this->pipeline_id)
+            ->where('stage', $this->stage)
+            ->where('id', '!=', $this->id)
+            ->orderBy('position')
+            ->orderBy('expected_close_date')
+            ->pluck('id')
+            ->all();
+
+        $position = max(0, min($position, count($siblings)));
+        array_splice($siblings, $position, 0, [$this->id]);
+
+        foreach ($siblings as $index => $dealId) {
+            self::where('id', $dealId)->update(['position' => $index]);
+        }
+
+        $this->position = $position;
+    }
+
+    /**
+     * Get the definition (name, probability, markers) of a stage in the deal's pipeline.
+     * Defaults to the deal's current stage.
+     */
+    public function stageDefinition(?string $stage = null): ?array
+    {
+        $stage ??= $this->stage;
+
+        if ($this->pipeline_id && $this->pipeline) {
+            return $this->pipeline->findStage($stage)?->toApiArray();
+        }
+
+        if (!isset(self::STAGES[$stage])) {
+            return null;
+        }
+
+        return [
+            'key' => $stage,
+            'name' => self::STAGES[$stage]['name'],
+            'color' => self::STAGES[$stage]['color'],
+            'probability' => self::STAGES[$stage]['probability'],
+            'order' => self::STAGES[$stage]['order'],
+            'is_won' => $stage === self::STAGE_CLOSED_WON,
+            'is_lost' => $stage === self::STAGE_CLOSED_LOST,
+        ];
+    }
+
+    /**
+     * Get the display name of the current stage.
+     */
+    public function getStageNameAttribute(): string
+    {
+        return $this->stageDefinition()['name'] ?? $this->stage;
+    }
+
     /**
      * Mark the deal as won.
      */
     public function markAsWon(): bool
     {
-        return $this->moveToStage(self::STAGE_CLOSED_WON);
+        return $this->moveToStage($this->pipeline?->wonStage()?->key ?? self::STAGE_CLOSED_WON);
     }
 
     /**
@@ -161,7 +308,7 @@ public function markAsLost(?string $reason = null): bool
             $this->lost_reason = $reason;
         }
 
-        return $this->moveToStage(self::STAGE_CLOSED_LOST);
+        return $this->moveToStage($this->pipeline?->lostStage()?->key ?? self::STAGE_CLOSED_LOST);
     }
 
     /**
@@ -181,7 +328,7 @@ public function getWeightedValueAttribute(): float
      */
     public function isClosed(): bool
     {
-        return in_array($this->stage, [self::STAGE_CLOSED_WON, self::STAGE_CLOSED_LOST]);
+        return $this->isWon() || $this->isLost();
     }
 
     /**
@@ -189,7 +336,7 @@ public function isClosed(): bool
      */
     public function isWon(): bool
     {
-        return $this->stage === self::STAGE_CLOSED_WON;
+        return (bool) ($this->stageDefinition()['is_won'] ?? false);
     }
 
     /**
@@ -197,7 +344,7 @@ public function isWon(): bool
      */
     public function isLost(): bool
     {
-        return $this->stage === self::STAGE_CLOSED_LOST;
+        return (bool) ($this->stageDefinition()['is_lost'] ?? false);
     }
 }
 
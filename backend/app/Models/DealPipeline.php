@@ -0,0 +1,144 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+class DealPipeline extends Model
+{
+    use HasFactory, HasUuids;
+
+    protected $fillable = [
+        'company_id',
+        'name',
+        'is_default',
+        'order',
+    ];
+
+    protected $casts = [
+        'is_default' => 'boolean',
+        'order' => 'integer',
+    ];
+
+    /**
+     * Get the company that owns the pipeline.
+     */
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    /**
+     * Get the pipeline stages in board order.
+     */
+    public function stages(): HasMany
+    {
+        return $this->hasMany(DealPipelineStage::class, 'pipeline_id')->orderBy('order');
+    }
+
+    /**
+     * Get the deals in this pipeline.
+     */
+    public function deals(): HasMany
+    {
+        return $this->hasMany(Deal::class, 'pipeline_id');
+    }
+
+    /**
+     * Scope to filter by company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    /**
+     * Get the company's default pipeline, creating one with the standard stages if needed.
+     */
+    public static function defaultFor(string $companyId): self
+    {
+        $pipeline = self::forCompany($companyId)
+            ->orderByDesc('is_default')
+            ->orderBy('order')
+            ->first();
+
+        return $pipeline ?? self::createWithDefaultStages($companyId, 'Sales', true);
+    }
+
+    /**
+     * Create a pipeline seeded with the standard stages.
+     */
+    public static function createWithDefaultStages(string $companyId, string $name, bool $isDefault = false): self
+    {
+        $pipeline = self::create([
+            'company_id' => $companyId,
+            'name' => $name,
+            'is_default' => $isDefault,
+            'order' => self::forCompany($companyId)->max('order') + 1,
+        ]);
+
+        foreach (Deal::STAGES as $key => $stage) {
+            $pipeline->stages()->create([
+                'key' => $key,
+                'name' => $stage['name'],
+                'color' => $stage['color'],
+                'probability' => $stage['probability'],
+                'order' => $stage['order'],
+                'is_won' => $key === Deal::STAGE_CLOSED_WON,
+                'is_lost' => $key === Deal::STAGE_CLOSED_LOST,
+            ]);
+        }
+
+        return $pipeline->load('stages');
+    }
+
+    /**
+     * Find a stage by its key.
+     */
+    public function findStage(string $key): ?DealPipelineStage
+    {
+        return $this->stages->firstWhere('key', $key);
+    }
+
+    /**
+     * Get the first open stage, where new deals start.
+     */
+    public function firstOpenStage(): ?DealPipelineStage
+    {
+        return $this->stages->first(fn($stage) => !$stage->isClosed()) ?? $this->stages->first();
+    }
+
+    /**
+     * Get the closed-won stage.
+     */
+    public function wonStage(): ?DealPipelineStage
+    {
+        return $this->stages->firstWhere('is_won', true);
+    }
+
+    /**
+     * Get the closed-lost stage.
+     */
+    public function lostStage(): ?DealPipelineStage
+    {
+        return $this->stages->firstWhere('is_lost', true);
+    }
+
+    /**
+     * Serialize the pipeline with its stages for the API.
+     */
+    public function toApiArray(): array
+    {
+        return [
+            'id' => $this->id,
+            'name' => $this->name,
+            'is_default' => $this->is_default,
+            'order' => $this->order,
+            'stages' => $this->stages->map(fn($stage) => $stage->toApiArray())->values(),
+        ];
+    }
+}
@@ -0,0 +1,69 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class DealPipelineStage extends Model
+{
+    use HasFactory, HasUuids;
+
+    /**
+     * Allowed stage colours (theme colour names used by the board).
+     */
+    public const COLORS = ['primary', 'secondary', 'accent', 'info', 'success', 'warning', 'error', 'neutral'];
+
+    protected $fillable = [
+        'pipeline_id',
+        'key',
+        'name',
+        'color',
+        'probability',
+        'order',
+        'is_won',
+        'is_lost',
+    ];
+
+    protected $casts = [
+        'probability' => 'integer',
+        'order' => 'integer',
+        'is_won' => 'boolean',
+        'is_lost' => 'boolean',
+    ];
+
+    /**
+     * Get the pipeline the stage belongs to.
+     */
+    public function pipeline(): BelongsTo
+    {
+        return $this->belongsTo(DealPipeline::class, 'pipeline_id');
+    }
+
+    /**
+     * Check if the stage closes a deal (won or lost).
+     */
+    public function isClosed(): bool
+    {
+        return $this->is_won || $this->is_lost;
+    }
+
+    /**
+     * Serialize the stage for the API.
+     */
+    public function toApiArray(): array
+    {
+        return [
+            'id' => $this->id,
+            'key' => $this->key,
+            'name' => $this->name,
+            'color' => $this->color,
+            'probability' => $this->probability,
+            'order' => $this->order,
+            'is_won' => $this->is_won,
+            'is_lost' => $this->is_lost,
+        ];
+    }
+}
@@ -0,0 +1,57 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class DealStageChange extends Model
+{
+    use HasFactory, HasUuids;
+
+    public $timestamps = false;
+
+    protected $fillable = [
+        'deal_id',
+        'from_stage',
+        'to_stage',
+        'changed_by',
+        'created_at',
+    ];
+
+    protected $casts = [
+        'created_at' => 'datetime',
+    ];
+
+    /**
+     * Get the deal that owns the change.
+     */
+    public function deal(): BelongsTo
+    {
+        return $this->belongsTo(Deal::class);
+    }
+
+    /**
+     * Get the user who moved the deal.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'changed_by');
+    }
+
+    /**
+     * Record that a deal entered its current stage.
+     */
+    public static function record(Deal $deal, ?string $fromStage): self
+    {
+        return static::create([
+            'deal_id' => $deal->id,
+            'from_stage' => $fromStage,
+            'to_stage' => $deal->stage,
+            'changed_by' => auth()->id(),
+            'created_at' => now(),
+        ]);
+    }
+}
@@ -7,6 +7,7 @@
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
 use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\Relations\HasOne;
 use Illuminate\Database\Eloquent\SoftDeletes;
 use Illuminate\Support\Str;
 
@@ -14,12 +15,19 @@ class Invoice extends Model
 {
     use HasFactory, HasUuids, SoftDeletes;
 
+    /**
+     * Statuses of invoices that no longer bill anything: cancelled, or voided by a credit note.
+     */
+    public const NOT_LIVE_STATUSES = ['cancelled', 'void'];
+
     protected $fillable = [
         'company_id',
         'template_id',
         'contact_id',
         'project_id',
         'contract_id',
+        'deal_id',
+        'schedule_id',
         'invoice_number',
         'title',
         'issue_date',
@@ -28,18 +36,23 @@ class Invoice extends Model
         'subtotal',
         'tax_rate',
         'tax_amount',
+        'tax_breakdown',
         'discount_rate',
         'discount_amount',
         'total',
         'amount_paid',
+        'amount_credited',
         'amount_due',
         'currency',
+        'exchange_rate',
+        'base_currency',
         'payment_terms',
         'notes',
         'pdf_path',
         'pdf_generated_at',
         'sent_at',
         'sent_by',
+        'reminders_paused',
         'token',
         'stripe_payment_intent_id',
     ];
@@ -50,13 +63,17 @@ class Invoice extends Model
         'subtotal' => 'decimal:2',
         'tax_rate' => 'decimal:2',
         'tax_amount' => 'decimal:2',
+        'tax_breakdown' => 'array',
         'discount_rate' => 'decimal:2',
         'discount_amount' => 'decimal:2',
         'total' => 'decimal:2',
         'amount_paid' => 'decimal:2',
+        'amount_credited' => 'decimal:2',
         'amount_due' => 'decimal:2',
+        'exchange_rate' => 'decimal:8',
         'pdf_generated_at' => 'datetime',
         'sent_at' => 'datetime',
+        'reminders_paused' => 'boolean',
         'deleted_at' => 'datetime',
     ];
 
@@ -90,6 +107,30 @@ public function template(): BelongsTo
         return $this->belongsTo(InvoiceTemplate::class, 'template_id');
     }
 
+    /**
+     * Get the deal the invoice was created from.
+     */
+    public function deal(): BelongsTo
+    {
+        return $this->belongsTo(Deal::class);
+    }
+
+    /**
+     * Get the recurring schedule that generated the invoice.
+     */
+    public function schedule(): BelongsTo
+    {
+        return $this->belongsTo(InvoiceSchedule::class, 'schedule_id');
+    }
+
+    /**
+     * Get the recurring schedule that uses the invoice as its template.
+     */
+    public function recurringSchedule(): HasOne
+    {
+        return $this->hasOne(InvoiceSchedule::class, 'template_invoice_id');
+    }
+
     /**
      * Get the contact for the invoice.
      */
@@ -146,12 +187,36 @@ public function events(): HasMany
         return $this->hasMany(InvoiceEvent::class)->orderBy('created_at', 'desc');
     }
 
+    /**
+     * Get the credit notes issued against the invoice.
+     */
+    public function creditNotes(): HasMany
+    {
+        return $this->hasMany(CreditNote::class)->orderBy('created_at');
+    }
+
+    /**
+     * Generate the next invoice number for a company, e.g. INV-2026-0042.
+     */
+    public static function generateNumber(Company $company): string
+    {
+        $prefix = $company->settings['documents']['invoice_number_prefix'] ?? 'INV';
+        $sequence = static::withTrashed()->where('company_id', $company->id)->count() + 1;
+
+        // Numbers are unique across companies, so step past any that are taken
+        do {
+            $number = $prefix . '-' . date('Y') . '-' . str_pad($sequence++, 4, '0', STR_PAD_LEFT);
+        } while (static::withTrashed()->where('invoice_number', $number)->exists());
+
+        return $number;
+    }
+
     /**
      * Check if the invoice is overdue.
      */
     public function isOverdue(): bool
     {
-        return $this->due_date < now() && $this->status !== 'paid' && $this->status !== 'cancelled';
+        return $this->due_date < now() && !in_array($this->status, ['paid', ...self::NOT_LIVE_STATUSES], true);
     }
 
     /**
@@ -163,24 +228,85 @@ public function isPaid(): bool
     }
 
     /**
-     * Calculate totals from line items.
+     * Recompute the credited amount from applied credit notes, then the amount due.
      */
-    public function calculateTotals(): void
+    public function syncCredits(): void
+    {
+        $this->amount_credited = round((float) $this->creditNotes()
+            ->where('status', CreditNote::STATUS_APPLIED)
+            ->sum('amount'), 2);
+
+        $this->syncPayments();
+    }
+
+    /**
+     * Recompute amount paid/due from the payment ledger and move the status
+     * between sent, partially_paid and paid accordingly. An invoice settled
+     * by credit notes alone is void.
+     */
+    public function syncPayments(): void
     {
-        $this->subtotal = $this->lineItems->sum('amount');
-        
-        // Calculate tax
-        if ($this->tax_rate > 0) {
-            $this->tax_amount = ($this->subtotal * $this->tax_rate) / 100;
+        $paid = $this->payments()
+            ->payments()
+            ->whereIn('status', ['succeeded', 'refunded'])
+            ->get()
+            ->sum(fn(Payment $payment) => $payment->netAmount());
+
+        $this->amount_paid = round($paid, 2);
+        $this->amount_due = round($this->total - $paid - $this->amount_credited, 2);
+
+        if ($this->status !== 'cancelled') {
+            if ($paid > 0 && $this->amount_due <= 0) {
+                $this->status = 'paid';
+            } elseif ($this->amount_credited > 0 && $this->amount_due <= 0) {
+                $this->status = 'void';
+            } elseif ($paid > 0) {
+                $this->status = 'partially_paid';
+            } elseif (in_array($this->status, ['paid', 'partially_paid', 'void'], true)) {
+                $this->status = $this->due_date?->lt(today()) ? 'overdue' : 'sent';
+            }
         }
-        
-        // Calculate discount
-        if ($this->discount_rate > 0) {
-            $this->discount_amount = ($this->subtotal * $this->discount_rate) / 100;
+
+        $this->save();
+    }
+
+    /**
+     * Calculate totals and the per-rate tax breakdown from line items.
+     * Lines without their own taxes fall back to the invoice-wide tax rate.
+     */
+    public function calculateTotals(): void
+    {
+        $items = $this->lineItems()->orderBy('order')->get();
+        $this->setRelation('lineItems', $items);
+
+        $fallback = $this->tax_rate > 0
+            ? [['name' => $this->template?->default_tax_label ?: 'Tax', 'rate' => (float) $this->tax_rate, 'is_compound' => false]]
+            : [];
+
+        $breakdown = [];
+        foreach ($items as $item) {
+            foreach ($item->taxLines(empty($item->taxes) ? $fallback : null) as $tax) {
+                $key = $tax['name'] . '|' . $tax['rate'] . '|' . (int) $tax['is_compound'];
+
+                $breakdown[$key] ??= [...$tax, 'taxable' => 0.0, 'amount' => 0.0];
+                $breakdown[$key]['taxable'] += $tax['taxable'];
+                $breakdown[$key]['amount'] += $tax['amount'];
+            }
         }
-        
-        // Calculate total
+
+        $this->tax_breakdown = array_values(array_map(fn($tax) => [
+            ...$tax,
+            'taxable' => round($tax['taxable'], 2),
+            'amount' => round($tax['amount'], 2),
+        ], $breakdown));
+
+        $this->subtotal = $items->sum('amount');
+        $this->tax_amount = array_sum(array_column($this->tax_breakdown, 'amount'));
+
+        // Document discount on the subtotal, as before line-level discounts existed
+        $this->discount_amount = round($this->subtotal * ($this->discount_rate ?? 0) / 100, 2);
+
         $this->total = $this->subtotal + $this->tax_amount - $this->discount_amount;
-        $this->amount_due = $this->total - $this->amount_paid;
+        $this->amount_due = $this->total - $this->amount_paid - $this->amount_credited;
     }
 }
@@ -2,6 +2,7 @@
 
 namespace App\Models;
 
+use App\Models\Concerns\CalculatesLineAmounts;
 use Illuminate\Database\Eloquent\Concerns\HasUuids;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
@@ -9,14 +10,18 @@
 
 class InvoiceLineItem extends Model
 {
-    use HasFactory, HasUuids;
+    use CalculatesLineAmounts, HasFactory, HasUuids;
 
     protected $fillable = [
         'invoice_id',
         'description',
         'quantity',
         'unit_price',
+        'discount_rate',
+        'discount_amount',
         'amount',
+        'taxes',
+        'tax_amount',
         'task_id',
         'order',
     ];
@@ -24,23 +29,14 @@ class InvoiceLineItem extends Model
     protected $casts = [
         'quantity' => 'decimal:2',
         'unit_price' => 'decimal:2',
+        'discount_rate' => 'decimal:2',
+        'discount_amount' => 'decimal:2',
         'amount' => 'decimal:2',
+        'taxes' => 'array',
+        'tax_amount' => 'decimal:2',
         'order' => 'integer',
     ];
 
-    /**
-     * Boot the model.
-     */
-    protected static function boot()
-    {
-        parent::boot();
-
-        static::saving(function ($lineItem) {
-            // Auto-calculate amount
-            $lineItem->amount = $lineItem->quantity * $lineItem->unit_price;
-        });
-    }
-
     /**
      * Get the invoice that owns the line item.
      */
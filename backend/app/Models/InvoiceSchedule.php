@@ -0,0 +1,177 @@
+<?php
+
+namespace App\Models;
+
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+class InvoiceSchedule extends Model
+{
+    use HasFactory, HasUuids;
+
+    public const FREQUENCIES = ['weekly', 'monthly', 'quarterly', 'yearly'];
+
+    public const STATUS_ACTIVE = 'active';
+    public const STATUS_PAUSED = 'paused';
+    public const STATUS_COMPLETED = 'completed';
+    public const STATUS_CANCELLED = 'cancelled';
+
+    protected $fillable = [
+        'company_id',
+        'template_invoice_id',
+        'contract_id',
+        'frequency',
+        'start_date',
+        'end_date',
+        'max_occurrences',
+        'status',
+        'next_sequence',
+        'auto_send',
+        'created_by',
+    ];
+
+    protected $casts = [
+        'start_date' => 'date',
+        'end_date' => 'date',
+        'max_occurrences' => 'integer',
+        'next_sequence' => 'integer',
+        'auto_send' => 'boolean',
+    ];
+
+    /**
+     * Get the company that owns the schedule.
+     */
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    /**
+     * Get the invoice copied for every occurrence.
+     */
+    public function templateInvoice(): BelongsTo
+    {
+        return $this->belongsTo(Invoice::class, 'template_invoice_id');
+    }
+
+    /**
+     * Get the subscription contract the schedule was derived from.
+     */
+    public function contract(): BelongsTo
+    {
+        return $this->belongsTo(Contract::class);
+    }
+
+    /**
+     * Get the stored (generated, skipped or paused) occurrences.
+     */
+    public function occurrences(): HasMany
+    {
+        return $this->hasMany(InvoiceScheduleOccurrence::class, 'schedule_id')->orderBy('sequence');
+    }
+
+    /**
+     * Get the invoices generated by the schedule.
+     */
+    public function invoices(): HasMany
+    {
+        return $this->hasMany(Invoice::class, 'schedule_id');
+    }
+
+    /**
+     * Scope to filter by company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    /**
+     * Issue date of the nth occurrence (the template invoice is occurrence 1).
+     * Always computed from the start date so month ends don't drift.
+     */
+    public function dateForSequence(int $sequence): Carbon
+    {
+        $steps = $sequence - 1;
+        $date = $this->start_date->copy();
+
+        return match ($this->frequency) {
+            'weekly' => $date->addWeeks($steps),
+            'quarterly' => $date->addMonthsNoOverflow($steps * 3),
+            'yearly' => $date->addYearsNoOverflow($steps),
+            default => $date->addMonthsNoOverflow($steps),
+        };
+    }
+
+    /**
+     * Check if the nth occurrence falls within the end date and maximum count.
+     */
+    public function hasSequence(int $sequence): bool
+    {
+        if ($this->max_occurrences && $sequence > $this->max_occurrences) {
+            return false;
+        }
+
+        return !$this->end_date || $this->dateForSequence($sequence)->lte($this->end_date);
+    }
+
+    /**
+     * Upcoming occurrences (not generated yet), including paused ones that were held back.
+     */
+    public function upcoming(int $limit = 3): array
+    {
+        $stored = $this->occurrences->keyBy('sequence');
+        $upcoming = [];
+
+        // Held-back occurrences from the past stay visible until resumed or skipped
+        foreach ($stored as $occurrence) {
+            if ($occurrence->status === InvoiceScheduleOccurrence::STATUS_PAUSED && $occurrence->sequence < $this->next_sequence) {
+                $upcoming[] = $this->occurrenceArray($occurrence->sequence, $occurrence->status);
+            }
+        }
+
+        if (in_array($this->status, [self::STATUS_COMPLETED, self::STATUS_CANCELLED], true)) {
+            return $upcoming;
+        }
+
+        for ($sequence = $this->next_sequence, $count = 0; $count < $limit && $this->hasSequence($sequence); $sequence++, $count++) {
+            $upcoming[] = $this->occurrenceArray($sequence, $stored->get($sequence)?->status ?? InvoiceScheduleOccurrence::STATUS_PENDING);
+        }
+
+        return $upcoming;
+    }
+
+    /**
+     * Number of occurrences in the schedule, null when open-ended.
+     */
+    public function totalOccurrences(): ?int
+    {
+        if (!$this->max_occurrences && !$this->end_date) {
+            return null;
+        }
+
+        $total = 1;
+        while ($this->hasSequence($total + 1) && (!$this->max_occurrences || $total < $this->max_occurrences)) {
+            $total++;
+        }
+
+        return $total;
+    }
+
+    /**
+     * API representation of an occurrence that has not been generated.
+     */
+    protected function occurrenceArray(int $sequence, string $status): array
+    {
+        return [
+            'schedule_id' => $this->id,
+            'sequence' => $sequence,
+            'scheduled_date' => $this->dateForSequence($sequence)->toDateString(),
+            'status' => $status,
+        ];
+    }
+}
@@ -0,0 +1,48 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class InvoiceScheduleOccurrence extends Model
+{
+    use HasFactory, HasUuids;
+
+    // Pending occurrences are not stored; the status only appears in API output
+    public const STATUS_PENDING = 'pending';
+    public const STATUS_GENERATED = 'generated';
+    public const STATUS_SKIPPED = 'skipped';
+    public const STATUS_PAUSED = 'paused';
+
+    protected $fillable = [
+        'schedule_id',
+        'sequence',
+        'scheduled_date',
+        'status',
+        'invoice_id',
+    ];
+
+    protected $casts = [
+        'sequence' => 'integer',
+        'scheduled_date' => 'date',
+    ];
+
+    /**
+     * Get the schedule that owns the occurrence.
+     */
+    public function schedule(): BelongsTo
+    {
+        return $this->belongsTo(InvoiceSchedule::class, 'schedule_id');
+    }
+
+    /**
+     * Get the generated invoice.
+     */
+    public function invoice(): BelongsTo
+    {
+        return $this->belongsTo(Invoice::class);
+    }
+}
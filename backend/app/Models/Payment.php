@@ -6,14 +6,25 @@
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
 
 class Payment extends Model
 {
     use HasFactory, HasUuids;
 
+    public const TYPE_PAYMENT = 'payment';
+    public const TYPE_REFUND = 'refund';
+
+    /**
+     * Methods that can be recorded by hand; stripe payments arrive through webhooks.
+     */
+    public const MANUAL_METHODS = ['bank_transfer', 'cheque', 'cash', 'card', 'other'];
+
     protected $fillable = [
         'company_id',
         'invoice_id',
+        'type',
+        'refunded_payment_id',
         'amount',
         'currency',
         'payment_method',
@@ -24,7 +35,9 @@ class Payment extends Model
         'stripe_payment_method_id',
         'receipt_url',
         'receipt_number',
+        'reference',
         'notes',
+        'recorded_by',
         'processed_at',
         'failed_reason',
         'refunded_at',
@@ -54,6 +67,62 @@ public function invoice(): BelongsTo
         return $this->belongsTo(Invoice::class);
     }
 
+    /**
+     * Get the payment a refund entry belongs to.
+     */
+    public function refundedPayment(): BelongsTo
+    {
+        return $this->belongsTo(Payment::class, 'refunded_payment_id');
+    }
+
+    /**
+     * Get the refund entries recorded against the payment.
+     */
+    public function refunds(): HasMany
+    {
+        return $this->hasMany(Payment::class, 'refunded_payment_id');
+    }
+
+    /**
+     * Get the user who recorded a manual payment or refund.
+     */
+    public function recorder(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'recorded_by');
+    }
+
+    /**
+     * Scope to payments (not refund entries).
+     */
+    public function scopePayments($query)
+    {
+        return $query->where('type', self::TYPE_PAYMENT);
+    }
+
+    /**
+     * Check if the entry is a refund.
+     */
+    public function isRefund(): bool
+    {
+        return $this->type === self::TYPE_REFUND;
+    }
+
+    /**
+     * Check if the payment was recorded by hand rather than through Stripe.
+     */
+    public function isManual(): bool
+    {
+        return $this->payment_method !== 'stripe';
+    }
+
+    /**
+     * Amount still kept after refunds.
+     */
+    public function netAmount(): float
+    {
+        return (float) $this->amount - (float) ($this->refund_amount ?? 0);
+    }
+
     /**
      * Check if the payment is successful.
      */
@@ -27,6 +27,7 @@ class Project extends Model
         'start_date',
         'due_date',
         'budget',
+        'hourly_rate',
         'tags',
         'ai_enabled',
         'ai_settings',
@@ -44,6 +45,7 @@ protected function casts(): array
             'start_date' => 'date',
             'due_date' => 'date',
             'budget' => 'decimal:2',
+            'hourly_rate' => 'decimal:2',
             'deleted_at' => 'datetime',
         ];
     }
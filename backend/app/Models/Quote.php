@@ -0,0 +1,227 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\SoftDeletes;
+use Illuminate\Support\Str;
+
+class Quote extends Model
+{
+    use HasFactory, HasUuids, SoftDeletes;
+
+    public const STATUS_DRAFT = 'draft';
+    public const STATUS_SENT = 'sent';
+    public const STATUS_VIEWED = 'viewed';
+    public const STATUS_ACCEPTED = 'accepted';
+    public const STATUS_DECLINED = 'declined';
+    public const STATUS_EXPIRED = 'expired';
+    public const STATUS_CONVERTED = 'converted';
+
+    /**
+     * Statuses in which the client can still accept or decline.
+     */
+    public const OPEN_STATUSES = [self::STATUS_SENT, self::STATUS_VIEWED];
+
+    protected $fillable = [
+        'company_id',
+        'contact_id',
+        'project_id',
+        'deal_id',
+        'quote_number',
+        'title',
+        'status',
+        'issue_date',
+        'valid_until',
+        'subtotal',
+        'tax_amount',
+        'tax_breakdown',
+        'discount_rate',
+        'discount_amount',
+        'total',
+        'currency',
+        'terms',
+        'notes',
+        'token',
+        'sent_at',
+        'sent_by',
+        'accepted_at',
+        'accepted_by',
+        'declined_at',
+        'decline_reason',
+        'client_ip_address',
+        'contract_id',
+        'invoice_id',
+        'converted_at',
+        'created_by',
+    ];
+
+    protected $casts = [
+        'issue_date' => 'date',
+        'valid_until' => 'date',
+        'subtotal' => 'decimal:2',
+        'tax_amount' => 'decimal:2',
+        'tax_breakdown' => 'array',
+        'discount_rate' => 'decimal:2',
+        'discount_amount' => 'decimal:2',
+        'total' => 'decimal:2',
+        'sent_at' => 'datetime',
+        'accepted_at' => 'datetime',
+        'declined_at' => 'datetime',
+        'converted_at' => 'datetime',
+        'deleted_at' => 'datetime',
+    ];
+
+    /**
+     * Boot the model.
+     */
+    protected static function boot()
+    {
+        parent::boot();
+
+        static::creating(function ($quote) {
+            if (empty($quote->token)) {
+                $quote->token = Str::random(64);
+            }
+        });
+    }
+
+    /**
+     * Get the company that owns the quote.
+     */
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    /**
+     * Get the contact the quote is for.
+     */
+    public function contact(): BelongsTo
+    {
+        return $this->belongsTo(Contact::class);
+    }
+
+    /**
+     * Get the project for the quote.
+     */
+    public function project(): BelongsTo
+    {
+        return $this->belongsTo(Project::class);
+    }
+
+    /**
+     * Get the deal the quote was created for.
+     */
+    public function deal(): BelongsTo
+    {
+        return $this->belongsTo(Deal::class);
+    }
+
+    /**
+     * Get the contract the quote was converted into.
+     */
+    public function contract(): BelongsTo
+    {
+        return $this->belongsTo(Contract::class);
+    }
+
+    /**
+     * Get the invoice the quote was converted into.
+     */
+    public function invoice(): BelongsTo
+    {
+        return $this->belongsTo(Invoice::class);
+    }
+
+    /**
+     * Get the user who created the quote.
+     */
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    /**
+     * Get the line items for the quote.
+     */
+    public function lineItems(): HasMany
+    {
+        return $this->hasMany(QuoteLineItem::class)->orderBy('order');
+    }
+
+    /**
+     * Get the events for the quote.
+     */
+    public function events(): HasMany
+    {
+        return $this->hasMany(QuoteEvent::class)->orderBy('created_at', 'desc');
+    }
+
+    /**
+     * Scope to filter by company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    /**
+     * Generate the next quote number for a company, e.g. QUO-2026-0003.
+     */
+    public static function generateNumber(Company $company): string
+    {
+        $prefix = $company->settings['documents']['quote_number_prefix'] ?? 'QUO';
+        $sequence = static::withTrashed()->where('company_id', $company->id)->count() + 1;
+
+        // Numbers are unique across companies, so step past any that are taken
+        do {
+            $number = $prefix . '-' . date('Y') . '-' . str_pad($sequence++, 4, '0', STR_PAD_LEFT);
+        } while (static::withTrashed()->where('quote_number', $number)->exists());
+
+        return $number;
+    }
+
+    /**
+     * Check if the quote is past its validity date.
+     */
+    public function isExpired(): bool
+    {
+        return $this->valid_until !== null && $this->valid_until->lt(today());
+    }
+
+    /**
+     * Calculate totals and the per-rate tax breakdown from line items.
+     */
+    public function calculateTotals(): void
+    {
+        $items = $this->lineItems()->orderBy('order')->get();
+        $this->setRelation('lineItems', $items);
+
+        $breakdown = [];
+        foreach ($items as $item) {
+            foreach ($item->taxLines() as $tax) {
+                $key = $tax['name'] . '|' . $tax['rate'] . '|' . (int) $tax['is_compound'];
+
+                $breakdown[$key] ??= [...$tax, 'taxable' => 0.0, 'amount' => 0.0];
+                $breakdown[$key]['taxable'] += $tax['taxable'];
+                $breakdown[$key]['amount'] += $tax['amount'];
+            }
+        }
+
+        $this->tax_breakdown = array_values(array_map(fn($tax) => [
+            ...$tax,
+            'taxable' => round($tax['taxable'], 2),
+            'amount' => round($tax['amount'], 2),
+        ], $breakdown));
+
+        $this->subtotal = $items->sum('amount');
+        $this->tax_amount = array_sum(array_column($this->tax_breakdown, 'amount'));
+        $this->discount_amount = round($this->subtotal * ($this->discount_rate ?? 0) / 100, 2);
+        $this->total = $this->subtotal + $this->tax_amount - $this->discount_amount;
+    }
+}
@@ -0,0 +1,46 @@
+<?php
+
+namespace App\Models;
+
+use App\Models\Concerns\CalculatesLineAmounts;
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class QuoteLineItem extends Model
+{
+    use CalculatesLineAmounts, HasFactory, HasUuids;
+
+    protected $fillable = [
+        'quote_id',
+        'description',
+        'quantity',
+        'unit_price',
+        'discount_rate',
+        'discount_amount',
+        'amount',
+        'taxes',
+        'tax_amount',
+        'order',
+    ];
+
+    protected $casts = [
+        'quantity' => 'decimal:2',
+        'unit_price' => 'decimal:2',
+        'discount_rate' => 'decimal:2',
+        'discount_amount' => 'decimal:2',
+        'amount' => 'decimal:2',
+        'taxes' => 'array',
+        'tax_amount' => 'decimal:2',
+        'order' => 'integer',
+    ];
+
+    /**
+     * Get the quote that owns the line item.
+     */
+    public function quote(): BelongsTo
+    {
+        return $this->belongsTo(Quote::class);
+    }
+}
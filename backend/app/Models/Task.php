@@ -28,6 +28,8 @@ class Task extends Model
         'completed',
         'completed_at',
         'completed_by',
+        'hours',
+        'hourly_rate',
         'order',
         'tags',
         'is_locked',
@@ -43,6 +45,8 @@ protected function casts(): array
             'tags' => 'array',
             'completed' => 'boolean',
             'completed_at' => 'datetime',
+            'hours' => 'decimal:2',
+            'hourly_rate' => 'decimal:2',
             'due_date' => 'datetime',
             'is_locked' => 'boolean',
             'locked_at' => 'datetime',
@@ -172,6 +176,70 @@ public function activityLogs()
         return $this->morphMany(TaskActivityLog::class, 'loggable');
     }
 
+    /**
+     * Get the invoice line items that bill this task.
+     */
+    public function invoiceLineItems(): HasMany
+    {
+        return $this->hasMany(InvoiceLineItem::class);
+    }
+
+    /**
+     * Get the time tracked on the task.
+     */
+    public function timeEntries(): HasMany
+    {
+        return $this->hasMany(TimeEntry::class);
+    }
+
+    /**
+     * Set billable hours from finished billable time entries.
+     * Tasks without any tracked time keep their manually entered hours.
+     */
+    public function syncTrackedHours(): void
+    {
+        if (!$this->timeEntries()->exists()) {
+            return;
+        }
+
+        $seconds = $this->timeEntries()
+            ->whereNotNull('ended_at')
+            ->whereRaw('is_billable = true')
+            ->sum('duration_seconds');
+
+        $this->forceFill(['hours' => round($seconds / 3600, 2)])->saveQuietly();
+    }
+
+    /**
+     * Scope to tasks billed on an invoice that is still live (not deleted, cancelled or void).
+     */
+    public function scopeInvoiced($query)
+    {
+        return $query->whereHas('invoiceLineItems.invoice', function ($q) {
+            $q->whereNotIn('status', Invoice::NOT_LIVE_STATUSES);
+        });
+    }
+
+    /**
+     * Scope to tasks that have not been billed yet.
+     */
+    public function scopeUninvoiced($query)
+    {
+        return $query->whereDoesntHave('invoiceLineItems.invoice', function ($q) {
+            $q->whereNotIn('status', Invoice::NOT_LIVE_STATUSES);
+        });
+    }
+
+    /**
+     * Hourly rate to bill the task at: its own rate, else the project's.
+     */
+    public function billingRate(): ?float
+    {
+        $rate = $this->hourly_rate ?? $this->project?->hourly_rate;
+
+        return $rate !== null ? (float) $rate : null;
+    }
+
     /**
      * Scope to filter by company.
      */
@@ -0,0 +1,69 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class TaxRate extends Model
+{
+    use HasFactory, HasUuids;
+
+    protected $fillable = [
+        'company_id',
+        'name',
+        'rate',
+        'is_compound',
+        'is_default',
+        'order',
+    ];
+
+    protected $casts = [
+        'rate' => 'decimal:3',
+        'is_compound' => 'boolean',
+        'is_default' => 'boolean',
+        'order' => 'integer',
+    ];
+
+    /**
+     * Get the company that owns the tax rate.
+     */
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    /**
+     * Scope to filter by company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    /**
+     * Snapshot the given company tax rates for storing on a line item.
+     * Simple taxes come first so compound taxes are charged on top of them.
+     */
+    public static function snapshot(string $companyId, array $ids): array
+    {
+        if (empty($ids)) {
+            return [];
+        }
+
+        return self::forCompany($companyId)
+            ->whereIn('id', $ids)
+            ->orderBy('is_compound')
+            ->orderBy('order')
+            ->get()
+            ->map(fn(TaxRate $tax) => [
+                'tax_rate_id' => $tax->id,
+                'name' => $tax->name,
+                'rate' => (float) $tax->rate,
+                'is_compound' => $tax->is_compound,
+            ])
+            ->all();
+    }
+}
@@ -0,0 +1,162 @@
+<?php
+
+namespace App\Models;
+
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class TimeEntry extends Model
+{
+    use HasFactory, HasUuids;
+
+    protected $fillable = [
+        'company_id',
+        'user_id',
+        'task_id',
+        'project_id',
+        'started_at',
+        'ended_at',
+        'duration_seconds',
+        'notes',
+        'is_billable',
+    ];
+
+    protected $casts = [
+        'started_at' => 'datetime',
+        'ended_at' => 'datetime',
+        'duration_seconds' => 'integer',
+        'is_billable' => 'boolean',
+    ];
+
+    /**
+     * Keep the task's billable hours in step with its entries.
+     */
+    protected static function booted(): void
+    {
+        static::saved(fn (TimeEntry $entry) => $entry->task?->syncTrackedHours());
+        static::deleted(fn (TimeEntry $entry) => $entry->task?->syncTrackedHours());
+    }
+
+    /**
+     * Get the user who tracked the time.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Get the task the time was spent on.
+     */
+    public function task(): BelongsTo
+    {
+        return $this->belongsTo(Task::class);
+    }
+
+    /**
+     * Get the project the task belongs to.
+     */
+    public function project(): BelongsTo
+    {
+        return $this->belongsTo(Project::class);
+    }
+
+    /**
+     * Scope to filter by company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    /**
+     * Scope to timers that are still running.
+     */
+    public function scopeRunning($query)
+    {
+        return $query->whereNull('ended_at');
+    }
+
+    /**
+     * Scope to entries started within the given week.
+     */
+    public function scopeForWeek($query, Carbon $weekStart)
+    {
+        return $query->where('started_at', '>=', $weekStart->copy()->startOfDay())
+            ->where('started_at', '<', $weekStart->copy()->addWeek()->startOfDay());
+    }
+
+    /**
+     * Whether the timer is still running.
+     */
+    public function isRunning(): bool
+    {
+        return $this->ended_at === null;
+    }
+
+    /**
+     * Stop a running timer and record its duration.
+     */
+    public function stop(?Carbon $at = null): void
+    {
+        $endedAt = $at ?? now();
+
+        $this->update([
+            'ended_at' => $endedAt,
+            'duration_seconds' => max(0, $endedAt->getTimestamp() - $this->started_at->getTimestamp()),
+        ]);
+    }
+
+    /**
+     * Tracked seconds, counting up to now for running timers.
+     */
+    public function elapsedSeconds(): int
+    {
+        return $this->isRunning()
+            ? max(0, now()->getTimestamp() - $this->started_at->getTimestamp())
+            : $this->duration_seconds;
+    }
+
+    /**
+     * Timesheet covering the entry, if one was opened for its week.
+     */
+    public function timesheet(): ?Timesheet
+    {
+        return Timesheet::where('company_id', $this->company_id)
+            ->where('user_id', $this->user_id)
+            ->whereDate('week_start', Timesheet::weekStartFor($this->started_at)->toDateString())
+            ->first();
+    }
+
+    /**
+     * Serialize the entry with its task, project and user for the API.
+     */
+    public function toApiArray(): array
+    {
+        return [
+            'id' => $this->id,
+            'task' => $this->task ? [
+                'id' => $this->task->id,
+                'title' => $this->task->title,
+            ] : null,
+            'project' => $this->project ? [
+                'id' => $this->project->id,
+                'name' => $this->project->name,
+            ] : null,
+            'user' => $this->user ? [
+                'id' => $this->user->id,
+                'name' => $this->user->first_name . ' ' . ($this->user->last_name ?? ''),
+                'avatar' => $this->user->avatar_url,
+            ] : null,
+            'started_at' => $this->started_at,
+            'ended_at' => $this->ended_at,
+            'duration_seconds' => $this->elapsedSeconds(),
+            'is_running' => $this->isRunning(),
+            'notes' => $this->notes,
+            'is_billable' => $this->is_billable,
+        ];
+    }
+}
@@ -0,0 +1,125 @@
+<?php
+
+namespace App\Models;
+
+use Carbon\Carbon;
+use Carbon\CarbonInterface;
+use Illuminate\Database\Eloquent\Concerns\HasUuids;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class Timesheet extends Model
+{
+    use HasFactory, HasUuids;
+
+    public const STATUS_OPEN = 'open';
+    public const STATUS_SUBMITTED = 'submitted';
+    public const STATUS_APPROVED = 'approved';
+    public const STATUS_REJECTED = 'rejected';
+
+    protected $fillable = [
+        'company_id',
+        'user_id',
+        'week_start',
+        'status',
+        'submitted_at',
+        'reviewed_by',
+        'reviewed_at',
+        'review_note',
+    ];
+
+    protected $casts = [
+        'week_start' => 'date',
+        'submitted_at' => 'datetime',
+        'reviewed_at' => 'datetime',
+    ];
+
+    /**
+     * Get the user whose time the timesheet covers.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Get the manager who approved or rejected the timesheet.
+     */
+    public function reviewer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'reviewed_by');
+    }
+
+    /**
+     * Scope to filter by company.
+     */
+    public function scopeForCompany($query, string $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    /**
+     * Monday of the week containing the given date.
+     */
+    public static function weekStartFor(CarbonInterface|string $date): Carbon
+    {
+        return Carbon::parse($date)->startOfWeek(CarbonInterface::MONDAY)->startOfDay();
+    }
+
+    /**
+     * Get the user's timesheet for a week, unsaved if it was never opened.
+     */
+    public static function forWeek(string $companyId, string $userId, Carbon $weekStart): self
+    {
+        return static::firstOrNew([
+            'company_id' => $companyId,
+            'user_id' => $userId,
+            'week_start' => $weekStart->toDateString(),
+        ], [
+            'status' => self::STATUS_OPEN,
+        ]);
+    }
+
+    /**
+     * Submitted and approved timesheets can no longer be edited.
+     */
+    public function isLocked(): bool
+    {
+        return in_array($this->status, [self::STATUS_SUBMITTED, self::STATUS_APPROVED], true);
+    }
+
+    /**
+     * Get the time entries tracked during the week.
+     */
+    public function entries()
+    {
+        return TimeEntry::forCompany($this->company_id)
+            ->where('user_id', $this->user_id)
+            ->forWeek($this->week_start);
+    }
+
+    /**
+     * Serialize the timesheet's approval state for the API.
+     */
+    public function toApiArray(): array
+    {
+        return [
+            'id' => $this->exists ? $this->id : null,
+            'user' => $this->user ? [
+                'id' => $this->user->id,
+                'name' => $this->user->first_name . ' ' . ($this->user->last_name ?? ''),
+                'avatar' => $this->user->avatar_url,
+            ] : null,
+            'week_start' => $this->week_start->toDateString(),
+            'status' => $this->status,
+            'submitted_at' => $this->submitted_at,
+            'reviewed_at' => $this->reviewed_at,
+            'reviewer' => $this->reviewer ? [
+                'id' => $this->reviewer->id,
+                'name' => $this->reviewer->first_name . ' ' . ($this->reviewer->last_name ?? ''),
+            ] : null,
+            'review_note' => $this->review_note,
+        ];
+    }
+}
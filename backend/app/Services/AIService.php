@@ -1004,6 +1004,7 @@ protected function buildDashboardPrompt(array $context): string
    - Look for tasks due soon that need attention
    - If tasks.total is 0, suggest creating tasks
 4. Contacts can be suggested anytime after company exists
+5. If contracts.expiring_30_days > 0 → Warn about contracts ending soon, especially those in their notice period (navigate to /documents/contracts?view=renewals)
 
 Respond with JSON only.
 PROMPT;
@@ -1114,6 +1115,23 @@ protected function getFallbackSuggestions(array $context): array
             ];
         }
 
+        // Contracts ending soon need a decision whatever else is set up
+        $expiringContracts = $context['contracts']['expiring_30_days'] ?? 0;
+        if ($expiringContracts > 0) {
+            $inNotice = $context['contracts']['in_notice_period'] ?? 0;
+            $suggestions[] = [
+                'id' => 'sug_contracts_expiring',
+                'type' => 'warning',
+                'title' => "{$expiringContracts} Contract" . ($expiringContracts > 1 ? 's' : '') . ' Ending Soon',
+                'description' => "{$expiringContracts} signed contract" . ($expiringContracts > 1 ? 's end' : ' ends') . ' in the next 30 days'
+                    . ($inNotice > 0 ? ", {$inNotice} already in " . ($inNotice > 1 ? 'their' : 'its') . ' notice period.' : '.'),
+                'priority' => $inNotice > 0 ? 'high' : 'medium',
+                'actions' => [
+                    ['type' => 'navigate', 'label' => 'Review Renewals', 'path' => '/documents/contracts?view=renewals'],
+                ],
+            ];
+        }
+
         // Level 2: Has Company but no Projects - suggest project creation
         if ($totalProjects === 0) {
             $suggestions[] = [
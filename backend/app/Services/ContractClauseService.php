@@ -0,0 +1,247 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\ContractClause;
+use App\Models\ContractClauseVersion;
+use App\Models\ContractTemplate;
+use App\Models\User;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * Contract Clause Service
+ *
+ * A company's library of reusable clauses. Every change to a clause's text
+ * saves a numbered version. Template sections point at a clause through
+ * their "clause" key ({id, name, version, linked}): linked sections are
+ * rewritten whenever the clause changes, while detached sections keep the
+ * snapshot they were inserted with and are flagged once the library moves on.
+ */
+class ContractClauseService
+{
+    /**
+     * Create a clause as version 1.
+     */
+    public function create(string $companyId, array $data, User $user): ContractClause
+    {
+        return DB::transaction(function () use ($companyId, $data, $user) {
+            $clause = ContractClause::create([
+                'company_id' => $companyId,
+                'name' => $data['name'],
+                'description' => $data['description'] ?? null,
+                'tags' => $this->normalizeTags($data['tags'] ?? []),
+                'html' => $data['html'],
+                'version' => 1,
+                'created_by' => $user->id,
+            ]);
+
+            $this->recordVersion($clause, $user, $data['change_summary'] ?? null);
+
+            return $clause;
+        });
+    }
+
+    /**
+     * Update a clause. Changing its text saves a new version and brings
+     * every linked template section up to date.
+     */
+    public function update(ContractClause $clause, array $data, User $user): ContractClause
+    {
+        return DB::transaction(function () use ($clause, $data, $user) {
+            $textChanged = array_key_exists('html', $data) && $data['html'] !== $clause->html;
+            $nameChanged = array_key_exists('name', $data) && $data['name'] !== $clause->name;
+
+            $clause->fill([
+                ...array_intersect_key($data, array_flip(['name', 'description', 'html'])),
+                ...(array_key_exists('tags', $data) ? ['tags' => $this->normalizeTags($data['tags'] ?? [])] : []),
+            ]);
+
+            if ($textChanged) {
+                $clause->version = $clause->version + 1;
+            }
+
+            $clause->save();
+
+            if ($textChanged) {
+                $this->recordVersion($clause, $user, $data['change_summary'] ?? null);
+            }
+
+            if ($textChanged || $nameChanged) {
+                $this->syncLinkedSections($clause);
+            }
+
+            return $clause;
+        });
+    }
+
+    /**
+     * Delete a clause. Sections that were linked to it keep their current
+     * text as a detached copy.
+     */
+    public function delete(ContractClause $clause): void
+    {
+        DB::transaction(function () use ($clause) {
+            $this->templatesUsing($clause)->each(function (ContractTemplate $template) use ($clause) {
+                $template->update([
+                    'sections' => $this->mapClauseSections($template->sections ?? [], $clause->id, function (array $section) {
+                        $section['clause']['linked'] = false;
+                        return $section;
+                    }),
+                ]);
+            });
+
+            $clause->delete();
+        });
+    }
+
+    /**
+     * Number of template sections per clause.
+     *
+     * @return array<string, int>
+     */
+    public function usageCounts(string $companyId): array
+    {
+        $counts = [];
+
+        ContractTemplate::where('company_id', $companyId)->get(['id', 'sections'])
+            ->each(function (ContractTemplate $template) use (&$counts) {
+                foreach ($template->sections ?? [] as $section) {
+                    $clauseId = $section['clause']['id'] ?? null;
+                    if ($clauseId) {
+                        $counts[$clauseId] = ($counts[$clauseId] ?? 0) + 1;
+                    }
+                }
+            });
+
+        return $counts;
+    }
+
+    /**
+     * Add an outdated_clauses count to each template: sections using an
+     * older version of a clause than the library has.
+     */
+    public function flagOutdated(Collection $templates, string $companyId): Collection
+    {
+        $versions = ContractClause::forCompany($companyId)->pluck('version', 'id');
+
+        return $templates->each(function (ContractTemplate $template) use ($versions) {
+            $outdated = collect($template->sections ?? [])->filter(function ($section) use ($versions) {
+                $clauseId = $section['clause']['id'] ?? null;
+
+                return $clauseId
+                    && isset($versions[$clauseId])
+                    && (int) ($section['clause']['version'] ?? 0) < $versions[$clauseId];
+            })->count();
+
+            $template->setAttribute('outdated_clauses', $outdated);
+        });
+    }
+
+    /**
+     * Bring the linked sections of a template being saved up to date with
+     * the library, so a builder left open can't save an older clause text.
+     */
+    public function syncSections(array $sections, string $companyId): array
+    {
+        $clauseIds = collect($sections)
+            ->filter(fn($section) => ($section['clause']['linked'] ?? false))
+            ->pluck('clause.id')
+            ->filter()
+            ->unique();
+
+        if ($clauseIds->isEmpty()) {
+            return $sections;
+        }
+
+        $clauses = ContractClause::forCompany($companyId)->whereIn('id', $clauseIds)->get()->keyBy('id');
+
+        return array_map(function ($section) use ($clauses) {
+            $clause = $clauses[$section['clause']['id'] ?? ''] ?? null;
+
+            return $clause ? $this->linkSection($section, $clause) : $section;
+        }, $sections);
+    }
+
+    /**
+     * Rewrite the linked sections of every template that uses the clause.
+     */
+    protected function syncLinkedSections(ContractClause $clause): void
+    {
+        $this->templatesUsing($clause)->each(function (ContractTemplate $template) use ($clause) {
+            $template->update([
+                'sections' => $this->mapClauseSections(
+                    $template->sections ?? [],
+                    $clause->id,
+                    fn(array $section) => $this->linkSection($section, $clause)
+                ),
+            ]);
+        });
+    }
+
+    /**
+     * Give a linked section the clause's current text; detached sections are left alone.
+     */
+    protected function linkSection(array $section, ContractClause $clause): array
+    {
+        if (!($section['clause']['linked'] ?? false)) {
+            return $section;
+        }
+
+        $section['content'] = [...($section['content'] ?? []), 'html' => $clause->html];
+        $section['clause'] = [
+            ...$section['clause'],
+            'name' => $clause->name,
+            'version' => $clause->version,
+        ];
+
+        return $section;
+    }
+
+    /**
+     * Templates in the clause's company with a section that uses it.
+     */
+    protected function templatesUsing(ContractClause $clause): Collection
+    {
+        return ContractTemplate::where('company_id', $clause->company_id)
+            ->get()
+            ->filter(fn(ContractTemplate $template) => collect($template->sections ?? [])
+                ->contains(fn($section) => ($section['clause']['id'] ?? null) === $clause->id));
+    }
+
+    /**
+     * Apply a callback to the sections that use a clause.
+     */
+    protected function mapClauseSections(array $sections, string $clauseId, callable $callback): array
+    {
+        return array_map(
+            fn($section) => ($section['clause']['id'] ?? null) === $clauseId ? $callback($section) : $section,
+            $sections
+        );
+    }
+
+    protected function recordVersion(ContractClause $clause, User $user, ?string $summary): ContractClauseVersion
+    {
+        return ContractClauseVersion::create([
+            'clause_id' => $clause->id,
+            'version_number' => $clause->version,
+            'name' => $clause->name,
+            'html' => $clause->html,
+            'change_summary' => $summary,
+            'created_by' => $user->id,
+        ]);
+    }
+
+    /**
+     * Trimmed, lowercase, unique tags.
+     */
+    protected function normalizeTags(array $tags): array
+    {
+        return collect($tags)
+            ->map(fn($tag) => strtolower(trim((string) $tag)))
+            ->filter()
+            ->unique()
+            ->values()
+            ->all();
+    }
+}
@@ -0,0 +1,280 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\Contract;
+use App\Models\ContractEvent;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Str;
+use InvalidArgumentException;
+
+/**
+ * Contract Renewal Service
+ *
+ * Tracks when signed contracts come to the end of their term. Each contract
+ * has a renewal type: "none" simply ends, "manual" is renewed by sending a
+ * new contract that copies the old one's pricing and merge field values, and
+ * "auto" extends its own term by renewal_term_months when it ends. The term
+ * ends at ends_at, which is separate from expires_at, the deadline for
+ * signing. The notice period is how many days before the end of the term
+ * notice has to be given, and is when the renewal is flagged as needing
+ * attention.
+ */
+class ContractRenewalService
+{
+    /**
+     * Term used when a contract doesn't set one.
+     */
+    public const DEFAULT_TERM_MONTHS = 12;
+
+    public function __construct(
+        protected ContractVersionService $versions
+    ) {}
+
+    /**
+     * Signed contracts ending in the next number of days that haven't been renewed yet.
+     */
+    public function upcoming(string $companyId, int $days, ?Carbon $today = null): Collection
+    {
+        $today = ($today ?? now())->copy()->startOfDay();
+
+        return Contract::where('company_id', $companyId)
+            ->endingWithin($days, $today)
+            ->whereDoesntHave('renewal')
+            ->with(['contact:id,full_name,email', 'project:id,name'])
+            ->orderBy('ends_at')
+            ->get()
+            ->map(fn(Contract $contract) => $this->summarize($contract, $today));
+    }
+
+    /**
+     * Signed contracts without a term end, which can't come up for renewal until one is set.
+     */
+    public function withoutTermEnd(string $companyId): Collection
+    {
+        return Contract::where('company_id', $companyId)
+            ->where('status', 'signed')
+            ->whereNull('ends_at')
+            ->whereDoesntHave('renewal')
+            ->with('contact:id,full_name,email')
+            ->orderByDesc('client_signed_at')
+            ->get(['id', 'title', 'contract_number', 'contact_id', 'client_signed_at', 'renewal_type']);
+    }
+
+    /**
+     * Renewal details for a contract, for listings and dashboard suggestions.
+     */
+    public function summarize(Contract $contract, ?Carbon $today = null): array
+    {
+        $today = ($today ?? now())->copy()->startOfDay();
+        $noticeDeadline = $contract->noticeDeadline();
+
+        return [
+            ...$contract->toArray(),
+            'days_until_end' => (int) $today->diffInDays($contract->ends_at->copy()->startOfDay(), false),
+            'notice_deadline' => $noticeDeadline?->toDateString(),
+            'in_notice_period' => $noticeDeadline !== null && $noticeDeadline->lte($today->copy()->endOfDay()),
+        ];
+    }
+
+    /**
+     * Change how a contract renews and when its current term ends.
+     *
+     * @param array{renewal_type: string, renewal_term_months?: ?int, notice_period_days?: ?int, ends_at?: ?string} $settings
+     */
+    public function updateSettings(Contract $contract, array $settings): Contract
+    {
+        $contract->update([
+            ...(array_key_exists('ends_at', $settings) ? ['ends_at' => $settings['ends_at']] : []),
+            'renewal_type' => $settings['renewal_type'],
+            'renewal_term_months' => $settings['renewal_term_months'] ?? null,
+            'notice_period_days' => $settings['notice_period_days'] ?? null,
+            // A changed notice period gets a fresh notice
+            'renewal_notice_sent_at' => ($settings['notice_period_days'] ?? null) === $contract->notice_period_days
+                ? $contract->renewal_notice_sent_at
+                : null,
+        ]);
+
+        return $contract;
+    }
+
+    /**
+     * Create a draft renewal of a signed contract for the next term, copying
+     * its content, pricing and merge field values.
+     */
+    public function renew(Contract $contract, User $user): Contract
+    {
+        if ($contract->status !== 'signed') {
+            throw new InvalidArgumentException('Only signed contracts can be renewed.');
+        }
+
+        if ($contract->renewal()->exists()) {
+            throw new InvalidArgumentException('This contract has already been renewed.');
+        }
+
+        return DB::transaction(function () use ($contract, $user) {
+            $company = $contract->company;
+            $termMonths = $contract->renewal_term_months ?: self::DEFAULT_TERM_MONTHS;
+            $startsAt = $contract->ends_at && $contract->ends_at->isFuture() ? $contract->ends_at : now();
+
+            $renewal = Contract::create([
+                'company_id' => $contract->company_id,
+                'template_id' => $contract->template_id,
+                'contact_id' => $contract->contact_id,
+                'project_id' => $contract->project_id,
+                'deal_id' => $contract->deal_id,
+                'title' => $contract->title,
+                'contract_number' => Contract::generateNumber($company),
+                'contract_type' => $contract->contract_type,
+                'pricing_data' => $contract->pricing_data,
+                'rendered_sections' => $contract->rendered_sections,
+                'merge_field_values' => $contract->merge_field_values,
+                'clickwrap_text' => $contract->clickwrap_text,
+                'status' => 'draft',
+                'token' => Str::random(64),
+                'expires_at' => now()->addDays($company->settings['documents']['contract_auto_expire_days'] ?? 30),
+                'ends_at' => $startsAt->copy()->addMonths($termMonths),
+                'renewal_type' => $contract->renewal_type,
+                'renewal_term_months' => $contract->renewal_term_months,
+                'notice_period_days' => $contract->notice_period_days,
+                'renewed_from_id' => $contract->id,
+                'notes' => $contract->notes,
+            ]);
+
+            ContractEvent::create([
+                'contract_id' => $renewal->id,
+                'event_type' => 'created',
+                'event_data' => ['renewed_from' => $contract->contract_number],
+                'actor_type' => 'user',
+                'actor_id' => $user->id,
+            ]);
+
+            ContractEvent::create([
+                'contract_id' => $contract->id,
+                'event_type' => 'renewal_created',
+                'event_data' => [
+                    'renewal_id' => $renewal->id,
+                    'renewal_number' => $renewal->contract_number,
+                ],
+                'actor_type' => 'user',
+                'actor_id' => $user->id,
+            ]);
+
+            $this->versions->recordInitialVersion($renewal, $user);
+
+            return $renewal;
+        });
+    }
+
+    /**
+     * Extend auto-renewing contracts that have reached the end of their term.
+     */
+    public function autoRenewDue(?Carbon $today = null): int
+    {
+        $today = ($today ?? now())->copy()->startOfDay();
+        $renewed = 0;
+
+        Contract::where('status', 'signed')
+            ->where('renewal_type', Contract::RENEWAL_AUTO)
+            ->whereNotNull('ends_at')
+            ->where('ends_at', '<', $today->copy()->addDay())
+            ->whereDoesntHave('renewal')
+            ->chunkById(100, function ($contracts) use (&$renewed) {
+                foreach ($contracts as $contract) {
+                    $previous = $contract->ends_at->copy();
+
+                    $contract->update([
+                        'ends_at' => $previous->copy()->addMonths($contract->renewal_term_months ?: self::DEFAULT_TERM_MONTHS),
+                        'renewal_notice_sent_at' => null,
+                    ]);
+
+                    ContractEvent::create([
+                        'contract_id' => $contract->id,
+                        'event_type' => 'auto_renewed',
+                        'event_data' => [
+                            'previous_ends_at' => $previous->toISOString(),
+                            'ends_at' => $contract->ends_at->toISOString(),
+                        ],
+                        'actor_type' => 'system',
+                    ]);
+
+                    $renewed++;
+                }
+            });
+
+        return $renewed;
+    }
+
+    /**
+     * Record that contracts have entered their notice period, once per term.
+     */
+    public function flagNoticePeriods(?Carbon $today = null): int
+    {
+        $today = ($today ?? now())->copy()->startOfDay();
+        $flagged = 0;
+
+        Contract::where('status', 'signed')
+            ->whereNotNull('ends_at')
+            ->whereNotNull('notice_period_days')
+            ->whereNull('renewal_notice_sent_at')
+            ->where('ends_at', '>=', $today)
+            ->whereDoesntHave('renewal')
+            ->chunkById(100, function ($contracts) use ($today, &$flagged) {
+                foreach ($contracts as $contract) {
+                    $deadline = $contract->noticeDeadline();
+                    if (!$deadline || $deadline->gt($today->copy()->endOfDay())) {
+                        continue;
+                    }
+
+                    $contract->update(['renewal_notice_sent_at' => now()]);
+
+                    ContractEvent::create([
+                        'contract_id' => $contract->id,
+                        'event_type' => 'renewal_notice',
+                        'event_data' => [
+                            'notice_deadline' => $deadline->toDateString(),
+                            'ends_at' => $contract->ends_at->toISOString(),
+                            'renewal_type' => $contract->renewal_type,
+                        ],
+                        'actor_type' => 'system',
+                    ]);
+
+                    $flagged++;
+                }
+            });
+
+        return $flagged;
+    }
+
+    /**
+     * Expire unsigned contracts whose signing deadline has passed.
+     */
+    public function expireUnsigned(?Carbon $today = null): int
+    {
+        $today = ($today ?? now())->copy()->startOfDay();
+        $expired = 0;
+
+        Contract::whereIn('status', ['sent', 'viewed'])
+            ->whereNotNull('expires_at')
+            ->where('expires_at', '<', $today)
+            ->chunkById(100, function ($contracts) use (&$expired) {
+                foreach ($contracts as $contract) {
+                    $contract->update(['status' => 'expired']);
+
+                    ContractEvent::create([
+                        'contract_id' => $contract->id,
+                        'event_type' => 'expired',
+                        'event_data' => ['expires_at' => $contract->expires_at->toISOString()],
+                        'actor_type' => 'system',
+                    ]);
+
+                    $expired++;
+                }
+            });
+
+        return $expired;
+    }
+}
@@ -0,0 +1,332 @@
+<?php
+
+namespace App\Services;
+
+use App\Jobs\SendContractSignatureRequest;
+use App\Models\Contract;
+use App\Models\ContractSignature;
+use App\Models\ContractSigner;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+use InvalidArgumentException;
+
+/**
+ * Contract Signing Service
+ *
+ * Captures a client's electronic signature together with the evidence that
+ * ties it to the signer and to the exact text they signed: the signature
+ * image (drawn, typed or uploaded), timestamp, IP address, user agent and
+ * a SHA-256 hash of the contract's rendered sections.
+ *
+ * A contract either has a single client signer using the contract's own link,
+ * or a list of signers who each sign through a personal link. With a list,
+ * signing is parallel (everyone is asked at once) or sequential (each
+ * signing_order waits for the previous one), and the contract only becomes
+ * signed once every signer has signed.
+ */
+class ContractSigningService
+{
+    /**
+     * Largest accepted signature image, in bytes.
+     */
+    public const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+    public const MODE_PARALLEL = 'parallel';
+    public const MODE_SEQUENTIAL = 'sequential';
+
+    /**
+     * Replace a draft contract's signers.
+     *
+     * @param array<int, array{name: string, email: string, role: string, title?: ?string, signing_order?: int}> $signers
+     */
+    public function saveSigners(Contract $contract, string $mode, array $signers): Contract
+    {
+        if ($contract->status !== 'draft') {
+            throw new InvalidArgumentException('Signers can only be changed while the contract is a draft.');
+        }
+
+        return DB::transaction(function () use ($contract, $mode, $signers) {
+            $contract->update(['signing_mode' => $mode]);
+            $contract->signers()->delete();
+
+            foreach (array_values($signers) as $index => $signer) {
+                $contract->signers()->create([
+                    'name' => $signer['name'],
+                    'email' => $signer['email'],
+                    'role' => $signer['role'],
+                    'title' => $signer['title'] ?? null,
+                    'signing_order' => $signer['signing_order'] ?? $index + 1,
+                ]);
+            }
+
+            return $contract->load('signers');
+        });
+    }
+
+    /**
+     * Email every signer whose turn has come and who has not been asked yet.
+     */
+    public function notifyReadySigners(Contract $contract): void
+    {
+        $contract->load('signers');
+
+        foreach ($contract->signers as $signer) {
+            if ($signer->status !== ContractSigner::STATUS_PENDING || !$this->isSignersTurn($signer, $contract)) {
+                continue;
+            }
+
+            $signer->update([
+                'status' => ContractSigner::STATUS_NOTIFIED,
+                'notified_at' => now(),
+            ]);
+
+            SendContractSignatureRequest::dispatch($signer)->afterCommit();
+        }
+    }
+
+    /**
+     * Whether a signer may sign now: always in parallel mode, and once every
+     * earlier signing_order has signed in sequential mode.
+     */
+    public function isSignersTurn(ContractSigner $signer, ?Contract $contract = null): bool
+    {
+        $contract ??= $signer->contract;
+
+        if ($contract->signing_mode !== self::MODE_SEQUENTIAL) {
+            return true;
+        }
+
+        return $contract->signers
+            ->filter(fn(ContractSigner $other) => $other->signing_order < $signer->signing_order)
+            ->every(fn(ContractSigner $other) => $other->hasSigned());
+    }
+
+    /**
+     * Record that a signer opened their link.
+     */
+    public function markSignerViewed(ContractSigner $signer): void
+    {
+        if (in_array($signer->status, [ContractSigner::STATUS_PENDING, ContractSigner::STATUS_NOTIFIED], true)) {
+            $signer->update([
+                'status' => ContractSigner::STATUS_VIEWED,
+                'viewed_at' => now(),
+            ]);
+        }
+    }
+
+    /**
+     * Sign a contract, as one of its signers when it has a list of them.
+     *
+     * @param array{signed_by: string, signer_email?: ?string, method: string, signature_image: string, typed_font?: ?string} $data
+     */
+    public function sign(Contract $contract, array $data, ?string $ipAddress, ?string $userAgent, ?ContractSigner $signer = null): ContractSignature
+    {
+        if ($contract->status === 'signed') {
+            throw new InvalidArgumentException('Contract is already signed');
+        }
+
+        if (in_array($contract->status, ['declined', 'cancelled', 'expired'], true)) {
+            throw new InvalidArgumentException('This contract can no longer be signed');
+        }
+
+        if ($contract->isExpired()) {
+            $contract->update(['status' => 'expired']);
+
+            throw new InvalidArgumentException('Contract has expired');
+        }
+
+        if (!in_array($data['method'], ContractSignature::METHODS, true)) {
+            throw new InvalidArgumentException('Unknown signature method.');
+        }
+
+        $contract->load('signers');
+
+        if ($signer) {
+            // Work on the loaded instance so the "everyone has signed" check sees this signature
+            $signer = $contract->signers->firstWhere('id', $signer->id) ?? $signer;
+
+            if ($signer->hasSigned()) {
+                throw new InvalidArgumentException('You have already signed this contract.');
+            }
+
+            if (!$this->isSignersTurn($signer, $contract)) {
+                throw new InvalidArgumentException('Earlier signers must sign before you can.');
+            }
+        } elseif ($contract->signers->isNotEmpty()) {
+            throw new InvalidArgumentException('Please use your personal signing link to sign this contract.');
+        }
+
+        [$extension, $image] = $this->decodeImage($data['signature_image']);
+        $path = "contracts/{$contract->id}/signatures/" . Str::uuid() . ".{$extension}";
+        Storage::put($path, $image);
+
+        try {
+            $signature = DB::transaction(function () use ($contract, $data, $path, $ipAddress, $userAgent, $signer) {
+                // Signers of the same contract are handled one at a time, so the
+                // "everyone has signed" check below sees the others' signatures
+                Contract::whereKey($contract->id)->lockForUpdate()->first();
+                $contract->refresh()->load('signers');
+
+                if ($contract->status === 'signed') {
+                    throw new InvalidArgumentException('Contract is already signed');
+                }
+
+                if ($signer) {
+                    $signer = $contract->signers->firstWhere('id', $signer->id) ?? $signer;
+
+                    if ($signer->hasSigned()) {
+                        throw new InvalidArgumentException('You have already signed this contract.');
+                    }
+                }
+
+                $signedAt = now();
+
+                $signature = $contract->signatures()->create([
+                    'signer_id' => $signer?->id,
+                    'signer_name' => $data['signed_by'],
+                    'signer_email' => $signer?->email ?? ($data['signer_email'] ?? null),
+                    'method' => $data['method'],
+                    'typed_font' => $data['method'] === ContractSignature::METHOD_TYPED ? ($data['typed_font'] ?? null) : null,
+                    'image_path' => $path,
+                    'document_hash' => $contract->documentHash(),
+                    'ip_address' => $ipAddress,
+                    'user_agent' => $userAgent,
+                    'signed_at' => $signedAt,
+                ]);
+
+                $eventData = [
+                    'signed_by' => $data['signed_by'],
+                    'signed_at' => $signedAt->toISOString(),
+                    'signature_id' => $signature->id,
+                    'method' => $signature->method,
+                    'document_hash' => $signature->document_hash,
+                ];
+
+                if ($signer) {
+                    $signer->update([
+                        'status' => ContractSigner::STATUS_SIGNED,
+                        'signed_at' => $signedAt,
+                    ]);
+
+                    $contract->events()->create([
+                        'event_type' => 'signer_signed',
+                        'event_data' => [
+                            ...$eventData,
+                            'signer_id' => $signer->id,
+                            'role' => $signer->role,
+                        ],
+                        'actor_type' => 'client',
+                        'ip_address' => $ipAddress,
+                        'user_agent' => $userAgent,
+                    ]);
+
+                    // The contract is only signed once everyone has signed; in sequential
+                    // mode the next signers are asked once this step is complete
+                    if (!$contract->signers->every(fn(ContractSigner $other) => $other->hasSigned())) {
+                        $this->notifyReadySigners($contract);
+
+                        return $signature;
+                    }
+
+                    $clientNames = $contract->signers->where('role', 'client')->pluck('name');
+                    $data['signed_by'] = ($clientNames->isNotEmpty() ? $clientNames : $contract->signers->pluck('name'))->implode(', ');
+                    $eventData['signed_by'] = $data['signed_by'];
+                }
+
+                $contract->update([
+                    'status' => 'signed',
+                    // The term runs from signing unless an end date was agreed up front
+                    'ends_at' => $contract->ends_at ?? $signedAt->copy()->addMonths(
+                        $contract->renewal_term_months ?: ContractRenewalService::DEFAULT_TERM_MONTHS
+                    ),
+                    'client_signed_at' => $signedAt,
+                    'client_signed_by' => Str::limit($data['signed_by'], 255, ''),
+                    'client_ip_address' => $ipAddress,
+                    'client_user_agent' => $userAgent,
+                ]);
+
+                $contract->events()->create([
+                    'event_type' => 'signed',
+                    'event_data' => $eventData,
+                    'actor_type' => 'client',
+                    'ip_address' => $ipAddress,
+                    'user_agent' => $userAgent,
+                ]);
+
+                return $signature;
+            });
+        } catch (\Throwable $e) {
+            Storage::delete($path);
+
+            throw $e;
+        }
+
+        return $signature;
+    }
+
+    /**
+     * Decline a contract, as one of its signers when it has a list of them.
+     */
+    public function decline(Contract $contract, ?string $reason, ?string $ipAddress, ?string $userAgent, ?ContractSigner $signer = null): void
+    {
+        if (in_array($contract->status, ['signed', 'declined'], true)) {
+            throw new InvalidArgumentException('This contract can no longer be declined');
+        }
+
+        if (!$signer && $contract->signers()->exists()) {
+            throw new InvalidArgumentException('Please use your personal signing link to decline this contract.');
+        }
+
+        DB::transaction(function () use ($contract, $reason, $ipAddress, $userAgent, $signer) {
+            $signer?->update([
+                'status' => ContractSigner::STATUS_DECLINED,
+                'declined_at' => now(),
+                'decline_reason' => $reason,
+            ]);
+
+            $contract->update(['status' => 'declined']);
+
+            $contract->events()->create([
+                'event_type' => 'declined',
+                'event_data' => array_filter([
+                    'reason' => $reason,
+                    'declined_at' => now()->toISOString(),
+                    'signer_id' => $signer?->id,
+                    'declined_by' => $signer?->name,
+                ], fn($value) => $value !== null),
+                'actor_type' => 'client',
+                'ip_address' => $ipAddress,
+                'user_agent' => $userAgent,
+            ]);
+        });
+    }
+
+    /**
+     * Decode a base64 PNG or JPEG data URI into [extension, bytes].
+     */
+    protected function decodeImage(string $dataUri): array
+    {
+        if (!preg_match('/^data:image\/(png|jpeg|jpg);base64,(.+)$/s', $dataUri, $matches)) {
+            throw new InvalidArgumentException('The signature must be a PNG or JPEG image.');
+        }
+
+        $image = base64_decode($matches[2], true);
+
+        if ($image === false || $image === '') {
+            throw new InvalidArgumentException('The signature image could not be read.');
+        }
+
+        if (strlen($image) > self::MAX_IMAGE_BYTES) {
+            throw new InvalidArgumentException('The signature image must be smaller than 2 MB.');
+        }
+
+        // Check the bytes, not just the declared type
+        $info = @getimagesizefromstring($image);
+        if ($info === false || !in_array($info[2], [IMAGETYPE_PNG, IMAGETYPE_JPEG], true)) {
+            throw new InvalidArgumentException('The signature must be a PNG or JPEG image.');
+        }
+
+        return [$info[2] === IMAGETYPE_PNG ? 'png' : 'jpg', $image];
+    }
+}
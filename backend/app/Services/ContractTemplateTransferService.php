@@ -0,0 +1,485 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\ContractTemplate;
+use DOMDocument;
+use DOMElement;
+use DOMXPath;
+use Illuminate\Support\Str;
+use InvalidArgumentException;
+use ZipArchive;
+
+/**
+ * Contract Template Transfer Service
+ *
+ * Moves contract templates in and out of the app. A template exports as a
+ * JSON bundle that another company can import, and a Word (.docx) contract
+ * can be imported as a new template: headings become heading sections,
+ * tables become table sections, and the paragraphs and lists between them
+ * become text sections, with any {{placeholders}} listed as merge fields.
+ */
+class ContractTemplateTransferService
+{
+    /**
+     * Identifies exported bundles.
+     */
+    public const BUNDLE_FORMAT = 'contract-template';
+
+    public const BUNDLE_VERSION = 1;
+
+    private const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+    private const PLACEHOLDER = '/\{\{\s*([A-Za-z][\w.]*)\s*\}\}/';
+
+    /**
+     * Largest uncompressed XML part read from a .docx, so a small upload
+     * can't inflate into gigabytes.
+     */
+    private const MAX_PART_BYTES = 20 * 1024 * 1024;
+
+    public function __construct(
+        protected MergeFieldService $mergeFields
+    ) {}
+
+    /**
+     * The portable bundle for a template.
+     */
+    public function export(ContractTemplate $template): array
+    {
+        return [
+            'format' => self::BUNDLE_FORMAT,
+            'version' => self::BUNDLE_VERSION,
+            'exported_at' => now()->toISOString(),
+            'template' => [
+                'name' => $template->name,
+                'description' => $template->description,
+                'sections' => $this->portableSections($template->sections ?? []),
+                'merge_fields' => $template->merge_fields ?? [],
+                'clickwrap_text' => $template->clickwrap_text,
+                'default_contract_type' => $template->default_contract_type,
+                'default_pricing_data' => $template->default_pricing_data,
+            ],
+        ];
+    }
+
+    /**
+     * Template attributes from an exported bundle.
+     */
+    public function fromBundle(array $bundle): array
+    {
+        if (($bundle['format'] ?? null) !== self::BUNDLE_FORMAT || !is_array($bundle['template'] ?? null)) {
+            throw new InvalidArgumentException('This file is not an exported contract template.');
+        }
+
+        if ((int) ($bundle['version'] ?? 0) > self::BUNDLE_VERSION) {
+            throw new InvalidArgumentException('This template was exported by a newer version and cannot be imported.');
+        }
+
+        $template = $bundle['template'];
+
+        if (!is_string($template['name'] ?? null) || trim($template['name']) === '' || !is_array($template['sections'] ?? null)) {
+            throw new InvalidArgumentException('The template in this file is missing its name or sections.');
+        }
+
+        $contractType = $template['default_contract_type'] ?? null;
+
+        return [
+            'name' => Str::limit(trim($template['name']), 255, ''),
+            'description' => is_string($template['description'] ?? null) ? $template['description'] : null,
+            'sections' => $this->portableSections($template['sections']),
+            'merge_fields' => array_values(array_filter($template['merge_fields'] ?? [], 'is_array')),
+            'clickwrap_text' => is_string($template['clickwrap_text'] ?? null) ? $template['clickwrap_text'] : null,
+            'default_contract_type' => in_array($contractType, ['fixed_price', 'milestone', 'subscription'], true) ? $contractType : 'fixed_price',
+            'default_pricing_data' => is_array($template['default_pricing_data'] ?? null) ? $template['default_pricing_data'] : null,
+        ];
+    }
+
+    /**
+     * Template attributes from a Word document.
+     */
+    public function fromDocx(string $path, string $name, string $companyId): array
+    {
+        $sections = $this->docxSections($path);
+
+        if (empty($sections)) {
+            throw new InvalidArgumentException('No text was found in this document.');
+        }
+
+        return [
+            'name' => $name,
+            'description' => null,
+            'sections' => $sections,
+            'merge_fields' => $this->detectMergeFields($sections, $companyId),
+            'clickwrap_text' => null,
+            'default_contract_type' => 'fixed_price',
+            'default_pricing_data' => null,
+        ];
+    }
+
+    /**
+     * Merge fields for the {{placeholders}} in the sections. Placeholders
+     * nothing else defines become template fields, so the contract form
+     * asks for them.
+     */
+    public function detectMergeFields(array $sections, string $companyId): array
+    {
+        preg_match_all(self::PLACEHOLDER, json_encode($sections), $matches);
+
+        $known = collect($this->mergeFields->fieldsFor($companyId))->keyBy('key');
+
+        return collect($matches[1])
+            ->unique()
+            ->reject(fn($key) => str_starts_with($key, 'item.'))
+            ->map(fn($key) => $known->has($key)
+                ? collect($known[$key])->only(['key', 'label', 'type', 'category'])->all()
+                : [
+                    'key' => $key,
+                    'label' => Str::headline(str_replace('.', ' ', $key)),
+                    'type' => 'text',
+                    'category' => 'contract',
+                    'default_value' => null,
+                    'format' => null,
+                    'source' => 'template',
+                ])
+            ->values()
+            ->all();
+    }
+
+    /**
+     * Sections without links to this company's clause library, which won't
+     * exist wherever the template ends up.
+     */
+    protected function portableSections(array $sections): array
+    {
+        return collect($sections)
+            ->filter(fn($section) => is_array($section) && is_string($section['type'] ?? null))
+            ->values()
+            ->map(fn(array $section, int $index) => [
+                ...collect($section)->except('clause')->all(),
+                'id' => is_string($section['id'] ?? null) ? $section['id'] : 'section-' . ($index + 1),
+                'order' => $index,
+            ])
+            ->all();
+    }
+
+    /**
+     * Read a .docx body into template sections.
+     */
+    protected function docxSections(string $path): array
+    {
+        $zip = new ZipArchive();
+        if ($zip->open($path) !== true) {
+            throw new InvalidArgumentException('This file could not be opened as a Word document.');
+        }
+
+        try {
+            $documentXml = $this->readPart($zip, 'word/document.xml');
+            $stylesXml = $this->readPart($zip, 'word/styles.xml');
+            $numberingXml = $this->readPart($zip, 'word/numbering.xml');
+        } finally {
+            $zip->close();
+        }
+
+        if ($documentXml === false) {
+            throw new InvalidArgumentException('This file is not a Word document.');
+        }
+
+        $xpath = $this->wordXPath($documentXml);
+        $headingLevels = $stylesXml !== false ? $this->headingStyles($stylesXml) : [];
+        $listFormats = $numberingXml !== false ? $this->listFormats($numberingXml) : [];
+
+        $sections = [];
+        $html = '';
+        $list = null;
+
+        $closeList = function () use (&$html, &$list) {
+            if ($list) {
+                $html .= "</{$list}>";
+                $list = null;
+            }
+        };
+
+        $flushText = function () use (&$sections, &$html, $closeList) {
+            $closeList();
+            if ($html !== '') {
+                $sections[] = ['type' => 'paragraph', 'content' => ['html' => $html]];
+                $html = '';
+            }
+        };
+
+        foreach ($xpath->query('/w:document/w:body/*') as $node) {
+            if ($node->localName === 'tbl') {
+                $flushText();
+                if ($table = $this->tableSection($xpath, $node)) {
+                    $sections[] = $table;
+                }
+                continue;
+            }
+
+            if ($node->localName !== 'p') {
+                continue;
+            }
+
+            $style = $this->value($xpath, 'w:pPr/w:pStyle', $node);
+
+            if ($style !== null && isset($headingLevels[$style])) {
+                $text = trim($this->plainText($xpath, $node));
+                if ($text !== '') {
+                    $flushText();
+                    $sections[] = ['type' => 'heading', 'content' => ['text' => $text]];
+                }
+                continue;
+            }
+
+            $runs = $this->runsHtml($xpath, $node);
+            $numId = $this->value($xpath, 'w:pPr/w:numPr/w:numId', $node);
+
+            if ($numId !== null && $numId !== '0') {
+                $level = $this->value($xpath, 'w:pPr/w:numPr/w:ilvl', $node) ?? '0';
+                $tag = ($listFormats[$numId][$level] ?? 'bullet') === 'bullet' ? 'ul' : 'ol';
+                if ($list !== $tag) {
+                    $closeList();
+                    $html .= "<{$tag}>";
+                    $list = $tag;
+                }
+                $html .= "<li><p>{$runs}</p></li>";
+                continue;
+            }
+
+            $closeList();
+            if (trim(strip_tags($runs)) !== '') {
+                $html .= "<p>{$runs}</p>";
+            }
+        }
+
+        $flushText();
+
+        return collect($sections)
+            ->map(fn(array $section, int $index) => [
+                'id' => 'section-' . ($index + 1),
+                ...$section,
+                'order' => $index,
+            ])
+            ->all();
+    }
+
+    /**
+     * A part of the .docx package, or false when it's missing. Parts larger
+     * than MAX_PART_BYTES are refused instead of inflated.
+     */
+    protected function readPart(ZipArchive $zip, string $name): string|false
+    {
+        $stat = $zip->statName($name);
+        if ($stat === false) {
+            return false;
+        }
+
+        if ($stat['size'] > self::MAX_PART_BYTES) {
+            throw new InvalidArgumentException('This Word document is too large to import.');
+        }
+
+        // The size in the zip directory can be forged, so never inflate past the cap either
+        $xml = $zip->getFromName($name, self::MAX_PART_BYTES + 1);
+        if ($xml !== false && strlen($xml) > self::MAX_PART_BYTES) {
+            throw new InvalidArgumentException('This Word document is too large to import.');
+        }
+
+        return $xml;
+    }
+
+    /**
+     * A Word table as a table section, the first row as its header.
+     */
+    protected function tableSection(DOMXPath $xpath, DOMElement $table): ?array
+    {
+        $cells = [];
+
+        foreach ($xpath->query('w:tr', $table) as $row) {
+            $cells[] = collect($xpath->query('w:tc', $row))
+                ->map(fn(DOMElement $cell) => collect($xpath->query('.//w:p', $cell))
+                    ->map(fn(DOMElement $p) => trim($this->plainText($xpath, $p)))
+                    ->filter()
+                    ->implode(' '))
+                ->all();
+        }
+
+        $cols = max(array_map('count', $cells) ?: [0]);
+        if ($cols === 0) {
+            return null;
+        }
+
+        $cells = array_map(fn(array $row) => array_pad($row, $cols, ''), $cells);
+
+        return [
+            'type' => 'table',
+            'content' => [
+                'rows' => count($cells),
+                'cols' => $cols,
+                'cells' => $cells,
+                'hasHeader' => true,
+            ],
+        ];
+    }
+
+    /**
+     * A paragraph's runs as HTML, keeping bold, italic and underline.
+     * Neighbouring runs with the same formatting are joined first so a
+     * placeholder Word split across runs stays in one piece.
+     */
+    protected function runsHtml(DOMXPath $xpath, DOMElement $paragraph): string
+    {
+        $parts = [];
+
+        foreach ($xpath->query('w:r|w:hyperlink/w:r|w:ins/w:r', $paragraph) as $run) {
+            $text = $this->runText($xpath, $run);
+            if ($text === '') {
+                continue;
+            }
+
+            $marks = array_keys(array_filter([
+                'strong' => $this->isOn($xpath, 'w:rPr/w:b', $run),
+                'em' => $this->isOn($xpath, 'w:rPr/w:i', $run),
+                'u' => $this->isOn($xpath, 'w:rPr/w:u', $run),
+            ]));
+
+            $last = count($parts) - 1;
+            if ($last >= 0 && $parts[$last]['marks'] === $marks) {
+                $parts[$last]['text'] .= $text;
+            } else {
+                $parts[] = ['text' => $text, 'marks' => $marks];
+            }
+        }
+
+        return collect($parts)->map(function (array $part) {
+            $html = str_replace("\n", '<br>', e($this->normalizePlaceholders($part['text'])));
+            foreach ($part['marks'] as $mark) {
+                $html = "<{$mark}>{$html}</{$mark}>";
+            }
+            return $html;
+        })->implode('');
+    }
+
+    /**
+     * A paragraph's text on one line, for headings and table cells.
+     */
+    protected function plainText(DOMXPath $xpath, DOMElement $paragraph): string
+    {
+        $text = '';
+        foreach ($xpath->query('.//w:r', $paragraph) as $run) {
+            $text .= $this->runText($xpath, $run);
+        }
+
+        return $this->normalizePlaceholders(str_replace("\n", ' ', $text));
+    }
+
+    /**
+     * The text of a run, with tabs as spaces and line breaks as newlines.
+     */
+    protected function runText(DOMXPath $xpath, DOMElement $run): string
+    {
+        $text = '';
+        foreach ($xpath->query('w:t|w:tab|w:br', $run) as $child) {
+            $text .= match ($child->localName) {
+                't' => $child->textContent,
+                'tab' => ' ',
+                'br' => "\n",
+            };
+        }
+
+        return $text;
+    }
+
+    /**
+     * "{{ client.full_name }}" becomes "{{client.full_name}}".
+     */
+    protected function normalizePlaceholders(string $text): string
+    {
+        return preg_replace(self::PLACEHOLDER, '{{$1}}', $text);
+    }
+
+    /**
+     * Whether a toggle property like bold is set; w:val="0", "false" or "none" turns it off.
+     */
+    protected function isOn(DOMXPath $xpath, string $query, DOMElement $context): bool
+    {
+        $node = $xpath->query($query, $context)->item(0);
+        if (!$node instanceof DOMElement) {
+            return false;
+        }
+
+        $value = $node->getAttributeNS(self::WORD_NS, 'val');
+
+        return !in_array($value, ['0', 'false', 'none'], true);
+    }
+
+    /**
+     * The w:val attribute of the first element matching the query, if there is one.
+     */
+    protected function value(DOMXPath $xpath, string $query, DOMElement $context): ?string
+    {
+        $node = $xpath->query($query, $context)->item(0);
+
+        return $node instanceof DOMElement ? $node->getAttributeNS(self::WORD_NS, 'val') : null;
+    }
+
+    /**
+     * Style ids used for headings and the title, keyed by id.
+     */
+    protected function headingStyles(string $stylesXml): array
+    {
+        $xpath = $this->wordXPath($stylesXml);
+        $styles = [];
+
+        foreach ($xpath->query('/w:styles/w:style[@w:type="paragraph"]') as $style) {
+            $name = strtolower((string) $this->value($xpath, 'w:name', $style));
+            if (preg_match('/^(heading\s*\d|title)$/', $name)) {
+                $styles[$style->getAttributeNS(self::WORD_NS, 'styleId')] = true;
+            }
+        }
+
+        return $styles;
+    }
+
+    /**
+     * Number format per list and level, e.g. ['3' => ['0' => 'decimal']].
+     */
+    protected function listFormats(string $numberingXml): array
+    {
+        $xpath = $this->wordXPath($numberingXml);
+        $abstract = [];
+
+        foreach ($xpath->query('/w:numbering/w:abstractNum') as $definition) {
+            $levels = [];
+            foreach ($xpath->query('w:lvl', $definition) as $level) {
+                $levels[$level->getAttributeNS(self::WORD_NS, 'ilvl')] = $this->value($xpath, 'w:numFmt', $level) ?? 'bullet';
+            }
+            $abstract[$definition->getAttributeNS(self::WORD_NS, 'abstractNumId')] = $levels;
+        }
+
+        $formats = [];
+        foreach ($xpath->query('/w:numbering/w:num') as $num) {
+            $abstractId = $this->value($xpath, 'w:abstractNumId', $num);
+            $formats[$num->getAttributeNS(self::WORD_NS, 'numId')] = $abstract[$abstractId] ?? [];
+        }
+
+        return $formats;
+    }
+
+    /**
+     * An XPath over a WordprocessingML part with the "w" prefix registered.
+     * External entities are never fetched.
+     */
+    protected function wordXPath(string $xml): DOMXPath
+    {
+        $document = new DOMDocument();
+        if (!@$document->loadXML($xml, LIBXML_NONET)) {
+            throw new InvalidArgumentException('This Word document could not be read.');
+        }
+
+        $xpath = new DOMXPath($document);
+        $xpath->registerNamespace('w', self::WORD_NS);
+
+        return $xpath;
+    }
+}
@@ -0,0 +1,168 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\Contract;
+use App\Models\ContractComment;
+use App\Models\ContractSigner;
+use App\Models\ContractVersion;
+use App\Models\User;
+use Illuminate\Support\Facades\DB;
+use InvalidArgumentException;
+
+/**
+ * Contract Version Service
+ *
+ * Keeps a numbered snapshot of a contract's content every time it is saved,
+ * and the comments the client leaves while reviewing it, so changes can be
+ * compared version to version before the contract is re-sent.
+ */
+class ContractVersionService
+{
+    /**
+     * Fields that make up the contract's content; changing any of them creates a version.
+     */
+    public const VERSIONED_FIELDS = ['title', 'rendered_sections', 'pricing_data', 'clickwrap_text'];
+
+    /**
+     * Save the contract as its first version.
+     */
+    public function recordInitialVersion(Contract $contract, ?User $user): ContractVersion
+    {
+        return $this->createVersion($contract, $user?->id, 'Original');
+    }
+
+    /**
+     * Apply changes to a contract, saving a new version when its content changes.
+     *
+     * Revising a contract that is out for signature takes it back to draft so
+     * it has to be re-sent; once anyone has signed, its content is locked.
+     */
+    public function revise(Contract $contract, array $changes, User $user, ?string $summary = null): Contract
+    {
+        $contentChanges = array_intersect_key($changes, array_flip(self::VERSIONED_FIELDS));
+        $contentChanged = collect($contentChanges)->contains(fn($value, $field) => $value != $contract->{$field});
+
+        if ($contentChanged && $contract->signatures()->exists()) {
+            throw new InvalidArgumentException('The contract text cannot be changed after someone has signed it.');
+        }
+
+        return DB::transaction(function () use ($contract, $changes, $user, $summary, $contentChanged) {
+            if ($contentChanged) {
+                // Contracts created before versioning get their current text as the baseline
+                $this->ensureBaseline($contract);
+            }
+
+            $wasSent = in_array($contract->status, ['sent', 'viewed'], true);
+
+            $contract->update($changes);
+
+            if (!$contentChanged) {
+                return $contract;
+            }
+
+            $version = $this->createVersion($contract, $user->id, $summary);
+
+            if ($wasSent) {
+                $contract->update(['status' => 'draft']);
+                $contract->signers()->whereIn('status', [ContractSigner::STATUS_NOTIFIED, ContractSigner::STATUS_VIEWED])
+                    ->update(['status' => ContractSigner::STATUS_PENDING]);
+            }
+
+            $contract->events()->create([
+                'event_type' => 'revised',
+                'event_data' => array_filter([
+                    'version_number' => $version->version_number,
+                    'change_summary' => $summary,
+                    'returned_to_draft' => $wasSent ?: null,
+                ]),
+                'actor_type' => 'user',
+                'actor_id' => $user->id,
+            ]);
+
+            return $contract;
+        });
+    }
+
+    /**
+     * Record a client's comment or change request on the version they are reading.
+     *
+     * @param array{body: string, author_name: string, author_email?: ?string, section_id?: ?string, quoted_text?: ?string} $data
+     */
+    public function addClientComment(Contract $contract, array $data, ?ContractSigner $signer, ?string $ipAddress, ?string $userAgent): ContractComment
+    {
+        if (in_array($contract->status, ['signed', 'declined', 'cancelled', 'expired'], true)) {
+            throw new InvalidArgumentException('Comments are closed for this contract.');
+        }
+
+        return DB::transaction(function () use ($contract, $data, $signer, $ipAddress, $userAgent) {
+            $version = $this->ensureBaseline($contract);
+
+            $comment = $contract->comments()->create([
+                'version_id' => $version->id,
+                'section_id' => $data['section_id'] ?? null,
+                'quoted_text' => $data['quoted_text'] ?? null,
+                'body' => $data['body'],
+                'author_type' => ContractComment::AUTHOR_CLIENT,
+                'author_name' => $signer?->name ?? $data['author_name'],
+                'author_email' => $signer?->email ?? ($data['author_email'] ?? null),
+                'signer_id' => $signer?->id,
+            ]);
+
+            $contract->events()->create([
+                'event_type' => 'comment_added',
+                'event_data' => [
+                    'comment_id' => $comment->id,
+                    'author_name' => $comment->author_name,
+                    'version_number' => $version->version_number,
+                ],
+                'actor_type' => 'client',
+                'ip_address' => $ipAddress,
+                'user_agent' => $userAgent,
+            ]);
+
+            return $comment;
+        });
+    }
+
+    /**
+     * Mark a comment as dealt with, or reopen it.
+     */
+    public function setResolved(ContractComment $comment, User $user, bool $resolved): ContractComment
+    {
+        $comment->update([
+            'resolved_at' => $resolved ? now() : null,
+            'resolved_by' => $resolved ? $user->id : null,
+        ]);
+
+        return $comment;
+    }
+
+    /**
+     * The contract's latest version, saving its current content as version 1 if it has none.
+     */
+    protected function ensureBaseline(Contract $contract): ContractVersion
+    {
+        return $contract->versions()->reorder('version_number', 'desc')->first()
+            ?? $this->createVersion($contract, null, 'Original');
+    }
+
+    /**
+     * Snapshot the contract's current content as its next version.
+     */
+    protected function createVersion(Contract $contract, ?string $userId, ?string $summary): ContractVersion
+    {
+        $number = (int) $contract->versions()->reorder()->max('version_number') + 1;
+
+        return $contract->versions()->create([
+            'version_number' => $number,
+            'title' => $contract->title,
+            'rendered_sections' => $contract->rendered_sections ?? [],
+            'pricing_data' => $contract->pricing_data,
+            'clickwrap_text' => $contract->clickwrap_text,
+            'document_hash' => $contract->documentHash(),
+            'change_summary' => $summary,
+            'created_by' => $userId,
+        ]);
+    }
+}
@@ -0,0 +1,191 @@
+<?php
+
+namespace App\Services;
+
+use App\Jobs\GenerateCreditNotePdf;
+use App\Models\CreditNote;
+use App\Models\Invoice;
+use App\Models\InvoiceEvent;
+use App\Models\User;
+use Illuminate\Support\Facades\DB;
+use InvalidArgumentException;
+
+/**
+ * Credit Note Service
+ *
+ * Issued invoices are never edited or deleted to reduce what the client owes;
+ * a credit note is issued against them instead. A credit note is first
+ * issued, then applied (reducing the invoice's amount due) or voided.
+ *
+ * Credit is limited to what is still outstanding: an invoice with payments
+ * must have them refunded before it can be credited beyond its amount due.
+ * Voiding an invoice issues and applies a credit note for the full amount due.
+ */
+class CreditNoteService
+{
+    /**
+     * Statuses of invoices that can be credited.
+     */
+    public const CREDITABLE_STATUSES = ['sent', 'viewed', 'overdue', 'partially_paid'];
+
+    /**
+     * Amount that can still be credited: the amount due less credit notes not yet applied.
+     */
+    public function creditableAmount(Invoice $invoice): float
+    {
+        $pending = (float) $invoice->creditNotes()
+            ->where('status', CreditNote::STATUS_ISSUED)
+            ->sum('amount');
+
+        return max(0, round((float) $invoice->amount_due - $pending, 2));
+    }
+
+    /**
+     * Issue a credit note against an invoice, for the full creditable amount unless one is given.
+     */
+    public function issue(Invoice $invoice, array $data, User $user): CreditNote
+    {
+        if (!in_array($invoice->status, self::CREDITABLE_STATUSES, true)) {
+            throw new InvalidArgumentException('Only issued, unpaid invoices can be credited.');
+        }
+
+        $creditable = $this->creditableAmount($invoice);
+        $amount = round((float) ($data['amount'] ?? $creditable), 2);
+
+        if ($amount <= 0 || $amount > $creditable) {
+            throw new InvalidArgumentException(
+                "The credit must be between 0 and the creditable amount of {$creditable} {$invoice->currency}. Refund payments to credit more."
+            );
+        }
+
+        $creditNote = DB::transaction(function () use ($invoice, $data, $user, $amount) {
+            $creditNote = CreditNote::create([
+                'company_id' => $invoice->company_id,
+                'invoice_id' => $invoice->id,
+                'contact_id' => $invoice->contact_id,
+                'credit_note_number' => CreditNote::generateNumber($invoice->company),
+                'status' => CreditNote::STATUS_ISSUED,
+                'issue_date' => today(),
+                'amount' => $amount,
+                'currency' => $invoice->currency,
+                'reason' => $data['reason'] ?? null,
+                'issued_by' => $user->id,
+            ]);
+
+            $this->logEvent($invoice, 'credit_note_issued', $creditNote, $user, [
+                'reason' => $creditNote->reason,
+                'is_full' => $amount >= (float) $invoice->amount_due,
+            ]);
+
+            return $creditNote;
+        });
+
+        // Issuing can be part of voiding an invoice; render once that has committed
+        GenerateCreditNotePdf::dispatch($creditNote)->afterCommit();
+
+        if (!empty($data['apply'])) {
+            $creditNote = $this->apply($creditNote, $user);
+        }
+
+        return $creditNote;
+    }
+
+    /**
+     * Apply an issued credit note, reducing the invoice's amount due.
+     */
+    public function apply(CreditNote $creditNote, User $user): CreditNote
+    {
+        if ($creditNote->status !== CreditNote::STATUS_ISSUED) {
+            throw new InvalidArgumentException('Only issued credit notes can be applied.');
+        }
+
+        return DB::transaction(function () use ($creditNote, $user) {
+            $creditNote->update([
+                'status' => CreditNote::STATUS_APPLIED,
+                'applied_at' => now(),
+                'applied_by' => $user->id,
+            ]);
+
+            $invoice = $creditNote->invoice;
+            $invoice->syncCredits();
+
+            $this->logEvent($invoice, 'credit_note_applied', $creditNote, $user, [
+                'amount_due' => (float) $invoice->amount_due,
+            ]);
+
+            return $creditNote;
+        });
+    }
+
+    /**
+     * Void a credit note that was not applied yet.
+     */
+    public function void(CreditNote $creditNote, User $user): CreditNote
+    {
+        if ($creditNote->status !== CreditNote::STATUS_ISSUED) {
+            throw new InvalidArgumentException('Applied credit notes cannot be voided.');
+        }
+
+        $creditNote->update([
+            'status' => CreditNote::STATUS_VOID,
+            'voided_at' => now(),
+        ]);
+
+        $this->logEvent($creditNote->invoice, 'credit_note_voided', $creditNote, $user);
+
+        return $creditNote;
+    }
+
+    /**
+     * Void an issued invoice by crediting everything it still has due.
+     */
+    public function voidInvoice(Invoice $invoice, string $reason, User $user): CreditNote
+    {
+        if ((float) $invoice->amount_paid > 0) {
+            throw new InvalidArgumentException('Invoices with payments cannot be voided. Refund the payments first, or credit the amount due.');
+        }
+
+        return DB::transaction(function () use ($invoice, $reason, $user) {
+            // Pending credit notes would otherwise still count against the voided invoice
+            $invoice->creditNotes()
+                ->where('status', CreditNote::STATUS_ISSUED)
+                ->get()
+                ->each(fn(CreditNote $creditNote) => $this->void($creditNote, $user));
+
+            $creditNote = $this->issue($invoice, ['reason' => $reason, 'apply' => true], $user);
+
+            InvoiceEvent::create([
+                'invoice_id' => $invoice->id,
+                'event_type' => 'voided',
+                'event_data' => [
+                    'reason' => $reason,
+                    'credit_note_id' => $creditNote->id,
+                    'credit_note_number' => $creditNote->credit_note_number,
+                ],
+                'actor_type' => 'user',
+                'actor_id' => $user->id,
+            ]);
+
+            return $creditNote;
+        });
+    }
+
+    /**
+     * Add a credit note step to the invoice's activity timeline.
+     */
+    protected function logEvent(Invoice $invoice, string $type, CreditNote $creditNote, User $user, array $data = []): void
+    {
+        InvoiceEvent::create([
+            'invoice_id' => $invoice->id,
+            'event_type' => $type,
+            'event_data' => [
+                'credit_note_id' => $creditNote->id,
+                'credit_note_number' => $creditNote->credit_note_number,
+                'amount' => (float) $creditNote->amount,
+                ...$data,
+            ],
+            'actor_type' => 'user',
+            'actor_id' => $user->id,
+        ]);
+    }
+}
@@ -0,0 +1,298 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\Deal;
+use App\Models\DealPipeline;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\Log;
+
+/**
+ * Deal Forecast Service
+ *
+ * Builds the sales forecast for a pipeline: open deals grouped by expected
+ * close period plus historical win rates and sales cycle length.
+ *
+ * Per period:
+ * - committed: value of deals already won in the period
+ * - weighted:  committed + open deal value × deal probability
+ * - best_case: committed + full value of every open deal
+ */
+class DealForecastService
+{
+    public const GROUP_MONTH = 'month';
+    public const GROUP_QUARTER = 'quarter';
+
+    /**
+     * Build the forecast for a pipeline (the company default when none is given).
+     */
+    public function getForecast(string $companyId, ?string $pipelineId = null, string $groupBy = self::GROUP_MONTH, ?int $periods = null): array
+    {
+        try {
+            $pipeline = $pipelineId
+                ? DealPipeline::forCompany($companyId)->with('stages')->find($pipelineId)
+                : DealPipeline::defaultFor($companyId)->loadMissing('stages');
+
+            if (!$pipeline) {
+                return ['success' => false, 'error' => 'Pipeline not found'];
+            }
+
+            $groupBy = $groupBy === self::GROUP_QUARTER ? self::GROUP_QUARTER : self::GROUP_MONTH;
+            $periods = max(1, min($periods ?? ($groupBy === self::GROUP_QUARTER ? 4 : 6), 24));
+
+            $wonKeys = $pipeline->stages->where('is_won', true)->pluck('key')->all();
+            $lostKeys = $pipeline->stages->where('is_lost', true)->pluck('key')->all();
+
+            $deals = Deal::forCompany($companyId)
+                ->inPipeline($pipeline->id)
+                ->with(['assignee', 'stageChanges'])
+                ->get();
+
+            $openDeals = $deals->filter(fn($deal) => !in_array($deal->stage, array_merge($wonKeys, $lostKeys), true));
+            $wonDeals = $deals->filter(fn($deal) => in_array($deal->stage, $wonKeys, true));
+            $lostDeals = $deals->filter(fn($deal) => in_array($deal->stage, $lostKeys, true));
+
+            return [
+                'success' => true,
+                'data' => [
+                    'pipeline_id' => $pipeline->id,
+                    'group_by' => $groupBy,
+                    ...$this->buildPeriods($openDeals, $wonDeals, $groupBy, $periods),
+                    'win_rates' => [
+                        'overall' => $this->winRate($wonDeals->count(), $lostDeals->count()),
+                        'by_stage' => $this->winRatesByStage($pipeline, $wonDeals, $lostDeals),
+                        'by_assignee' => $this->winRatesByAssignee($wonDeals, $lostDeals),
+                    ],
+                    'sales_cycle' => [
+                        'avg_days_won' => $this->averageCycleDays($wonDeals),
+                        'avg_days_lost' => $this->averageCycleDays($lostDeals),
+                        'won_count' => $wonDeals->count(),
+                        'lost_count' => $lostDeals->count(),
+                    ],
+                ],
+            ];
+        } catch (\Exception $e) {
+            Log::error('DealForecastService getForecast failed', ['error' => $e->getMessage()]);
+            return ['success' => false, 'error' => $e->getMessage()];
+        }
+    }
+
+    /**
+     * Group open deals by expected close period and won deals by close period.
+     * Open deals outside the window land in the overdue/later/unscheduled buckets.
+     */
+    protected function buildPeriods(Collection $openDeals, Collection $wonDeals, string $groupBy, int $count): array
+    {
+        $start = $this->periodStart(now(), $groupBy);
+        $end = $this->addPeriods($start, $groupBy, $count);
+
+        $periods = [];
+        for ($cursor = $start->copy(); $cursor->lt($end); $cursor = $this->addPeriods($cursor, $groupBy, 1)) {
+            $periods[$this->periodKey($cursor, $groupBy)] = [
+                'key' => $this->periodKey($cursor, $groupBy),
+                'label' => $this->periodLabel($cursor, $groupBy),
+                'start' => $cursor->toDateString(),
+                'end' => $this->addPeriods($cursor, $groupBy, 1)->subDay()->toDateString(),
+                'open_count' => 0,
+                'won_count' => 0,
+                'committed' => 0.0,
+                'weighted' => 0.0,
+                'best_case' => 0.0,
+            ];
+        }
+
+        $overdue = $this->emptyBucket();
+        $later = $this->emptyBucket();
+        $unscheduled = $this->emptyBucket();
+
+        foreach ($openDeals as $deal) {
+            $value = (float) $deal->value;
+            $weighted = (float) $deal->weighted_value;
+
+            if (!$deal->expected_close_date) {
+                $this->addToBucket($unscheduled, $value, $weighted);
+            } elseif ($deal->expected_close_date->lt($start)) {
+                $this->addToBucket($overdue, $value, $weighted);
+            } elseif ($deal->expected_close_date->gte($end)) {
+                $this->addToBucket($later, $value, $weighted);
+            } else {
+                $key = $this->periodKey($deal->expected_close_date, $groupBy);
+                $periods[$key]['open_count']++;
+                $periods[$key]['weighted'] += $weighted;
+                $periods[$key]['best_case'] += $value;
+            }
+        }
+
+        foreach ($wonDeals as $deal) {
+            $closedAt = $deal->closed_at ?? $deal->updated_at;
+            $key = $this->periodKey($closedAt, $groupBy);
+
+            if (!isset($periods[$key])) {
+                continue;
+            }
+
+            $value = (float) $deal->value;
+            $periods[$key]['won_count']++;
+            $periods[$key]['committed'] += $value;
+            $periods[$key]['weighted'] += $value;
+            $periods[$key]['best_case'] += $value;
+        }
+
+        $periods = array_map(fn($period) => [
+            ...$period,
+            'committed' => round($period['committed'], 2),
+            'weighted' => round($period['weighted'], 2),
+            'best_case' => round($period['best_case'], 2),
+        ], array_values($periods));
+
+        return [
+            'periods' => $periods,
+            'totals' => [
+                'committed' => round(array_sum(array_column($periods, 'committed')), 2),
+                'weighted' => round(array_sum(array_column($periods, 'weighted')), 2),
+                'best_case' => round(array_sum(array_column($periods, 'best_case')), 2),
+            ],
+            'overdue' => $overdue,
+            'later' => $later,
+            'unscheduled' => $unscheduled,
+        ];
+    }
+
+    /**
+     * Win rate of closed deals that reached each open stage.
+     * A stage counts as reached if the deal's stage history ever entered it.
+     */
+    protected function winRatesByStage(DealPipeline $pipeline, Collection $wonDeals, Collection $lostDeals): array
+    {
+        $reached = fn(Deal $deal) => $deal->stageChanges->pluck('to_stage')->push($deal->stage)->unique();
+
+        return $pipeline->stages
+            ->reject(fn($stage) => $stage->isClosed())
+            ->map(function ($stage) use ($wonDeals, $lostDeals, $reached) {
+                $won = $wonDeals->filter(fn($deal) => $reached($deal)->contains($stage->key))->count();
+                $lost = $lostDeals->filter(fn($deal) => $reached($deal)->contains($stage->key))->count();
+
+                return [
+                    'stage' => $stage->key,
+                    'name' => $stage->name,
+                    'color' => $stage->color,
+                    ...$this->winRate($won, $lost),
+                ];
+            })
+            ->values()
+            ->all();
+    }
+
+    /**
+     * Win rate, won value and cycle length per assigned user.
+     */
+    protected function winRatesByAssignee(Collection $wonDeals, Collection $lostDeals): array
+    {
+        $closed = $wonDeals->concat($lostDeals);
+
+        return $closed->groupBy(fn($deal) => $deal->assigned_to ?? 'unassigned')
+            ->map(function (Collection $deals, string $assigneeId) use ($wonDeals) {
+                $won = $deals->filter(fn($deal) => $wonDeals->contains('id', $deal->id));
+                $assignee = $deals->first()->assignee;
+
+                return [
+                    'assignee_id' => $assigneeId === 'unassigned' ? null : $assigneeId,
+                    'name' => $assignee instanceof User
+                        ? trim($assignee->first_name . ' ' . $assignee->last_name)
+                        : 'Unassigned',
+                    ...$this->winRate($won->count(), $deals->count() - $won->count()),
+                    'won_value' => round((float) $won->sum('value'), 2),
+                    'avg_cycle_days' => $this->averageCycleDays($won),
+                ];
+            })
+            ->sortByDesc('won_value')
+            ->values()
+            ->all();
+    }
+
+    /**
+     * Average days from creation to close.
+     */
+    protected function averageCycleDays(Collection $deals): ?float
+    {
+        $durations = $deals
+            ->filter(fn($deal) => $deal->closed_at)
+            ->map(fn($deal) => $deal->created_at->diffInSeconds($deal->closed_at, true) / 86400);
+
+        return $durations->isEmpty() ? null : round($durations->avg(), 1);
+    }
+
+    /**
+     * Won/lost counts with the win rate as a percentage (null when nothing closed).
+     */
+    protected function winRate(int $won, int $lost): array
+    {
+        $closed = $won + $lost;
+
+        return [
+            'won' => $won,
+            'lost' => $lost,
+            'win_rate' => $closed > 0 ? round($won / $closed * 100, 1) : null,
+        ];
+    }
+
+    /**
+     * Totals for open deals outside the period window.
+     */
+    protected function emptyBucket(): array
+    {
+        return ['count' => 0, 'best_case' => 0.0, 'weighted' => 0.0];
+    }
+
+    /**
+     * Add an open deal to a bucket.
+     */
+    protected function addToBucket(array &$bucket, float $value, float $weighted): void
+    {
+        $bucket['count']++;
+        $bucket['best_case'] = round($bucket['best_case'] + $value, 2);
+        $bucket['weighted'] = round($bucket['weighted'] + $weighted, 2);
+    }
+
+    /**
+     * First day of the month or quarter containing the date.
+     */
+    protected function periodStart(Carbon $date, string $groupBy): Carbon
+    {
+        return $groupBy === self::GROUP_QUARTER
+            ? $date->copy()->firstOfQuarter()->startOfDay()
+            : $date->copy()->startOfMonth();
+    }
+
+    /**
+     * Move a date forward by whole months or quarters.
+     */
+    protected function addPeriods(Carbon $date, string $groupBy, int $count): Carbon
+    {
+        return $groupBy === self::GROUP_QUARTER
+            ? $date->copy()->addQuartersNoOverflow($count)
+            : $date->copy()->addMonthsNoOverflow($count);
+    }
+
+    /**
+     * Sortable key of the period containing the date, e.g. 2026-10 or 2026-Q4.
+     */
+    protected function periodKey(Carbon $date, string $groupBy): string
+    {
+        return $groupBy === self::GROUP_QUARTER
+            ? $date->format('Y') . '-Q' . $date->quarter
+            : $date->format('Y-m');
+    }
+
+    /**
+     * Display label of the period containing the date, e.g. Oct 2026 or Q4 2026.
+     */
+    protected function periodLabel(Carbon $date, string $groupBy): string
+    {
+        return $groupBy === self::GROUP_QUARTER
+            ? 'Q' . $date->quarter . ' ' . $date->format('Y')
+            : $date->format('M Y');
+    }
+}
@@ -3,8 +3,11 @@
 namespace App\Services;
 
 use App\Models\Deal;
+use App\Models\DealPipeline;
 use App\Models\User;
+use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Str;
 
 /**
  * Deal Service
@@ -23,18 +26,33 @@ public function createDeal(User $user, ?string $companyId, array $data): array
         }
 
         try {
+            $pipeline = $this->resolvePipeline($companyId, $data['pipeline_id'] ?? null);
+
+            if (!$pipeline) {
+                return ['success' => false, 'error' => 'Pipeline not found'];
+            }
+
+            $stageKey = $data['stage'] ?? $pipeline->firstOpenStage()?->key;
+            $stage = $stageKey ? $pipeline->findStage($stageKey) : null;
+
+            if (!$stage) {
+                return ['success' => false, 'error' => "Stage '{$stageKey}' does not exist in pipeline '{$pipeline->name}'"];
+            }
+
             $deal = Deal::create([
                 'company_id' => $companyId,
+                'pipeline_id' => $pipeline->id,
                 'contact_id' => $data['contact_id'] ?? null,
                 'title' => $data['title'],
                 'description' => $data['description'] ?? null,
                 'value' => $data['value'] ?? null,
                 'currency' => $data['currency'] ?? 'USD',
-                'stage' => $data['stage'] ?? 'qualification',
-                'probability' => $data['probability'] ?? Deal::STAGES[$data['stage'] ?? 'qualification']['probability'],
+                'stage' => $stage->key,
+                'probability' => $data['probability'] ?? $stage->probability,
                 'expected_close_date' => $data['expected_close_date'] ?? null,
                 'created_by' => $user->id,
                 'assigned_to' => $data['assigned_to'] ?? $user->id,
+                'closed_at' => $stage->isClosed() ? now() : null,
             ]);
 
             return [
@@ -45,8 +63,9 @@ public function createDeal(User $user, ?string $companyId, array $data): array
                     'title' => $deal->title,
                     'value' => $deal->value,
                     'currency' => $deal->currency,
+                    'pipeline_id' => $deal->pipeline_id,
                     'stage' => $deal->stage,
-                    'stage_name' => Deal::STAGES[$deal->stage]['name'],
+                    'stage_name' => $stage->name,
                     'probability' => $deal->probability,
                 ],
             ];
@@ -67,9 +86,13 @@ public function listDeals(User $user, ?string $companyId, array $filters = []):
 
         try {
             $query = Deal::forCompany($companyId)
-                ->with(['contact', 'assignee']);
+                ->with(['contact', 'assignee', 'pipeline.stages']);
 
             // Apply filters
+            if (!empty($filters['pipeline_id'])) {
+                $query->inPipeline($filters['pipeline_id']);
+            }
+
             if (!empty($filters['stage'])) {
                 $query->byStage($filters['stage']);
             }
@@ -91,15 +114,8 @@ public function listDeals(User $user, ?string $companyId, array $filters = []):
             }
 
             $limit = $filters['limit'] ?? 20;
-            $deals = $query->orderByRaw("
-                CASE stage
-                    WHEN 'qualification' THEN 1
-                    WHEN 'proposal' THEN 2
-                    WHEN 'negotiation' THEN 3
-                    WHEN 'closed_won' THEN 4
-                    WHEN 'closed_lost' THEN 5
-                END
-            ")
+            $deals = $query->orderByStage()
+                ->orderBy('position')
                 ->orderBy('expected_close_date', 'asc')
                 ->limit($limit)
                 ->get();
@@ -112,7 +128,7 @@ public function listDeals(User $user, ?string $companyId, array $filters = []):
                     'value' => $deal->value,
                     'currency' => $deal->currency,
                     'stage' => $deal->stage,
-                    'stage_name' => Deal::STAGES[$deal->stage]['name'] ?? $deal->stage,
+                    'stage_name' => $deal->stage_name,
                     'probability' => $deal->probability,
                     'weighted_value' => $deal->weighted_value,
                     'contact' => $deal->contact?->full_name,
@@ -140,7 +156,7 @@ public function getDeal(User $user, ?string $companyId, string $dealId): array
         try {
             $deal = Deal::forCompany($companyId)
                 ->where('id', $dealId)
-                ->with(['contact', 'assignee', 'creator'])
+                ->with(['contact', 'assignee', 'creator', 'pipeline.stages', 'stageChanges.user'])
                 ->first();
 
             if (!$deal) {
@@ -155,8 +171,9 @@ public function getDeal(User $user, ?string $companyId, string $dealId): array
                     'description' => $deal->description,
                     'value' => $deal->value,
                     'currency' => $deal->currency,
+                    'pipeline_id' => $deal->pipeline_id,
                     'stage' => $deal->stage,
-                    'stage_name' => Deal::STAGES[$deal->stage]['name'] ?? $deal->stage,
+                    'stage_name' => $deal->stage_name,
                     'probability' => $deal->probability,
                     'weighted_value' => $deal->weighted_value,
                     'expected_close_date' => $deal->expected_close_date?->format('Y-m-d'),
@@ -175,6 +192,7 @@ public function getDeal(User $user, ?string $companyId, string $dealId): array
                     'lost_reason' => $deal->lost_reason,
                     'closed_at' => $deal->closed_at?->format('M j, Y'),
                     'created_at' => $deal->created_at->format('M j, Y'),
+                    'stage_history' => $this->stageHistory($deal),
                 ],
             ];
         } catch (\Exception $e) {
@@ -201,9 +219,31 @@ public function updateDeal(User $user, ?string $companyId, string $dealId, array
                 return ['success' => false, 'error' => 'Deal not found'];
             }
 
+            // Handle pipeline change: keep the stage if the new pipeline has it, else start over
+            if (!empty($data['pipeline_id']) && $data['pipeline_id'] !== $deal->pipeline_id) {
+                $pipeline = $this->resolvePipeline($companyId, $data['pipeline_id']);
+
+                if (!$pipeline) {
+                    return ['success' => false, 'error' => 'Pipeline not found'];
+                }
+
+                $deal->pipeline()->associate($pipeline);
+                $targetStage = $data['stage'] ?? $deal->stage;
+
+                if (!$pipeline->findStage($targetStage)) {
+                    $targetStage = (string) $pipeline->firstOpenStage()?->key;
+                }
+
+                // Always re-apply so probability follows the new pipeline
+                $deal->moveToStage($targetStage);
+                unset($data['stage']);
+            }
+
             // Handle stage change
             if (!empty($data['stage']) && $data['stage'] !== $deal->stage) {
-                $deal->moveToStage($data['stage']);
+                if (!$deal->moveToStage($data['stage'])) {
+                    return ['success' => false, 'error' => "Stage '{$data['stage']}' does not exist in this pipeline"];
+                }
                 unset($data['stage']);
             }
 
@@ -216,6 +256,12 @@ public function updateDeal(User $user, ?string $companyId, string $dealId, array
                 unset($data['mark_lost']);
             }
 
+            // Handle manual ordering within the (possibly new) stage
+            if (isset($data['position'])) {
+                $deal->moveToPosition((int) $data['position']);
+                unset($data['position']);
+            }
+
             // Update other fields
             $allowedFields = ['title', 'description', 'value', 'currency', 'probability', 'expected_close_date', 'contact_id', 'assigned_to'];
             $updates = array_filter(
@@ -233,8 +279,10 @@ public function updateDeal(User $user, ?string $companyId, string $dealId, array
                 'data' => [
                     'id' => $deal->id,
                     'title' => $deal->title,
+                    'pipeline_id' => $deal->pipeline_id,
                     'stage' => $deal->stage,
-                    'stage_name' => Deal::STAGES[$deal->stage]['name'] ?? $deal->stage,
+                    'stage_name' => $deal->stage_name,
+                    'position' => $deal->position,
                     'value' => $deal->value,
                     'probability' => $deal->probability,
                 ],
@@ -245,10 +293,40 @@ public function updateDeal(User $user, ?string $companyId, string $dealId, array
         }
     }
 
+    /**
+     * Build the stage history of a deal with the time spent in each stage.
+     * The latest entry is the current stage and is still counting.
+     */
+    protected function stageHistory(Deal $deal): array
+    {
+        $changes = $deal->stageChanges->values();
+
+        return $changes->map(function ($change, $index) use ($deal, $changes) {
+            $leftAt = $changes->get($index + 1)?->created_at;
+
+            return [
+                'id' => $change->id,
+                'from_stage' => $change->from_stage,
+                'from_stage_name' => $change->from_stage ? $deal->stageDefinition($change->from_stage)['name'] ?? $change->from_stage : null,
+                'to_stage' => $change->to_stage,
+                'to_stage_name' => $deal->stageDefinition($change->to_stage)['name'] ?? $change->to_stage,
+                'changed_by' => $change->user ? [
+                    'id' => $change->user->id,
+                    'name' => trim($change->user->first_name . ' ' . $change->user->last_name),
+                ] : null,
+                'entered_at' => $change->created_at->toIso8601String(),
+                'left_at' => $leftAt?->toIso8601String(),
+                'duration_seconds' => (int) $change->created_at->diffInSeconds($leftAt ?? now(), true),
+                'is_current' => $leftAt === null,
+            ];
+        })->all();
+    }
+
     /**
      * Get pipeline statistics.
+     * Stage breakdown and weighted value follow the given (or default) pipeline's probabilities.
      */
-    public function getPipelineStats(?string $companyId): array
+    public function getPipelineStats(?string $companyId, ?string $pipelineId = null): array
     {
         if (!$companyId) {
             return [
@@ -260,33 +338,47 @@ public function getPipelineStats(?string $companyId): array
         }
 
         try {
-            $openDeals = Deal::forCompany($companyId)->open()->get();
+            $pipeline = $this->resolvePipeline($companyId, $pipelineId);
+
+            if (!$pipeline) {
+                return [
+                    'total_value' => 0,
+                    'weighted_value' => 0,
+                    'deals_count' => 0,
+                    'by_stage' => [],
+                ];
+            }
 
-            $totalValue = $openDeals->sum('value');
-            $weightedValue = $openDeals->sum('weighted_value');
+            $openDeals = Deal::forCompany($companyId)->inPipeline($pipeline->id)->open()->get();
 
             $byStage = [];
-            foreach (Deal::STAGES as $stageKey => $stageInfo) {
-                if (in_array($stageKey, ['closed_won', 'closed_lost'])) {
+            foreach ($pipeline->stages as $stage) {
+                if ($stage->isClosed()) {
                     continue; // Skip closed stages for pipeline stats
                 }
 
-                $stageDeals = $openDeals->where('stage', $stageKey);
-                $byStage[$stageKey] = [
-                    'name' => $stageInfo['name'],
+                $stageDeals = $openDeals->where('stage', $stage->key);
+                $stageValue = (float) $stageDeals->sum('value');
+                $byStage[$stage->key] = [
+                    'name' => $stage->name,
+                    'color' => $stage->color,
+                    'probability' => $stage->probability,
                     'count' => $stageDeals->count(),
-                    'value' => $stageDeals->sum('value'),
+                    'value' => $stageValue,
+                    'weighted_value' => round($stageValue * $stage->probability / 100, 2),
                 ];
             }
 
             // Get deals closing soon
             $closingSoon = Deal::forCompany($companyId)
+                ->inPipeline($pipeline->id)
                 ->closingSoon(7)
                 ->count();
 
             return [
-                'total_value' => $totalValue,
-                'weighted_value' => $weightedValue,
+                'pipeline_id' => $pipeline->id,
+                'total_value' => (float) $openDeals->sum('value'),
+                'weighted_value' => round(array_sum(array_column($byStage, 'weighted_value')), 2),
                 'deals_count' => $openDeals->count(),
                 'closing_soon' => $closingSoon,
                 'by_stage' => $byStage,
@@ -301,5 +393,218 @@ public function getPipelineStats(?string $companyId): array
             ];
         }
     }
+
+    /**
+     * List the company's pipelines with their stages.
+     */
+    public function listPipelines(string $companyId): array
+    {
+        // Make sure every company has at least the default pipeline
+        DealPipeline::defaultFor($companyId);
+
+        $pipelines = DealPipeline::forCompany($companyId)
+            ->with('stages')
+            ->orderBy('order')
+            ->get();
+
+        return [
+            'success' => true,
+            'data' => $pipelines->map(fn($pipeline) => $pipeline->toApiArray())->toArray(),
+        ];
+    }
+
+    /**
+     * Create a pipeline. Without stages it is seeded with the default ones.
+     */
+    public function createPipeline(string $companyId, array $data): array
+    {
+        try {
+            $pipeline = DB::transaction(function () use ($companyId, $data) {
+                if (empty($data['stages'])) {
+                    $pipeline = DealPipeline::createWithDefaultStages($companyId, $data['name']);
+                } else {
+                    $pipeline = DealPipeline::create([
+                        'company_id' => $companyId,
+                        'name' => $data['name'],
+                        'order' => DealPipeline::forCompany($companyId)->max('order') + 1,
+                    ]);
+                    $this->syncStages($pipeline, $data['stages']);
+                }
+
+                if (!empty($data['is_default'])) {
+                    $this->makeDefault($pipeline);
+                }
+
+                return $pipeline->load('stages');
+            });
+
+            return ['success' => true, 'data' => $pipeline->toApiArray()];
+        } catch (\InvalidArgumentException $e) {
+            return ['success' => false, 'error' => $e->getMessage()];
+        } catch (\Exception $e) {
+            Log::error('DealService createPipeline failed', ['error' => $e->getMessage()]);
+            return ['success' => false, 'error' => $e->getMessage()];
+        }
+    }
+
+    /**
+     * Update a pipeline's name, default flag and stages.
+     */
+    public function updatePipeline(string $companyId, string $pipelineId, array $data): array
+    {
+        $pipeline = DealPipeline::forCompany($companyId)->with('stages')->find($pipelineId);
+
+        if (!$pipeline) {
+            return ['success' => false, 'error' => 'Pipeline not found'];
+        }
+
+        try {
+            DB::transaction(function () use ($pipeline, $data) {
+                if (isset($data['name'])) {
+                    $pipeline->update(['name' => $data['name']]);
+                }
+
+                if (isset($data['stages'])) {
+                    $this->syncStages($pipeline, $data['stages']);
+                }
+
+                if (!empty($data['is_default'])) {
+                    $this->makeDefault($pipeline);
+                }
+            });
+
+            return ['success' => true, 'data' => $pipeline->fresh('stages')->toApiArray()];
+        } catch (\InvalidArgumentException $e) {
+            return ['success' => false, 'error' => $e->getMessage()];
+        } catch (\Exception $e) {
+            Log::error('DealService updatePipeline failed', ['error' => $e->getMessage()]);
+            return ['success' => false, 'error' => $e->getMessage()];
+        }
+    }
+
+    /**
+     * Delete a pipeline that has no deals and is not the default.
+     */
+    public function deletePipeline(string $companyId, string $pipelineId): array
+    {
+        $pipeline = DealPipeline::forCompany($companyId)->find($pipelineId);
+
+        if (!$pipeline) {
+            return ['success' => false, 'error' => 'Pipeline not found'];
+        }
+
+        if ($pipeline->is_default) {
+            return ['success' => false, 'error' => 'The default pipeline cannot be deleted'];
+        }
+
+        if ($pipeline->deals()->exists()) {
+            return ['success' => false, 'error' => 'Move or delete the deals in this pipeline first'];
+        }
+
+        $pipeline->delete();
+
+        return ['success' => true, 'message' => "Deleted pipeline '{$pipeline->name}'"];
+    }
+
+    /**
+     * Resolve a pipeline by ID, or the company's default pipeline.
+     */
+    protected function resolvePipeline(string $companyId, ?string $pipelineId): ?DealPipeline
+    {
+        if ($pipelineId) {
+            return DealPipeline::forCompany($companyId)->with('stages')->find($pipelineId);
+        }
+
+        return DealPipeline::defaultFor($companyId)->loadMissing('stages');
+    }
+
+    /**
+     * Replace a pipeline's stages with the given ordered list.
+     * Stages are matched by id; removed stages must not hold any deals.
+     */
+    protected function syncStages(DealPipeline $pipeline, array $stages): void
+    {
+        if (count(array_filter($stages, fn($s) => empty($s['is_won']) && empty($s['is_lost']))) === 0) {
+            throw new \InvalidArgumentException('A pipeline needs at least one open stage');
+        }
+
+        if (count(array_filter($stages, fn($s) => !empty($s['is_won']))) > 1
+            || count(array_filter($stages, fn($s) => !empty($s['is_lost']))) > 1) {
+            throw new \InvalidArgumentException('A pipeline can have only one closed-won and one closed-lost stage');
+        }
+
+        $existing = $pipeline->stages()->get()->keyBy('id');
+        $keptIds = [];
+        $usedKeys = [];
+
+        foreach (array_values($stages) as $index => $stageData) {
+            $stage = isset($stageData['id']) ? $existing->get($stageData['id']) : null;
+
+            // Keys are stable once created since deals reference them
+            $key = $stage?->key ?? $this->uniqueStageKey($stageData['name'], $existing->pluck('key')->merge($usedKeys)->all());
+            $usedKeys[] = $key;
+
+            $attributes = [
+                'key' => $key,
+                'name' => $stageData['name'],
+                'color' => $stageData['color'] ?? 'primary',
+                'probability' => (int) ($stageData['probability'] ?? 0),
+                'order' => $index + 1,
+                'is_won' => !empty($stageData['is_won']),
+                'is_lost' => !empty($stageData['is_lost']),
+            ];
+
+            if ($stage) {
+                $stage->update($attributes);
+            } else {
+                $stage = $pipeline->stages()->create($attributes);
+            }
+
+            $keptIds[] = $stage->id;
+        }
+
+        $removed = $existing->except($keptIds);
+
+        if ($removed->isNotEmpty()) {
+            $inUse = Deal::inPipeline($pipeline->id)->whereIn('stage', $removed->pluck('key'))->exists();
+
+            if ($inUse) {
+                throw new \InvalidArgumentException('Move the deals out of a stage before removing it');
+            }
+
+            $pipeline->stages()->whereIn('id', $removed->keys())->delete();
+        }
+
+        $pipeline->unsetRelation('stages');
+    }
+
+    /**
+     * Build a stage key from its name that is unique within the pipeline.
+     */
+    protected function uniqueStageKey(string $name, array $taken): string
+    {
+        $base = Str::limit(Str::slug($name, '_'), 40, '') ?: 'stage';
+        $key = $base;
+        $suffix = 2;
+
+        while (in_array($key, $taken, true)) {
+            $key = "{$base}_{$suffix}";
+            $suffix++;
+        }
+
+        return $key;
+    }
+
+    /**
+     * Make a pipeline the company's default.
+     */
+    protected function makeDefault(DealPipeline $pipeline): void
+    {
+        DealPipeline::forCompany($pipeline->company_id)
+            ->where('id', '!=', $pipeline->id)
+            ->update(['is_default' => false]);
+
+        $pipeline->update(['is_default' => true]);
+    }
 }
 
@@ -3,6 +3,8 @@
 namespace App\Services;
 
 use App\Models\Contract;
+use App\Models\ContractSignature;
+use App\Models\CreditNote;
 use App\Models\Invoice;
 use Dompdf\Dompdf;
 use Dompdf\Options;
@@ -46,6 +48,24 @@ public function generateInvoicePdf(Invoice $invoice): string
         return $filename;
     }
 
+    /**
+     * Generate PDF for a credit note.
+     */
+    public function generateCreditNotePdf(CreditNote $creditNote): string
+    {
+        $html = $this->renderCreditNoteHtml($creditNote);
+        
+        $pdf = $this->createPdfFromHtml($html);
+        
+        // Generate filename
+        $filename = 'credit-notes/' . $creditNote->id . '_' . time() . '.pdf';
+        
+        // Save to storage
+        Storage::put($filename, $pdf);
+        
+        return $filename;
+    }
+
     /**
      * Create PDF from HTML.
      */
@@ -204,14 +224,23 @@ private function renderContractHtml(Contract $contract): string
         $html .= '<div class="signature-section">
             <h2>Signatures</h2>';
         
-        if ($contract->client_signed_at) {
-            $html .= '<div class="signature-block">
-                <div><strong>Client:</strong></div>
-                <div class="signature-line">
-                    ' . e($contract->client_signed_by) . '<br>
-                    Signed on: ' . $contract->client_signed_at->format('F j, Y \a\t g:i A') . '
-                </div>
-            </div>';
+        if ($contract->signers()->exists()) {
+            // Multi-party contracts get one block per signature given so far
+            foreach ($contract->signatures()->with('signer')->get() as $signature) {
+                $html .= $this->signatureBlockHtml(
+                    ucfirst($signature->signer?->role ?? 'client'),
+                    $signature->signer_name . ($signature->signer?->title ? ', ' . $signature->signer->title : ''),
+                    $signature->signed_at,
+                    $signature
+                );
+            }
+        } elseif ($contract->client_signed_at) {
+            $html .= $this->signatureBlockHtml(
+                'Client',
+                $contract->client_signed_by,
+                $contract->client_signed_at,
+                $contract->signatures()->reorder('signed_at', 'desc')->first()
+            );
         }
         
         if ($contract->provider_signed_at) {
@@ -236,6 +265,34 @@ private function renderContractHtml(Contract $contract): string
         return $html;
     }
 
+    /**
+     * HTML for one signer's block: signature image, name, date and evidence.
+     */
+    protected function signatureBlockHtml(string $label, ?string $name, \DateTimeInterface $signedAt, ?ContractSignature $signature): string
+    {
+        $html = '<div class="signature-block">
+            <div><strong>' . e($label) . ':</strong></div>';
+
+        $image = $signature?->imageDataUri();
+        if ($image) {
+            $html .= '<img src="' . $image . '" style="max-height: 60px; max-width: 240px;">';
+        }
+
+        $html .= '<div class="signature-line">
+                ' . e($name) . '<br>
+                Signed on: ' . $signedAt->format('F j, Y \a\t g:i A') . '
+            </div>';
+
+        if ($signature) {
+            $html .= '<div style="font-size: 9px; color: #666;">
+                ' . e(ucfirst($signature->method)) . ' signature from IP ' . e($signature->ip_address ?? 'unknown') . '<br>
+                Document SHA-256: ' . e($signature->document_hash) . '
+            </div>';
+        }
+
+        return $html . '</div>';
+    }
+
     /**
      * Render a single section.
      */
@@ -431,24 +488,36 @@ private function renderInvoiceHtml(Invoice $invoice): string
             $html .= '</div>';
         }
 
-        // Line items
+        // Line items; discount and tax columns only when a line uses them
+        $hasDiscounts = $invoice->lineItems->contains(fn($item) => $item->discount_rate > 0);
+        $hasTaxes = $invoice->lineItems->contains(fn($item) => !empty($item->taxes));
+
         $html .= '<table class="line-items">
         <thead>
             <tr>
                 <th>Description</th>
                 <th class="text-right">Quantity</th>
-                <th class="text-right">Unit Price</th>
+                <th class="text-right">Unit Price</th>'
+                . ($hasDiscounts ? '<th class="text-right">Discount</th>' : '')
+                . ($hasTaxes ? '<th>Tax</th>' : '') . '
                 <th class="text-right">Amount</th>
             </tr>
         </thead>
         <tbody>';
         
         foreach ($invoice->lineItems as $item) {
+            $taxNames = array_map(
+                fn($tax) => e($tax['name']) . ' ' . $this->formatPercent($tax['rate']),
+                $item->taxes ?? []
+            );
+
             $html .= '<tr>
             <td>' . nl2br(e($item->description)) . '</td>
             <td class="text-right">' . $item->quantity . '</td>
-            <td class="text-right">$' . number_format($item->unit_price, 2) . '</td>
-            <td class="text-right">$' . number_format($item->amount, 2) . '</td>
+            <td class="text-right">' . $this->formatMoney($item->unit_price, $invoice->currency) . '</td>'
+            . ($hasDiscounts ? '<td class="text-right">' . ($item->discount_rate > 0 ? $this->formatPercent($item->discount_rate) : '') . '</td>' : '')
+            . ($hasTaxes ? '<td>' . implode(', ', $taxNames) . '</td>' : '') . '
+            <td class="text-right">' . $this->formatMoney($item->amount, $invoice->currency) . '</td>
         </tr>';
         }
         
@@ -460,36 +529,52 @@ private function renderInvoiceHtml(Invoice $invoice): string
         <table>
             <tr>
                 <td>Subtotal:</td>
-                <td class="text-right">$' . number_format($invoice->subtotal, 2) . '</td>
+                <td class="text-right">' . $this->formatMoney($invoice->subtotal, $invoice->currency) . '</td>
             </tr>';
         
         if ($invoice->discount_amount > 0) {
             $html .= '<tr>
             <td>Discount (' . $invoice->discount_rate . '%):</td>
-            <td class="text-right">-$' . number_format($invoice->discount_amount, 2) . '</td>
+            <td class="text-right">-' . $this->formatMoney($invoice->discount_amount, $invoice->currency) . '</td>
         </tr>';
         }
         
-        if ($invoice->tax_amount > 0) {
+        if (!empty($invoice->tax_breakdown)) {
+            // One row per tax rate, showing the amount it was charged on
+            foreach ($invoice->tax_breakdown as $tax) {
+                $html .= '<tr>
+            <td>' . e($tax['name']) . ' (' . $this->formatPercent($tax['rate']) . ' on ' . $this->formatMoney($tax['taxable'], $invoice->currency) . '):</td>
+            <td class="text-right">' . $this->formatMoney($tax['amount'], $invoice->currency) . '</td>
+        </tr>';
+            }
+        } elseif ($invoice->tax_amount > 0) {
             $html .= '<tr>
             <td>Tax (' . $invoice->tax_rate . '%):</td>
-            <td class="text-right">$' . number_format($invoice->tax_amount, 2) . '</td>
+            <td class="text-right">' . $this->formatMoney($invoice->tax_amount, $invoice->currency) . '</td>
         </tr>';
         }
         
         $html .= '<tr class="total">
             <td>Total:</td>
-            <td class="text-right">$' . number_format($invoice->total, 2) . ' ' . $invoice->currency . '</td>
+            <td class="text-right">' . $this->formatMoney($invoice->total, $invoice->currency) . ' ' . $invoice->currency . '</td>
         </tr>';
         
-        if ($invoice->amount_paid > 0) {
-            $html .= '<tr>
+        if ($invoice->amount_paid > 0 || $invoice->amount_credited > 0) {
+            if ($invoice->amount_paid > 0) {
+                $html .= '<tr>
             <td>Amount Paid:</td>
-            <td class="text-right">$' . number_format($invoice->amount_paid, 2) . '</td>
-        </tr>
-        <tr class="total">
+            <td class="text-right">' . $this->formatMoney($invoice->amount_paid, $invoice->currency) . '</td>
+        </tr>';
+            }
+            if ($invoice->amount_credited > 0) {
+                $html .= '<tr>
+            <td>Credited:</td>
+            <td class="text-right">-' . $this->formatMoney($invoice->amount_credited, $invoice->currency) . '</td>
+        </tr>';
+            }
+            $html .= '<tr class="total">
             <td>Amount Due:</td>
-            <td class="text-right">$' . number_format($invoice->amount_due, 2) . '</td>
+            <td class="text-right">' . $this->formatMoney($invoice->amount_due, $invoice->currency) . '</td>
         </tr>';
         }
         
@@ -521,5 +606,177 @@ private function renderInvoiceHtml(Invoice $invoice): string
 
         return $html;
     }
-}
 
+    /**
+     * Render credit note HTML.
+     */
+    private function renderCreditNoteHtml(CreditNote $creditNote): string
+    {
+        $company = $creditNote->company;
+        $contact = $creditNote->contact;
+        $invoice = $creditNote->invoice;
+        
+        $html = '<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>Credit Note - ' . e($creditNote->credit_note_number) . '</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            font-size: 11pt;
+            color: #333;
+            margin: 40px;
+        }
+        .header {
+            display: table;
+            width: 100%;
+            margin-bottom: 40px;
+        }
+        .header-left, .header-right {
+            display: table-cell;
+            width: 50%;
+            vertical-align: top;
+        }
+        .header-right {
+            text-align: right;
+        }
+        .title {
+            font-size: 32pt;
+            font-weight: bold;
+            color: #333;
+        }
+        .number {
+            font-size: 14pt;
+            color: #666;
+            margin-top: 5px;
+        }
+        .company-info {
+            margin-top: 10px;
+        }
+        .bill-to {
+            margin: 40px 0;
+            padding: 20px;
+            background-color: #f9f9f9;
+            border-left: 4px solid #333;
+        }
+        .bill-to h3 {
+            margin: 0 0 10px 0;
+        }
+        .text-right {
+            text-align: right;
+        }
+        .totals {
+            width: 300px;
+            margin-left: auto;
+            margin-top: 20px;
+        }
+        .totals table {
+            width: 100%;
+        }
+        .totals td {
+            padding: 8px 0;
+        }
+        .totals tr.total {
+            font-size: 14pt;
+            font-weight: bold;
+            border-top: 2px solid #333;
+        }
+        .reason {
+            margin-top: 40px;
+            padding: 20px;
+            background-color: #f9f9f9;
+        }
+        .footer {
+            margin-top: 60px;
+            text-align: center;
+            font-size: 9pt;
+            color: #666;
+            border-top: 1px solid #ccc;
+            padding-top: 20px;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div class="header-left">
+            <div class="title">CREDIT NOTE</div>
+            <div class="number">' . e($creditNote->credit_note_number) . '</div>
+            <div class="company-info">
+                <strong>' . e($company->name) . '</strong>
+            </div>
+        </div>
+        <div class="header-right">
+            <div><strong>Issue Date:</strong> ' . $creditNote->issue_date->format('F j, Y') . '</div>
+            <div><strong>Invoice:</strong> ' . e($invoice->invoice_number) . '</div>
+            <div><strong>Invoice Date:</strong> ' . $invoice->issue_date->format('F j, Y') . '</div>
+        </div>
+    </div>';
+
+        if ($contact) {
+            $html .= '<div class="bill-to">
+        <h3>Credited To:</h3>
+        <div>' . e($contact->full_name) . '</div>';
+            if ($contact->organization) {
+                $html .= '<div>' . e($contact->organization) . '</div>';
+            }
+            if ($contact->email) {
+                $html .= '<div>' . e($contact->email) . '</div>';
+            }
+            $html .= '</div>';
+        }
+
+        $html .= '<div class="totals">
+        <table>
+        <tr>
+            <td>Invoice Total:</td>
+            <td class="text-right">' . $this->formatMoney($invoice->total, $invoice->currency) . '</td>
+        </tr>
+        <tr class="total">
+            <td>Credit:</td>
+            <td class="text-right">-' . $this->formatMoney($creditNote->amount, $creditNote->currency) . ' ' . $creditNote->currency . '</td>
+        </tr>
+        </table>
+    </div>';
+
+        if ($creditNote->reason) {
+            $html .= '<div class="reason">
+        <strong>Reason:</strong><br>
+        ' . nl2br(e($creditNote->reason)) . '
+    </div>';
+        }
+
+        $html .= '<div class="footer">
+        <p>' . e($company->name) . '</p>
+    </div>
+</body>
+</html>';
+
+        return $html;
+    }
+
+    /**
+     * Format an amount in its currency, e.g. $1,234.50 or €1.234,50.
+     */
+    private function formatMoney($amount, string $currency): string
+    {
+        if (class_exists(\NumberFormatter::class)) {
+            $formatted = (new \NumberFormatter(app()->getLocale(), \NumberFormatter::CURRENCY))
+                ->formatCurrency((float) $amount, strtoupper($currency));
+
+            if ($formatted !== false) {
+                return e($formatted);
+            }
+        }
+
+        return e(strtoupper($currency)) . ' ' . number_format((float) $amount, 2);
+    }
+
+    /**
+     * Format a percentage without trailing zeros, e.g. 20% or 9.975%.
+     */
+    private function formatPercent($rate): string
+    {
+        return rtrim(rtrim(number_format((float) $rate, 3, '.', ''), '0'), '.') . '%';
+    }
+}
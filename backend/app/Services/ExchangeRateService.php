@@ -0,0 +1,167 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\Company;
+use App\Models\Invoice;
+use Illuminate\Support\Facades\Cache;
+use Illuminate\Support\Facades\Http;
+use Illuminate\Support\Facades\Log;
+
+/**
+ * Exchange Rate Service
+ *
+ * Converts invoice amounts into the company's base currency
+ * (settings.documents.base_currency). Rates set by the company in
+ * settings.documents.exchange_rates win over the configured provider.
+ *
+ * A rate is always "1 unit of the invoice currency = rate units of base".
+ */
+class ExchangeRateService
+{
+    public const DEFAULT_CURRENCY = 'USD';
+
+    /**
+     * Provider rates already looked up during this request.
+     */
+    protected array $resolved = [];
+
+    /**
+     * The company's base currency.
+     */
+    public function baseCurrency(Company $company): string
+    {
+        return strtoupper($company->settings['documents']['base_currency'] ?? self::DEFAULT_CURRENCY);
+    }
+
+    /**
+     * Current rate from a currency to the company's base currency, null when unknown.
+     */
+    public function rate(Company $company, string $currency): ?float
+    {
+        $currency = strtoupper($currency);
+        $base = $this->baseCurrency($company);
+
+        if ($currency === $base) {
+            return 1.0;
+        }
+
+        $manual = $company->settings['documents']['exchange_rates'][$currency] ?? null;
+        if (is_numeric($manual) && $manual > 0) {
+            return (float) $manual;
+        }
+
+        return $this->providerRate($currency, $base);
+    }
+
+    /**
+     * Store the current rate on an issued invoice so its base value no longer moves.
+     */
+    public function captureRate(Invoice $invoice): void
+    {
+        if ($invoice->exchange_rate !== null) {
+            return;
+        }
+
+        $company = $invoice->company;
+        $rate = $this->rate($company, $invoice->currency);
+
+        if ($rate === null) {
+            Log::warning('No exchange rate available when issuing invoice', [
+                'invoice_id' => $invoice->id,
+                'currency' => $invoice->currency,
+            ]);
+            return;
+        }
+
+        $invoice->update([
+            'exchange_rate' => $rate,
+            'base_currency' => $this->baseCurrency($company),
+        ]);
+    }
+
+    /**
+     * Convert an invoice amount to the company's base currency.
+     * Uses the rate captured at issue when it was captured against the current base.
+     */
+    public function toBase(Invoice $invoice, float $amount, Company $company): ?float
+    {
+        $base = $this->baseCurrency($company);
+
+        $rate = $invoice->exchange_rate !== null && $invoice->base_currency === $base
+            ? (float) $invoice->exchange_rate
+            : $this->rate($company, $invoice->currency);
+
+        return $rate === null ? null : round($amount * $rate, 2);
+    }
+
+    /**
+     * Sum invoice amounts in the base currency.
+     * Currencies without a known rate are left out and reported.
+     *
+     * @param  iterable<Invoice>  $invoices
+     * @param  callable(Invoice): float  $amount
+     */
+    public function sumInBase(iterable $invoices, callable $amount, Company $company): array
+    {
+        $total = 0.0;
+        $unconverted = [];
+
+        foreach ($invoices as $invoice) {
+            $converted = $this->toBase($invoice, $amount($invoice), $company);
+
+            if ($converted === null) {
+                $unconverted[$invoice->currency] = true;
+                continue;
+            }
+
+            $total += $converted;
+        }
+
+        return [
+            'amount' => round($total, 2),
+            'unconverted_currencies' => array_keys($unconverted),
+        ];
+    }
+
+    /**
+     * Latest rate from the configured provider, cached.
+     */
+    protected function providerRate(string $from, string $to): ?float
+    {
+        $url = config('services.exchange_rates.url');
+
+        if (!$url) {
+            return null;
+        }
+
+        // Remember misses too, so one unknown currency doesn't time out on every invoice
+        if (array_key_exists("{$from}:{$to}", $this->resolved)) {
+            return $this->resolved["{$from}:{$to}"];
+        }
+
+        return $this->resolved["{$from}:{$to}"] = Cache::remember(
+            "exchange_rate:{$from}:{$to}",
+            (int) config('services.exchange_rates.cache_ttl', 21600),
+            function () use ($url, $from, $to) {
+                try {
+                    $response = Http::timeout(5)->get(rtrim($url, '/') . '/latest', [
+                        'from' => $from,
+                        'to' => $to,
+                    ]);
+
+                    $rate = $response->successful() ? $response->json("rates.{$to}") : null;
+
+                    return is_numeric($rate) ? (float) $rate : null;
+                } catch (\Exception $e) {
+                    Log::warning('Exchange rate lookup failed', [
+                        'from' => $from,
+                        'to' => $to,
+                        'error' => $e->getMessage(),
+                    ]);
+                    return null;
+                }
+            }
+        );
+    }
+}
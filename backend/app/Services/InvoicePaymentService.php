@@ -0,0 +1,242 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\Invoice;
+use App\Models\InvoiceEvent;
+use App\Models\Payment;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
+use InvalidArgumentException;
+
+/**
+ * Invoice Payment Service
+ *
+ * Records manual payments (bank transfer, cheque, ...) and refunds against an
+ * invoice and keeps the invoice's amount paid, amount due and status in sync.
+ */
+class InvoicePaymentService
+{
+    public function __construct(
+        protected StripePaymentService $stripeService,
+        protected ExchangeRateService $exchangeRates
+    ) {}
+
+    /**
+     * Record a payment received outside Stripe.
+     */
+    public function recordPayment(Invoice $invoice, array $data, User $user): Payment
+    {
+        if ($invoice->status === 'cancelled') {
+            throw new InvalidArgumentException('Payments cannot be recorded on a cancelled invoice.');
+        }
+
+        if ((float) $data['amount'] > (float) $invoice->amount_due) {
+            throw new InvalidArgumentException('The payment is larger than the amount due.');
+        }
+
+        return DB::transaction(function () use ($invoice, $data, $user) {
+            $payment = Payment::create([
+                'company_id' => $invoice->company_id,
+                'invoice_id' => $invoice->id,
+                'type' => Payment::TYPE_PAYMENT,
+                'amount' => $data['amount'],
+                'currency' => $invoice->currency,
+                'payment_method' => $data['payment_method'],
+                'status' => 'succeeded',
+                'reference' => $data['reference'] ?? null,
+                'notes' => $data['notes'] ?? null,
+                'processed_at' => Carbon::parse($data['paid_at'] ?? now()),
+                'recorded_by' => $user->id,
+            ]);
+
+            $invoice->syncPayments();
+
+            // A draft that gets paid has effectively been issued
+            $this->exchangeRates->captureRate($invoice);
+
+            $this->logEvent($invoice, $invoice->status === 'paid' ? 'paid' : 'partially_paid', $payment, $user);
+
+            return $payment;
+        });
+    }
+
+    /**
+     * Refund part or all of a payment. Stripe payments are refunded through Stripe.
+     */
+    public function refundPayment(Payment $payment, array $data, User $user): Payment
+    {
+        if ($payment->isRefund() || !in_array($payment->status, ['succeeded', 'refunded'], true)) {
+            throw new InvalidArgumentException('Only successful payments can be refunded.');
+        }
+
+        $amount = round((float) ($data['amount'] ?? $payment->netAmount()), 2);
+
+        if ($amount <= 0 || $amount > round($payment->netAmount(), 2)) {
+            throw new InvalidArgumentException('The refund cannot exceed what is left of the payment.');
+        }
+
+        $refunded = round((float) ($payment->refund_amount ?? 0) + $amount, 2);
+
+        if (!$payment->isManual() && $payment->stripe_payment_intent_id) {
+            $this->stripeService->refundPayment($payment, $payment->company, $amount);
+        }
+
+        return DB::transaction(function () use ($payment, $data, $user, $amount, $refunded) {
+            $refund = Payment::create([
+                'company_id' => $payment->company_id,
+                'invoice_id' => $payment->invoice_id,
+                'type' => Payment::TYPE_REFUND,
+                'refunded_payment_id' => $payment->id,
+                'amount' => $amount,
+                'currency' => $payment->currency,
+                'payment_method' => $payment->payment_method,
+                'status' => 'succeeded',
+                'reference' => $data['reference'] ?? null,
+                'notes' => $data['notes'] ?? null,
+                'processed_at' => Carbon::parse($data['refunded_at'] ?? now()),
+                'recorded_by' => $user->id,
+            ]);
+
+            // Keep the cumulative refund on the original payment, like Stripe refunds do
+            $payment->update([
+                'refund_amount' => $refunded,
+                'refunded_at' => $refund->processed_at,
+                'status' => $refunded >= (float) $payment->amount ? 'refunded' : 'succeeded',
+            ]);
+
+            if ($payment->invoice) {
+                $payment->invoice->syncPayments();
+                $this->logEvent($payment->invoice, 'refunded', $refund, $user);
+            }
+
+            return $refund;
+        });
+    }
+
+    /**
+     * Remove a manual payment that was recorded by mistake, along with its refunds.
+     */
+    public function deletePayment(Payment $payment, User $user): void
+    {
+        if (!$payment->isManual()) {
+            throw new InvalidArgumentException('Stripe payments cannot be deleted; refund them instead.');
+        }
+
+        DB::transaction(function () use ($payment, $user) {
+            $invoice = $payment->invoice;
+            $original = $payment->refundedPayment;
+
+            $payment->delete();
+
+            // Deleting a refund entry gives the amount back to its payment
+            if ($original) {
+                $refunded = max(0, round((float) $original->refund_amount - (float) $payment->amount, 2));
+                $original->update([
+                    'refund_amount' => $refunded ?: null,
+                    'refunded_at' => $refunded > 0 ? $original->refunded_at : null,
+                    'status' => 'succeeded',
+                ]);
+            }
+
+            if ($invoice) {
+                $invoice->syncPayments();
+                $this->logEvent($invoice, 'payment_deleted', $payment, $user);
+            }
+        });
+    }
+
+    /**
+     * Payments and refunds in date order, with the balance due after each entry.
+     */
+    public function ledger(Invoice $invoice): array
+    {
+        $payments = $invoice->payments()
+            ->with('recorder:id,first_name,last_name')
+            ->get();
+
+        $entries = $payments->map(fn(Payment $payment) => $this->ledgerEntry($payment));
+
+        // Refunds made directly in Stripe only exist as refund_amount on the payment
+        foreach ($payments->where('type', Payment::TYPE_PAYMENT) as $payment) {
+            $recorded = $payments->where('refunded_payment_id', $payment->id)->sum(fn($refund) => (float) $refund->amount);
+            $missing = round((float) ($payment->refund_amount ?? 0) - $recorded, 2);
+
+            if ($missing > 0) {
+                $entries->push([
+                    ...$this->ledgerEntry($payment),
+                    'id' => "{$payment->id}-refund",
+                    'type' => Payment::TYPE_REFUND,
+                    'refunded_payment_id' => $payment->id,
+                    'amount' => $missing,
+                    'refund_amount' => null,
+                    'status' => 'succeeded',
+                    'processed_at' => ($payment->refunded_at ?? $payment->updated_at)?->toIso8601String(),
+                ]);
+            }
+        }
+
+        // Applied credit notes are not ledger entries, but they lower what is owed
+        $balance = (float) $invoice->total - (float) $invoice->amount_credited;
+
+        return $entries
+            ->sortBy('processed_at')
+            ->values()
+            ->map(function (array $entry) use (&$balance) {
+                $counts = $entry['type'] === Payment::TYPE_REFUND || in_array($entry['status'], ['succeeded', 'refunded'], true);
+
+                if ($counts) {
+                    $balance += $entry['type'] === Payment::TYPE_REFUND ? $entry['amount'] : -$entry['amount'];
+                }
+
+                return [...$entry, 'balance' => $counts ? round($balance, 2) : null];
+            })
+            ->all();
+    }
+
+    /**
+     * API representation of a payment or refund entry.
+     */
+    protected function ledgerEntry(Payment $entry): array
+    {
+        return [
+            'id' => $entry->id,
+            'type' => $entry->type,
+            'refunded_payment_id' => $entry->refunded_payment_id,
+            'amount' => (float) $entry->amount,
+            'refund_amount' => $entry->refund_amount !== null ? (float) $entry->refund_amount : null,
+            'currency' => $entry->currency,
+            'payment_method' => $entry->payment_method,
+            'status' => $entry->status,
+            'reference' => $entry->reference,
+            'notes' => $entry->notes,
+            'receipt_url' => $entry->receipt_url,
+            'failed_reason' => $entry->failed_reason,
+            'processed_at' => ($entry->processed_at ?? $entry->created_at)?->toIso8601String(),
+            'recorded_by' => $entry->recorder ? [
+                'id' => $entry->recorder->id,
+                'name' => trim($entry->recorder->first_name . ' ' . $entry->recorder->last_name),
+            ] : null,
+        ];
+    }
+
+    /**
+     * Add a payment entry to the invoice's activity timeline.
+     */
+    protected function logEvent(Invoice $invoice, string $type, Payment $payment, User $user): void
+    {
+        InvoiceEvent::create([
+            'invoice_id' => $invoice->id,
+            'event_type' => $type,
+            'event_data' => [
+                'payment_id' => $payment->id,
+                'amount' => (float) $payment->amount,
+                'payment_method' => $payment->payment_method,
+                'reference' => $payment->reference,
+            ],
+            'actor_type' => 'user',
+            'actor_id' => $user->id,
+        ]);
+    }
+}
@@ -0,0 +1,341 @@
+<?php
+
+namespace App\Services;
+
+use App\Jobs\SendInvoiceReminder;
+use App\Models\Company;
+use App\Models\CompanyContact;
+use App\Models\Invoice;
+use App\Models\InvoiceEvent;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\Log;
+
+/**
+ * Invoice Reminder Service
+ *
+ * Dunning for unpaid invoices. The company's reminder schedule is a list of
+ * steps relative to the due date (negative offsets are before it, zero is
+ * the due date, positive offsets are after it), each with its own email.
+ *
+ * On every run an invoice receives at most one reminder: the latest step
+ * whose date has passed, unless it was already sent. Steps dated before the
+ * invoice was sent are never used, so late invoices don't get a burst of
+ * "due in 7 days" emails.
+ */
+class InvoiceReminderService
+{
+    /**
+     * Invoice events shown on the reminders timeline.
+     */
+    public const TIMELINE_EVENTS = [
+        'sent', 'viewed', 'resent', 'reminder_sent', 'overdue', 'send_failed',
+        'reminders_paused', 'reminders_resumed', 'partially_paid', 'paid',
+    ];
+
+    public function __construct(
+        protected MergeFieldService $mergeFields,
+        protected DocumentEmailService $documentEmails
+    ) {}
+
+    /**
+     * The company's reminder steps, ordered by offset.
+     * Companies that only have the legacy "days before due" list get one step per day.
+     */
+    public function schedule(Company $company): array
+    {
+        $settings = $company->settings['documents'] ?? [];
+
+        $steps = $settings['invoice_reminder_schedule']
+            ?? array_map(fn($days) => ['offset_days' => -abs((int) $days)], $settings['invoice_auto_reminder_days'] ?? [7, 3, 1]);
+
+        $steps = array_map(fn($step) => $this->normalizeStep($step), $steps);
+        usort($steps, fn($a, $b) => $a['offset_days'] <=> $b['offset_days']);
+
+        return $steps;
+    }
+
+    /**
+     * Default email for a step at an offset.
+     */
+    public function defaultStep(int $offsetDays): array
+    {
+        if ($offsetDays < 0) {
+            $subject = 'Invoice {{invoice.number}} is due on {{invoice.due_date}}';
+            $intro = 'This is a friendly reminder that invoice {{invoice.number}} for {{invoice.amount_due}} is due on {{invoice.due_date}}.';
+        } elseif ($offsetDays === 0) {
+            $subject = 'Invoice {{invoice.number}} is due today';
+            $intro = 'Invoice {{invoice.number}} for {{invoice.amount_due}} is due today.';
+        } else {
+            $subject = 'Invoice {{invoice.number}} is overdue';
+            $intro = 'Invoice {{invoice.number}} for {{invoice.amount_due}} was due on {{invoice.due_date}} and is now {{invoice.days_overdue}} days overdue.';
+        }
+
+        return [
+            'id' => 'offset_' . $offsetDays,
+            'offset_days' => $offsetDays,
+            'enabled' => true,
+            'subject' => $subject,
+            'body' => "Hi {{client.first_name}},\n\n{$intro}\n\nYou can view and pay it here: {{invoice.payment_url}}\n\nThank you,\n{{company.name}}",
+        ];
+    }
+
+    /**
+     * Mark issued invoices past their due date as overdue.
+     */
+    public function markOverdue(?Carbon $today = null): int
+    {
+        $today = ($today ?? now())->copy()->startOfDay();
+        $marked = 0;
+
+        Invoice::whereIn('status', ['sent', 'viewed'])
+            ->where('due_date', '<', $today)
+            ->chunkById(100, function ($invoices) use (&$marked) {
+                foreach ($invoices as $invoice) {
+                    $invoice->update(['status' => 'overdue']);
+
+                    InvoiceEvent::create([
+                        'invoice_id' => $invoice->id,
+                        'event_type' => 'overdue',
+                        'event_data' => ['due_date' => $invoice->due_date->toDateString()],
+                        'actor_type' => 'system',
+                    ]);
+
+                    $marked++;
+                }
+            });
+
+        return $marked;
+    }
+
+    /**
+     * Send the reminders that are due, skipping paused invoices and contacts.
+     */
+    public function sendDue(?Carbon $today = null): int
+    {
+        $today = ($today ?? now())->copy()->startOfDay();
+        $sent = 0;
+        $schedules = [];
+
+        Invoice::whereIn('status', ReceivablesService::OPEN_STATUSES)
+            ->where('amount_due', '>', 0)
+            ->whereNotNull('due_date')
+            ->where('reminders_paused', false)
+            ->whereNotExists(fn($query) => $query->from('company_contacts')
+                ->whereColumn('company_contacts.company_id', 'invoices.company_id')
+                ->whereColumn('company_contacts.contact_id', 'invoices.contact_id')
+                ->where('company_contacts.invoice_reminders_paused', true))
+            ->with(['company', 'contact', 'project'])
+            ->chunkById(100, function ($invoices) use ($today, &$sent, &$schedules) {
+                foreach ($invoices as $invoice) {
+                    try {
+                        $schedules[$invoice->company_id] ??= $this->schedule($invoice->company);
+                        $step = $this->dueStep($invoice, $schedules[$invoice->company_id], $today);
+
+                        if ($step && $this->send($invoice, $step)) {
+                            $sent++;
+                        }
+                    } catch (\Exception $e) {
+                        Log::error('InvoiceReminderService sendDue failed', [
+                            'invoice_id' => $invoice->id,
+                            'error' => $e->getMessage(),
+                        ]);
+                    }
+                }
+            });
+
+        return $sent;
+    }
+
+    /**
+     * The step an invoice should be reminded with today, if any.
+     */
+    public function dueStep(Invoice $invoice, array $steps, Carbon $today): ?array
+    {
+        $sentOn = ($invoice->sent_at ?? $invoice->issue_date)?->copy()->startOfDay();
+
+        $step = collect($steps)
+            ->where('enabled', true)
+            ->filter(fn($step) => $this->stepDate($invoice, $step)->lte($today))
+            ->last();
+
+        if (!$step || ($sentOn && $this->stepDate($invoice, $step)->lt($sentOn))) {
+            return null;
+        }
+
+        return in_array($step['id'], $this->sentStepIds($invoice), true) ? null : $step;
+    }
+
+    /**
+     * Email one reminder step for an invoice and log it on the timeline.
+     */
+    public function send(Invoice $invoice, array $step): bool
+    {
+        if (!$invoice->contact?->email) {
+            return false;
+        }
+
+        ['subject' => $subject, 'body' => $body] = $this->render($invoice, $step);
+
+        InvoiceEvent::create([
+            'invoice_id' => $invoice->id,
+            'event_type' => 'reminder_sent',
+            'event_data' => [
+                'step_id' => $step['id'],
+                'offset_days' => $step['offset_days'],
+                'subject' => $subject,
+                'recipient_email' => $invoice->contact->email,
+                'amount_due' => (float) $invoice->amount_due,
+                'automatic' => true,
+            ],
+            'actor_type' => 'system',
+        ]);
+
+        SendInvoiceReminder::dispatch($invoice, $invoice->contact->email, $invoice->contact->full_name, $subject, $body);
+
+        return true;
+    }
+
+    /**
+     * Fill in a step's subject and body for an invoice.
+     */
+    public function render(Invoice $invoice, array $step): array
+    {
+        $invoice->loadMissing(['company', 'contact', 'project']);
+        $values = $this->mergeFields->extractInvoiceValues($invoice, $this->documentEmails->getInvoiceUrl($invoice));
+
+        return [
+            'subject' => $this->mergeFields->replaceMergeFields($step['subject'], $values),
+            'body' => $this->mergeFields->replaceMergeFields($step['body'], $values),
+        ];
+    }
+
+    /**
+     * Pause or resume reminders for one invoice.
+     */
+    public function setInvoicePaused(Invoice $invoice, bool $paused, User $user): void
+    {
+        if ($invoice->reminders_paused === $paused) {
+            return;
+        }
+
+        $invoice->update(['reminders_paused' => $paused]);
+
+        InvoiceEvent::create([
+            'invoice_id' => $invoice->id,
+            'event_type' => $paused ? 'reminders_paused' : 'reminders_resumed',
+            'event_data' => ['scope' => 'invoice'],
+            'actor_type' => 'user',
+            'actor_id' => $user->id,
+        ]);
+    }
+
+    /**
+     * Pause or resume reminders for every invoice of a contact.
+     */
+    public function setContactPaused(CompanyContact $relationship, bool $paused): void
+    {
+        $relationship->update(['invoice_reminders_paused' => $paused]);
+    }
+
+    /**
+     * Whether a company paused reminders for a contact.
+     */
+    public function isContactPaused(string $companyId, ?string $contactId): bool
+    {
+        return $contactId !== null && CompanyContact::where('company_id', $companyId)
+            ->where('contact_id', $contactId)
+            ->where('invoice_reminders_paused', true)
+            ->exists();
+    }
+
+    /**
+     * Reminder history and upcoming steps of an invoice.
+     */
+    public function timeline(Invoice $invoice, ?Carbon $today = null): array
+    {
+        $today = ($today ?? now())->copy()->startOfDay();
+        $contactPaused = $this->isContactPaused($invoice->company_id, $invoice->contact_id);
+
+        $events = $invoice->events()
+            ->whereIn('event_type', self::TIMELINE_EVENTS)
+            ->orderBy('created_at')
+            ->get()
+            ->map(fn(InvoiceEvent $event) => [
+                'id' => $event->id,
+                'event_type' => $event->event_type,
+                'actor_type' => $event->actor_type,
+                'created_at' => $event->created_at?->toIso8601String(),
+                'step_id' => $event->event_data['step_id'] ?? null,
+                'offset_days' => $event->event_data['offset_days'] ?? null,
+                'subject' => $event->event_data['subject'] ?? null,
+                'recipient_email' => $event->event_data['recipient_email'] ?? null,
+                'error' => $event->event_data['error'] ?? null,
+            ])
+            ->values()
+            ->all();
+
+        $upcoming = [];
+        if (in_array($invoice->status, ReceivablesService::OPEN_STATUSES, true) && $invoice->due_date && (float) $invoice->amount_due > 0) {
+            $sentStepIds = $this->sentStepIds($invoice);
+
+            foreach ($this->schedule($invoice->company) as $step) {
+                $date = $this->stepDate($invoice, $step);
+                if ($step['enabled'] && $date->gt($today) && !in_array($step['id'], $sentStepIds, true)) {
+                    $upcoming[] = [
+                        'step_id' => $step['id'],
+                        'offset_days' => $step['offset_days'],
+                        'subject' => $this->render($invoice, $step)['subject'],
+                        'scheduled_for' => $date->toDateString(),
+                    ];
+                }
+            }
+        }
+
+        return [
+            'paused' => (bool) $invoice->reminders_paused,
+            'contact_paused' => $contactPaused,
+            'events' => $events,
+            'upcoming' => $upcoming,
+        ];
+    }
+
+    /**
+     * Date a step falls on for an invoice.
+     */
+    protected function stepDate(Invoice $invoice, array $step): Carbon
+    {
+        return $invoice->due_date->copy()->startOfDay()->addDays($step['offset_days']);
+    }
+
+    /**
+     * Ids of the schedule steps already sent for an invoice.
+     */
+    protected function sentStepIds(Invoice $invoice): array
+    {
+        return $invoice->events()
+            ->where('event_type', 'reminder_sent')
+            ->get(['event_data'])
+            ->map(fn($event) => $event->event_data['step_id'] ?? null)
+            ->filter()
+            ->values()
+            ->all();
+    }
+
+    /**
+     * Fill in defaults for a stored step.
+     */
+    protected function normalizeStep(array $step): array
+    {
+        $offset = (int) ($step['offset_days'] ?? 0);
+        $default = $this->defaultStep($offset);
+
+        return [
+            'id' => (string) ($step['id'] ?? $default['id']),
+            'offset_days' => $offset,
+            'enabled' => (bool) ($step['enabled'] ?? true),
+            'subject' => ($step['subject'] ?? '') !== '' ? $step['subject'] : $default['subject'],
+            'body' => ($step['body'] ?? '') !== '' ? $step['body'] : $default['body'],
+        ];
+    }
+}
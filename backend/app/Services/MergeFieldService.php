@@ -4,10 +4,18 @@
 
 use App\Models\Company;
 use App\Models\Contact;
+use App\Models\ContractTemplate;
+use App\Models\CustomMergeField;
+use App\Models\Invoice;
 use App\Models\Project;
 
 class MergeFieldService
 {
+    /**
+     * Pricing data lists a template section can repeat over.
+     */
+    public const REPEAT_SOURCES = ['milestones', 'line_items'];
+
     /**
      * Get all available merge fields.
      */
@@ -101,6 +109,92 @@ public function getAvailableFields(): array
         ];
     }
 
+    /**
+     * Every merge field a company's contracts can use: the built-in fields
+     * filled in from the client, project and company, the company's custom
+     * fields, and the template's own fields when a template is given.
+     *
+     * Each field has a "source" of system, company or template. Only system
+     * fields are resolved automatically; the rest fall back to their default
+     * value and otherwise have to be filled in when creating a contract.
+     */
+    public function fieldsFor(string $companyId, ?ContractTemplate $template = null): array
+    {
+        $fields = [];
+
+        foreach ($this->getAvailableFields() as $field) {
+            $fields[$field['key']] = [...$field, 'default_value' => null, 'format' => null, 'source' => 'system'];
+        }
+
+        CustomMergeField::forCompany($companyId)
+            ->orderBy('category')
+            ->orderBy('label')
+            ->get()
+            ->each(function (CustomMergeField $field) use (&$fields) {
+                $fields[$field->key] ??= [
+                    'id' => $field->id,
+                    'key' => $field->key,
+                    'label' => $field->label,
+                    'type' => $field->type,
+                    'category' => $field->category,
+                    'default_value' => $field->default_value,
+                    'format' => $field->format,
+                    'source' => 'company',
+                ];
+            });
+
+        foreach ($template?->merge_fields ?? [] as $field) {
+            $key = is_array($field) ? trim((string) ($field['key'] ?? '')) : '';
+
+            // Fields the builder found in the template text are only listed
+            // here when nothing else defines them; {{item.*}} belongs to repeatable blocks
+            if ($key === '' || isset($fields[$key]) || str_starts_with($key, 'item.')) {
+                continue;
+            }
+
+            $fields[$key] = [
+                'key' => $key,
+                'label' => $field['label'] ?? $key,
+                'type' => in_array($field['type'] ?? null, CustomMergeField::TYPES, true) ? $field['type'] : 'text',
+                'category' => in_array($field['category'] ?? null, CustomMergeField::CATEGORIES, true) ? $field['category'] : 'contract',
+                'default_value' => $field['default_value'] ?? null,
+                'format' => $field['format'] ?? null,
+                'source' => 'template',
+            ];
+        }
+
+        return array_values($fields);
+    }
+
+    /**
+     * Formatted values for the custom fields in the given list, from the
+     * values entered for the contract or else each field's default.
+     * Fields left without a value are skipped so their placeholder stays
+     * visible in the contract.
+     */
+    public function customValues(array $fields, array $provided): array
+    {
+        $values = [];
+
+        foreach ($fields as $field) {
+            if (($field['source'] ?? 'system') === 'system') {
+                continue;
+            }
+
+            $raw = $provided[$field['key']] ?? null;
+            if ($raw === null || trim((string) $raw) === '') {
+                $raw = $field['default_value'] ?? '';
+            }
+
+            $formatted = CustomMergeField::formatValue((string) $raw, $field['type'] ?? 'text', $field['format'] ?? null);
+            if ($formatted !== '') {
+                $values[$field['key']] = $formatted;
+            }
+        }
+
+        return $values;
+    }
+
     /**
      * Extract merge field values from contact, project, and company.
      */
@@ -138,6 +232,45 @@ public function extractValues(?Contact $contact, ?Project $project, Company $com
         return $values;
     }
 
+    /**
+     * Merge fields available in invoice emails, on top of the client and company fields.
+     */
+    public function getInvoiceFields(): array
+    {
+        return [
+            ['key' => 'invoice.number', 'label' => 'Invoice Number', 'type' => 'text', 'category' => 'invoice'],
+            ['key' => 'invoice.title', 'label' => 'Invoice Title', 'type' => 'text', 'category' => 'invoice'],
+            ['key' => 'invoice.total', 'label' => 'Invoice Total', 'type' => 'currency', 'category' => 'invoice'],
+            ['key' => 'invoice.amount_due', 'label' => 'Amount Due', 'type' => 'currency', 'category' => 'invoice'],
+            ['key' => 'invoice.issue_date', 'label' => 'Issue Date', 'type' => 'date', 'category' => 'invoice'],
+            ['key' => 'invoice.due_date', 'label' => 'Due Date', 'type' => 'date', 'category' => 'invoice'],
+            ['key' => 'invoice.days_overdue', 'label' => 'Days Overdue', 'type' => 'text', 'category' => 'invoice'],
+            ['key' => 'invoice.payment_url', 'label' => 'Payment Link', 'type' => 'text', 'category' => 'invoice'],
+        ];
+    }
+
+    /**
+     * Extract merge field values for an invoice, its client and company.
+     */
+    public function extractInvoiceValues(Invoice $invoice, string $paymentUrl): array
+    {
+        $values = $this->extractValues($invoice->contact, $invoice->project, $invoice->company);
+        $currency = $invoice->currency ?: 'USD';
+
+        $values['invoice.number'] = $invoice->invoice_number;
+        $values['invoice.title'] = $invoice->title ?? '';
+        $values['invoice.total'] = $currency . ' ' . number_format((float) $invoice->total, 2);
+        $values['invoice.amount_due'] = $currency . ' ' . number_format((float) $invoice->amount_due, 2);
+        $values['invoice.issue_date'] = $invoice->issue_date ? $invoice->issue_date->format('F j, Y') : '';
+        $values['invoice.due_date'] = $invoice->due_date ? $invoice->due_date->format('F j, Y') : '';
+        $values['invoice.days_overdue'] = (string) ($invoice->due_date && $invoice->due_date->lt(today())
+            ? (int) $invoice->due_date->diffInDays(today())
+            : 0);
+        $values['invoice.payment_url'] = $paymentUrl;
+
+        return $values;
+    }
+
     /**
      * Replace merge fields in content with actual values.
      */
@@ -175,6 +308,251 @@ public function replaceSections(array $sections, array $values): array
         return $replaced;
     }
 
+    /**
+     * Drop template sections whose display conditions fail and expand
+     * repeatable blocks, giving the plain sections a contract is rendered from.
+     *
+     * A section's "conditions" are tested against the merge field values plus
+     * contract_type and pricing.* keys (see conditionValues). A section with
+     * "repeat" set to milestones or line_items is repeated once per entry in
+     * pricing_data, with {{item.*}} fields filled in; tables keep their header
+     * and repeat only the rows that use an item field.
+     */
+    public function applySectionLogic(array $sections, array $values, string $contractType, array $pricingData): array
+    {
+        $conditionValues = $this->conditionValues($values, $contractType, $pricingData);
+
+        usort($sections, fn($a, $b) => ($a['order'] ?? 0) <=> ($b['order'] ?? 0));
+
+        $rendered = [];
+
+        foreach ($sections as $section) {
+            if (!$this->isSectionVisible($section, $conditionValues)) {
+                continue;
+            }
+
+            $repeat = $section['repeat'] ?? null;
+            $expanded = in_array($repeat, self::REPEAT_SOURCES, true)
+                ? $this->repeatSection($section, $this->pricingItems($pricingData, $repeat))
+                : [$section];
+
+            foreach ($expanded as $entry) {
+                $rendered[] = [
+                    'id' => $entry['id'] ?? null,
+                    'type' => $entry['type'] ?? 'paragraph',
+                    'content' => $entry['content'] ?? [],
+                    'order' => count($rendered),
+                ];
+            }
+        }
+
+        return $rendered;
+    }
+
+    /**
+     * Template sections rendered for a contract: section logic first, then merge fields.
+     */
+    public function renderSections(array $sections, array $values, string $contractType, array $pricingData): array
+    {
+        return $this->replaceSections(
+            $this->applySectionLogic($sections, $values, $contractType, $pricingData),
+            $values
+        );
+    }
+
+    /**
+     * Flat lookup of everything a section condition can test.
+     */
+    public function conditionValues(array $values, string $contractType, array $pricingData): array
+    {
+        return array_merge($values, [
+            'contract_type' => $contractType,
+            'pricing.total' => $this->pricingTotal($contractType, $pricingData),
+            'pricing.amount' => $pricingData['amount'] ?? null,
+            'pricing.currency' => $pricingData['currency'] ?? null,
+            'pricing.interval' => $pricingData['interval'] ?? null,
+            'pricing.period' => $pricingData['period'] ?? null,
+            'pricing.milestone_count' => count($this->pricingItems($pricingData, 'milestones')),
+            'pricing.line_item_count' => count($this->pricingItems($pricingData, 'line_items')),
+        ]);
+    }
+
+    /**
+     * Test one condition. Numeric operators compare the numbers found in the
+     * value, so "$12,500.00" is greater than 10000; everything else compares
+     * text case-insensitively.
+     */
+    public function evaluateCondition(array $condition, array $values): bool
+    {
+        $actual = $values[$condition['field'] ?? ''] ?? null;
+        $text = $actual === null ? '' : trim((string) $actual);
+        $expected = trim((string) ($condition['value'] ?? ''));
+
+        switch ($condition['operator'] ?? 'equals') {
+            case 'is_empty':
+                return $text === '';
+            case 'is_not_empty':
+                return $text !== '';
+            case 'contains':
+                return $expected !== '' && str_contains(mb_strtolower($text), mb_strtolower($expected));
+            case 'greater_than':
+            case 'less_than':
+                $a = $this->toNumber($actual);
+                $b = $this->toNumber($expected);
+                if ($a === null || $b === null) {
+                    return false;
+                }
+
+                return $condition['operator'] === 'greater_than' ? $a > $b : $a < $b;
+            case 'equals':
+            case 'not_equals':
+                $a = $this->toNumber($actual);
+                $b = $this->toNumber($expected);
+                $equal = $a !== null && $b !== null ? $a == $b : mb_strtolower($text) === mb_strtolower($expected);
+
+                return $condition['operator'] === 'equals' ? $equal : !$equal;
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Whether a section's conditions allow it into the contract.
+     */
+    private function isSectionVisible(array $section, array $values): bool
+    {
+        $conditions = array_filter($section['conditions'] ?? [], fn($c) => is_array($c) && !empty($c['field']));
+
+        if (empty($conditions)) {
+            return true;
+        }
+
+        $results = array_map(fn($c) => $this->evaluateCondition($c, $values), $conditions);
+
+        return ($section['condition_match'] ?? 'all') === 'any'
+            ? in_array(true, $results, true)
+            : !in_array(false, $results, true);
+    }
+
+    /**
+     * Repeat a section for each pricing item.
+     */
+    private function repeatSection(array $section, array $items): array
+    {
+        if (($section['type'] ?? null) === 'table') {
+            $rows = [];
+
+            foreach ($section['content']['cells'] ?? [] as $row) {
+                $usesItem = (bool) array_filter((array) $row, fn($cell) => is_string($cell) && preg_match('/\{\{\s*item\./', $cell));
+
+                if (!$usesItem) {
+                    $rows[] = $row;
+                    continue;
+                }
+
+                foreach (array_values($items) as $index => $item) {
+                    $rows[] = $this->replaceItemFields($row, $this->itemValues($item, $index));
+                }
+            }
+
+            $section['content']['cells'] = $rows;
+            $section['content']['rows'] = count($rows);
+
+            return [$section];
+        }
+
+        $repeated = [];
+
+        foreach (array_values($items) as $index => $item) {
+            $repeated[] = array_merge($section, [
+                'id' => ($section['id'] ?? 'section') . '-' . ($index + 1),
+                'content' => $this->replaceItemFields($section['content'] ?? [], $this->itemValues($item, $index)),
+            ]);
+        }
+
+        return $repeated;
+    }
+
+    /**
+     * {{item.*}} values for one milestone or line item.
+     */
+    private function itemValues(array $item, int $index): array
+    {
+        return [
+            'number' => (string) ($index + 1),
+            'name' => (string) ($item['name'] ?? ''),
+            'description' => (string) ($item['description'] ?? ''),
+            'due_date' => (string) (($item['due_date'] ?? null) ?: 'TBD'),
+            'quantity' => (string) ($item['quantity'] ?? ''),
+            'unit_price' => number_format($this->toNumber($item['unit_price'] ?? null) ?? 0, 2),
+            'amount' => number_format($this->toNumber($item['amount'] ?? null) ?? 0, 2),
+        ];
+    }
+
+    /**
+     * Replace {{item.*}} fields in a string or nested array.
+     */
+    private function replaceItemFields(mixed $value, array $fields): mixed
+    {
+        if (is_string($value)) {
+            return preg_replace_callback(
+                '/\{\{\s*item\.(\w+)\s*\}\}/',
+                fn($m) => $fields[$m[1]] ?? $m[0],
+                $value
+            );
+        }
+
+        if (is_array($value)) {
+            return array_map(fn($entry) => $this->replaceItemFields($entry, $fields), $value);
+        }
+
+        return $value;
+    }
+
+    /**
+     * Milestones or line items from pricing data.
+     */
+    private function pricingItems(array $pricingData, string $source): array
+    {
+        $items = $pricingData[$source] ?? [];
+
+        return is_array($items) ? array_values(array_filter($items, 'is_array')) : [];
+    }
+
+    /**
+     * Total contract value the way the pricing form calculates it.
+     */
+    private function pricingTotal(string $contractType, array $pricingData): float
+    {
+        return match ($contractType) {
+            'milestone' => array_sum(array_map(
+                fn($m) => $this->toNumber($m['amount'] ?? null) ?? 0,
+                $this->pricingItems($pricingData, 'milestones')
+            )),
+            'subscription' => ($this->toNumber($pricingData['amount'] ?? null) ?? 0)
+                * ($this->toNumber($pricingData['period'] ?? null) ?? 12),
+            default => $this->toNumber($pricingData['amount'] ?? null) ?? 0,
+        };
+    }
+
+    /**
+     * The number in a value such as "$10,000.00", or null if there isn't one.
+     */
+    private function toNumber(mixed $value): ?float
+    {
+        if (is_int($value) || is_float($value)) {
+            return (float) $value;
+        }
+
+        if (!is_string($value)) {
+            return null;
+        }
+
+        $cleaned = preg_replace('/[^0-9.\-]/', '', $value);
+
+        return is_numeric($cleaned) ? (float) $cleaned : null;
+    }
+
     /**
      * Recursively replace merge fields in arrays.
      */
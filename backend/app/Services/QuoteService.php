@@ -0,0 +1,438 @@
+<?php
+
+namespace App\Services;
+
+use App\Jobs\SendQuoteEmail;
+use App\Models\Company;
+use App\Models\Contract;
+use App\Models\ContractEvent;
+use App\Models\ContractTemplate;
+use App\Models\Invoice;
+use App\Models\InvoiceEvent;
+use App\Models\InvoiceLineItem;
+use App\Models\Quote;
+use App\Models\QuoteEvent;
+use App\Models\QuoteLineItem;
+use App\Models\TaxRate;
+use App\Models\User;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Str;
+use InvalidArgumentException;
+
+/**
+ * Quote Service
+ *
+ * Quotes are priced like invoices (line items with discounts and taxes) but
+ * ask the client to accept or decline on the public page before anything is
+ * billed. An accepted quote is converted once, into either a draft contract
+ * from a template or a draft invoice with the same line items.
+ */
+class QuoteService
+{
+    public function __construct(
+        protected MergeFieldService $mergeFields,
+        protected ExchangeRateService $exchangeRates
+    ) {}
+
+    /**
+     * Create a draft quote with its line items.
+     */
+    public function create(Company $company, array $data, User $user): Quote
+    {
+        return DB::transaction(function () use ($company, $data, $user) {
+            $quote = Quote::create([
+                'company_id' => $company->id,
+                'contact_id' => $data['contact_id'],
+                'project_id' => $data['project_id'] ?? null,
+                'deal_id' => $data['deal_id'] ?? null,
+                'quote_number' => Quote::generateNumber($company),
+                'title' => $data['title'] ?? null,
+                'status' => Quote::STATUS_DRAFT,
+                'issue_date' => $data['issue_date'],
+                'valid_until' => $data['valid_until'],
+                'discount_rate' => $data['discount_rate'] ?? 0,
+                'currency' => strtoupper($data['currency'] ?? $this->exchangeRates->baseCurrency($company)),
+                'terms' => $data['terms'] ?? null,
+                'notes' => $data['notes'] ?? null,
+                'created_by' => $user->id,
+            ]);
+
+            $this->saveLineItems($quote, $data['line_items']);
+
+            $this->logEvent($quote, 'created', [], $user);
+
+            return $quote;
+        });
+    }
+
+    /**
+     * Update a draft quote, replacing its line items when given.
+     */
+    public function update(Quote $quote, array $data): Quote
+    {
+        if ($quote->status !== Quote::STATUS_DRAFT) {
+            throw new InvalidArgumentException('Only draft quotes can be edited.');
+        }
+
+        return DB::transaction(function () use ($quote, $data) {
+            $quote->fill(collect($data)->only([
+                'contact_id', 'project_id', 'deal_id', 'title', 'issue_date', 'valid_until',
+                'discount_rate', 'terms', 'notes',
+            ])->all());
+
+            if (isset($data['currency'])) {
+                $quote->currency = strtoupper($data['currency']);
+            }
+
+            $quote->save();
+
+            if (isset($data['line_items'])) {
+                $quote->lineItems()->delete();
+                $this->saveLineItems($quote, $data['line_items']);
+            } else {
+                $quote->calculateTotals();
+                $quote->save();
+            }
+
+            return $quote;
+        });
+    }
+
+    /**
+     * Send a quote to its contact for acceptance.
+     */
+    public function send(Quote $quote, User $user): Quote
+    {
+        if (!in_array($quote->status, [Quote::STATUS_DRAFT, ...Quote::OPEN_STATUSES], true)) {
+            throw new InvalidArgumentException('This quote can no longer be sent.');
+        }
+
+        if ($quote->isExpired()) {
+            throw new InvalidArgumentException('The quote is past its validity date. Extend it before sending.');
+        }
+
+        $contact = $quote->contact;
+
+        if (!$contact?->email) {
+            throw new InvalidArgumentException('The contact has no email address.');
+        }
+
+        $isResend = $quote->status !== Quote::STATUS_DRAFT;
+
+        if (!$isResend) {
+            $quote->update([
+                'status' => Quote::STATUS_SENT,
+                'sent_at' => now(),
+                'sent_by' => $user->id,
+            ]);
+        }
+
+        $this->logEvent($quote, $isResend ? 'resent' : 'sent', ['recipient_email' => $contact->email], $user);
+
+        SendQuoteEmail::dispatch($quote, $contact->email, $contact->full_name);
+
+        return $quote;
+    }
+
+    /**
+     * Record the client opening the public quote page.
+     */
+    public function markViewed(Quote $quote, ?string $ip, ?string $userAgent): void
+    {
+        $this->expireIfPastValidity($quote);
+
+        QuoteEvent::create([
+            'quote_id' => $quote->id,
+            'event_type' => 'viewed',
+            'event_data' => ['viewed_at' => now()->toISOString()],
+            'actor_type' => 'client',
+            'ip_address' => $ip,
+            'user_agent' => $userAgent,
+        ]);
+
+        if ($quote->status === Quote::STATUS_SENT) {
+            $quote->update(['status' => Quote::STATUS_VIEWED]);
+        }
+    }
+
+    /**
+     * Accept a quote on behalf of the client.
+     */
+    public function accept(Quote $quote, string $acceptedBy, ?string $ip, ?string $userAgent): Quote
+    {
+        $this->assertAwaitingResponse($quote);
+
+        $quote->update([
+            'status' => Quote::STATUS_ACCEPTED,
+            'accepted_at' => now(),
+            'accepted_by' => $acceptedBy,
+            'client_ip_address' => $ip,
+        ]);
+
+        QuoteEvent::create([
+            'quote_id' => $quote->id,
+            'event_type' => 'accepted',
+            'event_data' => ['accepted_by' => $acceptedBy],
+            'actor_type' => 'client',
+            'ip_address' => $ip,
+            'user_agent' => $userAgent,
+        ]);
+
+        return $quote;
+    }
+
+    /**
+     * Decline a quote on behalf of the client.
+     */
+    public function decline(Quote $quote, ?string $reason, ?string $ip, ?string $userAgent): Quote
+    {
+        $this->assertAwaitingResponse($quote);
+
+        $quote->update([
+            'status' => Quote::STATUS_DECLINED,
+            'declined_at' => now(),
+            'decline_reason' => $reason,
+            'client_ip_address' => $ip,
+        ]);
+
+        QuoteEvent::create([
+            'quote_id' => $quote->id,
+            'event_type' => 'declined',
+            'event_data' => ['reason' => $reason],
+            'actor_type' => 'client',
+            'ip_address' => $ip,
+            'user_agent' => $userAgent,
+        ]);
+
+        return $quote;
+    }
+
+    /**
+     * Convert an accepted quote into a draft contract built from a template.
+     */
+    public function convertToContract(Quote $quote, ContractTemplate $template, User $user): Contract
+    {
+        $this->assertConvertible($quote);
+
+        return DB::transaction(function () use ($quote, $template, $user) {
+            $this->lockForConversion($quote);
+
+            $company = $quote->company;
+            $mergeValues = [
+                ...$this->mergeFields->extractValues($quote->contact, $quote->project, $company),
+                // Custom fields take their defaults; anything else can be filled in by editing the contract
+                ...$this->mergeFields->customValues($this->mergeFields->fieldsFor($company->id, $template), []),
+            ];
+            $pricingData = [
+                'amount' => (float) $quote->total,
+                'currency' => $quote->currency,
+                'quote_id' => $quote->id,
+                'quote_number' => $quote->quote_number,
+                'line_items' => $quote->lineItems->map(fn(QuoteLineItem $item) => [
+                    'description' => $item->description,
+                    'quantity' => (float) $item->quantity,
+                    'unit_price' => (float) $item->unit_price,
+                    'amount' => (float) $item->amount,
+                ])->all(),
+            ];
+
+            $contract = Contract::create([
+                'company_id' => $company->id,
+                'template_id' => $template->id,
+                'contact_id' => $quote->contact_id,
+                'project_id' => $quote->project_id,
+                'deal_id' => $quote->deal_id,
+                'title' => $quote->title ?: "Quote {$quote->quote_number}",
+                'contract_number' => Contract::generateNumber($company),
+                'contract_type' => 'fixed_price',
+                'pricing_data' => $pricingData,
+                'rendered_sections' => $this->mergeFields->renderSections($template->sections, $mergeValues, 'fixed_price', $pricingData),
+                'merge_field_values' => $mergeValues,
+                'clickwrap_text' => $template->clickwrap_text,
+                'status' => 'draft',
+                'token' => Str::random(64),
+                'expires_at' => now()->addDays($company->settings['documents']['contract_auto_expire_days'] ?? 30),
+                'notes' => $quote->notes,
+            ]);
+
+            ContractEvent::create([
+                'contract_id' => $contract->id,
+                'event_type' => 'created',
+                'event_data' => ['quote_id' => $quote->id, 'quote_number' => $quote->quote_number],
+                'actor_type' => 'user',
+                'actor_id' => $user->id,
+            ]);
+
+            $this->markConverted($quote, ['contract_id' => $contract->id], $user, [
+                'contract_id' => $contract->id,
+                'contract_number' => $contract->contract_number,
+            ]);
+
+            return $contract;
+        });
+    }
+
+    /**
+     * Convert an accepted quote into a draft invoice with the same line items.
+     */
+    public function convertToInvoice(Quote $quote, User $user, int $dueDays = 30): Invoice
+    {
+        $this->assertConvertible($quote);
+
+        return DB::transaction(function () use ($quote, $user, $dueDays) {
+            $this->lockForConversion($quote);
+
+            $invoice = Invoice::create([
+                'company_id' => $quote->company_id,
+                'contact_id' => $quote->contact_id,
+                'project_id' => $quote->project_id,
+                'deal_id' => $quote->deal_id,
+                'invoice_number' => Invoice::generateNumber($quote->company),
+                'title' => $quote->title,
+                'issue_date' => today(),
+                'due_date' => today()->addDays($dueDays),
+                'status' => 'draft',
+                'discount_rate' => $quote->discount_rate,
+                'currency' => $quote->currency,
+                'payment_terms' => $quote->terms,
+                'notes' => $quote->notes,
+                'token' => Str::random(64),
+            ]);
+
+            foreach ($quote->lineItems as $item) {
+                InvoiceLineItem::create([
+                    'invoice_id' => $invoice->id,
+                    'description' => $item->description,
+                    'quantity' => $item->quantity,
+                    'unit_price' => $item->unit_price,
+                    'discount_rate' => $item->discount_rate,
+                    'taxes' => $item->taxes,
+                    'order' => $item->order,
+                ]);
+            }
+
+            $invoice->calculateTotals();
+            $invoice->save();
+
+            InvoiceEvent::create([
+                'invoice_id' => $invoice->id,
+                'event_type' => 'created',
+                'event_data' => ['quote_id' => $quote->id, 'quote_number' => $quote->quote_number],
+                'actor_type' => 'user',
+                'actor_id' => $user->id,
+            ]);
+
+            $this->markConverted($quote, ['invoice_id' => $invoice->id], $user, [
+                'invoice_id' => $invoice->id,
+                'invoice_number' => $invoice->invoice_number,
+            ]);
+
+            return $invoice;
+        });
+    }
+
+    /**
+     * Replace a quote's line items and recalculate its totals.
+     */
+    protected function saveLineItems(Quote $quote, array $lineItems): void
+    {
+        foreach (array_values($lineItems) as $index => $item) {
+            QuoteLineItem::create([
+                'quote_id' => $quote->id,
+                'description' => $item['description'],
+                'quantity' => $item['quantity'],
+                'unit_price' => $item['unit_price'],
+                'discount_rate' => $item['discount_rate'] ?? 0,
+                'taxes' => TaxRate::snapshot($quote->company_id, $item['tax_rate_ids'] ?? []),
+                'order' => $index,
+            ]);
+        }
+
+        $quote->calculateTotals();
+        $quote->save();
+    }
+
+    /**
+     * Mark a quote expired once its validity date has passed without a response.
+     */
+    protected function expireIfPastValidity(Quote $quote): void
+    {
+        if (in_array($quote->status, Quote::OPEN_STATUSES, true) && $quote->isExpired()) {
+            $quote->update(['status' => Quote::STATUS_EXPIRED]);
+
+            $this->logEvent($quote, 'expired', ['valid_until' => $quote->valid_until->toDateString()]);
+        }
+    }
+
+    /**
+     * Ensure the client can still respond to a quote.
+     */
+    protected function assertAwaitingResponse(Quote $quote): void
+    {
+        $this->expireIfPastValidity($quote);
+
+        if ($quote->status === Quote::STATUS_EXPIRED) {
+            throw new InvalidArgumentException('This quote has expired.');
+        }
+
+        if (!in_array($quote->status, Quote::OPEN_STATUSES, true)) {
+            throw new InvalidArgumentException('This quote has already been answered.');
+        }
+    }
+
+    /**
+     * Ensure a quote is accepted and not converted yet.
+     */
+    protected function assertConvertible(Quote $quote): void
+    {
+        if ($quote->status === Quote::STATUS_CONVERTED) {
+            throw new InvalidArgumentException('This quote has already been converted.');
+        }
+
+        if ($quote->status !== Quote::STATUS_ACCEPTED) {
+            throw new InvalidArgumentException('Only accepted quotes can be converted.');
+        }
+
+        $quote->loadMissing(['company', 'contact', 'project', 'lineItems']);
+    }
+
+    /**
+     * Lock the quote for the rest of the transaction and check it again, so
+     * a double submit can't convert it twice.
+     */
+    protected function lockForConversion(Quote $quote): void
+    {
+        Quote::whereKey($quote->id)->lockForUpdate()->first();
+        $quote->refresh();
+
+        $this->assertConvertible($quote);
+    }
+
+    /**
+     * Link the converted document and log the conversion.
+     */
+    protected function markConverted(Quote $quote, array $link, User $user, array $eventData): void
+    {
+        $quote->update([
+            ...$link,
+            'status' => Quote::STATUS_CONVERTED,
+            'converted_at' => now(),
+        ]);
+
+        $this->logEvent($quote, 'converted', $eventData, $user);
+    }
+
+    /**
+     * Add an event to the quote's activity log.
+     */
+    protected function logEvent(Quote $quote, string $type, array $data = [], ?User $user = null): void
+    {
+        QuoteEvent::create([
+            'quote_id' => $quote->id,
+            'event_type' => $type,
+            'event_data' => $data,
+            'actor_type' => $user ? 'user' : 'system',
+            'actor_id' => $user?->id,
+        ]);
+    }
+}
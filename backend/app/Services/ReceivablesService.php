@@ -0,0 +1,227 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\Company;
+use App\Models\CreditNote;
+use App\Models\Invoice;
+use App\Models\InvoiceEvent;
+use App\Models\Payment;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+
+/**
+ * Receivables Service
+ *
+ * Builds the accounts-receivable aging report: unpaid issued invoices
+ * bucketed by days past their due date, grouped per contact, with amounts
+ * converted to the company's base currency.
+ *
+ * Days sales outstanding (DSO) per month:
+ *   receivables at month end / invoiced during the month × days in month
+ */
+class ReceivablesService
+{
+    /**
+     * Aging buckets as [key => [min days past due, max days past due]].
+     */
+    public const BUCKETS = [
+        'current' => [null, 0],
+        '1_30' => [1, 30],
+        '31_60' => [31, 60],
+        '61_90' => [61, 90],
+        '90_plus' => [91, null],
+    ];
+
+    /**
+     * Statuses of invoices that were issued and still expect payment.
+     */
+    public const OPEN_STATUSES = ['sent', 'viewed', 'overdue', 'partially_paid'];
+
+    public function __construct(
+        protected ExchangeRateService $exchangeRates
+    ) {}
+
+    /**
+     * Build the aging report and DSO trend for a company.
+     */
+    public function getAging(Company $company, int $months = 6): array
+    {
+        $today = today();
+
+        $invoices = Invoice::where('company_id', $company->id)
+            ->whereIn('status', self::OPEN_STATUSES)
+            ->where('amount_due', '>', 0)
+            ->with('contact:id,full_name,email')
+            ->orderBy('due_date')
+            ->get();
+
+        $reminders = InvoiceEvent::whereIn('invoice_id', $invoices->pluck('id'))
+            ->whereIn('event_type', ['resent', 'reminder_sent'])
+            ->groupBy('invoice_id')
+            ->selectRaw('invoice_id, max(created_at) as last_sent_at')
+            ->pluck('last_sent_at', 'invoice_id');
+
+        $unconverted = [];
+        $rows = $invoices->map(function (Invoice $invoice) use ($company, $today, $reminders, &$unconverted) {
+            $daysPastDue = $invoice->due_date && $invoice->due_date->lt($today)
+                ? (int) $invoice->due_date->diffInDays($today)
+                : 0;
+            $amountBase = $this->exchangeRates->toBase($invoice, (float) $invoice->amount_due, $company);
+
+            if ($amountBase === null) {
+                $unconverted[$invoice->currency] = true;
+            }
+
+            return [
+                'id' => $invoice->id,
+                'invoice_number' => $invoice->invoice_number,
+                'title' => $invoice->title,
+                'status' => $invoice->status,
+                'contact_id' => $invoice->contact_id,
+                'issue_date' => $invoice->issue_date?->toDateString(),
+                'due_date' => $invoice->due_date?->toDateString(),
+                'days_past_due' => $daysPastDue,
+                'bucket' => $this->bucketFor($daysPastDue),
+                'currency' => $invoice->currency,
+                'amount_due' => (float) $invoice->amount_due,
+                'amount_due_base' => $amountBase,
+                'last_sent_at' => $reminders[$invoice->id] ?? $invoice->sent_at?->toIso8601String(),
+                'contact' => $invoice->contact,
+            ];
+        });
+
+        return [
+            'base_currency' => $this->exchangeRates->baseCurrency($company),
+            'as_of' => $today->toDateString(),
+            'totals' => [
+                ...$this->sumBuckets($rows),
+                'invoice_count' => $rows->count(),
+                'overdue_count' => $rows->where('days_past_due', '>', 0)->count(),
+            ],
+            'contacts' => $this->groupByContact($rows),
+            'dso_trend' => $this->dsoTrend($company, $months),
+            'unconverted_currencies' => array_keys($unconverted),
+        ];
+    }
+
+    /**
+     * Bucket key for a number of days past due.
+     */
+    public function bucketFor(int $daysPastDue): string
+    {
+        foreach (self::BUCKETS as $key => [$min, $max]) {
+            if (($min === null || $daysPastDue >= $min) && ($max === null || $daysPastDue <= $max)) {
+                return $key;
+            }
+        }
+
+        return '90_plus';
+    }
+
+    /**
+     * Base currency totals per bucket plus the overall outstanding amount.
+     */
+    protected function sumBuckets(Collection $rows): array
+    {
+        $buckets = [];
+        foreach (array_keys(self::BUCKETS) as $key) {
+            $buckets[$key] = round($rows->where('bucket', $key)->sum(fn($row) => $row['amount_due_base'] ?? 0), 2);
+        }
+
+        return [
+            'buckets' => $buckets,
+            'outstanding' => round(array_sum($buckets), 2),
+        ];
+    }
+
+    /**
+     * One row per contact with bucket totals and their invoices, largest balance first.
+     */
+    protected function groupByContact(Collection $rows): array
+    {
+        return $rows->groupBy(fn($row) => $row['contact_id'] ?? 'none')
+            ->map(function (Collection $contactRows) {
+                $contact = $contactRows->first()['contact'];
+
+                return [
+                    'contact' => $contact ? [
+                        'id' => $contact->id,
+                        'name' => $contact->full_name,
+                        'email' => $contact->email,
+                    ] : null,
+                    ...$this->sumBuckets($contactRows),
+                    'oldest_days_past_due' => $contactRows->max('days_past_due'),
+                    'invoices' => $contactRows->map(fn($row) => collect($row)->except('contact')->all())->values()->all(),
+                ];
+            })
+            ->sortByDesc('outstanding')
+            ->values()
+            ->all();
+    }
+
+    /**
+     * DSO for each of the last months, oldest first. Null when nothing was invoiced.
+     */
+    protected function dsoTrend(Company $company, int $months): array
+    {
+        $start = today()->startOfMonth()->subMonths($months - 1);
+
+        $invoices = Invoice::where('company_id', $company->id)
+            ->whereNotIn('status', ['draft', ...Invoice::NOT_LIVE_STATUSES])
+            ->where('issue_date', '<=', today())
+            ->with([
+                'payments' => fn($q) => $q->whereIn('status', ['succeeded', 'refunded']),
+                'creditNotes' => fn($q) => $q->where('status', CreditNote::STATUS_APPLIED),
+            ])
+            ->get(['id', 'currency', 'exchange_rate', 'base_currency', 'total', 'issue_date']);
+
+        $trend = [];
+        for ($month = $start->copy(); $month->lte(today()); $month->addMonth()) {
+            $monthEnd = $month->copy()->endOfMonth()->min(today()->endOfDay());
+            $days = (int) $month->diffInDays($monthEnd) + 1;
+
+            $sales = $this->exchangeRates->sumInBase(
+                $invoices->filter(fn($invoice) => $invoice->issue_date->between($month, $monthEnd)),
+                fn($invoice) => (float) $invoice->total,
+                $company
+            )['amount'];
+
+            $receivables = $this->exchangeRates->sumInBase(
+                $invoices->filter(fn($invoice) => $invoice->issue_date->lte($monthEnd)),
+                fn($invoice) => max(0, (float) $invoice->total - $this->paidBy($invoice, $monthEnd) - $this->creditedBy($invoice, $monthEnd)),
+                $company
+            )['amount'];
+
+            $trend[] = [
+                'month' => $month->format('Y-m'),
+                'label' => $month->format('M Y'),
+                'sales' => $sales,
+                'receivables' => $receivables,
+                'dso' => $sales > 0 ? round($receivables / $sales * $days, 1) : null,
+            ];
+        }
+
+        return $trend;
+    }
+
+    /**
+     * Net amount received on an invoice up to a date.
+     */
+    protected function paidBy(Invoice $invoice, Carbon $date): float
+    {
+        return $invoice->payments
+            ->filter(fn(Payment $payment) => ($payment->processed_at ?? $payment->created_at)->lte($date))
+            ->sum(fn(Payment $payment) => $payment->isRefund() ? -(float) $payment->amount : (float) $payment->amount);
+    }
+
+    /**
+     * Amount of credit notes applied to an invoice up to a date.
+     */
+    protected function creditedBy(Invoice $invoice, Carbon $date): float
+    {
+        return $invoice->creditNotes
+            ->filter(fn(CreditNote $creditNote) => $creditNote->applied_at?->lte($date))
+            ->sum(fn(CreditNote $creditNote) => (float) $creditNote->amount);
+    }
+}
@@ -0,0 +1,437 @@
+<?php
+
+namespace App\Services;
+
+use App\Jobs\GenerateInvoicePdf;
+use App\Jobs\SendInvoiceEmail;
+use App\Models\Contract;
+use App\Models\Invoice;
+use App\Models\InvoiceEvent;
+use App\Models\InvoiceLineItem;
+use App\Models\InvoiceSchedule;
+use App\Models\InvoiceScheduleOccurrence;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Str;
+use InvalidArgumentException;
+
+/**
+ * Recurring Invoice Service
+ *
+ * Manages invoice schedules: an invoice is used as the template and copied
+ * (with its line items) on every occurrence of the schedule.
+ */
+class RecurringInvoiceService
+{
+    public function __construct(
+        protected ExchangeRateService $exchangeRates
+    ) {}
+
+    /**
+     * Make an invoice recur, or update its existing schedule.
+     */
+    public function saveSchedule(Invoice $invoice, array $data, ?User $user = null): InvoiceSchedule
+    {
+        if ($invoice->schedule_id) {
+            throw new InvalidArgumentException('Invoices generated by a schedule cannot recur themselves.');
+        }
+
+        $schedule = $invoice->recurringSchedule ?? new InvoiceSchedule([
+            'company_id' => $invoice->company_id,
+            'template_invoice_id' => $invoice->id,
+            'contract_id' => $invoice->contract_id,
+            'start_date' => $invoice->issue_date,
+            'status' => InvoiceSchedule::STATUS_ACTIVE,
+            'next_sequence' => 2,
+            'created_by' => $user?->id,
+        ]);
+
+        $schedule->fill([
+            'frequency' => $data['frequency'],
+            'end_date' => $data['end_date'] ?? null,
+            'max_occurrences' => $data['max_occurrences'] ?? null,
+            'auto_send' => (bool) ($data['auto_send'] ?? false),
+        ]);
+
+        if ($schedule->isDirty('frequency') && $schedule->exists && $schedule->next_sequence > 2) {
+            throw new InvalidArgumentException('The frequency cannot change once invoices have been generated.');
+        }
+
+        // A changed end can reopen a completed schedule or finish an active one
+        if ($schedule->status === InvoiceSchedule::STATUS_COMPLETED && $schedule->hasSequence($schedule->next_sequence)) {
+            $schedule->status = InvoiceSchedule::STATUS_ACTIVE;
+        }
+
+        // Saving a cancelled schedule restarts it from today
+        if ($schedule->status === InvoiceSchedule::STATUS_CANCELLED) {
+            $schedule->status = InvoiceSchedule::STATUS_PAUSED;
+            $schedule->save();
+
+            return $this->setPaused($schedule, false);
+        }
+
+        $isNew = !$schedule->exists;
+        $schedule->save();
+
+        // Backdated templates start from today instead of billing every past date at once
+        if ($isNew) {
+            $this->skipMissed($schedule);
+        }
+
+        $this->completeIfFinished($schedule);
+
+        return $schedule->fresh('occurrences');
+    }
+
+    /**
+     * Create a template invoice and schedule from a subscription contract's pricing_data.
+     */
+    public function createFromContract(Contract $contract, User $user, array $data = []): InvoiceSchedule
+    {
+        if ($contract->contract_type !== 'subscription') {
+            throw new InvalidArgumentException('Only subscription contracts can generate recurring invoices.');
+        }
+
+        $pricing = $contract->pricing_data ?? [];
+        $amount = (float) ($pricing['amount'] ?? 0);
+        $frequency = $pricing['interval'] ?? 'monthly';
+
+        if ($amount <= 0) {
+            throw new InvalidArgumentException('The contract has no subscription amount.');
+        }
+
+        if (!in_array($frequency, InvoiceSchedule::FREQUENCIES, true)) {
+            throw new InvalidArgumentException("Unsupported subscription interval '{$frequency}'.");
+        }
+
+        if (InvoiceSchedule::where('contract_id', $contract->id)->whereNot('status', InvoiceSchedule::STATUS_CANCELLED)->exists()) {
+            throw new InvalidArgumentException('This contract already has a recurring invoice schedule.');
+        }
+
+        return DB::transaction(function () use ($contract, $user, $data, $pricing, $amount, $frequency) {
+            $issueDate = Carbon::parse($data['start_date'] ?? now())->startOfDay();
+            $dueDays = (int) ($data['due_days'] ?? 30);
+
+            $invoice = Invoice::create([
+                'company_id' => $contract->company_id,
+                'contact_id' => $contract->contact_id,
+                'project_id' => $contract->project_id,
+                'contract_id' => $contract->id,
+                'deal_id' => $contract->deal_id,
+                'invoice_number' => Invoice::generateNumber($contract->company),
+                'title' => $contract->title,
+                'issue_date' => $issueDate,
+                'due_date' => $issueDate->copy()->addDays($dueDays),
+                'status' => 'draft',
+                'subtotal' => $amount,
+                'total' => $amount,
+                'amount_due' => $amount,
+                'currency' => $pricing['currency'] ?? $this->exchangeRates->baseCurrency($contract->company),
+                'token' => Str::random(64),
+            ]);
+
+            InvoiceLineItem::create([
+                'invoice_id' => $invoice->id,
+                'description' => "{$contract->title} ({$frequency} subscription)",
+                'quantity' => 1,
+                'unit_price' => $amount,
+                'amount' => $amount,
+                'order' => 0,
+            ]);
+
+            InvoiceEvent::create([
+                'invoice_id' => $invoice->id,
+                'event_type' => 'created',
+                'event_data' => ['contract_id' => $contract->id],
+                'actor_type' => 'user',
+                'actor_id' => $user->id,
+            ]);
+
+            return $this->saveSchedule($invoice->load('recurringSchedule'), [
+                'frequency' => $frequency,
+                'max_occurrences' => !empty($pricing['period']) ? (int) $pricing['period'] : null,
+                'auto_send' => $data['auto_send'] ?? false,
+            ], $user);
+        });
+    }
+
+    /**
+     * Generate every occurrence that is due, across all active schedules.
+     */
+    public function generateDue(?Carbon $today = null): int
+    {
+        $today = ($today ?? now())->copy()->startOfDay();
+        $generated = 0;
+
+        InvoiceSchedule::where('status', InvoiceSchedule::STATUS_ACTIVE)
+            ->with(['occurrences', 'templateInvoice.lineItems', 'company'])
+            ->chunkById(100, function ($schedules) use ($today, &$generated) {
+                foreach ($schedules as $schedule) {
+                    try {
+                        $generated += $this->generateScheduleDue($schedule, $today);
+                    } catch (\Exception $e) {
+                        Log::error('RecurringInvoiceService generateDue failed', [
+                            'schedule_id' => $schedule->id,
+                            'error' => $e->getMessage(),
+                        ]);
+                    }
+                }
+            });
+
+        return $generated;
+    }
+
+    /**
+     * Generate the due occurrences of one schedule, moving it forward.
+     */
+    public function generateScheduleDue(InvoiceSchedule $schedule, Carbon $today): int
+    {
+        $generated = 0;
+
+        // A voided template can't be invoiced again; its dates stay pending
+        if ($schedule->templateInvoice?->status === 'void') {
+            return 0;
+        }
+
+        while ($schedule->hasSequence($schedule->next_sequence)
+            && $schedule->dateForSequence($schedule->next_sequence)->lte($today)) {
+            $sequence = $schedule->next_sequence;
+            $stored = $schedule->occurrences->firstWhere('sequence', $sequence);
+
+            // Skipped occurrences are dropped; paused ones wait to be resumed
+            if (!$stored) {
+                $this->generateOccurrence($schedule, $sequence);
+                $generated++;
+            }
+
+            $schedule->update(['next_sequence' => $sequence + 1]);
+        }
+
+        $this->completeIfFinished($schedule);
+
+        return $generated;
+    }
+
+    /**
+     * Copy the template invoice and its line items for an occurrence.
+     */
+    public function generateOccurrence(InvoiceSchedule $schedule, int $sequence): Invoice
+    {
+        $template = $schedule->templateInvoice()->with('lineItems')->firstOrFail();
+
+        if ($template->status === 'void') {
+            throw new InvalidArgumentException('The template invoice has been voided, so no more invoices can be generated from it.');
+        }
+
+        $issueDate = $schedule->dateForSequence($sequence);
+        $dueDays = $template->issue_date->diffInDays($template->due_date);
+
+        $invoice = DB::transaction(function () use ($schedule, $sequence, $template, $issueDate, $dueDays) {
+            $invoice = $template->replicate([
+                'invoice_number', 'status', 'amount_paid', 'amount_credited', 'amount_due', 'pdf_path', 'pdf_generated_at',
+                'sent_at', 'sent_by', 'token', 'stripe_payment_intent_id', 'exchange_rate', 'base_currency',
+                'reminders_paused',
+            ]);
+
+            $invoice->fill([
+                'schedule_id' => $schedule->id,
+                'invoice_number' => Invoice::generateNumber($schedule->company),
+                'issue_date' => $issueDate,
+                'due_date' => $issueDate->copy()->addDays($dueDays),
+                'status' => 'draft',
+                'amount_paid' => 0,
+                'amount_credited' => 0,
+                'amount_due' => $template->total,
+                // Dunning paused on one invoice doesn't carry over to the next
+                'reminders_paused' => false,
+                'token' => Str::random(64),
+            ]);
+            $invoice->save();
+
+            foreach ($template->lineItems as $item) {
+                InvoiceLineItem::create([
+                    'invoice_id' => $invoice->id,
+                    'description' => $item->description,
+                    'quantity' => $item->quantity,
+                    'unit_price' => $item->unit_price,
+                    'discount_rate' => $item->discount_rate,
+                    'amount' => $item->amount,
+                    'taxes' => $item->taxes,
+                    'order' => $item->order,
+                ]);
+            }
+
+            InvoiceScheduleOccurrence::updateOrCreate(
+                ['schedule_id' => $schedule->id, 'sequence' => $sequence],
+                [
+                    'scheduled_date' => $issueDate,
+                    'status' => InvoiceScheduleOccurrence::STATUS_GENERATED,
+                    'invoice_id' => $invoice->id,
+                ]
+            );
+
+            InvoiceEvent::create([
+                'invoice_id' => $invoice->id,
+                'event_type' => 'created',
+                'event_data' => ['schedule_id' => $schedule->id, 'sequence' => $sequence],
+                'actor_type' => 'system',
+            ]);
+
+            if ($schedule->auto_send && $invoice->contact?->email) {
+                $invoice->update(['status' => 'sent', 'sent_at' => now()]);
+
+                InvoiceEvent::create([
+                    'invoice_id' => $invoice->id,
+                    'event_type' => 'sent',
+                    'actor_type' => 'system',
+                ]);
+            }
+
+            return $invoice;
+        });
+
+        // The rate lookup may call the rates API, so it stays outside the transaction
+        if ($invoice->status === 'sent') {
+            $this->exchangeRates->captureRate($invoice);
+
+            $contact = $invoice->contact;
+            SendInvoiceEmail::dispatch($invoice, $contact->email, $contact->full_name)->afterCommit();
+            GenerateInvoicePdf::dispatch($invoice)->afterCommit();
+        }
+
+        return $invoice;
+    }
+
+    /**
+     * Skip, pause or resume (pending) a single upcoming occurrence.
+     */
+    public function setOccurrenceStatus(InvoiceSchedule $schedule, int $sequence, string $status): InvoiceSchedule
+    {
+        $stored = $schedule->occurrences()->where('sequence', $sequence)->first();
+
+        if ($stored?->status === InvoiceScheduleOccurrence::STATUS_GENERATED) {
+            throw new InvalidArgumentException('This occurrence has already been invoiced.');
+        }
+
+        if ($sequence < 2 || !$schedule->hasSequence($sequence)) {
+            throw new InvalidArgumentException('This occurrence is not part of the schedule.');
+        }
+
+        // Past occurrences can only be changed while they are held back
+        if ($sequence < $schedule->next_sequence && $stored?->status !== InvoiceScheduleOccurrence::STATUS_PAUSED) {
+            throw new InvalidArgumentException('This occurrence has already passed.');
+        }
+
+        if ($status === InvoiceScheduleOccurrence::STATUS_PENDING) {
+            // Resuming a held-back occurrence invoices it right away,
+            // turning its paused record into the generated one
+            if ($sequence < $schedule->next_sequence) {
+                $this->generateOccurrence($schedule, $sequence);
+            } else {
+                $stored?->delete();
+            }
+        } else {
+            InvoiceScheduleOccurrence::updateOrCreate(
+                ['schedule_id' => $schedule->id, 'sequence' => $sequence],
+                ['scheduled_date' => $schedule->dateForSequence($sequence), 'status' => $status]
+            );
+        }
+
+        return $schedule->fresh('occurrences');
+    }
+
+    /**
+     * Pause or resume the whole schedule.
+     * Dates missed while paused are skipped rather than invoiced in bulk.
+     */
+    public function setPaused(InvoiceSchedule $schedule, bool $paused): InvoiceSchedule
+    {
+        if (in_array($schedule->status, [InvoiceSchedule::STATUS_COMPLETED, InvoiceSchedule::STATUS_CANCELLED], true)) {
+            throw new InvalidArgumentException("A {$schedule->status} schedule cannot be changed.");
+        }
+
+        if ($paused) {
+            $schedule->update(['status' => InvoiceSchedule::STATUS_PAUSED]);
+            return $schedule->fresh('occurrences');
+        }
+
+        $schedule->update(['status' => InvoiceSchedule::STATUS_ACTIVE]);
+        $this->skipMissed($schedule);
+        $this->completeIfFinished($schedule);
+
+        return $schedule->fresh('occurrences');
+    }
+
+    /**
+     * Stop the schedule for good. Generated invoices are kept.
+     */
+    public function cancel(InvoiceSchedule $schedule): InvoiceSchedule
+    {
+        $schedule->update(['status' => InvoiceSchedule::STATUS_CANCELLED]);
+
+        return $schedule->fresh('occurrences');
+    }
+
+    /**
+     * API representation of a schedule with its upcoming occurrences.
+     */
+    public function toArray(InvoiceSchedule $schedule, int $upcoming = 3): array
+    {
+        $schedule->loadMissing(['occurrences', 'templateInvoice.contact:id,full_name,email']);
+        $template = $schedule->templateInvoice;
+
+        return [
+            'id' => $schedule->id,
+            'template_invoice_id' => $schedule->template_invoice_id,
+            'contract_id' => $schedule->contract_id,
+            'frequency' => $schedule->frequency,
+            'start_date' => $schedule->start_date->toDateString(),
+            'end_date' => $schedule->end_date?->toDateString(),
+            'max_occurrences' => $schedule->max_occurrences,
+            'total_occurrences' => $schedule->totalOccurrences(),
+            'generated_count' => $schedule->occurrences->where('status', InvoiceScheduleOccurrence::STATUS_GENERATED)->count() + 1,
+            'status' => $schedule->status,
+            'auto_send' => $schedule->auto_send,
+            'invoice' => $template ? [
+                'id' => $template->id,
+                'invoice_number' => $template->invoice_number,
+                'title' => $template->title,
+                'total' => (float) $template->total,
+                'currency' => $template->currency,
+                'contact' => $template->contact,
+            ] : null,
+            'upcoming' => $schedule->upcoming($upcoming),
+        ];
+    }
+
+    /**
+     * Record every occurrence dated before today as skipped and move past them.
+     */
+    protected function skipMissed(InvoiceSchedule $schedule): void
+    {
+        $today = now()->startOfDay();
+        $sequence = $schedule->next_sequence;
+
+        while ($schedule->hasSequence($sequence) && $schedule->dateForSequence($sequence)->lt($today)) {
+            InvoiceScheduleOccurrence::firstOrCreate(
+                ['schedule_id' => $schedule->id, 'sequence' => $sequence],
+                ['scheduled_date' => $schedule->dateForSequence($sequence), 'status' => InvoiceScheduleOccurrence::STATUS_SKIPPED]
+            );
+            $sequence++;
+        }
+
+        $schedule->update(['next_sequence' => $sequence]);
+    }
+
+    /**
+     * Mark the schedule completed once there is nothing left to generate.
+     */
+    protected function completeIfFinished(InvoiceSchedule $schedule): void
+    {
+        if ($schedule->status === InvoiceSchedule::STATUS_ACTIVE && !$schedule->hasSequence($schedule->next_sequence)) {
+            $schedule->update(['status' => InvoiceSchedule::STATUS_COMPLETED]);
+        }
+    }
+}
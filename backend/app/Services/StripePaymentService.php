@@ -105,16 +105,7 @@ public function refundPayment(Payment $payment, Company $company, ?float $amount
 
             // Update invoice
             if ($payment->invoice) {
-                $payment->invoice->amount_paid -= $refundAmount;
-                $payment->invoice->amount_due += $refundAmount;
-                
-                if ($payment->invoice->amount_paid <= 0) {
-                    $payment->invoice->status = 'sent';
-                } else {
-                    $payment->invoice->status = 'partially_paid';
-                }
-                
-                $payment->invoice->save();
+                $payment->invoice->syncPayments();
             }
         } catch (\Exception $e) {
             throw new \Exception('Refund failed: ' . $e->getMessage());
@@ -152,16 +143,7 @@ private function handlePaymentIntentSucceeded($paymentIntent, Company $company):
         ]);
 
         // Update invoice
-        $invoice->amount_paid += $payment->amount;
-        $invoice->amount_due = $invoice->total - $invoice->amount_paid;
-        
-        if ($invoice->amount_due <= 0) {
-            $invoice->status = 'paid';
-        } else {
-            $invoice->status = 'partially_paid';
-        }
-        
-        $invoice->save();
+        $invoice->syncPayments();
 
         // Create invoice event
         $invoice->events()->create([
@@ -220,16 +202,7 @@ private function handleChargeRefunded($charge, Company $company): void
 
         // Update invoice
         if ($payment->invoice) {
-            $payment->invoice->amount_paid -= $refundAmount;
-            $payment->invoice->amount_due += $refundAmount;
-            
-            if ($payment->invoice->amount_paid <= 0) {
-                $payment->invoice->status = 'sent';
-            } else {
-                $payment->invoice->status = 'partially_paid';
-            }
-            
-            $payment->invoice->save();
+            $payment->invoice->syncPayments();
         }
     }
 
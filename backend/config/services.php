@@ -106,4 +106,20 @@
         'max_file_size' => 26214400, // 25 MB in bytes
     ],
 
+    /*
+    |--------------------------------------------------------------------------
+    | Exchange Rates
+    |--------------------------------------------------------------------------
+    |
+    | Provider used to convert invoice amounts into a company's base currency
+    | when the company has not set a rate itself. Expects the Frankfurter API
+    | format: GET {url}/latest?from=EUR&to=USD => {"rates": {"USD": 1.08}}
+    |
+    */
+
+    'exchange_rates' => [
+        'url' => env('EXCHANGE_RATES_URL', 'https://api.frankfurter.app'),
+        'cache_ttl' => env('EXCHANGE_RATES_CACHE_TTL', 21600), // 6 hours
+    ],
+
 ];
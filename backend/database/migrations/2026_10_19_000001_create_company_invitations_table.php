@@ -0,0 +1,35 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('company_invitations', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+            $table->uuid('inviter_id');
+            $table->string('email');
+            $table->string('token', 100)->unique();
+            $table->string('role_in_company', 20)->default('staff');
+            $table->timestampTz('accepted_at')->nullable();
+            $table->timestampTz('expires_at')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->foreign('inviter_id')->references('id')->on('users')->onDelete('cascade');
+
+            $table->index('company_id');
+            $table->index('email');
+            $table->index(['company_id', 'email']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('company_invitations');
+    }
+};
@@ -0,0 +1,102 @@
+<?php
+
+use App\Models\Deal;
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Support\Str;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('deal_pipelines', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+            $table->string('name');
+            $table->boolean('is_default')->default(false);
+            $table->integer('order')->default(0);
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->index('company_id', 'idx_deal_pipelines_company');
+        });
+
+        Schema::create('deal_pipeline_stages', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('pipeline_id');
+            $table->string('key', 50);
+            $table->string('name');
+            $table->string('color', 20)->default('primary');
+            $table->integer('probability')->default(0);
+            $table->integer('order')->default(0);
+            $table->boolean('is_won')->default(false);
+            $table->boolean('is_lost')->default(false);
+            $table->timestampsTz();
+
+            $table->foreign('pipeline_id')->references('id')->on('deal_pipelines')->onDelete('cascade');
+            $table->unique(['pipeline_id', 'key'], 'uq_deal_pipeline_stages_key');
+        });
+
+        Schema::table('deals', function (Blueprint $table) {
+            $table->uuid('pipeline_id')->nullable()->after('company_id');
+
+            $table->foreign('pipeline_id')->references('id')->on('deal_pipelines')->onDelete('set null');
+            $table->index(['company_id', 'pipeline_id'], 'idx_deals_company_pipeline');
+        });
+
+        // Move existing deals into a default pipeline built from the old fixed stages
+        $companyIds = DB::table('deals')->distinct()->pluck('company_id');
+
+        foreach ($companyIds as $companyId) {
+            $pipelineId = (string) Str::uuid();
+
+            DB::table('deal_pipelines')->insert([
+                'id' => $pipelineId,
+                'company_id' => $companyId,
+                'name' => 'Sales',
+                'is_default' => true,
+                'order' => 0,
+                'created_at' => now(),
+                'updated_at' => now(),
+            ]);
+
+            foreach (Deal::STAGES as $key => $stage) {
+                DB::table('deal_pipeline_stages')->insert([
+                    'id' => (string) Str::uuid(),
+                    'pipeline_id' => $pipelineId,
+                    'key' => $key,
+                    'name' => $stage['name'],
+                    'color' => $stage['color'],
+                    'probability' => $stage['probability'],
+                    'order' => $stage['order'],
+                    'is_won' => $key === Deal::STAGE_CLOSED_WON,
+                    'is_lost' => $key === Deal::STAGE_CLOSED_LOST,
+                    'created_at' => now(),
+                    'updated_at' => now(),
+                ]);
+            }
+
+            DB::table('deals')->where('company_id', $companyId)->update(['pipeline_id' => $pipelineId]);
+        }
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('deals', function (Blueprint $table) {
+            $table->dropForeign(['pipeline_id']);
+            $table->dropIndex('idx_deals_company_pipeline');
+            $table->dropColumn('pipeline_id');
+        });
+
+        Schema::dropIfExists('deal_pipeline_stages');
+        Schema::dropIfExists('deal_pipelines');
+    }
+};
@@ -0,0 +1,29 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('deals', function (Blueprint $table) {
+            // Manual order of a deal within its pipeline stage on the board
+            $table->integer('position')->nullable()->after('stage');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('deals', function (Blueprint $table) {
+            $table->dropColumn('position');
+        });
+    }
+};
@@ -0,0 +1,65 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('deal_stage_changes', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('deal_id');
+
+            $table->string('from_stage', 50)->nullable();
+            $table->string('to_stage', 50);
+            $table->uuid('changed_by')->nullable();
+
+            $table->timestampTz('created_at');
+
+            $table->foreign('deal_id')->references('id')->on('deals')->onDelete('cascade');
+            $table->foreign('changed_by')->references('id')->on('users')->onDelete('set null');
+
+            $table->index(['deal_id', 'created_at']);
+        });
+
+        // Link documents back to the deal they were created from
+        Schema::table('contracts', function (Blueprint $table) {
+            $table->uuid('deal_id')->nullable()->after('project_id');
+
+            $table->foreign('deal_id')->references('id')->on('deals')->onDelete('set null');
+            $table->index('deal_id');
+        });
+
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->uuid('deal_id')->nullable()->after('contract_id');
+
+            $table->foreign('deal_id')->references('id')->on('deals')->onDelete('set null');
+            $table->index('deal_id');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->dropForeign(['deal_id']);
+            $table->dropIndex(['deal_id']);
+            $table->dropColumn('deal_id');
+        });
+
+        Schema::table('contracts', function (Blueprint $table) {
+            $table->dropForeign(['deal_id']);
+            $table->dropIndex(['deal_id']);
+            $table->dropColumn('deal_id');
+        });
+
+        Schema::dropIfExists('deal_stage_changes');
+    }
+};
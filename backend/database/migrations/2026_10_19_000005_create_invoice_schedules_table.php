@@ -0,0 +1,83 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('invoice_schedules', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+
+            // Invoice copied for every occurrence; it is occurrence #1 itself
+            $table->uuid('template_invoice_id');
+            $table->uuid('contract_id')->nullable();
+
+            // Recurrence
+            $table->string('frequency', 20); // weekly, monthly, quarterly, yearly
+            $table->date('start_date');
+            $table->date('end_date')->nullable();
+            $table->integer('max_occurrences')->nullable();
+
+            // Generation state
+            $table->string('status', 20)->default('active'); // active, paused, completed, cancelled
+            $table->integer('next_sequence')->default(2);
+            $table->boolean('auto_send')->default(false);
+
+            $table->uuid('created_by')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->foreign('template_invoice_id')->references('id')->on('invoices')->onDelete('cascade');
+            $table->foreign('contract_id')->references('id')->on('contracts')->onDelete('set null');
+            $table->foreign('created_by')->references('id')->on('users')->onDelete('set null');
+
+            $table->unique('template_invoice_id');
+            $table->index(['company_id', 'status']);
+        });
+
+        // Only occurrences that were generated, skipped or paused are stored
+        Schema::create('invoice_schedule_occurrences', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('schedule_id');
+            $table->integer('sequence');
+            $table->date('scheduled_date');
+            $table->string('status', 20); // generated, skipped, paused
+            $table->uuid('invoice_id')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('schedule_id')->references('id')->on('invoice_schedules')->onDelete('cascade');
+            $table->foreign('invoice_id')->references('id')->on('invoices')->onDelete('set null');
+
+            $table->unique(['schedule_id', 'sequence']);
+        });
+
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->uuid('schedule_id')->nullable()->after('deal_id');
+
+            $table->foreign('schedule_id')->references('id')->on('invoice_schedules')->onDelete('set null');
+            $table->index('schedule_id');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->dropForeign(['schedule_id']);
+            $table->dropIndex(['schedule_id']);
+            $table->dropColumn('schedule_id');
+        });
+
+        Schema::dropIfExists('invoice_schedule_occurrences');
+        Schema::dropIfExists('invoice_schedules');
+    }
+};
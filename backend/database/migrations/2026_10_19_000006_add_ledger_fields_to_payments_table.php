@@ -0,0 +1,39 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('payments', function (Blueprint $table) {
+            // A refund is its own ledger entry pointing at the payment it refunds
+            $table->string('type', 20)->default('payment')->after('invoice_id');
+            $table->uuid('refunded_payment_id')->nullable()->after('type');
+
+            // Manual payments: bank transfer / cheque reference and who recorded it
+            $table->string('reference')->nullable()->after('receipt_number');
+            $table->uuid('recorded_by')->nullable()->after('notes');
+
+            $table->foreign('refunded_payment_id')->references('id')->on('payments')->onDelete('cascade');
+            $table->foreign('recorded_by')->references('id')->on('users')->onDelete('set null');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('payments', function (Blueprint $table) {
+            $table->dropForeign(['refunded_payment_id']);
+            $table->dropForeign(['recorded_by']);
+            $table->dropColumn(['type', 'refunded_payment_id', 'reference', 'recorded_by']);
+        });
+    }
+};
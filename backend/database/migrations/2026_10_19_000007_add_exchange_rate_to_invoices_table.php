@@ -0,0 +1,30 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('invoices', function (Blueprint $table) {
+            // Captured when the invoice is issued: 1 unit of `currency` = exchange_rate units of base_currency
+            $table->decimal('exchange_rate', 18, 8)->nullable()->after('currency');
+            $table->string('base_currency', 3)->nullable()->after('exchange_rate');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->dropColumn(['exchange_rate', 'base_currency']);
+        });
+    }
+};
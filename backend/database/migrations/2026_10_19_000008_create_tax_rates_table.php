@@ -0,0 +1,57 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('tax_rates', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+            $table->string('name', 100);
+            $table->decimal('rate', 6, 3);
+            // Compound taxes are charged on the line amount plus the simple taxes before them
+            $table->boolean('is_compound')->default(false);
+            $table->boolean('is_default')->default(false);
+            $table->integer('order')->default(0);
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->index('company_id', 'idx_tax_rates_company');
+        });
+
+        Schema::table('invoice_line_items', function (Blueprint $table) {
+            $table->decimal('discount_rate', 5, 2)->default(0)->after('unit_price');
+            $table->decimal('discount_amount', 15, 2)->default(0)->after('discount_rate');
+            // Snapshot of the tax rates applied, so later edits to a rate don't change issued invoices
+            $table->json('taxes')->nullable()->after('amount');
+            $table->decimal('tax_amount', 15, 2)->default(0)->after('taxes');
+        });
+
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->json('tax_breakdown')->nullable()->after('tax_amount');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->dropColumn('tax_breakdown');
+        });
+
+        Schema::table('invoice_line_items', function (Blueprint $table) {
+            $table->dropColumn(['discount_rate', 'discount_amount', 'taxes', 'tax_amount']);
+        });
+
+        Schema::dropIfExists('tax_rates');
+    }
+};
@@ -0,0 +1,46 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('projects', function (Blueprint $table) {
+            $table->decimal('hourly_rate', 10, 2)->nullable()->after('budget');
+        });
+
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->decimal('hours', 8, 2)->nullable()->after('completed_by');
+            // Overrides the project's hourly rate when set
+            $table->decimal('hourly_rate', 10, 2)->nullable()->after('hours');
+        });
+
+        Schema::table('invoice_line_items', function (Blueprint $table) {
+            $table->index('task_id', 'idx_invoice_line_items_task');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('invoice_line_items', function (Blueprint $table) {
+            $table->dropIndex('idx_invoice_line_items_task');
+        });
+
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->dropColumn(['hours', 'hourly_rate']);
+        });
+
+        Schema::table('projects', function (Blueprint $table) {
+            $table->dropColumn('hourly_rate');
+        });
+    }
+};
@@ -0,0 +1,69 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        // One row per user and week, tracking the approval workflow
+        Schema::create('timesheets', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+            $table->uuid('user_id');
+            $table->date('week_start'); // Monday
+            $table->string('status', 20)->default('open'); // open, submitted, approved, rejected
+            $table->timestampTz('submitted_at')->nullable();
+            $table->uuid('reviewed_by')->nullable();
+            $table->timestampTz('reviewed_at')->nullable();
+            $table->text('review_note')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->foreign('user_id')->references('id')->on('users')->onDelete('cascade');
+            $table->foreign('reviewed_by')->references('id')->on('users')->onDelete('set null');
+
+            $table->unique(['company_id', 'user_id', 'week_start']);
+            $table->index(['company_id', 'week_start', 'status']);
+        });
+
+        Schema::create('time_entries', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+            $table->uuid('user_id');
+            $table->uuid('task_id');
+            $table->uuid('project_id');
+
+            // Running timers have no ended_at; duration is filled in when they stop
+            $table->timestampTz('started_at');
+            $table->timestampTz('ended_at')->nullable();
+            $table->integer('duration_seconds')->default(0);
+
+            $table->text('notes')->nullable();
+            $table->boolean('is_billable')->default(true);
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->foreign('user_id')->references('id')->on('users')->onDelete('cascade');
+            $table->foreign('task_id')->references('id')->on('tasks')->onDelete('cascade');
+            $table->foreign('project_id')->references('id')->on('projects')->onDelete('cascade');
+
+            $table->index(['company_id', 'user_id', 'started_at']);
+            $table->index('task_id');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('time_entries');
+        Schema::dropIfExists('timesheets');
+    }
+};
@@ -0,0 +1,37 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->boolean('reminders_paused')->default(false)->after('sent_by');
+        });
+
+        // Contacts are shared between companies, so dunning is paused per relationship
+        Schema::table('company_contacts', function (Blueprint $table) {
+            $table->boolean('invoice_reminders_paused')->default(false)->after('metadata');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('company_contacts', function (Blueprint $table) {
+            $table->dropColumn('invoice_reminders_paused');
+        });
+
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->dropColumn('reminders_paused');
+        });
+    }
+};
@@ -0,0 +1,60 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('credit_notes', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+            $table->uuid('invoice_id');
+            $table->uuid('contact_id')->nullable();
+            $table->string('credit_note_number', 50)->unique();
+            // issued -> applied, or issued -> void
+            $table->string('status', 20)->default('issued');
+            $table->date('issue_date');
+            $table->decimal('amount', 15, 2);
+            $table->string('currency', 3);
+            $table->text('reason')->nullable();
+            $table->string('pdf_path')->nullable();
+            $table->timestampTz('pdf_generated_at')->nullable();
+            $table->uuid('issued_by')->nullable();
+            $table->timestampTz('applied_at')->nullable();
+            $table->uuid('applied_by')->nullable();
+            $table->timestampTz('voided_at')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->foreign('invoice_id')->references('id')->on('invoices')->onDelete('cascade');
+            $table->foreign('contact_id')->references('id')->on('contacts')->onDelete('set null');
+            $table->foreign('issued_by')->references('id')->on('users')->onDelete('set null');
+            $table->foreign('applied_by')->references('id')->on('users')->onDelete('set null');
+            $table->index('company_id', 'idx_credit_notes_company');
+            $table->index('invoice_id', 'idx_credit_notes_invoice');
+        });
+
+        Schema::table('invoices', function (Blueprint $table) {
+            // Sum of applied credit notes; amount_due = total - amount_paid - amount_credited
+            $table->decimal('amount_credited', 15, 2)->default(0)->after('amount_paid');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->dropColumn('amount_credited');
+        });
+
+        Schema::dropIfExists('credit_notes');
+    }
+};
@@ -0,0 +1,112 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('quotes', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+            $table->uuid('contact_id')->nullable();
+            $table->uuid('project_id')->nullable();
+            $table->uuid('deal_id')->nullable();
+            $table->string('quote_number', 100)->unique();
+            $table->string('title')->nullable();
+            // draft -> sent -> viewed -> accepted -> converted, or declined / expired
+            $table->string('status', 50)->default('draft');
+            $table->date('issue_date');
+            $table->date('valid_until');
+
+            $table->decimal('subtotal', 15, 2)->default(0);
+            $table->decimal('tax_amount', 15, 2)->default(0);
+            $table->jsonb('tax_breakdown')->nullable();
+            $table->decimal('discount_rate', 5, 2)->default(0);
+            $table->decimal('discount_amount', 15, 2)->default(0);
+            $table->decimal('total', 15, 2)->default(0);
+            $table->string('currency', 3)->default('USD');
+            $table->text('terms')->nullable();
+            $table->text('notes')->nullable();
+
+            $table->string('token', 100)->unique()->nullable();
+            $table->timestampTz('sent_at')->nullable();
+            $table->uuid('sent_by')->nullable();
+
+            // Client response from the public page
+            $table->timestampTz('accepted_at')->nullable();
+            $table->string('accepted_by')->nullable();
+            $table->timestampTz('declined_at')->nullable();
+            $table->text('decline_reason')->nullable();
+            $table->string('client_ip_address', 45)->nullable();
+
+            // What the accepted quote was converted into
+            $table->uuid('contract_id')->nullable();
+            $table->uuid('invoice_id')->nullable();
+            $table->timestampTz('converted_at')->nullable();
+
+            $table->uuid('created_by')->nullable();
+            $table->timestampTz('deleted_at')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->foreign('contact_id')->references('id')->on('contacts')->onDelete('set null');
+            $table->foreign('project_id')->references('id')->on('projects')->onDelete('set null');
+            $table->foreign('deal_id')->references('id')->on('deals')->onDelete('set null');
+            $table->foreign('contract_id')->references('id')->on('contracts')->onDelete('set null');
+            $table->foreign('invoice_id')->references('id')->on('invoices')->onDelete('set null');
+            $table->foreign('sent_by')->references('id')->on('users')->onDelete('set null');
+            $table->foreign('created_by')->references('id')->on('users')->onDelete('set null');
+            $table->index(['company_id', 'status']);
+            $table->index(['contact_id']);
+        });
+
+        Schema::create('quote_line_items', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('quote_id');
+            $table->text('description');
+            $table->decimal('quantity', 10, 2)->default(1);
+            $table->decimal('unit_price', 15, 2);
+            $table->decimal('discount_rate', 5, 2)->default(0);
+            $table->decimal('discount_amount', 15, 2)->default(0);
+            $table->decimal('amount', 15, 2);
+            $table->jsonb('taxes')->nullable();
+            $table->decimal('tax_amount', 15, 2)->default(0);
+            $table->integer('order')->default(0);
+            $table->timestampsTz();
+
+            $table->foreign('quote_id')->references('id')->on('quotes')->onDelete('cascade');
+            $table->index(['quote_id', 'order']);
+        });
+
+        Schema::create('quote_events', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('quote_id');
+            $table->string('event_type', 50);
+            $table->jsonb('event_data')->default('{}');
+            $table->string('actor_type', 20)->nullable();
+            $table->uuid('actor_id')->nullable();
+            $table->string('ip_address', 45)->nullable();
+            $table->text('user_agent')->nullable();
+            $table->timestampTz('created_at')->useCurrent();
+
+            $table->foreign('quote_id')->references('id')->on('quotes')->onDelete('cascade');
+            $table->index(['quote_id', 'created_at']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('quote_events');
+        Schema::dropIfExists('quote_line_items');
+        Schema::dropIfExists('quotes');
+    }
+};
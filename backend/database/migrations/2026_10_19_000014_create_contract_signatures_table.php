@@ -0,0 +1,44 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('contract_signatures', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('contract_id');
+            $table->string('signer_name');
+            $table->string('signer_email')->nullable();
+            // drawn, typed or upload
+            $table->string('method', 20);
+            // Font the typed signature was rendered in
+            $table->string('typed_font', 100)->nullable();
+            // PNG/JPEG of the signature as the signer saw it
+            $table->string('image_path', 500);
+            // SHA-256 of the contract's rendered_sections at signing time
+            $table->string('document_hash', 64);
+            $table->string('ip_address', 45)->nullable();
+            $table->text('user_agent')->nullable();
+            $table->timestampTz('signed_at');
+            $table->timestampsTz();
+
+            $table->foreign('contract_id')->references('id')->on('contracts')->onDelete('cascade');
+            $table->index('contract_id', 'idx_contract_signatures_contract');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('contract_signatures');
+    }
+};
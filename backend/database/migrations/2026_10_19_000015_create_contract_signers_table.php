@@ -0,0 +1,67 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('contract_signers', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('contract_id');
+            $table->string('name');
+            $table->string('email');
+            // client, provider or witness
+            $table->string('role', 20)->default('client');
+            // Job title shown on the signature block, e.g. "Director"
+            $table->string('title', 100)->nullable();
+            // Signers sharing an order sign in parallel; in sequential mode each order waits for the previous one
+            $table->unsignedSmallInteger('signing_order')->default(1);
+            $table->string('token', 100)->unique();
+            // pending -> notified -> viewed -> signed, or declined
+            $table->string('status', 20)->default('pending');
+            $table->timestampTz('notified_at')->nullable();
+            $table->timestampTz('viewed_at')->nullable();
+            $table->timestampTz('signed_at')->nullable();
+            $table->timestampTz('declined_at')->nullable();
+            $table->text('decline_reason')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('contract_id')->references('id')->on('contracts')->onDelete('cascade');
+            $table->index(['contract_id', 'signing_order'], 'idx_contract_signers_order');
+        });
+
+        Schema::table('contracts', function (Blueprint $table) {
+            // parallel: every signer is asked at once; sequential: in signing_order
+            $table->string('signing_mode', 20)->default('parallel')->after('clickwrap_text');
+        });
+
+        Schema::table('contract_signatures', function (Blueprint $table) {
+            $table->uuid('signer_id')->nullable()->after('contract_id');
+
+            $table->foreign('signer_id')->references('id')->on('contract_signers')->onDelete('set null');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('contract_signatures', function (Blueprint $table) {
+            $table->dropForeign(['signer_id']);
+            $table->dropColumn('signer_id');
+        });
+
+        Schema::table('contracts', function (Blueprint $table) {
+            $table->dropColumn('signing_mode');
+        });
+
+        Schema::dropIfExists('contract_signers');
+    }
+};
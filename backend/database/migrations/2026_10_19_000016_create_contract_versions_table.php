@@ -0,0 +1,70 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('contract_versions', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('contract_id');
+            $table->unsignedInteger('version_number');
+            // Snapshot of the contract content at this version
+            $table->string('title');
+            $table->jsonb('rendered_sections');
+            $table->jsonb('pricing_data')->nullable();
+            $table->text('clickwrap_text')->nullable();
+            // SHA-256 of rendered_sections, matching Contract::documentHash()
+            $table->string('document_hash', 64);
+            $table->string('change_summary', 500)->nullable();
+            $table->uuid('created_by')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('contract_id')->references('id')->on('contracts')->onDelete('cascade');
+            $table->foreign('created_by')->references('id')->on('users')->onDelete('set null');
+            $table->unique(['contract_id', 'version_number'], 'uq_contract_versions_number');
+        });
+
+        Schema::create('contract_comments', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('contract_id');
+            // Version the comment was made against
+            $table->uuid('version_id')->nullable();
+            // Section the comment is about, and the text it quotes
+            $table->string('section_id')->nullable();
+            $table->text('quoted_text')->nullable();
+            $table->text('body');
+            // client or user
+            $table->string('author_type', 20);
+            $table->string('author_name');
+            $table->string('author_email')->nullable();
+            $table->uuid('signer_id')->nullable();
+            $table->uuid('user_id')->nullable();
+            $table->timestampTz('resolved_at')->nullable();
+            $table->uuid('resolved_by')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('contract_id')->references('id')->on('contracts')->onDelete('cascade');
+            $table->foreign('version_id')->references('id')->on('contract_versions')->onDelete('set null');
+            $table->foreign('signer_id')->references('id')->on('contract_signers')->onDelete('set null');
+            $table->foreign('user_id')->references('id')->on('users')->onDelete('set null');
+            $table->foreign('resolved_by')->references('id')->on('users')->onDelete('set null');
+            $table->index('contract_id', 'idx_contract_comments_contract');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('contract_comments');
+        Schema::dropIfExists('contract_versions');
+    }
+};
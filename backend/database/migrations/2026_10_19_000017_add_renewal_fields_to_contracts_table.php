@@ -0,0 +1,49 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('contracts', function (Blueprint $table) {
+            // End of the signed contract's term; expires_at stays the signing deadline
+            $table->timestampTz('ends_at')->nullable()->after('expires_at');
+            // none: ends at ends_at; manual: a renewal contract is sent; auto: the term extends itself
+            $table->string('renewal_type', 20)->default('none')->after('ends_at');
+            $table->unsignedSmallInteger('renewal_term_months')->nullable()->after('renewal_type');
+            // Days before ends_at by which notice must be given
+            $table->unsignedSmallInteger('notice_period_days')->nullable()->after('renewal_term_months');
+            $table->timestampTz('renewal_notice_sent_at')->nullable()->after('notice_period_days');
+            // The contract this one renews
+            $table->uuid('renewed_from_id')->nullable()->after('renewal_notice_sent_at');
+
+            $table->foreign('renewed_from_id')->references('id')->on('contracts')->onDelete('set null');
+            $table->index(['company_id', 'status', 'ends_at'], 'idx_contracts_term_end');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('contracts', function (Blueprint $table) {
+            $table->dropForeign(['renewed_from_id']);
+            $table->dropIndex('idx_contracts_term_end');
+            $table->dropColumn([
+                'ends_at',
+                'renewal_type',
+                'renewal_term_months',
+                'notice_period_days',
+                'renewal_notice_sent_at',
+                'renewed_from_id',
+            ]);
+        });
+    }
+};
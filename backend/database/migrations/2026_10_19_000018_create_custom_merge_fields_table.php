@@ -0,0 +1,39 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('custom_merge_fields', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+            // Used in templates as {{key}}, e.g. client.vat_number
+            $table->string('key', 100);
+            $table->string('label', 150);
+            $table->string('type', 20)->default('text');
+            $table->string('category', 20)->default('contract');
+            $table->text('default_value')->nullable();
+            // Date format or currency code, depending on type
+            $table->string('format', 30)->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->unique(['company_id', 'key'], 'uq_custom_merge_fields_company_key');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('custom_merge_fields');
+    }
+};
@@ -0,0 +1,55 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('contract_clauses', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('company_id');
+            $table->string('name', 150);
+            $table->string('description', 500)->nullable();
+            $table->jsonb('tags')->default('[]');
+            // Current content, the same HTML as a paragraph section
+            $table->text('html');
+            $table->unsignedInteger('version')->default(1);
+            $table->uuid('created_by')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('company_id')->references('id')->on('companies')->onDelete('cascade');
+            $table->foreign('created_by')->references('id')->on('users')->onDelete('set null');
+            $table->index('company_id', 'idx_contract_clauses_company');
+        });
+
+        Schema::create('contract_clause_versions', function (Blueprint $table) {
+            $table->uuid('id')->primary();
+            $table->uuid('clause_id');
+            $table->unsignedInteger('version_number');
+            $table->string('name', 150);
+            $table->text('html');
+            $table->string('change_summary', 500)->nullable();
+            $table->uuid('created_by')->nullable();
+            $table->timestampsTz();
+
+            $table->foreign('clause_id')->references('id')->on('contract_clauses')->onDelete('cascade');
+            $table->foreign('created_by')->references('id')->on('users')->onDelete('set null');
+            $table->unique(['clause_id', 'version_number'], 'uq_contract_clause_versions_number');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('contract_clause_versions');
+        Schema::dropIfExists('contract_clauses');
+    }
+};
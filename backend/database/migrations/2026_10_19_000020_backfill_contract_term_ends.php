@@ -0,0 +1,40 @@
+<?php
+
+use App\Services\ContractRenewalService;
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Support\Carbon;
+use Illuminate\Support\Facades\DB;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Contracts signed before the term end was tracked get one from their
+     * signing date and renewal term, so they show up for renewal.
+     */
+    public function up(): void
+    {
+        DB::table('contracts')
+            ->where('status', 'signed')
+            ->whereNull('ends_at')
+            ->chunkById(200, function ($contracts) {
+                foreach ($contracts as $contract) {
+                    $signedAt = Carbon::parse($contract->client_signed_at ?? $contract->updated_at);
+                    $termMonths = $contract->renewal_term_months ?: ContractRenewalService::DEFAULT_TERM_MONTHS;
+
+                    DB::table('contracts')
+                        ->where('id', $contract->id)
+                        ->update(['ends_at' => $signedAt->addMonths($termMonths)]);
+                }
+            });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        // Backfilled term ends can't be told apart from ones set since, so they are kept
+    }
+};
@@ -0,0 +1,41 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Str;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Deals created before stage history was kept start it in their current
+     * stage, as of when they were created.
+     */
+    public function up(): void
+    {
+        DB::table('deals')
+            ->whereNotExists(fn($query) => $query->select(DB::raw(1))
+                ->from('deal_stage_changes')
+                ->whereColumn('deal_stage_changes.deal_id', 'deals.id'))
+            ->select(['id', 'stage', 'created_at'])
+            ->chunkById(500, function ($deals) {
+                DB::table('deal_stage_changes')->insert($deals->map(fn($deal) => [
+                    'id' => (string) Str::uuid(),
+                    'deal_id' => $deal->id,
+                    'from_stage' => null,
+                    'to_stage' => $deal->stage,
+                    'changed_by' => null,
+                    'created_at' => $deal->created_at ?? now(),
+                ])->all());
+            });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        // Backfilled entries can't be told apart from those recorded when a deal is created, so they are kept
+    }
+};
@@ -0,0 +1,40 @@
+@extends('emails.layouts.base')
+
+@section('title', 'Please sign ' . $contract->title)
+
+@section('preheader')
+{{ $companyName }} asked you to sign {{ $contract->title }}.
+@endsection
+
+@section('content')
+    @include('emails.components.heading', ['text' => 'Signature requested'])
+
+    @include('emails.components.paragraph', [
+        'text' => 'Hello <strong style="color: #f5f7ff;">' . e($signer->name) . '</strong>,'
+    ])
+
+    @include('emails.components.paragraph', [
+        'text' => e($companyName) . ' asked you to sign <strong style="color: #f5f7ff;">' . e($contract->title) . '</strong>'
+            . ($contract->contract_number ? ' (' . e($contract->contract_number) . ')' : '')
+            . ' as ' . e($signer->title ?: ucfirst($signer->role)) . '.'
+    ])
+
+    <div style="padding: 10px 0 20px 0;">
+        @include('emails.components.button', [
+            'url' => $signingUrl,
+            'text' => 'Review and Sign'
+        ])
+    </div>
+
+    @include('emails.components.paragraph', [
+        'text' => 'This link is personal to you. Please do not forward it.',
+        'muted' => true,
+        'small' => true
+    ])
+@endsection
+
+@section('footer')
+    <p style="margin: 0; font-size: 12px; color: #6b6e7a; text-align: center;">
+        © {{ date('Y') }} {{ $companyName }} • This is an automated message, please do not reply.
+    </p>
+@endsection
@@ -0,0 +1,31 @@
+@extends('emails.layouts.base')
+
+@section('title', $subjectLine)
+
+@section('preheader')
+{{ $subjectLine }}
+@endsection
+
+@section('content')
+    @include('emails.components.heading', ['text' => $subjectLine])
+
+    @foreach($paragraphs as $paragraph)
+        @include('emails.components.paragraph', [
+            'text' => nl2br(e($paragraph)),
+            'align' => 'left'
+        ])
+    @endforeach
+
+    <div style="padding: 10px 0 20px 0;">
+        @include('emails.components.button', [
+            'url' => $paymentUrl,
+            'text' => 'View & Pay Invoice'
+        ])
+    </div>
+@endsection
+
+@section('footer')
+    <p style="margin: 0; font-size: 12px; color: #6b6e7a; text-align: center;">
+        © {{ date('Y') }} {{ $companyName }} • This is an automated message, please do not reply.
+    </p>
+@endsection
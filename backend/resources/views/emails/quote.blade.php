@@ -0,0 +1,41 @@
+@extends('emails.layouts.base')
+
+@section('title', 'Quote ' . $quote->quote_number)
+
+@section('preheader')
+{{ $companyName }} sent you quote {{ $quote->quote_number }}.
+@endsection
+
+@section('content')
+    @include('emails.components.heading', ['text' => 'Quote ' . $quote->quote_number])
+
+    @include('emails.components.paragraph', [
+        'text' => 'Hello <strong style="color: #f5f7ff;">' . e($recipientName) . '</strong>,'
+    ])
+
+    @include('emails.components.paragraph', [
+        'text' => e($companyName) . ' sent you a quote'
+            . ($quote->title ? ' for <strong style="color: #f5f7ff;">' . e($quote->title) . '</strong>' : '')
+            . ' of <strong style="color: #f5f7ff;">' . e(number_format((float) $quote->total, 2) . ' ' . $quote->currency) . '</strong>.'
+            . ' It is valid until ' . e($quote->valid_until->format('F j, Y')) . '.'
+    ])
+
+    <div style="padding: 10px 0 20px 0;">
+        @include('emails.components.button', [
+            'url' => $quoteUrl,
+            'text' => 'Review Quote'
+        ])
+    </div>
+
+    @include('emails.components.paragraph', [
+        'text' => 'You can accept or decline the quote from the link above.',
+        'muted' => true,
+        'small' => true
+    ])
+@endsection
+
+@section('footer')
+    <p style="margin: 0; font-size: 12px; color: #6b6e7a; text-align: center;">
+        © {{ date('Y') }} {{ $companyName }} • This is an automated message, please do not reply.
+    </p>
+@endsection
@@ -0,0 +1,44 @@
+@extends('emails.layouts.base')
+
+@section('title', 'Join ' . $companyName)
+
+@section('preheader')
+You've been invited to join {{ $companyName }}.
+@endsection
+
+@section('content')
+    @include('emails.components.heading', ['text' => "You've Been Invited!"])
+
+    @include('emails.components.paragraph', [
+        'text' => ($inviterName ? '<strong style="color: #f5f7ff;">' . e($inviterName) . '</strong> invited you' : "You've been invited")
+            . ' to join the <strong style="color: #f5f7ff;">' . e($companyName) . '</strong> team as ' . e($invitation->role_in_company) . '.'
+    ])
+
+    <div style="padding: 10px 0 20px 0;">
+        @include('emails.components.button', [
+            'url' => $acceptUrl,
+            'text' => 'Accept Invitation'
+        ])
+    </div>
+
+    @include('emails.components.paragraph', [
+        'text' => 'Sign in or create an account with ' . e($invitation->email) . ' to accept. The invitation expires on '
+            . e($invitation->expires_at?->toFormattedDateString()) . '.',
+        'muted' => true,
+        'small' => true
+    ])
+
+    <div style="margin-top: 30px;">
+        @include('emails.components.paragraph', [
+            'text' => "If you weren't expecting this invitation, you can safely ignore this email.",
+            'muted' => true,
+            'small' => true
+        ])
+    </div>
+@endsection
+
+@section('footer')
+    <p style="margin: 0; font-size: 12px; color: #6b6e7a; text-align: center;">
+        © {{ date('Y') }} {{ $companyName }} • This is an automated message, please do not reply.
+    </p>
+@endsection
@@ -92,6 +92,22 @@
     Route::get('/companies/{id}', [App\Http\Controllers\Api\CompanyController::class, 'show']);
     Route::put('/companies/{id}', [App\Http\Controllers\Api\CompanyController::class, 'update']);
     
+    // Company Settings (active company from X-Company-ID)
+    Route::get('/company/settings', [App\Http\Controllers\Api\CompanyController::class, 'settings']);
+    Route::put('/company/settings', [App\Http\Controllers\Api\CompanyController::class, 'updateSettings']);
+    
+    // Company Members
+    Route::get('/companies/{id}/members', [App\Http\Controllers\Api\CompanyController::class, 'members']);
+    Route::put('/companies/{id}/members/{userId}', [App\Http\Controllers\Api\CompanyController::class, 'updateMember']);
+    Route::delete('/companies/{id}/members/{userId}', [App\Http\Controllers\Api\CompanyController::class, 'removeMember']);
+    
+    // Company Invitations
+    Route::get('/companies/{companyId}/invitations', [App\Http\Controllers\Api\CompanyInvitationController::class, 'index']);
+    Route::post('/companies/{companyId}/invitations', [App\Http\Controllers\Api\CompanyInvitationController::class, 'store']);
+    Route::delete('/companies/{companyId}/invitations/{id}', [App\Http\Controllers\Api\CompanyInvitationController::class, 'destroy']);
+    Route::post('/companies/{companyId}/invitations/{id}/resend', [App\Http\Controllers\Api\CompanyInvitationController::class, 'resend']);
+    Route::post('/company-invitations/{token}/accept', [App\Http\Controllers\Api\CompanyInvitationController::class, 'accept']);
+    
     // Projects
     Route::get('/projects', [App\Http\Controllers\Api\ProjectController::class, 'index']);
     Route::post('/projects', [App\Http\Controllers\Api\ProjectController::class, 'store']);
@@ -135,6 +151,7 @@
     
     // Tasks - Dashboard (must be before {id} routes)
     Route::get('/tasks/dashboard', [App\Http\Controllers\Api\TaskController::class, 'dashboard']);
+    Route::get('/tasks', [App\Http\Controllers\Api\TaskController::class, 'search']);
     
     // Tasks
     Route::get('/topics/{topicId}/tasks', [App\Http\Controllers\Api\TaskController::class, 'index']);
@@ -156,6 +173,22 @@
     
     // Task Activity
     Route::get('/tasks/{id}/activity', [App\Http\Controllers\Api\TaskActivityController::class, 'taskActivity']);
+
+    // Time Tracking
+    Route::post('/tasks/{taskId}/timer', [App\Http\Controllers\Api\TimeEntryController::class, 'start']);
+    Route::get('/time-entries', [App\Http\Controllers\Api\TimeEntryController::class, 'index']);
+    Route::get('/time-entries/running', [App\Http\Controllers\Api\TimeEntryController::class, 'running']);
+    Route::post('/time-entries', [App\Http\Controllers\Api\TimeEntryController::class, 'store']);
+    Route::post('/time-entries/{id}/stop', [App\Http\Controllers\Api\TimeEntryController::class, 'stop']);
+    Route::put('/time-entries/{id}', [App\Http\Controllers\Api\TimeEntryController::class, 'update']);
+    Route::delete('/time-entries/{id}', [App\Http\Controllers\Api\TimeEntryController::class, 'destroy']);
+
+    // Timesheets
+    Route::get('/timesheets', [App\Http\Controllers\Api\TimesheetController::class, 'show']);
+    Route::get('/timesheets/team', [App\Http\Controllers\Api\TimesheetController::class, 'team']);
+    Route::post('/timesheets/submit', [App\Http\Controllers\Api\TimesheetController::class, 'submit']);
+    Route::post('/timesheets/{id}/approve', [App\Http\Controllers\Api\TimesheetController::class, 'approve']);
+    Route::post('/timesheets/{id}/reject', [App\Http\Controllers\Api\TimesheetController::class, 'reject']);
     
     // Smart Import
     Route::get('/smart-import', [App\Http\Controllers\Api\SmartImportController::class, 'index']);
@@ -200,12 +233,19 @@
     // Deals (Sales Pipeline)
     Route::get('/deals', [App\Http\Controllers\Api\DealController::class, 'index']);
     Route::get('/deals/stats', [App\Http\Controllers\Api\DealController::class, 'stats']);
+    Route::get('/deals/forecast', [App\Http\Controllers\Api\DealController::class, 'forecast']);
     Route::post('/deals', [App\Http\Controllers\Api\DealController::class, 'store']);
     Route::get('/deals/{id}', [App\Http\Controllers\Api\DealController::class, 'show']);
     Route::patch('/deals/{id}', [App\Http\Controllers\Api\DealController::class, 'update']);
     Route::put('/deals/{id}', [App\Http\Controllers\Api\DealController::class, 'update']);
     Route::delete('/deals/{id}', [App\Http\Controllers\Api\DealController::class, 'destroy']);
 
+    // Deal Pipelines
+    Route::get('/deal-pipelines', [App\Http\Controllers\Api\DealPipelineController::class, 'index']);
+    Route::post('/deal-pipelines', [App\Http\Controllers\Api\DealPipelineController::class, 'store']);
+    Route::put('/deal-pipelines/{id}', [App\Http\Controllers\Api\DealPipelineController::class, 'update']);
+    Route::delete('/deal-pipelines/{id}', [App\Http\Controllers\Api\DealPipelineController::class, 'destroy']);
+
     // AI Suggestions
     Route::get('/ai/dashboard-suggestions', [App\Http\Controllers\Api\AISuggestionController::class, 'dashboardSuggestions']);
     Route::post('/ai/suggestions', [App\Http\Controllers\Api\AISuggestionController::class, 'suggestions']); // Legacy
@@ -281,29 +321,85 @@
     Route::apiResource('contract-templates', App\Http\Controllers\Api\ContractTemplateController::class);
     Route::post('contract-templates/generate-ai', [App\Http\Controllers\Api\ContractTemplateController::class, 'generateWithAi']);
     Route::post('contract-templates/generate-section-ai', [App\Http\Controllers\Api\ContractTemplateController::class, 'generateSectionWithAi']);
+    Route::post('contract-templates/import', [App\Http\Controllers\Api\ContractTemplateController::class, 'import']);
+    Route::get('contract-templates/{id}/export', [App\Http\Controllers\Api\ContractTemplateController::class, 'export']);
+
+    // Contract Clause Library
+    Route::apiResource('contract-clauses', App\Http\Controllers\Api\ContractClauseController::class);
     
     // Contracts
+    Route::get('contracts/renewals', [App\Http\Controllers\Api\ContractController::class, 'renewals']);
     Route::apiResource('contracts', App\Http\Controllers\Api\ContractController::class);
     Route::post('contracts/{id}/send', [App\Http\Controllers\Api\ContractController::class, 'send']);
     Route::get('contracts/{id}/pdf', [App\Http\Controllers\Api\ContractController::class, 'downloadPdf']);
     Route::get('contracts/{id}/events', [App\Http\Controllers\Api\ContractController::class, 'events']);
+    Route::get('contracts/{id}/signatures', [App\Http\Controllers\Api\ContractController::class, 'signatures']);
+    Route::put('contracts/{id}/signers', [App\Http\Controllers\Api\ContractController::class, 'updateSigners']);
+    Route::get('contracts/{id}/versions', [App\Http\Controllers\Api\ContractController::class, 'versions']);
+    Route::get('contracts/{id}/comments', [App\Http\Controllers\Api\ContractController::class, 'comments']);
+    Route::patch('contracts/{id}/comments/{commentId}', [App\Http\Controllers\Api\ContractController::class, 'resolveComment']);
+    Route::put('contracts/{id}/renewal-settings', [App\Http\Controllers\Api\ContractController::class, 'updateRenewalSettings']);
+    Route::post('contracts/{id}/renew', [App\Http\Controllers\Api\ContractController::class, 'renew']);
+    Route::post('contracts/{id}/invoice-schedule', [App\Http\Controllers\Api\InvoiceScheduleController::class, 'storeFromContract']);
     
     // Invoice Templates
     Route::apiResource('invoice-templates', App\Http\Controllers\Api\InvoiceTemplateController::class);
+
+    // Tax Rates
+    Route::apiResource('tax-rates', App\Http\Controllers\Api\TaxRateController::class)->except(['show']);
+
+    // Custom Merge Fields
+    Route::get('merge-fields/available', [App\Http\Controllers\Api\CustomMergeFieldController::class, 'available']);
+    Route::apiResource('merge-fields', App\Http\Controllers\Api\CustomMergeFieldController::class)->except(['show']);
+    
+    // Recurring Invoice Schedules
+    Route::get('invoice-schedules', [App\Http\Controllers\Api\InvoiceScheduleController::class, 'index']);
+    Route::get('invoice-schedules/upcoming', [App\Http\Controllers\Api\InvoiceScheduleController::class, 'upcoming']);
+    Route::post('invoice-schedules/{id}/pause', [App\Http\Controllers\Api\InvoiceScheduleController::class, 'pause']);
+    Route::post('invoice-schedules/{id}/resume', [App\Http\Controllers\Api\InvoiceScheduleController::class, 'resume']);
+    Route::put('invoice-schedules/{id}/occurrences/{sequence}', [App\Http\Controllers\Api\InvoiceScheduleController::class, 'updateOccurrence'])->whereNumber('sequence');
+    Route::get('invoices/{id}/schedule', [App\Http\Controllers\Api\InvoiceScheduleController::class, 'showForInvoice']);
+    Route::post('invoices/{id}/schedule', [App\Http\Controllers\Api\InvoiceScheduleController::class, 'saveForInvoice']);
+    Route::delete('invoices/{id}/schedule', [App\Http\Controllers\Api\InvoiceScheduleController::class, 'destroyForInvoice']);
     
     // Invoices
+    Route::get('invoices/aging', [App\Http\Controllers\Api\InvoiceController::class, 'aging']);
     Route::apiResource('invoices', App\Http\Controllers\Api\InvoiceController::class);
     Route::post('invoices/{id}/send', [App\Http\Controllers\Api\InvoiceController::class, 'send']);
     Route::get('invoices/{id}/pdf', [App\Http\Controllers\Api\InvoiceController::class, 'downloadPdf']);
     Route::get('invoices/{id}/events', [App\Http\Controllers\Api\InvoiceController::class, 'events']);
     
+    // Invoice Reminders (dunning)
+    Route::get('invoice-reminders/schedule', [App\Http\Controllers\Api\InvoiceReminderController::class, 'schedule']);
+    Route::get('invoices/{id}/reminders', [App\Http\Controllers\Api\InvoiceReminderController::class, 'show']);
+    Route::post('invoices/{id}/reminders/pause', [App\Http\Controllers\Api\InvoiceReminderController::class, 'pause']);
+    Route::post('invoices/{id}/reminders/resume', [App\Http\Controllers\Api\InvoiceReminderController::class, 'resume']);
+    Route::post('contacts/{contactId}/invoice-reminders/pause', [App\Http\Controllers\Api\InvoiceReminderController::class, 'pauseContact']);
+    Route::post('contacts/{contactId}/invoice-reminders/resume', [App\Http\Controllers\Api\InvoiceReminderController::class, 'resumeContact']);
+    
+    // Quotes
+    Route::apiResource('quotes', App\Http\Controllers\Api\QuoteController::class);
+    Route::post('quotes/{id}/send', [App\Http\Controllers\Api\QuoteController::class, 'send']);
+    Route::post('quotes/{id}/convert', [App\Http\Controllers\Api\QuoteController::class, 'convert']);
+    
+    // Credit Notes
+    Route::get('invoices/{invoiceId}/credit-notes', [App\Http\Controllers\Api\CreditNoteController::class, 'index']);
+    Route::post('invoices/{invoiceId}/credit-notes', [App\Http\Controllers\Api\CreditNoteController::class, 'store']);
+    Route::post('invoices/{invoiceId}/void', [App\Http\Controllers\Api\CreditNoteController::class, 'voidInvoice']);
+    Route::post('credit-notes/{id}/apply', [App\Http\Controllers\Api\CreditNoteController::class, 'apply']);
+    Route::post('credit-notes/{id}/void', [App\Http\Controllers\Api\CreditNoteController::class, 'void']);
+    Route::get('credit-notes/{id}/pdf', [App\Http\Controllers\Api\CreditNoteController::class, 'pdf']);
+    
     // Invoice Line Items
     Route::post('invoices/{invoiceId}/line-items', [App\Http\Controllers\Api\InvoiceController::class, 'addLineItem']);
     Route::put('invoices/{invoiceId}/line-items/{itemId}', [App\Http\Controllers\Api\InvoiceController::class, 'updateLineItem']);
     Route::delete('invoices/{invoiceId}/line-items/{itemId}', [App\Http\Controllers\Api\InvoiceController::class, 'deleteLineItem']);
     
     // Payments
-    Route::apiResource('payments', App\Http\Controllers\Api\PaymentController::class)->only(['index', 'show']);
+    Route::apiResource('payments', App\Http\Controllers\Api\PaymentController::class)->only(['index', 'show', 'destroy']);
+    Route::post('payments/{id}/refund', [App\Http\Controllers\Api\PaymentController::class, 'refund']);
+    Route::get('invoices/{invoiceId}/payments', [App\Http\Controllers\Api\PaymentController::class, 'ledger']);
+    Route::post('invoices/{invoiceId}/payments', [App\Http\Controllers\Api\PaymentController::class, 'store']);
     Route::post('payments/webhook', [App\Http\Controllers\Api\PaymentController::class, 'webhook']);
 });
 
@@ -315,9 +411,15 @@
     Route::get('contracts/{token}', [App\Http\Controllers\Api\PublicDocumentController::class, 'showContract']);
     Route::post('contracts/{token}/sign', [App\Http\Controllers\Api\PublicDocumentController::class, 'signContract']);
     Route::post('contracts/{token}/decline', [App\Http\Controllers\Api\PublicDocumentController::class, 'declineContract']);
+    Route::post('contracts/{token}/comments', [App\Http\Controllers\Api\PublicDocumentController::class, 'commentOnContract']);
     
     // Public Invoice Viewing & Payment
     Route::get('invoices/{token}', [App\Http\Controllers\Api\PublicDocumentController::class, 'showInvoice']);
     Route::post('invoices/{token}/payment-intent', [App\Http\Controllers\Api\PublicDocumentController::class, 'createPaymentIntent']);
+
+    // Public Quote Viewing & Acceptance
+    Route::get('quotes/{token}', [App\Http\Controllers\Api\PublicDocumentController::class, 'showQuote']);
+    Route::post('quotes/{token}/accept', [App\Http\Controllers\Api\PublicDocumentController::class, 'acceptQuote']);
+    Route::post('quotes/{token}/decline', [App\Http\Controllers\Api\PublicDocumentController::class, 'declineQuote']);
 });
 
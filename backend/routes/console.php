@@ -2,7 +2,12 @@
 
 use Illuminate\Foundation\Inspiring;
 use Illuminate\Support\Facades\Artisan;
+use Illuminate\Support\Facades\Schedule;
 
 Artisan::command('inspire', function () {
     $this->comment(Inspiring::quote());
 })->purpose('Display an inspiring quote');
+
+Schedule::command('invoices:generate-recurring')->dailyAt('06:00')->withoutOverlapping();
+Schedule::command('invoices:send-reminders')->dailyAt('07:00')->withoutOverlapping();
+Schedule::command('contracts:process-renewals')->dailyAt('06:30')->withoutOverlapping();